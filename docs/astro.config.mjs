@@ -31,6 +31,7 @@ export default defineConfig({
             { slug: 'anatomy/context' },
             { slug: 'anatomy/outputs' },
             { slug: 'anatomy/audit' },
+            { slug: 'anatomy/blueprints' },
           ]
         },
         {
@@ -4,9 +4,16 @@ import { fileExists, findMarkdownFiles } from "@repo-agents/cli-utils/files";
 import { logger } from "@repo-agents/cli-utils/logger";
 import { getExistingSecrets } from "@repo-agents/cli-utils/secrets";
 import { workflowValidator } from "@repo-agents/cli-utils/workflow-validator";
+import { resolveAgentChains } from "@repo-agents/generator/chains";
+import { describeWriteScopes } from "@repo-agents/generator/permissions";
 import { unifiedWorkflowGenerator } from "@repo-agents/generator/unified";
-import { agentParser } from "@repo-agents/parser";
-import type { AgentDefinition, CompileResult, ValidationError } from "@repo-agents/types";
+import { agentParser, loadRepositoryConfig, REPOSITORY_CONFIG_FILE } from "@repo-agents/parser";
+import type {
+  AgentDefinition,
+  CompileResult,
+  RepositoryConfig,
+  ValidationError,
+} from "@repo-agents/types";
 import chalk from "chalk";
 import ora from "ora";
 
@@ -40,6 +47,17 @@ export async function compileCommand(options: CompileOptions): Promise<void> {
 
   spinner.succeed(`Found ${files.length} agent file(s)`);
 
+  // Repository-wide settings apply to every agent
+  const { config: repositoryConfig, errors: repositoryConfigErrors } =
+    await loadRepositoryConfig(cwd);
+  if (repositoryConfigErrors.length > 0) {
+    logger.error(`Invalid ${REPOSITORY_CONFIG_FILE}`);
+    repositoryConfigErrors.forEach((error) => {
+      logger.log(chalk.red(`  ✗ ${error.field}: ${error.message}`));
+    });
+    process.exit(1);
+  }
+
   // Phase 1: Parse and validate all agents
   const parsedAgents: { agent: AgentDefinition; filePath: string; errors: ValidationError[] }[] =
     [];
@@ -92,6 +110,7 @@ export async function compileCommand(options: CompileOptions): Promise<void> {
     logger.log("  • Invalid YAML frontmatter syntax");
     logger.log("  • update-file output requires allowed-paths");
     logger.log("  • create-pr/update-file require contents: write permission");
+    logger.log("  • Missing blueprint parameters (set them under parameters:)");
     logger.newline();
     logger.info("Run 'repo-agents validate --all' for detailed validation");
     process.exit(1);
@@ -106,6 +125,16 @@ export async function compileCommand(options: CompileOptions): Promise<void> {
 
   const agents = parsedAgents.map((p) => p.agent);
 
+  // Chained agents (then:/needs:) must reference existing agents without cycles
+  const chainErrors = resolveAgentChains(agents).errors;
+  if (chainErrors.length > 0) {
+    logger.error("Invalid agent chains");
+    chainErrors.forEach((error) => {
+      logger.log(chalk.red(`  ✗ ${error.field}: ${error.message}`));
+    });
+    process.exit(1);
+  }
+
   // Phase 2: Detect available secrets
   logger.newline();
   const secretsSpinner = ora("Detecting available secrets...").start();
@@ -127,7 +156,7 @@ export async function compileCommand(options: CompileOptions): Promise<void> {
   // Phase 3: Generate unified workflow
   const workflowSpinner = ora("Generating unified workflow...").start();
 
-  const unifiedWorkflow = unifiedWorkflowGenerator.generate(agents, secrets);
+  const unifiedWorkflow = unifiedWorkflowGenerator.generate(agents, secrets, repositoryConfig);
 
   try {
     const schemaErrors = await workflowValidator.validateWorkflow(unifiedWorkflow);
@@ -148,6 +177,7 @@ export async function compileCommand(options: CompileOptions): Promise<void> {
   }
 
   workflowSpinner.succeed("Generated unified workflow");
+  printPermissionReport(agents, repositoryConfig);
 
   // Phase 4: Build compile results
   const results: CompileResult[] = parsedAgents.map(({ filePath, errors }) => ({
@@ -213,6 +243,29 @@ async function cleanupOldWorkflows(workflowsDir: string): Promise<void> {
   }
 }
 
+/**
+ * Print the write scopes each agent job gets, and which setting forced each of them.
+ */
+function printPermissionReport(
+  agents: AgentDefinition[],
+  repositoryConfig: RepositoryConfig | undefined,
+): void {
+  const reports = unifiedWorkflowGenerator.permissionReports(agents, repositoryConfig);
+
+  logger.newline();
+  logger.info("Permissions:");
+  for (const [job, report] of Object.entries(reports)) {
+    if (!job.startsWith("agent-") || job.endsWith("-approval")) {
+      continue;
+    }
+    const lines = describeWriteScopes(report);
+    logger.log(`  ${chalk.cyan(job)}${lines.length === 0 ? chalk.gray(" read-only") : ""}`);
+    for (const line of lines) {
+      logger.log(chalk.gray(`    ${line}`));
+    }
+  }
+}
+
 function printSummary(results: CompileResult[], dryRun: boolean): void {
   const successful = results.filter((r) => r.success).length;
   const failed = results.filter((r) => !r.success).length;
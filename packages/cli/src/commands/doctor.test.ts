@@ -0,0 +1,201 @@
+import { describe, expect, it } from "bun:test";
+import { unifiedWorkflowGenerator } from "@repo-agents/generator/unified";
+import type { AgentDefinition } from "@repo-agents/types";
+import { type DoctorInput, diagnoseRepository, type GhRunner } from "./doctor";
+
+/**
+ * Answers gh commands by the start of their arguments; anything else fails like a 404.
+ */
+function fakeGh(responses: Record<string, unknown>): GhRunner {
+  return (args) => {
+    const command = args.join(" ");
+    const match = Object.keys(responses).find((prefix) => command.startsWith(prefix));
+    if (!match) {
+      throw new Error(`gh: Not Found (${command})`);
+    }
+    return JSON.stringify(responses[match]);
+  };
+}
+
+const agent: AgentDefinition = {
+  name: "Triage",
+  markdown: "Triage new issues",
+  on: { issues: { types: ["opened"] } },
+};
+
+const diagnose = (input: Partial<DoctorInput> & Pick<DoctorInput, "agents" | "gh">) =>
+  diagnoseRepository({ repository: "acme/app", ...input });
+
+describe("diagnoseRepository", () => {
+  it("should report labels that do not exist, ignoring case", () => {
+    const problems = diagnose({
+      agents: [
+        {
+          ...agent,
+          trigger_labels: ["Needs-Triage"],
+          skip_labels: ["wontfix"],
+          outputs: { "manage-labels": { protected_labels: ["security"] } },
+        },
+      ],
+      gh: fakeGh({ "label list": [{ name: "needs-triage" }] }),
+    });
+
+    expect(problems).toEqual([
+      {
+        agent: "Triage",
+        field: "skip_labels",
+        message: 'Label "wontfix" does not exist',
+        hint: 'Create it: gh label create "wontfix" --repo acme/app',
+      },
+      {
+        agent: "Triage",
+        field: "outputs.manage-labels.protected_labels",
+        message: 'Label "security" does not exist',
+        hint: 'Create it: gh label create "security" --repo acme/app',
+      },
+    ]);
+  });
+
+  it("should look each resource up once for all agents", () => {
+    const calls: string[] = [];
+    const gh = fakeGh({ "label list": [{ name: "bug" }] });
+
+    diagnose({
+      agents: [
+        { ...agent, trigger_labels: ["bug"] },
+        { ...agent, name: "Other", skip_labels: ["bug"] },
+      ],
+      gh: (args) => {
+        calls.push(args.slice(0, 2).join(" "));
+        return gh(args);
+      },
+    });
+
+    expect(calls.filter((call) => call === "label list")).toHaveLength(1);
+  });
+
+  it("should report discussion categories and projects that do not resolve", () => {
+    const problems = diagnose({
+      agents: [
+        {
+          ...agent,
+          context: { discussions: { categories: ["Ideas", "Q&A"] } },
+          outputs: { "add-to-project": { project_number: 7 } },
+        },
+      ],
+      gh: fakeGh({
+        "api graphql": {
+          data: { repository: { discussionCategories: { nodes: [{ name: "Q&A" }] } } },
+        },
+        "project view 3 --owner acme": { number: 3 },
+      }),
+    });
+
+    expect(problems.map((p) => [p.field, p.message, p.hint])).toEqual([
+      [
+        "context.discussions.categories",
+        'Discussion category "Ideas" does not exist',
+        "Use one of: Q&A",
+      ],
+      [
+        "outputs.add-to-project.project_number",
+        "Project 7 of acme does not resolve",
+        "Check the project number in its URL, and that gh has the project scope: gh auth refresh -s project",
+      ],
+    ]);
+  });
+
+  it("should report teams missing from the organization", () => {
+    const problems = diagnose({
+      agents: [
+        {
+          ...agent,
+          allowed_teams: ["maintainers", "triagers"],
+          outputs: { "close-issue": { approval: { teams: ["maintainers"] } } },
+        },
+      ],
+      gh: fakeGh({
+        "api users/acme": { type: "Organization" },
+        "api orgs/acme/teams/maintainers": { slug: "maintainers" },
+      }),
+    });
+
+    expect(problems.map((p) => [p.field, p.message])).toEqual([
+      ["allowed_teams", 'Team "triagers" does not exist in acme'],
+    ]);
+  });
+
+  it("should report teams on user-owned repositories", () => {
+    const problems = diagnose({
+      agents: [{ ...agent, allowed_teams: ["maintainers"] }],
+      gh: fakeGh({ "api users/acme": { type: "User" } }),
+    });
+
+    expect(problems.map((p) => p.hint)).toEqual(["Use allowed_users instead"]);
+  });
+
+  it("should check the GitHub App installation and its permissions", () => {
+    const gh = fakeGh({
+      "secret list": [{ name: "GH_APP_ID" }, { name: "GH_APP_PRIVATE_KEY" }],
+      "api users/acme": { type: "Organization" },
+      "api orgs/acme/installations": {
+        installations: [{ app_id: 42, permissions: { issues: "write", contents: "read" } }],
+      },
+    });
+    const agents: AgentDefinition[] = [
+      { ...agent, permissions: { issues: "write", contents: "write" } },
+    ];
+
+    expect(diagnose({ agents, gh, appId: "42" }).map((p) => p.message)).toEqual([
+      "The app needs contents: write (has read)",
+    ]);
+    expect(diagnose({ agents, gh, appId: "7" }).map((p) => p.message)).toEqual([
+      "App 7 is not installed on acme",
+    ]);
+  });
+
+  it("should require the app permissions of an agent's outputs", () => {
+    const gh = fakeGh({
+      "secret list": [{ name: "GH_APP_ID" }, { name: "GH_APP_PRIVATE_KEY" }],
+      "api users/acme": { type: "Organization" },
+      "api orgs/acme/installations": {
+        installations: [{ app_id: 42, permissions: { issues: "write", contents: "read" } }],
+      },
+    });
+    const agents: AgentDefinition[] = [
+      { ...agent, outputs: { "create-pr": true, "add-comment": true, "close-pr": false } },
+    ];
+
+    expect(diagnose({ agents, gh, appId: "42" }).map((p) => p.message)).toEqual([
+      "The app needs contents: write (has read)",
+      "The app needs pull_requests: write (has none)",
+    ]);
+  });
+
+  it("should report a GitHub App with only half of its secrets", () => {
+    const problems = diagnose({
+      agents: [agent],
+      gh: fakeGh({ "secret list": [{ name: "GH_APP_ID" }] }),
+    });
+
+    expect(problems.map((p) => [p.message, p.hint])).toEqual([
+      ["Only GH_APP_ID is set", "Run: repo-agents setup-app --force"],
+    ]);
+  });
+
+  it("should report a compiled workflow that is missing or out of date", () => {
+    const gh = fakeGh({ "secret list": [{ name: "ANTHROPIC_API_KEY" }] });
+    const current = unifiedWorkflowGenerator.generate([agent], {
+      hasApiKey: true,
+      hasAccessToken: false,
+    });
+
+    expect(diagnose({ agents: [agent], gh, workflow: current })).toEqual([]);
+    expect(diagnose({ agents: [agent], gh, workflow: "name: old" }).map((p) => p.message)).toEqual([
+      "The compiled workflow is out of date with the agent definitions",
+    ]);
+    expect(diagnose({ agents: [agent], gh, workflow: null }).map((p) => p.hint)).toEqual([
+      "Run: repo-agents compile",
+    ]);
+  });
+});
@@ -0,0 +1,523 @@
+import { execFileSync } from "node:child_process";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { fileExists, findMarkdownFiles } from "@repo-agents/cli-utils/files";
+import { getGitHubRepo } from "@repo-agents/cli-utils/git";
+import { logger } from "@repo-agents/cli-utils/logger";
+import { OUTPUT_SCOPES, type ScopeLevel } from "@repo-agents/generator/permissions";
+import { unifiedWorkflowGenerator } from "@repo-agents/generator/unified";
+import { agentParser, loadRepositoryConfig, REPOSITORY_CONFIG_FILE } from "@repo-agents/parser";
+import type {
+  AgentDefinition,
+  ApprovalConfig,
+  InvocationConfig,
+  Output,
+  PermissionsConfig,
+  RepositoryConfig,
+} from "@repo-agents/types";
+import chalk from "chalk";
+import ora from "ora";
+
+interface DoctorOptions {
+  repo?: string;
+  appId?: string;
+}
+
+/**
+ * Runs a gh command and returns its standard output. Throws when the command fails,
+ * e.g. when the requested resource does not exist.
+ */
+export type GhRunner = (args: string[]) => string;
+
+/** A mismatch between an agent and the live repository, with how to fix it */
+export interface DoctorProblem {
+  agent?: string; // Unset for repository-wide problems
+  field: string;
+  message: string;
+  hint: string;
+}
+
+export interface DoctorInput {
+  repository: string; // owner/repo
+  agents: AgentDefinition[];
+  repositoryConfig?: RepositoryConfig;
+  gh: GhRunner;
+  appId?: string; // GitHub App to check the installation of
+  workflow?: string | null; // Content of the compiled agents.yml (null when missing)
+}
+
+/** Output config keys whose values are label names */
+const LABEL_KEYS = ["labels", "protected_labels"];
+
+/** Outputs whose `category` setting names a discussion category */
+const CATEGORY_OUTPUTS = ["create-discussion", "convert-to-discussion"];
+
+const DISCUSSION_CATEGORIES_QUERY = `query($owner: String!, $name: String!) {
+  repository(owner: $owner, name: $name) {
+    discussionCategories(first: 100) { nodes { name } }
+  }
+}`;
+
+export async function doctorCommand(options: DoctorOptions): Promise<void> {
+  const cwd = process.cwd();
+  const agentsDir = join(cwd, ".github", "agents");
+
+  const remote = getGitHubRepo(cwd);
+  const repository = options.repo ?? (remote ? `${remote.owner}/${remote.repo}` : undefined);
+  if (!repository) {
+    logger.error("Could not determine the repository from the git remote");
+    logger.info("Pass it explicitly: repo-agents doctor --repo owner/repo");
+    process.exit(1);
+  }
+
+  if (!(await fileExists(agentsDir))) {
+    logger.error(`Directory not found: ${agentsDir}`);
+    logger.info("Run: repo-agents init");
+    process.exit(1);
+  }
+
+  const { config: repositoryConfig, errors: repositoryConfigErrors } =
+    await loadRepositoryConfig(cwd);
+  if (repositoryConfigErrors.length > 0) {
+    logger.error(`Invalid ${REPOSITORY_CONFIG_FILE}`);
+    repositoryConfigErrors.forEach((error) => {
+      logger.log(chalk.red(`  ✗ ${error.field}: ${error.message}`));
+    });
+    process.exit(1);
+  }
+
+  const agents: AgentDefinition[] = [];
+  for (const filePath of await findMarkdownFiles(agentsDir)) {
+    const { agent, errors } = await agentParser.parseFile(filePath);
+    if (!agent || errors.some((e) => e.severity === "error")) {
+      logger.warn(`Skipping ${filePath.split("/").pop()}: it does not parse`);
+      logger.log(chalk.gray("  Run: repo-agents validate --all"));
+      continue;
+    }
+    agents.push(agent);
+  }
+
+  if (agents.length === 0) {
+    logger.warn("No agents to check");
+    return;
+  }
+
+  const workflowPath = join(cwd, ".github", "workflows", "agents.yml");
+  const workflow = (await fileExists(workflowPath)) ? await readFile(workflowPath, "utf-8") : null;
+
+  const spinner = ora(`Checking ${agents.length} agent(s) against ${repository}...`).start();
+  const problems = diagnoseRepository({
+    repository,
+    agents,
+    repositoryConfig,
+    gh: runGh,
+    appId: options.appId ?? process.env.GH_APP_ID,
+    workflow,
+  });
+
+  if (problems.length === 0) {
+    spinner.succeed(`${repository} matches its ${agents.length} agent(s)`);
+    return;
+  }
+
+  spinner.fail(`Found ${problems.length} problem(s)`);
+  logger.newline();
+  for (const [agent, agentProblems] of groupByAgent(problems)) {
+    logger.log(chalk.bold(agent ?? "Repository"));
+    for (const problem of agentProblems) {
+      logger.log(chalk.red(`  ✗ ${problem.field}: ${problem.message}`));
+      logger.log(chalk.gray(`    → ${problem.hint}`));
+    }
+    logger.newline();
+  }
+  process.exit(1);
+}
+
+/**
+ * Cross-check the agents against the repository they run in. Each lookup is made once
+ * and shared by every agent that needs it.
+ */
+export function diagnoseRepository(input: DoctorInput): DoctorProblem[] {
+  const { repository, agents, gh } = input;
+  const [owner, repo] = repository.split("/");
+  const problems: DoctorProblem[] = [];
+  const lookups = new Map<string, unknown>();
+
+  /** Run a gh command once and parse its JSON output, or undefined when it fails */
+  const lookup = <T>(args: string[]): T | undefined => {
+    const key = args.join("\0");
+    if (!lookups.has(key)) {
+      try {
+        lookups.set(key, JSON.parse(gh(args)));
+      } catch {
+        lookups.set(key, undefined);
+      }
+    }
+    return lookups.get(key) as T | undefined;
+  };
+
+  const labels = () =>
+    lookup<Array<{ name: string }>>([
+      "label",
+      "list",
+      "--repo",
+      repository,
+      "--limit",
+      "1000",
+      "--json",
+      "name",
+    ])?.map((label) => label.name.toLowerCase());
+
+  const categories = () =>
+    lookup<{ data: { repository: { discussionCategories: { nodes: Array<{ name: string }> } } } }>([
+      "api",
+      "graphql",
+      "-f",
+      `query=${DISCUSSION_CATEGORIES_QUERY}`,
+      "-F",
+      `owner=${owner}`,
+      "-F",
+      `name=${repo}`,
+    ])?.data.repository.discussionCategories.nodes.map((category) => category.name);
+
+  const ownerType = () => lookup<{ type: string }>(["api", `users/${owner}`])?.type;
+
+  for (const agent of agents) {
+    const report = (field: string, message: string, hint: string) =>
+      problems.push({ agent: agent.name, field, message, hint });
+
+    // Labels
+    const referencedLabels = collectLabels(agent);
+    if (referencedLabels.length > 0) {
+      const existing = labels();
+      if (!existing) {
+        report("labels", `Could not list the labels of ${repository}`, "Check: gh auth status");
+      } else {
+        for (const { field, label } of referencedLabels) {
+          if (!existing.includes(label.toLowerCase())) {
+            report(
+              field,
+              `Label "${label}" does not exist`,
+              `Create it: gh label create "${label}" --repo ${repository}`,
+            );
+          }
+        }
+      }
+    }
+
+    // Discussion categories
+    const referencedCategories = collectCategories(agent);
+    if (referencedCategories.length > 0) {
+      const existing = categories();
+      if (!existing) {
+        report(
+          referencedCategories[0].field,
+          `Could not list the discussion categories of ${repository}`,
+          "Enable Discussions in the repository settings",
+        );
+      } else {
+        for (const { field, category } of referencedCategories) {
+          if (!existing.includes(category)) {
+            report(
+              field,
+              `Discussion category "${category}" does not exist`,
+              existing.length > 0
+                ? `Use one of: ${existing.join(", ")}`
+                : "Create it under Discussions → Categories",
+            );
+          }
+        }
+      }
+    }
+
+    // Projects
+    for (const { field, number, projectOwner } of collectProjects(agent, owner)) {
+      const project = lookup([
+        "project",
+        "view",
+        String(number),
+        "--owner",
+        projectOwner,
+        "--format",
+        "json",
+      ]);
+      if (!project) {
+        report(
+          field,
+          `Project ${number} of ${projectOwner} does not resolve`,
+          "Check the project number in its URL, and that gh has the project scope: gh auth refresh -s project",
+        );
+      }
+    }
+
+    // Teams
+    const teams = collectTeams(agent);
+    if (teams.length > 0 && ownerType() === "User") {
+      report(
+        teams[0].field,
+        `${owner} is a user account, which has no teams`,
+        "Use allowed_users instead",
+      );
+    } else {
+      for (const { field, team } of teams) {
+        if (!lookup(["api", `orgs/${owner}/teams/${team}`])) {
+          report(
+            field,
+            `Team "${team}" does not exist in ${owner}`,
+            `Use the team slug from https://github.com/orgs/${owner}/teams`,
+          );
+        }
+      }
+    }
+  }
+
+  problems.push(...diagnoseApp(input, lookup, ownerType));
+
+  if (input.workflow !== undefined) {
+    problems.push(...diagnoseWorkflow(input, lookup));
+  }
+
+  return problems;
+}
+
+/**
+ * Check that the GitHub App is configured completely and installed with the permissions
+ * the agents need.
+ */
+function diagnoseApp(
+  input: DoctorInput,
+  lookup: <T>(args: string[]) => T | undefined,
+  ownerType: () => string | undefined,
+): DoctorProblem[] {
+  const [owner] = input.repository.split("/");
+  const secrets = listSecrets(lookup, input.repository);
+  const hasAppId = secrets.includes("GH_APP_ID");
+  const hasPrivateKey = secrets.includes("GH_APP_PRIVATE_KEY");
+
+  if (hasAppId !== hasPrivateKey) {
+    return [
+      {
+        field: "GitHub App",
+        message: `Only ${hasAppId ? "GH_APP_ID" : "GH_APP_PRIVATE_KEY"} is set`,
+        hint: "Run: repo-agents setup-app --force",
+      },
+    ];
+  }
+  if (!hasAppId || !input.appId) {
+    return [];
+  }
+
+  const endpoint =
+    ownerType() === "Organization" ? `orgs/${owner}/installations` : "user/installations";
+  const installations = lookup<{
+    installations: Array<{ app_id: number; permissions: Record<string, string> }>;
+  }>(["api", endpoint])?.installations;
+  if (!installations) {
+    return [
+      {
+        field: "GitHub App",
+        message: `Could not list the app installations of ${owner}`,
+        hint: "Check that you are an owner of the account: gh auth status",
+      },
+    ];
+  }
+
+  const installation = installations.find((i) => String(i.app_id) === input.appId);
+  if (!installation) {
+    return [
+      {
+        field: "GitHub App",
+        message: `App ${input.appId} is not installed on ${owner}`,
+        hint: 'Install it from the app settings: "Install App" → select this repository',
+      },
+    ];
+  }
+
+  const problems: DoctorProblem[] = [];
+  for (const [permission, level] of Object.entries(requiredPermissions(input.agents))) {
+    const granted = installation.permissions[permission];
+    if (granted !== level && granted !== "write") {
+      problems.push({
+        field: "GitHub App",
+        message: `The app needs ${permission}: ${level} (has ${granted ?? "none"})`,
+        hint: "Update the app's repository permissions, then accept them on the installation",
+      });
+    }
+  }
+  return problems;
+}
+
+/**
+ * Check that agents.yml is what compiling the agents would generate now.
+ */
+function diagnoseWorkflow(
+  input: DoctorInput,
+  lookup: <T>(args: string[]) => T | undefined,
+): DoctorProblem[] {
+  if (input.workflow === null) {
+    return [
+      {
+        field: "agents.yml",
+        message: "The agents have not been compiled",
+        hint: "Run: repo-agents compile",
+      },
+    ];
+  }
+
+  const secrets = listSecrets(lookup, input.repository);
+  const expected = unifiedWorkflowGenerator.generate(
+    input.agents,
+    {
+      hasApiKey: secrets.includes("ANTHROPIC_API_KEY"),
+      hasAccessToken: secrets.includes("CLAUDE_CODE_OAUTH_TOKEN"),
+    },
+    input.repositoryConfig,
+  );
+  if (expected !== input.workflow) {
+    return [
+      {
+        field: "agents.yml",
+        message: "The compiled workflow is out of date with the agent definitions",
+        hint: "Run: repo-agents compile, and commit the result",
+      },
+    ];
+  }
+  return [];
+}
+
+function listSecrets(lookup: <T>(args: string[]) => T | undefined, repository: string): string[] {
+  return (
+    lookup<Array<{ name: string }>>(["secret", "list", "--repo", repository, "--json", "name"]) ??
+    []
+  ).map((secret) => secret.name);
+}
+
+/**
+ * Labels an agent depends on: trigger and skip labels, audit issue labels and labels
+ * named in output settings.
+ */
+function collectLabels(agent: AgentDefinition): Array<{ field: string; label: string }> {
+  const labels: Array<{ field: string; label: string }> = [];
+  const add = (field: string, values: unknown) => {
+    if (Array.isArray(values)) {
+      labels.push(...values.map((label) => ({ field, label: String(label) })));
+    }
+  };
+
+  add("trigger_labels", agent.trigger_labels);
+  add("skip_labels", agent.skip_labels);
+  add("audit.labels", agent.audit?.labels);
+  for (const [output, config] of Object.entries(agent.outputs ?? {})) {
+    if (typeof config === "object") {
+      for (const key of LABEL_KEYS) {
+        add(`outputs.${output}.${key}`, config[key]);
+      }
+    }
+  }
+  return labels;
+}
+
+function collectCategories(agent: AgentDefinition): Array<{ field: string; category: string }> {
+  const categories: Array<{ field: string; category: string }> = [];
+  for (const category of agent.context?.discussions?.categories ?? []) {
+    categories.push({ field: "context.discussions.categories", category });
+  }
+  for (const output of CATEGORY_OUTPUTS) {
+    const config = agent.outputs?.[output];
+    if (typeof config === "object" && typeof config.category === "string") {
+      categories.push({ field: `outputs.${output}.category`, category: config.category });
+    }
+  }
+  return categories;
+}
+
+function collectProjects(
+  agent: AgentDefinition,
+  repositoryOwner: string,
+): Array<{ field: string; number: number; projectOwner: string }> {
+  const projects: Array<{ field: string; number: number; projectOwner: string }> = [];
+  const project = agent.context?.project;
+  if (project?.project_number) {
+    projects.push({
+      field: "context.project.project_number",
+      number: project.project_number,
+      projectOwner: project.owner ?? repositoryOwner,
+    });
+  }
+  for (const [output, config] of Object.entries(agent.outputs ?? {})) {
+    if (typeof config === "object" && typeof config.project_number === "number") {
+      projects.push({
+        field: `outputs.${output}.project_number`,
+        number: config.project_number,
+        projectOwner: typeof config.owner === "string" ? config.owner : repositoryOwner,
+      });
+    }
+  }
+  return projects;
+}
+
+/**
+ * Teams an agent depends on: allowed_teams, invocation teams and approval teams.
+ */
+function collectTeams(agent: AgentDefinition): Array<{ field: string; team: string }> {
+  const teams: Array<{ field: string; team: string }> = [];
+  for (const team of agent.allowed_teams ?? []) {
+    teams.push({ field: "allowed_teams", team });
+  }
+  const invocations = ([] as InvocationConfig[]).concat(agent.on.invocation ?? []);
+  for (const invocation of invocations) {
+    for (const team of invocation.allowed_teams ?? []) {
+      teams.push({ field: `on.invocation.${invocation.command}.allowed_teams`, team });
+    }
+  }
+  for (const [output, config] of Object.entries(agent.outputs ?? {})) {
+    const approval = typeof config === "object" ? config.approval : undefined;
+    for (const team of (approval as ApprovalConfig | undefined)?.teams ?? []) {
+      teams.push({ field: `outputs.${output}.approval.teams`, team });
+    }
+  }
+  return teams;
+}
+
+/**
+ * The highest level of each app permission any agent asks for, through its declared
+ * `permissions` or the scopes its enabled outputs execute with.
+ */
+function requiredPermissions(agents: AgentDefinition[]): Record<string, ScopeLevel> {
+  const required: Record<string, ScopeLevel> = {};
+  const require = (permission: string, level: ScopeLevel) => {
+    if (required[permission] !== "write") {
+      required[permission] = level;
+    }
+  };
+
+  for (const agent of agents) {
+    for (const [permission, level] of Object.entries(agent.permissions ?? {}) as Array<
+      [keyof PermissionsConfig, ScopeLevel]
+    >) {
+      require(permission, level);
+    }
+    for (const [output, config] of Object.entries(agent.outputs ?? {})) {
+      if (config === false) {
+        continue;
+      }
+      // App permissions are named with underscores, e.g. pull_requests
+      for (const [scope, level] of Object.entries(OUTPUT_SCOPES[output as Output] ?? {})) {
+        require(scope.replace("-", "_"), level);
+      }
+    }
+  }
+  return required;
+}
+
+function groupByAgent(problems: DoctorProblem[]): Map<string | undefined, DoctorProblem[]> {
+  const groups = new Map<string | undefined, DoctorProblem[]>();
+  for (const problem of problems) {
+    groups.set(problem.agent, [...(groups.get(problem.agent) ?? []), problem]);
+  }
+  return groups;
+}
+
+function runGh(args: string[]): string {
+  return execFileSync("gh", args, { encoding: "utf-8", stdio: ["pipe", "pipe", "pipe"] });
+}
@@ -6,7 +6,7 @@ import {
   findMarkdownFiles,
 } from "@repo-agents/cli-utils/files";
 import { logger } from "@repo-agents/cli-utils/logger";
-import { agentParser } from "@repo-agents/parser";
+import { agentParser, REPOSITORY_CONFIG_FILE } from "@repo-agents/parser";
 import type { AgentDefinition, OutputConfig } from "@repo-agents/types";
 import chalk from "chalk";
 import yaml from "js-yaml";
@@ -25,6 +25,8 @@ interface AgentInfo {
   lastModified: Date;
   permissions?: string[];
   outputs?: Record<string, OutputConfig | boolean>;
+  /** Settings taken from the repository defaults, with their effective values */
+  inherited?: Record<string, unknown>;
 }
 
 export async function listCommand(options: ListOptions): Promise<void> {
@@ -71,7 +73,7 @@ export async function listCommand(options: ListOptions): Promise<void> {
   const agentInfos: AgentInfo[] = [];
 
   for (const file of files) {
-    const { agent } = await agentParser.parseFile(file);
+    const { agent, config } = await agentParser.parseFile(file);
     if (agent) {
       const fileName = file.split("/").pop() || file;
       const workflowName = agentNameToWorkflowName(agent.name);
@@ -88,6 +90,9 @@ export async function listCommand(options: ListOptions): Promise<void> {
         lastModified: fileStat.mtime,
         permissions: getPermissions(agent),
         outputs: agent.outputs,
+        inherited: config?.inherited.length
+          ? Object.fromEntries(config.inherited.map((key) => [key, config.frontmatter[key]]))
+          : undefined,
       });
     }
   }
@@ -113,6 +118,9 @@ function getTriggers(agent: AgentDefinition): string[] {
   if (agent.on.schedule) triggers.push("schedule");
   if (agent.on.workflow_dispatch) triggers.push("manual");
   if (agent.on.repository_dispatch) triggers.push("repository_dispatch");
+  if (agent.on.push) triggers.push("push");
+  if (agent.on.release) triggers.push("release");
+  if (agent.on.workflow_run) triggers.push("workflow_run");
 
   return triggers;
 }
@@ -182,6 +190,13 @@ function printTable(agents: AgentInfo[], details: boolean, plain: boolean): void
           .join(", ");
         logger.log(applyStyle(`  Outputs: ${outputList}`, chalk.gray));
       }
+      if (agent.inherited) {
+        logger.log(applyStyle(`  From ${REPOSITORY_CONFIG_FILE}:`, chalk.gray));
+        for (const [key, value] of Object.entries(agent.inherited)) {
+          const formatted = yaml.dump(value, { flowLevel: 0 }).trim();
+          logger.log(applyStyle(`    ${key}: ${formatted}`, chalk.gray));
+        }
+      }
       logger.log(applyStyle(`  Last Modified: ${agent.lastModified.toLocaleString()}`, chalk.gray));
       logger.log("");
     }
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "bun:test";
+import { findAuditArtifactSlugs, formatOutputDiff } from "./replay";
+
+describe("findAuditArtifactSlugs", () => {
+  it("should keep only the run's agent audit artifacts", () => {
+    const names = [
+      "agent-triage-audit-123",
+      "agent-docs-writer-audit-123",
+      "agent-triage-audit-99",
+      "agent-triage-trace-123",
+      "audit-manifest",
+    ];
+
+    expect(findAuditArtifactSlugs(names, "123")).toEqual(["docs-writer", "triage"]);
+  });
+});
+
+describe("formatOutputDiff", () => {
+  it("should list each file with its changed lines", () => {
+    expect(
+      formatOutputDiff([
+        {
+          file: "add-comment.json",
+          status: "changed",
+          lines: ['-   "body": "a"', '+   "body": "b"'],
+        },
+        { file: "add-label.json", status: "unchanged", lines: [] },
+      ]),
+    ).toEqual([
+      "changed   add-comment.json",
+      '    -   "body": "a"',
+      '    +   "body": "b"',
+      "unchanged add-label.json",
+    ]);
+  });
+});
@@ -0,0 +1,288 @@
+import { execFileSync } from "node:child_process";
+import { cp, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { fileExists, findMarkdownFiles } from "@repo-agents/cli-utils/files";
+import { getGitHubRepo } from "@repo-agents/cli-utils/git";
+import { logger } from "@repo-agents/cli-utils/logger";
+import { agentParser } from "@repo-agents/parser";
+import type { StageContext } from "@repo-agents/runtime/types";
+import {
+  diffOutputDirs,
+  loadReplayBundle,
+  type OutputFileDiff,
+  type ReplayBundle,
+} from "@repo-agents/runtime/utils/replay";
+import chalk from "chalk";
+import ora from "ora";
+import { planOutputs, runAgentLocally, SCRATCH_PATHS } from "./run";
+
+interface ReplayOptions {
+  agent?: string;
+  repo?: string;
+  rerun?: boolean;
+  file?: string;
+}
+
+/** Where the agent writes its output files during a run */
+const OUTPUTS_DIR = "/tmp/outputs";
+
+/**
+ * Replay an agent from the audit artifact of a past workflow run.
+ *
+ * By default the recorded output files are fed through the outputs stage in dry-run mode.
+ * With --rerun the agent runs again with the local agent definition against the recorded
+ * context, and its output files are diffed against the original run.
+ */
+export async function replayCommand(runId: string, options: ReplayOptions): Promise<void> {
+  if (!/^\d+$/.test(runId)) {
+    logger.error(`Invalid run ID: ${runId} (expected the numeric ID from the run's URL)`);
+    process.exit(1);
+  }
+  const repository = options.repo ?? formatRepository(getGitHubRepo());
+  if (!repository) {
+    logger.error("Could not determine the repository from the git remote");
+    logger.info("Pass it explicitly: repo-agents replay <run-id> --repo owner/repo");
+    process.exit(1);
+  }
+  if (!/^[\w.-]+\/[\w.-]+$/.test(repository)) {
+    logger.error(`Invalid --repo: ${repository} (expected owner/repo)`);
+    process.exit(1);
+  }
+
+  // Find the agent's audit artifact in the run
+  let artifactName: string;
+  if (options.agent) {
+    artifactName = `agent-${slugifyAgentName(options.agent)}-audit-${runId}`;
+  } else {
+    const slugs = findAuditArtifactSlugs(listRunArtifacts(repository, runId), runId);
+    if (slugs.length !== 1) {
+      logger.error(
+        slugs.length === 0
+          ? `No agent audit artifacts found for run ${runId}`
+          : `Run ${runId} ran several agents: ${slugs.join(", ")}`,
+      );
+      logger.info("Choose one with --agent <name>");
+      process.exit(1);
+    }
+    artifactName = `agent-${slugs[0]}-audit-${runId}`;
+  }
+
+  // Exit only once the download directory is removed
+  const downloadDir = await mkdtemp(join(tmpdir(), "repo-agents-replay-"));
+  let success: boolean;
+  try {
+    success = await replayArtifact(runId, repository, artifactName, downloadDir, options);
+  } finally {
+    await rm(downloadDir, { recursive: true, force: true });
+  }
+  if (!success) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Download the audit artifact into `downloadDir` and replay its run. Returns whether the
+ * replay succeeded.
+ */
+async function replayArtifact(
+  runId: string,
+  repository: string,
+  artifactName: string,
+  downloadDir: string,
+  options: ReplayOptions,
+): Promise<boolean> {
+  const downloadSpinner = ora(`Downloading ${artifactName}...`).start();
+  try {
+    execFileSync(
+      "gh",
+      [
+        "run",
+        "download",
+        runId,
+        "--repo",
+        repository,
+        "--name",
+        artifactName,
+        "--dir",
+        downloadDir,
+      ],
+      { stdio: "pipe" },
+    );
+  } catch (error) {
+    downloadSpinner.fail(`Failed to download ${artifactName}`);
+    logger.error((error as Error).message);
+    return false;
+  }
+
+  const bundle = await loadReplayBundle(downloadDir);
+  if (!bundle) {
+    downloadSpinner.fail("The artifact has no replay data");
+    logger.info("Runs recorded before replay support cannot be replayed");
+    return false;
+  }
+  downloadSpinner.succeed(`Downloaded ${artifactName}`);
+
+  const agentPath = options.file
+    ? resolve(options.file)
+    : await findAgentFile(bundle.manifest.agent);
+  if (!agentPath || !(await fileExists(agentPath))) {
+    logger.error(`Agent file not found for ${bundle.manifest.agent}`);
+    logger.info("Pass it explicitly: repo-agents replay <run-id> --file <path>");
+    return false;
+  }
+
+  logger.info(`Replaying ${chalk.cyan(bundle.manifest.agent)} from run ${runId}`);
+  logger.log(`  Event:      ${bundle.manifest.event_name}`);
+  logger.log(`  Repository: ${bundle.manifest.repository}`);
+  logger.log(`  Actor:      ${bundle.manifest.actor}`);
+  logger.newline();
+
+  for (const path of SCRATCH_PATHS) {
+    await rm(path, { recursive: true, force: true });
+  }
+  // The outputs stage prefers EVENT_PAYLOAD over the recorded event file
+  delete process.env.EVENT_PAYLOAD;
+
+  const ctx: StageContext = {
+    repository: bundle.manifest.repository,
+    runId: `replay-${runId}`,
+    actor: bundle.manifest.actor,
+    eventName: bundle.manifest.event_name,
+    eventPath: bundle.eventPath ?? "",
+    agentPath,
+    dryRun: true,
+  };
+
+  if (options.rerun) {
+    if (!(await rerunAgent(ctx, bundle, agentPath))) {
+      return false;
+    }
+  } else {
+    await cp(bundle.outputsDir, OUTPUTS_DIR, { recursive: true }).catch(() => {});
+  }
+
+  const outputsResult = await planOutputs(ctx);
+  return outputsResult.success;
+}
+
+/**
+ * Run the agent again against the recorded context and print how its output files
+ * differ from the original run. Returns whether the agent run succeeded.
+ */
+async function rerunAgent(
+  ctx: StageContext,
+  bundle: ReplayBundle,
+  agentPath: string,
+): Promise<boolean> {
+  const { agent } = await agentParser.parseFile(agentPath);
+  if (agent?.markdown.trim() === bundle.instructions.trim()) {
+    logger.info("Instructions are unchanged since the original run");
+  }
+
+  const agentSpinner = ora(`Running ${bundle.manifest.agent} against the recorded context...`);
+  agentSpinner.start();
+  const agentResult = await runAgentLocally({ ...ctx, replayContext: bundle.context });
+  if (!agentResult.success) {
+    agentSpinner.fail("Agent run failed");
+    if (agentResult.outputs.error) {
+      logger.error(agentResult.outputs.error);
+    }
+    return false;
+  }
+  agentSpinner.succeed(
+    `Agent finished (cost: $${agentResult.outputs.cost}, turns: ${agentResult.outputs.turns})`,
+  );
+
+  logger.newline();
+  printOutputDiff(await diffOutputDirs(bundle.outputsDir, OUTPUTS_DIR));
+  return true;
+}
+
+/**
+ * Extract agent slugs from the names of a run's audit artifacts.
+ */
+export function findAuditArtifactSlugs(artifactNames: string[], runId: string): string[] {
+  const suffix = `-audit-${runId}`;
+  return artifactNames
+    .filter((name) => name.startsWith("agent-") && name.endsWith(suffix))
+    .map((name) => name.slice("agent-".length, -suffix.length))
+    .sort();
+}
+
+/**
+ * Format the output file changes of a replay, one block per file.
+ */
+export function formatOutputDiff(diffs: OutputFileDiff[]): string[] {
+  const lines: string[] = [];
+  for (const diff of diffs) {
+    lines.push(`${diff.status.padEnd(9)} ${diff.file}`);
+    for (const line of diff.lines) {
+      lines.push(`    ${line}`);
+    }
+  }
+  return lines;
+}
+
+function printOutputDiff(diffs: OutputFileDiff[]): void {
+  if (diffs.length === 0) {
+    logger.info("Neither run produced output files");
+    return;
+  }
+
+  const changed = diffs.filter((d) => d.status !== "unchanged").length;
+  logger.info(`Output files: ${changed} of ${diffs.length} differ from the original run`);
+  for (const line of formatOutputDiff(diffs)) {
+    const color = line.trimStart().startsWith("+ ")
+      ? chalk.green
+      : line.trimStart().startsWith("- ")
+        ? chalk.red
+        : chalk.cyan;
+    logger.log(`  ${color(line)}`);
+  }
+}
+
+function listRunArtifacts(repository: string, runId: string): string[] {
+  try {
+    const output = execFileSync(
+      "gh",
+      [
+        "api",
+        `repos/${repository}/actions/runs/${runId}/artifacts`,
+        "--paginate",
+        "--jq",
+        ".artifacts[].name",
+      ],
+      { encoding: "utf-8", stdio: "pipe" },
+    );
+    return output.split("\n").filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+async function findAgentFile(agentName: string): Promise<string | undefined> {
+  const agentsDir = join(process.cwd(), ".github", "agents");
+  if (!(await fileExists(agentsDir))) {
+    return undefined;
+  }
+
+  for (const filePath of await findMarkdownFiles(agentsDir)) {
+    const { agent } = await agentParser.parseFile(filePath);
+    if (agent?.name === agentName) {
+      return filePath;
+    }
+  }
+  return undefined;
+}
+
+function formatRepository(repo: { owner: string; repo: string } | null): string | undefined {
+  return repo ? `${repo.owner}/${repo.repo}` : undefined;
+}
+
+function slugifyAgentName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "bun:test";
+import { formatPlannedOutput, inferEventName } from "./run";
+
+describe("run command", () => {
+  describe("inferEventName", () => {
+    it("should detect issue events", () => {
+      expect(inferEventName({ action: "opened", issue: { number: 1 } })).toBe("issues");
+    });
+
+    it("should detect issue comments before issues", () => {
+      expect(inferEventName({ issue: { number: 1 }, comment: { id: 2 } })).toBe("issue_comment");
+    });
+
+    it("should detect pull request events", () => {
+      expect(inferEventName({ pull_request: { number: 1 } })).toBe("pull_request");
+    });
+
+    it("should detect pull request reviews", () => {
+      expect(inferEventName({ pull_request: { number: 1 }, review: { id: 2 } })).toBe(
+        "pull_request_review",
+      );
+    });
+
+    it("should detect discussion comments before discussions", () => {
+      expect(inferEventName({ discussion: { number: 1 }, comment: { id: 2 } })).toBe(
+        "discussion_comment",
+      );
+      expect(inferEventName({ discussion: { number: 1 } })).toBe("discussion");
+    });
+
+    it("should detect push, release and workflow_run payloads", () => {
+      expect(inferEventName({ ref: "refs/heads/main", commits: [] })).toBe("push");
+      expect(inferEventName({ action: "published", release: { tag_name: "v1.0.0" } })).toBe(
+        "release",
+      );
+      expect(inferEventName({ action: "completed", workflow_run: { name: "CI" } })).toBe(
+        "workflow_run",
+      );
+    });
+
+    it("should detect repository_dispatch payloads", () => {
+      expect(inferEventName({ action: "deploy", client_payload: {} })).toBe("repository_dispatch");
+    });
+
+    it("should fall back to workflow_dispatch", () => {
+      expect(inferEventName({ inputs: {} })).toBe("workflow_dispatch");
+      expect(inferEventName({})).toBe("workflow_dispatch");
+    });
+  });
+
+  describe("formatPlannedOutput", () => {
+    it("should list each field under a header", () => {
+      const lines = formatPlannedOutput({
+        type: "add-label",
+        file: "add-label.json",
+        data: { labels: ["bug", "triage"] },
+      });
+
+      expect(lines).toEqual(["add-label (add-label.json)", '  labels: ["bug","triage"]']);
+    });
+
+    it("should shorten multi-line values to their first line", () => {
+      const lines = formatPlannedOutput({
+        type: "add-comment",
+        file: "add-comment.json",
+        data: { body: "Thanks for the report!\n\nLooking into it." },
+      });
+
+      expect(lines[1]).toBe("  body: Thanks for the report!...");
+    });
+
+    it("should truncate long values", () => {
+      const lines = formatPlannedOutput({
+        type: "create-issue",
+        file: "create-issue.json",
+        data: { title: "x".repeat(100) },
+      });
+
+      expect(lines[1]).toBe(`  title: ${"x".repeat(77)}...`);
+    });
+  });
+});
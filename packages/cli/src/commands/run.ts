@@ -0,0 +1,313 @@
+import { existsSync } from "node:fs";
+import { readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { fileExists } from "@repo-agents/cli-utils/files";
+import { logger } from "@repo-agents/cli-utils/logger";
+import { agentParser } from "@repo-agents/parser";
+import {
+  OUTPUT_PLAN_FILE,
+  readOutputPlan,
+  runAgent,
+  runContext,
+  runOutputs,
+  runUnifiedValidate,
+  VALIDATION_ERRORS_DIR,
+} from "@repo-agents/runtime/stages";
+import type { PlannedOutput, StageContext, StageResult } from "@repo-agents/runtime/types";
+import chalk from "chalk";
+import ora from "ora";
+
+interface RunOptions {
+  event: string;
+  eventName?: string;
+  repo?: string;
+  actor?: string;
+}
+
+/** Scratch locations the runtime stages share; cleared so a previous run cannot leak in */
+export const SCRATCH_PATHS = [
+  "/tmp/outputs",
+  "/tmp/context",
+  VALIDATION_ERRORS_DIR,
+  OUTPUT_PLAN_FILE,
+];
+
+/** Skills file written by the agent stage into the working directory */
+const SKILLS_FILE = join(".claude", "CLAUDE.md");
+
+/**
+ * Run an agent locally against a recorded event payload.
+ *
+ * Executes the same runtime stages as the unified workflow (validate, context, agent, outputs),
+ * but the outputs stage runs in dry-run mode: outputs are validated and printed as a plan
+ * instead of being sent through gh.
+ */
+export async function runCommand(file: string, options: RunOptions): Promise<void> {
+  const agentPath = resolve(file);
+  const eventPath = resolve(options.event);
+
+  if (!(await fileExists(agentPath))) {
+    logger.error(`Agent file not found: ${file}`);
+    process.exit(1);
+  }
+
+  if (!(await fileExists(eventPath))) {
+    logger.error(`Event payload not found: ${options.event}`);
+    process.exit(1);
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(await readFile(eventPath, "utf-8"));
+  } catch (error) {
+    logger.error(`Invalid event payload JSON: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const repository =
+    options.repo ??
+    (payload.repository as { full_name?: string } | undefined)?.full_name ??
+    process.env.GITHUB_REPOSITORY;
+  if (!repository) {
+    logger.error("Could not determine the repository from the event payload");
+    logger.info("Pass it explicitly: repo-agents run <file> --event <path> --repo owner/repo");
+    process.exit(1);
+  }
+
+  const eventName = options.eventName ?? inferEventName(payload);
+  const actor =
+    options.actor ?? (payload.sender as { login?: string } | undefined)?.login ?? "local";
+
+  const { agent, errors } = await agentParser.parseFile(agentPath);
+  if (!agent) {
+    logger.error(`Failed to parse agent: ${errors.map((e) => e.message).join(", ")}`);
+    process.exit(1);
+  }
+
+  logger.info(`Running ${chalk.cyan(agent.name)} locally`);
+  logger.log(`  Event:      ${eventName}`);
+  logger.log(`  Repository: ${repository}`);
+  logger.log(`  Actor:      ${actor}`);
+  logger.newline();
+
+  for (const path of SCRATCH_PATHS) {
+    await rm(path, { recursive: true, force: true });
+  }
+
+  // Stage 1: Validation
+  const validateSpinner = ora("Validating...").start();
+  const validation = await runUnifiedValidate({
+    github: {
+      actor,
+      repository,
+      eventName,
+      eventPath,
+      runId: 0,
+      serverUrl: "https://github.com",
+    },
+    options: { agentPath, dryRun: true },
+  });
+
+  if (!validation.success) {
+    validateSpinner.fail("Validation failed");
+    logger.error(validation.outputs["skip-reason"] ?? "Unknown validation error");
+    process.exit(1);
+  }
+
+  if (validation.outputs["should-run"] !== "true") {
+    validateSpinner.warn("Agent would be skipped");
+    logger.log(`  ${validation.outputs["skip-reason"] ?? "No reason given"}`);
+    return;
+  }
+  validateSpinner.succeed("Validation passed");
+
+  // The workflow hands the payload to later stages through EVENT_PAYLOAD
+  if (validation.outputs["event-payload"]) {
+    process.env.EVENT_PAYLOAD = validation.outputs["event-payload"];
+  }
+
+  const ctx: StageContext = {
+    repository,
+    runId: "local",
+    actor,
+    eventName,
+    eventPath,
+    agentPath,
+    dryRun: true,
+  };
+
+  // Stage 2: Context collection
+  if (agent.context) {
+    const contextSpinner = ora("Collecting context...").start();
+    const context = await runContext(ctx);
+    if (!context.success) {
+      contextSpinner.fail("Context collection failed");
+      process.exit(1);
+    }
+    if (context.skipReason) {
+      contextSpinner.warn(context.skipReason);
+    } else {
+      contextSpinner.succeed(`Collected ${context.outputs["total-items"]} item(s)`);
+    }
+  }
+
+  // Stage 3: Agent execution
+  const agentSpinner = ora(`Running ${agent.name}...`).start();
+  const agentResult = await runAgentLocally(ctx);
+
+  if (!agentResult.success) {
+    agentSpinner.fail("Agent run failed");
+    if (agentResult.outputs.error) {
+      logger.error(agentResult.outputs.error);
+    }
+    process.exit(1);
+  }
+  agentSpinner.succeed(
+    `Agent finished (cost: $${agentResult.outputs.cost}, turns: ${agentResult.outputs.turns})`,
+  );
+
+  if (!agent.outputs || Object.keys(agent.outputs).length === 0) {
+    logger.newline();
+    logger.info("Agent has no outputs configured; nothing to plan");
+    return;
+  }
+
+  // Stage 4: Outputs (dry run)
+  const outputsResult = await planOutputs(ctx);
+
+  if (!outputsResult.success) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Run the agent stage in the current working directory. The stage writes its skills
+ * file into .claude/; the user's own file is put back afterwards.
+ */
+export async function runAgentLocally(ctx: StageContext): Promise<StageResult> {
+  const hadClaudeDir = existsSync(".claude");
+  const existingSkills = existsSync(SKILLS_FILE) ? await readFile(SKILLS_FILE, "utf-8") : null;
+
+  return runAgent(ctx).finally(async () => {
+    if (existingSkills !== null) {
+      await writeFile(SKILLS_FILE, existingSkills);
+    } else if (hadClaudeDir) {
+      await rm(SKILLS_FILE, { force: true });
+    } else {
+      await rm(".claude", { recursive: true, force: true });
+    }
+  });
+}
+
+/**
+ * Run the outputs stage in dry-run mode and print the resulting plan and any
+ * validation errors.
+ */
+export async function planOutputs(ctx: StageContext): Promise<StageResult> {
+  const outputsResult = await runOutputs({ ...ctx, dryRun: true });
+  const plan = await readOutputPlan();
+
+  logger.newline();
+  printPlan(plan);
+
+  const validationErrors = await readValidationErrors();
+  if (validationErrors.length > 0) {
+    logger.newline();
+    logger.error("Output validation errors:");
+    for (const error of validationErrors) {
+      logger.log(chalk.red(`  ✗ ${error}`));
+    }
+  }
+
+  return outputsResult;
+}
+
+/**
+ * Infer the GitHub event name from the shape of a webhook payload.
+ */
+export function inferEventName(payload: Record<string, unknown>): string {
+  if (payload.comment && payload.discussion) {
+    return "discussion_comment";
+  }
+  if (payload.comment && payload.pull_request) {
+    return "pull_request_review_comment";
+  }
+  if (payload.comment && payload.issue) {
+    return "issue_comment";
+  }
+  if (payload.review && payload.pull_request) {
+    return "pull_request_review";
+  }
+  if (payload.pull_request) {
+    return "pull_request";
+  }
+  if (payload.issue) {
+    return "issues";
+  }
+  if (payload.discussion) {
+    return "discussion";
+  }
+  if (payload.workflow_run) {
+    return "workflow_run";
+  }
+  if (payload.release) {
+    return "release";
+  }
+  if (typeof payload.ref === "string" && Array.isArray(payload.commits)) {
+    return "push";
+  }
+  if (payload.client_payload !== undefined) {
+    return "repository_dispatch";
+  }
+  if (payload.schedule) {
+    return "schedule";
+  }
+  return "workflow_dispatch";
+}
+
+/**
+ * Format a planned output as indented lines, one per field.
+ * Long or multi-line values are shortened to their first line.
+ */
+export function formatPlannedOutput(planned: PlannedOutput): string[] {
+  const lines = [`${planned.type} (${planned.file})`];
+
+  for (const [key, value] of Object.entries(planned.data)) {
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    const [firstLine] = text.split("\n");
+    const short = firstLine.length > 80 ? firstLine.slice(0, 77) : firstLine;
+    lines.push(`  ${key}: ${short}${short !== text ? "..." : ""}`);
+  }
+
+  return lines;
+}
+
+function printPlan(plan: PlannedOutput[]): void {
+  if (plan.length === 0) {
+    logger.info("Plan: the agent produced no outputs");
+    return;
+  }
+
+  logger.info(`Plan: ${plan.length} output(s) would be executed`);
+  for (const planned of plan) {
+    const [header, ...fields] = formatPlannedOutput(planned);
+    logger.log(`  ${chalk.green("+")} ${chalk.cyan(header)}`);
+    for (const field of fields) {
+      logger.log(chalk.gray(`    ${field}`));
+    }
+  }
+}
+
+async function readValidationErrors(): Promise<string[]> {
+  if (!existsSync(VALIDATION_ERRORS_DIR)) {
+    return [];
+  }
+
+  const errors: string[] = [];
+  for (const file of await readdir(VALIDATION_ERRORS_DIR)) {
+    if (file.endsWith(".json")) {
+      errors.push(...JSON.parse(await readFile(join(VALIDATION_ERRORS_DIR, file), "utf-8")));
+    }
+  }
+  return errors;
+}
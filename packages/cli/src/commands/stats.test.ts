@@ -0,0 +1,217 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AuditManifest, CombinedAuditManifest } from "@repo-agents/types";
+import {
+  buildStatsReport,
+  collectAgentRuns,
+  downloadManifests,
+  formatStatsReport,
+  loadManifests,
+  renderHtmlReport,
+} from "./stats";
+
+function agentManifest(
+  name: string,
+  startedAt: string,
+  options: { failed?: boolean; cost?: number; number?: number } = {},
+): AuditManifest {
+  return {
+    metadata: {
+      agent_name: name,
+      trigger: {
+        event_name: "issues",
+        actor: "octocat",
+        repository: "acme/app",
+        number: options.number,
+      },
+      timing: { workflow_started_at: startedAt, total_duration_ms: 60_000 },
+    },
+    execution: {
+      success: !options.failed,
+      metrics: { total_cost_usd: options.cost ?? 0.1, num_turns: 4, duration_ms: 60_000 },
+    },
+    failures: { has_failures: !!options.failed },
+  } as AuditManifest;
+}
+
+function combinedManifest(
+  runId: string,
+  agents: AuditManifest[],
+  skipped: CombinedAuditManifest["skipped"] = [],
+): CombinedAuditManifest {
+  return {
+    schema_version: "1.0.0",
+    generated_at: agents[0]?.metadata.timing.workflow_started_at ?? "2026-10-01T12:00:00Z",
+    workflow_run_id: runId,
+    workflow_run_url: `https://github.com/acme/app/actions/runs/${runId}`,
+    agents,
+    skipped,
+    summary: {
+      total_agents: agents.length,
+      successful_agents: agents.filter((a) => !a.failures.has_failures).length,
+      failed_agents: agents.filter((a) => a.failures.has_failures).length,
+      total_cost_usd: 0,
+      total_duration_ms: 0,
+    },
+  };
+}
+
+const manifests = [
+  combinedManifest("1", [agentManifest("Issue Triage", "2026-10-05T10:00:00Z", { number: 7 })]),
+  combinedManifest("2", [
+    agentManifest("Issue Triage", "2026-10-06T10:00:00Z", { number: 7, cost: 0.3 }),
+    agentManifest("PR Review", "2026-10-06T10:00:00Z", { failed: true, cost: 1 }),
+  ]),
+  combinedManifest(
+    "3",
+    [agentManifest("Issue Triage", "2026-10-13T10:00:00Z", { number: 8, cost: 0.2 })],
+    [{ agent: "pr-review", reason: "Daily budget of $5.00 reached" }],
+  ),
+];
+
+describe("stats", () => {
+  describe("buildStatsReport", () => {
+    it("should aggregate runs per agent, failing agents first", () => {
+      const report = buildStatsReport(collectAgentRuns(manifests), "week");
+
+      expect(report.total_runs).toBe(3);
+      expect(report.agents.map((a) => a.name)).toEqual(["PR Review", "Issue Triage"]);
+
+      const [review, triage] = report.agents;
+      expect(review).toMatchObject({ runs: 2, failures: 1, skipped: 1, success_rate: 0 });
+      expect(review.skip_reasons).toEqual({ "Daily budget of $5.00 reached": 1 });
+      expect(triage).toMatchObject({
+        runs: 3,
+        successes: 3,
+        avg_turns: 4,
+        avg_duration_ms: 60_000,
+      });
+      expect(triage.cost_usd).toBeCloseTo(0.6);
+      // Two runs were about issue #7, one about #8
+      expect(triage.cost_per_item_usd).toBeCloseTo(0.3);
+    });
+
+    it("should group runs by the start of their period", () => {
+      const runs = collectAgentRuns(manifests);
+
+      expect(buildStatsReport(runs, "week").agents[1].periods.map((p) => p.period)).toEqual([
+        "2026-10-05",
+        "2026-10-12",
+      ]);
+      expect(buildStatsReport(runs, "day").agents[1].periods).toHaveLength(3);
+      expect(buildStatsReport(runs, "month").agents[1].periods.map((p) => p.period)).toEqual([
+        "2026-10",
+      ]);
+    });
+  });
+
+  describe("formatStatsReport", () => {
+    const report = buildStatsReport(collectAgentRuns(manifests), "week");
+
+    it("should write one CSV row per agent per period and a total", () => {
+      const lines = formatStatsReport(report, "csv").split("\n");
+
+      expect(lines[0]).toBe(
+        "agent,period,runs,successes,failures,skipped,success_rate,cost_usd,cost_per_item_usd,avg_turns,avg_duration_ms",
+      );
+      expect(lines).toContain("Issue Triage,2026-10-05,2,2,0,0,1.0000,0.4000,0.4000,4.00,60000");
+      expect(lines).toContain("Issue Triage,total,3,3,0,0,1.0000,0.6000,0.3000,4.00,60000");
+      expect(lines).toHaveLength(1 + 3 + 3);
+    });
+
+    it("should write markdown tables with skip reasons", () => {
+      const markdown = formatStatsReport(report, "markdown");
+
+      expect(markdown).toContain("| PR Review | 2 | 0% | 1 | $1.00 | – | 4.0 | 1m 0s |");
+      expect(markdown).toContain("- Daily budget of $5.00 reached (1)");
+      expect(JSON.parse(formatStatsReport(report, "json")).agents).toHaveLength(2);
+    });
+
+    it("should escape agent names in the HTML report", () => {
+      const html = renderHtmlReport(
+        buildStatsReport(
+          collectAgentRuns([
+            combinedManifest("9", [agentManifest("<Triage>", "2026-10-05T10:00:00Z")]),
+          ]),
+          "week",
+        ),
+      );
+
+      expect(html).toStartWith("<!DOCTYPE html>");
+      expect(html).toContain("&lt;Triage&gt;");
+      expect(html).not.toContain("<Triage>");
+    });
+  });
+
+  describe("loading manifests", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "stats-test-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should find manifests at any depth and count each run once", async () => {
+      await mkdir(join(dir, "audit-manifest-1", "per-agent"), { recursive: true });
+      await writeFile(join(dir, "audit-manifest-1", "manifest.json"), JSON.stringify(manifests[0]));
+      await writeFile(
+        join(dir, "audit-manifest-1", "per-agent", "issue-triage.json"),
+        JSON.stringify(manifests[0].agents[0]),
+      );
+      await writeFile(join(dir, "copy.json"), JSON.stringify(manifests[0]));
+      await writeFile(join(dir, "broken.json"), "{");
+
+      const loaded = await loadManifests(dir);
+
+      expect(loaded.map((m) => m.workflow_run_id)).toEqual(["1"]);
+    });
+
+    it("should download the manifest artifacts created since the cutoff", async () => {
+      const downloads: string[] = [];
+      const loaded = await downloadManifests(
+        "acme/app",
+        new Date("2026-10-01T00:00:00Z"),
+        (args) => {
+          if (args[0] === "api") {
+            return [
+              {
+                name: "audit-manifest-1",
+                created_at: "2026-10-05T10:05:00Z",
+                expired: false,
+                run_id: 1,
+              },
+              {
+                name: "audit-manifest-2",
+                created_at: "2026-10-06T10:05:00Z",
+                expired: true,
+                run_id: 2,
+              },
+              {
+                name: "audit-manifest-0",
+                created_at: "2026-09-01T10:05:00Z",
+                expired: false,
+                run_id: 0,
+              },
+            ]
+              .map((artifact) => JSON.stringify(artifact))
+              .join("\n");
+          }
+          const target = args[args.indexOf("--dir") + 1];
+          downloads.push(args[args.indexOf("--name") + 1]);
+          mkdirSync(target, { recursive: true });
+          writeFileSync(join(target, "manifest.json"), JSON.stringify(manifests[0]));
+          return "";
+        },
+      );
+
+      expect(downloads).toEqual(["audit-manifest-1"]);
+      expect(loaded).toHaveLength(1);
+    });
+  });
+});
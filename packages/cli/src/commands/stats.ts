@@ -0,0 +1,561 @@
+import { execFileSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getGitHubRepo } from "@repo-agents/cli-utils/git";
+import { logger } from "@repo-agents/cli-utils/logger";
+import { parseTimeWindow } from "@repo-agents/runtime/utils/validation";
+import type { CombinedAuditManifest } from "@repo-agents/types";
+import chalk from "chalk";
+import ora from "ora";
+import type { GhRunner } from "./doctor";
+
+interface StatsOptions {
+  repo?: string;
+  since?: string;
+  agent?: string;
+  period?: string;
+  format?: string;
+  html?: string;
+}
+
+export type StatsPeriod = "day" | "week" | "month";
+
+export type StatsFormat = "markdown" | "json" | "csv";
+
+/** One agent in one workflow run, as recorded in the run's audit manifest */
+export interface AgentRun {
+  agent: string; // Slug
+  name: string;
+  run_id: string;
+  started_at: string;
+  status: "success" | "failure" | "skipped";
+  skip_reason?: string;
+  item?: number; // Issue, PR or discussion the run was about
+  cost_usd: number;
+  turns: number;
+  duration_ms: number;
+}
+
+/** Totals over a set of runs of one agent */
+export interface RunTotals {
+  runs: number;
+  successes: number;
+  failures: number;
+  skipped: number;
+  success_rate: number; // Of the runs that were not skipped, 0-1
+  cost_usd: number;
+  cost_per_item_usd?: number; // Over the distinct issues/PRs/discussions the runs were about
+  avg_turns: number;
+  avg_duration_ms: number;
+}
+
+export interface AgentStats extends RunTotals {
+  agent: string;
+  name: string;
+  skip_reasons: Record<string, number>;
+  periods: Array<RunTotals & { period: string }>;
+}
+
+export interface StatsReport {
+  generated_at: string;
+  period: StatsPeriod;
+  from?: string;
+  to?: string;
+  total_runs: number; // Workflow runs
+  agents: AgentStats[];
+}
+
+/** Prefix of the artifact the audit-report job uploads for each run */
+const MANIFEST_ARTIFACT_PREFIX = "audit-manifest-";
+
+const PERIODS: StatsPeriod[] = ["day", "week", "month"];
+
+const FORMATS: StatsFormat[] = ["markdown", "json", "csv"];
+
+/**
+ * Report success rates, skip reasons, cost, turns and duration per agent over past runs.
+ *
+ * Manifests are read from `dir` (any depth, e.g. a folder of downloaded artifacts), or
+ * downloaded from the repository's `audit-manifest-<run_id>` artifacts.
+ */
+export async function statsCommand(dir: string | undefined, options: StatsOptions): Promise<void> {
+  const period = (options.period ?? "week") as StatsPeriod;
+  if (!PERIODS.includes(period)) {
+    logger.error(`Unknown period: ${options.period} (use ${PERIODS.join(", ")})`);
+    process.exit(1);
+  }
+  const format = (options.format ?? "markdown") as StatsFormat;
+  if (!FORMATS.includes(format)) {
+    logger.error(`Unknown format: ${options.format} (use ${FORMATS.join(", ")})`);
+    process.exit(1);
+  }
+  if (options.since && !/^\d+[hdwm]$/.test(options.since)) {
+    logger.error(`Invalid --since: ${options.since} (e.g. 7d, 4w, 3m)`);
+    process.exit(1);
+  }
+  const since = new Date(Date.now() - parseTimeWindow(options.since ?? "30d"));
+
+  let manifests: CombinedAuditManifest[];
+  if (dir) {
+    if (!existsSync(dir)) {
+      logger.error(`Directory not found: ${dir}`);
+      process.exit(1);
+    }
+    manifests = await loadManifests(dir);
+  } else {
+    const remote = getGitHubRepo(process.cwd());
+    const repository = options.repo ?? (remote ? `${remote.owner}/${remote.repo}` : undefined);
+    if (!repository) {
+      logger.error("Could not determine the repository from the git remote");
+      logger.info("Pass it explicitly: repo-agents stats --repo owner/repo, or a directory");
+      process.exit(1);
+    }
+    manifests = await downloadManifests(repository, since, runGh);
+  }
+
+  let runs = collectAgentRuns(manifests);
+  if (dir && options.since) {
+    runs = runs.filter((run) => new Date(run.started_at) >= since);
+  }
+  if (options.agent) {
+    const agent = slugifyAgentName(options.agent);
+    runs = runs.filter((run) => run.agent === agent);
+  }
+  if (runs.length === 0) {
+    logger.warn("No agent runs found");
+    return;
+  }
+
+  const report = buildStatsReport(runs, period);
+  logger.log(formatStatsReport(report, format));
+
+  if (options.html) {
+    await writeFile(options.html, renderHtmlReport(report), "utf-8");
+    logger.info(`Wrote HTML report: ${chalk.cyan(options.html)}`);
+  }
+}
+
+/**
+ * Read every combined audit manifest under `dir`. A run downloaded twice is counted once.
+ */
+export async function loadManifests(dir: string): Promise<CombinedAuditManifest[]> {
+  const manifests = new Map<string, CombinedAuditManifest>();
+
+  for (const entry of await readdir(dir, { recursive: true })) {
+    if (!entry.endsWith(".json")) {
+      continue;
+    }
+    try {
+      const data = JSON.parse(await readFile(join(dir, entry), "utf-8"));
+      if (isCombinedManifest(data)) {
+        manifests.set(data.workflow_run_id, data);
+      }
+    } catch {
+      // Not a manifest
+    }
+  }
+
+  return [...manifests.values()];
+}
+
+/**
+ * Download the audit manifests of runs since `since` into a scratch directory and read them.
+ */
+export async function downloadManifests(
+  repository: string,
+  since: Date,
+  gh: GhRunner,
+): Promise<CombinedAuditManifest[]> {
+  const spinner = ora(`Listing audit manifests of ${repository}...`).start();
+
+  let artifacts: Array<{ name: string; created_at: string; expired: boolean; run_id: number }>;
+  try {
+    artifacts = gh([
+      "api",
+      `repos/${repository}/actions/artifacts?per_page=100`,
+      "--paginate",
+      "--jq",
+      `.artifacts[] | select(.name | startswith("${MANIFEST_ARTIFACT_PREFIX}")) | {name, created_at, expired, run_id: .workflow_run.id}`,
+    ])
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line));
+  } catch (error) {
+    spinner.fail("Failed to list artifacts");
+    logger.error((error as Error).message);
+    process.exit(1);
+  }
+
+  const recent = artifacts.filter(
+    (artifact) => !artifact.expired && new Date(artifact.created_at) >= since,
+  );
+  const downloadDir = await mkdtemp(join(tmpdir(), "repo-agents-stats-"));
+
+  try {
+    for (const [index, artifact] of recent.entries()) {
+      spinner.text = `Downloading audit manifests (${index + 1}/${recent.length})...`;
+      try {
+        gh([
+          "run",
+          "download",
+          String(artifact.run_id),
+          "--repo",
+          repository,
+          "--name",
+          artifact.name,
+          "--dir",
+          join(downloadDir, String(artifact.run_id)),
+        ]);
+      } catch {
+        // Deleted since it was listed
+      }
+    }
+    spinner.succeed(`Downloaded ${recent.length} audit manifest(s) from ${repository}`);
+
+    return await loadManifests(downloadDir);
+  } finally {
+    await rm(downloadDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Flatten manifests into one record per agent per run, oldest first.
+ */
+export function collectAgentRuns(manifests: CombinedAuditManifest[]): AgentRun[] {
+  const runs: AgentRun[] = [];
+  const names = new Map<string, string>();
+
+  for (const manifest of manifests) {
+    for (const agent of manifest.agents) {
+      const slug = slugifyAgentName(agent.metadata.agent_name);
+      names.set(slug, agent.metadata.agent_name);
+      runs.push({
+        agent: slug,
+        name: agent.metadata.agent_name,
+        run_id: manifest.workflow_run_id,
+        started_at: agent.metadata.timing.workflow_started_at || manifest.generated_at,
+        status: agent.failures.has_failures ? "failure" : "success",
+        item: agent.metadata.trigger.number,
+        cost_usd: agent.execution.metrics.total_cost_usd || 0,
+        turns: agent.execution.metrics.num_turns || 0,
+        duration_ms: agent.execution.metrics.duration_ms || 0,
+      });
+    }
+    for (const { agent, reason } of manifest.skipped ?? []) {
+      runs.push({
+        agent,
+        name: agent,
+        run_id: manifest.workflow_run_id,
+        started_at: manifest.generated_at,
+        status: "skipped",
+        skip_reason: reason,
+        cost_usd: 0,
+        turns: 0,
+        duration_ms: 0,
+      });
+    }
+  }
+
+  // Skipped runs only record the slug; use the name from the runs that executed
+  for (const run of runs) {
+    run.name = names.get(run.agent) ?? run.name;
+  }
+
+  return runs.sort((a, b) => a.started_at.localeCompare(b.started_at));
+}
+
+/**
+ * Aggregate runs per agent, and per agent per period.
+ */
+export function buildStatsReport(runs: AgentRun[], period: StatsPeriod): StatsReport {
+  const byAgent = groupBy(runs, (run) => run.agent);
+
+  const agents = [...byAgent.values()].map((agentRuns): AgentStats => {
+    const skipReasons: Record<string, number> = {};
+    for (const run of agentRuns) {
+      if (run.skip_reason) {
+        skipReasons[run.skip_reason] = (skipReasons[run.skip_reason] ?? 0) + 1;
+      }
+    }
+
+    return {
+      agent: agentRuns[0].agent,
+      name: agentRuns[0].name,
+      ...totalRuns(agentRuns),
+      skip_reasons: skipReasons,
+      periods: [...groupBy(agentRuns, (run) => periodStart(run.started_at, period))].map(
+        ([start, periodRuns]) => ({ period: start, ...totalRuns(periodRuns) }),
+      ),
+    };
+  });
+
+  return {
+    generated_at: new Date().toISOString(),
+    period,
+    from: runs[0]?.started_at,
+    to: runs[runs.length - 1]?.started_at,
+    total_runs: new Set(runs.map((run) => run.run_id)).size,
+    agents: agents.sort((a, b) => b.failures - a.failures || a.name.localeCompare(b.name)),
+  };
+}
+
+export function formatStatsReport(report: StatsReport, format: StatsFormat): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(report, null, 2);
+    case "csv":
+      return formatCsv(report);
+    case "markdown":
+      return formatMarkdown(report);
+  }
+}
+
+/**
+ * A self-contained HTML page with the per-agent table and a cost and success-rate
+ * timeline per agent.
+ */
+export function renderHtmlReport(report: StatsReport): string {
+  const maxCost = Math.max(
+    ...report.agents.flatMap((agent) => agent.periods.map((p) => p.cost_usd)),
+    0.0001,
+  );
+
+  const rows = report.agents
+    .map(
+      (agent) =>
+        `<tr><td>${escapeHtml(agent.name)}</td><td>${agent.runs}</td><td>${formatRate(agent)}</td><td>${agent.skipped}</td><td>${formatUsd(agent.cost_usd)}</td><td>${agent.cost_per_item_usd === undefined ? "–" : formatUsd(agent.cost_per_item_usd)}</td><td>${agent.avg_turns.toFixed(1)}</td><td>${formatDuration(agent.avg_duration_ms)}</td></tr>`,
+    )
+    .join("\n");
+
+  const timelines = report.agents
+    .map((agent) => {
+      const bars = agent.periods
+        .map(
+          (p) =>
+            `<tr><td>${p.period}</td><td><div class="bar" style="width:${((p.cost_usd / maxCost) * 100).toFixed(1)}%"></div>${formatUsd(p.cost_usd)}</td><td>${p.runs}</td><td>${formatRate(p)}</td></tr>`,
+        )
+        .join("\n");
+      const reasons = Object.entries(agent.skip_reasons)
+        .map(([reason, count]) => `<li>${escapeHtml(reason)} (${count})</li>`)
+        .join("");
+      return `<h2>${escapeHtml(agent.name)}</h2>
+<table><thead><tr><th>${capitalize(report.period)}</th><th>Cost</th><th>Runs</th><th>Success</th></tr></thead>
+<tbody>
+${bars}
+</tbody></table>${reasons ? `\n<p>Skip reasons:</p><ul>${reasons}</ul>` : ""}`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Repo Agents stats</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; color: #1f2328; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 1.5rem; }
+th, td { border-bottom: 1px solid #d0d7de; padding: 0.4rem 0.6rem; text-align: left; }
+.bar { display: inline-block; height: 0.8rem; margin-right: 0.5rem; background: #2da44e; vertical-align: middle; }
+.muted { color: #656d76; }
+</style>
+</head>
+<body>
+<h1>Repo Agents stats</h1>
+<p class="muted">${report.total_runs} workflow run(s)${report.from ? ` from ${report.from.slice(0, 10)} to ${report.to?.slice(0, 10)}` : ""}, generated ${report.generated_at}</p>
+<table>
+<thead><tr><th>Agent</th><th>Runs</th><th>Success</th><th>Skipped</th><th>Cost</th><th>Cost / Item</th><th>Avg Turns</th><th>Avg Duration</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+${timelines}
+</body>
+</html>
+`;
+}
+
+function formatMarkdown(report: StatsReport): string {
+  const lines = [
+    "## Agent Stats",
+    "",
+    `${report.total_runs} workflow run(s)${report.from ? ` from ${report.from.slice(0, 10)} to ${report.to?.slice(0, 10)}` : ""}`,
+    "",
+    "| Agent | Runs | Success | Skipped | Cost | Cost / Item | Avg Turns | Avg Duration |",
+    "|-------|------|---------|---------|------|-------------|-----------|--------------|",
+  ];
+  for (const agent of report.agents) {
+    lines.push(
+      `| ${agent.name} | ${agent.runs} | ${formatRate(agent)} | ${agent.skipped} | ${formatUsd(agent.cost_usd)} | ${agent.cost_per_item_usd === undefined ? "–" : formatUsd(agent.cost_per_item_usd)} | ${agent.avg_turns.toFixed(1)} | ${formatDuration(agent.avg_duration_ms)} |`,
+    );
+  }
+
+  for (const agent of report.agents) {
+    lines.push(
+      "",
+      `### ${agent.name}`,
+      "",
+      `| ${capitalize(report.period)} | Runs | Success | Cost | Avg Turns | Avg Duration |`,
+      "|------|------|---------|------|-----------|--------------|",
+    );
+    for (const p of agent.periods) {
+      lines.push(
+        `| ${p.period} | ${p.runs} | ${formatRate(p)} | ${formatUsd(p.cost_usd)} | ${p.avg_turns.toFixed(1)} | ${formatDuration(p.avg_duration_ms)} |`,
+      );
+    }
+    const reasons = Object.entries(agent.skip_reasons).sort(([, a], [, b]) => b - a);
+    if (reasons.length > 0) {
+      lines.push("", "Skip reasons:", "");
+      for (const [reason, count] of reasons) {
+        lines.push(`- ${reason} (${count})`);
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * One row per agent per period, then one `total` row per agent.
+ */
+function formatCsv(report: StatsReport): string {
+  const header = [
+    "agent",
+    "period",
+    "runs",
+    "successes",
+    "failures",
+    "skipped",
+    "success_rate",
+    "cost_usd",
+    "cost_per_item_usd",
+    "avg_turns",
+    "avg_duration_ms",
+  ];
+  const row = (agent: AgentStats, period: string, totals: RunTotals) =>
+    [
+      csvField(agent.name),
+      period,
+      totals.runs,
+      totals.successes,
+      totals.failures,
+      totals.skipped,
+      totals.success_rate.toFixed(4),
+      totals.cost_usd.toFixed(4),
+      totals.cost_per_item_usd?.toFixed(4) ?? "",
+      totals.avg_turns.toFixed(2),
+      Math.round(totals.avg_duration_ms),
+    ].join(",");
+
+  return [
+    header.join(","),
+    ...report.agents.flatMap((agent) => [
+      ...agent.periods.map((p) => row(agent, p.period, p)),
+      row(agent, "total", agent),
+    ]),
+  ].join("\n");
+}
+
+function totalRuns(runs: AgentRun[]): RunTotals {
+  const executed = runs.filter((run) => run.status !== "skipped");
+  const successes = executed.filter((run) => run.status === "success").length;
+  const cost = executed.reduce((sum, run) => sum + run.cost_usd, 0);
+  const items = new Set(executed.flatMap((run) => (run.item === undefined ? [] : [run.item])));
+  const average = (value: (run: AgentRun) => number) =>
+    executed.length === 0
+      ? 0
+      : executed.reduce((sum, run) => sum + value(run), 0) / executed.length;
+
+  return {
+    runs: runs.length,
+    successes,
+    failures: executed.length - successes,
+    skipped: runs.length - executed.length,
+    success_rate: executed.length === 0 ? 0 : successes / executed.length,
+    cost_usd: cost,
+    cost_per_item_usd: items.size > 0 ? cost / items.size : undefined,
+    avg_turns: average((run) => run.turns),
+    avg_duration_ms: average((run) => run.duration_ms),
+  };
+}
+
+/**
+ * Start of the period a timestamp falls in: the date, the Monday of its week, or its month.
+ */
+function periodStart(timestamp: string, period: StatsPeriod): string {
+  const date = new Date(timestamp);
+  switch (period) {
+    case "day":
+      return date.toISOString().slice(0, 10);
+    case "week": {
+      const monday = new Date(date);
+      monday.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+      return monday.toISOString().slice(0, 10);
+    }
+    case "month":
+      return date.toISOString().slice(0, 7);
+  }
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) ?? []), item]);
+  }
+  return groups;
+}
+
+function isCombinedManifest(data: unknown): data is CombinedAuditManifest {
+  const manifest = data as Partial<CombinedAuditManifest> | null;
+  return (
+    typeof manifest?.workflow_run_id === "string" &&
+    Array.isArray(manifest.agents) &&
+    typeof manifest.summary === "object"
+  );
+}
+
+function formatRate(totals: RunTotals): string {
+  return totals.runs === totals.skipped ? "–" : `${Math.round(totals.success_rate * 100)}%`;
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function slugifyAgentName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+function runGh(args: string[]): string {
+  return execFileSync("gh", args, {
+    encoding: "utf-8",
+    stdio: ["pipe", "pipe", "pipe"],
+    maxBuffer: 64 * 1024 * 1024,
+  });
+}
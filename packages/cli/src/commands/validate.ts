@@ -1,9 +1,10 @@
 import { join } from "node:path";
 import { fileExists, findMarkdownFiles } from "@repo-agents/cli-utils/files";
 import { logger } from "@repo-agents/cli-utils/logger";
-import { agentParser } from "@repo-agents/parser";
+import { agentParser, REPOSITORY_CONFIG_FILE } from "@repo-agents/parser";
 import type { ValidationError } from "@repo-agents/types";
 import chalk from "chalk";
+import yaml from "js-yaml";
 import ora from "ora";
 
 interface ValidateOptions {
@@ -82,7 +83,7 @@ async function validateAll(agentsDir: string, strict: boolean): Promise<void> {
 async function validateSingle(
   filePath: string,
   strict: boolean,
-  _showSummary = true,
+  showConfig = true,
 ): Promise<ValidationResult> {
   const fileName = filePath.split("/").pop() || filePath;
   const spinner = ora(`Validating ${chalk.cyan(fileName)}...`).start();
@@ -97,7 +98,7 @@ async function validateSingle(
     };
   }
 
-  const { agent, errors: parseErrors } = await agentParser.parseFile(filePath);
+  const { agent, config, errors: parseErrors } = await agentParser.parseFile(filePath);
 
   if (!agent) {
     spinner.fail(`Failed to parse ${fileName}`);
@@ -139,6 +140,18 @@ async function validateSingle(
     });
   }
 
+  // Show what the repository defaults contribute (the full merged config for single files)
+  if (config && config.inherited.length > 0) {
+    logger.log(
+      chalk.gray(`  Inherited from ${REPOSITORY_CONFIG_FILE}: ${config.inherited.join(", ")}`),
+    );
+  }
+  if (config && showConfig) {
+    logger.newline();
+    logger.info("Effective config:");
+    logger.log(chalk.gray(yaml.dump(config.frontmatter).trimEnd().replace(/^/gm, "  ")));
+  }
+
   const success = strict ? !hasErrors && !hasWarnings : !hasErrors;
 
   return {
@@ -175,6 +188,7 @@ function printSummary(results: ValidationResult[], strict: boolean): void {
     logger.log("  • Invalid YAML syntax in frontmatter");
     logger.log("  • update-file requires allowed-paths configuration");
     logger.log("  • create-pr/update-file require 'contents: write' permission");
+    logger.log("  • Missing blueprint parameters (set them under 'parameters:')");
     logger.newline();
     logger.info("See documentation:");
     logger.log("  https://github.com/lucasilverentand/repo-agents#agent-configuration");
@@ -5,10 +5,14 @@ import { Command } from "commander";
 import packageJson from "../../../package.json";
 import { addCommand } from "./commands/add";
 import { compileCommand } from "./commands/compile";
+import { doctorCommand } from "./commands/doctor";
 import { initCommand } from "./commands/init";
 import { listCommand } from "./commands/list";
+import { replayCommand } from "./commands/replay";
+import { runCommand } from "./commands/run";
 import { setupCommand } from "./commands/setup";
 import { setupAppCommand } from "./commands/setup-app";
+import { statsCommand } from "./commands/stats";
 import { validateCommand } from "./commands/validate";
 
 const program = new Command();
@@ -59,6 +63,46 @@ program
   .option("-s, --strict", "Enable strict validation")
   .action(validateCommand);
 
+program
+  .command("run <file>")
+  .description(
+    "Run an agent locally against a saved event payload (outputs are printed, not executed)",
+  )
+  .requiredOption("-e, --event <path>", "Path to a recorded GitHub event payload (JSON)")
+  .option("--event-name <name>", "GitHub event name (inferred from the payload by default)")
+  .option("-r, --repo <owner/repo>", "Repository (defaults to repository.full_name in the payload)")
+  .option("--actor <login>", "Actor that triggered the event (defaults to sender.login)")
+  .action(runCommand);
+
+program
+  .command("replay <run-id>")
+  .description(
+    "Replay an agent from a past workflow run's artifacts (outputs are printed, not executed)",
+  )
+  .option("-a, --agent <name>", "Agent to replay (required when the run executed several)")
+  .option("-r, --repo <owner/repo>", "Repository (defaults to the origin remote)")
+  .option("--rerun", "Run the agent again with the local definition and diff its outputs")
+  .option("-f, --file <path>", "Agent file to use (defaults to the agent with the recorded name)")
+  .action(replayCommand);
+
+program
+  .command("doctor")
+  .description("Check the repository's labels, teams, projects and app against its agents")
+  .option("-r, --repo <owner/repo>", "Repository (defaults to the origin remote)")
+  .option("--app-id <id>", "GitHub App to check the installation of (defaults to GH_APP_ID)")
+  .action(doctorCommand);
+
+program
+  .command("stats [dir]")
+  .description("Report success rate, skip reasons, cost, turns and duration per agent across runs")
+  .option("-r, --repo <owner/repo>", "Download manifests from this repository (defaults to origin)")
+  .option("-s, --since <window>", "Only runs in this window, e.g. 7d, 4w, 3m (default: 30d)")
+  .option("-a, --agent <name>", "Only this agent")
+  .option("-p, --period <period>", "Group runs by day, week or month", "week")
+  .option("-f, --format <format>", "Output format (markdown, json, csv)", "markdown")
+  .option("--html <file>", "Also write a static HTML report")
+  .action(statsCommand);
+
 program
   .command("list")
   .description("List all agents")
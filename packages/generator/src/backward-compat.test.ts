@@ -240,10 +240,12 @@ describe("Backward Compatibility Tests", () => {
       const workflow = unifiedWorkflowGenerator.generate([agent], defaultSecrets);
       const parsed = yaml.load(workflow) as WorkflowYaml;
 
-      // Should include required permissions
-      expect(parsed.permissions).toBeDefined();
-      expect(parsed.permissions?.issues).toBe("write");
-      expect(parsed.permissions?.contents).toBe("write");
+      // The agent job gets the permissions its outputs need
+      const job = parsed.jobs["agent-v1-4-output-config"] as {
+        permissions?: Record<string, string>;
+      };
+      expect(job.permissions?.issues).toBe("write");
+      expect(job.permissions?.contents).toBe("write");
     });
 
     it("should generate workflow with schedule trigger for v1.0 schedule agent", () => {
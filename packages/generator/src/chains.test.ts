@@ -0,0 +1,47 @@
+import { describe, expect, it } from "bun:test";
+import type { AgentDefinition } from "@repo-agents/types";
+import { resolveAgentChains } from "./chains";
+
+const agent = (name: string, chain: Partial<AgentDefinition> = {}): AgentDefinition => ({
+  name,
+  on: { issues: { types: ["opened"] } },
+  markdown: "Instructions",
+  ...chain,
+});
+
+describe("resolveAgentChains", () => {
+  it("should combine then and needs into upstream lists", () => {
+    const { upstream, errors } = resolveAgentChains([
+      agent("Issue Triage", { downstream: ["issue-implementer"] }),
+      agent("Issue Implementer"),
+      agent("Reviewer", { on: {}, needs: ["Issue Implementer", "issue-triage"] }),
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(upstream.get("issue-implementer")).toEqual(["issue-triage"]);
+    expect(upstream.get("reviewer")).toEqual(["issue-implementer", "issue-triage"]);
+    expect(upstream.get("issue-triage")).toEqual([]);
+  });
+
+  it("should report unknown agents", () => {
+    const { errors } = resolveAgentChains([agent("Triage", { downstream: ["missing"] })]);
+
+    expect(errors.map((e) => e.message)).toEqual(['Triage: unknown agent "missing" in then']);
+  });
+
+  it("should report cycles in run order", () => {
+    const { errors } = resolveAgentChains([
+      agent("A", { downstream: ["b"] }),
+      agent("B", { downstream: ["c"] }),
+      agent("C", { needs: ["b"], downstream: ["a"] }),
+    ]);
+
+    expect(errors.map((e) => e.message)).toEqual(["Agent chain has a cycle: A → B → C → A"]);
+  });
+
+  it("should report agents chained to themselves", () => {
+    const { errors } = resolveAgentChains([agent("Loop", { needs: ["loop"] })]);
+
+    expect(errors.map((e) => e.message)).toEqual(["Agent chain has a cycle: Loop → Loop"]);
+  });
+});
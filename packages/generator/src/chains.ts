@@ -0,0 +1,111 @@
+import type { AgentDefinition, ValidationError } from "@repo-agents/types";
+
+/**
+ * Upstream agents of each agent, from `then:` on the upstream agent and `needs:` on the
+ * downstream agent. Agents are keyed by slug.
+ */
+export interface AgentChains {
+  upstream: Map<string, string[]>;
+  errors: ValidationError[];
+}
+
+/**
+ * Resolve `then:` and `needs:` into upstream lists and check them. References may use an
+ * agent's name or its slug. Unknown agents and cycles are errors.
+ */
+export function resolveAgentChains(agents: AgentDefinition[]): AgentChains {
+  const slugs = new Map(agents.map((agent) => [slugify(agent.name), agent.name]));
+  const upstream = new Map<string, Set<string>>(
+    agents.map((agent) => [slugify(agent.name), new Set<string>()]),
+  );
+  const errors: ValidationError[] = [];
+
+  const link = (from: AgentDefinition, field: "then" | "needs", reference: string) => {
+    const target = slugify(reference);
+    if (!slugs.has(target)) {
+      errors.push({
+        field,
+        message: `${from.name}: unknown agent "${reference}" in ${field}`,
+        severity: "error",
+      });
+      return undefined;
+    }
+    return target;
+  };
+
+  for (const agent of agents) {
+    const slug = slugify(agent.name);
+    for (const reference of agent.downstream ?? []) {
+      const downstream = link(agent, "then", reference);
+      if (downstream) {
+        upstream.get(downstream)?.add(slug);
+      }
+    }
+    for (const reference of agent.needs ?? []) {
+      const dependency = link(agent, "needs", reference);
+      if (dependency) {
+        upstream.get(slug)?.add(dependency);
+      }
+    }
+  }
+
+  const lists = new Map(Array.from(upstream, ([slug, set]) => [slug, Array.from(set).sort()]));
+  const cycle = findCycle(lists);
+  if (cycle) {
+    errors.push({
+      field: "then",
+      message: `Agent chain has a cycle: ${cycle.map((slug) => slugs.get(slug)).join(" → ")}`,
+      severity: "error",
+    });
+  }
+
+  return { upstream: lists, errors };
+}
+
+/**
+ * Depth-first search for a cycle. Returns the agents on the cycle, with the first
+ * agent repeated at the end, or undefined when the chains form a DAG.
+ */
+function findCycle(upstream: Map<string, string[]>): string[] | undefined {
+  const done = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (slug: string): string[] | undefined => {
+    const index = path.indexOf(slug);
+    if (index !== -1) {
+      return [...path.slice(index), slug].reverse();
+    }
+    if (done.has(slug)) {
+      return undefined;
+    }
+
+    path.push(slug);
+    for (const dependency of upstream.get(slug) ?? []) {
+      const cycle = visit(dependency);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    path.pop();
+    done.add(slug);
+    return undefined;
+  };
+
+  for (const slug of upstream.keys()) {
+    const cycle = visit(slug);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Convert agent name to URL-safe slug
+ */
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "bun:test";
+import type { Output } from "@repo-agents/types";
+import { getOutputJsonSchema, outputSchemas, validateOutputData } from "./output-schemas";
+import { getOutputHandler } from "./outputs";
+
+describe("outputSchemas", () => {
+  it("should define a schema for every output with a handler", () => {
+    for (const output of Object.keys(outputSchemas) as Output[]) {
+      expect(getOutputHandler(output).name).toBe(output);
+    }
+  });
+
+  it("should document every schema in the generated skill", () => {
+    for (const output of Object.keys(outputSchemas) as Output[]) {
+      const skill = getOutputHandler(output).generateSkill({});
+      expect(skill).toContain(JSON.stringify(getOutputJsonSchema(output), null, 2));
+    }
+  });
+});
+
+describe("getOutputJsonSchema", () => {
+  it("should export required fields and constraints", () => {
+    const schema = getOutputJsonSchema("create-issue");
+
+    expect(schema.$schema).toBeUndefined();
+    expect(schema.required).toEqual(["title", "body"]);
+    expect(schema.properties).toMatchObject({
+      title: { type: "string", minLength: 1, maxLength: 256 },
+      labels: { type: "array", items: { type: "string" } },
+    });
+  });
+
+  it("should accept issue numbers as integers or digit strings", () => {
+    const schema = getOutputJsonSchema("assign-issue");
+
+    expect(schema.properties).toMatchObject({
+      issue_number: { type: ["integer", "string"], pattern: "^[0-9]+$", minimum: 1 },
+    });
+  });
+
+  it("should export enums", () => {
+    const schema = getOutputJsonSchema("merge-pr");
+
+    expect(schema.properties).toMatchObject({
+      merge_method: { enum: ["merge", "squash", "rebase"] },
+    });
+  });
+});
+
+describe("validateOutputData", () => {
+  it("should accept valid data", () => {
+    expect(validateOutputData("add-comment", { body: "Thanks!" })).toEqual([]);
+    expect(validateOutputData("assign-issue", { issue_number: "42", assignees: ["a"] })).toEqual(
+      [],
+    );
+  });
+
+  it("should name missing and mistyped fields", () => {
+    expect(validateOutputData("create-issue", { title: 1 })).toEqual([
+      "title must be a string",
+      "body is required",
+    ]);
+    expect(validateOutputData("pin-issue", { issue_number: "abc" })).toEqual([
+      "issue_number must be a number",
+    ]);
+  });
+
+  it("should report length limits", () => {
+    expect(validateOutputData("create-issue", { title: "x".repeat(257), body: "b" })).toEqual([
+      "title exceeds 256 characters",
+    ]);
+    expect(
+      validateOutputData("assign-issue", {
+        issue_number: 1,
+        assignees: Array.from({ length: 11 }, (_, i) => `user${i}`),
+      }),
+    ).toEqual(["Maximum 10 assignees allowed (found 11)"]);
+  });
+
+  it("should report enum values with the value that was given", () => {
+    expect(validateOutputData("close-issue", { state_reason: "duplicate" })).toEqual([
+      "state_reason must be 'completed' or 'not_planned' (got 'duplicate')",
+    ]);
+  });
+
+  it("should report nested fields by path", () => {
+    expect(validateOutputData("add-to-project", { items: [{ type: "draft" }] })).toEqual([
+      "title is required for draft type",
+    ]);
+    expect(
+      validateOutputData("create-pr", {
+        branch: "fix",
+        title: "Fix",
+        body: "Fix",
+        files: [{ path: "a.ts" }],
+      }),
+    ).toEqual(["each file must have a 'content' string"]);
+  });
+
+  it("should accept patches, deletes, renames and commits in create-pr", () => {
+    const pr = { branch: "fix", title: "Fix", body: "Fix" };
+
+    expect(
+      validateOutputData("create-pr", {
+        ...pr,
+        rename: [{ from: "a.ts", to: "b.ts" }],
+        delete: ["c.ts"],
+        patch: "--- a/d.ts\n+++ b/d.ts\n",
+      }),
+    ).toEqual([]);
+    expect(
+      validateOutputData("create-pr", { ...pr, commits: [{ message: "Drop", delete: ["c.ts"] }] }),
+    ).toEqual([]);
+    expect(validateOutputData("create-pr", pr)).toEqual([
+      "one of rename, delete, patch, files or commits is required",
+    ]);
+    expect(
+      validateOutputData("create-pr", {
+        ...pr,
+        delete: ["c.ts"],
+        commits: [{ message: "Drop", delete: ["c.ts"] }],
+      }),
+    ).toEqual(["use either commits or rename/delete/patch/files, not both"]);
+    expect(validateOutputData("create-pr", { ...pr, commits: [{ message: "Empty" }] })).toEqual([
+      "each commit needs rename, delete, patch or files",
+    ]);
+  });
+
+  it("should apply rules that span several fields", () => {
+    expect(validateOutputData("edit-issue", { issue_number: 1 })).toEqual([
+      "at least one of title or body is required",
+    ]);
+    expect(validateOutputData("add-reaction", { reaction: "rocket" })).toEqual([
+      "Either issue_number or comment_id must be specified",
+    ]);
+  });
+});
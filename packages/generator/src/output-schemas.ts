@@ -0,0 +1,687 @@
+import type { Output } from "@repo-agents/types";
+import { type ZodObject, type ZodType, z } from "zod";
+
+/**
+ * Output file schemas - the single definition of each built-in output's JSON shape.
+ *
+ * The skill docs shown to the agent, the JSON Schema export and the validation in the
+ * outputs stage are all generated from these schemas. Rules that need the repository
+ * (labels exist, branch is unprotected, ...) or the output config stay in the outputs stage.
+ */
+
+/**
+ * Issue, PR or project number. Agents write numbers either way, so positive integers and
+ * strings of digits are both accepted.
+ */
+const numericId = z
+  .custom<number | string>(
+    (value) =>
+      typeof value === "number"
+        ? Number.isInteger(value) && value > 0
+        : typeof value === "string" && /^[0-9]+$/.test(value),
+    { params: { numericId: true } },
+  )
+  .meta({ type: ["integer", "string"], pattern: "^[0-9]+$", minimum: 1 });
+
+/** Reaction contents supported by the GitHub API */
+export const REACTIONS = ["+1", "-1", "laugh", "confused", "heart", "hooray", "rocket", "eyes"];
+
+/** Lock reasons supported by the GitHub API */
+export const LOCK_REASONS = ["off-topic", "too heated", "resolved", "spam"];
+
+/** Data types accepted by `gh project field-create` */
+export const PROJECT_FIELD_TYPES = ["TEXT", "SINGLE_SELECT", "DATE", "NUMBER"];
+
+const targetIssue = numericId
+  .describe(
+    "Issue or PR number. Required in batch/scheduled mode, defaults to the triggering issue/PR otherwise",
+  )
+  .optional();
+
+const labelList = (description: string) =>
+  z
+    .array(z.string(), { error: "labels must be a non-empty array" })
+    .min(1, "labels must be a non-empty array")
+    .describe(description);
+
+const fileList = (description: string) =>
+  z
+    .array(
+      z.object({
+        path: z
+          .string({ error: "each file must have a 'path' string" })
+          .min(1, "each file must have a 'path' string")
+          .describe("File path relative to repository root"),
+        content: z
+          .string({ error: "each file must have a 'content' string" })
+          .describe("Complete file content"),
+      }),
+      { error: "files must be a non-empty array" },
+    )
+    .min(1, "files must be a non-empty array")
+    .describe(description);
+
+const filePath = (description: string) => z.string().min(1).describe(description);
+
+/** Changes one commit of a pull request makes, applied in the order listed */
+const prChanges = {
+  rename: z
+    .array(
+      z.object({
+        from: filePath("Current path of the file"),
+        to: filePath("New path of the file"),
+      }),
+    )
+    .min(1, "rename must be a non-empty array")
+    .describe("Files to move (applied first)")
+    .optional(),
+  delete: z
+    .array(filePath("Path of a file to delete"))
+    .min(1, "delete must be a non-empty array")
+    .describe("Files to delete")
+    .optional(),
+  patch: z
+    .string()
+    .min(1, "patch must not be empty")
+    .describe("Unified diff of the changes, as produced by git diff (applied with git apply)")
+    .optional(),
+  files: fileList("Files to create or overwrite with their complete content").optional(),
+};
+
+const hasPrChanges = (changes: Record<string, unknown>) =>
+  Object.keys(prChanges).some((key) => changes[key] !== undefined);
+
+const projectTarget = {
+  project_number: numericId
+    .describe("Project number (defaults to the project_number in the output config)")
+    .optional(),
+  owner: z
+    .string()
+    .describe('Project owner ("@me" for the authenticated user, or an org/user name)')
+    .optional(),
+};
+
+const reason = z.string().describe("Why this operation is being performed").optional();
+
+const hexColor = z.string().regex(/^[0-9a-fA-F]{6}$/, {
+  error: (issue) => `color must be a valid 6-character hex code (got: ${issue.input})`,
+});
+
+export const outputSchemas: Record<Output, ZodObject> = {
+  "add-comment": z.object({
+    issue_number: targetIssue,
+    body: z
+      .string({ error: "body is required and must be a string" })
+      .min(1, "body is required and must be a string")
+      .max(65536)
+      .describe("Markdown-formatted comment text"),
+  }),
+
+  "add-label": z.object({
+    issue_number: targetIssue,
+    labels: labelList("Label names to add"),
+  }),
+
+  "remove-label": z.object({
+    issue_number: targetIssue,
+    labels: labelList("Label names to remove"),
+  }),
+
+  "create-issue": z.object({
+    title: z.string().min(1).max(256).describe("Clear, descriptive issue title"),
+    body: z.string().min(1).describe("Detailed description with context"),
+    labels: z.array(z.string()).describe("Label names (must exist in the repository)").optional(),
+    assignees: z.array(z.string()).describe("GitHub usernames to assign").optional(),
+  }),
+
+  "create-discussion": z.object({
+    title: z.string().min(1).max(256).describe("Clear, descriptive discussion title"),
+    body: z.string().min(1).describe("Detailed content with context"),
+    category: z
+      .string()
+      .min(1)
+      .describe('Discussion category name (e.g., "Announcements", "General", "Q&A")'),
+  }),
+
+  "create-pr": z
+    .object({
+      branch: z
+        .string()
+        .min(1)
+        .regex(/^[a-zA-Z0-9/_.-]+$/, "branch name contains invalid characters")
+        .describe('Name for the new branch (e.g., "feature/add-support")'),
+      title: z.string().min(1).describe("Clear PR title"),
+      body: z.string().min(1).describe("Detailed PR description"),
+      base: z
+        .string()
+        .min(1)
+        .describe("Target branch (defaults to the repository's default branch)")
+        .optional(),
+      ...prChanges,
+      commits: z
+        .array(
+          z
+            .object({
+              message: z.string().min(1).describe("Commit message"),
+              ...prChanges,
+            })
+            .refine(hasPrChanges, {
+              message: "each commit needs rename, delete, patch or files",
+            }),
+        )
+        .min(1, "commits must be a non-empty array")
+        .describe("Changes split into several commits, in order (instead of the fields above)")
+        .optional(),
+    })
+    .superRefine((data, ctx) => {
+      if (data.commits && hasPrChanges(data)) {
+        ctx.addIssue({
+          code: "custom",
+          message: "use either commits or rename/delete/patch/files, not both",
+        });
+      } else if (!data.commits && !hasPrChanges(data)) {
+        ctx.addIssue({
+          code: "custom",
+          message: "one of rename, delete, patch, files or commits is required",
+        });
+      }
+    }),
+
+  "update-file": z.object({
+    files: fileList("Files to update or create"),
+    message: z.string().min(1).describe("Commit message describing the changes"),
+    branch: z
+      .string()
+      .min(1)
+      .describe("Branch to commit to (defaults to the repository's default branch)")
+      .optional(),
+  }),
+
+  "close-issue": z.object({
+    state_reason: z
+      .enum(["completed", "not_planned"])
+      .describe('Reason for closing (default: "completed")')
+      .optional(),
+  }),
+
+  "close-pr": z.object({
+    merge: z.boolean().describe("Merge instead of just closing (default: false)").optional(),
+  }),
+
+  "edit-issue": z
+    .object({
+      issue_number: numericId
+        .describe("Issue or PR number to edit (defaults to the triggering issue/PR)")
+        .optional(),
+      title: z.string().max(256).describe("New title").optional(),
+      body: z.string().describe("New body content").optional(),
+    })
+    .refine((data) => data.title !== undefined || data.body !== undefined, {
+      message: "at least one of title or body is required",
+    }),
+
+  "assign-issue": z.object({
+    issue_number: numericId.describe("Issue or PR number to assign"),
+    assignees: z
+      .array(z.string())
+      .min(1, "assignees array cannot be empty")
+      .max(10)
+      .describe("GitHub usernames to assign"),
+  }),
+
+  "request-review": z
+    .object({
+      pr_number: numericId.describe("Pull request number"),
+      reviewers: z
+        .array(z.string())
+        .describe("GitHub usernames to request a review from")
+        .optional(),
+      team_reviewers: z
+        .array(z.string())
+        .describe('Team slugs to request a review from (e.g., "team-name")')
+        .optional(),
+    })
+    .superRefine((data, ctx) => {
+      const total = (data.reviewers?.length ?? 0) + (data.team_reviewers?.length ?? 0);
+      if (total === 0) {
+        ctx.addIssue({
+          code: "custom",
+          message: "At least one reviewer or team_reviewer must be specified",
+        });
+      } else if (total > 15) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Maximum 15 total reviewers allowed (found ${total})`,
+        });
+      }
+    }),
+
+  "merge-pr": z.object({
+    pr_number: numericId.describe("Pull request number to merge"),
+    merge_method: z
+      .enum(["merge", "squash", "rebase"])
+      .describe('Merge method (default: "merge")')
+      .optional(),
+    commit_title: z.string().describe("Custom merge commit title").optional(),
+    commit_message: z.string().describe("Custom merge commit message").optional(),
+    delete_branch: z
+      .boolean()
+      .describe("Delete the branch after merging (default: true)")
+      .optional(),
+  }),
+
+  "approve-pr": z.object({
+    pr_number: numericId.describe("Pull request number to approve"),
+    body: z.string().describe("Review comment explaining the approval").optional(),
+  }),
+
+  "create-release": z.object({
+    tag_name: z.string().min(1).describe('Git tag for the release (e.g., "v1.2.3")'),
+    name: z.string().describe("Release title (defaults to tag_name)").optional(),
+    body: z.string().describe("Release description/notes").optional(),
+    draft: z.boolean().describe("Create as draft (default: false)").optional(),
+    prerelease: z.boolean().describe("Mark as prerelease (default: false)").optional(),
+    generate_release_notes: z
+      .boolean()
+      .describe("Auto-generate release notes (default: false)")
+      .optional(),
+    target_commitish: z
+      .string()
+      .describe("Branch or commit to tag (defaults to the repository's default branch)")
+      .optional(),
+  }),
+
+  "delete-branch": z.object({
+    branch: z.string().min(1).describe('Branch name to delete (e.g., "feature/old-feature")'),
+  }),
+
+  "lock-conversation": z.object({
+    issue_number: numericId.describe("Issue or PR number to lock"),
+    lock_reason: z.enum(LOCK_REASONS).describe("Reason for locking").optional(),
+  }),
+
+  "pin-issue": z.object({
+    issue_number: numericId.describe("Issue number to pin"),
+  }),
+
+  "convert-to-discussion": z.object({
+    issue_number: numericId.describe("Issue number to convert"),
+    category: z
+      .string()
+      .min(1)
+      .describe('Discussion category name (e.g., "Q&A", "Ideas", "General")'),
+  }),
+
+  "reopen-issue": z.object({
+    issue_number: numericId.describe("Issue or PR number to reopen"),
+    comment: z.string().describe("Comment explaining why the issue is being reopened").optional(),
+  }),
+
+  "set-milestone": z.object({
+    issue_number: numericId.describe("Issue or PR number"),
+    milestone: z.string().min(1).describe("Milestone title (must match exactly)"),
+  }),
+
+  "trigger-workflow": z.object({
+    workflow: z.string().min(1).describe('Workflow filename (e.g., "deploy.yml") or workflow ID'),
+    ref: z
+      .string()
+      .describe("Git ref to run the workflow on (defaults to the repository's default branch)")
+      .optional(),
+    inputs: z
+      .record(z.string(), z.unknown())
+      .describe("Input key-value pairs for the workflow")
+      .optional(),
+  }),
+
+  "add-reaction": z
+    .object({
+      issue_number: numericId.describe("Issue or PR number to react to").optional(),
+      comment_id: numericId.describe("Comment ID to react to").optional(),
+      reaction: z.enum(REACTIONS).describe("Reaction emoji"),
+    })
+    .superRefine((data, ctx) => {
+      if (data.issue_number === undefined && data.comment_id === undefined) {
+        ctx.addIssue({
+          code: "custom",
+          message: "Either issue_number or comment_id must be specified",
+        });
+      } else if (data.issue_number !== undefined && data.comment_id !== undefined) {
+        ctx.addIssue({
+          code: "custom",
+          message: "Cannot specify both issue_number and comment_id",
+        });
+      }
+    }),
+
+  "create-branch": z.object({
+    branch: z
+      .string()
+      .min(1)
+      .regex(/^[a-zA-Z0-9][a-zA-Z0-9/_.-]*$/, {
+        error: (issue) => `Invalid branch name '${issue.input}'`,
+      })
+      .describe('Branch name to create (e.g., "feature/new-feature")'),
+    from_ref: z
+      .string()
+      .describe("Branch or tag to create from (defaults to the repository's default branch)")
+      .optional(),
+    from_sha: z.string().describe("Commit SHA to create from (overrides from_ref)").optional(),
+  }),
+
+  "copy-project": z.object({
+    source_project_number: numericId.describe("Number of the project to copy"),
+    source_owner: z
+      .string()
+      .describe('Owner of the source project ("@me" or an org/user name, default: "@me")')
+      .optional(),
+    target_owner: z
+      .string()
+      .describe('Owner of the new project ("@me" or an org/user name, default: "@me")')
+      .optional(),
+    new_title: z.string().min(1).describe("Title for the new project"),
+    new_description: z.string().describe("Description for the new project").optional(),
+    include_items: z.boolean().describe("Copy the existing items (default: false)").optional(),
+  }),
+
+  "mark-template": z.object({
+    project_number: numericId.describe("Number of the project to modify"),
+    owner: z
+      .string()
+      .describe('Owner of the project ("@me" or an org/user name, default: "@me")')
+      .optional(),
+    action: z
+      .enum(["mark", "unmark"])
+      .describe('"mark" to make the project a template, "unmark" to remove template status'),
+    reason: z.string().describe("Reason for the change (for documentation)").optional(),
+  }),
+
+  "manage-labels": z.object({
+    operations: z
+      .array(
+        z
+          .object({
+            action: z.enum(["create", "edit", "delete"]).describe("Operation to perform"),
+            name: z
+              .string({ error: "name is required for all operations" })
+              .min(1, "name is required for all operations")
+              .describe("Current label name (edit/delete) or new label name (create)"),
+            new_name: z.string().describe("New name when renaming (edit only)").optional(),
+            color: hexColor
+              .describe('Hex color without # (e.g., "d73a4a"). Required for create')
+              .optional(),
+            description: z.string().describe("Label description").optional(),
+            reason,
+          })
+          .superRefine((op, ctx) => {
+            if (op.action === "create" && op.color === undefined) {
+              ctx.addIssue({
+                code: "custom",
+                path: ["color"],
+                message: "color is required for create action",
+              });
+            }
+          }),
+      )
+      .describe("Label operations to perform"),
+  }),
+
+  "add-to-project": z.object({
+    items: z
+      .array(
+        z
+          .object({
+            type: z.enum(["issue", "pull_request", "draft"]).describe("Kind of item to add"),
+            number: numericId.describe("Issue or PR number (issue/pull_request)").optional(),
+            title: z.string().describe("Title of the draft item (draft)").optional(),
+            body: z.string().describe("Body of the draft item (draft)").optional(),
+          })
+          .superRefine((item, ctx) => {
+            if (item.type === "draft" ? !item.title : item.number === undefined) {
+              const field = item.type === "draft" ? "title" : "number";
+              ctx.addIssue({
+                code: "custom",
+                path: [field],
+                message: `${field} is required for ${item.type} type`,
+              });
+            }
+          }),
+      )
+      .describe("Items to add"),
+    ...projectTarget,
+  }),
+
+  "remove-from-project": z.object({
+    items: z
+      .array(
+        z.object({
+          item_id: z.string().min(1).describe("Project item ID (format: PVTI_...)"),
+          reason,
+        }),
+      )
+      .describe("Items to remove"),
+    ...projectTarget,
+  }),
+
+  "update-project-field": z.object({
+    updates: z
+      .array(
+        z.object({
+          item_id: z.string().min(1).describe("Project item ID (format: PVTI_...)"),
+          fields: z
+            .record(z.string(), z.unknown())
+            .describe(
+              "Field names mapped to new values: option names for single-select fields, strings for text, numbers for number fields and ISO 8601 dates for date fields",
+            ),
+        }),
+      )
+      .describe("Field updates"),
+    ...projectTarget,
+  }),
+
+  "archive-project-item": z.object({
+    items: z
+      .array(
+        z.object({
+          item_id: z.string().min(1).describe("Project item ID (format: PVTI_...)"),
+          action: z.enum(["archive", "unarchive"]).describe("Archive or restore the item"),
+          reason,
+        }),
+      )
+      .describe("Items to archive or unarchive"),
+    ...projectTarget,
+  }),
+
+  "manage-project": z.object({
+    operations: z
+      .array(
+        z
+          .object({
+            action: z.enum(["create", "edit", "close", "delete"]).describe("Operation to perform"),
+            project_number: numericId
+              .describe("Project number (required for edit/close/delete)")
+              .optional(),
+            title: z
+              .string()
+              .describe("Project title (required for create, optional for edit)")
+              .optional(),
+            description: z.string().describe("Project description").optional(),
+            owner: z.string().describe('Project owner ("@me" or an org/user name)').optional(),
+            reason,
+          })
+          .superRefine((op, ctx) => {
+            if (op.action === "create" && !op.title) {
+              ctx.addIssue({
+                code: "custom",
+                path: ["title"],
+                message: "title is required for create action",
+              });
+            } else if (op.action !== "create" && op.project_number === undefined) {
+              ctx.addIssue({
+                code: "custom",
+                path: ["project_number"],
+                message: `project_number is required for ${op.action} action`,
+              });
+            }
+          }),
+      )
+      .describe("Project operations to perform"),
+  }),
+
+  "manage-project-field": z.object({
+    operations: z
+      .array(
+        z
+          .object({
+            action: z.enum(["create", "delete"]).describe("Operation to perform"),
+            name: z.string().describe("Field name (required for create)").optional(),
+            data_type: z
+              .enum(PROJECT_FIELD_TYPES)
+              .describe("Field type (required for create)")
+              .optional(),
+            single_select_options: z
+              .array(z.string())
+              .describe("Option values (required for SINGLE_SELECT)")
+              .optional(),
+            field_id: z
+              .string()
+              .describe("Field ID, format PVTF_... (required for delete)")
+              .optional(),
+            reason,
+          })
+          .superRefine((op, ctx) => {
+            const require = (field: string, when: string) =>
+              ctx.addIssue({
+                code: "custom",
+                path: [field],
+                message: `${field} is required for ${when}`,
+              });
+            if (op.action === "delete") {
+              if (!op.field_id) {
+                require("field_id", "delete action");
+              }
+              return;
+            }
+            if (!op.name) {
+              require("name", "create action");
+            }
+            if (!op.data_type) {
+              require("data_type", "create action");
+            } else if (op.data_type === "SINGLE_SELECT" && !op.single_select_options?.length) {
+              require("single_select_options", "SINGLE_SELECT type");
+            }
+          }),
+      )
+      .describe("Field operations to perform"),
+    ...projectTarget,
+  }),
+
+  "link-project": z.object({
+    operations: z
+      .array(
+        z.object({
+          action: z.enum(["link", "unlink"]).describe("Link or unlink the target"),
+          target_type: z.enum(["repository", "team"]).describe("Kind of target"),
+          target: z.string().min(1).describe("Repository (owner/repo) or team (org/team-name)"),
+          reason,
+        }),
+      )
+      .describe("Link/unlink operations to perform"),
+    ...projectTarget,
+  }),
+};
+
+/**
+ * Get the schema of an output type.
+ * @throws Error if the output type has no schema
+ */
+export function getOutputSchema(output: Output): ZodObject {
+  const schema = outputSchemas[output];
+  if (!schema) {
+    throw new Error(`No schema defined for output type: ${output}`);
+  }
+  return schema;
+}
+
+/**
+ * Export the schema of an output type as JSON Schema.
+ */
+export function getOutputJsonSchema(output: Output): Record<string, unknown> {
+  const { $schema: _, ...jsonSchema } = z.toJSONSchema(getOutputSchema(output), {
+    io: "input",
+    unrepresentable: "any",
+  });
+  return jsonSchema;
+}
+
+/**
+ * Validate the data of an output file. Returns one message per problem, or an empty list
+ * when the data matches the output's schema.
+ */
+export function validateOutputData(output: Output, data: unknown): string[] {
+  return validateWithSchema(getOutputSchema(output), data);
+}
+
+/**
+ * Validate data against an output schema, with messages that name the offending field.
+ */
+export function validateWithSchema(schema: ZodType, data: unknown): string[] {
+  const result = schema.safeParse(data, { error: describeIssue });
+  return result.success ? [] : result.error.issues.map((issue) => issue.message);
+}
+
+/**
+ * Message for an issue whose schema does not set one, e.g. "title exceeds 256 characters".
+ */
+function describeIssue(issue: z.core.$ZodRawIssue): string | undefined {
+  const field = formatPath(issue.path ?? []);
+
+  if (issue.input === undefined) {
+    return `${field} is required`;
+  }
+
+  switch (issue.code) {
+    case "invalid_type":
+      return `${field} must be ${withArticle(issue.expected === "record" ? "object" : issue.expected)}`;
+    case "too_small":
+      if (issue.origin === "array") {
+        return `${field} must be a non-empty array`;
+      }
+      return issue.origin === "string" && issue.minimum === 1
+        ? `${field} is required`
+        : `${field} must be at least ${issue.minimum}`;
+    case "too_big":
+      if (issue.origin === "string") {
+        return `${field} exceeds ${issue.maximum} characters`;
+      }
+      if (issue.origin === "array" && Array.isArray(issue.input)) {
+        return `Maximum ${issue.maximum} ${field} allowed (found ${issue.input.length})`;
+      }
+      return `${field} must be at most ${issue.maximum}`;
+    case "invalid_value": {
+      const values = issue.values.map(String);
+      const expected =
+        values.length === 2 ? `'${values[0]}' or '${values[1]}'` : `one of: ${values.join(", ")}`;
+      return `${field} must be ${expected} (got '${String(issue.input)}')`;
+    }
+    case "custom":
+      return issue.params?.numericId ? `${field} must be a number` : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Format an issue path as it would be written in JavaScript, e.g. items[0].title.
+ */
+function formatPath(path: PropertyKey[]): string {
+  return path
+    .map((segment, index) =>
+      typeof segment === "number" ? `[${segment}]` : `${index > 0 ? "." : ""}${String(segment)}`,
+    )
+    .join("");
+}
+
+function withArticle(noun: string): string {
+  return `${/^[aeiou]/.test(noun) ? "an" : "a"} ${noun}`;
+}
@@ -37,7 +37,7 @@ describe("AddCommentHandler", () => {
       const skill = handler.generateSkill(config);
 
       expect(skill).toContain("JSON Schema");
-      expect(skill).toContain('"body": "string"');
+      expect(skill).toContain('"body": {');
     });
 
     it("should show unlimited constraint when no max specified", () => {
@@ -78,85 +78,4 @@ describe("AddCommentHandler", () => {
       expect(skill).toContain("Use the Write tool");
     });
   });
-
-  describe("generateValidationScript", () => {
-    it("should generate validation script", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('find /tmp/outputs -name "add-comment*.json"');
-      expect(script).toContain("jq empty");
-    });
-
-    it("should validate body is non-empty", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("COMMENT_BODY");
-      expect(script).toContain("Comment body is empty or missing");
-    });
-
-    it("should validate body length", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("65536");
-      expect(script).toContain("exceeds 65536 characters");
-    });
-
-    it("should include max constraint check when specified", () => {
-      const config = { max: 3 };
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ "$FILE_COUNT" -gt 3 ]');
-      expect(script).toContain("Maximum allowed: 3");
-    });
-
-    it("should not include max constraint check when not specified", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).not.toContain('if [ "$FILE_COUNT" -gt');
-    });
-
-    it("should use runtime context for repository", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("owner/repo");
-    });
-
-    it("should check for issue/PR number", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("ISSUE_NUMBER");
-      expect(script).toContain('if [ -z "$ISSUE_NUMBER" ]');
-    });
-
-    it("should use GitHub API to post comment", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh api");
-      expect(script).toContain("/issues/$ISSUE_NUMBER/comments");
-    });
-
-    it("should append workflow footer to comments", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("FOOTER");
-      expect(script).toContain("Generated by workflow");
-    });
-
-    it("should implement atomic validation (validate all, then execute)", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("Phase 1: Validate all files");
-      expect(script).toContain("Phase 2: Execute only if all validations passed");
-      expect(script).toContain("VALIDATION_FAILED");
-    });
-  });
 });
@@ -1,5 +1,6 @@
 import type { OutputConfig } from "@repo-agents/types";
 import type { OutputHandler, RuntimeContext } from "./base";
+import { generateSchemaDocs } from "./base";
 
 class AddCommentHandler implements OutputHandler {
   name = "add-comment";
@@ -20,17 +21,7 @@ Add a comment to an issue or pull request.
 
 For multiple comments, use numbered suffixes: \`add-comment-1.json\`, \`add-comment-2.json\`, etc.
 
-**JSON Schema**:
-\`\`\`json
-{
-  "issue_number": number,
-  "body": "string"
-}
-\`\`\`
-
-**Fields**:
-- \`issue_number\` (required for batch/scheduled mode, optional otherwise): The issue or PR number to comment on
-- \`body\` (required): Markdown-formatted comment text
+${generateSchemaDocs("add-comment")}
 
 **Constraints**:
 - Maximum comments: ${maxConstraint}
@@ -57,89 +48,6 @@ For multiple comments, use numbered suffixes: \`add-comment-1.json\`, \`add-comm
 
 **Important**: Use the Write tool to create this file. In batch mode, create separate files for each issue (add-comment-1.json, add-comment-2.json, etc.) with the appropriate issue_number in each.`;
   }
-
-  generateValidationScript(config: OutputConfig, runtime: RuntimeContext): string {
-    const issueOrPrNumber = runtime.issueOrPrNumber;
-    const maxConstraint = config.max;
-
-    return `
-# Validate and execute add-comment output(s)
-COMMENT_FILES=$(find /tmp/outputs -name "add-comment*.json" 2>/dev/null || true)
-
-if [ -n "$COMMENT_FILES" ]; then
-  # Count files
-  FILE_COUNT=$(echo "$COMMENT_FILES" | wc -l)
-  echo "Found $FILE_COUNT add-comment output file(s)"
-
-  # Check max constraint
-  ${
-    maxConstraint
-      ? `
-  if [ "$FILE_COUNT" -gt ${maxConstraint} ]; then
-    echo "- **add-comment**: Too many comment files ($FILE_COUNT). Maximum allowed: ${maxConstraint}" > /tmp/validation-errors/add-comment.txt
-    exit 0
-  fi`
-      : ""
-  }
-
-  # Phase 1: Validate all files
-  VALIDATION_FAILED=false
-  for comment_file in $COMMENT_FILES; do
-    echo "Validating $comment_file..."
-
-    # Validate JSON structure
-    if ! jq empty "$comment_file" 2>/dev/null; then
-      echo "- **add-comment**: Invalid JSON format in $comment_file" >> /tmp/validation-errors/add-comment.txt
-      VALIDATION_FAILED=true
-      continue
-    fi
-
-    # Extract body
-    COMMENT_BODY=$(jq -r '.body' "$comment_file")
-
-    # Validate body is non-empty
-    if [ -z "$COMMENT_BODY" ] || [ "$COMMENT_BODY" = "null" ]; then
-      echo "- **add-comment**: Comment body is empty or missing in $comment_file" >> /tmp/validation-errors/add-comment.txt
-      VALIDATION_FAILED=true
-      continue
-    elif [ \${#COMMENT_BODY} -gt 65536 ]; then
-      echo "- **add-comment**: Comment body exceeds 65536 characters in $comment_file" >> /tmp/validation-errors/add-comment.txt
-      VALIDATION_FAILED=true
-      continue
-    fi
-
-    echo "✓ Validation passed for $comment_file"
-  done
-
-  # Check if we have an issue/PR number
-  ISSUE_NUMBER="${issueOrPrNumber}"
-  if [ -z "$ISSUE_NUMBER" ]; then
-    echo "- **add-comment**: No issue or PR number available" >> /tmp/validation-errors/add-comment.txt
-    VALIDATION_FAILED=true
-  fi
-
-  # Phase 2: Execute only if all validations passed
-  if [ "$VALIDATION_FAILED" = false ]; then
-    echo "✓ All add-comment validations passed - executing..."
-    for comment_file in $COMMENT_FILES; do
-      COMMENT_BODY=$(jq -r '.body' "$comment_file")
-
-      # Append footer with workflow and job information
-      FOOTER=$'\\n\\n> *Generated by workflow [\${{ github.workflow }}](\${{ github.server_url }}/\${{ github.repository }}/actions/runs/\${{ github.run_id }})*'
-      COMMENT_BODY_WITH_FOOTER="\${COMMENT_BODY}\${FOOTER}"
-
-      # Add comment via GitHub API
-      gh api "repos/${runtime.repository}/issues/$ISSUE_NUMBER/comments" \\
-        -f body="$COMMENT_BODY_WITH_FOOTER" || {
-        echo "- **add-comment**: Failed to post comment from $comment_file via GitHub API" >> /tmp/validation-errors/add-comment.txt
-      }
-    done
-  else
-    echo "✗ add-comment validation failed - skipping execution (atomic operation)"
-  fi
-fi
-`;
-  }
 }
 
 export const handler = new AddCommentHandler();
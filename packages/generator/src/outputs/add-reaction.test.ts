@@ -49,9 +49,9 @@ describe("AddReactionHandler", () => {
       const skill = handler.generateSkill(config);
 
       expect(skill).toContain("JSON Schema");
-      expect(skill).toContain('"issue_number": number');
-      expect(skill).toContain('"comment_id": number');
-      expect(skill).toContain('"reaction": "string"');
+      expect(skill).toContain('"issue_number": {');
+      expect(skill).toContain('"comment_id": {');
+      expect(skill).toContain('"reaction": {');
     });
 
     it("should mark fields as optional correctly", () => {
@@ -106,83 +106,4 @@ describe("AddReactionHandler", () => {
       expect(skill).toContain("Use the Write tool");
     });
   });
-
-  describe("generateValidationScript", () => {
-    it("should generate validation script", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('find /tmp/outputs -name "add-reaction*.json"');
-      expect(script).toContain("jq empty");
-    });
-
-    it("should validate reaction is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("reaction is required");
-    });
-
-    it("should validate reaction type", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("Invalid reaction");
-      expect(script).toContain("+1|-1|laugh|confused|heart|hooray|rocket|eyes");
-    });
-
-    it("should validate exactly one target is specified", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("Either issue_number or comment_id must be specified");
-      expect(script).toContain("Cannot specify both issue_number and comment_id");
-    });
-
-    it("should include max constraint check when specified", () => {
-      const config = { max: 5 };
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ "$FILE_COUNT" -gt 5 ]');
-      expect(script).toContain("Maximum allowed: 5");
-    });
-
-    it("should not include max constraint check when not specified", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).not.toContain('if [ "$FILE_COUNT" -gt');
-    });
-
-    it("should use runtime context for repository", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("owner/repo");
-    });
-
-    it("should handle issue reactions via GitHub API", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh api");
-      expect(script).toContain("/issues/$ISSUE_NUMBER/reactions");
-    });
-
-    it("should handle comment reactions via GitHub API", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("/issues/comments/$COMMENT_ID/reactions");
-    });
-
-    it("should implement atomic validation (validate all, then execute)", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("Phase 1: Validate all files");
-      expect(script).toContain("Phase 2: Execute only if all validations passed");
-      expect(script).toContain("VALIDATION_FAILED");
-    });
-  });
 });
@@ -36,8 +36,8 @@ describe("ApprovePRHandler", () => {
       const skill = handler.generateSkill(config);
 
       expect(skill).toContain("JSON Schema");
-      expect(skill).toContain('"pr_number": number');
-      expect(skill).toContain('"body": "string"');
+      expect(skill).toContain('"pr_number": {');
+      expect(skill).toContain('"body": {');
     });
 
     it("should mark fields correctly as required or optional", () => {
@@ -96,76 +96,4 @@ describe("ApprovePRHandler", () => {
       expect(skill).toContain("Use the Write tool");
     });
   });
-
-  describe("generateValidationScript", () => {
-    it("should generate validation script", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('find /tmp/outputs -name "approve-pr*.json"');
-      expect(script).toContain("jq empty");
-    });
-
-    it("should validate pr_number is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("pr_number is required");
-    });
-
-    it("should validate pr_number is a number", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("pr_number must be a number");
-      expect(script).toContain("grep -qE '^[0-9]+$'");
-    });
-
-    it("should include max constraint check when specified", () => {
-      const config = { max: 3 };
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ "$FILE_COUNT" -gt 3 ]');
-      expect(script).toContain("Maximum allowed: 3");
-    });
-
-    it("should not include max constraint check when not specified", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).not.toContain('if [ "$FILE_COUNT" -gt');
-    });
-
-    it("should use runtime context for repository", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("owner/repo");
-    });
-
-    it("should create approving review via GitHub API", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh api");
-      expect(script).toContain("/pulls/$PR_NUMBER/reviews");
-      expect(script).toContain('-f event="APPROVE"');
-    });
-
-    it("should default body to automated message", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('"Automated approval"');
-    });
-
-    it("should implement atomic validation (validate all, then execute)", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("Phase 1: Validate all files");
-      expect(script).toContain("Phase 2: Execute only if all validations passed");
-      expect(script).toContain("VALIDATION_FAILED");
-    });
-  });
 });
@@ -36,8 +36,8 @@ describe("AssignIssueHandler", () => {
       const skill = handler.generateSkill(config);
 
       expect(skill).toContain("JSON Schema");
-      expect(skill).toContain('"issue_number": number');
-      expect(skill).toContain('"assignees": ["string"]');
+      expect(skill).toContain('"issue_number": {');
+      expect(skill).toContain('"assignees": {');
     });
 
     it("should mark all fields as required", () => {
@@ -96,91 +96,4 @@ describe("AssignIssueHandler", () => {
       expect(skill).toContain("Use the Write tool");
     });
   });
-
-  describe("generateValidationScript", () => {
-    it("should generate validation script", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('find /tmp/outputs -name "assign-issue*.json"');
-      expect(script).toContain("jq empty");
-    });
-
-    it("should validate issue_number is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("issue_number is required");
-    });
-
-    it("should validate issue_number is a number", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("issue_number must be a number");
-      expect(script).toContain("grep -qE '^[0-9]+$'");
-    });
-
-    it("should validate assignees is an array", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("assignees must be an array");
-      expect(script).toContain("jq -e 'type == \"array\"'");
-    });
-
-    it("should validate assignees array is non-empty", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("assignees array cannot be empty");
-    });
-
-    it("should validate maximum 10 assignees", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("Maximum 10 assignees allowed");
-      expect(script).toContain('if [ "$ASSIGNEE_COUNT" -gt 10 ]');
-    });
-
-    it("should include max constraint check when specified", () => {
-      const config = { max: 5 };
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ "$FILE_COUNT" -gt 5 ]');
-      expect(script).toContain("Maximum allowed: 5");
-    });
-
-    it("should not include max constraint check when not specified", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).not.toContain('if [ "$FILE_COUNT" -gt');
-    });
-
-    it("should use runtime context for repository", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("owner/repo");
-    });
-
-    it("should add assignees via GitHub API", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh api");
-      expect(script).toContain("/issues/$ISSUE_NUMBER/assignees");
-    });
-
-    it("should implement atomic validation (validate all, then execute)", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("Phase 1: Validate all files");
-      expect(script).toContain("Phase 2: Execute only if all validations passed");
-      expect(script).toContain("VALIDATION_FAILED");
-    });
-  });
 });
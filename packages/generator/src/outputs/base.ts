@@ -1,4 +1,5 @@
-import type { OutputConfig } from "@repo-agents/types";
+import type { Output, OutputConfig } from "@repo-agents/types";
+import { getOutputJsonSchema } from "../output-schemas";
 
 /**
  * Runtime context available when generating output handler scripts
@@ -48,25 +49,11 @@ export interface OutputHandler {
    * Should include:
    * - Skill description
    * - File path to write (/tmp/outputs/<output-type>.json)
-   * - JSON schema
+   * - JSON schema and fields, from generateSchemaDocs
    * - Constraints (max, etc.)
    * - Example usage
    */
   generateSkill(config: OutputConfig): string;
-
-  /**
-   * Returns bash script to validate output file and execute GitHub operation
-   * @param config - Output configuration from agent definition
-   * @returns Bash script that validates and executes the output
-   *
-   * The script should:
-   * 1. Check if output file exists in /tmp/outputs/
-   * 2. Validate JSON structure
-   * 3. Validate business logic
-   * 4. Write errors to /tmp/validation-errors/<output-type>.txt if validation fails
-   * 5. Execute GitHub operation via gh CLI if validation passes
-   */
-  generateValidationScript(config: OutputConfig, runtime: RuntimeContext): string;
 }
 
 /**
@@ -91,3 +78,39 @@ $LABELS_LIST
 LABELS_EOF
 `;
 }
+
+/**
+ * Generate the "JSON Schema" and "Fields" sections of a skill from the output's schema.
+ */
+export function generateSchemaDocs(output: Output): string {
+  const schema = getOutputJsonSchema(output);
+  return `**JSON Schema**:
+\`\`\`json
+${JSON.stringify(schema, null, 2)}
+\`\`\`
+
+**Fields**:
+${describeFields(schema).join("\n")}`;
+}
+
+/**
+ * List the properties of a JSON schema, with the properties of array items nested below.
+ */
+function describeFields(schema: Record<string, unknown>, indent = ""): string[] {
+  const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+  const required = (schema.required ?? []) as string[];
+
+  return Object.entries(properties).flatMap(([name, property]) => {
+    const enumValues = property.enum as string[] | undefined;
+    const description = [
+      property.description as string | undefined,
+      enumValues && `One of ${enumValues.map((value) => `"${value}"`).join(", ")}`,
+    ]
+      .filter(Boolean)
+      .join(". ");
+    const line = `${indent}- \`${name}\` (${required.includes(name) ? "required" : "optional"})${description ? `: ${description}` : ""}`;
+
+    const items = property.items as Record<string, unknown> | undefined;
+    return items?.properties ? [line, ...describeFields(items, `${indent}  `)] : [line];
+  });
+}
@@ -39,7 +39,7 @@ describe("CloseIssueHandler", () => {
       const skill = handler.generateSkill(config);
 
       expect(skill).toContain("JSON Schema");
-      expect(skill).toContain('"completed" | "not_planned"');
+      expect(skill).toContain('One of "completed", "not_planned"');
     });
 
     it("should include example", () => {
@@ -58,48 +58,4 @@ describe("CloseIssueHandler", () => {
       expect(skill).toContain("Use the Write tool");
     });
   });
-
-  describe("generateValidationScript", () => {
-    it("should generate validation script", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ -f "/tmp/outputs/close-issue.json" ]');
-      expect(script).toContain("jq empty");
-      expect(script).toContain("STATE_REASON");
-    });
-
-    it("should validate state_reason values", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("completed");
-      expect(script).toContain("not_planned");
-    });
-
-    it("should use runtime context for repository", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("owner/repo");
-    });
-
-    it("should check for issue number", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("ISSUE_NUMBER");
-      expect(script).toContain('if [ -z "$ISSUE_NUMBER" ]');
-    });
-
-    it("should use GitHub API to close issue", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh api");
-      expect(script).toContain("/issues/$ISSUE_NUMBER");
-      expect(script).toContain("-X PATCH");
-      expect(script).toContain('state="closed"');
-    });
-  });
 });
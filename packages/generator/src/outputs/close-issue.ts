@@ -1,5 +1,6 @@
 import type { OutputConfig } from "@repo-agents/types";
 import type { OutputHandler, RuntimeContext } from "./base";
+import { generateSchemaDocs } from "./base";
 
 class CloseIssueHandler implements OutputHandler {
   name = "close-issue";
@@ -16,15 +17,7 @@ Close the current issue.
 
 **File to create**: \`/tmp/outputs/close-issue.json\`
 
-**JSON Schema**:
-\`\`\`json
-{
-  "state_reason": "completed" | "not_planned"
-}
-\`\`\`
-
-**Fields**:
-- \`state_reason\` (optional): Reason for closing. Either "completed" or "not_planned". Defaults to "completed".
+${generateSchemaDocs("close-issue")}
 
 **Example**:
 Create \`/tmp/outputs/close-issue.json\` with:
@@ -39,45 +32,6 @@ Create \`/tmp/outputs/close-issue.json\` with:
 - Consider adding a comment explaining why before closing
 - Use the Write tool to create this file`;
   }
-
-  generateValidationScript(_config: OutputConfig, runtime: RuntimeContext): string {
-    return `
-# Validate and execute close-issue output
-if [ -f "/tmp/outputs/close-issue.json" ]; then
-  echo "Validating close-issue output..."
-
-  # Validate JSON structure
-  if ! jq empty /tmp/outputs/close-issue.json 2>/dev/null; then
-    echo "- **close-issue**: Invalid JSON format" > /tmp/validation-errors/close-issue.txt
-  else
-    # Extract state_reason (optional, defaults to completed)
-    STATE_REASON=$(jq -r '.state_reason // "completed"' /tmp/outputs/close-issue.json)
-
-    # Validate state_reason
-    if [ "$STATE_REASON" != "completed" ] && [ "$STATE_REASON" != "not_planned" ]; then
-      echo "- **close-issue**: state_reason must be 'completed' or 'not_planned', got: $STATE_REASON" > /tmp/validation-errors/close-issue.txt
-    else
-      # Validation passed - execute
-      echo "✓ close-issue validation passed"
-
-      # Check if we have an issue number
-      ISSUE_NUMBER="${runtime.issueNumber || ""}"
-      if [ -z "$ISSUE_NUMBER" ]; then
-        echo "- **close-issue**: No issue number available" > /tmp/validation-errors/close-issue.txt
-      else
-        # Close issue via GitHub API
-        gh api "repos/${runtime.repository}/issues/$ISSUE_NUMBER" \\
-          -X PATCH \\
-          -f state="closed" \\
-          -f state_reason="$STATE_REASON" || {
-          echo "- **close-issue**: Failed to close issue via GitHub API" > /tmp/validation-errors/close-issue.txt
-        }
-      fi
-    fi
-  fi
-fi
-`;
-  }
 }
 
 export const handler = new CloseIssueHandler();
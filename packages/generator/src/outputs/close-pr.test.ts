@@ -45,7 +45,7 @@ describe("ClosePRHandler", () => {
       const skill = handler.generateSkill(config);
 
       expect(skill).toContain("merge");
-      expect(skill).toContain("Set to true to merge instead of just closing");
+      expect(skill).toContain("Merge instead of just closing");
     });
 
     it("should include example", () => {
@@ -64,48 +64,4 @@ describe("ClosePRHandler", () => {
       expect(skill).toContain("Use the Write tool");
     });
   });
-
-  describe("generateValidationScript", () => {
-    it("should generate validation script", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ -f "/tmp/outputs/close-pr.json" ]');
-      expect(script).toContain("jq empty");
-      expect(script).toContain("SHOULD_MERGE");
-    });
-
-    it("should use runtime context for repository", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("owner/repo");
-    });
-
-    it("should check for PR number", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("PR_NUMBER");
-      expect(script).toContain('if [ -z "$PR_NUMBER" ]');
-    });
-
-    it("should support both close and merge operations", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ "$SHOULD_MERGE" = "true" ]');
-      expect(script).toContain("/pulls/$PR_NUMBER/merge");
-      expect(script).toContain('state="closed"');
-    });
-
-    it("should use GitHub API", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh api");
-      expect(script).toContain("-X PUT");
-      expect(script).toContain("-X PATCH");
-    });
-  });
 });
@@ -49,8 +49,8 @@ describe("ConvertToDiscussionHandler", () => {
       const skill = handler.generateSkill(config);
 
       expect(skill).toContain("JSON Schema");
-      expect(skill).toContain('"issue_number": number');
-      expect(skill).toContain('"category": "string"');
+      expect(skill).toContain('"issue_number": {');
+      expect(skill).toContain('"category": {');
     });
 
     it("should mark all fields as required", () => {
@@ -111,94 +111,4 @@ describe("ConvertToDiscussionHandler", () => {
       expect(skill).toContain("Use the Write tool");
     });
   });
-
-  describe("generateValidationScript", () => {
-    it("should generate validation script", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('find /tmp/outputs -name "convert-to-discussion*.json"');
-      expect(script).toContain("jq empty");
-    });
-
-    it("should validate issue_number is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("issue_number is required");
-    });
-
-    it("should validate issue_number is a number", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("issue_number must be a number");
-      expect(script).toContain("grep -qE '^[0-9]+$'");
-    });
-
-    it("should validate category is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("category is required");
-    });
-
-    it("should include max constraint check when specified", () => {
-      const config = { max: 2 };
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ "$FILE_COUNT" -gt 2 ]');
-      expect(script).toContain("Maximum allowed: 2");
-    });
-
-    it("should not include max constraint check when not specified", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).not.toContain('if [ "$FILE_COUNT" -gt');
-    });
-
-    it("should use runtime context for repository", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("owner/repo");
-    });
-
-    it("should fetch issue node ID", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh api");
-      expect(script).toContain("/issues/$ISSUE_NUMBER");
-      expect(script).toContain("node_id");
-    });
-
-    it("should fetch category ID by name via GraphQL", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh api graphql");
-      expect(script).toContain("discussionCategories");
-      expect(script).toContain("CATEGORY_ID");
-    });
-
-    it("should convert via GraphQL mutation", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("convertIssueToDiscussion");
-      expect(script).toContain("issueId");
-      expect(script).toContain("categoryId");
-    });
-
-    it("should implement atomic validation (validate all, then execute)", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("Phase 1: Validate all files");
-      expect(script).toContain("Phase 2: Execute only if all validations passed");
-      expect(script).toContain("VALIDATION_FAILED");
-    });
-  });
 });
@@ -36,12 +36,12 @@ describe("CopyProjectHandler", () => {
       const skill = handler.generateSkill(config);
 
       expect(skill).toContain("JSON Schema");
-      expect(skill).toContain('"source_project_number": number');
-      expect(skill).toContain('"source_owner": "string"');
-      expect(skill).toContain('"target_owner": "string"');
-      expect(skill).toContain('"new_title": "string"');
-      expect(skill).toContain('"new_description": "string"');
-      expect(skill).toContain('"include_items": boolean');
+      expect(skill).toContain('"source_project_number": {');
+      expect(skill).toContain('"source_owner": {');
+      expect(skill).toContain('"target_owner": {');
+      expect(skill).toContain('"new_title": {');
+      expect(skill).toContain('"new_description": {');
+      expect(skill).toContain('"include_items": {');
     });
 
     it("should mark fields correctly as required or optional", () => {
@@ -97,70 +97,4 @@ describe("CopyProjectHandler", () => {
       expect(skill).toContain("Use the Write tool");
     });
   });
-
-  describe("generateValidationScript", () => {
-    it("should generate validation script", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('find /tmp/outputs -name "copy-project*.json"');
-      expect(script).toContain("jq empty");
-    });
-
-    it("should validate source_project_number is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("source_project_number is required");
-    });
-
-    it("should validate new_title is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("new_title is required");
-    });
-
-    it("should include max constraint check when specified", () => {
-      const config = { max: 3 };
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ "$FILE_COUNT" -gt 3 ]');
-      expect(script).toContain("Maximum allowed: 3");
-    });
-
-    it("should not include max constraint check when not specified", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).not.toContain('if [ "$FILE_COUNT" -gt');
-    });
-
-    it("should default optional fields", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('.source_owner // "@me"');
-      expect(script).toContain('.target_owner // "@me"');
-    });
-
-    it("should build gh project copy command with flags", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh project copy");
-      expect(script).toContain("--source-owner");
-      expect(script).toContain("--target-owner");
-      expect(script).toContain("--title");
-    });
-
-    it("should implement atomic validation (validate all, then execute)", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("Phase 1: Validate all files");
-      expect(script).toContain("Phase 2: Execute only if all validations passed");
-      expect(script).toContain("VALIDATION_FAILED");
-    });
-  });
 });
@@ -36,9 +36,9 @@ describe("CreateBranchHandler", () => {
       const skill = handler.generateSkill(config);
 
       expect(skill).toContain("JSON Schema");
-      expect(skill).toContain('"branch": "string"');
-      expect(skill).toContain('"from_ref": "string"');
-      expect(skill).toContain('"from_sha": "string"');
+      expect(skill).toContain('"branch": {');
+      expect(skill).toContain('"from_ref": {');
+      expect(skill).toContain('"from_sha": {');
     });
 
     it("should mark fields correctly as required or optional", () => {
@@ -100,94 +100,4 @@ describe("CreateBranchHandler", () => {
       expect(skill).toContain("Use the Write tool");
     });
   });
-
-  describe("generateValidationScript", () => {
-    it("should generate validation script", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('find /tmp/outputs -name "create-branch*.json"');
-      expect(script).toContain("jq empty");
-    });
-
-    it("should validate branch is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("branch is required");
-    });
-
-    it("should validate branch name format", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("Invalid branch name");
-      expect(script).toContain("[a-zA-Z0-9][a-zA-Z0-9/_.-]*");
-    });
-
-    it("should check if branch already exists", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("git ls-remote");
-      expect(script).toContain("Branch '$BRANCH' already exists");
-    });
-
-    it("should include max constraint check when specified", () => {
-      const config = { max: 5 };
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ "$FILE_COUNT" -gt 5 ]');
-      expect(script).toContain("Maximum allowed: 5");
-    });
-
-    it("should not include max constraint check when not specified", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).not.toContain('if [ "$FILE_COUNT" -gt');
-    });
-
-    it("should use runtime context for repository", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("owner/repo");
-    });
-
-    it("should default from_ref to main", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('.from_ref // "main"');
-    });
-
-    it("should resolve from_ref to SHA", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh api");
-      expect(script).toContain("/git/refs/heads/$FROM_REF");
-      expect(script).toContain("TARGET_SHA");
-    });
-
-    it("should create branch via GitHub API", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh api");
-      expect(script).toContain("/git/refs");
-      expect(script).toContain('-f ref="refs/heads/$BRANCH"');
-      expect(script).toContain('-f sha="$TARGET_SHA"');
-    });
-
-    it("should implement atomic validation (validate all, then execute)", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("Phase 1: Validate all files");
-      expect(script).toContain("Phase 2: Execute only if all validations passed");
-      expect(script).toContain("VALIDATION_FAILED");
-    });
-  });
 });
@@ -36,13 +36,13 @@ describe("CreatePRHandler", () => {
       const skill = handler.generateSkill(config);
 
       expect(skill).toContain("JSON Schema");
-      expect(skill).toContain('"branch": "string"');
-      expect(skill).toContain('"title": "string"');
-      expect(skill).toContain('"body": "string"');
-      expect(skill).toContain('"base": "string"');
+      expect(skill).toContain('"branch": {');
+      expect(skill).toContain('"title": {');
+      expect(skill).toContain('"body": {');
+      expect(skill).toContain('"base": {');
       expect(skill).toContain('"files":');
-      expect(skill).toContain('"path": "string"');
-      expect(skill).toContain('"content": "string"');
+      expect(skill).toContain('"path": {');
+      expect(skill).toContain('"content": {');
     });
 
     it("should mark base as optional", () => {
@@ -51,7 +51,7 @@ describe("CreatePRHandler", () => {
 
       expect(skill).toContain("base");
       expect(skill).toContain("(optional)");
-      expect(skill).toContain("Defaults to repository's default branch");
+      expect(skill).toContain("defaults to the repository's default branch");
     });
 
     it("should show unlimited constraint when no max specified", () => {
@@ -109,134 +109,4 @@ describe("CreatePRHandler", () => {
       expect(skill).toContain("complete file content");
     });
   });
-
-  describe("generateValidationScript", () => {
-    it("should generate validation script", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('find /tmp/outputs -name "create-pr*.json"');
-      expect(script).toContain("jq empty");
-    });
-
-    it("should validate branch is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("branch is required");
-    });
-
-    it("should validate title is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("title is required");
-    });
-
-    it("should validate body is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("body is required");
-    });
-
-    it("should validate files is an array", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("files field must be an array");
-    });
-
-    it("should validate files array is non-empty", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("files array cannot be empty");
-    });
-
-    it("should validate branch name format", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("branch name contains invalid characters");
-      expect(script).toContain("[a-zA-Z0-9/_.-]");
-    });
-
-    it("should default to max 10 PRs", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("MAX_PRS=10");
-    });
-
-    it("should use custom max when specified", () => {
-      const config = { max: 3 };
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("MAX_PRS=3");
-    });
-
-    it("should configure git identity", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("git config user.name");
-      expect(script).toContain("git config user.email");
-    });
-
-    it("should check for existing PR on branch", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh pr view");
-      expect(script).toContain("PR already exists");
-    });
-
-    it("should create and checkout new branch", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("git checkout -b");
-    });
-
-    it("should create files using jq", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("mkdir -p");
-      expect(script).toContain('jq -r ".files[$i].content"');
-    });
-
-    it("should commit changes with title as message", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("git commit -m");
-    });
-
-    it("should sign commits when enabled", () => {
-      const config = { sign: true };
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("git commit -S");
-    });
-
-    it("should push branch to remote", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("git push origin");
-    });
-
-    it("should create PR using gh cli", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh pr create");
-      expect(script).toContain("--title");
-      expect(script).toContain("--body");
-      expect(script).toContain("--base");
-      expect(script).toContain("--head");
-    });
-  });
 });
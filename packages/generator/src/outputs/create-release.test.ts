@@ -36,13 +36,13 @@ describe("CreateReleaseHandler", () => {
       const skill = handler.generateSkill(config);
 
       expect(skill).toContain("JSON Schema");
-      expect(skill).toContain('"tag_name": "string"');
-      expect(skill).toContain('"name": "string"');
-      expect(skill).toContain('"body": "string"');
-      expect(skill).toContain('"draft": boolean');
-      expect(skill).toContain('"prerelease": boolean');
-      expect(skill).toContain('"generate_release_notes": boolean');
-      expect(skill).toContain('"target_commitish": "string"');
+      expect(skill).toContain('"tag_name": {');
+      expect(skill).toContain('"name": {');
+      expect(skill).toContain('"body": {');
+      expect(skill).toContain('"draft": {');
+      expect(skill).toContain('"prerelease": {');
+      expect(skill).toContain('"generate_release_notes": {');
+      expect(skill).toContain('"target_commitish": {');
     });
 
     it("should mark fields correctly as required or optional", () => {
@@ -107,75 +107,4 @@ describe("CreateReleaseHandler", () => {
       expect(skill).toContain("Use the Write tool");
     });
   });
-
-  describe("generateValidationScript", () => {
-    it("should generate validation script", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('find /tmp/outputs -name "create-release*.json"');
-      expect(script).toContain("jq empty");
-    });
-
-    it("should validate tag_name is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("tag_name is required");
-    });
-
-    it("should include max constraint check when specified", () => {
-      const config = { max: 3 };
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ "$FILE_COUNT" -gt 3 ]');
-      expect(script).toContain("Maximum allowed: 3");
-    });
-
-    it("should not include max constraint check when not specified", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).not.toContain('if [ "$FILE_COUNT" -gt');
-    });
-
-    it("should default name to tag_name", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain(".name // .tag_name");
-    });
-
-    it("should default optional fields", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain(".draft // false");
-      expect(script).toContain(".prerelease // false");
-      expect(script).toContain(".generate_release_notes // false");
-      expect(script).toContain('.target_commitish // "main"');
-    });
-
-    it("should build gh release create command with flags", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh release create");
-      expect(script).toContain("--title");
-      expect(script).toContain("--target");
-      expect(script).toContain("--draft");
-      expect(script).toContain("--prerelease");
-      expect(script).toContain("--generate-notes");
-      expect(script).toContain("--notes");
-    });
-
-    it("should implement atomic validation (validate all, then execute)", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("Phase 1: Validate all files");
-      expect(script).toContain("Phase 2: Execute only if all validations passed");
-      expect(script).toContain("VALIDATION_FAILED");
-    });
-  });
 });
@@ -36,21 +36,18 @@ describe("EditIssueHandler", () => {
       const skill = handler.generateSkill(config);
 
       expect(skill).toContain("JSON Schema");
-      expect(skill).toContain('"issue_number": number');
-      expect(skill).toContain('"title": "string"');
-      expect(skill).toContain('"body": "string"');
+      expect(skill).toContain('"issue_number": {');
+      expect(skill).toContain('"title": {');
+      expect(skill).toContain('"body": {');
     });
 
     it("should mark fields correctly as required or optional", () => {
       const config = {};
       const skill = handler.generateSkill(config);
 
-      expect(skill).toContain("issue_number");
-      expect(skill).toContain("(required)");
-      expect(skill).toContain("title");
-      expect(skill).toContain("(optional)");
-      expect(skill).toContain("body");
-      expect(skill).toContain("(optional)");
+      expect(skill).toContain("`issue_number` (optional)");
+      expect(skill).toContain("`title` (optional)");
+      expect(skill).toContain("`body` (optional)");
     });
 
     it("should show unlimited constraint when no max specified", () => {
@@ -103,84 +100,4 @@ describe("EditIssueHandler", () => {
       expect(skill).toContain("Use the Write tool");
     });
   });
-
-  describe("generateValidationScript", () => {
-    it("should generate validation script", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('find /tmp/outputs -name "edit-issue*.json"');
-      expect(script).toContain("jq empty");
-    });
-
-    it("should validate issue_number is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("issue_number is required");
-    });
-
-    it("should validate issue_number is a number", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("issue_number must be a number");
-      expect(script).toContain("grep -qE '^[0-9]+$'");
-    });
-
-    it("should validate at least one field is specified", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("At least one of title or body must be specified");
-    });
-
-    it("should include max constraint check when specified", () => {
-      const config = { max: 5 };
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ "$FILE_COUNT" -gt 5 ]');
-      expect(script).toContain("Maximum allowed: 5");
-    });
-
-    it("should not include max constraint check when not specified", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).not.toContain('if [ "$FILE_COUNT" -gt');
-    });
-
-    it("should use runtime context for repository", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("owner/repo");
-    });
-
-    it("should update issue via GitHub API with PATCH", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh api");
-      expect(script).toContain("/issues/$ISSUE_NUMBER");
-      expect(script).toContain("-X PATCH");
-    });
-
-    it("should handle updating both title and body", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('-f title="$TITLE"');
-      expect(script).toContain('-f body="$BODY"');
-    });
-
-    it("should implement atomic validation (validate all, then execute)", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("Phase 1: Validate all files");
-      expect(script).toContain("Phase 2: Execute only if all validations passed");
-      expect(script).toContain("VALIDATION_FAILED");
-    });
-  });
 });
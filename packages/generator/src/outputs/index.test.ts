@@ -95,7 +95,6 @@ describe("OutputHandlerRegistry", () => {
       expect(handler).toBeDefined();
       expect(typeof handler.getContextScript).toBe("function");
       expect(typeof handler.generateSkill).toBe("function");
-      expect(typeof handler.generateValidationScript).toBe("function");
     });
 
     it("should retrieve add-label handler", () => {
@@ -104,7 +103,6 @@ describe("OutputHandlerRegistry", () => {
       expect(handler).toBeDefined();
       expect(typeof handler.getContextScript).toBe("function");
       expect(typeof handler.generateSkill).toBe("function");
-      expect(typeof handler.generateValidationScript).toBe("function");
     });
 
     it("should retrieve remove-label handler", () => {
@@ -113,7 +111,6 @@ describe("OutputHandlerRegistry", () => {
       expect(handler).toBeDefined();
       expect(typeof handler.getContextScript).toBe("function");
       expect(typeof handler.generateSkill).toBe("function");
-      expect(typeof handler.generateValidationScript).toBe("function");
     });
 
     it("should retrieve create-issue handler", () => {
@@ -122,7 +119,6 @@ describe("OutputHandlerRegistry", () => {
       expect(handler).toBeDefined();
       expect(typeof handler.getContextScript).toBe("function");
       expect(typeof handler.generateSkill).toBe("function");
-      expect(typeof handler.generateValidationScript).toBe("function");
     });
 
     it("should retrieve create-discussion handler", () => {
@@ -131,7 +127,6 @@ describe("OutputHandlerRegistry", () => {
       expect(handler).toBeDefined();
       expect(typeof handler.getContextScript).toBe("function");
       expect(typeof handler.generateSkill).toBe("function");
-      expect(typeof handler.generateValidationScript).toBe("function");
     });
 
     it("should retrieve create-pr handler", () => {
@@ -140,7 +135,6 @@ describe("OutputHandlerRegistry", () => {
       expect(handler).toBeDefined();
       expect(typeof handler.getContextScript).toBe("function");
       expect(typeof handler.generateSkill).toBe("function");
-      expect(typeof handler.generateValidationScript).toBe("function");
     });
 
     it("should retrieve update-file handler", () => {
@@ -149,7 +143,6 @@ describe("OutputHandlerRegistry", () => {
       expect(handler).toBeDefined();
       expect(typeof handler.getContextScript).toBe("function");
       expect(typeof handler.generateSkill).toBe("function");
-      expect(typeof handler.generateValidationScript).toBe("function");
     });
 
     it("should retrieve close-issue handler", () => {
@@ -158,7 +151,6 @@ describe("OutputHandlerRegistry", () => {
       expect(handler).toBeDefined();
       expect(typeof handler.getContextScript).toBe("function");
       expect(typeof handler.generateSkill).toBe("function");
-      expect(typeof handler.generateValidationScript).toBe("function");
     });
 
     it("should retrieve close-pr handler", () => {
@@ -167,7 +159,6 @@ describe("OutputHandlerRegistry", () => {
       expect(handler).toBeDefined();
       expect(typeof handler.getContextScript).toBe("function");
       expect(typeof handler.generateSkill).toBe("function");
-      expect(typeof handler.generateValidationScript).toBe("function");
     });
 
     it("should throw error for unregistered handler", () => {
@@ -243,7 +234,6 @@ describe("OutputHandlerRegistry", () => {
 
         expect(typeof handler.getContextScript).toBe("function");
         expect(typeof handler.generateSkill).toBe("function");
-        expect(typeof handler.generateValidationScript).toBe("function");
       });
     });
   });
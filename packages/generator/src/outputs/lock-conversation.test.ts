@@ -36,7 +36,7 @@ describe("LockConversationHandler", () => {
       const skill = handler.generateSkill(config);
 
       expect(skill).toContain("JSON Schema");
-      expect(skill).toContain('"issue_number": number');
+      expect(skill).toContain('"issue_number": {');
       expect(skill).toContain('"lock_reason":');
       expect(skill).toContain("off-topic");
       expect(skill).toContain("too heated");
@@ -101,85 +101,4 @@ describe("LockConversationHandler", () => {
       expect(skill).toContain("prevents new comments");
     });
   });
-
-  describe("generateValidationScript", () => {
-    it("should generate validation script", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('find /tmp/outputs -name "lock-conversation*.json"');
-      expect(script).toContain("jq empty");
-    });
-
-    it("should validate issue_number is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("issue_number is required");
-    });
-
-    it("should validate issue_number is a number", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("issue_number must be a number");
-      expect(script).toContain("grep -qE '^[0-9]+$'");
-    });
-
-    it("should validate lock reason values", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("lock_reason must be one of");
-      expect(script).toContain("off-topic|too heated|resolved|spam");
-    });
-
-    it("should default lock_reason to resolved", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('.lock_reason // "resolved"');
-    });
-
-    it("should include max constraint check when specified", () => {
-      const config = { max: 2 };
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ "$FILE_COUNT" -gt 2 ]');
-      expect(script).toContain("Maximum allowed: 2");
-    });
-
-    it("should not include max constraint check when not specified", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).not.toContain('if [ "$FILE_COUNT" -gt');
-    });
-
-    it("should use runtime context for repository", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("owner/repo");
-    });
-
-    it("should lock conversation via GitHub API", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh api");
-      expect(script).toContain("/issues/$ISSUE_NUMBER/lock");
-      expect(script).toContain("-X PUT");
-      expect(script).toContain('-f lock_reason="$LOCK_REASON"');
-    });
-
-    it("should implement atomic validation (validate all, then execute)", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("Phase 1: Validate all files");
-      expect(script).toContain("Phase 2: Execute only if all validations passed");
-      expect(script).toContain("VALIDATION_FAILED");
-    });
-  });
 });
@@ -36,10 +36,10 @@ describe("MarkTemplateHandler", () => {
       const skill = handler.generateSkill(config);
 
       expect(skill).toContain("JSON Schema");
-      expect(skill).toContain('"project_number": number');
-      expect(skill).toContain('"owner": "string"');
-      expect(skill).toContain('"action": "mark" | "unmark"');
-      expect(skill).toContain('"reason": "string"');
+      expect(skill).toContain('"project_number": {');
+      expect(skill).toContain('"owner": {');
+      expect(skill).toContain('One of "mark", "unmark"');
+      expect(skill).toContain('"reason": {');
     });
 
     it("should mark fields correctly as required or optional", () => {
@@ -95,82 +95,4 @@ describe("MarkTemplateHandler", () => {
       expect(skill).toContain("Use the Write tool");
     });
   });
-
-  describe("generateValidationScript", () => {
-    it("should generate validation script", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('find /tmp/outputs -name "mark-template*.json"');
-      expect(script).toContain("jq empty");
-    });
-
-    it("should validate project_number is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("project_number is required");
-    });
-
-    it("should validate action is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("action is required");
-    });
-
-    it("should validate action value is mark or unmark", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("action must be 'mark' or 'unmark'");
-    });
-
-    it("should include max constraint check when specified", () => {
-      const config = { max: 5 };
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ "$FILE_COUNT" -gt 5 ]');
-      expect(script).toContain("Maximum allowed: 5");
-    });
-
-    it("should not include max constraint check when not specified", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).not.toContain('if [ "$FILE_COUNT" -gt');
-    });
-
-    it("should default owner to @me", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('.owner // "@me"');
-    });
-
-    it("should build gh project mark-template command", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh project mark-template");
-      expect(script).toContain("--owner");
-    });
-
-    it("should add --undo flag for unmark action", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ "$ACTION" = "unmark" ]');
-      expect(script).toContain("--undo");
-    });
-
-    it("should implement atomic validation (validate all, then execute)", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("Phase 1: Validate all files");
-      expect(script).toContain("Phase 2: Execute only if all validations passed");
-      expect(script).toContain("VALIDATION_FAILED");
-    });
-  });
 });
@@ -63,7 +63,7 @@ describe("RemoveLabelHandler", () => {
       const skill = handler.generateSkill(config);
 
       expect(skill).toContain("JSON Schema");
-      expect(skill).toContain('"labels": ["string"]');
+      expect(skill).toContain('"labels": {');
     });
 
     it("should document constraints", () => {
@@ -91,77 +91,4 @@ describe("RemoveLabelHandler", () => {
       expect(skill).toContain("Attempting to remove non-existent labels will be silently ignored");
     });
   });
-
-  describe("generateValidationScript", () => {
-    it("should generate validation script", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ -f "/tmp/outputs/remove-label.json" ]');
-      expect(script).toContain("jq empty");
-    });
-
-    it("should validate labels is an array", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("LABELS_ARRAY");
-      expect(script).toContain('type == "array"');
-    });
-
-    it("should validate labels array is not empty", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("length");
-      expect(script).toContain("labels array cannot be empty");
-    });
-
-    it("should check for issue/PR number", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("ISSUE_NUMBER");
-      expect(script).toContain('if [ -z "$ISSUE_NUMBER" ]');
-    });
-
-    it("should fetch current labels", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("CURRENT_LABELS");
-      expect(script).toContain('gh api "repos/owner/repo/issues/$ISSUE_NUMBER"');
-    });
-
-    it("should filter out labels to remove", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("LABELS_TO_REMOVE");
-      expect(script).toContain("REMAINING_LABELS");
-      expect(script).toContain("select");
-      expect(script).toContain("index($label) | not");
-    });
-
-    it("should update labels via PUT request", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('gh api "repos/owner/repo/issues/$ISSUE_NUMBER/labels"');
-      expect(script).toContain("-X PUT");
-    });
-
-    it("should use runtime context", () => {
-      const customRuntime: RuntimeContext = {
-        repository: "custom/repo",
-        issueNumber: "999",
-        prNumber: undefined,
-        issueOrPrNumber: "999",
-      };
-      const config = {};
-      const script = handler.generateValidationScript(config, customRuntime);
-
-      expect(script).toContain("custom/repo");
-    });
-  });
 });
@@ -36,9 +36,9 @@ describe("RequestReviewHandler", () => {
       const skill = handler.generateSkill(config);
 
       expect(skill).toContain("JSON Schema");
-      expect(skill).toContain('"pr_number": number');
-      expect(skill).toContain('"reviewers": ["string"]');
-      expect(skill).toContain('"team_reviewers": ["string"]');
+      expect(skill).toContain('"pr_number": {');
+      expect(skill).toContain('"reviewers": {');
+      expect(skill).toContain('"team_reviewers": {');
     });
 
     it("should mark fields correctly as required or optional", () => {
@@ -105,110 +105,4 @@ describe("RequestReviewHandler", () => {
       expect(skill).toContain("repository access");
     });
   });
-
-  describe("generateValidationScript", () => {
-    it("should generate validation script", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('find /tmp/outputs -name "request-review*.json"');
-      expect(script).toContain("jq empty");
-    });
-
-    it("should validate pr_number is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("pr_number is required");
-    });
-
-    it("should validate pr_number is a number", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("pr_number must be a number");
-      expect(script).toContain("grep -qE '^[0-9]+$'");
-    });
-
-    it("should validate reviewers is an array", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("reviewers must be an array");
-      expect(script).toContain("jq -e 'type == \"array\"'");
-    });
-
-    it("should validate team_reviewers is an array", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("team_reviewers must be an array");
-      expect(script).toContain("jq -e 'type == \"array\"'");
-    });
-
-    it("should validate at least one reviewer is specified", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("At least one reviewer or team_reviewer must be specified");
-      expect(script).toContain("TOTAL_REVIEWERS");
-      expect(script).toContain('if [ "$TOTAL_REVIEWERS" -eq 0 ]');
-    });
-
-    it("should validate maximum 15 total reviewers", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("Maximum 15 total reviewers allowed");
-      expect(script).toContain('if [ "$TOTAL_REVIEWERS" -gt 15 ]');
-    });
-
-    it("should include max constraint check when specified", () => {
-      const config = { max: 5 };
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ "$FILE_COUNT" -gt 5 ]');
-      expect(script).toContain("Maximum allowed: 5");
-    });
-
-    it("should not include max constraint check when not specified", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).not.toContain('if [ "$FILE_COUNT" -gt');
-    });
-
-    it("should use runtime context for repository", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("owner/repo");
-    });
-
-    it("should default reviewers arrays to empty", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain(".reviewers // []");
-      expect(script).toContain(".team_reviewers // []");
-    });
-
-    it("should request reviewers via GitHub API", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh api");
-      expect(script).toContain("/pulls/$PR_NUMBER/requested_reviewers");
-      expect(script).toContain("-X POST");
-    });
-
-    it("should implement atomic validation (validate all, then execute)", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("Phase 1: Validate all files");
-      expect(script).toContain("Phase 2: Execute only if all validations passed");
-      expect(script).toContain("VALIDATION_FAILED");
-    });
-  });
 });
@@ -48,10 +48,10 @@ describe("TriggerWorkflowHandler", () => {
       const skill = handler.generateSkill(config);
 
       expect(skill).toContain("JSON Schema");
-      expect(skill).toContain('"workflow": "string"');
-      expect(skill).toContain('"ref": "string"');
+      expect(skill).toContain('"workflow": {');
+      expect(skill).toContain('"ref": {');
       expect(skill).toContain('"inputs":');
-      expect(skill).toContain('"key": "value"');
+      expect(skill).toContain("Input key-value pairs for the workflow");
     });
 
     it("should mark fields correctly as required or optional", () => {
@@ -117,85 +117,4 @@ describe("TriggerWorkflowHandler", () => {
       expect(skill).toContain("Check available workflows");
     });
   });
-
-  describe("generateValidationScript", () => {
-    it("should generate validation script", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('find /tmp/outputs -name "trigger-workflow*.json"');
-      expect(script).toContain("jq empty");
-    });
-
-    it("should validate workflow is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("workflow is required");
-    });
-
-    it("should include max constraint check when specified", () => {
-      const config = { max: 5 };
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ "$FILE_COUNT" -gt 5 ]');
-      expect(script).toContain("Maximum allowed: 5");
-    });
-
-    it("should not include max constraint check when not specified", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).not.toContain('if [ "$FILE_COUNT" -gt');
-    });
-
-    it("should use runtime context for repository", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("owner/repo");
-    });
-
-    it("should default ref to main", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('.ref // "main"');
-    });
-
-    it("should default inputs to empty object", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain(".inputs // {}");
-    });
-
-    it("should build request body with ref and inputs", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("REQUEST_BODY");
-      expect(script).toContain("jq -n");
-      expect(script).toContain("--arg ref");
-      expect(script).toContain("--argjson inputs");
-    });
-
-    it("should trigger workflow via GitHub API", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh api");
-      expect(script).toContain("/actions/workflows/$WORKFLOW/dispatches");
-      expect(script).toContain("-X POST");
-    });
-
-    it("should implement atomic validation (validate all, then execute)", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("Phase 1: Validate all files");
-      expect(script).toContain("Phase 2: Execute only if all validations passed");
-      expect(script).toContain("VALIDATION_FAILED");
-    });
-  });
 });
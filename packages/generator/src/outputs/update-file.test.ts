@@ -61,10 +61,10 @@ describe("UpdateFileHandler", () => {
 
       expect(skill).toContain("JSON Schema");
       expect(skill).toContain('"files":');
-      expect(skill).toContain('"path": "string"');
-      expect(skill).toContain('"content": "string"');
-      expect(skill).toContain('"message": "string"');
-      expect(skill).toContain('"branch": "string"');
+      expect(skill).toContain('"path": {');
+      expect(skill).toContain('"content": {');
+      expect(skill).toContain('"message": {');
+      expect(skill).toContain('"branch": {');
     });
 
     it("should mark branch as optional", () => {
@@ -73,7 +73,7 @@ describe("UpdateFileHandler", () => {
 
       expect(skill).toContain("branch");
       expect(skill).toContain("(optional)");
-      expect(skill).toContain("Defaults to repository's default branch");
+      expect(skill).toContain("defaults to the repository's default branch");
     });
 
     it("should include constraint about allowed patterns", () => {
@@ -117,99 +117,4 @@ describe("UpdateFileHandler", () => {
       expect(skill).toContain("complete file content");
     });
   });
-
-  describe("generateValidationScript", () => {
-    it("should generate validation script", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('if [ -f "/tmp/outputs/update-file.json" ]');
-      expect(script).toContain("jq empty");
-    });
-
-    it("should validate files is an array", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("files field must be an array");
-    });
-
-    it("should validate files array is non-empty", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("files array cannot be empty");
-    });
-
-    it("should validate message is required", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("message is required");
-    });
-
-    it("should default branch to main", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain('.branch // "main"');
-    });
-
-    it("should include allowed patterns in validation", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntimeWithPaths);
-
-      expect(script).toContain("ALLOWED_PATTERNS");
-      expect(script).toContain("src/**/*.ts");
-      expect(script).toContain("docs/**/*.md");
-    });
-
-    it("should validate file paths against allowed patterns", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntimeWithPaths);
-
-      expect(script).toContain("does not match allowed patterns");
-      expect(script).toContain("MATCHED");
-    });
-
-    it("should use runtime context for repository", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("owner/repo");
-    });
-
-    it("should get current file SHA for updates", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("FILE_SHA");
-      expect(script).toContain("gh api");
-      expect(script).toContain("/contents/$FILE_PATH");
-    });
-
-    it("should handle both create and update cases", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("File exists - update it");
-      expect(script).toContain("File doesn't exist - create it");
-    });
-
-    it("should base64 encode file content", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("base64");
-    });
-
-    it("should use GitHub Contents API with PUT", () => {
-      const config = {};
-      const script = handler.generateValidationScript(config, mockRuntime);
-
-      expect(script).toContain("gh api");
-      expect(script).toContain("-X PUT");
-      expect(script).toContain("--input");
-    });
-  });
 });
@@ -0,0 +1,241 @@
+import type {
+  AgentDefinition,
+  ContextSource,
+  Output,
+  PermissionsConfig,
+  StateBackend,
+} from "@repo-agents/types";
+
+/** Scope of the workflow token, as named in a job's `permissions:` block */
+export type WorkflowScope =
+  | "actions"
+  | "checks"
+  | "contents"
+  | "deployments"
+  | "discussions"
+  | "issues"
+  | "pull-requests"
+  | "security-events";
+
+export type ScopeLevel = "read" | "write";
+
+export type JobPermissions = Partial<Record<WorkflowScope, ScopeLevel>>;
+
+/**
+ * The permissions of one job, and what asked for each scope at its granted level
+ * (e.g. `permissions.contents`, `outputs.create-pr`).
+ */
+export interface JobPermissionReport {
+  permissions: JobPermissions;
+  reasons: Partial<Record<WorkflowScope, string[]>>;
+}
+
+export interface PermissionOptions {
+  stateBackend: StateBackend;
+}
+
+/**
+ * Scopes the workflow token needs to execute each output. Project outputs need none:
+ * Projects are not reachable with the workflow token, only with the GitHub App.
+ */
+export const OUTPUT_SCOPES: Record<Output, JobPermissions> = {
+  "add-comment": { issues: "write" },
+  "add-label": { issues: "write" },
+  "remove-label": { issues: "write" },
+  "create-issue": { issues: "write" },
+  "create-discussion": { discussions: "write" },
+  "create-pr": { contents: "write", "pull-requests": "write" },
+  "update-file": { contents: "write" },
+  "close-issue": { issues: "write" },
+  "close-pr": { "pull-requests": "write" },
+  "assign-issue": { issues: "write" },
+  "request-review": { "pull-requests": "write" },
+  "merge-pr": { contents: "write", "pull-requests": "write" },
+  "approve-pr": { "pull-requests": "write" },
+  "create-release": { contents: "write" },
+  "delete-branch": { contents: "write" },
+  "lock-conversation": { issues: "write" },
+  "pin-issue": { issues: "write" },
+  "convert-to-discussion": { issues: "write", discussions: "write" },
+  "edit-issue": { issues: "write" },
+  "reopen-issue": { issues: "write" },
+  "set-milestone": { issues: "write" },
+  "trigger-workflow": { actions: "write" },
+  "add-reaction": { issues: "write" },
+  "create-branch": { contents: "write" },
+  "copy-project": {},
+  "mark-template": {},
+  "manage-labels": { issues: "write" },
+  "add-to-project": {},
+  "remove-from-project": {},
+  "update-project-field": {},
+  "archive-project-item": {},
+  "manage-project": {},
+  "manage-project-field": {},
+  "link-project": {},
+};
+
+/**
+ * Scopes the workflow token needs to read each context source, beyond `contents: read`.
+ */
+export const CONTEXT_SCOPES: Partial<Record<ContextSource, WorkflowScope[]>> = {
+  issues: ["issues"],
+  pull_requests: ["pull-requests"],
+  discussions: ["discussions"],
+  workflow_runs: ["actions"],
+  security_alerts: ["security-events"],
+  dependabot_prs: ["pull-requests"],
+  code_scanning_alerts: ["security-events"],
+  deployments: ["deployments"],
+  milestones: ["issues"],
+  comments: ["issues", "pull-requests"],
+  check_runs: ["checks"],
+};
+
+/**
+ * Collects scopes, keeping the highest level of each and what asked for it.
+ */
+function createReport(): JobPermissionReport & {
+  grant: (scope: WorkflowScope, level: ScopeLevel, reason: string) => void;
+} {
+  const permissions: JobPermissions = {};
+  const reasons: Partial<Record<WorkflowScope, string[]>> = {};
+
+  const grant = (scope: WorkflowScope, level: ScopeLevel, reason: string) => {
+    const current = permissions[scope];
+    if (current === "write" && level === "read") {
+      return;
+    }
+    if (current !== level) {
+      permissions[scope] = level;
+      reasons[scope] = [];
+    }
+    reasons[scope]?.push(reason);
+  };
+
+  return { permissions, reasons, grant };
+}
+
+/**
+ * Scopes the state store needs: artifacts of earlier runs are listed with `actions: read`,
+ * the git-branch backend commits to its branch.
+ */
+function grantStateStore(
+  grant: (scope: WorkflowScope, level: ScopeLevel, reason: string) => void,
+  stateBackend: StateBackend,
+): void {
+  if (stateBackend === "artifact") {
+    grant("actions", "read", "state store");
+  } else if (stateBackend === "git-branch") {
+    grant("contents", "write", "state store");
+  }
+}
+
+/**
+ * Permissions of an agent's job: its declared `permissions`, the scopes its outputs
+ * execute with, and what the runtime reads and writes around the run.
+ */
+export function agentJobPermissions(
+  agent: AgentDefinition,
+  options: PermissionOptions,
+): JobPermissionReport {
+  const { permissions, reasons, grant } = createReport();
+
+  grant("contents", "read", "checkout");
+  grant("issues", "read", "event");
+  if (agent.on.pull_request) {
+    grant("pull-requests", "read", "event");
+  }
+  if (agent.on.discussion) {
+    grant("discussions", "read", "event");
+  }
+  grantStateStore(grant, options.stateBackend);
+
+  for (const [key, level] of Object.entries(agent.permissions ?? {}) as Array<
+    [keyof PermissionsConfig, ScopeLevel]
+  >) {
+    grant(key === "pull_requests" ? "pull-requests" : key, level, `permissions.${key}`);
+  }
+
+  for (const [output, config] of Object.entries(agent.outputs ?? {})) {
+    if (config === false) {
+      continue;
+    }
+    for (const [scope, level] of Object.entries(OUTPUT_SCOPES[output as Output] ?? {})) {
+      grant(scope as WorkflowScope, level, `outputs.${output}`);
+    }
+    if (typeof config === "object" && config.approval) {
+      grant("issues", "write", `outputs.${output}.approval`);
+    }
+  }
+
+  // repository_dispatch needs contents: write; scripts and HTTP endpoints need nothing
+  for (const [name, config] of Object.entries(agent.custom_outputs ?? {})) {
+    if (config.dispatch) {
+      grant("contents", "write", `outputs.${name}.dispatch`);
+    }
+  }
+
+  for (const [source, scopes] of Object.entries(CONTEXT_SCOPES)) {
+    if (agent.context?.[source as ContextSource]) {
+      for (const scope of scopes) {
+        grant(scope, "read", `context.${source}`);
+      }
+    }
+  }
+
+  const drift = agent.context?.documentation?.drift_detection;
+  if (drift?.enabled && drift.create_issues !== false) {
+    grant("issues", "write", "context.documentation.drift_detection");
+  }
+
+  return { permissions, reasons };
+}
+
+/**
+ * Permissions of the dispatcher: it reads the state store, posts progress comments
+ * and invocation replies, and counts open PRs for agents that cap them.
+ */
+export function dispatcherJobPermissions(
+  agents: AgentDefinition[],
+  options: PermissionOptions,
+): JobPermissionReport {
+  const { permissions, reasons, grant } = createReport();
+  grant("contents", "read", "checkout");
+  grant("issues", "write", "progress comments");
+  grantStateStore(grant, options.stateBackend);
+  // Without it, searching a private repository finds no PRs and the cap never applies
+  if (agents.some((agent) => agent.max_open_prs !== undefined)) {
+    grant("pull-requests", "read", "max_open_prs");
+  }
+  return { permissions, reasons };
+}
+
+/**
+ * Permissions of the audit report job: it only reads the artifacts of the current run.
+ */
+export function auditReportJobPermissions(): JobPermissionReport {
+  const { permissions, reasons, grant } = createReport();
+  grant("contents", "read", "checkout");
+  return { permissions, reasons };
+}
+
+/**
+ * Permissions of the audit issues job: it opens and updates failure issues.
+ */
+export function auditIssuesJobPermissions(): JobPermissionReport {
+  const { permissions, reasons, grant } = createReport();
+  grant("contents", "read", "checkout");
+  grant("issues", "write", "audit issues");
+  return { permissions, reasons };
+}
+
+/**
+ * Lines describing which setting forced each write scope of a job, e.g.
+ * `contents: write ← outputs.create-pr, permissions.contents`.
+ */
+export function describeWriteScopes(report: JobPermissionReport): string[] {
+  return (Object.entries(report.permissions) as Array<[WorkflowScope, ScopeLevel]>)
+    .filter(([, level]) => level === "write")
+    .map(([scope]) => `${scope}: write ← ${(report.reasons[scope] ?? []).join(", ")}`);
+}
@@ -0,0 +1,262 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AgentDefinition } from "@repo-agents/types";
+import {
+  ClaudeCodeProvider,
+  getProviderAdapter,
+  OpenCodeProvider,
+  providerRegistry,
+  resolveAllowedTools,
+} from "./providers";
+
+const baseAgent: AgentDefinition = {
+  name: "Test Agent",
+  on: { issues: { types: ["opened"] } },
+  markdown: "Instructions",
+};
+
+describe("providers", () => {
+  describe("registry", () => {
+    it("should default to Claude Code", () => {
+      expect(getProviderAdapter()).toBeInstanceOf(ClaudeCodeProvider);
+      expect(getProviderAdapter("opencode")).toBeInstanceOf(OpenCodeProvider);
+    });
+
+    it("should list the built-in providers", () => {
+      expect(providerRegistry.getRegisteredProviders().sort()).toEqual(["claude-code", "opencode"]);
+      expect(providerRegistry.hasAdapter("opencode")).toBe(true);
+    });
+  });
+
+  describe("resolveAllowedTools", () => {
+    it("should add Write only when the agent has outputs", () => {
+      expect(resolveAllowedTools(baseAgent)).toEqual(["Read", "Glob", "Grep"]);
+      expect(resolveAllowedTools({ ...baseAgent, outputs: { "add-comment": true } })).toEqual([
+        "Write",
+        "Read",
+        "Glob",
+        "Grep",
+      ]);
+    });
+
+    it("should append extra tools and MCP servers without duplicates", () => {
+      const tools = resolveAllowedTools({
+        ...baseAgent,
+        allowed_tools: ["Bash(npm test:*)", "Read"],
+        mcp_servers: { docs: { url: "https://example.com/mcp" } },
+      });
+
+      expect(tools).toEqual(["Read", "Glob", "Grep", "Bash(npm test:*)", "mcp__docs"]);
+    });
+  });
+
+  describe("ClaudeCodeProvider", () => {
+    const provider = new ClaudeCodeProvider();
+
+    it("should pass model, max turns and MCP config as flags", () => {
+      const { command, stdin, files } = provider.buildCommand({
+        prompt: "Do the thing",
+        allowedTools: ["Read", "mcp__github"],
+        hasOutputs: true,
+        model: "opus",
+        maxTurns: 12,
+        mcpServers: {
+          github: { command: "npx", args: ["-y", "@modelcontextprotocol/server-github"] },
+          docs: { url: "https://example.com/mcp" },
+        },
+      });
+
+      expect(command).toContain("--permission-mode");
+      expect(command.slice(command.indexOf("--allowedTools"))[1]).toBe("Read,mcp__github");
+      expect(command.slice(command.indexOf("--model"))[1]).toBe("opus");
+      expect(command.slice(command.indexOf("--max-turns"))[1]).toBe("12");
+      expect(command.at(-1)).toBe("--print");
+      expect(stdin).toBe("Do the thing");
+
+      const mcpPath = command[command.indexOf("--mcp-config") + 1];
+      const mcpConfig = JSON.parse(files?.[mcpPath] ?? "{}");
+      expect(mcpConfig.mcpServers.github.command).toBe("npx");
+      expect(mcpConfig.mcpServers.docs.type).toBe("http");
+    });
+
+    it("should leave out optional flags", () => {
+      const { command, files } = provider.buildCommand({
+        prompt: "",
+        allowedTools: ["Read"],
+        hasOutputs: false,
+      });
+
+      expect(command).not.toContain("--permission-mode");
+      expect(command).not.toContain("--model");
+      expect(command).not.toContain("--mcp-config");
+      expect(command).not.toContain("--max-budget-usd");
+      expect(files).toEqual({});
+    });
+
+    it("should cap spend per run", () => {
+      const { command } = provider.buildCommand({
+        prompt: "",
+        allowedTools: ["Read"],
+        hasOutputs: false,
+        maxBudgetUsd: 0.5,
+      });
+
+      expect(command.slice(command.indexOf("--max-budget-usd"))[1]).toBe("0.5");
+    });
+
+    it("should extract metrics from the JSON result", () => {
+      const metrics = provider.extractMetrics(
+        JSON.stringify({ total_cost_usd: 0.12, num_turns: 4, session_id: "abc", result: "Done" }),
+      );
+
+      expect(metrics).toMatchObject({
+        total_cost_usd: 0.12,
+        num_turns: 4,
+        session_id: "abc",
+        is_error: false,
+        result: "Done",
+      });
+      expect(provider.extractMetrics("not json").is_error).toBe(true);
+    });
+
+    describe("extractConversation", () => {
+      let homeDir: string;
+      const workDir = "/work/repo";
+
+      beforeEach(async () => {
+        homeDir = await mkdtemp(join(tmpdir(), "providers-test-"));
+      });
+
+      afterEach(async () => {
+        await rm(homeDir, { recursive: true, force: true });
+      });
+
+      it("should read the session file for the run", async () => {
+        const projectDir = join(homeDir, ".claude", "projects", "work-repo");
+        await mkdir(projectDir, { recursive: true });
+        await writeFile(join(projectDir, "abc.jsonl"), '{"type":"user"}\n');
+
+        expect(
+          await provider.extractConversation({ output: "", sessionId: "abc", homeDir, workDir }),
+        ).toBe('{"type":"user"}\n');
+      });
+
+      it("should return undefined without a session directory", async () => {
+        expect(
+          await provider.extractConversation({ output: "", sessionId: "abc", homeDir, workDir }),
+        ).toBeUndefined();
+      });
+    });
+  });
+
+  describe("OpenCodeProvider", () => {
+    const provider = new OpenCodeProvider();
+
+    const output = [
+      JSON.stringify({ type: "step_start", timestamp: 1000, sessionID: "ses_1" }),
+      JSON.stringify({
+        type: "tool_use",
+        timestamp: 1500,
+        sessionID: "ses_1",
+        part: {
+          tool: "read",
+          callID: "call_1",
+          state: { status: "completed", input: { filePath: "README.md" }, output: "# Readme" },
+        },
+      }),
+      JSON.stringify({
+        type: "tool_use",
+        timestamp: 1800,
+        sessionID: "ses_1",
+        part: {
+          tool: "write",
+          callID: "call_2",
+          state: { status: "error", input: {}, error: "permission denied" },
+        },
+      }),
+      JSON.stringify({ type: "step_finish", timestamp: 2000, part: { cost: 0.01 } }),
+      JSON.stringify({ type: "text", timestamp: 2500, part: { text: "All done" } }),
+      JSON.stringify({ type: "step_finish", timestamp: 3000, part: { cost: 0.02 } }),
+    ].join("\n");
+
+    it("should configure tools and MCP servers through a config file", () => {
+      const { command, stdin, env, files } = provider.buildCommand({
+        prompt: "Do the thing",
+        allowedTools: ["Read", "Glob", "Bash(npm test:*)"],
+        hasOutputs: false,
+        model: "anthropic/claude-sonnet-4",
+        mcpServers: {
+          github: { command: "npx", args: ["server-github"], env: { TOKEN: "x" } },
+          docs: { url: "https://example.com/mcp" },
+        },
+      });
+
+      expect(command.slice(0, 4)).toEqual(["bunx", "--bun", "opencode-ai", "run"]);
+      expect(command.slice(command.indexOf("--model"))[1]).toBe("anthropic/claude-sonnet-4");
+      expect(stdin).toBe("Do the thing");
+
+      const configPath = env?.OPENCODE_CONFIG ?? "";
+      const config = JSON.parse(files?.[configPath] ?? "{}");
+      expect(config.tools).toMatchObject({ read: true, glob: true, bash: true, write: false });
+      expect(config.mcp.github).toMatchObject({
+        type: "local",
+        command: ["npx", "server-github"],
+        environment: { TOKEN: "x" },
+      });
+      expect(config.mcp.docs).toMatchObject({ type: "remote", url: "https://example.com/mcp" });
+    });
+
+    it("should sum step costs and count turns", () => {
+      expect(provider.extractMetrics(output)).toEqual({
+        total_cost_usd: 0.03,
+        num_turns: 2,
+        duration_ms: 2000,
+        session_id: "ses_1",
+        is_error: false,
+        result: "All done",
+      });
+      expect(provider.extractMetrics("").is_error).toBe(true);
+    });
+
+    it("should report spend while the run is in progress", () => {
+      const partial = output.split("\n").slice(0, 4).join("\n");
+
+      expect(provider.spentSoFar(partial)).toBe(0.01);
+      expect(provider.spentSoFar(`${output}\n{"type":"step_fin`)).toBe(0.03);
+
+      // The runtime sums batches of lines as they arrive
+      const lines = output.split("\n");
+      expect(
+        provider.spentSoFar(lines.slice(0, 4).join("\n")) +
+          provider.spentSoFar(lines.slice(4).join("\n")),
+      ).toBeCloseTo(0.03);
+    });
+
+    it("should rebuild the conversation in Claude's message format", async () => {
+      const conversation = await provider.extractConversation({
+        output,
+        homeDir: "/nonexistent",
+        workDir: "/work",
+      });
+      const lines = (conversation ?? "")
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+
+      expect(lines).toHaveLength(4);
+      expect(lines[0].content[0]).toMatchObject({ type: "tool_use", id: "call_1", name: "read" });
+      expect(lines[1].content[0]).toMatchObject({
+        type: "tool_result",
+        tool_use_id: "call_1",
+        is_error: false,
+        content: "# Readme",
+      });
+      expect(lines[3].content[0]).toMatchObject({
+        is_error: true,
+        content: "permission denied",
+      });
+    });
+  });
+});
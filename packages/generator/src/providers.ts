@@ -1,19 +1,103 @@
-import type { AgentDefinition, AgentProvider, WorkflowStep } from "@repo-agents/types";
+import { existsSync } from "node:fs";
+import { readdir, readFile, stat } from "node:fs/promises";
+import { join } from "node:path";
+import type {
+  AgentDefinition,
+  AgentProvider,
+  McpServerConfig,
+  WorkflowStep,
+} from "@repo-agents/types";
 
-export interface ProviderContext {
-  allowedTools: string;
+/**
+ * Options for a single agent run, resolved from the agent definition.
+ */
+export interface ProviderRunOptions {
+  prompt: string;
+  allowedTools: string[];
   hasOutputs: boolean;
-  environment: Record<string, string>;
+  model?: string;
+  maxTurns?: number;
+  maxBudgetUsd?: number; // Per-run spend cap
+  mcpServers?: Record<string, McpServerConfig>;
+}
+
+/**
+ * Everything the runtime needs to start a provider CLI.
+ */
+export interface ProviderCommand {
+  command: string[];
+  stdin?: string;
+  env?: Record<string, string>;
+  files?: Record<string, string>; // Config files to write before running (path -> content)
+}
+
+/**
+ * Execution metrics in the shape written to /tmp/audit/metrics.json.
+ */
+export interface ProviderMetrics {
+  total_cost_usd?: number;
+  num_turns?: number;
+  duration_ms?: number;
+  duration_api_ms?: number;
+  session_id?: string;
+  is_error?: boolean;
+  result?: string;
+}
+
+/**
+ * Where a provider can find the conversation of a finished run.
+ */
+export interface ConversationSource {
+  output: string; // Raw CLI stdout
+  sessionId?: string;
+  homeDir: string;
+  workDir: string;
 }
 
 export interface AgentProviderAdapter {
   id: AgentProvider;
+  name: string;
   generateInstallSteps(): WorkflowStep[];
-  generateRunStep(agent: AgentDefinition, context: ProviderContext): WorkflowStep;
+  buildCommand(options: ProviderRunOptions): ProviderCommand;
+  extractMetrics(output: string): ProviderMetrics;
+  /**
+   * Return the conversation as JSONL in Claude's message format
+   * (`{ content: [{ type: "tool_use" | "tool_result", ... }] }` per line) so audits
+   * and traces read every provider the same way.
+   */
+  extractConversation(source: ConversationSource): Promise<string | undefined>;
+  /**
+   * Cost reported in a run of complete output lines. The runtime passes each new batch
+   * of lines once and sums the results, so providers whose CLI cannot cap spend itself
+   * implement this to let the run be stopped at the per-run budget.
+   */
+  spentSoFar?(output: string): number;
+}
+
+const MCP_CONFIG_PATH = "/tmp/mcp-config.json";
+const OPENCODE_CONFIG_PATH = "/tmp/opencode.json";
+
+/**
+ * Resolve the tools an agent may use: read-only defaults, Write when the agent has
+ * outputs, the agent's extra `allowed_tools` and one entry per MCP server.
+ */
+export function resolveAllowedTools(agent: AgentDefinition): string[] {
+  const hasOutputs = !!agent.outputs && Object.keys(agent.outputs).length > 0;
+  const tools = hasOutputs ? ["Write", "Read", "Glob", "Grep"] : ["Read", "Glob", "Grep"];
+
+  for (const tool of agent.allowed_tools ?? []) {
+    tools.push(tool);
+  }
+  for (const server of Object.keys(agent.mcp_servers ?? {})) {
+    tools.push(`mcp__${server}`);
+  }
+
+  return Array.from(new Set(tools));
 }
 
 export class ClaudeCodeProvider implements AgentProviderAdapter {
   readonly id: AgentProvider = "claude-code";
+  readonly name = "Claude Code";
 
   generateInstallSteps(): WorkflowStep[] {
     return [
@@ -24,49 +108,321 @@ export class ClaudeCodeProvider implements AgentProviderAdapter {
     ];
   }
 
-  generateRunStep(_agent: AgentDefinition, context: ProviderContext): WorkflowStep {
-    const claudeCommand = context.hasOutputs
-      ? `bunx --bun @anthropic-ai/claude-code -p "$(cat /tmp/context.txt)" --allowedTools "${context.allowedTools}" --permission-mode bypassPermissions --output-format json > /tmp/claude-output.json`
-      : `bunx --bun @anthropic-ai/claude-code -p "$(cat /tmp/context.txt)" --allowedTools "${context.allowedTools}" --output-format json > /tmp/claude-output.json`;
+  buildCommand(options: ProviderRunOptions): ProviderCommand {
+    const command = [
+      "bunx",
+      "--bun",
+      "@anthropic-ai/claude-code",
+      "--allowedTools",
+      options.allowedTools.join(","),
+      "--output-format",
+      "json",
+    ];
+    const files: Record<string, string> = {};
 
-    return {
-      name: "Run Claude Agent",
-      id: "run-claude",
-      env: context.environment,
-      run: claudeCommand,
-    };
+    if (options.hasOutputs) {
+      command.push("--permission-mode", "bypassPermissions");
+    }
+    if (options.model) {
+      command.push("--model", options.model);
+    }
+    if (options.maxTurns) {
+      command.push("--max-turns", String(options.maxTurns));
+    }
+    if (options.maxBudgetUsd) {
+      command.push("--max-budget-usd", String(options.maxBudgetUsd));
+    }
+    if (options.mcpServers && Object.keys(options.mcpServers).length > 0) {
+      const mcpServers = Object.fromEntries(
+        Object.entries(options.mcpServers).map(([name, server]) => [
+          name,
+          server.url ? { ...server, type: server.type ?? "http" } : server,
+        ]),
+      );
+      files[MCP_CONFIG_PATH] = JSON.stringify({ mcpServers }, null, 2);
+      command.push("--mcp-config", MCP_CONFIG_PATH);
+    }
+    command.push("--print");
+
+    return { command, stdin: options.prompt, files };
+  }
+
+  extractMetrics(output: string): ProviderMetrics {
+    try {
+      const result = JSON.parse(output);
+      return {
+        total_cost_usd: result.total_cost_usd,
+        num_turns: result.num_turns,
+        duration_ms: result.duration_ms,
+        duration_api_ms: result.duration_api_ms,
+        session_id: result.session_id,
+        is_error: result.is_error ?? false,
+        result: result.result,
+      };
+    } catch {
+      return { is_error: true };
+    }
+  }
+
+  /**
+   * Claude Code stores sessions in ~/.claude/projects/[encoded-path]/[session-id].jsonl.
+   * Falls back to the most recent session when the id is unknown.
+   */
+  async extractConversation(source: ConversationSource): Promise<string | undefined> {
+    // Claude Code encodes project paths by replacing / with - and prefixing with -
+    const encodedPath = source.workDir.replace(/\//g, "-").replace(/^-/, "");
+    const projectDir = join(source.homeDir, ".claude", "projects", encodedPath);
+
+    if (source.sessionId) {
+      const sessionFile = join(projectDir, `${source.sessionId}.jsonl`);
+      if (existsSync(sessionFile)) {
+        return readFile(sessionFile, "utf-8");
+      }
+    }
+
+    if (!existsSync(projectDir)) {
+      return undefined;
+    }
+
+    const files = (await readdir(projectDir)).filter((f) => f.endsWith(".jsonl"));
+    if (files.length === 0) {
+      return undefined;
+    }
+
+    const filesWithStats = await Promise.all(
+      files.map(async (f) => ({ name: f, mtime: (await stat(join(projectDir, f))).mtime })),
+    );
+    filesWithStats.sort((a, b) => b.mtime.getTime() - a.mtime.getTime());
+
+    return readFile(join(projectDir, filesWithStats[0].name), "utf-8");
   }
 }
 
+/**
+ * OpenCode event from `opencode run --format json` (one JSON object per line).
+ */
+interface OpenCodeEvent {
+  type?: string;
+  timestamp?: number;
+  sessionID?: string;
+  part?: {
+    text?: string;
+    cost?: number;
+    tool?: string;
+    callID?: string;
+    state?: {
+      status?: string;
+      input?: Record<string, unknown>;
+      output?: string;
+      error?: string;
+    };
+  };
+  error?: { data?: { message?: string } };
+}
+
 export class OpenCodeProvider implements AgentProviderAdapter {
   readonly id: AgentProvider = "opencode";
+  readonly name = "OpenCode";
+
+  /** Built-in OpenCode tools, keyed by the Claude Code name used in allowed tools. */
+  private static readonly TOOLS: Record<string, string> = {
+    Bash: "bash",
+    Edit: "edit",
+    Glob: "glob",
+    Grep: "grep",
+    Read: "read",
+    WebFetch: "webfetch",
+    Write: "write",
+  };
 
   generateInstallSteps(): WorkflowStep[] {
     return [
       {
         name: "Install OpenCode CLI",
-        run: "bunx --bun opencode --version",
+        run: "bunx --bun opencode-ai --version",
       },
     ];
   }
 
-  generateRunStep(_agent: AgentDefinition, context: ProviderContext): WorkflowStep {
-    const permissionFlag = context.hasOutputs ? " --permission-mode bypassPermissions" : "";
+  /**
+   * OpenCode reads tools and MCP servers from a config file rather than flags.
+   * `max_turns` has no OpenCode equivalent and is ignored; the per-run budget is
+   * enforced by the runtime through `spentSoFar`.
+   */
+  buildCommand(options: ProviderRunOptions): ProviderCommand {
+    const allowed = new Set(options.allowedTools.map((tool) => tool.replace(/\(.*\)$/, "")));
+    const tools: Record<string, boolean> = {};
+    for (const [name, id] of Object.entries(OpenCodeProvider.TOOLS)) {
+      tools[id] = allowed.has(name);
+    }
 
-    const command =
-      `bunx --bun opencode -p "$(cat /tmp/context.txt)" --allowedTools "${context.allowedTools}"` +
-      `${permissionFlag} --output-format json > /tmp/claude-output.json`;
+    const mcp: Record<string, unknown> = {};
+    for (const [name, server] of Object.entries(options.mcpServers ?? {})) {
+      mcp[name] = server.url
+        ? { type: "remote", url: server.url, headers: server.headers, enabled: true }
+        : {
+            type: "local",
+            command: [server.command, ...(server.args ?? [])],
+            environment: server.env,
+            enabled: true,
+          };
+    }
 
+    const config = { $schema: "https://opencode.ai/config.json", tools, mcp };
+    const command = ["bunx", "--bun", "opencode-ai", "run", "--format", "json"];
+    if (options.model) {
+      command.push("--model", options.model);
+    }
+
+    // The prompt is piped on stdin; it can exceed the per-argument size limit
     return {
-      name: "Run Agent (OpenCode)",
-      id: "run-claude",
-      env: context.environment,
-      run: command,
+      command,
+      stdin: options.prompt,
+      env: { OPENCODE_CONFIG: OPENCODE_CONFIG_PATH },
+      files: { [OPENCODE_CONFIG_PATH]: JSON.stringify(config, null, 2) },
     };
   }
+
+  extractMetrics(output: string): ProviderMetrics {
+    const events = this.parseEvents(output);
+    if (events.length === 0) {
+      return { is_error: true };
+    }
+
+    const metrics: ProviderMetrics = { total_cost_usd: 0, num_turns: 0, is_error: false };
+    const timestamps = events.map((e) => e.timestamp).filter((t): t is number => !!t);
+
+    for (const event of events) {
+      metrics.session_id ??= event.sessionID;
+      if (event.type === "step_finish") {
+        metrics.num_turns = (metrics.num_turns ?? 0) + 1;
+        metrics.total_cost_usd = (metrics.total_cost_usd ?? 0) + (event.part?.cost ?? 0);
+      } else if (event.type === "text" && event.part?.text) {
+        metrics.result = event.part.text;
+      } else if (event.type === "error") {
+        metrics.is_error = true;
+        metrics.result = event.error?.data?.message ?? metrics.result;
+      }
+    }
+
+    if (timestamps.length > 1) {
+      metrics.duration_ms = Math.max(...timestamps) - Math.min(...timestamps);
+    }
+
+    return metrics;
+  }
+
+  spentSoFar(output: string): number {
+    return this.parseEvents(output).reduce(
+      (sum, event) => sum + (event.type === "step_finish" ? (event.part?.cost ?? 0) : 0),
+      0,
+    );
+  }
+
+  /**
+   * OpenCode prints every tool call in its JSON output, so the conversation is
+   * rebuilt from stdout instead of a session file.
+   */
+  async extractConversation(source: ConversationSource): Promise<string | undefined> {
+    const lines: string[] = [];
+
+    for (const event of this.parseEvents(source.output)) {
+      if (event.type !== "tool_use" || !event.part?.tool) {
+        continue;
+      }
+
+      const { tool, callID, state } = event.part;
+      const timestamp = event.timestamp ? new Date(event.timestamp).toISOString() : undefined;
+      const isError = state?.status === "error";
+
+      lines.push(
+        JSON.stringify({
+          timestamp,
+          content: [{ type: "tool_use", id: callID, name: tool, input: state?.input ?? {} }],
+        }),
+        JSON.stringify({
+          timestamp,
+          content: [
+            {
+              type: "tool_result",
+              tool_use_id: callID,
+              is_error: isError,
+              content: (isError ? state?.error : state?.output) ?? "",
+            },
+          ],
+        }),
+      );
+    }
+
+    return lines.length > 0 ? `${lines.join("\n")}\n` : undefined;
+  }
+
+  private parseEvents(output: string): OpenCodeEvent[] {
+    const events: OpenCodeEvent[] = [];
+    for (const line of output.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        // Skip non-JSON lines (progress output)
+      }
+    }
+    return events;
+  }
+}
+
+/**
+ * Registry mapping provider ids to their adapters
+ */
+class ProviderRegistry {
+  private adapters: Map<AgentProvider, AgentProviderAdapter> = new Map();
+
+  /**
+   * Register an adapter for a provider
+   */
+  register(adapter: AgentProviderAdapter): void {
+    this.adapters.set(adapter.id, adapter);
+  }
+
+  /**
+   * Get the adapter for a provider
+   * @throws Error if no adapter is registered
+   */
+  getAdapter(provider: AgentProvider): AgentProviderAdapter {
+    const adapter = this.adapters.get(provider);
+    if (!adapter) {
+      throw new Error(`No adapter registered for provider: ${provider}`);
+    }
+    return adapter;
+  }
+
+  /**
+   * Check if an adapter exists for a provider
+   */
+  hasAdapter(provider: AgentProvider): boolean {
+    return this.adapters.has(provider);
+  }
+
+  /**
+   * Get all registered provider ids
+   */
+  getRegisteredProviders(): AgentProvider[] {
+    return Array.from(this.adapters.keys());
+  }
 }
 
-export function getProviderAdapter(provider?: AgentProvider): AgentProviderAdapter {
-  if (provider === "opencode") return new OpenCodeProvider();
-  return new ClaudeCodeProvider();
+// Create singleton instance
+export const providerRegistry = new ProviderRegistry();
+
+providerRegistry.register(new ClaudeCodeProvider());
+providerRegistry.register(new OpenCodeProvider());
+
+/**
+ * Get the adapter for an agent's provider (default: claude-code)
+ * @throws Error if no adapter is registered
+ */
+export function getProviderAdapter(provider: AgentProvider = "claude-code"): AgentProviderAdapter {
+  return providerRegistry.getAdapter(provider);
 }
@@ -9,7 +9,7 @@ describe("generateSkillForOutput", () => {
 
       expect(skill).toContain("## Skill: Add Comment");
       expect(skill).toContain("/tmp/outputs/add-comment.json");
-      expect(skill).toContain('"body": "string"');
+      expect(skill).toContain('"body": {');
       expect(skill).toContain("Maximum comments: unlimited");
       expect(skill).toContain("Use the Write tool");
     });
@@ -24,8 +24,8 @@ describe("generateSkillForOutput", () => {
       const skill = generateSkillForOutput("add-comment", {}, undefined);
 
       expect(skill).toContain("**JSON Schema**");
-      expect(skill).toContain('"issue_number": number');
-      expect(skill).toContain('"body": "string"');
+      expect(skill).toContain('"issue_number": {');
+      expect(skill).toContain('"body": {');
     });
 
     test("should include example usage", () => {
@@ -50,9 +50,9 @@ describe("generateSkillForOutput", () => {
 
       expect(skill).toContain("## Skill: Create Pull Request");
       expect(skill).toContain("/tmp/outputs/create-pr.json");
-      expect(skill).toContain('"branch": "string"');
-      expect(skill).toContain('"title": "string"');
-      expect(skill).toContain('"body": "string"');
+      expect(skill).toContain('"branch": {');
+      expect(skill).toContain('"title": {');
+      expect(skill).toContain('"body": {');
       expect(skill).toContain('"files": [');
     });
 
@@ -79,8 +79,8 @@ describe("generateSkillForOutput", () => {
     test("should include detailed file structure", () => {
       const skill = generateSkillForOutput("create-pr", {}, undefined);
 
-      expect(skill).toContain('"path": "string"');
-      expect(skill).toContain('"content": "string"');
+      expect(skill).toContain('"path": {');
+      expect(skill).toContain('"content": {');
       expect(skill).toContain("Complete file content");
     });
 
@@ -106,8 +106,8 @@ describe("generateSkillForOutput", () => {
       expect(skill).toContain("## Skill: Update Files");
       expect(skill).toContain("/tmp/outputs/update-file.json");
       expect(skill).toContain('"files": [');
-      expect(skill).toContain('"message": "string"');
-      expect(skill).toContain('"branch": "string"');
+      expect(skill).toContain('"message": {');
+      expect(skill).toContain('"branch": {');
     });
 
     test("should include sign commits constraint when enabled", () => {
@@ -144,7 +144,7 @@ describe("generateSkillForOutput", () => {
 
       expect(skill).toContain("## Skill: Add Labels");
       expect(skill).toContain("/tmp/outputs/add-label.json");
-      expect(skill).toContain('"labels": ["string"]');
+      expect(skill).toContain('"labels": {');
     });
 
     test("should reference available labels section", () => {
@@ -181,7 +181,7 @@ describe("generateSkillForOutput", () => {
 
       expect(skill).toContain("## Skill: Remove Labels");
       expect(skill).toContain("/tmp/outputs/remove-label.json");
-      expect(skill).toContain('"labels": ["string"]');
+      expect(skill).toContain('"labels": {');
     });
 
     test("should reference available labels", () => {
@@ -197,10 +197,10 @@ describe("generateSkillForOutput", () => {
 
       expect(skill).toContain("## Skill: Create Issue");
       expect(skill).toContain("/tmp/outputs/create-issue.json");
-      expect(skill).toContain('"title": "string"');
-      expect(skill).toContain('"body": "string"');
-      expect(skill).toContain('"labels": ["string"] (optional)');
-      expect(skill).toContain('"assignees": ["string"] (optional)');
+      expect(skill).toContain('"title": {');
+      expect(skill).toContain('"body": {');
+      expect(skill).toContain('"labels": {');
+      expect(skill).toContain('"assignees": {');
     });
 
     test("should include max constraint when configured", () => {
@@ -231,9 +231,9 @@ describe("generateSkillForOutput", () => {
 
       expect(skill).toContain("## Skill: Create Discussion");
       expect(skill).toContain("/tmp/outputs/create-discussion.json");
-      expect(skill).toContain('"title": "string"');
-      expect(skill).toContain('"body": "string"');
-      expect(skill).toContain('"category": "string"');
+      expect(skill).toContain('"title": {');
+      expect(skill).toContain('"body": {');
+      expect(skill).toContain('"category": {');
     });
 
     test("should include max constraint when configured", () => {
@@ -275,7 +275,7 @@ describe("generateSkillForOutput", () => {
 
       expect(skill).toContain("## Skill: Assign Issue");
       expect(skill).toContain("/tmp/outputs/assign-issue.json");
-      expect(skill).toContain('"assignees": ["string"]');
+      expect(skill).toContain('"assignees": {');
     });
 
     test("should include max assignees constraint", () => {
@@ -291,7 +291,7 @@ describe("generateSkillForOutput", () => {
 
       expect(skill).toContain("## Skill: Request Review");
       expect(skill).toContain("/tmp/outputs/request-review.json");
-      expect(skill).toContain('"reviewers": ["string"]');
+      expect(skill).toContain('"reviewers": {');
     });
   });
 
@@ -327,9 +327,9 @@ describe("generateSkillForOutput", () => {
 
       expect(skill).toContain("## Skill: Create Release");
       expect(skill).toContain("/tmp/outputs/create-release.json");
-      expect(skill).toContain('"tag_name": "string"');
-      expect(skill).toContain('"name": "string"');
-      expect(skill).toContain('"body": "string"');
+      expect(skill).toContain('"tag_name": {');
+      expect(skill).toContain('"name": {');
+      expect(skill).toContain('"body": {');
     });
 
     test("should document prerelease and draft options", () => {
@@ -346,7 +346,7 @@ describe("generateSkillForOutput", () => {
 
       expect(skill).toContain("## Skill: Delete Branch");
       expect(skill).toContain("/tmp/outputs/delete-branch.json");
-      expect(skill).toContain('"branch": "string"');
+      expect(skill).toContain('"branch": {');
     });
   });
 
@@ -383,7 +383,7 @@ describe("generateSkillForOutput", () => {
 
       expect(skill).toContain("## Skill: Convert to Discussion");
       expect(skill).toContain("/tmp/outputs/convert-to-discussion.json");
-      expect(skill).toContain('"category": "string"');
+      expect(skill).toContain('"category": {');
     });
   });
 
@@ -393,9 +393,9 @@ describe("generateSkillForOutput", () => {
 
       expect(skill).toContain("## Skill: Edit Issue");
       expect(skill).toContain("/tmp/outputs/edit-issue.json");
-      expect(skill).toContain('"issue_number": number');
-      expect(skill).toContain('"title": "string"');
-      expect(skill).toContain('"body": "string"');
+      expect(skill).toContain('"issue_number": {');
+      expect(skill).toContain('"title": {');
+      expect(skill).toContain('"body": {');
       expect(skill).toContain("(optional): New title");
     });
   });
@@ -415,7 +415,7 @@ describe("generateSkillForOutput", () => {
 
       expect(skill).toContain("## Skill: Set Milestone");
       expect(skill).toContain("/tmp/outputs/set-milestone.json");
-      expect(skill).toContain('"milestone": "string"');
+      expect(skill).toContain('"milestone": {');
     });
   });
 
@@ -425,14 +425,14 @@ describe("generateSkillForOutput", () => {
 
       expect(skill).toContain("## Skill: Trigger Workflow");
       expect(skill).toContain("/tmp/outputs/trigger-workflow.json");
-      expect(skill).toContain('"workflow": "string"');
+      expect(skill).toContain('"workflow": {');
     });
 
     test("should document workflow inputs", () => {
       const skill = generateSkillForOutput("trigger-workflow", {}, undefined);
 
       expect(skill).toContain('"inputs": {');
-      expect(skill).toContain('"key": "value"');
+      expect(skill).toContain("Input key-value pairs for the workflow");
     });
   });
 
@@ -442,7 +442,7 @@ describe("generateSkillForOutput", () => {
 
       expect(skill).toContain("## Skill: Add Reaction");
       expect(skill).toContain("/tmp/outputs/add-reaction.json");
-      expect(skill).toContain('"reaction": "string"');
+      expect(skill).toContain('"reaction": {');
     });
 
     test("should list valid reactions", () => {
@@ -465,7 +465,7 @@ describe("generateSkillForOutput", () => {
 
       expect(skill).toContain("## Skill: Create Branch");
       expect(skill).toContain("/tmp/outputs/create-branch.json");
-      expect(skill).toContain('"branch": "string"');
+      expect(skill).toContain('"branch": {');
     });
 
     test("should document base branch option", () => {
@@ -765,4 +765,29 @@ describe("generateSkillsSection", () => {
     const updateSection = section.split("## Skill: Update Files")[1];
     expect(updateSection).not.toContain("Commits must be signed");
   });
+
+  test("should document custom outputs from their declaration", () => {
+    const notify = {
+      description: "Post a short message to the team channel.",
+      schema: {
+        type: "object",
+        required: ["text"],
+        properties: { text: { type: "string" } },
+      },
+      dispatch: "notify-team",
+      max: 1,
+    };
+    const section = generateSkillsSection(
+      { "add-comment": true, "notify-team": notify },
+      undefined,
+      { "notify-team": notify },
+    );
+
+    expect(section).toContain("## Skill: Add Comment");
+    expect(section).toContain("## Skill: notify-team");
+    expect(section).toContain("Post a short message to the team channel.");
+    expect(section).toContain("/tmp/outputs/notify-team.json");
+    expect(section).toContain('"required": [\n    "text"\n  ]');
+    expect(section).toContain("Maximum 1 file(s) per run");
+  });
 });
@@ -1,4 +1,4 @@
-import type { Output, OutputConfig } from "@repo-agents/types";
+import type { CustomOutputConfig, Output, OutputConfig } from "@repo-agents/types";
 import { getOutputHandler } from "./outputs";
 
 /**
@@ -8,6 +8,7 @@ import { getOutputHandler } from "./outputs";
 export function generateSkillsSection(
   outputs: Record<string, OutputConfig | boolean> | undefined,
   allowedPaths?: string[],
+  customOutputs?: Record<string, CustomOutputConfig>,
 ): string {
   if (!outputs || Object.keys(outputs).length === 0) {
     return "";
@@ -15,11 +16,13 @@ export function generateSkillsSection(
 
   const skillDocs = Object.entries(outputs)
     .map(([output, config]) =>
-      generateSkillForOutput(
-        output as Output,
-        typeof config === "object" ? config : {},
-        allowedPaths,
-      ),
+      customOutputs?.[output]
+        ? generateCustomSkill(output, customOutputs[output])
+        : generateSkillForOutput(
+            output as Output,
+            typeof config === "object" ? config : {},
+            allowedPaths,
+          ),
     )
     .join("\n\n");
 
@@ -49,3 +52,31 @@ export function generateSkillForOutput(
     return "";
   }
 }
+
+/**
+ * Generates documentation for an output declared in the agent's frontmatter
+ */
+export function generateCustomSkill(output: string, config: CustomOutputConfig): string {
+  const constraints = [
+    "- The file must match the JSON schema above",
+    ...(config.max ? [`- Maximum ${config.max} file(s) per run`] : []),
+  ];
+
+  return `## Skill: ${output}
+
+${config.description.trim()}
+
+**File to create**: \`/tmp/outputs/${output}.json\`
+
+For multiple operations, use numbered suffixes: \`${output}-1.json\`, \`${output}-2.json\`, etc.
+
+**JSON Schema**:
+\`\`\`json
+${JSON.stringify(config.schema, null, 2)}
+\`\`\`
+
+**Constraints**:
+${constraints.join("\n")}
+
+**Important**: Use the Write tool to create this file.`;
+}
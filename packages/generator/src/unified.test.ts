@@ -1,6 +1,7 @@
 import { describe, expect, it } from "bun:test";
-import type { AgentDefinition } from "@repo-agents/types";
+import type { AgentDefinition, Output, RepositoryConfig } from "@repo-agents/types";
 import yaml from "js-yaml";
+import { describeWriteScopes, OUTPUT_SCOPES } from "./permissions";
 import { unifiedWorkflowGenerator } from "./unified";
 
 interface WorkflowYaml {
@@ -118,37 +119,124 @@ describe("UnifiedWorkflowGenerator", () => {
     expect((workflowDispatch.inputs as Record<string, unknown>)?.agent).toBeDefined();
   });
 
-  it("should aggregate permissions to maximum level", () => {
-    const agents: AgentDefinition[] = [
-      {
-        name: "Agent 1",
-        markdown: "Test 1",
-        on: { issues: { types: ["opened"] } },
-        permissions: {
-          contents: "read",
-        },
-      },
-      {
-        name: "Agent 2",
-        markdown: "Test 2",
-        on: { issues: { types: ["opened"] } },
-        permissions: {
-          contents: "write",
-          pull_requests: "write",
-        },
+  describe("permissions", () => {
+    const summariser: AgentDefinition = {
+      name: "Summariser",
+      markdown: "Summarise the week",
+      on: { schedule: [{ cron: "0 9 * * 1" }] },
+      context: { issues: {}, pull_requests: {} },
+    };
+    const implementer: AgentDefinition = {
+      name: "Implementer",
+      markdown: "Implement the issue",
+      on: { issues: { types: ["labeled"] } },
+      permissions: { contents: "write", pull_requests: "write" },
+      outputs: { "create-pr": true, "add-comment": true },
+    };
+    const triage: AgentDefinition = {
+      name: "Triage",
+      markdown: "Triage the issue",
+      on: { issues: { types: ["opened"] } },
+      outputs: { "add-label": true, "close-issue": { approval: true } },
+      custom_outputs: {
+        notify: { description: "Notify", schema: {}, dispatch: "notify" },
       },
-    ];
+    };
+
+    const jobPermissions = (agents: AgentDefinition[], repositoryConfig?: RepositoryConfig) => {
+      const parsed = yaml.load(
+        unifiedWorkflowGenerator.generate(agents, defaultSecrets, repositoryConfig),
+      ) as WorkflowYaml;
+      return {
+        workflow: parsed.permissions,
+        jobs: Object.fromEntries(
+          Object.entries(parsed.jobs).map(([name, job]) => [
+            name,
+            (job as { permissions: Record<string, string> }).permissions,
+          ]),
+        ),
+      };
+    };
+
+    /** Write scopes an agent asked for through its permissions and enabled outputs */
+    const declaredWriteScopes = (agent: AgentDefinition): string[] => {
+      const scopes = Object.entries(agent.permissions ?? {})
+        .filter(([, level]) => level === "write")
+        .map(([scope]) => (scope === "pull_requests" ? "pull-requests" : scope));
+      for (const [output, config] of Object.entries(agent.outputs ?? {})) {
+        scopes.push(...Object.keys(OUTPUT_SCOPES[output as Output] ?? {}));
+        if (typeof config === "object" && config.approval) {
+          scopes.push("issues");
+        }
+      }
+      if (Object.values(agent.custom_outputs ?? {}).some((config) => config.dispatch)) {
+        scopes.push("contents");
+      }
+      return scopes;
+    };
+
+    it("should keep the workflow token read-only", () => {
+      expect(jobPermissions([summariser, implementer]).workflow).toEqual({ contents: "read" });
+    });
 
-    const workflow = unifiedWorkflowGenerator.generate(agents, defaultSecrets);
-    const parsed = yaml.load(workflow) as WorkflowYaml;
+    it("should give a read-only agent no write scopes", () => {
+      expect(jobPermissions([summariser, implementer]).jobs["agent-summariser"]).toEqual({
+        contents: "read",
+        issues: "read",
+        actions: "read",
+        "pull-requests": "read",
+      });
+    });
 
-    // Should upgrade to write if any agent needs it
-    expect(parsed.permissions.contents).toBe("write");
-    expect(parsed.permissions["pull-requests"]).toBe("write");
+    it("should never give an agent job more than it declared", () => {
+      const agents = [summariser, implementer, triage];
+      const { jobs } = jobPermissions(agents);
+
+      for (const agent of agents) {
+        const slug = agent.name.toLowerCase();
+        for (const name of [`agent-${slug}`, `agent-${slug}-approval`]) {
+          const granted = Object.entries(jobs[name] ?? {})
+            .filter(([, level]) => level === "write")
+            .map(([scope]) => scope);
+          for (const scope of granted) {
+            expect(declaredWriteScopes(agent)).toContain(scope);
+          }
+        }
+      }
+      expect(jobs["agent-implementer"]).toMatchObject({
+        contents: "write",
+        "pull-requests": "write",
+        issues: "write",
+      });
+      expect(jobs["agent-triage-approval"]).toEqual(jobs["agent-triage"]);
+    });
+
+    it("should report which output forced each write scope", () => {
+      const reports = unifiedWorkflowGenerator.permissionReports([implementer]);
+
+      expect(describeWriteScopes(reports["agent-implementer"])).toEqual([
+        "contents: write ← permissions.contents, outputs.create-pr",
+        "issues: write ← outputs.add-comment",
+        "pull-requests: write ← permissions.pull_requests, outputs.create-pr",
+      ]);
+    });
+
+    it("should give the audit and dispatcher jobs only what they use", () => {
+      const { jobs } = jobPermissions([summariser]);
 
-    // Should always include these
-    expect(parsed.permissions.actions).toBe("write");
-    expect(parsed.permissions.issues).toBe("write");
+      expect(jobs.dispatcher).toEqual({ contents: "read", issues: "write", actions: "read" });
+      expect(jobs["audit-report"]).toEqual({ contents: "read" });
+      expect(jobs["audit-issues"]).toEqual({ contents: "read", issues: "write" });
+    });
+
+    it("should let the dispatcher read PRs when an agent caps open PRs", () => {
+      const capped: AgentDefinition = { ...implementer, max_open_prs: 3 };
+
+      expect(jobPermissions([capped]).jobs.dispatcher).toMatchObject({ "pull-requests": "read" });
+      expect(
+        unifiedWorkflowGenerator.permissionReports([capped]).dispatcher.reasons["pull-requests"],
+      ).toEqual(["max_open_prs"]);
+    });
   });
 
   it("should add closed issue type when blocking checks enabled", () => {
@@ -458,6 +546,88 @@ describe("UnifiedWorkflowGenerator", () => {
     });
   });
 
+  describe("push, release and workflow_run triggers", () => {
+    it("should merge filters from agents that all narrow the trigger", () => {
+      const agents: AgentDefinition[] = [
+        {
+          name: "Docs Agent",
+          markdown: "Docs",
+          on: { push: { branches: ["main"], paths: ["docs/**"] } },
+        },
+        {
+          name: "Release Agent",
+          markdown: "Release",
+          on: {
+            push: { branches: ["release/**"], paths: ["CHANGELOG.md"] },
+            release: { types: ["published"] },
+          },
+        },
+      ];
+
+      const workflow = unifiedWorkflowGenerator.generate(agents, defaultSecrets);
+      const parsed = yaml.load(workflow) as WorkflowYaml;
+
+      expect(parsed.on.push).toEqual({
+        branches: ["main", "release/**"],
+        paths: ["CHANGELOG.md", "docs/**"],
+      });
+      expect(parsed.on.release).toEqual({ types: ["published"] });
+    });
+
+    it("should drop a filter when any agent needs every event", () => {
+      const agents: AgentDefinition[] = [
+        {
+          name: "Docs Agent",
+          markdown: "Docs",
+          on: {
+            push: { branches: ["main"], paths: ["docs/**"] },
+            release: { types: ["published"] },
+          },
+        },
+        {
+          name: "Audit Agent",
+          markdown: "Audit",
+          on: { push: { branches: ["main"] }, release: {} },
+        },
+      ];
+
+      const workflow = unifiedWorkflowGenerator.generate(agents, defaultSecrets);
+      const parsed = yaml.load(workflow) as WorkflowYaml;
+
+      expect(parsed.on.push).toEqual({ branches: ["main"] });
+      expect(parsed.on.release).toEqual({});
+    });
+
+    it("should list every followed workflow and leave conclusions to the router", () => {
+      const agents: AgentDefinition[] = [
+        {
+          name: "CI Doctor",
+          markdown: "Fix CI",
+          on: {
+            workflow_run: {
+              workflows: ["CI"],
+              types: ["completed"],
+              conclusions: ["failure"],
+            },
+          },
+        },
+        {
+          name: "Deploy Watcher",
+          markdown: "Watch deploys",
+          on: { workflow_run: { workflows: ["Deploy", "CI"], types: ["completed"] } },
+        },
+      ];
+
+      const workflow = unifiedWorkflowGenerator.generate(agents, defaultSecrets);
+      const parsed = yaml.load(workflow) as WorkflowYaml;
+
+      expect(parsed.on.workflow_run).toEqual({
+        workflows: ["CI", "Deploy"],
+        types: ["completed"],
+      });
+    });
+  });
+
   describe("timeout", () => {
     it("should use default timeout when not specified", () => {
       const agents: AgentDefinition[] = [
@@ -552,4 +722,475 @@ describe("UnifiedWorkflowGenerator", () => {
       expect(contextStep?.["timeout-minutes"]).toBe(8);
     });
   });
+
+  describe("state store", () => {
+    const dedupAgent: AgentDefinition = {
+      name: "Dedup Agent",
+      markdown: "Test",
+      on: { issues: { types: ["opened"] } },
+      outputs: { "add-comment": true },
+      deduplication: { actions: { window: "24h" } },
+    };
+
+    const generate = (agent: AgentDefinition, repositoryConfig?: RepositoryConfig) =>
+      yaml.load(
+        unifiedWorkflowGenerator.generate([agent], defaultSecrets, repositoryConfig),
+      ) as WorkflowYaml;
+
+    const findSteps = (agent: AgentDefinition, repositoryConfig?: RepositoryConfig) => {
+      const job = generate(agent, repositoryConfig).jobs["agent-dedup-agent"] as Record<
+        string,
+        unknown
+      >;
+      return job.steps as Array<Record<string, unknown>>;
+    };
+
+    it("should persist deduplication state when action deduplication is configured", () => {
+      const steps = findSteps(dedupAgent);
+
+      const outputsStep = steps.find((s) => s.name === "Execute outputs");
+      const env = outputsStep?.env as Record<string, string>;
+      expect(env.GITHUB_TOKEN).toBe("${{ secrets.GITHUB_TOKEN }}");
+
+      const uploadStep = steps.find((s) => s.name === "Upload deduplication state");
+      expect(uploadStep?.if).toBe("always()");
+      expect(uploadStep?.with).toMatchObject({
+        name: "agent-dedup-agent-actions-state",
+        path: "/tmp/artifacts/agent-dedup-agent-actions-state/",
+      });
+    });
+
+    it("should not persist state without action deduplication", () => {
+      const steps = findSteps({ ...dedupAgent, deduplication: undefined });
+
+      expect(steps.find((s) => s.name === "Upload deduplication state")).toBeUndefined();
+    });
+
+    it("should persist the run history of every agent", () => {
+      const uploadStep = findSteps(dedupAgent).find((s) => s.name === "Upload run history");
+
+      expect((uploadStep?.with as Record<string, unknown>).name).toBe(
+        "agent-dedup-agent-runs-state",
+      );
+    });
+
+    it("should keep the context API cache in the Actions cache, not the state store", () => {
+      const contextAgent = { ...dedupAgent, context: { issues: {} } };
+      const steps = findSteps(contextAgent);
+      const names = steps.map((s) => s.name);
+      const restore = steps.find((s) => s.name === "Restore context API cache");
+      const save = steps.find((s) => s.name === "Save context API cache");
+
+      expect(names.indexOf("Restore context API cache")).toBe(names.indexOf("Collect context") - 1);
+      expect(names.indexOf("Save context API cache")).toBe(names.indexOf("Collect context") + 1);
+      expect(restore?.with).toEqual({
+        path: "/tmp/api-cache",
+        key: "repo-agents-api-cache-dedup-agent-${{ github.run_id }}",
+        "restore-keys": "repo-agents-api-cache-dedup-agent-",
+      });
+      expect(save?.uses).toBe("actions/cache/save@v4");
+      expect(names).not.toContain("Upload context API cache");
+      expect(findSteps(dedupAgent).find((s) => s.name === "Restore context API cache")).toBe(
+        undefined,
+      );
+    });
+
+    it("should persist event deduplication state from the dispatcher", () => {
+      const workflow = generate({ ...dedupAgent, deduplication: { events: { window: "1h" } } });
+      const steps = (workflow.jobs.dispatcher as Record<string, unknown>).steps as Array<
+        Record<string, unknown>
+      >;
+
+      const uploadStep = steps.find((s) => s.name === "Upload Dedup Agent event state");
+      expect((uploadStep?.with as Record<string, unknown>).name).toBe(
+        "agent-dedup-agent-events-state",
+      );
+    });
+
+    it("should skip state artifacts and grant contents write for the git-branch backend", () => {
+      const config: RepositoryConfig = { state: { backend: "git-branch" } };
+      const steps = findSteps(dedupAgent, config);
+
+      expect(steps.find((s) => s.name === "Upload run history")).toBeUndefined();
+      expect(steps.find((s) => s.name === "Upload deduplication state")).toBeUndefined();
+      const { jobs } = generate(dedupAgent, config);
+      for (const job of ["dispatcher", "agent-dedup-agent"]) {
+        expect((jobs[job] as Record<string, unknown>).permissions).toMatchObject({
+          contents: "write",
+        });
+      }
+    });
+  });
+
+  describe("approvals", () => {
+    const agent: AgentDefinition = {
+      name: "Closer",
+      markdown: "Test",
+      on: { issues: { types: ["opened"] } },
+      outputs: { "add-label": true, "close-issue": { approval: { teams: ["maintainers"] } } },
+    };
+
+    const generate = (definition: AgentDefinition) =>
+      yaml.load(unifiedWorkflowGenerator.generate([definition], defaultSecrets)) as WorkflowYaml;
+
+    it("should add a job that resumes the held plan", () => {
+      const workflow = generate(agent);
+      const job = workflow.jobs["agent-closer-approval"] as Record<string, unknown>;
+      const steps = job.steps as Array<Record<string, unknown>>;
+
+      expect(job.if).toBe("needs.dispatcher.outputs.agent-closer-resume-approval == 'true'");
+      expect(steps.find((s) => s.name === "Decide pending outputs")?.run).toBe(
+        'bun run repo-agent run approval --agent "Closer"',
+      );
+      expect(
+        (workflow.jobs.dispatcher as Record<string, Record<string, string>>).outputs[
+          "agent-closer-resume-approval"
+        ],
+      ).toBe("${{ steps.dispatcher.outputs.agent-closer-resume-approval }}");
+      expect(workflow.on.issue_comment).toEqual({ types: ["created"] });
+    });
+
+    it("should persist the plan from the agent job", () => {
+      const job = generate(agent).jobs["agent-closer"] as Record<string, unknown>;
+      const steps = job.steps as Array<Record<string, unknown>>;
+
+      expect(
+        (steps.find((s) => s.name === "Upload approval state")?.with as Record<string, unknown>)
+          .name,
+      ).toBe(
+        "agent-closer-approval-${{ github.event.issue.number || github.event.pull_request.number }}-state",
+      );
+    });
+
+    it("should map secrets referenced by custom output headers into the output steps", () => {
+      const workflow = generate({
+        ...agent,
+        custom_outputs: {
+          notify: {
+            description: "Notify",
+            schema: {},
+            http: {
+              url: "https://example.com/notify",
+              headers: { Authorization: "Bearer ${{ secrets.NOTIFY_TOKEN }}", "X-Team": "core" },
+            },
+          },
+        },
+      });
+      const stepEnv = (job: string, name: string) =>
+        (
+          (workflow.jobs[job] as { steps: Array<Record<string, unknown>> }).steps.find(
+            (s) => s.name === name,
+          )?.env as Record<string, string> | undefined
+        )?.NOTIFY_TOKEN;
+
+      expect(stepEnv("agent-closer", "Execute outputs")).toBe("${{ secrets.NOTIFY_TOKEN }}");
+      expect(stepEnv("agent-closer-approval", "Decide pending outputs")).toBe(
+        "${{ secrets.NOTIFY_TOKEN }}",
+      );
+      expect(stepEnv("agent-closer", "Run Closer")).toBeUndefined();
+    });
+
+    it("should persist the deduplication state of approved actions", () => {
+      const stepsOf = (definition: AgentDefinition) =>
+        (
+          generate(definition).jobs["agent-closer-approval"] as {
+            steps: Array<Record<string, unknown>>;
+          }
+        ).steps;
+
+      const upload = stepsOf({ ...agent, deduplication: { actions: { window: "24h" } } }).find(
+        (s) => s.name === "Upload deduplication state",
+      );
+
+      expect(upload?.with).toMatchObject({
+        name: "agent-closer-actions-state",
+        path: "/tmp/artifacts/agent-closer-actions-state/",
+      });
+      expect(stepsOf(agent).find((s) => s.name === "Upload deduplication state")).toBeUndefined();
+    });
+
+    it("should not add approval jobs without approval outputs", () => {
+      const workflow = generate({ ...agent, outputs: { "add-label": true } });
+
+      expect(workflow.jobs["agent-closer-approval"]).toBeUndefined();
+      expect(workflow.on.issue_comment).toBeUndefined();
+    });
+  });
+
+  describe("agent chains", () => {
+    const triage: AgentDefinition = {
+      name: "Issue Triage",
+      markdown: "Test",
+      on: { issues: { types: ["opened"] } },
+      outputs: { "add-label": true },
+      downstream: ["issue-implementer"],
+    };
+    const implementer: AgentDefinition = {
+      name: "Issue Implementer",
+      markdown: "Test",
+      on: {},
+    };
+
+    const generate = (agents: AgentDefinition[]) =>
+      yaml.load(unifiedWorkflowGenerator.generate(agents, defaultSecrets)) as WorkflowYaml;
+
+    it("should run downstream agents after their upstream agent", () => {
+      const job = generate([triage, implementer]).jobs["agent-issue-implementer"] as Record<
+        string,
+        unknown
+      >;
+      const steps = job.steps as Array<Record<string, unknown>>;
+
+      expect(job.needs).toEqual(["dispatcher", "agent-issue-triage"]);
+      expect(job.if).toBe(
+        "!cancelled() && needs.dispatcher.outputs.agent-issue-implementer-should-run == 'true' && (needs.dispatcher.outputs.agent-issue-implementer-chained != 'true' || needs.agent-issue-triage.result == 'success')",
+      );
+      expect(steps.find((s) => s.name === "Download issue-triage handoff")).toMatchObject({
+        uses: "actions/download-artifact@v4",
+        with: { name: "agent-issue-triage-handoff", path: "/tmp/handoff/issue-triage/" },
+        "continue-on-error": true,
+      });
+    });
+
+    it("should not run a downstream agent its own validation rejected", () => {
+      const condition = generate([triage, implementer]).jobs["agent-issue-implementer"]
+        ?.if as string;
+      // Evaluate the job condition with the given dispatcher outputs and job results
+      const runs = (values: Record<string, string>) =>
+        new Function(
+          `return ${condition
+            .replace("!cancelled()", "true")
+            .replace(/[\w.-]+(?= [!=]=)/g, (name) => `'${values[name] ?? ""}'`)
+            .replace(/([!=])=/g, "$1==")};`,
+        )() as boolean;
+      const outputs = "needs.dispatcher.outputs.agent-issue-implementer";
+
+      expect(
+        runs({
+          [`${outputs}-should-run`]: "false",
+          [`${outputs}-chained`]: "true",
+          "needs.agent-issue-triage.result": "success",
+        }),
+      ).toBe(false);
+      expect(
+        runs({
+          [`${outputs}-should-run`]: "true",
+          [`${outputs}-chained`]: "true",
+          "needs.agent-issue-triage.result": "failure",
+        }),
+      ).toBe(false);
+      expect(
+        runs({
+          [`${outputs}-should-run`]: "true",
+          [`${outputs}-chained`]: "true",
+          "needs.agent-issue-triage.result": "success",
+        }),
+      ).toBe(true);
+    });
+
+    it("should hand the upstream event payload to chained agents", () => {
+      const job = generate([triage, implementer]).jobs["agent-issue-implementer"] as Record<
+        string,
+        unknown
+      >;
+      const steps = job.steps as Array<Record<string, unknown>>;
+      const env = steps.find((s) => s.name === "Run Issue Implementer")?.env as Record<
+        string,
+        string
+      >;
+
+      expect(env.EVENT_PAYLOAD).toBe(
+        "${{ needs.dispatcher.outputs.agent-issue-implementer-event-payload || needs.dispatcher.outputs.agent-issue-triage-event-payload }}",
+      );
+      expect(generate([triage, implementer]).jobs.dispatcher?.outputs).toHaveProperty(
+        "agent-issue-implementer-chained",
+      );
+    });
+
+    it("should write a handoff from upstream agents", () => {
+      const job = generate([triage, implementer]).jobs["agent-issue-triage"] as Record<
+        string,
+        unknown
+      >;
+      const steps = job.steps as Array<Record<string, unknown>>;
+
+      expect(job.needs).toBe("dispatcher");
+      const env = steps.find((s) => s.name === "Run Issue Triage")?.env as Record<string, string>;
+      expect(env.HANDOFF_ARTIFACT).toBe("agent-issue-triage-handoff");
+      expect(
+        (steps.find((s) => s.name === "Upload handoff")?.with as Record<string, unknown>).path,
+      ).toBe("/tmp/artifacts/agent-issue-triage-handoff/");
+    });
+
+    it("should reject cycles", () => {
+      expect(() => generate([triage, { ...implementer, downstream: ["Issue Triage"] }])).toThrow(
+        "Agent chain has a cycle: Issue Triage → Issue Implementer → Issue Triage",
+      );
+    });
+  });
+
+  describe("budgets", () => {
+    const agent: AgentDefinition = {
+      name: "Budget Agent",
+      markdown: "Test",
+      on: { issues: { types: ["opened"] } },
+    };
+
+    const findSteps = (definition: AgentDefinition, repositoryConfig?: RepositoryConfig) => {
+      const workflow = unifiedWorkflowGenerator.generate(
+        [definition],
+        defaultSecrets,
+        repositoryConfig,
+      );
+      const parsed = yaml.load(workflow) as WorkflowYaml;
+      const job = parsed.jobs["agent-budget-agent"] as Record<string, unknown>;
+      return job.steps as Array<Record<string, unknown>>;
+    };
+
+    it("should track spend when the agent has a budget", () => {
+      const steps = findSteps({ ...agent, budget: { daily: 5 } });
+
+      const runStep = steps.find((s) => s.name === "Run Budget Agent");
+      const env = runStep?.env as Record<string, string>;
+      expect(env.TRACK_SPEND).toBe("true");
+      expect(env.GITHUB_TOKEN).toBe("${{ secrets.GITHUB_TOKEN }}");
+
+      const uploadStep = steps.find((s) => s.name === "Upload spend state");
+      expect(uploadStep?.if).toBe("always()");
+      expect(uploadStep?.with as Record<string, unknown>).toMatchObject({
+        name: "agent-budget-agent-spend-state",
+        path: "/tmp/artifacts/agent-budget-agent-spend-state/",
+      });
+    });
+
+    it("should track spend for every agent under a repository budget", () => {
+      const steps = findSteps(agent, { budget: { monthly: 100 } });
+
+      expect(steps.find((s) => s.name === "Upload spend state")).toBeDefined();
+    });
+
+    it("should not track spend without budgets", () => {
+      const steps = findSteps(agent);
+
+      const runStep = steps.find((s) => s.name === "Run Budget Agent");
+      expect((runStep?.env as Record<string, string>).TRACK_SPEND).toBeUndefined();
+      expect(steps.find((s) => s.name === "Upload spend state")).toBeUndefined();
+    });
+  });
+
+  describe("tracing", () => {
+    const findUploadStep = (agent: AgentDefinition) => {
+      const workflow = unifiedWorkflowGenerator.generate([agent], defaultSecrets);
+      const parsed = yaml.load(workflow) as WorkflowYaml;
+      const job = parsed.jobs["agent-traced-agent"] as Record<string, unknown>;
+      const steps = job.steps as Array<Record<string, unknown>>;
+      return steps.find((s) => s.name === "Upload execution trace");
+    };
+
+    it("should upload the trace with the configured retention", () => {
+      const step = findUploadStep({
+        name: "Traced Agent",
+        markdown: "Test",
+        on: { issues: { types: ["opened"] } },
+        tracing: { level: "detailed", retention: "2w" },
+      });
+
+      const withConfig = step?.with as Record<string, unknown>;
+      expect(step?.if).toBe("always()");
+      expect(withConfig.path).toBe("/tmp/audit/traces/");
+      expect(withConfig["retention-days"]).toBe("14");
+    });
+
+    it("should not upload a trace when tracing is not configured", () => {
+      const step = findUploadStep({
+        name: "Traced Agent",
+        markdown: "Test",
+        on: { issues: { types: ["opened"] } },
+      });
+
+      expect(step).toBeUndefined();
+    });
+  });
+
+  describe("runner", () => {
+    const agent: AgentDefinition = {
+      name: "Coverage",
+      markdown: "Test",
+      on: { schedule: [{ cron: "0 3 * * *" }] },
+      outputs: { "create-pr": { approval: true } },
+    };
+
+    const findJobs = (definition: AgentDefinition) => {
+      const workflow = unifiedWorkflowGenerator.generate([definition], defaultSecrets);
+      const parsed = yaml.load(workflow) as WorkflowYaml;
+      return parsed.jobs as Record<string, Record<string, unknown>>;
+    };
+
+    it("should run on ubuntu-latest without a runner", () => {
+      const job = findJobs(agent)["agent-coverage"];
+
+      expect(job["runs-on"]).toBe("ubuntu-latest");
+      expect(job.container).toBeUndefined();
+      expect(job.services).toBeUndefined();
+      expect(job.environment).toBeUndefined();
+    });
+
+    it("should emit the runner, container, services and environment", () => {
+      const jobs = findJobs({
+        ...agent,
+        runner: {
+          runs_on: ["self-hosted", "linux", "x64"],
+          container: { image: "node:22", options: "--cpus 4" },
+          services: { postgres: { image: "postgres:16", ports: [5432] } },
+          environment: { name: "staging", url: "https://staging.example.com" },
+        },
+      });
+
+      const job = jobs["agent-coverage"];
+      expect(job["runs-on"]).toEqual(["self-hosted", "linux", "x64"]);
+      expect(job.container).toEqual({ image: "node:22", options: "--cpus 4" });
+      expect(job.services).toEqual({ postgres: { image: "postgres:16", ports: [5432] } });
+      expect(job.environment).toEqual({ name: "staging", url: "https://staging.example.com" });
+
+      // Approved outputs run on the same runner, container and services, under the same environment
+      const approval = jobs["agent-coverage-approval"];
+      expect(approval["runs-on"]).toEqual(["self-hosted", "linux", "x64"]);
+      expect(approval.container).toEqual(job.container);
+      expect(approval.services).toEqual(job.services);
+      expect(approval.environment).toEqual(job.environment);
+    });
+
+    it("should keep the dispatcher on ubuntu-latest", () => {
+      const jobs = findJobs({ ...agent, runner: { runs_on: "gpu" } });
+
+      expect(jobs.dispatcher["runs-on"]).toBe("ubuntu-latest");
+      expect(jobs["agent-coverage"]["runs-on"]).toBe("gpu");
+    });
+
+    it("should run setup steps after installing dependencies", () => {
+      const jobs = findJobs({
+        ...agent,
+        runner: {
+          setup_steps: [
+            { uses: "actions/setup-node@v4", with: { "node-version": 22 } },
+            { name: "Install browsers", run: "npx playwright install" },
+          ],
+        },
+      });
+
+      // Both the agent job and the job executing approved outputs
+      for (const job of [jobs["agent-coverage"], jobs["agent-coverage-approval"]]) {
+        const steps = job.steps as Array<Record<string, unknown>>;
+        const install = steps.findIndex((s) => s.name === "Install dependencies");
+        expect(steps[install + 1]).toEqual({
+          uses: "actions/setup-node@v4",
+          with: { "node-version": 22 },
+        });
+        expect(steps[install + 2]).toEqual({
+          name: "Install browsers",
+          run: "npx playwright install",
+        });
+      }
+    });
+  });
 });
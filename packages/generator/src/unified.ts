@@ -1,5 +1,21 @@
-import type { AgentDefinition, TriggerConfig, WorkflowStep } from "@repo-agents/types";
+import type {
+  AgentDefinition,
+  RepositoryConfig,
+  RunnerConfig,
+  StateBackend,
+  TriggerConfig,
+  WorkflowStep,
+} from "@repo-agents/types";
 import yaml from "js-yaml";
+import { resolveAgentChains } from "./chains";
+import {
+  agentJobPermissions,
+  auditIssuesJobPermissions,
+  auditReportJobPermissions,
+  dispatcherJobPermissions,
+  type JobPermissionReport,
+} from "./permissions";
+import { getProviderAdapter } from "./providers";
 
 /**
  * Configuration for which secrets are available
@@ -13,10 +29,14 @@ interface SecretsConfig {
  * GitHub Actions workflow job structure
  */
 interface GitHubWorkflowJob {
-  "runs-on": string;
+  "runs-on": string | string[];
+  container?: RunnerConfig["container"];
+  services?: RunnerConfig["services"];
+  environment?: RunnerConfig["environment"];
   needs?: string | string[];
   if?: string;
   "timeout-minutes"?: number;
+  permissions?: Record<string, string>;
   outputs?: Record<string, string>;
   strategy?: Record<string, unknown>;
   concurrency?: {
@@ -57,12 +77,34 @@ export class UnifiedWorkflowGenerator {
    */
   private secrets: SecretsConfig = { hasApiKey: false, hasAccessToken: false };
 
+  /**
+   * Repository-wide settings from .github/repo-agents.yml
+   */
+  private repositoryConfig: RepositoryConfig = {};
+
+  /**
+   * Upstream agent slugs of each agent (from `then:` and `needs:`)
+   */
+  private upstream = new Map<string, string[]>();
+
   /**
    * Generate the complete unified workflow YAML.
+   * Throws when agent chains reference unknown agents or form a cycle.
    */
-  generate(agents: AgentDefinition[], secrets?: SecretsConfig): string {
+  generate(
+    agents: AgentDefinition[],
+    secrets?: SecretsConfig,
+    repositoryConfig?: RepositoryConfig,
+  ): string {
     // Store secrets config for use in job generation
     this.secrets = secrets || { hasApiKey: false, hasAccessToken: false };
+    this.repositoryConfig = repositoryConfig || {};
+
+    const chains = resolveAgentChains(agents);
+    if (chains.errors.length > 0) {
+      throw new Error(chains.errors.map((error) => error.message).join("\n"));
+    }
+    this.upstream = chains.upstream;
 
     // Build jobs dynamically
     const jobs: Record<string, GitHubWorkflowJob> = {
@@ -74,17 +116,28 @@ export class UnifiedWorkflowGenerator {
     for (const agent of agents) {
       const agentSlug = this.slugifyAgentName(agent.name);
       jobs[`agent-${agentSlug}`] = this.generateAgentExecutionJob(agent, agentSlug);
+      if (this.hasApprovalOutputs(agent)) {
+        jobs[`agent-${agentSlug}-approval`] = this.generateApprovalJob(agent, agentSlug);
+      }
     }
 
     // Add unified audit jobs (replaces per-agent audit jobs)
     jobs["audit-report"] = this.generateAuditReportJob(agents);
     jobs["audit-issues"] = this.generateAuditIssuesJob(agents);
 
+    // Each job gets only the scopes it uses
+    for (const [name, report] of Object.entries(this.getPermissionReports(agents))) {
+      if (jobs[name]) {
+        jobs[name] = { ...jobs[name], permissions: report.permissions };
+      }
+    }
+
     const workflow: UnifiedWorkflow = {
       name: "AI Agents",
       on: this.aggregateTriggers(agents),
       concurrency: this.generateWorkflowConcurrency(agents),
-      permissions: this.aggregatePermissions(agents),
+      // Jobs declare their own permissions; the workflow token defaults to read-only checkout
+      permissions: { contents: "read" },
       jobs,
     };
 
@@ -119,6 +172,10 @@ export class UnifiedWorkflowGenerator {
     const schedules: Array<{ cron: string }> = [];
     const seenCrons = new Set<string>();
     const repoDispatchTypes = new Set<string>();
+    const push = this.createFilterAggregate(["branches", "tags", "paths"]);
+    const release = this.createFilterAggregate(["types"]);
+    const workflowRun = this.createFilterAggregate(["types", "branches"]);
+    const workflowRunNames = new Set<string>();
     let hasBlockingChecks = false;
     let hasInvocations = false;
 
@@ -128,8 +185,8 @@ export class UnifiedWorkflowGenerator {
         hasBlockingChecks = true;
       }
 
-      // Track if any agent has invocation triggers
-      if (agent.on.invocation) {
+      // Track if any agent has invocation triggers (/approve and /deny are comments too)
+      if (agent.on.invocation || this.hasApprovalOutputs(agent)) {
         hasInvocations = true;
       }
 
@@ -162,6 +219,28 @@ export class UnifiedWorkflowGenerator {
       if (agent.on.repository_dispatch?.types) {
         agent.on.repository_dispatch.types.forEach((t) => repoDispatchTypes.add(t));
       }
+
+      // Push - branches and tags only narrow the workflow when every agent sets one of them
+      if (agent.on.push) {
+        const { branches, tags, paths } = agent.on.push;
+        const hasRefFilter = branches !== undefined || tags !== undefined;
+        push.add({
+          branches: hasRefFilter ? (branches ?? []) : undefined,
+          tags: hasRefFilter ? (tags ?? []) : undefined,
+          paths,
+        });
+      }
+
+      // Release
+      if (agent.on.release) {
+        release.add(agent.on.release);
+      }
+
+      // Workflow run - conclusions are checked by the router, not by GitHub
+      if (agent.on.workflow_run) {
+        agent.on.workflow_run.workflows.forEach((w) => workflowRunNames.add(w));
+        workflowRun.add(agent.on.workflow_run);
+      }
     }
 
     // If any agent has blocking checks, listen for closed issues to auto-retry
@@ -191,7 +270,22 @@ export class UnifiedWorkflowGenerator {
       };
     }
 
-    // Add issue_comment trigger if any agent has invocation triggers
+    if (push.used) {
+      triggers.push = push.build();
+    }
+
+    if (release.used) {
+      triggers.release = release.build();
+    }
+
+    if (workflowRunNames.size > 0) {
+      triggers.workflow_run = {
+        workflows: Array.from(workflowRunNames).sort(),
+        ...workflowRun.build(),
+      };
+    }
+
+    // Add issue_comment trigger if any agent has invocation triggers or approvals
     if (hasInvocations) {
       // @ts-expect-error - issue_comment is a valid GitHub trigger but not in our TriggerConfig type
       triggers.issue_comment = { types: ["created"] };
@@ -212,36 +306,96 @@ export class UnifiedWorkflowGenerator {
   }
 
   /**
-   * Aggregate permissions from all agents to maximum level needed.
+   * Collect filter lists (branches, paths, types...) for one trigger across agents.
+   * A filter is only kept when every agent using the trigger sets it, since an agent
+   * without the filter needs every event; the router applies each agent's own filters.
    */
-  private aggregatePermissions(agents: AgentDefinition[]): Record<string, string> {
-    const permissions: Record<string, string> = {
-      actions: "write", // Required for workflow operations
-      contents: "read", // Default read access
-      issues: "write", // For progress comments and issue creation
+  private createFilterAggregate<K extends string>(keys: K[]) {
+    const values = new Map<K, Set<string>>(keys.map((key) => [key, new Set<string>()]));
+    const unfiltered = new Set<K>();
+    let used = false;
+
+    return {
+      get used() {
+        return used;
+      },
+      add(config: Partial<Record<K, string[]>>) {
+        used = true;
+        for (const key of keys) {
+          const list = config[key];
+          if (list === undefined) {
+            unfiltered.add(key);
+          } else {
+            for (const value of list) {
+              values.get(key)?.add(value);
+            }
+          }
+        }
+      },
+      build(): Partial<Record<K, string[]>> {
+        const result: Partial<Record<K, string[]>> = {};
+        for (const key of keys) {
+          const set = values.get(key);
+          if (!unfiltered.has(key) && set && set.size > 0) {
+            result[key] = Array.from(set).sort();
+          }
+        }
+        return result;
+      },
     };
+  }
 
-    for (const agent of agents) {
-      const agentPerms = agent.permissions || {};
+  /**
+   * Convert a trace retention (e.g. "7d", "2w") to artifact retention days (GitHub allows 1-90).
+   */
+  private getTraceRetentionDays(retention = "7d"): number {
+    const match = retention.match(/^(\d+)([hdwm])$/);
+    if (!match) {
+      return 7;
+    }
 
-      // Upgrade to write if any agent needs it
-      if (agentPerms.contents === "write") {
-        permissions.contents = "write";
-      }
-      if (agentPerms.pull_requests === "write") {
-        permissions["pull-requests"] = "write";
-      }
-      if (agentPerms.discussions === "write") {
-        permissions.discussions = "write";
-      }
+    const value = Number(match[1]);
+    const daysPerUnit: Record<string, number> = { h: 1 / 24, d: 1, w: 7, m: 30 };
+    return Math.min(Math.max(Math.ceil(value * daysPerUnit[match[2]]), 1), 90);
+  }
+
+  /**
+   * Permissions of each job, with what asked for each scope.
+   */
+  permissionReports(
+    agents: AgentDefinition[],
+    repositoryConfig?: RepositoryConfig,
+  ): Record<string, JobPermissionReport> {
+    this.repositoryConfig = repositoryConfig || {};
+    return this.getPermissionReports(agents);
+  }
 
-      // Add read permissions
-      if (agentPerms.discussions && !permissions.discussions) {
-        permissions.discussions = "read";
+  private getPermissionReports(agents: AgentDefinition[]): Record<string, JobPermissionReport> {
+    const stateBackend = this.getStateBackend();
+    const reports: Record<string, JobPermissionReport> = {
+      dispatcher: dispatcherJobPermissions(agents, { stateBackend }),
+    };
+
+    for (const agent of agents) {
+      const agentSlug = this.slugifyAgentName(agent.name);
+      const report = agentJobPermissions(agent, { stateBackend });
+      reports[`agent-${agentSlug}`] = report;
+      // The approval job executes the agent's outputs once they are approved
+      if (this.hasApprovalOutputs(agent)) {
+        reports[`agent-${agentSlug}-approval`] = report;
       }
     }
 
-    return permissions;
+    reports["audit-report"] = auditReportJobPermissions();
+    reports["audit-issues"] = auditIssuesJobPermissions();
+    return reports;
+  }
+
+  /**
+   * Spend is tracked when the agent or the repository has a budget
+   */
+  private tracksSpend(agent: AgentDefinition): boolean {
+    return !!agent.budget || !!this.repositoryConfig.budget;
   }
 
   /**
@@ -310,6 +464,14 @@ export class UnifiedWorkflowGenerator {
       outputs[`agent-${slug}-event-payload`] = ghExpr(
         `steps.dispatcher.outputs.agent-${slug}-event-payload`,
       );
+      if ((this.upstream.get(slug) ?? []).length > 0) {
+        outputs[`agent-${slug}-chained`] = ghExpr(`steps.dispatcher.outputs.agent-${slug}-chained`);
+      }
+      if (this.hasApprovalOutputs(agent)) {
+        outputs[`agent-${slug}-resume-approval`] = ghExpr(
+          `steps.dispatcher.outputs.agent-${slug}-resume-approval`,
+        );
+      }
     }
 
     // Build env object with configured secrets
@@ -324,6 +486,19 @@ export class UnifiedWorkflowGenerator {
       env.CLAUDE_CODE_OAUTH_TOKEN = ghExpr("secrets.CLAUDE_CODE_OAUTH_TOKEN");
     }
 
+    // Persist event deduplication records for the next run
+    const stateSteps: WorkflowStep[] = [];
+    if (this.getStateBackend() === "artifact") {
+      for (const agent of agents) {
+        if (agent.deduplication?.events && agent.deduplication.events.enabled !== false) {
+          const slug = this.slugifyAgentName(agent.name);
+          stateSteps.push(
+            this.generateStateUploadStep(`Upload ${agent.name} event state`, slug, "events"),
+          );
+        }
+      }
+    }
+
     return {
       "runs-on": "ubuntu-latest",
       // Skip bot-triggered events to prevent recursive loops and self-cancellation.
@@ -348,6 +523,7 @@ export class UnifiedWorkflowGenerator {
           run: "bun run repo-agent run dispatcher",
           env,
         },
+        ...stateSteps,
       ],
     };
   }
@@ -360,6 +536,10 @@ export class UnifiedWorkflowGenerator {
     const ghExpr = (expr: string) => `\${{ ${expr} }}`;
     const hasContext = !!agent.context;
     const timeout = this.getTimeoutConfig(agent);
+    const stateBackend = this.getStateBackend();
+    // Remote state stores are read and written with the workflow token
+    const stateEnv: Record<string, string> =
+      stateBackend === "local" ? {} : { GITHUB_TOKEN: ghExpr("secrets.GITHUB_TOKEN") };
 
     const steps: WorkflowStep[] = [
       {
@@ -372,6 +552,8 @@ export class UnifiedWorkflowGenerator {
         name: "Install dependencies",
         run: "bun install --frozen-lockfile",
       },
+      // Toolchains the agent needs beyond the runner's own
+      ...(agent.runner?.setup_steps ?? []),
       {
         uses: "actions/create-github-app-token@v1",
         id: "app-token",
@@ -383,18 +565,74 @@ export class UnifiedWorkflowGenerator {
       },
     ];
 
-    // Add context collection if configured
-    if (hasContext) {
+    // Upstream agents hand off their result and output files
+    const upstream = this.upstream.get(agentSlug) ?? [];
+    for (const upstreamSlug of upstream) {
       steps.push({
-        name: "Collect context",
-        run: `bun run repo-agent run context --agent "${agent.name}"`,
-        "timeout-minutes": timeout.contextCollection,
-        env: {
-          GH_TOKEN: ghExpr("steps.app-token.outputs.token || secrets.GITHUB_TOKEN"),
+        name: `Download ${upstreamSlug} handoff`,
+        uses: "actions/download-artifact@v4",
+        with: {
+          name: `agent-${upstreamSlug}-handoff`,
+          path: `/tmp/handoff/${upstreamSlug}/`,
         },
+        // The upstream agent may not have run for this event
+        "continue-on-error": true,
       });
     }
 
+    // Add context collection if configured. Cached API responses are kept in the Actions
+    // cache; entries are immutable, so each run saves under its own key
+    if (hasContext) {
+      const apiCacheKey = `repo-agents-api-cache-${agentSlug}-`;
+      steps.push(
+        {
+          name: "Restore context API cache",
+          uses: "actions/cache/restore@v4",
+          with: {
+            path: "/tmp/api-cache",
+            key: `${apiCacheKey}${ghExpr("github.run_id")}`,
+            "restore-keys": apiCacheKey,
+          },
+        },
+        {
+          name: "Collect context",
+          run: `bun run repo-agent run context --agent "${agent.name}"`,
+          "timeout-minutes": timeout.contextCollection,
+          env: {
+            GH_TOKEN: ghExpr("steps.app-token.outputs.token || secrets.GITHUB_TOKEN"),
+            ...stateEnv,
+          },
+        },
+        {
+          name: "Save context API cache",
+          uses: "actions/cache/save@v4",
+          with: {
+            path: "/tmp/api-cache",
+            key: `${apiCacheKey}${ghExpr("github.run_id")}`,
+          },
+          "continue-on-error": true,
+        },
+      );
+    }
+
+    // Install the provider CLI ahead of the run so its timeout only covers the agent
+    steps.push(...getProviderAdapter(agent.provider).generateInstallSteps());
+
+    // Chained agents fall back to the event payload their upstream agents ran with
+    const eventPayload = ghExpr(
+      [agentSlug, ...upstream]
+        .map((slug) => `needs.dispatcher.outputs.agent-${slug}-event-payload`)
+        .join(" || "),
+    );
+
+    const trackSpend = this.tracksSpend(agent);
+
+    // Agents with downstream agents write a handoff for them
+    const handoffArtifact = `agent-${agentSlug}-handoff`;
+    const hasDownstream = Array.from(this.upstream.values()).some((slugs) =>
+      slugs.includes(agentSlug),
+    );
+
     // Configure git identity and run agent
     steps.push(
       {
@@ -410,21 +648,65 @@ export class UnifiedWorkflowGenerator {
         "timeout-minutes": timeout.execution,
         env: {
           ...this.buildClaudeEnv(ghExpr),
-          EVENT_PAYLOAD: ghExpr(`needs.dispatcher.outputs.agent-${agentSlug}-event-payload`),
+          EVENT_PAYLOAD: eventPayload,
+          ...stateEnv,
+          ...(trackSpend && { TRACK_SPEND: "true" }),
+          ...(hasDownstream && { HANDOFF_ARTIFACT: handoffArtifact }),
         },
       },
     );
 
+    if (hasDownstream) {
+      steps.push({
+        name: "Upload handoff",
+        uses: "actions/upload-artifact@v4",
+        with: {
+          name: handoffArtifact,
+          path: `/tmp/artifacts/${handoffArtifact}/`,
+          "retention-days": "7",
+          "if-no-files-found": "ignore",
+        },
+      });
+    }
+
+    // Persist the run history for rate limits and `since: last-run`
+    if (stateBackend === "artifact") {
+      steps.push(this.generateStateUploadStep("Upload run history", agentSlug, "runs"));
+    }
+
+    // Persist spend history for the dispatcher's budget checks
+    if (trackSpend && stateBackend === "artifact") {
+      steps.push(this.generateStateUploadStep("Upload spend state", agentSlug, "spend"));
+    }
+
     // Execute outputs inline if agent has them (no separate job needed)
     if (agent.outputs && Object.keys(agent.outputs).length > 0) {
+      const deduplicateActions = !!agent.deduplication?.actions;
+      const needsApproval = this.hasApprovalOutputs(agent);
+
       steps.push({
         name: "Execute outputs",
         run: `bun run repo-agent run outputs --agent "${agent.name}"`,
         env: {
+          ...this.getCustomOutputSecrets(agent),
           GH_TOKEN: ghExpr("steps.app-token.outputs.token || secrets.GITHUB_TOKEN"),
-          EVENT_PAYLOAD: ghExpr(`needs.dispatcher.outputs.agent-${agentSlug}-event-payload`),
+          EVENT_PAYLOAD: eventPayload,
+          // Deduplication state and pending approvals are kept in the state store
+          ...((deduplicateActions || needsApproval) && stateEnv),
         },
       });
+
+      // Persist action deduplication state for the next run
+      if (deduplicateActions && stateBackend === "artifact") {
+        steps.push(
+          this.generateStateUploadStep("Upload deduplication state", agentSlug, "actions"),
+        );
+      }
+
+      // Persist the plan held for approval
+      if (needsApproval && stateBackend === "artifact") {
+        steps.push(this.generateApprovalUploadStep(agentSlug));
+      }
     }
 
     // Always upload audit metrics
@@ -439,15 +721,177 @@ export class UnifiedWorkflowGenerator {
       },
     });
 
+    // Upload the execution trace separately so it can be kept as long as configured
+    if (agent.tracing) {
+      steps.push({
+        if: "always()",
+        name: "Upload execution trace",
+        uses: "actions/upload-artifact@v4",
+        with: {
+          name: `agent-${agentSlug}-trace-${ghExpr("github.run_id")}`,
+          path: "/tmp/audit/traces/",
+          "retention-days": String(this.getTraceRetentionDays(agent.tracing.retention)),
+          "if-no-files-found": "ignore",
+        },
+      });
+    }
+
+    // Chained agents pass their own dispatcher validation and also wait for an upstream
+    // agent to succeed when the event did not match them directly
+    const shouldRun = `needs.dispatcher.outputs.agent-${agentSlug}-should-run == 'true'`;
+    const upstreamSucceeded = upstream
+      .map((slug) => `needs.agent-${slug}.result == 'success'`)
+      .join(" || ");
     return {
-      "runs-on": "ubuntu-latest",
-      needs: "dispatcher",
-      if: `needs.dispatcher.outputs.agent-${agentSlug}-should-run == 'true'`,
+      ...this.getRunnerFields(agent),
+      needs:
+        upstream.length > 0
+          ? ["dispatcher", ...upstream.map((slug) => `agent-${slug}`)]
+          : "dispatcher",
+      if:
+        upstream.length > 0
+          ? `!cancelled() && ${shouldRun} && (needs.dispatcher.outputs.agent-${agentSlug}-chained != 'true' || ${upstreamSucceeded})`
+          : shouldRun,
       "timeout-minutes": timeout.total,
       steps,
     };
   }
 
+  /**
+   * Generate the job that decides an agent's held plan on an /approve or /deny comment.
+   * The dispatcher only resumes it when the agent has a pending plan on the issue/PR.
+   */
+  private generateApprovalJob(agent: AgentDefinition, agentSlug: string): GitHubWorkflowJob {
+    const ghExpr = (expr: string) => `\${{ ${expr} }}`;
+    const stateBackend = this.getStateBackend();
+
+    const steps: WorkflowStep[] = [
+      {
+        uses: "actions/checkout@v4",
+      },
+      {
+        uses: "oven-sh/setup-bun@v2",
+      },
+      {
+        name: "Install dependencies",
+        run: "bun install --frozen-lockfile",
+      },
+      // Custom output scripts may rely on the agent's toolchain
+      ...(agent.runner?.setup_steps ?? []),
+      {
+        uses: "actions/create-github-app-token@v1",
+        id: "app-token",
+        with: {
+          "app-id": ghExpr("secrets.GH_APP_ID"),
+          "private-key": ghExpr("secrets.GH_APP_PRIVATE_KEY"),
+        },
+        "continue-on-error": true,
+      },
+      {
+        name: "Decide pending outputs",
+        run: `bun run repo-agent run approval --agent "${agent.name}"`,
+        env: {
+          ...this.getCustomOutputSecrets(agent),
+          GH_TOKEN: ghExpr("steps.app-token.outputs.token || secrets.GITHUB_TOKEN"),
+          ...(stateBackend !== "local" && { GITHUB_TOKEN: ghExpr("secrets.GITHUB_TOKEN") }),
+        },
+      },
+    ];
+
+    if (stateBackend === "artifact") {
+      steps.push(this.generateApprovalUploadStep(agentSlug));
+    }
+
+    // Approved actions are recorded for deduplication like those of the agent job
+    if (agent.deduplication?.actions && stateBackend === "artifact") {
+      steps.push(this.generateStateUploadStep("Upload deduplication state", agentSlug, "actions"));
+    }
+
+    // Approved outputs execute on the agent's runner, container and services, under its environment
+    return {
+      ...this.getRunnerFields(agent),
+      needs: "dispatcher",
+      if: `needs.dispatcher.outputs.agent-${agentSlug}-resume-approval == 'true'`,
+      steps,
+    };
+  }
+
+  /**
+   * Runner, container, service containers and environment of the agent's job
+   */
+  private getRunnerFields(
+    agent: AgentDefinition,
+  ): Pick<GitHubWorkflowJob, "runs-on" | "container" | "services" | "environment"> {
+    const runner = agent.runner ?? {};
+    return {
+      "runs-on": runner.runs_on ?? "ubuntu-latest",
+      ...(runner.container && { container: runner.container }),
+      ...(runner.services && { services: runner.services }),
+      ...(runner.environment && { environment: runner.environment }),
+    };
+  }
+
+  /**
+   * Secrets referenced by custom output HTTP headers, mapped into the environment of the
+   * steps that execute outputs under their own names
+   */
+  private getCustomOutputSecrets(agent: AgentDefinition): Record<string, string> {
+    const ghExpr = (expr: string) => `\${{ ${expr} }}`;
+    const secrets: Record<string, string> = {};
+    for (const config of Object.values(agent.custom_outputs ?? {})) {
+      for (const value of Object.values(config.http?.headers ?? {})) {
+        for (const [, name] of value.matchAll(/\$\{\{\s*secrets\.(\w+)\s*\}\}/g)) {
+          secrets[name] = ghExpr(`secrets.${name}`);
+        }
+      }
+    }
+    return secrets;
+  }
+
+  /**
+   * Whether any of the agent's outputs waits for approval
+   */
+  private hasApprovalOutputs(agent: AgentDefinition): boolean {
+    return Object.values(agent.outputs ?? {}).some(
+      (config) => typeof config === "object" && !!config.approval,
+    );
+  }
+
+  /**
+   * Upload the plan held for approval, kept per issue/PR
+   */
+  private generateApprovalUploadStep(agentSlug: string): WorkflowStep {
+    const number = "${{ github.event.issue.number || github.event.pull_request.number }}";
+    return this.generateStateUploadStep("Upload approval state", agentSlug, `approval-${number}`);
+  }
+
+  /**
+   * Backend of the state store (deduplication records and run history)
+   */
+  private getStateBackend(): StateBackend {
+    return this.repositoryConfig.state?.backend ?? "artifact";
+  }
+
+  /**
+   * Upload one value of the artifact state store. The runtime writes it to
+   * /tmp/artifacts/agent-{slug}-{key}-state/ and downloads the newest upload on the next run.
+   */
+  private generateStateUploadStep(name: string, agentSlug: string, key: string): WorkflowStep {
+    const artifactName = `agent-${agentSlug}-${key}-state`;
+    return {
+      if: "always()",
+      name,
+      uses: "actions/upload-artifact@v4",
+      with: {
+        name: artifactName,
+        path: `/tmp/artifacts/${artifactName}/`,
+        "retention-days": "90",
+        "if-no-files-found": "ignore",
+        overwrite: true,
+      },
+    };
+  }
+
   /**
    * Generate audit report job - single job that processes all agents
    * Downloads all audit artifacts, builds manifests, writes to GITHUB_STEP_SUMMARY
@@ -466,6 +910,7 @@ export class UnifiedWorkflowGenerator {
       outputs: {
         "has-failures": ghExpr("steps.report.outputs.has-failures"),
         "failed-agents": ghExpr("steps.report.outputs.failed-agents"),
+        "audited-agents": ghExpr("steps.report.outputs.audited-agents"),
       },
       steps: [
         {
@@ -517,8 +962,8 @@ export class UnifiedWorkflowGenerator {
   }
 
   /**
-   * Generate audit issues job - matrix job for each failed agent
-   * Creates or updates GitHub issues for failures
+   * Generate audit issues job - matrix job for each audited agent
+   * Creates or updates GitHub issues for failures, and closes them once the agent recovers
    */
   private generateAuditIssuesJob(_agents: AgentDefinition[]): GitHubWorkflowJob {
     const ghExpr = (expr: string) => `\${{ ${expr} }}`;
@@ -526,10 +971,10 @@ export class UnifiedWorkflowGenerator {
     return {
       "runs-on": "ubuntu-latest",
       needs: ["audit-report"],
-      if: `always() && needs.audit-report.outputs.has-failures == 'true'`,
+      if: `always() && needs.audit-report.result == 'success' && needs.audit-report.outputs.audited-agents != '[]'`,
       strategy: {
         matrix: {
-          agent: ghExpr("fromJSON(needs.audit-report.outputs.failed-agents)"),
+          agent: ghExpr("fromJSON(needs.audit-report.outputs.audited-agents)"),
         },
         "fail-fast": false,
       },
@@ -562,7 +1007,7 @@ export class UnifiedWorkflowGenerator {
           },
         },
         {
-          name: "Create failure issue",
+          name: "Update failure issues",
           run: `bun run repo-agent run audit-issues --agent "${ghExpr("matrix.agent")}"`,
           env: {
             GH_TOKEN: ghExpr("steps.app-token.outputs.token || secrets.GITHUB_TOKEN"),
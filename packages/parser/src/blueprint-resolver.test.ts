@@ -0,0 +1,167 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { resolveExtends } from "./blueprint-resolver";
+
+const BASE = `---
+blueprint:
+  name: base
+  version: "1.0.0"
+  parameters:
+    - name: greeting
+      type: string
+      default: Hello
+on:
+  issues:
+    types: [opened]
+permissions:
+  issues: write
+outputs:
+  add-comment: true
+---
+
+{{ parameters.greeting }} from the base.`;
+
+const TRIAGE = `---
+blueprint:
+  name: triage
+  version: "2.1.0"
+  extends: ./base.md
+  parameters:
+    - name: team
+      type: string
+      description: Team that owns triaged issues
+      required: true
+    - name: labels
+      type: array
+      default: ["bug"]
+name: Triage for {{ parameters.team }}
+outputs:
+  add-label: true
+---
+
+Label issues with {{ parameters.labels }}.`;
+
+describe("resolveExtends", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "blueprint-resolver-test-"));
+    writeFileSync(join(tempDir, "base.md"), BASE);
+    writeFileSync(join(tempDir, "triage.md"), TRIAGE);
+  });
+
+  test("should resolve an extends chain with parameters applied", async () => {
+    const { resolved, errors } = await resolveExtends(
+      { extends: "./triage.md", parameters: { team: "core" } },
+      "",
+      { basePath: tempDir },
+    );
+
+    expect(errors).toHaveLength(0);
+    expect(resolved?.source).toBe("./triage.md");
+    expect(resolved?.metadata.name).toBe("triage");
+    expect(resolved?.parameters).toEqual({ team: "core", labels: ["bug"], greeting: "Hello" });
+    expect(resolved?.frontmatter).toEqual({
+      name: "Triage for core",
+      on: { issues: { types: ["opened"] } },
+      permissions: { issues: "write" },
+      outputs: { "add-comment": true, "add-label": true },
+    });
+    expect(resolved?.markdown).toBe('Hello from the base.\n\nLabel issues with ["bug"].');
+  });
+
+  test("should merge agent overrides and append agent instructions", async () => {
+    const { resolved } = await resolveExtends(
+      {
+        extends: "./triage.md",
+        parameters: { team: "core", greeting: "Hi" },
+        name: "Custom Triage",
+        outputs: { "add-comment": { max: 1 } },
+      },
+      "Be brief.",
+      { basePath: tempDir },
+    );
+
+    expect(resolved?.frontmatter.name).toBe("Custom Triage");
+    expect(resolved?.frontmatter.outputs).toEqual({
+      "add-comment": { max: 1 },
+      "add-label": true,
+    });
+    expect(resolved?.markdown).toBe('Hi from the base.\n\nLabel issues with ["bug"].\n\nBe brief.');
+  });
+
+  test("should explain missing required parameters", async () => {
+    const { resolved, errors } = await resolveExtends({ extends: "./triage.md" }, "", {
+      basePath: tempDir,
+    });
+
+    expect(resolved).toBeUndefined();
+    expect(errors).toEqual([
+      {
+        field: "parameters.team",
+        message:
+          "Missing required parameter 'team' for blueprint 'triage@2.1.0' (Team that owns triaged issues). Add it under 'parameters:' in the agent frontmatter",
+        severity: "error",
+      },
+    ]);
+  });
+
+  test("should report placeholders without a value", async () => {
+    writeFileSync(
+      join(tempDir, "optional.md"),
+      `---\nblueprint:\n  name: optional\n  version: "1.0.0"\n  parameters:\n    - name: owner\n      type: string\n---\n\nAssign to {{ parameters.owner }}`,
+    );
+
+    const { errors } = await resolveExtends({ extends: "./optional.md" }, "", {
+      basePath: tempDir,
+    });
+
+    expect(errors[0].field).toBe("parameters.owner");
+    expect(errors[0].message).toContain("no value was provided");
+  });
+
+  test("should warn about unknown parameters", async () => {
+    const { resolved, errors } = await resolveExtends(
+      { extends: "./triage.md", parameters: { team: "core", colour: "blue" } },
+      "",
+      { basePath: tempDir },
+    );
+
+    expect(resolved).toBeDefined();
+    expect(errors).toEqual([
+      {
+        field: "parameters.colour",
+        message: "Unknown parameter 'colour': blueprint 'triage@2.1.0' does not declare it",
+        severity: "warning",
+      },
+    ]);
+  });
+
+  test("should detect circular extends", async () => {
+    writeFileSync(
+      join(tempDir, "a.md"),
+      `---\nblueprint:\n  name: a\n  version: "1.0.0"\n  extends: ./b.md\n---\n\nA`,
+    );
+    writeFileSync(
+      join(tempDir, "b.md"),
+      `---\nblueprint:\n  name: b\n  version: "1.0.0"\n  extends: ./a.md\n---\n\nB`,
+    );
+
+    const { errors } = await resolveExtends({ extends: "./a.md" }, "", { basePath: tempDir });
+
+    expect(errors[0].field).toBe("extends");
+    expect(errors[0].message).toBe("Circular blueprint extends: ./a.md -> ./b.md -> ./a.md");
+  });
+
+  test("should report sources that are not blueprints", async () => {
+    writeFileSync(join(tempDir, "agent.md"), "---\nname: Agent\n---\n\nNot a blueprint");
+
+    const { errors } = await resolveExtends({ extends: "./agent.md" }, "", {
+      basePath: tempDir,
+    });
+
+    expect(errors[0].message).toContain("./agent.md: Blueprint metadata is required");
+  });
+});
@@ -0,0 +1,238 @@
+import type {
+  BlueprintDefinition,
+  BlueprintMetadata,
+  BlueprintParameter,
+  ValidationError,
+} from "@repo-agents/types";
+import {
+  applyTemplate,
+  applyTemplateToObject,
+  mergeWithDefaults,
+  parseBlueprintContent,
+  parseBlueprintInstance,
+  validateParameters,
+} from "./blueprint";
+import {
+  type BlueprintSourceOptions,
+  type LoadedBlueprintSource,
+  loadBlueprintSource,
+  resolveNestedSource,
+} from "./blueprint-sources";
+
+/** Maximum depth of an extends chain, guards against runaway inheritance */
+const MAX_EXTENDS_DEPTH = 10;
+
+/** Matches placeholders left behind by applyTemplate */
+const UNRESOLVED_PARAMETER = /\{\{\s*parameters\.(\w+)\s*\}\}/g;
+
+export interface ResolvedExtends {
+  /** Blueprint source as written in the agent's `extends` */
+  source: string;
+  /** Metadata of the extended blueprint, with parameters inherited along the chain */
+  metadata: BlueprintMetadata;
+  /** Parameter values after applying defaults */
+  parameters: Record<string, unknown>;
+  /** Agent frontmatter with the blueprint applied and agent overrides merged in */
+  frontmatter: Record<string, unknown>;
+  /** Blueprint instructions followed by the agent's own instructions */
+  markdown: string;
+}
+
+/**
+ * Resolve the `extends` of an agent: load the blueprint chain, check and apply parameters,
+ * and merge the agent's own frontmatter and instructions on top.
+ */
+export async function resolveExtends(
+  frontmatter: Record<string, unknown>,
+  markdown: string,
+  options: BlueprintSourceOptions = {},
+): Promise<{ resolved?: ResolvedExtends; errors: ValidationError[] }> {
+  const { extends: source, parameters, ...overrides } = frontmatter;
+
+  const { instance, errors: instanceErrors } = parseBlueprintInstance({
+    extends: source,
+    parameters,
+  });
+  if (!instance) {
+    return { errors: instanceErrors };
+  }
+
+  const { chain, errors: chainErrors } = await loadChain(instance.extends, options);
+  if (!chain) {
+    return { errors: chainErrors };
+  }
+
+  const blueprint = mergeChain(chain);
+  const label = `${blueprint.blueprint.name}@${blueprint.blueprint.version}`;
+  const provided = instance.parameters ?? {};
+
+  const errors = validateParameters(blueprint.blueprint, provided).map((error) =>
+    describeParameterError(error, blueprint.blueprint, label),
+  );
+  const declared = new Set(blueprint.blueprint.parameters.map((p) => p.name));
+  for (const name of Object.keys(provided)) {
+    if (!declared.has(name)) {
+      errors.push({
+        field: `parameters.${name}`,
+        message: `Unknown parameter '${name}': blueprint '${label}' does not declare it`,
+        severity: "warning",
+      });
+    }
+  }
+  if (errors.some((e) => e.severity === "error")) {
+    return { errors };
+  }
+
+  const values = mergeWithDefaults(blueprint.blueprint, provided);
+  const templatedFrontmatter = applyTemplateToObject(blueprint.frontmatter, values);
+  const templatedMarkdown = applyTemplate(blueprint.markdown, values);
+
+  const unresolved = new Set<string>();
+  for (const text of [JSON.stringify(templatedFrontmatter), templatedMarkdown]) {
+    for (const match of text.matchAll(UNRESOLVED_PARAMETER)) {
+      unresolved.add(match[1]);
+    }
+  }
+  for (const name of unresolved) {
+    errors.push({
+      field: `parameters.${name}`,
+      message: `Blueprint '${label}' uses parameter '${name}' but no value was provided. Add it under 'parameters:' in the agent frontmatter`,
+      severity: "error",
+    });
+  }
+  if (unresolved.size > 0) {
+    return { errors };
+  }
+
+  return {
+    resolved: {
+      source: instance.extends,
+      metadata: blueprint.blueprint,
+      parameters: values,
+      frontmatter: deepMerge(templatedFrontmatter, overrides),
+      markdown: [templatedMarkdown, markdown.trim()].filter(Boolean).join("\n\n"),
+    },
+    errors,
+  };
+}
+
+/**
+ * Load a blueprint and everything it extends, from the directly extended blueprint to the root.
+ */
+async function loadChain(
+  source: string,
+  options: BlueprintSourceOptions,
+): Promise<{ chain?: BlueprintDefinition[]; errors: ValidationError[] }> {
+  const chain: BlueprintDefinition[] = [];
+  const visited: string[] = [];
+  let next: { source: string; basePath?: string } | undefined = {
+    source,
+    basePath: options.basePath,
+  };
+
+  while (next) {
+    if (visited.includes(next.source)) {
+      return extendsError(`Circular blueprint extends: ${[...visited, next.source].join(" -> ")}`);
+    }
+    if (visited.length >= MAX_EXTENDS_DEPTH) {
+      return extendsError(`Blueprint extends chain is deeper than ${MAX_EXTENDS_DEPTH} levels`);
+    }
+    visited.push(next.source);
+
+    let loaded: LoadedBlueprintSource;
+    try {
+      loaded = await loadBlueprintSource(next.source, { ...options, basePath: next.basePath });
+    } catch (error) {
+      return extendsError((error as Error).message);
+    }
+
+    const { blueprint, errors } = parseBlueprintContent(loaded.content);
+    if (!blueprint) {
+      return {
+        errors: errors.map((error) => ({
+          ...error,
+          message: `${next?.source}: ${error.message}`,
+        })),
+      };
+    }
+    chain.push(blueprint);
+
+    next = blueprint.blueprint.extends
+      ? resolveNestedSource(blueprint.blueprint.extends, loaded.origin)
+      : undefined;
+  }
+
+  return { chain, errors: [] };
+}
+
+/**
+ * Flatten a blueprint chain into one blueprint. Children override their parents:
+ * frontmatter is deep-merged, parameters are merged by name and instructions are concatenated.
+ */
+function mergeChain(chain: BlueprintDefinition[]): BlueprintDefinition {
+  const [child, ...ancestors] = chain;
+  let merged = child;
+
+  for (const parent of ancestors) {
+    const parameters = new Map<string, BlueprintParameter>();
+    for (const param of [...parent.blueprint.parameters, ...merged.blueprint.parameters]) {
+      parameters.set(param.name, param);
+    }
+
+    merged = {
+      blueprint: { ...merged.blueprint, parameters: [...parameters.values()] },
+      frontmatter: deepMerge(parent.frontmatter, merged.frontmatter),
+      markdown: [parent.markdown, merged.markdown].filter(Boolean).join("\n\n"),
+    };
+  }
+
+  return merged;
+}
+
+/**
+ * Merge two plain objects recursively. Arrays and scalars from `override` replace `base`.
+ */
+function deepMerge(
+  base: Record<string, unknown>,
+  override: Record<string, unknown>,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...base };
+
+  for (const [key, value] of Object.entries(override)) {
+    const existing = result[key];
+    result[key] =
+      isPlainObject(existing) && isPlainObject(value) ? deepMerge(existing, value) : value;
+  }
+
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Point parameter errors at the blueprint and tell the user where to fix them.
+ */
+function describeParameterError(
+  error: ValidationError,
+  metadata: BlueprintMetadata,
+  label: string,
+): ValidationError {
+  const name = error.field.replace(/^parameters\./, "");
+  const param = metadata.parameters.find((p) => p.name === name);
+  const description = param?.description ? ` (${param.description})` : "";
+
+  if (error.message.endsWith("is missing")) {
+    return {
+      ...error,
+      message: `Missing required parameter '${name}' for blueprint '${label}'${description}. Add it under 'parameters:' in the agent frontmatter`,
+    };
+  }
+
+  return { ...error, message: `${error.message} (blueprint '${label}')` };
+}
+
+function extendsError(message: string): { errors: ValidationError[] } {
+  return { errors: [{ field: "extends", message, severity: "error" }] };
+}
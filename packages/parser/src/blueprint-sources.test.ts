@@ -0,0 +1,245 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  BLUEPRINT_LOCKFILE,
+  CATALOG_DIR,
+  computeIntegrity,
+  findCatalogEntry,
+  loadBlueprintSource,
+  loadCatalog,
+  resolveNestedSource,
+  satisfiesVersion,
+} from "./blueprint-sources";
+
+const BLUEPRINT = `---
+blueprint:
+  name: remote
+  version: "1.0.0"
+on:
+  issues:
+    types: [opened]
+---
+
+Remote instructions`;
+
+/**
+ * Fake GitHub: answers commit lookups with a fixed SHA and serves BLUEPRINT at that commit.
+ */
+function fakeGitHub(content = BLUEPRINT) {
+  const requests: string[] = [];
+  const fetchFn = (async (input: string | URL | Request) => {
+    const url = String(input);
+    requests.push(url);
+    if (url.startsWith("https://api.github.com/repos/org/repo/commits/")) {
+      return new Response("abc123\n");
+    }
+    if (url === "https://raw.githubusercontent.com/org/repo/abc123/blueprints/triage.md") {
+      return new Response(content);
+    }
+    return new Response("Not Found", { status: 404 });
+  }) as typeof fetch;
+  return { fetchFn, requests };
+}
+
+describe("satisfiesVersion", () => {
+  test("should match any version for latest", () => {
+    expect(satisfiesVersion("2.3.4", "latest")).toBe(true);
+    expect(satisfiesVersion("2.3.4", undefined)).toBe(true);
+  });
+
+  test("should match by major version prefix", () => {
+    expect(satisfiesVersion("1.4.0", "v1")).toBe(true);
+    expect(satisfiesVersion("2.0.0", "v1")).toBe(false);
+  });
+
+  test("should match by minor version prefix", () => {
+    expect(satisfiesVersion("1.4.2", "1.4")).toBe(true);
+    expect(satisfiesVersion("1.5.0", "1.4")).toBe(false);
+  });
+
+  test("should match exact versions", () => {
+    expect(satisfiesVersion("1.4.2", "1.4.2")).toBe(true);
+    expect(satisfiesVersion("1.4.3", "v1.4.2")).toBe(false);
+  });
+});
+
+describe("catalog", () => {
+  let catalogDir: string;
+
+  beforeEach(() => {
+    catalogDir = mkdtempSync(join(tmpdir(), "catalog-test-"));
+    mkdirSync(join(catalogDir, "issues"));
+    writeFileSync(
+      join(catalogDir, "issues", "standard-triage.md"),
+      `---\nblueprint:\n  name: standard-triage\n  version: "1.2.0"\n---\n\nTriage`,
+    );
+    writeFileSync(
+      join(catalogDir, "issues", "plain-agent.md"),
+      "---\nname: Plain\n---\n\nInstructions",
+    );
+    writeFileSync(join(catalogDir, "issues", "overview.md"), "# Docs only, no frontmatter");
+  });
+
+  test("should list entries with frontmatter", async () => {
+    const catalog = await loadCatalog(catalogDir);
+
+    expect(catalog.map((e) => [e.name, e.version])).toEqual([
+      ["plain-agent", "1.0.0"],
+      ["standard-triage", "1.2.0"],
+    ]);
+  });
+
+  test("should find an entry satisfying the requested version", async () => {
+    const entry = await findCatalogEntry("standard-triage", "v1", catalogDir);
+
+    expect(entry.path).toBe(join(catalogDir, "issues", "standard-triage.md"));
+  });
+
+  test("should reject an unsatisfied version", async () => {
+    await expect(findCatalogEntry("standard-triage", "v2", catalogDir)).rejects.toThrow(
+      "does not satisfy @v2",
+    );
+  });
+
+  test("should list available entries for an unknown name", async () => {
+    await expect(findCatalogEntry("missing", "latest", catalogDir)).rejects.toThrow(
+      "Available: plain-agent, standard-triage",
+    );
+  });
+
+  test("should ship the agents library as the default catalog", async () => {
+    const catalog = await loadCatalog(CATALOG_DIR);
+
+    expect(catalog.some((e) => e.name === "issue-triage")).toBe(true);
+  });
+
+  test("should load catalog sources", async () => {
+    const loaded = await loadBlueprintSource("catalog:standard-triage@v1", { catalogDir });
+
+    expect(loaded.content).toContain("name: standard-triage");
+    expect(loaded.origin).toEqual({ type: "local", basePath: join(catalogDir, "issues") });
+  });
+});
+
+describe("loadBlueprintSource", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "blueprint-sources-test-"));
+  });
+
+  test("should load local sources relative to the base path", async () => {
+    writeFileSync(join(tempDir, "base.md"), BLUEPRINT);
+
+    const loaded = await loadBlueprintSource("./base.md", { basePath: tempDir });
+
+    expect(loaded.content).toBe(BLUEPRINT);
+    expect(loaded.origin).toEqual({ type: "local", basePath: tempDir });
+  });
+
+  test("should fail for missing local sources", async () => {
+    await expect(loadBlueprintSource("./missing.md", { basePath: tempDir })).rejects.toThrow(
+      "Blueprint file not found",
+    );
+  });
+
+  test("should require GitHub sources to pin a ref", async () => {
+    await expect(loadBlueprintSource("github.com/org/repo/blueprints/triage.md")).rejects.toThrow(
+      "must pin a ref",
+    );
+  });
+
+  test("should refuse unpinned GitHub sources when the lockfile is frozen", async () => {
+    const { fetchFn, requests } = fakeGitHub();
+
+    await expect(
+      loadBlueprintSource("github.com/org/repo/blueprints/triage.md@v1", {
+        basePath: tempDir,
+        fetch: fetchFn,
+      }),
+    ).rejects.toThrow("is not pinned");
+    expect(requests).toHaveLength(0);
+  });
+
+  test("should pin GitHub sources in the lockfile", async () => {
+    const { fetchFn } = fakeGitHub();
+    const source = "github.com/org/repo/blueprints/triage.md@v1";
+
+    const loaded = await loadBlueprintSource(source, {
+      basePath: tempDir,
+      fetch: fetchFn,
+      updateLockfile: true,
+    });
+
+    expect(loaded.content).toBe(BLUEPRINT);
+    const lockfile = JSON.parse(readFileSync(join(tempDir, BLUEPRINT_LOCKFILE), "utf-8"));
+    expect(lockfile.blueprints[source]).toEqual({
+      commit: "abc123",
+      integrity: computeIntegrity(BLUEPRINT),
+    });
+  });
+
+  test("should fetch pinned GitHub sources at the locked commit", async () => {
+    const { fetchFn, requests } = fakeGitHub();
+    const source = "github.com/org/repo/blueprints/triage.md@v1";
+    writeFileSync(
+      join(tempDir, BLUEPRINT_LOCKFILE),
+      JSON.stringify({
+        version: 1,
+        blueprints: { [source]: { commit: "abc123", integrity: computeIntegrity(BLUEPRINT) } },
+      }),
+    );
+
+    const loaded = await loadBlueprintSource(source, { basePath: tempDir, fetch: fetchFn });
+
+    expect(loaded.content).toBe(BLUEPRINT);
+    expect(requests).toEqual([
+      "https://raw.githubusercontent.com/org/repo/abc123/blueprints/triage.md",
+    ]);
+  });
+
+  test("should reject pinned GitHub sources whose content changed", async () => {
+    const { fetchFn } = fakeGitHub("tampered");
+    const source = "github.com/org/repo/blueprints/triage.md@v1";
+    writeFileSync(
+      join(tempDir, BLUEPRINT_LOCKFILE),
+      JSON.stringify({
+        version: 1,
+        blueprints: { [source]: { commit: "abc123", integrity: computeIntegrity(BLUEPRINT) } },
+      }),
+    );
+
+    await expect(
+      loadBlueprintSource(source, { basePath: tempDir, fetch: fetchFn }),
+    ).rejects.toThrow("Integrity check failed");
+  });
+});
+
+describe("resolveNestedSource", () => {
+  test("should resolve relative sources against a local parent", () => {
+    expect(resolveNestedSource("./parent.md", { type: "local", basePath: "/bp" })).toEqual({
+      source: "./parent.md",
+      basePath: "/bp",
+    });
+  });
+
+  test("should resolve relative sources inside the same GitHub repository and ref", () => {
+    const nested = resolveNestedSource("../shared/base.md", {
+      type: "github",
+      source: "github.com/org/repo/blueprints/triage.md@v1",
+    });
+
+    expect(nested.source).toBe("github.com/org/repo/shared/base.md@v1");
+  });
+
+  test("should leave absolute sources untouched", () => {
+    const nested = resolveNestedSource("catalog:standard-triage@v1", {
+      type: "github",
+      source: "github.com/org/repo/blueprints/triage.md@v1",
+    });
+
+    expect(nested.source).toBe("catalog:standard-triage@v1");
+  });
+});
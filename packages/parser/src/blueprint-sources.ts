@@ -0,0 +1,304 @@
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import { basename, dirname, join, posix } from "node:path";
+import matter from "gray-matter";
+import { resolveBlueprintSource } from "./blueprint";
+
+/** Directory holding the packaged blueprint catalog (the agents/ library) */
+export const CATALOG_DIR = join(__dirname, "../../../agents");
+
+/** Lockfile that pins GitHub blueprint sources, stored next to the agent files */
+export const BLUEPRINT_LOCKFILE = "blueprints.lock.json";
+
+/** Version assumed for catalog entries that carry no blueprint metadata */
+const DEFAULT_CATALOG_VERSION = "1.0.0";
+
+export interface BlueprintSourceOptions {
+  /** Directory that relative local sources are resolved against */
+  basePath?: string;
+  /** Directory holding the catalog (defaults to CATALOG_DIR) */
+  catalogDir?: string;
+  /** Lockfile pinning GitHub sources (defaults to BLUEPRINT_LOCKFILE in basePath) */
+  lockfilePath?: string;
+  /** Pin unlocked GitHub sources instead of failing (should be off in CI) */
+  updateLockfile?: boolean;
+  /** Fetch implementation used for GitHub sources */
+  fetch?: typeof fetch;
+}
+
+export interface LoadedBlueprintSource {
+  /** Blueprint file content */
+  content: string;
+  /** Source that nested relative `extends` should be resolved against */
+  origin: { type: "local"; basePath: string } | { type: "github"; source: string };
+}
+
+export interface CatalogEntry {
+  name: string;
+  version: string;
+  path: string;
+}
+
+export interface BlueprintLockfile {
+  version: 1;
+  blueprints: Record<string, { commit: string; integrity: string }>;
+}
+
+/**
+ * Load the content of a blueprint source (local path, catalog entry or pinned GitHub ref).
+ * Throws with a user-facing message when the source cannot be loaded.
+ */
+export async function loadBlueprintSource(
+  source: string,
+  options: BlueprintSourceOptions = {},
+): Promise<LoadedBlueprintSource> {
+  const resolved = resolveBlueprintSource(source, options.basePath);
+
+  switch (resolved.type) {
+    case "catalog": {
+      const entry = await findCatalogEntry(
+        resolved.path,
+        resolved.version,
+        options.catalogDir ?? CATALOG_DIR,
+      );
+      return {
+        content: await readFile(entry.path, "utf-8"),
+        origin: { type: "local", basePath: dirname(entry.path) },
+      };
+    }
+    case "github": {
+      if (!resolved.version) {
+        throw new Error(`GitHub blueprint '${source}' must pin a ref (e.g. ${source}@v1)`);
+      }
+      return {
+        content: await loadGitHubSource(source, resolved.path, options),
+        origin: { type: "github", source },
+      };
+    }
+    default: {
+      if (!existsSync(resolved.path)) {
+        throw new Error(`Blueprint file not found: ${resolved.path}`);
+      }
+      return {
+        content: await readFile(resolved.path, "utf-8"),
+        origin: { type: "local", basePath: dirname(resolved.path) },
+      };
+    }
+  }
+}
+
+/**
+ * Resolve a nested `extends` against the blueprint that declared it.
+ * Relative paths inside a GitHub blueprint point at the same repository and ref.
+ */
+export function resolveNestedSource(
+  source: string,
+  origin: LoadedBlueprintSource["origin"],
+): { source: string; basePath?: string } {
+  const isRelative = source.startsWith("./") || source.startsWith("../");
+
+  if (origin.type === "github" && isRelative) {
+    const parent = resolveBlueprintSource(origin.source);
+    const [owner, repo, ...rest] = parent.path.split("/");
+    const dir = posix.dirname(rest.join("/"));
+    const path = posix.normalize(posix.join(dir, source));
+    return { source: `github.com/${owner}/${repo}/${path}@${parent.version}` };
+  }
+
+  return { source, basePath: origin.type === "local" ? origin.basePath : undefined };
+}
+
+/**
+ * List the blueprints available in the catalog.
+ * Every markdown file with frontmatter is an entry, named after its file.
+ */
+export async function loadCatalog(catalogDir: string = CATALOG_DIR): Promise<CatalogEntry[]> {
+  if (!existsSync(catalogDir)) {
+    return [];
+  }
+
+  const entries: CatalogEntry[] = [];
+  for (const path of await findMarkdown(catalogDir)) {
+    let data: Record<string, unknown>;
+    try {
+      data = matter(await readFile(path, "utf-8")).data;
+    } catch {
+      continue;
+    }
+    if (Object.keys(data).length === 0) {
+      continue;
+    }
+
+    const metadata = data.blueprint as { version?: unknown } | undefined;
+    entries.push({
+      name: basename(path, ".md"),
+      version: typeof metadata?.version === "string" ? metadata.version : DEFAULT_CATALOG_VERSION,
+      path,
+    });
+  }
+
+  return entries.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Find a catalog entry by name whose version satisfies the requested one.
+ * `latest` matches any version; `v1` and `1.2` match by prefix; full versions match exactly.
+ */
+export async function findCatalogEntry(
+  name: string,
+  version: string | undefined,
+  catalogDir: string = CATALOG_DIR,
+): Promise<CatalogEntry> {
+  const catalog = await loadCatalog(catalogDir);
+  const entry = catalog.find((e) => e.name === name);
+
+  if (!entry) {
+    const available = catalog.map((e) => e.name).join(", ") || "none";
+    throw new Error(`Unknown catalog blueprint '${name}'. Available: ${available}`);
+  }
+
+  if (!satisfiesVersion(entry.version, version)) {
+    throw new Error(
+      `Catalog blueprint '${name}' is version ${entry.version}, which does not satisfy @${version}`,
+    );
+  }
+
+  return entry;
+}
+
+/**
+ * Check whether a semver version satisfies a requested catalog version.
+ */
+export function satisfiesVersion(actual: string, requested: string | undefined): boolean {
+  if (!requested || requested === "latest") {
+    return true;
+  }
+
+  const wanted = requested.replace(/^v/, "").split(".");
+  const have = actual.split(".");
+  return wanted.every((part, i) => have[i] === part);
+}
+
+/**
+ * Read the blueprint lockfile. Returns an empty lockfile if none exists.
+ */
+export async function readLockfile(path: string): Promise<BlueprintLockfile> {
+  if (!existsSync(path)) {
+    return { version: 1, blueprints: {} };
+  }
+
+  try {
+    const lockfile = JSON.parse(await readFile(path, "utf-8"));
+    return { version: 1, blueprints: lockfile.blueprints ?? {} };
+  } catch (error) {
+    throw new Error(`Invalid blueprint lockfile ${path}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Compute the integrity string recorded in the lockfile for blueprint content.
+ */
+export function computeIntegrity(content: string): string {
+  return `sha256-${createHash("sha256").update(content).digest("base64")}`;
+}
+
+/**
+ * Load a GitHub blueprint at the commit pinned in the lockfile, pinning it first if allowed.
+ */
+async function loadGitHubSource(
+  source: string,
+  path: string,
+  options: BlueprintSourceOptions,
+): Promise<string> {
+  const [owner, repo, ...rest] = path.split("/");
+  const filePath = rest.join("/");
+  if (!owner || !repo || !filePath) {
+    throw new Error(
+      `Invalid GitHub blueprint '${source}' (expected github.com/owner/repo/path@ref)`,
+    );
+  }
+
+  const fetchFn = options.fetch ?? fetch;
+  const lockfilePath = options.lockfilePath ?? join(options.basePath ?? ".", BLUEPRINT_LOCKFILE);
+  const lockfile = await readLockfile(lockfilePath);
+  const pinned = lockfile.blueprints[source];
+
+  if (pinned) {
+    const content = await fetchGitHubFile(fetchFn, owner, repo, pinned.commit, filePath);
+    if (computeIntegrity(content) !== pinned.integrity) {
+      throw new Error(
+        `Integrity check failed for '${source}' at ${pinned.commit}. Remove its entry from ${lockfilePath} to re-pin it`,
+      );
+    }
+    return content;
+  }
+
+  if (!options.updateLockfile) {
+    throw new Error(
+      `GitHub blueprint '${source}' is not pinned in ${lockfilePath}. Run 'repo-agents validate' locally to pin it`,
+    );
+  }
+
+  const ref = resolveBlueprintSource(source).version as string;
+  const commit = await resolveGitHubCommit(fetchFn, owner, repo, ref);
+  const content = await fetchGitHubFile(fetchFn, owner, repo, commit, filePath);
+
+  lockfile.blueprints[source] = { commit, integrity: computeIntegrity(content) };
+  await writeFile(lockfilePath, `${JSON.stringify(lockfile, null, 2)}\n`);
+
+  return content;
+}
+
+async function resolveGitHubCommit(
+  fetchFn: typeof fetch,
+  owner: string,
+  repo: string,
+  ref: string,
+): Promise<string> {
+  const response = await fetchFn(
+    `https://api.github.com/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`,
+    { headers: { ...githubAuthHeaders(), Accept: "application/vnd.github.sha" } },
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to resolve ${owner}/${repo}@${ref}: HTTP ${response.status}`);
+  }
+  return (await response.text()).trim();
+}
+
+async function fetchGitHubFile(
+  fetchFn: typeof fetch,
+  owner: string,
+  repo: string,
+  commit: string,
+  filePath: string,
+): Promise<string> {
+  const response = await fetchFn(
+    `https://raw.githubusercontent.com/${owner}/${repo}/${commit}/${filePath}`,
+    { headers: githubAuthHeaders() },
+  );
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch ${filePath} from ${owner}/${repo}@${commit}: HTTP ${response.status}`,
+    );
+  }
+  return response.text();
+}
+
+function githubAuthHeaders(): Record<string, string> {
+  const token = process.env.GH_TOKEN || process.env.GITHUB_TOKEN;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+async function findMarkdown(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await findMarkdown(path)));
+    } else if (entry.name.endsWith(".md") && entry.name !== "README.md") {
+      files.push(path);
+    }
+  }
+  return files;
+}
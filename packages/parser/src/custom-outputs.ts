@@ -0,0 +1,23 @@
+import { type ZodType, z } from "zod";
+
+/**
+ * Compile the JSON schema of a custom output.
+ * @throws Error if the schema uses a keyword that is not supported
+ */
+export function compileCustomOutputSchema(schema: Record<string, unknown>): ZodType {
+  return z.fromJSONSchema(schema as z.core.JSONSchema.JSONSchema);
+}
+
+/**
+ * Validate the data of a custom output file against its JSON schema.
+ * Returns one message per problem, or an empty list when the data is valid.
+ */
+export function validateCustomOutputData(schema: Record<string, unknown>, data: unknown): string[] {
+  const result = compileCustomOutputSchema(schema).safeParse(data);
+  if (result.success) {
+    return [];
+  }
+  return result.error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message,
+  );
+}
@@ -1,5 +1,5 @@
 import { beforeEach, describe, expect, it } from "bun:test";
-import { mkdtempSync, writeFileSync } from "node:fs";
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { AgentParser } from "./index";
@@ -122,6 +122,296 @@ Dispatch instructions`;
         expect(result.agent?.on.repository_dispatch?.types).toEqual(["custom-event"]);
       });
 
+      it("should parse agent with push, release and workflow_run triggers", () => {
+        const content = `---
+name: Repository Event Agent
+on:
+  push:
+    branches: [main]
+    paths: ["docs/**"]
+  release:
+    types: [published]
+  workflow_run:
+    workflows: [CI]
+    types: [completed]
+    conclusions: [failure]
+---
+
+Repository event instructions`;
+
+        const result = parser.parseContent(content);
+
+        expect(result.errors).toHaveLength(0);
+        expect(result.agent?.on.push).toEqual({ branches: ["main"], paths: ["docs/**"] });
+        expect(result.agent?.on.release?.types).toEqual(["published"]);
+        expect(result.agent?.on.workflow_run?.workflows).toEqual(["CI"]);
+        expect(result.agent?.on.workflow_run?.conclusions).toEqual(["failure"]);
+      });
+
+      it("should require workflows for workflow_run triggers", () => {
+        const content = `---
+name: Workflow Run Agent
+on:
+  workflow_run:
+    types: [completed]
+---
+
+Instructions`;
+
+        const result = parser.parseContent(content);
+
+        expect(result.agent).toBeUndefined();
+        expect(result.errors.length).toBeGreaterThan(0);
+      });
+
+      it("should parse provider model, tools and MCP servers", () => {
+        const content = `---
+name: Tooling Agent
+on:
+  issues:
+    types: [opened]
+provider: claude-code
+model: opus
+max_turns: 20
+allowed_tools: ["Bash(npm test:*)", WebFetch]
+mcp_servers:
+  github:
+    command: npx
+    args: ["-y", "@modelcontextprotocol/server-github"]
+  docs:
+    url: https://example.com/mcp
+---
+
+Instructions`;
+
+        const result = parser.parseContent(content);
+
+        expect(result.errors).toHaveLength(0);
+        expect(result.agent?.model).toBe("opus");
+        expect(result.agent?.max_turns).toBe(20);
+        expect(result.agent?.allowed_tools).toEqual(["Bash(npm test:*)", "WebFetch"]);
+        expect(result.agent?.mcp_servers?.github.command).toBe("npx");
+        expect(result.agent?.mcp_servers?.docs.url).toBe("https://example.com/mcp");
+      });
+
+      it("should reject MCP servers without a command or url", () => {
+        const content = `---
+name: Tooling Agent
+on:
+  issues:
+    types: [opened]
+mcp_servers:
+  broken:
+    args: [serve]
+---
+
+Instructions`;
+
+        const result = parser.parseContent(content);
+
+        expect(result.agent).toBeUndefined();
+        expect(result.errors.length).toBeGreaterThan(0);
+      });
+
+      it("should parse the runner", () => {
+        const content = `---
+name: Coverage
+on:
+  schedule:
+    - cron: "0 3 * * *"
+runner:
+  runs_on: [self-hosted, linux]
+  container: node:22
+  services:
+    postgres:
+      image: postgres:16
+      ports: [5432]
+  environment: staging
+  setup_steps:
+    - uses: actions/setup-node@v4
+      with:
+        node-version: 22
+---
+
+Instructions`;
+
+        const result = parser.parseContent(content);
+
+        expect(result.errors).toHaveLength(0);
+        expect(result.agent?.runner?.runs_on).toEqual(["self-hosted", "linux"]);
+        expect(result.agent?.runner?.container).toBe("node:22");
+        expect(result.agent?.runner?.services?.postgres.ports).toEqual([5432]);
+        expect(result.agent?.runner?.environment).toBe("staging");
+        expect(result.agent?.runner?.setup_steps).toHaveLength(1);
+      });
+
+      it("should reject setup steps with both uses and run", () => {
+        const content = `---
+name: Coverage
+on:
+  schedule:
+    - cron: "0 3 * * *"
+runner:
+  setup_steps:
+    - uses: actions/setup-node@v4
+      run: npm ci
+---
+
+Instructions`;
+
+        const result = parser.parseContent(content);
+
+        expect(result.agent).toBeUndefined();
+        expect(result.errors[0].field).toBe("runner.setup_steps.0");
+      });
+
+      it("should parse custom outputs and list them with the built-ins", () => {
+        const content = `---
+name: Notifier
+on:
+  issues:
+    types: [opened]
+outputs:
+  add-label: true
+custom_outputs:
+  notify-team:
+    description: Post a short message to the team channel
+    schema:
+      type: object
+      required: [text]
+      properties:
+        text: { type: string }
+    run: scripts/notify.sh
+    max: 1
+---
+
+Instructions`;
+
+        const result = parser.parseContent(content);
+
+        expect(result.errors).toHaveLength(0);
+        expect(result.agent?.custom_outputs?.["notify-team"].run).toBe("scripts/notify.sh");
+        expect(Object.keys(result.agent?.outputs ?? {})).toEqual(["add-label", "notify-team"]);
+      });
+
+      it("should reject custom outputs that shadow built-ins or lack a single executor", () => {
+        const declare = (name: string, executor: string) => `---
+name: Notifier
+on:
+  issues:
+    types: [opened]
+custom_outputs:
+  ${name}:
+    description: Do something
+    schema: { type: object }
+${executor}
+---
+
+Instructions`;
+
+        expect(
+          parser.parseContent(declare("add-label", "    dispatch: label")).errors[0].message,
+        ).toContain("must not shadow a built-in output");
+        expect(parser.parseContent(declare("notify", "")).errors[0].message).toContain(
+          "exactly one of run, dispatch or http",
+        );
+        expect(
+          parser.parseContent(declare("notify", "    run: ../outside.sh")).errors[0].message,
+        ).toContain("inside the repository");
+        expect(
+          parser.parseContent(
+            declare("notify", "    dispatch: notify\n    http: { url: https://example.com }"),
+          ).errors[0].message,
+        ).toContain("exactly one of run, dispatch or http");
+      });
+
+      it("should only allow secret and env references in http headers", () => {
+        const declare = (header: string) => `---
+name: Notifier
+on:
+  issues:
+    types: [opened]
+custom_outputs:
+  notify:
+    description: Do something
+    schema: { type: object }
+    http:
+      url: https://example.com/notify
+      headers:
+        Authorization: "${header}"
+---
+
+Instructions`;
+
+        expect(parser.parseContent(declare("Bearer ${{ secrets.NOTIFY_TOKEN }}")).errors).toEqual(
+          [],
+        );
+        expect(parser.parseContent(declare("${{ env.TOKEN }}")).errors).toEqual([]);
+        expect(
+          parser.parseContent(declare("${{ github.event.issue.title }}")).errors[0].message,
+        ).toContain("may only reference");
+      });
+
+      it("should reject custom outputs with an unsupported JSON schema", () => {
+        const content = `---
+name: Notifier
+on:
+  issues:
+    types: [opened]
+custom_outputs:
+  notify:
+    description: Do something
+    schema: { type: bogus }
+    dispatch: notify
+---
+
+Instructions`;
+
+        const result = parser.parseContent(content);
+
+        expect(result.agent).toBeUndefined();
+        expect(result.errors[0].field).toBe("custom_outputs.notify.schema");
+        expect(result.errors[0].message).toContain("Invalid JSON schema");
+      });
+
+      it("should parse budget caps", () => {
+        const content = `---
+name: Budgeted Agent
+on:
+  issues:
+    types: [opened]
+budget:
+  per_run: 0.5
+  daily: 5
+  monthly: 50
+---
+
+Instructions`;
+
+        const result = parser.parseContent(content);
+
+        expect(result.errors).toHaveLength(0);
+        expect(result.agent?.budget).toEqual({ per_run: 0.5, daily: 5, monthly: 50 });
+      });
+
+      it("should reject non-positive budget caps", () => {
+        const content = `---
+name: Budgeted Agent
+on:
+  issues:
+    types: [opened]
+budget:
+  daily: 0
+---
+
+Instructions`;
+
+        const result = parser.parseContent(content);
+
+        expect(result.agent).toBeUndefined();
+        expect(result.errors.some((e) => e.field.startsWith("budget"))).toBe(true);
+      });
+
       it("should parse agent with multiple triggers", () => {
         const content = `---
 name: Multi-Trigger Agent
@@ -464,6 +754,59 @@ Context test`;
         expect(result.agent?.context?.min_items).toBe(5);
       });
 
+      it("should parse a context budget with priorities", () => {
+        const content = `---
+name: Budget Agent
+on:
+  schedule:
+    - cron: "0 0 * * *"
+context:
+  issues:
+    limit: 50
+  commits: {}
+  budget:
+    tokens: 20000
+    item_characters: 2000
+    priorities:
+      issues: high
+      commits: low
+---
+
+Budget test`;
+
+        const result = parser.parseContent(content);
+
+        expect(result.errors).toEqual([]);
+        expect(result.agent?.context?.budget).toEqual({
+          tokens: 20000,
+          item_characters: 2000,
+          priorities: { issues: "high", commits: "low" },
+        });
+      });
+
+      it("should reject a context budget with both tokens and characters", () => {
+        const content = `---
+name: Budget Agent
+on:
+  schedule:
+    - cron: "0 0 * * *"
+context:
+  issues: {}
+  budget:
+    tokens: 20000
+    characters: 80000
+---
+
+Budget test`;
+
+        const result = parser.parseContent(content);
+
+        expect(result.agent).toBeUndefined();
+        expect(
+          result.errors.some((e) => e.message.includes("exactly one of tokens or characters")),
+        ).toBe(true);
+      });
+
       it("should parse agent with audit configuration", () => {
         const content = `---
 name: Audit Agent
@@ -474,6 +817,7 @@ audit:
   create_issues: true
   labels: [bot, audit]
   assignees: [admin]
+  resolve_after: 5
 ---
 
 Audit test`;
@@ -484,6 +828,7 @@ Audit test`;
         expect(result.agent?.audit?.create_issues).toBe(true);
         expect(result.agent?.audit?.labels).toEqual(["bot", "audit"]);
         expect(result.agent?.audit?.assignees).toEqual(["admin"]);
+        expect(result.agent?.audit?.resolve_after).toBe(5);
       });
 
       it("should parse agent with provider", () => {
@@ -932,6 +1277,74 @@ All outputs test`;
         expect(result.agent).toBeDefined();
         expect(Object.keys(result.agent?.outputs || {})).toHaveLength(24);
       });
+
+      it("should keep per-action deduplication configs", () => {
+        const content = `---
+name: Dedup Agent
+on:
+  issues:
+    types: [opened]
+outputs:
+  add-comment: true
+deduplication:
+  actions:
+    add-comment:
+      window: 1h
+      match: similar
+---
+
+Dedup test`;
+
+        const result = parser.parseContent(content);
+
+        expect(result.errors).toHaveLength(0);
+        expect(result.agent?.deduplication?.actions).toEqual({
+          "add-comment": { window: "1h", match: "similar" },
+        });
+      });
+
+      it("should accept agents that only run after upstream agents", () => {
+        const content = `---
+name: Implementer
+on: {}
+needs: [issue-triage]
+then: [reviewer]
+---
+
+Chained`;
+
+        const result = parser.parseContent(content);
+
+        expect(result.errors).toHaveLength(0);
+        expect(result.agent?.needs).toEqual(["issue-triage"]);
+        expect(result.agent?.downstream).toEqual(["reviewer"]);
+        expect(parser.validateAgent(result.agent!)).toHaveLength(0);
+      });
+
+      it("should parse approval settings and reject invalid expiries", () => {
+        const content = (expires: string) => `---
+name: Approval Agent
+on:
+  issues:
+    types: [opened]
+outputs:
+  add-label: true
+  close-issue:
+    approval:
+      teams: [maintainers]
+      expires: ${expires}
+---
+
+Approval test`;
+
+        const valid = parser.parseContent(content("2d"));
+        expect(valid.errors).toHaveLength(0);
+        expect(valid.agent?.outputs?.["close-issue"]).toEqual({
+          approval: { teams: ["maintainers"], expires: "2d" },
+        });
+
+        expect(parser.parseContent(content("soon")).errors.length).toBeGreaterThan(0);
+      });
     });
   });
 
@@ -1175,6 +1588,63 @@ Test`;
         expect(errors).toHaveLength(0);
       });
     });
+    describe("invocation rules", () => {
+      it("should accept an invocation-only agent with typed arguments", () => {
+        const content = `---
+name: Triage Agent
+on:
+  invocation:
+    command: triage
+    args:
+      priority:
+        type: choice
+        options: [low, high]
+        default: low
+      skip-dupes:
+        type: boolean
+---
+
+Test`;
+
+        const result = parser.parseContent(content);
+        const errors = parser.validateAgent(result.agent!);
+
+        expect(errors).toHaveLength(0);
+      });
+
+      it("should reject the reserved help command and invalid argument defaults", () => {
+        const content = `---
+name: Help Agent
+on:
+  invocation:
+    command: assist
+    aliases: ["/help", "approve"]
+    args:
+      priority:
+        type: choice
+        options: [low, high]
+        default: urgent
+      level:
+        type: choice
+      limit:
+        type: number
+        default: "ten"
+---
+
+Test`;
+
+        const result = parser.parseContent(content);
+        const errors = parser.validateAgent(result.agent!);
+
+        expect(errors.map((e) => e.message)).toEqual([
+          "/help is reserved for the generated command list",
+          "/approve is reserved for deciding outputs that need approval",
+          'Default "urgent" is not a valid choice',
+          "choice arguments require options",
+          'Default "ten" is not a valid number',
+        ]);
+      });
+    });
   });
 
   describe("parseFile", () => {
@@ -1198,6 +1668,50 @@ File test instructions`;
       expect(result.errors).toHaveLength(0);
     });
 
+    it("should merge the repository defaults under the agent's frontmatter", async () => {
+      mkdirSync(join(tempDir, ".github", "agents"), { recursive: true });
+      writeFileSync(
+        join(tempDir, ".github", "repo-agents.yml"),
+        "defaults:\n  provider: opencode\n  rate_limit_minutes: 15\n  audit:\n    create_issues: false\n",
+      );
+      const filePath = join(tempDir, ".github", "agents", "triage.md");
+      writeFileSync(
+        filePath,
+        `---
+name: Triage
+on:
+  issues:
+    types: [opened]
+rate_limit_minutes: 0
+audit:
+  labels: [triage]
+---
+
+Triage`,
+      );
+
+      const result = await parser.parseFile(filePath);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.agent?.provider).toBe("opencode");
+      expect(result.agent?.rate_limit_minutes).toBe(0);
+      expect(result.agent?.audit).toEqual({ create_issues: false, labels: ["triage"] });
+      expect(result.config?.inherited).toEqual(["provider", "audit"]);
+    });
+
+    it("should use configured defaults for content", () => {
+      const result = new AgentParser({ defaults: { max_turns: 5 } }).parseContent(`---
+name: Triage
+on:
+  issues:
+    types: [opened]
+---
+
+Triage`);
+
+      expect(result.agent?.max_turns).toBe(5);
+    });
+
     it("should error on non-existent file", async () => {
       const filePath = join(tempDir, "non-existent.md");
 
@@ -1244,6 +1758,89 @@ Test`;
       expect(result.errors).toHaveLength(1);
       expect(result.errors[0].field).toBe("frontmatter");
     });
+
+    describe("blueprint extends", () => {
+      beforeEach(() => {
+        writeFileSync(
+          join(tempDir, "triage-blueprint.md"),
+          `---
+blueprint:
+  name: triage
+  version: "1.0.0"
+  parameters:
+    - name: team
+      type: string
+      required: true
+name: Triage for {{ parameters.team }}
+on:
+  issues:
+    types: [opened]
+outputs:
+  add-label: true
+---
+
+Route issues to {{ parameters.team }}.`,
+          "utf-8",
+        );
+      });
+
+      it("should resolve a local blueprint into an agent", async () => {
+        const filePath = join(tempDir, "agent.md");
+        writeFileSync(
+          filePath,
+          `---
+extends: ./triage-blueprint.md
+parameters:
+  team: platform
+---
+
+Be concise.`,
+          "utf-8",
+        );
+
+        const result = await parser.parseFile(filePath);
+
+        expect(result.errors).toHaveLength(0);
+        expect(result.agent?.name).toBe("Triage for platform");
+        expect(result.agent?.markdown).toBe("Route issues to platform.\n\nBe concise.");
+        expect(result.blueprint?.source).toBe("./triage-blueprint.md");
+        expect(result.blueprint?.metadata.name).toBe("triage");
+        expect(result.blueprint?.parameters).toEqual({ team: "platform" });
+        expect(result.blueprint?.agent).toBe(result.agent as NonNullable<typeof result.agent>);
+      });
+
+      it("should report missing blueprint parameters", async () => {
+        const filePath = join(tempDir, "agent.md");
+        writeFileSync(filePath, "---\nextends: ./triage-blueprint.md\n---\n", "utf-8");
+
+        const result = await parser.parseFile(filePath);
+
+        expect(result.agent).toBeUndefined();
+        expect(result.errors[0].field).toBe("parameters.team");
+        expect(result.errors[0].message).toContain("Missing required parameter 'team'");
+      });
+
+      it("should validate the resolved agent against the schema", async () => {
+        const filePath = join(tempDir, "agent.md");
+        writeFileSync(
+          filePath,
+          "---\nextends: ./triage-blueprint.md\nparameters:\n  team: core\nunknown_key: true\n---\n",
+          "utf-8",
+        );
+
+        const result = await parser.parseFile(filePath);
+
+        expect(result.agent).toBeUndefined();
+        expect(result.errors[0].message).toContain("unknown_key");
+      });
+
+      it("should require parseFile for agents that extend a blueprint", () => {
+        const result = parser.parseContent("---\nextends: ./triage-blueprint.md\n---\n");
+
+        expect(result.agent).toBeUndefined();
+        expect(result.errors[0].field).toBe("extends");
+      });
+    });
   });
 
   describe("integration scenarios", () => {
@@ -1,17 +1,48 @@
 import { readFile } from "node:fs/promises";
-import type { AgentDefinition, ValidationError } from "@repo-agents/types";
+import { dirname, join } from "node:path";
+import type { AgentDefinition, ResolvedBlueprint, ValidationError } from "@repo-agents/types";
 import matter from "gray-matter";
 import { ZodError } from "zod";
+import { extendsBlueprint } from "./blueprint";
+import { resolveExtends } from "./blueprint-resolver";
+import { BLUEPRINT_LOCKFILE, type BlueprintSourceOptions } from "./blueprint-sources";
+import { applyAgentDefaults, findRepositoryRoot, loadRepositoryConfig } from "./repository-config";
 import { type AgentFrontmatter, agentFrontmatterSchema } from "./schemas";
 
+export interface AgentParserOptions {
+  /**
+   * How blueprint sources are loaded. By default the lockfile next to the agent file is used
+   * and unpinned GitHub sources are only pinned outside GitHub Actions.
+   */
+  blueprints?: Omit<BlueprintSourceOptions, "basePath">;
+  /**
+   * Frontmatter merged under every agent's own frontmatter. By default parseFile uses the
+   * `defaults` of the repository config above the agent file, and parseContent uses none.
+   */
+  defaults?: Record<string, unknown>;
+}
+
+/**
+ * The effective frontmatter of a parsed agent, after repository defaults were applied.
+ */
+export interface EffectiveConfig {
+  frontmatter: Record<string, unknown>;
+  /** Top-level keys that came (fully or partly) from the repository defaults */
+  inherited: string[];
+}
+
 export class AgentParser {
+  constructor(private readonly options: AgentParserOptions = {}) {}
+
   async parseFile(filePath: string): Promise<{
     agent?: AgentDefinition;
+    blueprint?: ResolvedBlueprint;
+    config?: EffectiveConfig;
     errors: ValidationError[];
   }> {
+    let content: string;
     try {
-      const content = await readFile(filePath, "utf-8");
-      return this.parseContent(content);
+      content = await readFile(filePath, "utf-8");
     } catch (error) {
       return {
         errors: [
@@ -23,14 +54,103 @@ export class AgentParser {
         ],
       };
     }
+
+    const { parsed, errors } = this.parseFrontmatter(content);
+    if (!parsed) {
+      return { errors };
+    }
+
+    const { defaults, errors: defaultsErrors } = await this.loadDefaults(filePath);
+    if (defaultsErrors.length > 0) {
+      return { errors: defaultsErrors };
+    }
+
+    if (!extendsBlueprint(parsed.data)) {
+      return this.buildAgent(parsed.data, parsed.content, defaults);
+    }
+
+    const basePath = dirname(filePath);
+    const { resolved, errors: extendsErrors } = await resolveExtends(parsed.data, parsed.content, {
+      lockfilePath: join(basePath, BLUEPRINT_LOCKFILE),
+      updateLockfile: !process.env.GITHUB_ACTIONS,
+      ...this.options.blueprints,
+      basePath,
+    });
+    if (!resolved) {
+      return { errors: extendsErrors };
+    }
+
+    const {
+      agent,
+      config,
+      errors: agentErrors,
+    } = this.buildAgent(resolved.frontmatter, resolved.markdown, defaults);
+    const allErrors = [...extendsErrors, ...agentErrors];
+    if (!agent) {
+      return { errors: allErrors };
+    }
+
+    return {
+      agent,
+      config,
+      blueprint: {
+        source: resolved.source,
+        metadata: resolved.metadata,
+        parameters: resolved.parameters,
+        agent,
+      },
+      errors: allErrors,
+    };
   }
 
   parseContent(content: string): {
     agent?: AgentDefinition;
+    config?: EffectiveConfig;
     errors: ValidationError[];
   } {
-    const errors: ValidationError[] = [];
+    const { parsed, errors } = this.parseFrontmatter(content);
+    if (!parsed) {
+      return { errors };
+    }
+
+    if (extendsBlueprint(parsed.data)) {
+      return {
+        errors: [
+          {
+            field: "extends",
+            message: "Agents that extend a blueprint must be parsed from a file (use parseFile)",
+            severity: "error",
+          },
+        ],
+      };
+    }
+
+    return this.buildAgent(parsed.data, parsed.content, this.options.defaults);
+  }
+
+  /**
+   * Defaults for an agent file: the configured ones, or those of the repository config
+   * above the file.
+   */
+  private async loadDefaults(
+    filePath: string,
+  ): Promise<{ defaults?: Record<string, unknown>; errors: ValidationError[] }> {
+    if (this.options.defaults) {
+      return { defaults: this.options.defaults, errors: [] };
+    }
 
+    const root = findRepositoryRoot(filePath);
+    if (!root) {
+      return { errors: [] };
+    }
+    const { config, errors } = await loadRepositoryConfig(root);
+    return { defaults: config.defaults, errors };
+  }
+
+  private parseFrontmatter(content: string): {
+    parsed?: ReturnType<typeof matter>;
+    errors: ValidationError[];
+  } {
     let parsed: ReturnType<typeof matter>;
     try {
       parsed = matter(content);
@@ -58,9 +178,24 @@ export class AgentParser {
       };
     }
 
+    return { parsed, errors: [] };
+  }
+
+  private buildAgent(
+    data: Record<string, unknown>,
+    markdown: string,
+    defaults?: Record<string, unknown>,
+  ): {
+    agent?: AgentDefinition;
+    config?: EffectiveConfig;
+    errors: ValidationError[];
+  } {
+    const errors: ValidationError[] = [];
+    const config = applyAgentDefaults(defaults, data);
+
     let frontmatter: AgentFrontmatter;
     try {
-      frontmatter = agentFrontmatterSchema.parse(parsed.data);
+      frontmatter = agentFrontmatterSchema.parse(config.frontmatter);
     } catch (error) {
       if (error instanceof ZodError) {
         return {
@@ -74,7 +209,7 @@ export class AgentParser {
       throw error;
     }
 
-    if (!parsed.content || parsed.content.trim().length === 0) {
+    if (!markdown || markdown.trim().length === 0) {
       errors.push({
         field: "markdown",
         message: "Agent instructions (markdown body) are required",
@@ -87,7 +222,15 @@ export class AgentParser {
       on: frontmatter.on,
       permissions: frontmatter.permissions,
       provider: frontmatter.provider,
-      outputs: frontmatter.outputs,
+      model: frontmatter.model,
+      max_turns: frontmatter.max_turns,
+      allowed_tools: frontmatter.allowed_tools,
+      mcp_servers: frontmatter.mcp_servers,
+      // Custom outputs are listed with the built-ins so every stage handles them alike
+      outputs: frontmatter.custom_outputs
+        ? { ...frontmatter.outputs, ...frontmatter.custom_outputs }
+        : frontmatter.outputs,
+      custom_outputs: frontmatter.custom_outputs,
       tools: frontmatter.tools,
       allowed_actors: frontmatter["allowed-actors"],
       allowed_users: frontmatter["allowed-users"],
@@ -106,10 +249,14 @@ export class AgentParser {
       timeout: frontmatter.timeout,
       tracing: frontmatter.tracing,
       deduplication: frontmatter.deduplication,
-      markdown: parsed.content.trim(),
+      budget: frontmatter.budget,
+      runner: frontmatter.runner,
+      downstream: frontmatter.then,
+      needs: frontmatter.needs,
+      markdown: markdown.trim(),
     };
 
-    return { agent, errors };
+    return { agent, config, errors };
   }
 
   validateAgent(agent: AgentDefinition): ValidationError[] {
@@ -144,7 +291,13 @@ export class AgentParser {
       agent.on.discussion ||
       agent.on.repository_dispatch ||
       agent.on.schedule ||
-      agent.on.workflow_dispatch;
+      agent.on.workflow_dispatch ||
+      agent.on.push ||
+      agent.on.release ||
+      agent.on.workflow_run ||
+      agent.on.invocation ||
+      // Agents that only run after an upstream agent need no trigger of their own
+      agent.needs?.length;
 
     if (!hasTrigger) {
       errors.push({
@@ -154,13 +307,73 @@ export class AgentParser {
       });
     }
 
+    errors.push(...this.validateInvocations(agent));
+
+    return errors;
+  }
+
+  private validateInvocations(agent: AgentDefinition): ValidationError[] {
+    const errors: ValidationError[] = [];
+    if (!agent.on.invocation) {
+      return errors;
+    }
+
+    const invocations = Array.isArray(agent.on.invocation)
+      ? agent.on.invocation
+      : [agent.on.invocation];
+
+    for (const invocation of invocations) {
+      const names = [invocation.command, ...(invocation.aliases ?? [])].map((name) =>
+        name.replace(/^\//, "").toLowerCase(),
+      );
+      if (names.includes("help")) {
+        errors.push({
+          field: "on.invocation",
+          message: "/help is reserved for the generated command list",
+          severity: "error",
+        });
+      }
+      for (const name of names.filter((name) => name === "approve" || name === "deny")) {
+        errors.push({
+          field: "on.invocation",
+          message: `/${name} is reserved for deciding outputs that need approval`,
+          severity: "error",
+        });
+      }
+
+      for (const [name, arg] of Object.entries(invocation.args ?? {})) {
+        const field = `on.invocation.${invocation.command}.args.${name}`;
+        const type = arg.type ?? "string";
+
+        if (type === "choice" && (!arg.options || arg.options.length === 0)) {
+          errors.push({ field, message: "choice arguments require options", severity: "error" });
+        }
+
+        if (arg.default === undefined) {
+          continue;
+        }
+        const defaultMatches =
+          type === "choice"
+            ? arg.options?.includes(String(arg.default))
+            : type === "string"
+              ? typeof arg.default === "string"
+              : typeof arg.default === type;
+        if (!defaultMatches) {
+          errors.push({
+            field,
+            message: `Default ${JSON.stringify(arg.default)} is not a valid ${type}`,
+            severity: "error",
+          });
+        }
+      }
+    }
+
     return errors;
   }
 }
 
 export const agentParser = new AgentParser();
 
-// Blueprint exports
 export {
   applyTemplate,
   applyTemplateToObject,
@@ -173,6 +386,24 @@ export {
   resolveBlueprintSource,
   validateParameters,
 } from "./blueprint";
+// Blueprint exports
+export { type ResolvedExtends, resolveExtends } from "./blueprint-resolver";
+export {
+  BLUEPRINT_LOCKFILE,
+  type BlueprintLockfile,
+  type BlueprintSourceOptions,
+  CATALOG_DIR,
+  type CatalogEntry,
+  loadBlueprintSource,
+  loadCatalog,
+} from "./blueprint-sources";
+export { compileCustomOutputSchema, validateCustomOutputData } from "./custom-outputs";
+export {
+  applyAgentDefaults,
+  findRepositoryRoot,
+  loadRepositoryConfig,
+  REPOSITORY_CONFIG_FILE,
+} from "./repository-config";
 export type { AgentFrontmatter } from "./schemas";
 // Re-export schema types
 export { agentFrontmatterSchema } from "./schemas";
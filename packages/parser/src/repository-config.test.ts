@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  applyAgentDefaults,
+  findRepositoryRoot,
+  loadRepositoryConfig,
+  REPOSITORY_CONFIG_FILE,
+} from "./repository-config";
+
+describe("loadRepositoryConfig", () => {
+  let tempDir: string;
+
+  const writeConfig = (content: string) => {
+    mkdirSync(join(tempDir, ".github"), { recursive: true });
+    writeFileSync(join(tempDir, REPOSITORY_CONFIG_FILE), content);
+  };
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "repository-config-test-"));
+  });
+
+  it("should return an empty config when the file is missing", async () => {
+    expect(await loadRepositoryConfig(tempDir)).toEqual({ config: {}, errors: [] });
+  });
+
+  it("should parse repository budgets", async () => {
+    writeConfig("budget:\n  daily: 10\n  monthly: 200\n");
+
+    const { config, errors } = await loadRepositoryConfig(tempDir);
+
+    expect(errors).toHaveLength(0);
+    expect(config.budget).toEqual({ daily: 10, monthly: 200 });
+  });
+
+  it("should parse the state backend", async () => {
+    writeConfig("state:\n  backend: git-branch\n  branch: agent-state\n");
+
+    const { config, errors } = await loadRepositoryConfig(tempDir);
+
+    expect(errors).toHaveLength(0);
+    expect(config.state).toEqual({ backend: "git-branch", branch: "agent-state" });
+  });
+
+  it("should reject unknown state backends", async () => {
+    writeConfig("state:\n  backend: redis\n");
+
+    const { errors } = await loadRepositoryConfig(tempDir);
+
+    expect(errors.length).toBeGreaterThan(0);
+  });
+
+  it("should reject per-run caps and unknown settings", async () => {
+    writeConfig("budget:\n  per_run: 1\nunknown: true\n");
+
+    const { config, errors } = await loadRepositoryConfig(tempDir);
+
+    expect(config).toEqual({});
+    expect(errors.length).toBeGreaterThan(0);
+  });
+
+  it("should report invalid YAML", async () => {
+    writeConfig("budget: [unclosed\n");
+
+    const { errors } = await loadRepositoryConfig(tempDir);
+
+    expect(errors[0].field).toBe(REPOSITORY_CONFIG_FILE);
+  });
+
+  it("should parse agent defaults with the frontmatter schema", async () => {
+    writeConfig("defaults:\n  provider: opencode\n  allowed-teams: [maintainers]\n");
+
+    const { config, errors } = await loadRepositoryConfig(tempDir);
+
+    expect(errors).toHaveLength(0);
+    expect(config.defaults).toEqual({ provider: "opencode", "allowed-teams": ["maintainers"] });
+  });
+
+  it("should reject triggers and invalid settings in the defaults", async () => {
+    writeConfig("defaults:\n  on:\n    issues: {}\n  rate_limit_minutes: -1\n");
+
+    const { errors } = await loadRepositoryConfig(tempDir);
+
+    expect(errors.map((e) => e.field).sort()).toEqual(["defaults", "defaults.rate_limit_minutes"]);
+  });
+
+  it("should find the repository root above an agent file", () => {
+    writeConfig("{}\n");
+    mkdirSync(join(tempDir, ".github", "agents"), { recursive: true });
+
+    expect(findRepositoryRoot(join(tempDir, ".github", "agents", "triage.md"))).toBe(tempDir);
+  });
+});
+
+describe("applyAgentDefaults", () => {
+  const defaults = {
+    provider: "opencode",
+    rate_limit_minutes: 10,
+    audit: { create_issues: false, labels: ["agent-failure"] },
+    "allowed-teams": ["maintainers"],
+  };
+
+  it("should let the agent's own settings win and merge nested settings", () => {
+    const { frontmatter, inherited } = applyAgentDefaults(defaults, {
+      name: "Triage",
+      rate_limit_minutes: 0,
+      audit: { labels: ["triage-failure"] },
+      "allowed-teams": ["triagers"],
+    });
+
+    expect(frontmatter).toEqual({
+      name: "Triage",
+      provider: "opencode",
+      rate_limit_minutes: 0,
+      audit: { create_issues: false, labels: ["triage-failure"] },
+      "allowed-teams": ["triagers"],
+    });
+    expect(inherited).toEqual(["provider", "audit"]);
+  });
+
+  it("should leave the frontmatter alone without defaults", () => {
+    expect(applyAgentDefaults(undefined, { name: "Triage" })).toEqual({
+      frontmatter: { name: "Triage" },
+      inherited: [],
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import type { RepositoryConfig, ValidationError } from "@repo-agents/types";
+import { ZodError } from "zod";
+import { repositoryConfigSchema } from "./schemas";
+
+/** Repository-wide settings, relative to the repository root */
+export const REPOSITORY_CONFIG_FILE = ".github/repo-agents.yml";
+
+/**
+ * Find the repository root of a file: the closest directory above it with a
+ * repository config. Returns undefined when there is none.
+ */
+export function findRepositoryRoot(filePath: string): string | undefined {
+  let dir = dirname(resolve(filePath));
+  while (true) {
+    if (existsSync(join(dir, REPOSITORY_CONFIG_FILE))) {
+      return dir;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Merge repository defaults under an agent's frontmatter. The agent's own settings win;
+ * nested settings (like `audit` or `timeout`) are merged key by key, lists are replaced.
+ * Returns the merged frontmatter and the top-level keys that came from the defaults.
+ */
+export function applyAgentDefaults(
+  defaults: Record<string, unknown> | undefined,
+  frontmatter: Record<string, unknown>,
+): { frontmatter: Record<string, unknown>; inherited: string[] } {
+  if (!defaults) {
+    return { frontmatter, inherited: [] };
+  }
+
+  const merged = mergeObjects(defaults, frontmatter);
+  const inherited = Object.keys(defaults).filter(
+    (key) =>
+      !(key in frontmatter) || (isPlainObject(defaults[key]) && isPlainObject(frontmatter[key])),
+  );
+  return { frontmatter: merged, inherited };
+}
+
+function mergeObjects(
+  base: Record<string, unknown>,
+  override: Record<string, unknown>,
+): Record<string, unknown> {
+  // The override's keys come first so merged frontmatter reads like the agent file
+  const merged: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] =
+      isPlainObject(value) && isPlainObject(base[key]) ? mergeObjects(base[key], value) : value;
+  }
+  for (const [key, value] of Object.entries(base)) {
+    if (!(key in merged)) {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Load the repository-wide config. A missing file is an empty config;
+ * invalid YAML or unknown settings are returned as errors.
+ */
+export async function loadRepositoryConfig(
+  cwd: string = process.cwd(),
+): Promise<{ config: RepositoryConfig; errors: ValidationError[] }> {
+  const path = join(cwd, REPOSITORY_CONFIG_FILE);
+  if (!existsSync(path)) {
+    return { config: {}, errors: [] };
+  }
+
+  let data: unknown;
+  try {
+    data = Bun.YAML.parse(await readFile(path, "utf-8"));
+  } catch (error) {
+    return {
+      config: {},
+      errors: [
+        {
+          field: REPOSITORY_CONFIG_FILE,
+          message: `Failed to parse ${REPOSITORY_CONFIG_FILE}: ${(error as Error).message}`,
+          severity: "error",
+        },
+      ],
+    };
+  }
+
+  try {
+    return { config: repositoryConfigSchema.parse(data ?? {}), errors: [] };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return {
+        config: {},
+        errors: error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          severity: "error" as const,
+        })),
+      };
+    }
+    throw error;
+  }
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { compileCustomOutputSchema } from "./custom-outputs";
 
 const workflowInputSchema = z.object({
   description: z.string(),
@@ -8,12 +9,26 @@ const workflowInputSchema = z.object({
   options: z.array(z.string()).optional(),
 });
 
+const invocationArgSchema = z.strictObject({
+  type: z.enum(["string", "number", "boolean", "choice"]).optional(),
+  description: z.string().optional(),
+  required: z.boolean().optional(),
+  default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+  options: z.array(z.string()).optional(),
+});
+
 const invocationConfigSchema = z.object({
   command: z.string().min(1), // Command name (without leading /)
   description: z.string().optional(), // Description shown in /help
   aliases: z.array(z.string()).optional(), // Alternative command names
   allowed_users: z.array(z.string()).optional(), // Users who can invoke
   allowed_teams: z.array(z.string()).optional(), // Teams who can invoke
+  args: z
+    .record(
+      z.string().regex(/^[a-z][a-z0-9_-]*$/, "Use lowercase argument names"),
+      invocationArgSchema,
+    )
+    .optional(), // Typed arguments
 });
 
 const triggerConfigSchema = z.strictObject({
@@ -49,6 +64,26 @@ const triggerConfigSchema = z.strictObject({
       types: z.array(z.string()).optional(),
     })
     .optional(),
+  push: z
+    .strictObject({
+      branches: z.array(z.string()).optional(),
+      tags: z.array(z.string()).optional(),
+      paths: z.array(z.string()).optional(),
+    })
+    .optional(),
+  release: z
+    .strictObject({
+      types: z.array(z.string()).optional(),
+    })
+    .optional(),
+  workflow_run: z
+    .strictObject({
+      workflows: z.array(z.string()).min(1),
+      types: z.array(z.enum(["requested", "in_progress", "completed"])).optional(),
+      branches: z.array(z.string()).optional(),
+      conclusions: z.array(z.string()).optional(),
+    })
+    .optional(),
   invocation: z.union([invocationConfigSchema, z.array(invocationConfigSchema)]).optional(),
 });
 
@@ -61,51 +96,132 @@ const permissionsSchema = z
   })
   .optional();
 
+const approvalConfigSchema = z.strictObject({
+  users: z.array(z.string()).optional(),
+  teams: z.array(z.string()).optional(),
+  // How long the plan stays open (e.g., "12h", "7d")
+  expires: z
+    .string()
+    .regex(/^\d+[hdw]$/, "Expiry must be in format: number + h/d/w (e.g., '12h', '7d')")
+    .optional(),
+});
+
 const outputConfigSchema = z.looseObject({
   max: z.number().optional(),
   sign: z.boolean().optional(),
+  approval: z.union([z.boolean(), approvalConfigSchema]).optional(),
 }); // Allow additional properties
 
+const outputTypeSchema = z.enum([
+  "add-comment",
+  "add-label",
+  "remove-label",
+  "create-issue",
+  "create-discussion",
+  "create-pr",
+  "update-file",
+  "close-issue",
+  "close-pr",
+  "assign-issue",
+  "request-review",
+  "merge-pr",
+  "approve-pr",
+  "create-release",
+  "delete-branch",
+  "lock-conversation",
+  "pin-issue",
+  "convert-to-discussion",
+  "edit-issue",
+  "reopen-issue",
+  "set-milestone",
+  "trigger-workflow",
+  "add-reaction",
+  "create-branch",
+  "copy-project",
+  "mark-template",
+  "manage-labels",
+  "add-to-project",
+  "remove-from-project",
+  "update-project-field",
+  "archive-project-item",
+  "manage-project",
+  "manage-project-field",
+  "link-project",
+]);
+
 const outputSchema = z
-  .partialRecord(
-    z.enum([
-      "add-comment",
-      "add-label",
-      "remove-label",
-      "create-issue",
-      "create-discussion",
-      "create-pr",
-      "update-file",
-      "close-issue",
-      "close-pr",
-      "assign-issue",
-      "request-review",
-      "merge-pr",
-      "approve-pr",
-      "create-release",
-      "delete-branch",
-      "lock-conversation",
-      "pin-issue",
-      "convert-to-discussion",
-      "edit-issue",
-      "reopen-issue",
-      "set-milestone",
-      "trigger-workflow",
-      "add-reaction",
-      "create-branch",
-      "copy-project",
-      "mark-template",
-      "manage-labels",
-      "add-to-project",
-      "remove-from-project",
-      "update-project-field",
-      "archive-project-item",
-      "manage-project",
-      "manage-project-field",
-      "link-project",
-    ]),
-    z.union([outputConfigSchema, z.boolean()]),
-  )
+  .partialRecord(outputTypeSchema, z.union([outputConfigSchema, z.boolean()]))
+  .optional();
+
+const customOutputSchema = z
+  .strictObject({
+    max: z.number().optional(),
+    approval: z.union([z.boolean(), approvalConfigSchema]).optional(),
+    description: z.string().min(1, { message: "Custom output needs a description" }),
+    schema: z.record(z.string(), z.unknown()).superRefine((schema, ctx) => {
+      try {
+        compileCustomOutputSchema(schema);
+      } catch (error) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Invalid JSON schema: ${(error as Error).message}`,
+        });
+      }
+    }),
+    // Relative to the repository root, and inside it
+    run: z
+      .string()
+      .regex(/^(?!\/)(?!.*(^|\/)\.\.(\/|$)).+$/, "Script must be a path inside the repository")
+      .optional(),
+    dispatch: z.string().min(1).optional(),
+    http: z
+      .strictObject({
+        url: z.url(),
+        method: z.enum(["POST", "PUT", "PATCH"]).optional(),
+        // Values may reference `${{ secrets.NAME }}` or `${{ env.NAME }}`, resolved at runtime
+        headers: z
+          .record(
+            z.string(),
+            z
+              .string()
+              .refine(
+                (value) =>
+                  [...value.matchAll(/\$\{\{(.*?)\}\}/g)].every(([, expression]) =>
+                    /^\s*(secrets|env)\.[A-Za-z_][A-Za-z0-9_]*\s*$/.test(expression),
+                  ),
+                {
+                  message:
+                    "Header values may only reference ${{ secrets.NAME }} or ${{ env.NAME }}",
+                },
+              ),
+          )
+          .optional(),
+      })
+      .optional(),
+  })
+  .refine((output) => [output.run, output.dispatch, output.http].filter(Boolean).length === 1, {
+    message: "Custom output needs exactly one of run, dispatch or http",
+  });
+
+const customOutputsSchema = z
+  .record(z.string(), customOutputSchema)
+  .superRefine((outputs, ctx) => {
+    for (const name of Object.keys(outputs)) {
+      if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(name)) {
+        ctx.addIssue({
+          code: "custom",
+          path: [name],
+          message: `Custom output "${name}" must be kebab-case`,
+        });
+      } else if (outputTypeSchema.safeParse(name).success) {
+        ctx.addIssue({
+          code: "custom",
+          path: [name],
+          message: `Custom output "${name}" must not shadow a built-in output`,
+        });
+      }
+    }
+  })
   .optional();
 
 const toolSchema = z
@@ -345,6 +461,41 @@ const documentationConfigSchema = z
   })
   .optional();
 
+const contextSourceSchema = z.enum([
+  "issues",
+  "pull_requests",
+  "discussions",
+  "commits",
+  "releases",
+  "workflow_runs",
+  "stars",
+  "forks",
+  "security_alerts",
+  "dependabot_prs",
+  "code_scanning_alerts",
+  "deployments",
+  "milestones",
+  "contributors",
+  "comments",
+  "repository_traffic",
+  "branches",
+  "check_runs",
+  "project",
+  "documentation",
+]);
+
+const contextBudgetSchema = z
+  .object({
+    tokens: z.number().int().min(1).optional(),
+    characters: z.number().int().min(1).optional(),
+    item_characters: z.number().int().min(1).optional(),
+    priorities: z.partialRecord(contextSourceSchema, z.enum(["high", "medium", "low"])).optional(),
+  })
+  .refine((budget) => (budget.tokens === undefined) !== (budget.characters === undefined), {
+    message: "Set exactly one of tokens or characters",
+  })
+  .optional();
+
 const contextConfigSchema = z
   .object({
     issues: issuesContextSchema,
@@ -372,6 +523,7 @@ const contextConfigSchema = z
     project_id: z.string().optional(),
     include_dependencies: z.boolean().optional(),
     include_custom_fields: z.array(z.string()).optional(),
+    budget: contextBudgetSchema,
   })
   .optional();
 
@@ -390,6 +542,8 @@ const auditConfigSchema = z
     labels: z.array(z.string()).optional(),
     // Assignees for audit issues
     assignees: z.array(z.string()).optional(),
+    // Close a failure issue after this many consecutive successful runs (default: 3)
+    resolve_after: z.number().int().min(1).optional(),
   })
   .optional();
 
@@ -426,6 +580,12 @@ const timeoutConfigSchema = z
   .optional();
 
 // Tracing configuration schema
+const budgetConfigSchema = z.strictObject({
+  per_run: z.number().positive().optional(),
+  daily: z.number().positive().optional(),
+  monthly: z.number().positive().optional(),
+});
+
 const tracingConfigSchema = z
   .object({
     // Trace level: summary (default), detailed, or debug
@@ -467,8 +627,9 @@ const eventDeduplicationSchema = z
   })
   .optional();
 
+// Strict so that a per-action map is not mistaken for a global config
 const actionDeduplicationSchema = z
-  .object({
+  .strictObject({
     // Enable action deduplication (default: true when configured)
     enabled: z.boolean().optional(),
     // Time window for deduplication
@@ -492,12 +653,69 @@ const deduplicationConfigSchema = z
   })
   .optional();
 
+const mcpServerSchema = z
+  .strictObject({
+    type: z.enum(["stdio", "http", "sse"]).optional(),
+    command: z.string().optional(),
+    args: z.array(z.string()).optional(),
+    env: z.record(z.string(), z.string()).optional(),
+    url: z.url().optional(),
+    headers: z.record(z.string(), z.string()).optional(),
+  })
+  .refine((server) => !!server.command !== !!server.url, {
+    message: "MCP server needs either a command (stdio) or a url (http/sse)",
+  });
+
+const runnerContainerSchema = z.strictObject({
+  image: z.string().min(1),
+  env: z.record(z.string(), z.string()).optional(),
+  ports: z.array(z.union([z.number().int().positive(), z.string().min(1)])).optional(),
+  volumes: z.array(z.string().min(1)).optional(),
+  options: z.string().optional(),
+  credentials: z.strictObject({ username: z.string(), password: z.string() }).optional(),
+});
+
+const runnerSetupStepSchema = z
+  .strictObject({
+    name: z.string().min(1).optional(),
+    uses: z.string().min(1).optional(),
+    with: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional(),
+    run: z.string().min(1).optional(),
+    env: z.record(z.string(), z.string()).optional(),
+  })
+  .refine((step) => !!step.uses !== !!step.run, {
+    message: "Setup step needs either uses or run",
+  });
+
+const runnerConfigSchema = z.strictObject({
+  // Runner labels, e.g. [self-hosted, linux, x64]
+  runs_on: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]).optional(),
+  // Image the job's steps run in
+  container: z.union([z.string().min(1), runnerContainerSchema]).optional(),
+  // Service containers keyed by their hostname
+  services: z.record(z.string().regex(/^[a-zA-Z0-9_-]+$/), runnerContainerSchema).optional(),
+  // Deployment environment; its protection rules gate the job
+  environment: z
+    .union([
+      z.string().min(1),
+      z.strictObject({ name: z.string().min(1), url: z.string().min(1).optional() }),
+    ])
+    .optional(),
+  // Steps run after checkout, before the agent
+  setup_steps: z.array(runnerSetupStepSchema).optional(),
+});
+
 export const agentFrontmatterSchema = z.strictObject({
   name: z.string().min(1, { message: "Agent name is required" }),
   on: triggerConfigSchema,
   permissions: permissionsSchema,
   provider: z.enum(["claude-code", "opencode"]).optional(),
+  model: z.string().min(1).optional(),
+  max_turns: z.number().int().min(1).optional(),
+  allowed_tools: z.array(z.string().min(1)).optional(),
+  mcp_servers: z.record(z.string().regex(/^[a-zA-Z0-9_-]+$/), mcpServerSchema).optional(),
   outputs: outputSchema,
+  custom_outputs: customOutputsSchema,
   tools: toolSchema,
   "allowed-actors": z.array(z.string()).optional(),
   "allowed-users": z.array(z.string()).optional(),
@@ -516,7 +734,38 @@ export const agentFrontmatterSchema = z.strictObject({
   concurrency: concurrencyConfigSchema, // Concurrency settings for debouncing (default: auto-generated based on trigger)
   timeout: timeoutConfigSchema, // Execution timeout in minutes or detailed config
   tracing: tracingConfigSchema, // Execution tracing configuration
+  budget: budgetConfigSchema.optional(), // Spend caps in USD
+  runner: runnerConfigSchema.optional(), // Where the agent's job runs (default: ubuntu-latest)
   deduplication: deduplicationConfigSchema, // Smart deduplication to prevent redundant actions
+  // biome-ignore lint/suspicious/noThenProperty: `then:` is a frontmatter key, never a thenable
+  then: z.array(z.string().min(1)).optional(), // Downstream agents run after this one succeeds
+  needs: z.array(z.string().min(1)).optional(), // Upstream agents this one runs after
 }); // Reject unknown properties
 
 export type AgentFrontmatter = z.infer<typeof agentFrontmatterSchema>;
+
+const stateConfigSchema = z.strictObject({
+  backend: z.enum(["artifact", "git-branch", "local"]).optional(),
+  branch: z.string().min(1).optional(),
+  path: z.string().min(1).optional(),
+});
+
+/**
+ * Frontmatter every agent inherits from the repository config. Names, triggers and
+ * chains are always set per agent.
+ */
+export const agentDefaultsSchema = agentFrontmatterSchema
+  .omit({
+    name: true,
+    on: true,
+    // biome-ignore lint/suspicious/noThenProperty: `then:` is a frontmatter key, never a thenable
+    then: true,
+    needs: true,
+  })
+  .partial();
+
+export const repositoryConfigSchema = z.strictObject({
+  budget: budgetConfigSchema.omit({ per_run: true }).optional(),
+  state: stateConfigSchema.optional(),
+  defaults: agentDefaultsSchema.optional(),
+});
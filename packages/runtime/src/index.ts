@@ -5,6 +5,7 @@ import { join } from "node:path";
 import { Command } from "commander";
 import {
   runAgent,
+  runApproval,
   runAudit,
   runAuditIssues,
   runAuditReport,
@@ -34,6 +35,7 @@ const stages = {
   context: runContext,
   agent: runAgent,
   outputs: runOutputs,
+  approval: runApproval,
   audit: runAudit,
   "audit-report": runAuditReport,
   "audit-issues": runAuditIssues,
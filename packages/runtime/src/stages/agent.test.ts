@@ -225,4 +225,43 @@ Instructions here
     it.todo("should extract metrics from Claude output");
     it.todo("should include artifacts in result");
   });
+
+  describe("runProvider", () => {
+    const options = { prompt: "", allowedTools: [], hasOutputs: false };
+    const provider = (script: string, spentSoFar?: (output: string) => number) =>
+      ({
+        buildCommand: () => ({ command: ["sh", "-c", script] }),
+        spentSoFar,
+      }) as unknown as Parameters<typeof import("./agent").runProvider>[0];
+
+    it("should not block when the provider fills its stderr pipe", async () => {
+      const { runProvider } = await import("./agent");
+
+      const result = await runProvider(
+        provider("yes x | head -c 1000000 >&2; echo done; exit 3"),
+        options,
+      );
+
+      expect(result.exitCode).toBe(3);
+      expect(result.error).toHaveLength(1_000_000);
+    });
+
+    it("should stop the run once the reported spend reaches the budget", async () => {
+      const { runProvider } = await import("./agent");
+      const batches: string[] = [];
+
+      const result = await runProvider(
+        provider("while true; do echo cost; sleep 0.01; done", (output) => {
+          batches.push(output);
+          return output.split("\n").filter((line) => line === "cost").length * 0.1;
+        }),
+        { ...options, maxBudgetUsd: 0.3 },
+      );
+
+      expect(result.budgetExceeded).toBe(true);
+      expect(result.error).toBe("Stopped at the per-run budget of $0.3");
+      // Each line is costed once
+      expect(batches.join("\n").split("\n")).toHaveLength(3);
+    });
+  });
 });
@@ -1,27 +1,47 @@
 import { existsSync } from "node:fs";
-import { copyFile, mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
-import { join } from "node:path";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import {
+  type AgentProviderAdapter,
+  getProviderAdapter,
+  type ProviderMetrics,
+  type ProviderRunOptions,
+  resolveAllowedTools,
+} from "@repo-agents/generator/providers";
 import { generateSkillsSection } from "@repo-agents/generator/skills";
 import { agentParser } from "@repo-agents/parser";
-import type { AuditToolPermissionIssue, AuditToolUsageSummary } from "@repo-agents/types";
+import type {
+  AgentDefinition,
+  AuditToolPermissionIssue,
+  AuditToolUsageSummary,
+} from "@repo-agents/types";
 import { $ } from "bun";
 import type { Stage, StageContext, StageResult } from "../types";
+import { saveSpendRecord } from "../utils/budget";
+import { formatHandoffContext, readHandoffs, writeHandoff } from "../utils/handoff";
+import { getInvocations, matchInvocation } from "../utils/invocations";
+import { saveReplayBundle, saveReplayOutputs } from "../utils/replay";
+import { agentStateScope, openStateStore, recordRun } from "../utils/state";
+import { createTracer, type ExecutionTracer, isTracingEnabled, writeTrace } from "../utils/tracing";
 
 /**
  * Agent execution stage.
  *
- * This stage runs Claude Code CLI with the agent's instructions and collected context.
- * It:
+ * This stage runs the agent's provider CLI (Claude Code by default) with the agent's
+ * instructions and collected context. It:
  * 1. Loads the agent definition from the .md file
- * 2. Builds the context file with event info, payload, and collected context
+ * 2. Builds the context file with event info, payload, collected context and upstream
+ *    handoffs, and saves it with the event to a replay bundle
  * 3. Creates the skills file for Claude
- * 4. Runs Claude Code CLI with appropriate tool permissions
- * 5. Extracts execution metrics
- * 6. Saves artifacts for downstream stages
+ * 4. Runs the provider CLI with the agent's model, tools and MCP servers
+ * 5. Extracts execution metrics and conversation history through the provider
+ * 6. Records an execution trace (if tracing is configured)
+ * 7. Saves artifacts for downstream stages and a handoff for chained agents
  */
 export const runAgent: Stage = async (ctx: StageContext): Promise<StageResult> => {
   const outputs: Record<string, string> = {};
   const artifacts: Array<{ name: string; path: string }> = [];
+  let tracer: ExecutionTracer | undefined;
+  const startedAt = new Date().toISOString();
 
   try {
     // 1. Load agent definition
@@ -38,32 +58,100 @@ export const runAgent: Stage = async (ctx: StageContext): Promise<StageResult> =
       };
     }
 
+    if (isTracingEnabled(agent)) {
+      tracer = createTracer(agent, ctx.runId);
+    }
+
     // Ensure output directories exist
     await mkdir("/tmp/outputs", { recursive: true });
     await mkdir("/tmp/audit", { recursive: true });
     await mkdir(".claude", { recursive: true });
 
-    // 2. Build context file
-    const contextContent = await buildContextFile(ctx, agent.markdown);
+    // 2. Build context file (replays reuse the context recorded by the original run)
+    const contextStartedAt = Date.now();
+    const { context: eventContext, event } =
+      ctx.replayContext !== undefined
+        ? { context: ctx.replayContext, event: undefined }
+        : await buildEventContext(ctx, agent);
+    const contextContent = composePrompt(eventContext, agent.markdown);
     await writeFile("/tmp/context.txt", contextContent);
+    await saveReplayBundle(
+      {
+        agent: agent.name,
+        run_id: ctx.runId,
+        repository: ctx.repository,
+        event_name: ctx.eventName,
+        actor: ctx.actor,
+      },
+      eventContext,
+      agent.markdown,
+      event,
+    ).catch((error) => console.warn("Failed to save replay bundle:", error));
+    tracer?.recordStep(
+      "build-context",
+      "/tmp/context.txt",
+      "success",
+      Date.now() - contextStartedAt,
+      {
+        characters: contextContent.length,
+        collected_context: existsSync("/tmp/context/collected.md"),
+      },
+    );
 
     // 3. Create skills file
     if (agent.outputs && Object.keys(agent.outputs).length > 0) {
-      const skillsContent = generateSkillsSection(agent.outputs, agent.allowed_paths);
+      const skillsContent = generateSkillsSection(
+        agent.outputs,
+        agent.allowed_paths,
+        agent.custom_outputs,
+      );
       if (skillsContent) {
         await writeFile(".claude/CLAUDE.md", skillsContent);
+        tracer?.recordStep("write-skills", ".claude/CLAUDE.md", "success", undefined, {
+          outputs: Object.keys(agent.outputs),
+        });
       }
     }
 
     // 4. Build allowed tools list
-    const hasOutputs = agent.outputs && Object.keys(agent.outputs).length > 0;
-    const allowedTools = hasOutputs ? "Write,Read,Glob,Grep" : "Read,Glob,Grep";
+    const hasOutputs = !!agent.outputs && Object.keys(agent.outputs).length > 0;
+    const allowedTools = resolveAllowedTools(agent);
+    const provider = getProviderAdapter(agent.provider);
+
+    // 5. Run the provider CLI
+    const claudeStartedAt = Date.now();
+    const claudeResult = await runProvider(provider, {
+      prompt: contextContent,
+      allowedTools,
+      hasOutputs,
+      model: agent.model,
+      maxTurns: agent.max_turns,
+      maxBudgetUsd: agent.budget?.per_run,
+      mcpServers: agent.mcp_servers,
+    });
+    tracer?.recordStep(
+      "run-claude",
+      undefined,
+      claudeResult.exitCode === 0 ? "success" : "failure",
+      Date.now() - claudeStartedAt,
+      {
+        provider: provider.id,
+        model: agent.model,
+        allowed_tools: allowedTools.join(","),
+        exit_code: claudeResult.exitCode,
+        error: claudeResult.error,
+      },
+    );
 
-    // 5. Run Claude Code CLI
-    const claudeResult = await runClaudeCode(allowedTools);
+    // Keep the raw output files for replays; the outputs stage consumes them
+    if (hasOutputs) {
+      await saveReplayOutputs().catch((error) =>
+        console.warn("Failed to save outputs for replay:", error),
+      );
+    }
 
     // 6. Extract metrics from claude-output.json
-    const metrics = await extractMetrics();
+    const metrics = await extractMetrics(provider);
 
     // Set outputs
     outputs.cost = String(metrics.total_cost_usd ?? "N/A");
@@ -72,11 +160,26 @@ export const runAgent: Stage = async (ctx: StageContext): Promise<StageResult> =
     outputs["session-id"] = metrics.session_id ?? "N/A";
     outputs["is-error"] = String(metrics.is_error ?? claudeResult.exitCode !== 0);
 
+    // Runs at or over the per-run budget were cut off by the provider or by runProvider
+    const perRunBudget = agent.budget?.per_run;
+    if (
+      claudeResult.budgetExceeded ||
+      (perRunBudget !== undefined && (metrics.total_cost_usd ?? 0) >= perRunBudget)
+    ) {
+      outputs["budget-exceeded"] = "true";
+      console.warn(`Run stopped at the per-run budget of $${perRunBudget}`);
+    }
+
+    // Add this run to the spend history used by budget checks
+    if (process.env.TRACK_SPEND === "true") {
+      await trackSpend(ctx, agent.name, metrics.total_cost_usd ?? 0);
+    }
+
     // 7. Save metrics artifact
     await writeFile("/tmp/audit/metrics.json", JSON.stringify(metrics, null, 2));
 
     // 8. Capture conversation history from Claude Code session
-    const conversationPath = await captureConversationHistory(metrics.session_id);
+    const conversationPath = await captureConversationHistory(provider, metrics.session_id);
     if (conversationPath) {
       outputs["conversation-file"] = "conversation.jsonl";
     }
@@ -87,6 +190,45 @@ export const runAgent: Stage = async (ctx: StageContext): Promise<StageResult> =
       : { total_calls: 0, by_tool: {}, permission_issues: [] };
     await writeFile("/tmp/audit/tool-usage.json", JSON.stringify(toolUsage, null, 2));
 
+    const succeeded = claudeResult.exitCode === 0 && !metrics.is_error;
+
+    // 10. Write the execution trace (the outputs stage continues it)
+    if (tracer) {
+      if (conversationPath) {
+        await traceConversation(tracer, conversationPath);
+      }
+      if (metrics.result) {
+        tracer.recordDecision(
+          "What did the agent conclude?",
+          `${ctx.eventName} event in ${ctx.repository}`,
+          metrics.result,
+        );
+      }
+      const rawOutput = existsSync("/tmp/claude-output.json")
+        ? await readFile("/tmp/claude-output.json", "utf-8")
+        : undefined;
+      await writeTrace(tracer.complete(succeeded ? "success" : "failure", rawOutput));
+      outputs["trace-id"] = tracer.getTraceId();
+    }
+
+    // 11. Record the run for rate limits and `since: last-run` (dry runs leave no history)
+    if (!ctx.dryRun) {
+      await recordAgentRun(ctx, agent.name, startedAt, succeeded);
+    }
+
+    // 12. Hand off the result and output files to chained agents
+    if (process.env.HANDOFF_ARTIFACT) {
+      await writeHandoff(process.env.HANDOFF_ARTIFACT, {
+        schema_version: "1.0.0",
+        agent: agent.name,
+        run_id: ctx.runId,
+        success: succeeded,
+        result: metrics.result,
+        cost_usd: metrics.total_cost_usd,
+        turns: metrics.num_turns,
+      }).catch((error) => console.warn("Failed to write handoff:", error));
+    }
+
     artifacts.push({ name: "audit-metrics", path: "/tmp/audit/" });
 
     // Upload outputs if any were created
@@ -95,12 +237,16 @@ export const runAgent: Stage = async (ctx: StageContext): Promise<StageResult> =
     }
 
     return {
-      success: claudeResult.exitCode === 0 && !metrics.is_error,
+      success: succeeded,
       outputs,
       artifacts,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
+    if (tracer) {
+      tracer.recordStep("error", undefined, "failure", undefined, { error: errorMessage });
+      await writeTrace(tracer.complete("failure")).catch(() => {});
+    }
     return {
       success: false,
       outputs: {
@@ -112,18 +258,163 @@ export const runAgent: Stage = async (ctx: StageContext): Promise<StageResult> =
   }
 };
 
+interface RepositoryEventPayload {
+  ref?: string;
+  before?: string;
+  after?: string;
+  compare?: string;
+  pusher?: { name?: string };
+  sender?: { login?: string };
+  commits?: Array<{
+    id?: string;
+    message?: string;
+    added?: string[];
+    modified?: string[];
+    removed?: string[];
+  }>;
+  release?: {
+    name?: string;
+    tag_name: string;
+    author?: { login?: string };
+    prerelease?: boolean;
+    html_url?: string;
+    body?: string;
+  };
+  workflow_run?: {
+    name: string;
+    run_number: number;
+    status: string;
+    conclusion?: string | null;
+    event?: string;
+    head_branch: string;
+    head_sha: string;
+    html_url?: string;
+    pull_requests?: Array<{ number: number }>;
+  };
+}
+
 /**
- * Builds the context file content with:
+ * Format push, release and workflow_run payloads for the context file.
+ * Returns no lines for other events.
+ */
+function formatRepositoryEvent(event: RepositoryEventPayload): string[] {
+  const lines: string[] = [];
+
+  if (event.release) {
+    const release = event.release;
+    lines.push(`Release: ${release.name || release.tag_name}`);
+    lines.push(`Tag: ${release.tag_name}`);
+    lines.push(`Author: @${release.author?.login || "unknown"}`);
+    if (release.prerelease) {
+      lines.push("Pre-release: yes");
+    }
+    if (release.html_url) {
+      lines.push(`URL: ${release.html_url}`);
+    }
+    if (release.body) {
+      lines.push("Notes:");
+      lines.push(release.body);
+    }
+    lines.push("");
+  }
+
+  if (event.workflow_run) {
+    const run = event.workflow_run;
+    lines.push(`Workflow Run: ${run.name} #${run.run_number}`);
+    lines.push(`Status: ${run.status}${run.conclusion ? ` (${run.conclusion})` : ""}`);
+    lines.push(`Branch: ${run.head_branch}`);
+    lines.push(`Commit: ${run.head_sha}`);
+    if (run.event) {
+      lines.push(`Triggered By: ${run.event}`);
+    }
+    if (run.html_url) {
+      lines.push(`URL: ${run.html_url}`);
+    }
+    if (run.pull_requests && run.pull_requests.length > 0) {
+      lines.push(`Pull Requests: ${run.pull_requests.map((pr) => `#${pr.number}`).join(", ")}`);
+    }
+    lines.push("");
+  }
+
+  if (event.ref && event.commits) {
+    lines.push(`Push: ${event.ref}`);
+    lines.push(`Pusher: @${event.pusher?.name || event.sender?.login || "unknown"}`);
+    if (event.before && event.after) {
+      lines.push(`Range: ${event.before.slice(0, 7)}..${event.after.slice(0, 7)}`);
+    }
+    if (event.compare) {
+      lines.push(`Compare: ${event.compare}`);
+    }
+    if (event.commits.length > 0) {
+      lines.push("Commits:");
+      for (const commit of event.commits) {
+        lines.push(`- ${(commit.id ?? "").slice(0, 7)} ${(commit.message ?? "").split("\n")[0]}`);
+        lines.push(...(commit.added ?? []).map((file) => `  A ${file}`));
+        lines.push(...(commit.modified ?? []).map((file) => `  M ${file}`));
+        lines.push(...(commit.removed ?? []).map((file) => `  D ${file}`));
+      }
+    }
+    lines.push("");
+  }
+
+  return lines;
+}
+
+/**
+ * Format the slash command of an issue_comment payload with its parsed arguments.
+ * Returns no lines when the comment does not invoke the agent.
+ */
+function formatInvocationEvent(
+  agent: AgentDefinition,
+  event: { comment?: { body?: string; user?: { login?: string } } },
+): string[] {
+  const parsed = event.comment?.body
+    ? matchInvocation(getInvocations(agent), event.comment.body)
+    : null;
+  if (!parsed) {
+    return [];
+  }
+
+  const lines = [
+    `Command: /${parsed.invocation.command}`,
+    `Invoked By: @${event.comment?.user?.login || "unknown"}`,
+  ];
+  const args = Object.entries(parsed.args);
+  if (args.length > 0) {
+    lines.push("Arguments:");
+    for (const [name, value] of args) {
+      lines.push(`- ${name}: ${value}`);
+    }
+  }
+  if (parsed.text) {
+    lines.push(`Request: ${parsed.text}`);
+  }
+  lines.push("Comment:");
+  lines.push(event.comment?.body ?? "");
+  lines.push("");
+
+  return lines;
+}
+
+/**
+ * Builds the prompt context with:
  * - GitHub event info (repo, event name)
  * - Event payload (issue/PR details if applicable)
+ * - Invoked command and its arguments (for slash-command comments)
  * - Collected context (if exists at /tmp/context/collected.md)
+ * - Results and output files of upstream agents (for chained agents)
  * - Available labels (fetched from repo for label outputs)
- * - Agent instructions (the markdown body from agent definition)
+ *
+ * Also returns the parsed event payload so it can be saved for replays.
  */
-async function buildContextFile(ctx: StageContext, agentInstructions: string): Promise<string> {
+async function buildEventContext(
+  ctx: StageContext,
+  agent: AgentDefinition,
+): Promise<{ context: string; event?: unknown }> {
   const sections: string[] = [];
 
   let eventHandled = false;
+  let recordedEvent: unknown;
 
   // Priority 1: Check for EVENT_PAYLOAD environment variable (from dispatcher)
   // Note: EVENT_PAYLOAD is base64-encoded to avoid newline issues with GitHub Actions
@@ -133,6 +424,7 @@ async function buildContextFile(ctx: StageContext, agentInstructions: string): P
       // Decode base64 payload
       const decodedPayload = Buffer.from(eventPayloadEnv, "base64").toString("utf-8");
       const event = JSON.parse(decodedPayload);
+      recordedEvent = event;
 
       // Extract event metadata
       sections.push(`GitHub Event: ${ctx.eventName}`);
@@ -175,6 +467,9 @@ async function buildContextFile(ctx: StageContext, agentInstructions: string): P
         sections.push("");
       }
 
+      sections.push(...formatRepositoryEvent(event));
+      sections.push(...formatInvocationEvent(agent, event));
+
       eventHandled = true;
     } catch (error) {
       console.warn("Failed to parse EVENT_PAYLOAD:", error);
@@ -193,6 +488,7 @@ async function buildContextFile(ctx: StageContext, agentInstructions: string): P
       try {
         const eventPayload = await readFile(ctx.eventPath, "utf-8");
         const event = JSON.parse(eventPayload);
+        recordedEvent = event;
 
         // Add issue context if present
         if (event.issue) {
@@ -227,6 +523,9 @@ async function buildContextFile(ctx: StageContext, agentInstructions: string): P
           }
           sections.push("");
         }
+
+        sections.push(...formatRepositoryEvent(event));
+        sections.push(...formatInvocationEvent(agent, event));
       } catch {
         // Failed to parse event payload - continue without it
       }
@@ -251,6 +550,9 @@ async function buildContextFile(ctx: StageContext, agentInstructions: string): P
     }
   }
 
+  // Add the handoffs of upstream agents
+  sections.push(...formatHandoffContext(await readHandoffs()));
+
   // Fetch available labels for label-related outputs
   try {
     const labelsResult =
@@ -274,45 +576,90 @@ async function buildContextFile(ctx: StageContext, agentInstructions: string): P
     // Failed to fetch labels - continue without them
   }
 
-  // Add agent instructions
-  sections.push("---");
-  sections.push("");
-  sections.push(agentInstructions);
+  return { context: sections.join("\n"), event: recordedEvent };
+}
 
-  return sections.join("\n");
+/**
+ * Appends the agent instructions (the markdown body from the agent definition) to the
+ * prompt context.
+ */
+function composePrompt(context: string, agentInstructions: string): string {
+  return `${context}\n---\n\n${agentInstructions}`;
 }
 
 /**
- * Runs Claude Code CLI with the context file as input.
+ * Runs the provider CLI with the context as input.
+ * Raw output goes to /tmp/claude-output.json whatever the provider, so downstream
+ * stages and audits find it in one place.
  * Returns the exit code and any error message.
  */
-async function runClaudeCode(allowedTools: string): Promise<{ exitCode: number; error?: string }> {
+export async function runProvider(
+  provider: AgentProviderAdapter,
+  options: ProviderRunOptions,
+): Promise<{ exitCode: number; error?: string; budgetExceeded?: boolean }> {
   try {
-    // Read context file to pass as stdin
-    const contextContent = await readFile("/tmp/context.txt", "utf-8");
+    const { command, stdin, env, files } = provider.buildCommand(options);
+
+    for (const [path, content] of Object.entries(files ?? {})) {
+      await writeFile(path, content);
+    }
 
-    // Use Bun shell's stdin redirection from a Response object
-    const contextBlob = new Response(contextContent);
+    const proc = Bun.spawn(command, {
+      stdin: new Response(stdin ?? ""),
+      stdout: "pipe",
+      stderr: "pipe",
+      env: { ...process.env, ...env },
+    });
+
+    // Stream stdout so providers without a native spend cap can be stopped mid-run.
+    // Spend is summed over complete lines as they arrive rather than re-read from the start.
+    const decoder = new TextDecoder();
+    let stdout = "";
+    let pendingLine = "";
+    let spent = 0;
+    let budgetExceeded = false;
+    const readStdout = async () => {
+      for await (const chunk of proc.stdout) {
+        const text = decoder.decode(chunk, { stream: true });
+        stdout += text;
+        if (!options.maxBudgetUsd || !provider.spentSoFar || budgetExceeded) {
+          continue;
+        }
+        const lines = (pendingLine + text).split("\n");
+        pendingLine = lines.pop() ?? "";
+        spent += lines.length > 0 ? provider.spentSoFar(lines.join("\n")) : 0;
+        if (spent >= options.maxBudgetUsd) {
+          budgetExceeded = true;
+          proc.kill();
+        }
+      }
+    };
 
-    // Build the command - use bunx to run Claude Code with stdin redirection
-    const result =
-      await $`bunx --bun @anthropic-ai/claude-code --allowedTools ${allowedTools} --output-format json --print < ${contextBlob}`
-        .quiet()
-        .nothrow();
+    // stderr is drained alongside stdout so a provider filling its pipe cannot block
+    const [, stderr] = await Promise.all([readStdout(), new Response(proc.stderr).text()]);
+    const exitCode = await proc.exited;
 
     // Write output to file for metrics extraction
-    if (result.stdout) {
-      await writeFile("/tmp/claude-output.json", result.stdout.toString());
+    if (stdout) {
+      await writeFile("/tmp/claude-output.json", stdout);
     }
 
-    if (result.exitCode !== 0 && result.stderr) {
+    if (budgetExceeded) {
       return {
-        exitCode: result.exitCode,
-        error: result.stderr.toString(),
+        exitCode: exitCode || 1,
+        error: `Stopped at the per-run budget of $${options.maxBudgetUsd}`,
+        budgetExceeded,
       };
     }
 
-    return { exitCode: result.exitCode };
+    if (exitCode !== 0 && stderr) {
+      return {
+        exitCode,
+        error: stderr,
+      };
+    }
+
+    return { exitCode };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     return {
@@ -323,84 +670,83 @@ async function runClaudeCode(allowedTools: string): Promise<{ exitCode: number;
 }
 
 /**
- * Extracts execution metrics from the Claude output JSON.
+ * Append the run's cost to the agent's spend state in the state store.
+ * A failure here must not fail the run, so errors are only logged.
+ */
+async function trackSpend(ctx: StageContext, agentName: string, cost: number): Promise<void> {
+  try {
+    const store = await openStateStore(ctx.repository);
+    await saveSpendRecord(store, {
+      agent: agentName,
+      run_id: ctx.runId,
+      timestamp: new Date().toISOString(),
+      cost_usd: cost,
+    });
+  } catch (error) {
+    console.warn("Failed to record spend:", error);
+  }
+}
+
+/**
+ * Add the run to the agent's run history in the state store.
+ * A failure here must not fail the run, so errors are only logged.
+ */
+async function recordAgentRun(
+  ctx: StageContext,
+  agentName: string,
+  startedAt: string,
+  succeeded: boolean,
+): Promise<void> {
+  try {
+    const store = await openStateStore(ctx.repository);
+    await recordRun(store, agentStateScope(agentName), {
+      run_id: ctx.runId,
+      timestamp: startedAt,
+      conclusion: succeeded ? "success" : "failure",
+    });
+  } catch (error) {
+    console.warn("Failed to record run history:", error);
+  }
+}
+
+/**
+ * Extracts execution metrics from the provider output.
  */
-async function extractMetrics(): Promise<{
-  total_cost_usd?: number;
-  num_turns?: number;
-  duration_ms?: number;
-  duration_api_ms?: number;
-  session_id?: string;
-  is_error?: boolean;
-  result?: string;
-}> {
+async function extractMetrics(provider: AgentProviderAdapter): Promise<ProviderMetrics> {
   try {
     if (!existsSync("/tmp/claude-output.json")) {
       return { is_error: true };
     }
 
-    const outputContent = await readFile("/tmp/claude-output.json", "utf-8");
-    const output = JSON.parse(outputContent);
-
-    return {
-      total_cost_usd: output.total_cost_usd,
-      num_turns: output.num_turns,
-      duration_ms: output.duration_ms,
-      duration_api_ms: output.duration_api_ms,
-      session_id: output.session_id,
-      is_error: output.is_error ?? false,
-      result: output.result,
-    };
+    return provider.extractMetrics(await readFile("/tmp/claude-output.json", "utf-8"));
   } catch {
     return { is_error: true };
   }
 }
 
 /**
- * Captures the conversation history from Claude Code's session storage.
- * Claude Code stores sessions in ~/.claude/projects/[encoded-path]/[session-id].jsonl
+ * Captures the conversation history of the run through the provider and saves it
+ * to the audit directory.
  */
-async function captureConversationHistory(sessionId?: string): Promise<string | undefined> {
-  const homeDir = process.env.HOME || "/root";
-  const workDir = process.cwd();
-
-  // Claude Code encodes project paths by replacing / with - and prefixing with -
-  const encodedPath = workDir.replace(/\//g, "-").replace(/^-/, "");
-  const claudeProjectDir = join(homeDir, ".claude", "projects", encodedPath);
-
+async function captureConversationHistory(
+  provider: AgentProviderAdapter,
+  sessionId?: string,
+): Promise<string | undefined> {
   try {
-    // Try to find session file by session_id first
-    if (sessionId) {
-      const sessionFile = join(claudeProjectDir, `${sessionId}.jsonl`);
-      if (existsSync(sessionFile)) {
-        await copyFile(sessionFile, "/tmp/audit/conversation.jsonl");
-        return "/tmp/audit/conversation.jsonl";
-      }
-    }
-
-    // Fallback: find most recent .jsonl file in the project directory
-    if (!existsSync(claudeProjectDir)) {
-      return undefined;
-    }
-
-    const files = await readdir(claudeProjectDir);
-    const jsonlFiles = files.filter((f) => f.endsWith(".jsonl"));
-
-    if (jsonlFiles.length === 0) {
+    const conversation = await provider.extractConversation({
+      output: existsSync("/tmp/claude-output.json")
+        ? await readFile("/tmp/claude-output.json", "utf-8")
+        : "",
+      sessionId,
+      homeDir: process.env.HOME || "/root",
+      workDir: process.cwd(),
+    });
+
+    if (!conversation) {
       return undefined;
     }
 
-    // Sort by modification time and get most recent
-    const filesWithStats = await Promise.all(
-      jsonlFiles.map(async (f) => ({
-        name: f,
-        mtime: (await stat(join(claudeProjectDir, f))).mtime,
-      })),
-    );
-    filesWithStats.sort((a, b) => b.mtime.getTime() - a.mtime.getTime());
-
-    const mostRecentFile = join(claudeProjectDir, filesWithStats[0].name);
-    await copyFile(mostRecentFile, "/tmp/audit/conversation.jsonl");
+    await writeFile("/tmp/audit/conversation.jsonl", conversation);
     return "/tmp/audit/conversation.jsonl";
   } catch (error) {
     console.warn("Failed to capture conversation history:", error);
@@ -434,9 +780,11 @@ async function extractToolUsage(conversationPath: string): Promise<AuditToolUsag
       try {
         const msg = JSON.parse(line);
 
-        // Handle messages with content array (Claude API format)
-        if (msg.content && Array.isArray(msg.content)) {
-          for (const block of msg.content) {
+        // Handle messages with content array (Claude API format); session files
+        // nest the API message under `message`
+        const blocks = msg.message?.content ?? msg.content;
+        if (Array.isArray(blocks)) {
+          for (const block of blocks) {
             // Track tool_use blocks
             if (block.type === "tool_use") {
               const toolName = block.name;
@@ -494,6 +842,75 @@ async function extractToolUsage(conversationPath: string): Promise<AuditToolUsag
   return summary;
 }
 
+/**
+ * Add the tool calls from the conversation history to the trace, in the order Claude made them.
+ * Each call becomes a step targeting the file or pattern it worked on.
+ */
+async function traceConversation(tracer: ExecutionTracer, conversationPath: string): Promise<void> {
+  const calls = new Map<
+    string,
+    { tool: string; input: Record<string, unknown>; startedAt?: number }
+  >();
+
+  try {
+    const content = await readFile(conversationPath, "utf-8");
+
+    for (const line of content.split("\n").filter(Boolean)) {
+      let msg: {
+        timestamp?: string;
+        content?: unknown;
+        message?: { content?: unknown };
+      };
+      try {
+        msg = JSON.parse(line);
+      } catch {
+        continue;
+      }
+
+      // Session files nest the API message under `message`
+      const blocks = msg.message?.content ?? msg.content;
+      if (!Array.isArray(blocks)) {
+        continue;
+      }
+      const time = msg.timestamp ? new Date(msg.timestamp).getTime() : undefined;
+
+      for (const block of blocks) {
+        if (block.type === "tool_use" && block.id) {
+          calls.set(block.id, { tool: block.name, input: block.input ?? {}, startedAt: time });
+        }
+
+        if (block.type === "tool_result" && block.tool_use_id) {
+          const call = calls.get(block.tool_use_id);
+          if (!call) {
+            continue;
+          }
+          calls.delete(block.tool_use_id);
+
+          const result = block.is_error === true ? "failure" : "success";
+          const duration = time && call.startedAt ? time - call.startedAt : 0;
+          const error =
+            result === "failure"
+              ? typeof block.content === "string"
+                ? block.content
+                : JSON.stringify(block.content)
+              : undefined;
+          const target = call.input.file_path ?? call.input.path ?? call.input.pattern;
+
+          tracer.recordToolCall(call.tool, call.input, result, duration, error);
+          tracer.recordStep(
+            call.tool.toLowerCase(),
+            typeof target === "string" ? target : undefined,
+            result,
+            duration,
+          );
+        }
+      }
+    }
+  } catch (error) {
+    console.warn("Failed to trace conversation:", error);
+  }
+}
+
 /**
  * Check if an error message indicates a permission issue.
  */
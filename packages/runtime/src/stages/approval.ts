@@ -0,0 +1,140 @@
+import { existsSync } from "node:fs";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { agentParser } from "@repo-agents/parser";
+import type { StageContext, StageResult } from "../types";
+import {
+  canApprove,
+  getApprovalCommand,
+  loadPendingApproval,
+  type PendingApproval,
+  publishApprovalComment,
+  savePendingApproval,
+} from "../utils/approvals";
+import { ghApi } from "../utils/github";
+import { agentStateScope, openStateStore, type StateStore } from "../utils/state";
+import { OUTPUTS_DIR, runOutputs, VALIDATION_ERRORS_DIR } from "./outputs";
+
+/**
+ * Approval stage - decides a plan held back by the outputs stage.
+ *
+ * Runs on the /approve or /deny comment the dispatcher routed to the agent:
+ * 1. Loads the agent's pending plan for the issue/PR
+ * 2. Expires the plan if its deadline has passed
+ * 3. Checks that the commenter may decide the plan
+ * 4. On /approve, executes the held outputs against the original event
+ * 5. Updates the plan comment and saves the decision
+ */
+export async function runApproval(ctx: StageContext): Promise<StageResult> {
+  const { agent, errors } = await agentParser.parseFile(ctx.agentPath);
+  if (!agent || errors.some((e) => e.severity === "error")) {
+    return {
+      success: false,
+      outputs: {
+        error: `Failed to parse agent definition: ${errors.map((e) => e.message).join(", ")}`,
+      },
+    };
+  }
+
+  const event = await readEvent(ctx.eventPath);
+  const command = getApprovalCommand(event?.comment?.body ?? "");
+  const issueNumber = event?.issue?.number;
+  if (!command || !issueNumber) {
+    return { success: true, outputs: {}, skipReason: "Comment does not decide a plan" };
+  }
+
+  const store = await openStateStore(ctx.repository);
+  const scope = agentStateScope(agent.name);
+  const pending = await loadPendingApproval(store, scope, issueNumber);
+  if (!pending || pending.status !== "pending") {
+    return { success: true, outputs: {}, skipReason: `No pending plan on #${issueNumber}` };
+  }
+
+  if (Date.parse(pending.expires_at) <= Date.now()) {
+    pending.status = "expired";
+    await decide(ctx, store, scope, pending);
+    return { success: true, outputs: { status: "expired" }, skipReason: "Plan expired" };
+  }
+
+  if (!(await canApprove(ctx.repository, ctx.actor, pending.approvers))) {
+    await ghApi(`repos/${ctx.repository}/issues/${issueNumber}/comments`, {
+      method: "POST",
+      body: { body: `@${ctx.actor} is not allowed to ${command} the plan of **${agent.name}**.` },
+    });
+    return {
+      success: true,
+      outputs: {},
+      skipReason: `User ${ctx.actor} is not allowed to decide the plan`,
+    };
+  }
+
+  pending.decided_by = ctx.actor;
+  pending.decided_at = new Date().toISOString();
+
+  if (command === "deny") {
+    pending.status = "denied";
+    await decide(ctx, store, scope, pending);
+    console.log(`Plan of run ${pending.run_id} denied by ${ctx.actor}`);
+    return { success: true, outputs: { status: "denied" } };
+  }
+
+  // Restore the held outputs and the event of the original run
+  await mkdir(OUTPUTS_DIR, { recursive: true });
+  for (const output of pending.outputs) {
+    await writeFile(join(OUTPUTS_DIR, output.file), JSON.stringify(output.data, null, 2));
+  }
+  if (pending.event_payload) {
+    process.env.EVENT_PAYLOAD = pending.event_payload;
+  }
+
+  const result = await runOutputs({ ...ctx, approved: true });
+  pending.status = "approved";
+  pending.errors = await readValidationErrors();
+  await decide(ctx, store, scope, pending);
+  console.log(`Plan of run ${pending.run_id} approved by ${ctx.actor}`);
+
+  return { success: result.success, outputs: { ...result.outputs, status: "approved" } };
+}
+
+/**
+ * Update the plan comment and persist the decision.
+ */
+async function decide(
+  ctx: StageContext,
+  store: StateStore,
+  scope: string,
+  pending: PendingApproval,
+): Promise<void> {
+  try {
+    await publishApprovalComment(ctx.repository, pending);
+  } catch (error) {
+    console.warn("Failed to update the approval comment:", error);
+  }
+  await savePendingApproval(store, scope, pending);
+}
+
+async function readValidationErrors(): Promise<string[]> {
+  if (!existsSync(VALIDATION_ERRORS_DIR)) {
+    return [];
+  }
+  const errors: string[] = [];
+  for (const file of await readdir(VALIDATION_ERRORS_DIR)) {
+    if (file.endsWith(".json")) {
+      errors.push(...JSON.parse(await readFile(join(VALIDATION_ERRORS_DIR, file), "utf-8")));
+    }
+  }
+  return errors;
+}
+
+async function readEvent(
+  eventPath: string,
+): Promise<{ comment?: { body?: string }; issue?: { number?: number } } | undefined> {
+  if (!eventPath || !existsSync(eventPath)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(await readFile(eventPath, "utf-8"));
+  } catch {
+    return undefined;
+  }
+}
@@ -1,11 +1,12 @@
 /**
- * Audit Issues stage - creates or updates GitHub issues for failed agents.
+ * Audit Issues stage - keeps one GitHub issue per distinct failure of an agent.
  *
- * This stage runs for each failed agent (via matrix strategy) to:
+ * This stage runs for each audited agent (via matrix strategy) to:
  * 1. Load the agent's audit manifest
  * 2. Check if issue creation is enabled in agent config
- * 3. Search for existing failure issues
- * 4. Create new issue or add comment to existing one
+ * 3. Find the agent's open failure issues by their fingerprint record
+ * 4. On failure, create an issue for a new fingerprint or count another occurrence
+ * 5. On success, close issues once the agent has recovered for enough runs
  */
 
 import { existsSync } from "node:fs";
@@ -17,9 +18,23 @@ import type { AuditManifest } from "@repo-agents/types";
 import { $ } from "bun";
 
 import type { Stage, StageContext, StageResult } from "../types";
+import {
+  DEFAULT_RESOLVE_AFTER,
+  type FailureRecord,
+  fingerprintFailure,
+  formatResolutionSummary,
+  readFailureRecord,
+  writeFailureRecord,
+} from "../utils/failure-issues";
+
+interface FailureIssue {
+  number: number;
+  body: string;
+  record: FailureRecord;
+}
 
 /**
- * Audit issues stage: creates/updates GitHub issues for failed agents.
+ * Audit issues stage: creates, updates and resolves GitHub issues for agent failures.
  */
 export const runAuditIssues: Stage = async (ctx: StageContext): Promise<StageResult> => {
   console.log("=== Audit Issues Stage ===");
@@ -83,28 +98,97 @@ export const runAuditIssues: Stage = async (ctx: StageContext): Promise<StageRes
     };
   }
 
-  // 3. Search for existing failure issue
   const labels = auditConfig.labels ?? ["agent-failure"];
-  const existingIssue = await findExistingIssue(agentName, labels);
+  const resolveAfter = auditConfig.resolve_after ?? DEFAULT_RESOLVE_AFTER;
+  const serverUrl = process.env.GITHUB_SERVER_URL ?? "https://github.com";
+  const runUrl = `${serverUrl}/${ctx.repository}/actions/runs/${ctx.runId}`;
 
-  // 4. Build issue body
-  const issueBody = buildIssueBody(manifest, ctx);
+  try {
+    // 3. Find this agent's open failure issues
+    const openIssues = await findFailureIssues(agentSlug, labels);
+
+    // 5. A successful run counts towards resolving every open issue
+    if (!manifest.failures.has_failures) {
+      const resolved: number[] = [];
+
+      for (const issue of openIssues) {
+        const record = {
+          ...issue.record,
+          consecutive_successes: issue.record.consecutive_successes + 1,
+        };
+
+        if (record.consecutive_successes >= resolveAfter) {
+          console.log(`Closing recovered failure issue #${issue.number}`);
+          await $`gh issue edit ${issue.number} --body ${writeFailureRecord(issue.body, record, resolveAfter)}`.quiet();
+          await $`gh issue close ${issue.number} --reason completed --comment ${formatResolutionSummary(record)}`.quiet();
+          resolved.push(issue.number);
+        } else {
+          await $`gh issue edit ${issue.number} --body ${writeFailureRecord(issue.body, record, resolveAfter)}`.quiet();
+        }
+      }
 
-  // 5. Create or update issue
-  let issueUrl: string | undefined;
+      return {
+        success: true,
+        outputs: {
+          ...(resolved.length > 0 && { "resolved-issues": resolved.join(",") }),
+        },
+      };
+    }
 
-  try {
-    if (existingIssue) {
-      console.log(`Adding comment to existing issue #${existingIssue}`);
-      await $`gh issue comment ${existingIssue} --body ${issueBody}`.quiet();
+    // 4. Match the failure to an open issue by its fingerprint
+    const errorMessage = extractErrorMessage(manifest);
+    const category = manifest.failures.reasons[0]?.category ?? "execution";
+    const fingerprint = fingerprintFailure(agentSlug, category, errorMessage);
+    const seenAt = manifest.metadata.timing.workflow_started_at || new Date().toISOString();
+    const existingIssue = openIssues.find((issue) => issue.record.fingerprint === fingerprint);
+
+    // Any failure interrupts the agent's recovery from its other failures
+    for (const issue of openIssues) {
+      if (issue !== existingIssue && issue.record.consecutive_successes > 0) {
+        const record = { ...issue.record, consecutive_successes: 0 };
+        await $`gh issue edit ${issue.number} --body ${writeFailureRecord(issue.body, record, resolveAfter)}`.quiet();
+      }
+    }
 
-      const serverUrl = process.env.GITHUB_SERVER_URL ?? "https://github.com";
-      issueUrl = `${serverUrl}/${ctx.repository}/issues/${existingIssue}`;
-    } else {
-      console.log("Creating new failure issue");
-      const title = `${agentName}: Agent Execution Failed`;
+    const issueBody = buildIssueBody(manifest, ctx);
+    let issueUrl: string;
 
-      const args: string[] = ["issue", "create", "--title", title, "--body", issueBody];
+    if (existingIssue) {
+      console.log(`Recording another occurrence on issue #${existingIssue.number}`);
+      const record: FailureRecord = {
+        ...existingIssue.record,
+        occurrences: existingIssue.record.occurrences + 1,
+        last_seen: seenAt,
+        last_run_url: runUrl,
+        consecutive_successes: 0,
+      };
+
+      await $`gh issue edit ${existingIssue.number} --body ${writeFailureRecord(existingIssue.body, record, resolveAfter)}`.quiet();
+      await $`gh issue comment ${existingIssue.number} --body ${issueBody}`.quiet();
+      issueUrl = `${serverUrl}/${ctx.repository}/issues/${existingIssue.number}`;
+    } else {
+      console.log(`Creating new failure issue for fingerprint ${fingerprint}`);
+      const record: FailureRecord = {
+        fingerprint,
+        agent: agentSlug,
+        category,
+        occurrences: 1,
+        first_seen: seenAt,
+        last_seen: seenAt,
+        last_run_url: runUrl,
+        consecutive_successes: 0,
+      };
+      const summary = errorMessage.split("\n")[0];
+      const title = `${agentName}: ${summary.length > 80 ? `${summary.slice(0, 77)}...` : summary}`;
+
+      const args: string[] = [
+        "issue",
+        "create",
+        "--title",
+        title,
+        "--body",
+        writeFailureRecord(issueBody, record, resolveAfter),
+      ];
 
       if (labels.length > 0) {
         args.push("--label", labels.join(","));
@@ -119,44 +203,43 @@ export const runAuditIssues: Stage = async (ctx: StageContext): Promise<StageRes
       issueUrl = result.trim();
     }
 
-    if (issueUrl) {
-      console.log(`Issue URL: ${issueUrl}`);
-    }
+    console.log(`Issue URL: ${issueUrl}`);
+
+    return {
+      success: true,
+      outputs: {
+        "issue-url": issueUrl,
+        fingerprint,
+        ...(existingIssue && { "existing-issue": String(existingIssue.number) }),
+      },
+    };
   } catch (error) {
-    console.error("Failed to create/update issue:", error);
+    console.error("Failed to update failure issues:", error);
     return {
       success: false,
-      outputs: { error: "Failed to create/update GitHub issue" },
+      outputs: { error: "Failed to update GitHub failure issues" },
     };
   }
-
-  return {
-    success: true,
-    outputs: {
-      ...(issueUrl && { "issue-url": issueUrl }),
-      ...(existingIssue && { "existing-issue": String(existingIssue) }),
-    },
-  };
 };
 
 /**
- * Search for an existing open failure issue for this agent.
+ * List the open failure issues that carry a failure record for this agent.
  */
-async function findExistingIssue(agentName: string, labels: string[]): Promise<number | undefined> {
+async function findFailureIssues(agentSlug: string, labels: string[]): Promise<FailureIssue[]> {
   const searchLabel = labels[0] ?? "agent-failure";
-  const searchQuery = `${agentName} failure`;
-
-  try {
-    const result =
-      await $`gh issue list --state open --label ${searchLabel} --search ${searchQuery} --json number --jq '.[0].number'`
-        .quiet()
-        .text();
-
-    const issueNumber = Number.parseInt(result.trim(), 10);
-    return Number.isNaN(issueNumber) ? undefined : issueNumber;
-  } catch {
-    return undefined;
+  const result =
+    await $`gh issue list --state open --label ${searchLabel} --limit 100 --json number,body`
+      .quiet()
+      .text();
+
+  const issues: FailureIssue[] = [];
+  for (const { number, body } of JSON.parse(result) as Array<{ number: number; body: string }>) {
+    const record = readFailureRecord(body);
+    if (record?.agent === agentSlug) {
+      issues.push({ number, body, record });
+    }
   }
+  return issues;
 }
 
 /**
@@ -1,5 +1,5 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
-import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import type { StageContext } from "../types";
 import { runAuditReport } from "./audit-report";
@@ -95,6 +95,120 @@ describe("runAuditReport", () => {
     expect(result.outputs?.["total-cost"]).toBe("0.0015");
   });
 
+  test("records deduplicated actions in the manifest", async () => {
+    const agentDir = join(testDir, "agent-test-agent-audit-12345");
+    mkdirSync(agentDir, { recursive: true });
+
+    writeFileSync(join(agentDir, "metrics.json"), JSON.stringify(createMockMetrics()));
+    writeFileSync(join(agentDir, "tool-usage.json"), JSON.stringify(createMockToolUsage()));
+    writeFileSync(
+      join(agentDir, "deduplicated-actions.json"),
+      JSON.stringify([
+        {
+          type: "add-comment",
+          file: "add-comment.json",
+          reason: "Action 'add-comment' already performed",
+        },
+      ]),
+    );
+
+    process.env.JOB_RESULTS = JSON.stringify({
+      "agent-test-agent": { result: "success" },
+    });
+
+    await runAuditReport(createMockContext());
+
+    const manifest = JSON.parse(readFileSync(join(auditOutputDir, "manifest.json"), "utf-8"));
+    expect(manifest.agents[0].outputs.deduplicated).toEqual([
+      {
+        type: "add-comment",
+        file: "add-comment.json",
+        reason: "Action 'add-comment' already performed",
+      },
+    ]);
+    expect(readFileSync(join(auditOutputDir, "summary.md"), "utf-8")).toContain(
+      "Deduplicated Actions",
+    );
+  });
+
+  test("shows the execution timeline from the agent's trace", async () => {
+    const agentDir = join(testDir, "agent-test-agent-audit-12345");
+    mkdirSync(join(agentDir, "traces"), { recursive: true });
+
+    writeFileSync(join(agentDir, "metrics.json"), JSON.stringify(createMockMetrics()));
+    writeFileSync(join(agentDir, "tool-usage.json"), JSON.stringify(createMockToolUsage()));
+    writeFileSync(
+      join(agentDir, "traces", "trace.json"),
+      JSON.stringify({
+        schema_version: "1.0.0",
+        trace_id: "trace-1",
+        agent_name: "Test Agent",
+        workflow_run_id: "12345",
+        level: "detailed",
+        started_at: new Date().toISOString(),
+        status: "success",
+        summary: {
+          duration_ms: 2000,
+          actions: ["read 1 time"],
+          total_tool_calls: 1,
+          successful_tool_calls: 1,
+          failed_tool_calls: 0,
+        },
+        steps: [
+          {
+            timestamp: new Date().toISOString(),
+            elapsed_ms: 1000,
+            action: "read",
+            target: "src/index.ts",
+            result: "success",
+          },
+        ],
+      }),
+    );
+
+    process.env.JOB_RESULTS = JSON.stringify({
+      "agent-test-agent": { result: "success" },
+    });
+
+    await runAuditReport(createMockContext());
+
+    const manifest = JSON.parse(readFileSync(join(auditOutputDir, "manifest.json"), "utf-8"));
+    expect(manifest.agents[0].execution.trace.trace_id).toBe("trace-1");
+    expect(manifest.agents[0].execution.trace.file).toBe("traces/trace.json");
+
+    const summary = readFileSync(join(auditOutputDir, "summary.md"), "utf-8");
+    expect(summary).toContain("Execution Timeline");
+    expect(summary).toContain("read src/index.ts");
+  });
+
+  test("lists agents skipped by the dispatcher", async () => {
+    process.env.JOB_RESULTS = JSON.stringify({
+      dispatcher: {
+        result: "success",
+        outputs: {
+          "agent-triage-should-run": "false",
+          "agent-triage-skip-reason": "Agent daily budget exhausted: spent $5.20 of $5.00",
+          "agent-docs-should-run": "true",
+          "agent-docs-skip-reason": "",
+        },
+      },
+    });
+
+    const result = await runAuditReport(createMockContext());
+
+    expect(result.outputs?.["total-agents"]).toBe("0");
+    const summary = readFileSync(join(auditOutputDir, "summary.md"), "utf-8");
+    expect(summary).toContain("## Skipped Agents");
+    expect(summary).toContain("| triage | Agent daily budget exhausted: spent $5.20 of $5.00 |");
+    expect(summary).not.toContain("| docs |");
+
+    // Recorded in the manifest for repo-agents stats
+    const manifest = JSON.parse(readFileSync(join(auditOutputDir, "manifest.json"), "utf-8"));
+    expect(manifest.skipped).toEqual([
+      { agent: "triage", reason: "Agent daily budget exhausted: spent $5.20 of $5.00" },
+    ]);
+  });
+
   test("detects failures from job results", async () => {
     const agentDir = join(testDir, "agent-failing-agent-audit-12345");
     mkdirSync(agentDir, { recursive: true });
@@ -14,6 +14,9 @@ import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 
 import type {
+  ApiUsage,
+  AuditContextBudget,
+  AuditDeduplicatedAction,
   AuditExecutionPhase,
   AuditFailureReason,
   AuditFailureSummary,
@@ -23,12 +26,17 @@ import type {
   AuditOutputResult,
   AuditOutputsPhase,
   AuditToolUsageSummary,
+  AuditTraceSummary,
   AuditValidationPhase,
   ClaudeExecutionMetrics,
   CombinedAuditManifest,
 } from "@repo-agents/types";
 
 import type { JobResult, Stage, StageContext, StageResult } from "../types";
+import { formatTraceTimeline, readTrace } from "../utils/tracing";
+
+/** Location of the execution trace inside an agent's audit artifact */
+const TRACE_PATH = "traces/trace.json";
 
 /** Job results from GitHub Actions needs context */
 interface JobResults {
@@ -47,6 +55,10 @@ interface AgentAuditData {
   toolUsage?: AuditToolUsageSummary;
   hasConversation: boolean;
   outputResults: AuditOutputResult[];
+  deduplicatedActions: AuditDeduplicatedAction[];
+  contextBudget?: AuditContextBudget;
+  contextApi?: ApiUsage;
+  trace?: AuditTraceSummary;
   jobResult?: JobResult;
 }
 
@@ -65,14 +77,16 @@ export const runAuditReport: Stage = async (ctx: StageContext): Promise<StageRes
   // 2. Scan for downloaded audit artifacts
   const auditsDir = "/tmp/all-audits";
   const agentAudits = await collectAgentAudits(auditsDir, jobResults);
+  const skippedAgents = collectSkippedAgents(jobResults);
 
-  if (agentAudits.length === 0) {
+  if (agentAudits.length === 0 && skippedAgents.length === 0) {
     console.log("No agent audits found");
     return {
       success: true,
       outputs: {
         "has-failures": "false",
         "failed-agents": "[]",
+        "audited-agents": "[]",
         "total-agents": "0",
         "total-cost": "0",
       },
@@ -84,11 +98,12 @@ export const runAuditReport: Stage = async (ctx: StageContext): Promise<StageRes
   // 3. Build AuditManifest for each agent
   const manifests: AuditManifest[] = [];
   const failedAgents: string[] = [];
+  const eventNumber = await readEventNumber(ctx.eventPath);
 
   await mkdir("/tmp/audit/per-agent", { recursive: true });
 
   for (const auditData of agentAudits) {
-    const manifest = buildAgentManifest(auditData, ctx, jobResults);
+    const manifest = buildAgentManifest(auditData, ctx, jobResults, eventNumber);
     manifests.push(manifest);
 
     // Save per-agent manifest
@@ -101,7 +116,7 @@ export const runAuditReport: Stage = async (ctx: StageContext): Promise<StageRes
   }
 
   // 4. Generate combined summary markdown
-  const summary = generateSummaryMarkdown(manifests, ctx);
+  const summary = generateSummaryMarkdown(manifests, ctx, skippedAgents);
   await writeFile("/tmp/audit/summary.md", summary);
   console.log("Generated summary.md for workflow step to write");
 
@@ -113,6 +128,7 @@ export const runAuditReport: Stage = async (ctx: StageContext): Promise<StageRes
     workflow_run_id: ctx.runId,
     workflow_run_url: `${serverUrl}/${ctx.repository}/actions/runs/${ctx.runId}`,
     agents: manifests,
+    skipped: skippedAgents.map(({ agentSlug, reason }) => ({ agent: agentSlug, reason })),
     summary: {
       total_agents: manifests.length,
       successful_agents: manifests.filter((m) => !m.failures.has_failures).length,
@@ -144,6 +160,7 @@ export const runAuditReport: Stage = async (ctx: StageContext): Promise<StageRes
     outputs: {
       "has-failures": failedAgents.length > 0 ? "true" : "false",
       "failed-agents": JSON.stringify(failedAgents),
+      "audited-agents": JSON.stringify(manifests.map((m) => m.metadata.agent_name)),
       "total-agents": String(manifests.length),
       "total-cost": String(combinedManifest.summary.total_cost_usd),
     },
@@ -151,6 +168,38 @@ export const runAuditReport: Stage = async (ctx: StageContext): Promise<StageRes
   };
 };
 
+/**
+ * Number of the issue, PR or discussion the event is about, so runs can be costed per item.
+ */
+async function readEventNumber(eventPath: string): Promise<number | undefined> {
+  try {
+    const event = JSON.parse(await readFile(eventPath, "utf-8"));
+    return event.issue?.number ?? event.pull_request?.number ?? event.discussion?.number;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Collect agents the dispatcher matched but skipped, with the reason it gave
+ * (rate limits, budgets, missing permissions, ...).
+ */
+function collectSkippedAgents(
+  jobResults: JobResults,
+): Array<{ agentSlug: string; reason: string }> {
+  const outputs = jobResults.dispatcher?.outputs ?? {};
+  const skipped: Array<{ agentSlug: string; reason: string }> = [];
+
+  for (const [key, reason] of Object.entries(outputs)) {
+    const match = key.match(/^agent-(.+)-skip-reason$/);
+    if (match && reason) {
+      skipped.push({ agentSlug: match[1], reason });
+    }
+  }
+
+  return skipped;
+}
+
 /**
  * Collect audit data from all downloaded agent artifacts.
  */
@@ -200,6 +249,9 @@ async function parseAgentAudit(
   const metricsPath = join(artifactPath, "metrics.json");
   const toolUsagePath = join(artifactPath, "tool-usage.json");
   const conversationPath = join(artifactPath, "conversation.jsonl");
+  const deduplicatedPath = join(artifactPath, "deduplicated-actions.json");
+  const contextBudgetPath = join(artifactPath, "context-budget.json");
+  const contextApiPath = join(artifactPath, "context-api.json");
 
   // Read metrics
   let metrics: ClaudeExecutionMetrics | undefined;
@@ -223,6 +275,42 @@ async function parseAgentAudit(
     }
   }
 
+  // Read actions skipped by deduplication
+  let deduplicatedActions: AuditDeduplicatedAction[] = [];
+  if (existsSync(deduplicatedPath)) {
+    try {
+      const content = await readFile(deduplicatedPath, "utf-8");
+      deduplicatedActions = JSON.parse(content);
+    } catch {
+      console.warn(`Failed to parse deduplicated actions for ${agentSlug}`);
+    }
+  }
+
+  // Read what the context budget truncated, summarized or dropped
+  let contextBudget: AuditContextBudget | undefined;
+  if (existsSync(contextBudgetPath)) {
+    try {
+      const content = await readFile(contextBudgetPath, "utf-8");
+      contextBudget = JSON.parse(content);
+    } catch {
+      console.warn(`Failed to parse context budget for ${agentSlug}`);
+    }
+  }
+
+  // Read the GitHub API usage of context collection
+  let contextApi: ApiUsage | undefined;
+  if (existsSync(contextApiPath)) {
+    try {
+      const content = await readFile(contextApiPath, "utf-8");
+      contextApi = JSON.parse(content);
+    } catch {
+      console.warn(`Failed to parse context API usage for ${agentSlug}`);
+    }
+  }
+
+  // Read execution trace
+  const trace = await readTrace(join(artifactPath, TRACE_PATH));
+
   // Check for conversation file
   const hasConversation = existsSync(conversationPath);
 
@@ -246,6 +334,15 @@ async function parseAgentAudit(
     toolUsage,
     hasConversation,
     outputResults: [], // Will be populated from outputs artifact if available
+    deduplicatedActions,
+    contextBudget,
+    contextApi,
+    trace: trace && {
+      trace_id: trace.trace_id,
+      level: trace.level,
+      file: TRACE_PATH,
+      timeline: formatTraceTimeline(trace),
+    },
     jobResult,
   };
 }
@@ -257,6 +354,7 @@ function buildAgentManifest(
   auditData: AgentAuditData,
   ctx: StageContext,
   jobResults: JobResults,
+  eventNumber?: number,
 ): AuditManifest {
   const serverUrl = process.env.GITHUB_SERVER_URL ?? "https://github.com";
   const workflowUrl = `${serverUrl}/${ctx.repository}/actions/runs/${ctx.runId}`;
@@ -279,6 +377,7 @@ function buildAgentManifest(
       repository: ctx.repository,
       ref: process.env.GITHUB_REF,
       sha: process.env.GITHUB_SHA,
+      number: eventNumber,
     },
     timing: {
       workflow_started_at: process.env.GITHUB_RUN_STARTED_AT || new Date().toISOString(),
@@ -311,8 +410,10 @@ function buildAgentManifest(
       num_turns: auditData.metrics?.num_turns || 0,
       duration_ms: auditData.metrics?.duration_ms || 0,
       duration_api_ms: auditData.metrics?.duration_api_ms || 0,
+      context_api: auditData.contextApi,
     },
     conversation_file: auditData.hasConversation ? "conversation.jsonl" : undefined,
+    trace: auditData.trace,
     tool_usage: auditData.toolUsage || {
       total_calls: 0,
       by_tool: {},
@@ -330,6 +431,7 @@ function buildAgentManifest(
     configured_count: 0,
     executed_count: auditData.outputResults.length,
     results: auditData.outputResults,
+    deduplicated: auditData.deduplicatedActions,
   };
 
   // Build failures summary
@@ -348,6 +450,7 @@ function buildAgentManifest(
     outputs,
     failures,
     issues,
+    context: auditData.contextBudget,
   };
 }
 
@@ -531,6 +634,12 @@ function generateAgentDetailSection(manifest: AuditManifest): string[] {
   if (metrics.output_tokens) {
     lines.push(`| Output Tokens | ${metrics.output_tokens.toLocaleString()} |`);
   }
+  if (metrics.context_api) {
+    const api = metrics.context_api;
+    lines.push(
+      `| Context API Points | ${api.points} (${api.rest_requests} REST, ${api.cached_responses} cached, ${api.graphql_queries} GraphQL) |`,
+    );
+  }
   if (manifest.execution.session_id) {
     lines.push(`| Session ID | \`${manifest.execution.session_id}\` |`);
   }
@@ -549,6 +658,21 @@ function generateAgentDetailSection(manifest: AuditManifest): string[] {
     lines.push("");
   }
 
+  // Execution timeline (collapsible)
+  if (manifest.execution.trace) {
+    lines.push("<details>");
+    lines.push(
+      `<summary><strong>Execution Timeline</strong> (trace level: ${manifest.execution.trace.level})</summary>`,
+    );
+    lines.push("");
+    lines.push("```");
+    lines.push(manifest.execution.trace.timeline);
+    lines.push("```");
+    lines.push("");
+    lines.push("</details>");
+    lines.push("");
+  }
+
   // Permission issues
   if (manifest.execution.tool_usage.permission_issues.length > 0) {
     lines.push(":warning: **Permission Issues**");
@@ -573,6 +697,45 @@ function generateAgentDetailSection(manifest: AuditManifest): string[] {
     lines.push("");
   }
 
+  // Actions skipped by deduplication
+  const deduplicated = manifest.outputs.deduplicated ?? [];
+  if (deduplicated.length > 0) {
+    lines.push(`**Deduplicated Actions** (${deduplicated.length} skipped)`);
+    lines.push("");
+    for (const action of deduplicated) {
+      lines.push(`- \`${action.type}\` (${action.file}): ${action.reason}`);
+    }
+    lines.push("");
+  }
+
+  // Context left out by the context budget
+  const context = manifest.context;
+  if (
+    context &&
+    (context.truncated_items > 0 ||
+      context.summarized.length > 0 ||
+      context.dropped.length > 0 ||
+      context.cut)
+  ) {
+    lines.push(
+      `**Context Budget** (${context.collected_characters.toLocaleString()} → ${context.final_characters.toLocaleString()} characters, limit ${context.limit_characters.toLocaleString()})`,
+    );
+    lines.push("");
+    if (context.truncated_items > 0) {
+      lines.push(`- Truncated items: ${context.truncated_items}`);
+    }
+    if (context.summarized.length > 0) {
+      lines.push(`- Summarized: ${context.summarized.join(", ")}`);
+    }
+    if (context.dropped.length > 0) {
+      lines.push(`- Dropped: ${context.dropped.join(", ")}`);
+    }
+    if (context.cut) {
+      lines.push("- Remaining context cut at the limit");
+    }
+    lines.push("");
+  }
+
   // Failures
   if (manifest.failures.has_failures) {
     lines.push(":x: **Failure Details**");
@@ -611,7 +774,11 @@ function generateAgentDetailSection(manifest: AuditManifest): string[] {
 /**
  * Generate markdown summary for GitHub Step Summary.
  */
-function generateSummaryMarkdown(manifests: AuditManifest[], ctx: StageContext): string {
+function generateSummaryMarkdown(
+  manifests: AuditManifest[],
+  ctx: StageContext,
+  skippedAgents: Array<{ agentSlug: string; reason: string }> = [],
+): string {
   const serverUrl = process.env.GITHUB_SERVER_URL ?? "https://github.com";
   const workflowUrl = `${serverUrl}/${ctx.repository}/actions/runs/${ctx.runId}`;
 
@@ -675,6 +842,18 @@ function generateSummaryMarkdown(manifests: AuditManifest[], ctx: StageContext):
   }
   lines.push("");
 
+  // Agents the dispatcher skipped never produce an audit artifact
+  if (skippedAgents.length > 0) {
+    lines.push("## Skipped Agents");
+    lines.push("");
+    lines.push("| Agent | Reason |");
+    lines.push("|-------|--------|");
+    for (const { agentSlug, reason } of skippedAgents) {
+      lines.push(`| ${agentSlug} | ${reason} |`);
+    }
+    lines.push("");
+  }
+
   // Detailed sections for each agent
   lines.push("---");
   lines.push("");
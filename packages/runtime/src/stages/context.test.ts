@@ -9,6 +9,10 @@ import { runContext } from "./context";
 const mockGhApi = mock(() => Promise.resolve({}));
 mock.module("../utils", () => ({
   ghApi: mockGhApi,
+  ghApiConditional: async (endpoint: string) => ({
+    status: 200,
+    body: await (mockGhApi as (endpoint: string) => Promise<unknown>)(endpoint),
+  }),
   parseRepository: (repo: string) => {
     const [owner, name] = repo.split("/");
     return { owner, repo: name };
@@ -127,8 +131,8 @@ Test agent.
 
       // Mock API responses
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/issues")) {
-          return Promise.resolve([]);
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { issues: { nodes: [] } } } });
         }
         return Promise.resolve({});
       });
@@ -167,8 +171,8 @@ Test agent.
       await writeFile(agentPath, agentContent);
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/issues")) {
-          return Promise.resolve([]);
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { issues: { nodes: [] } } } });
         }
         return Promise.resolve({});
       });
@@ -211,24 +215,24 @@ Test agent.
         {
           number: 10,
           title: "Open PR",
-          state: "open",
-          user: { login: "contributor" },
-          html_url: "https://github.com/owner/repo/pull/10",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          merged_at: null,
-          labels: [],
-          assignees: [],
-          requested_reviewers: [],
-          base: { ref: "main" },
-          head: { ref: "feature" },
+          state: "OPEN",
+          author: { login: "contributor" },
+          url: "https://github.com/owner/repo/pull/10",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          mergedAt: null,
+          labels: { nodes: [] },
+          assignees: { nodes: [] },
+          reviewRequests: { nodes: [] },
+          baseRefName: "main",
+          headRefName: "feature",
           body: null,
         },
       ];
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/pulls")) {
-          return Promise.resolve(mockPRs);
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { pull_requests: { nodes: mockPRs } } } });
         }
         return Promise.resolve({});
       });
@@ -269,20 +273,20 @@ Test agent.
         {
           number: 1,
           title: "Test Issue",
-          state: "open",
-          user: { login: "testuser" },
-          html_url: "https://github.com/owner/repo/issues/1",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          labels: [],
-          assignees: [],
+          state: "OPEN",
+          author: { login: "testuser" },
+          url: "https://github.com/owner/repo/issues/1",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          labels: { nodes: [] },
+          assignees: { nodes: [] },
           body: null,
         },
       ];
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/issues")) {
-          return Promise.resolve(mockIssues);
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { issues: { nodes: mockIssues } } } });
         }
         return Promise.resolve({});
       });
@@ -324,20 +328,20 @@ Test agent.
         {
           number: 1,
           title: "Test Issue",
-          state: "open",
-          user: { login: "testuser" },
-          html_url: "https://github.com/owner/repo/issues/1",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          labels: [{ name: "bug" }],
-          assignees: [],
+          state: "OPEN",
+          author: { login: "testuser" },
+          url: "https://github.com/owner/repo/issues/1",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          labels: { nodes: [{ name: "bug" }] },
+          assignees: { nodes: [] },
           body: "Issue body",
         },
       ];
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/issues")) {
-          return Promise.resolve(mockIssues);
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { issues: { nodes: mockIssues } } } });
         }
         return Promise.resolve({});
       });
@@ -387,32 +391,32 @@ Test agent.
         {
           number: 1,
           title: "Bug Issue",
-          state: "open",
-          user: { login: "testuser" },
-          html_url: "https://github.com/owner/repo/issues/1",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          labels: [{ name: "bug" }],
-          assignees: [],
+          state: "OPEN",
+          author: { login: "testuser" },
+          url: "https://github.com/owner/repo/issues/1",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          labels: { nodes: [{ name: "bug" }] },
+          assignees: { nodes: [] },
           body: "Bug body",
         },
         {
           number: 2,
           title: "Feature Issue",
-          state: "open",
-          user: { login: "testuser" },
-          html_url: "https://github.com/owner/repo/issues/2",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          labels: [{ name: "feature" }],
-          assignees: [],
+          state: "OPEN",
+          author: { login: "testuser" },
+          url: "https://github.com/owner/repo/issues/2",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          labels: { nodes: [{ name: "feature" }] },
+          assignees: { nodes: [] },
           body: "Feature body",
         },
       ];
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/issues")) {
-          return Promise.resolve(mockIssues);
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { issues: { nodes: mockIssues } } } });
         }
         return Promise.resolve({});
       });
@@ -457,32 +461,32 @@ Test agent.
         {
           number: 1,
           title: "Assigned Issue",
-          state: "open",
-          user: { login: "testuser" },
-          html_url: "https://github.com/owner/repo/issues/1",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          labels: [],
-          assignees: [{ login: "specificuser" }],
+          state: "OPEN",
+          author: { login: "testuser" },
+          url: "https://github.com/owner/repo/issues/1",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          labels: { nodes: [] },
+          assignees: { nodes: [{ login: "specificuser" }] },
           body: null,
         },
         {
           number: 2,
           title: "Unassigned Issue",
-          state: "open",
-          user: { login: "testuser" },
-          html_url: "https://github.com/owner/repo/issues/2",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          labels: [],
-          assignees: [],
+          state: "OPEN",
+          author: { login: "testuser" },
+          url: "https://github.com/owner/repo/issues/2",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          labels: { nodes: [] },
+          assignees: { nodes: [] },
           body: null,
         },
       ];
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/issues")) {
-          return Promise.resolve(mockIssues);
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { issues: { nodes: mockIssues } } } });
         }
         return Promise.resolve({});
       });
@@ -527,32 +531,32 @@ Test agent.
         {
           number: 1,
           title: "Valid Issue",
-          state: "open",
-          user: { login: "testuser" },
-          html_url: "https://github.com/owner/repo/issues/1",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          labels: [{ name: "bug" }],
-          assignees: [],
+          state: "OPEN",
+          author: { login: "testuser" },
+          url: "https://github.com/owner/repo/issues/1",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          labels: { nodes: [{ name: "bug" }] },
+          assignees: { nodes: [] },
           body: "Valid body",
         },
         {
           number: 2,
           title: "Wontfix Issue",
-          state: "open",
-          user: { login: "testuser" },
-          html_url: "https://github.com/owner/repo/issues/2",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          labels: [{ name: "wontfix" }],
-          assignees: [],
+          state: "OPEN",
+          author: { login: "testuser" },
+          url: "https://github.com/owner/repo/issues/2",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          labels: { nodes: [{ name: "wontfix" }] },
+          assignees: { nodes: [] },
           body: "Wontfix body",
         },
       ];
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/issues")) {
-          return Promise.resolve(mockIssues);
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { issues: { nodes: mockIssues } } } });
         }
         return Promise.resolve({});
       });
@@ -600,20 +604,20 @@ Test agent.
         {
           number: 1,
           title: "Issue 1",
-          state: "open",
-          user: { login: "testuser" },
-          html_url: "https://github.com/owner/repo/issues/1",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          labels: [],
-          assignees: [],
+          state: "OPEN",
+          author: { login: "testuser" },
+          url: "https://github.com/owner/repo/issues/1",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          labels: { nodes: [] },
+          assignees: { nodes: [] },
           body: "Body",
         },
       ];
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/issues")) {
-          return Promise.resolve(mockIssues);
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { issues: { nodes: mockIssues } } } });
         }
         return Promise.resolve({});
       });
@@ -657,32 +661,32 @@ Test agent.
         {
           number: 1,
           title: "Issue 1",
-          state: "open",
-          user: { login: "testuser" },
-          html_url: "https://github.com/owner/repo/issues/1",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          labels: [],
-          assignees: [],
+          state: "OPEN",
+          author: { login: "testuser" },
+          url: "https://github.com/owner/repo/issues/1",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          labels: { nodes: [] },
+          assignees: { nodes: [] },
           body: "Body 1",
         },
         {
           number: 2,
           title: "Issue 2",
-          state: "open",
-          user: { login: "testuser" },
-          html_url: "https://github.com/owner/repo/issues/2",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          labels: [],
-          assignees: [],
+          state: "OPEN",
+          author: { login: "testuser" },
+          url: "https://github.com/owner/repo/issues/2",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          labels: { nodes: [] },
+          assignees: { nodes: [] },
           body: "Body 2",
         },
       ];
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/issues")) {
-          return Promise.resolve(mockIssues);
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { issues: { nodes: mockIssues } } } });
         }
         return Promise.resolve({});
       });
@@ -706,8 +710,8 @@ Test agent.
   });
 
   describe("time filter calculation - last-run", () => {
-    it("should use last successful workflow run timestamp", async () => {
-      const agentContent = `---
+    const runsStateDir = "/tmp/artifacts/agent-test-agent-runs-state";
+    const lastRunAgent = `---
 name: Test Agent
 on:
   schedule:
@@ -721,122 +725,95 @@ context:
 
 Test agent.
 `;
-      await writeFile(agentPath, agentContent);
 
-      const lastRunDate = new Date(Date.now() - 5 * 24 * 60 * 60 * 1000);
+    const ctx: StageContext = {
+      repository: "owner/repo",
+      runId: "12345",
+      actor: "testuser",
+      eventName: "schedule",
+      eventPath: "",
+      agentPath,
+    };
+
+    beforeEach(async () => {
+      await writeFile(agentPath, lastRunAgent);
+
+      // One issue updated three days ago: only included when the window reaches back that far
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/actions/runs")) {
+        if (endpoint === "graphql") {
           return Promise.resolve({
-            workflow_runs: [
-              {
-                status: "completed",
-                conclusion: "success",
-                created_at: lastRunDate.toISOString(),
+            data: {
+              repository: {
+                issues: {
+                  nodes: [
+                    {
+                      number: 1,
+                      title: "Older issue",
+                      state: "OPEN",
+                      author: { login: "alice" },
+                      url: "https://github.com/owner/repo/issues/1",
+                      createdAt: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000).toISOString(),
+                      updatedAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
+                      labels: { nodes: [] },
+                      assignees: { nodes: [] },
+                      body: null,
+                    },
+                  ],
+                },
               },
-            ],
+            },
           });
         }
-        if (endpoint.includes("/issues")) {
-          return Promise.resolve([]);
-        }
         return Promise.resolve({});
       });
+    });
 
-      const ctx: StageContext = {
-        repository: "owner/repo",
-        runId: "12345",
-        actor: "testuser",
-        eventName: "schedule",
-        eventPath: "",
-        agentPath,
-      };
+    afterEach(async () => {
+      await rm(runsStateDir, { recursive: true, force: true });
+    });
+
+    it("should use the agent's last successful run from the state store", async () => {
+      await mkdir(runsStateDir, { recursive: true });
+      await writeFile(
+        path.join(runsStateDir, "state.json"),
+        JSON.stringify({
+          schema_version: "1.0.0",
+          runs: [
+            {
+              run_id: "2",
+              timestamp: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+              conclusion: "failure",
+            },
+            {
+              run_id: "1",
+              timestamp: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
+              conclusion: "success",
+            },
+          ],
+        }),
+      );
 
       const result = await runContext(ctx);
 
       expect(result.success).toBe(true);
-      expect(mockGhApi).toHaveBeenCalledWith(expect.stringContaining("/actions/runs"));
+      expect(result.outputs["total-items"]).toBe("1");
     });
 
-    it("should default to 24h when last-run not found", async () => {
-      const agentContent = `---
-name: Test Agent
-on:
-  schedule:
-    - cron: "0 0 * * *"
-context:
-  since: "last-run"
-  issues:
-    states:
-      - open
----
-
-Test agent.
-`;
-      await writeFile(agentPath, agentContent);
-
-      mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/actions/runs")) {
-          return Promise.resolve({ workflow_runs: [] });
-        }
-        if (endpoint.includes("/issues")) {
-          return Promise.resolve([]);
-        }
-        return Promise.resolve({});
-      });
-
-      const ctx: StageContext = {
-        repository: "owner/repo",
-        runId: "12345",
-        actor: "testuser",
-        eventName: "schedule",
-        eventPath: "",
-        agentPath,
-      };
-
+    it("should default to 24h when no run is recorded", async () => {
       const result = await runContext(ctx);
 
       expect(result.success).toBe(true);
+      expect(result.outputs["total-items"]).toBe("0");
     });
 
-    it("should handle errors fetching last run", async () => {
-      const agentContent = `---
-name: Test Agent
-on:
-  schedule:
-    - cron: "0 0 * * *"
-context:
-  since: "last-run"
-  issues:
-    states:
-      - open
----
-
-Test agent.
-`;
-      await writeFile(agentPath, agentContent);
-
-      mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/actions/runs")) {
-          throw new Error("API error");
-        }
-        if (endpoint.includes("/issues")) {
-          return Promise.resolve([]);
-        }
-        return Promise.resolve({});
-      });
-
-      const ctx: StageContext = {
-        repository: "owner/repo",
-        runId: "12345",
-        actor: "testuser",
-        eventName: "schedule",
-        eventPath: "",
-        agentPath,
-      };
+    it("should default to 24h when the run history is unreadable", async () => {
+      await mkdir(runsStateDir, { recursive: true });
+      await writeFile(path.join(runsStateDir, "state.json"), "not json");
 
       const result = await runContext(ctx);
 
       expect(result.success).toBe(true);
+      expect(result.outputs["total-items"]).toBe("0");
     });
 
     it("should handle invalid since format", async () => {
@@ -857,8 +834,8 @@ Test agent.
       await writeFile(agentPath, agentContent);
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/issues")) {
-          return Promise.resolve([]);
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { issues: { nodes: [] } } } });
         }
         return Promise.resolve({});
       });
@@ -900,24 +877,24 @@ Test agent.
         {
           number: 10,
           title: "Test PR",
-          state: "open",
-          user: { login: "contributor" },
-          html_url: "https://github.com/owner/repo/pull/10",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          merged_at: null,
-          labels: [{ name: "enhancement" }],
-          assignees: [],
-          requested_reviewers: [],
-          base: { ref: "main" },
-          head: { ref: "feature-branch" },
+          state: "OPEN",
+          author: { login: "contributor" },
+          url: "https://github.com/owner/repo/pull/10",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          mergedAt: null,
+          labels: { nodes: [{ name: "enhancement" }] },
+          assignees: { nodes: [] },
+          reviewRequests: { nodes: [] },
+          baseRefName: "main",
+          headRefName: "feature-branch",
           body: "PR description",
         },
       ];
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/pulls")) {
-          return Promise.resolve(mockPRs);
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { pull_requests: { nodes: mockPRs } } } });
         }
         return Promise.resolve({});
       });
@@ -963,40 +940,40 @@ Test agent.
         {
           number: 10,
           title: "Merged PR",
-          state: "closed",
-          user: { login: "contributor" },
-          html_url: "https://github.com/owner/repo/pull/10",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          merged_at: new Date().toISOString(),
-          labels: [],
-          assignees: [],
-          requested_reviewers: [],
-          base: { ref: "main" },
-          head: { ref: "feature" },
+          state: "MERGED",
+          author: { login: "contributor" },
+          url: "https://github.com/owner/repo/pull/10",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          mergedAt: new Date().toISOString(),
+          labels: { nodes: [] },
+          assignees: { nodes: [] },
+          reviewRequests: { nodes: [] },
+          baseRefName: "main",
+          headRefName: "feature",
           body: null,
         },
         {
           number: 11,
           title: "Closed but not merged",
-          state: "closed",
-          user: { login: "contributor" },
-          html_url: "https://github.com/owner/repo/pull/11",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          merged_at: null,
-          labels: [],
-          assignees: [],
-          requested_reviewers: [],
-          base: { ref: "main" },
-          head: { ref: "other" },
+          state: "CLOSED",
+          author: { login: "contributor" },
+          url: "https://github.com/owner/repo/pull/11",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          mergedAt: null,
+          labels: { nodes: [] },
+          assignees: { nodes: [] },
+          reviewRequests: { nodes: [] },
+          baseRefName: "main",
+          headRefName: "other",
           body: null,
         },
       ];
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/pulls")) {
-          return Promise.resolve(mockPRs);
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { pull_requests: { nodes: mockPRs } } } });
         }
         return Promise.resolve({});
       });
@@ -1041,40 +1018,40 @@ Test agent.
         {
           number: 10,
           title: "Enhancement PR",
-          state: "open",
-          user: { login: "contributor" },
-          html_url: "https://github.com/owner/repo/pull/10",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          merged_at: null,
-          labels: [{ name: "enhancement" }],
-          assignees: [],
-          requested_reviewers: [],
-          base: { ref: "main" },
-          head: { ref: "feature" },
+          state: "OPEN",
+          author: { login: "contributor" },
+          url: "https://github.com/owner/repo/pull/10",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          mergedAt: null,
+          labels: { nodes: [{ name: "enhancement" }] },
+          assignees: { nodes: [] },
+          reviewRequests: { nodes: [] },
+          baseRefName: "main",
+          headRefName: "feature",
           body: null,
         },
         {
           number: 11,
           title: "Bug Fix PR",
-          state: "open",
-          user: { login: "contributor" },
-          html_url: "https://github.com/owner/repo/pull/11",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          merged_at: null,
-          labels: [{ name: "bug" }],
-          assignees: [],
-          requested_reviewers: [],
-          base: { ref: "main" },
-          head: { ref: "bugfix" },
+          state: "OPEN",
+          author: { login: "contributor" },
+          url: "https://github.com/owner/repo/pull/11",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          mergedAt: null,
+          labels: { nodes: [{ name: "bug" }] },
+          assignees: { nodes: [] },
+          reviewRequests: { nodes: [] },
+          baseRefName: "main",
+          headRefName: "bugfix",
           body: null,
         },
       ];
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/pulls")) {
-          return Promise.resolve(mockPRs);
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { pull_requests: { nodes: mockPRs } } } });
         }
         return Promise.resolve({});
       });
@@ -1119,40 +1096,40 @@ Test agent.
         {
           number: 10,
           title: "Ready PR",
-          state: "open",
-          user: { login: "contributor" },
-          html_url: "https://github.com/owner/repo/pull/10",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          merged_at: null,
-          labels: [{ name: "ready" }],
-          assignees: [],
-          requested_reviewers: [],
-          base: { ref: "main" },
-          head: { ref: "feature" },
+          state: "OPEN",
+          author: { login: "contributor" },
+          url: "https://github.com/owner/repo/pull/10",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          mergedAt: null,
+          labels: { nodes: [{ name: "ready" }] },
+          assignees: { nodes: [] },
+          reviewRequests: { nodes: [] },
+          baseRefName: "main",
+          headRefName: "feature",
           body: null,
         },
         {
           number: 11,
           title: "WIP PR",
-          state: "open",
-          user: { login: "contributor" },
-          html_url: "https://github.com/owner/repo/pull/11",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          merged_at: null,
-          labels: [{ name: "wip" }],
-          assignees: [],
-          requested_reviewers: [],
-          base: { ref: "main" },
-          head: { ref: "wip-feature" },
+          state: "OPEN",
+          author: { login: "contributor" },
+          url: "https://github.com/owner/repo/pull/11",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          mergedAt: null,
+          labels: { nodes: [{ name: "wip" }] },
+          assignees: { nodes: [] },
+          reviewRequests: { nodes: [] },
+          baseRefName: "main",
+          headRefName: "wip-feature",
           body: null,
         },
       ];
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/pulls")) {
-          return Promise.resolve(mockPRs);
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { pull_requests: { nodes: mockPRs } } } });
         }
         return Promise.resolve({});
       });
@@ -1197,40 +1174,40 @@ Test agent.
         {
           number: 10,
           title: "PR with reviewer",
-          state: "open",
-          user: { login: "contributor" },
-          html_url: "https://github.com/owner/repo/pull/10",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          merged_at: null,
-          labels: [],
-          assignees: [],
-          requested_reviewers: [{ login: "reviewer1" }],
-          base: { ref: "main" },
-          head: { ref: "feature" },
+          state: "OPEN",
+          author: { login: "contributor" },
+          url: "https://github.com/owner/repo/pull/10",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          mergedAt: null,
+          labels: { nodes: [] },
+          assignees: { nodes: [] },
+          reviewRequests: { nodes: [{ requestedReviewer: { login: "reviewer1" } }] },
+          baseRefName: "main",
+          headRefName: "feature",
           body: null,
         },
         {
           number: 11,
           title: "PR without reviewer",
-          state: "open",
-          user: { login: "contributor" },
-          html_url: "https://github.com/owner/repo/pull/11",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          merged_at: null,
-          labels: [],
-          assignees: [],
-          requested_reviewers: [],
-          base: { ref: "main" },
-          head: { ref: "other" },
+          state: "OPEN",
+          author: { login: "contributor" },
+          url: "https://github.com/owner/repo/pull/11",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          mergedAt: null,
+          labels: { nodes: [] },
+          assignees: { nodes: [] },
+          reviewRequests: { nodes: [] },
+          baseRefName: "main",
+          headRefName: "other",
           body: null,
         },
       ];
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/pulls")) {
-          return Promise.resolve(mockPRs);
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { pull_requests: { nodes: mockPRs } } } });
         }
         return Promise.resolve({});
       });
@@ -1274,40 +1251,40 @@ Test agent.
         {
           number: 10,
           title: "PR from feature-x",
-          state: "open",
-          user: { login: "contributor" },
-          html_url: "https://github.com/owner/repo/pull/10",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          merged_at: null,
-          labels: [],
-          assignees: [],
-          requested_reviewers: [],
-          base: { ref: "main" },
-          head: { ref: "feature-x" },
+          state: "OPEN",
+          author: { login: "contributor" },
+          url: "https://github.com/owner/repo/pull/10",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          mergedAt: null,
+          labels: { nodes: [] },
+          assignees: { nodes: [] },
+          reviewRequests: { nodes: [] },
+          baseRefName: "main",
+          headRefName: "feature-x",
           body: null,
         },
         {
           number: 11,
           title: "PR from feature-y",
-          state: "open",
-          user: { login: "contributor" },
-          html_url: "https://github.com/owner/repo/pull/11",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          merged_at: null,
-          labels: [],
-          assignees: [],
-          requested_reviewers: [],
-          base: { ref: "main" },
-          head: { ref: "feature-y" },
+          state: "OPEN",
+          author: { login: "contributor" },
+          url: "https://github.com/owner/repo/pull/11",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          mergedAt: null,
+          labels: { nodes: [] },
+          assignees: { nodes: [] },
+          reviewRequests: { nodes: [] },
+          baseRefName: "main",
+          headRefName: "feature-y",
           body: null,
         },
       ];
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/pulls")) {
-          return Promise.resolve(mockPRs);
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { pull_requests: { nodes: mockPRs } } } });
         }
         return Promise.resolve({});
       });
@@ -1351,40 +1328,40 @@ Test agent.
         {
           number: 10,
           title: "PR to develop",
-          state: "open",
-          user: { login: "contributor" },
-          html_url: "https://github.com/owner/repo/pull/10",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          merged_at: null,
-          labels: [],
-          assignees: [],
-          requested_reviewers: [],
-          base: { ref: "develop" },
-          head: { ref: "feature" },
+          state: "OPEN",
+          author: { login: "contributor" },
+          url: "https://github.com/owner/repo/pull/10",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          mergedAt: null,
+          labels: { nodes: [] },
+          assignees: { nodes: [] },
+          reviewRequests: { nodes: [] },
+          baseRefName: "develop",
+          headRefName: "feature",
           body: null,
         },
         {
           number: 11,
           title: "PR to main",
-          state: "open",
-          user: { login: "contributor" },
-          html_url: "https://github.com/owner/repo/pull/11",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          merged_at: null,
-          labels: [],
-          assignees: [],
-          requested_reviewers: [],
-          base: { ref: "main" },
-          head: { ref: "other" },
+          state: "OPEN",
+          author: { login: "contributor" },
+          url: "https://github.com/owner/repo/pull/11",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          mergedAt: null,
+          labels: { nodes: [] },
+          assignees: { nodes: [] },
+          reviewRequests: { nodes: [] },
+          baseRefName: "main",
+          headRefName: "other",
           body: null,
         },
       ];
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/pulls")) {
-          return Promise.resolve(mockPRs);
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { pull_requests: { nodes: mockPRs } } } });
         }
         return Promise.resolve({});
       });
@@ -2244,8 +2221,8 @@ Test agent.
       await writeFile(agentPath, agentContent);
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint === "repos/owner/repo") {
-          return Promise.resolve({ stargazers_count: 100, forks_count: 20 });
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { stars: 100, forks: 20 } } });
         }
         return Promise.resolve({});
       });
@@ -2283,8 +2260,8 @@ Test agent.
       await writeFile(agentPath, agentContent);
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint === "repos/owner/repo") {
-          return Promise.resolve({ stargazers_count: 100, forks_count: 20 });
+        if (endpoint === "graphql") {
+          return Promise.resolve({ data: { repository: { stars: 100, forks: 20 } } });
         }
         return Promise.resolve({});
       });
@@ -3222,44 +3199,51 @@ Test agent.
       await writeFile(agentPath, agentContent);
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/issues")) {
-          return Promise.resolve([
-            {
-              number: 1,
-              title: "Test Issue",
-              state: "open",
-              user: { login: "user1" },
-              html_url: "https://github.com/owner/repo/issues/1",
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-              labels: [],
-              assignees: [],
-              body: null,
-            },
-          ]);
-        }
-        if (endpoint.includes("/pulls")) {
-          return Promise.resolve([
-            {
-              number: 2,
-              title: "Test PR",
-              state: "open",
-              user: { login: "user2" },
-              html_url: "https://github.com/owner/repo/pull/2",
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-              merged_at: null,
-              labels: [],
-              assignees: [],
-              requested_reviewers: [],
-              base: { ref: "main" },
-              head: { ref: "feature" },
-              body: null,
+        if (endpoint === "graphql") {
+          return Promise.resolve({
+            data: {
+              repository: {
+                issues: {
+                  nodes: [
+                    {
+                      number: 1,
+                      title: "Test Issue",
+                      state: "OPEN",
+                      author: { login: "user1" },
+                      url: "https://github.com/owner/repo/issues/1",
+                      createdAt: new Date().toISOString(),
+                      updatedAt: new Date().toISOString(),
+                      labels: { nodes: [] },
+                      assignees: { nodes: [] },
+                      body: null,
+                    },
+                  ],
+                },
+                pull_requests: {
+                  nodes: [
+                    {
+                      number: 2,
+                      title: "Test PR",
+                      state: "OPEN",
+                      author: { login: "user2" },
+                      url: "https://github.com/owner/repo/pull/2",
+                      createdAt: new Date().toISOString(),
+                      updatedAt: new Date().toISOString(),
+                      mergedAt: null,
+                      labels: { nodes: [] },
+                      assignees: { nodes: [] },
+                      reviewRequests: { nodes: [] },
+                      baseRefName: "main",
+                      headRefName: "feature",
+                      body: null,
+                    },
+                  ],
+                },
+                stars: 50,
+                forks: 10,
+              },
             },
-          ]);
-        }
-        if (endpoint === "repos/owner/repo") {
-          return Promise.resolve({ stargazers_count: 50, forks_count: 10 });
+          });
         }
         return Promise.resolve({});
       });
@@ -3283,6 +3267,105 @@ Test agent.
       expect(content).toContain("## Pull Requests");
       expect(content).toContain("Stars: 50");
       expect(content).toContain("Forks: 10");
+
+      // Fetched with a single GraphQL query and no REST requests
+      const calls = mockGhApi.mock.calls as unknown as Array<[string, { body: { query: string } }]>;
+      expect(calls.map(([endpoint]) => endpoint)).toEqual(["graphql"]);
+      expect(calls[0][1].body.query).toContain("issues: issues(");
+      expect(calls[0][1].body.query).toContain("pull_requests: pullRequests(");
+    });
+  });
+
+  describe("documentation collection", () => {
+    const ctx: StageContext = {
+      repository: "owner/repo",
+      runId: "12345",
+      actor: "testuser",
+      eventName: "schedule",
+      eventPath: "",
+      agentPath,
+    };
+
+    it("should add changelog entries from merged pull requests", async () => {
+      await writeFile(
+        agentPath,
+        `---
+name: Test Agent
+on:
+  schedule:
+    - cron: "0 0 * * *"
+context:
+  since: "7d"
+  documentation:
+    changelog:
+      exclude_labels: [skip-changelog]
+---
+
+Test agent.
+`,
+      );
+
+      mockGhApi.mockImplementation((endpoint: string) => {
+        if (endpoint.startsWith("search/issues")) {
+          return Promise.resolve({
+            items: [
+              {
+                number: 10,
+                title: "feat: add export command",
+                user: { login: "alice" },
+                labels: [],
+                closed_at: "2024-01-02T00:00:00Z",
+              },
+              {
+                number: 11,
+                title: "chore: bump deps",
+                user: { login: "bot" },
+                labels: [{ name: "skip-changelog" }],
+                closed_at: "2024-01-03T00:00:00Z",
+              },
+            ],
+          });
+        }
+        return Promise.resolve({});
+      });
+
+      const result = await runContext(ctx);
+
+      expect(result.success).toBe(true);
+      expect(result.outputs["total-items"]).toBe("1");
+
+      const content = await readFile("/tmp/context/collected.md", "utf-8");
+      expect(content).toContain("# Documentation Context");
+      expect(content).toContain("### Added");
+      expect(content).toContain("- feat: add export command (#10) @alice");
+      expect(content).not.toContain("bump deps");
+    });
+
+    it("should not count the documentation config alone as an item", async () => {
+      await writeFile(
+        agentPath,
+        `---
+name: Test Agent
+on:
+  schedule:
+    - cron: "0 0 * * *"
+context:
+  since: "7d"
+  documentation:
+    changelog:
+      include_prs: true
+---
+
+Test agent.
+`,
+      );
+
+      mockGhApi.mockImplementation(() => Promise.resolve({ items: [] }));
+
+      const result = await runContext(ctx);
+
+      expect(result.outputs["total-items"]).toBe("0");
+      expect(result.skipReason).toContain("minimum is 1");
     });
   });
 
@@ -3304,31 +3387,62 @@ Test agent.
       await writeFile(agentPath, agentContent);
 
       mockGhApi.mockImplementation((endpoint: string) => {
-        if (endpoint.includes("/issues/comments")) {
-          return Promise.resolve([
-            {
-              id: 123,
-              body: "This is a comment",
-              user: { login: "commenter" },
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-              html_url: "https://github.com/owner/repo/issues/1#issuecomment-123",
-              issue_url: "https://api.github.com/repos/owner/repo/issues/1",
-            },
-          ]);
-        }
-        if (endpoint.includes("/pulls/comments")) {
-          return Promise.resolve([
-            {
-              id: 456,
-              body: "This is a review comment",
-              user: { login: "reviewer" },
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-              html_url: "https://github.com/owner/repo/pull/2#discussion_r456",
-              pull_request_url: "https://api.github.com/repos/owner/repo/pulls/2",
+        if (endpoint === "graphql") {
+          const comment = (id: number, body: string, login: string, url: string) => ({
+            databaseId: id,
+            body,
+            author: { login },
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+            url,
+          });
+          return Promise.resolve({
+            data: {
+              repository: {
+                issue_comments: {
+                  nodes: [
+                    {
+                      number: 1,
+                      comments: {
+                        nodes: [
+                          comment(
+                            123,
+                            "This is a comment",
+                            "commenter",
+                            "https://github.com/owner/repo/issues/1#issuecomment-123",
+                          ),
+                        ],
+                      },
+                    },
+                  ],
+                },
+                pull_request_comments: {
+                  nodes: [
+                    {
+                      number: 2,
+                      comments: { nodes: [] },
+                      reviews: {
+                        nodes: [
+                          {
+                            comments: {
+                              nodes: [
+                                comment(
+                                  456,
+                                  "This is a review comment",
+                                  "reviewer",
+                                  "https://github.com/owner/repo/pull/2#discussion_r456",
+                                ),
+                              ],
+                            },
+                          },
+                        ],
+                      },
+                    },
+                  ],
+                },
+              },
             },
-          ]);
+          });
         }
         return Promise.resolve({});
       });
@@ -3349,7 +3463,9 @@ Test agent.
 
       const content = await readFile("/tmp/context/collected.md", "utf-8");
       expect(content).toContain("## Comments");
+      expect(content).toContain("### Issue Comment on #1");
       expect(content).toContain("This is a comment");
+      expect(content).toContain("### PR Review Comment on #2");
       expect(content).toContain("This is a review comment");
     });
   });
@@ -4102,7 +4218,7 @@ Test agent.
       await writeFile(agentPath, agentContent);
 
       mockGhApi.mockImplementation(() => {
-        return Promise.resolve({ stargazers_count: 50, forks_count: 10 });
+        return Promise.resolve({ data: { repository: { stars: 50, forks: 10 } } });
       });
 
       const ctx: StageContext = {
@@ -4141,7 +4257,7 @@ Test agent.
       await writeFile(agentPath, agentContent);
 
       mockGhApi.mockImplementation(() => {
-        return Promise.resolve({ stargazers_count: 50, forks_count: 10 });
+        return Promise.resolve({ data: { repository: { stars: 50, forks: 10 } } });
       });
 
       const ctx: StageContext = {
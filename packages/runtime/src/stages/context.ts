@@ -3,14 +3,18 @@ import { dirname } from "node:path";
 import { AgentParser } from "@repo-agents/parser";
 import type {
   BranchesContextConfig,
+  ChangelogConfig,
   CheckRunsContextConfig,
   CodeScanningAlertsContextConfig,
   CommentsContextConfig,
   CommitsContextConfig,
+  ContextSource,
   ContributorsContextConfig,
   DependabotPRsContextConfig,
   DeploymentsContextConfig,
   DiscussionsContextConfig,
+  DocumentationConfig,
+  DriftDetectionConfig,
   GitHubCommit,
   GitHubDiscussion,
   GitHubIssue,
@@ -31,7 +35,33 @@ import type {
   WorkflowRunsContextConfig,
 } from "@repo-agents/types";
 import type { StageContext, StageResult } from "../types";
-import { ghApi, parseRepository } from "../utils/index";
+import { applyContextBudget, type ContextSection } from "../utils/context-budget";
+import {
+  type ChangelogEntry,
+  categorizeChange,
+  type DriftReport,
+  detectDrift,
+  formatDriftReports,
+  formatKeepAChangelog,
+  generateDocumentationContext,
+} from "../utils/documentation";
+import { GitHubClient, loadApiCache, mapConcurrent, saveApiCache } from "../utils/github-client";
+import { ghApi, ghApiConditional, parseRepository } from "../utils/index";
+import {
+  agentStateScope,
+  getLastSuccessfulRun,
+  loadRunHistory,
+  openStateStore,
+} from "../utils/state";
+
+/** Audit file describing how the collected context was fit into its budget */
+export const CONTEXT_BUDGET_FILE = "/tmp/audit/context-budget.json";
+
+/** Audit file with the GitHub API requests and rate limit points context collection used */
+export const CONTEXT_API_USAGE_FILE = "/tmp/audit/context-api.json";
+
+/** Sources collected at the same time */
+const CONTEXT_CONCURRENCY = 4;
 
 /**
  * Context collection stage - collects repository data based on agent configuration.
@@ -63,224 +93,211 @@ export async function runContext(ctx: StageContext): Promise<StageResult> {
   const { owner, repo } = parseRepository(ctx.repository);
 
   // Calculate time filter
-  const sinceDate = await calculateSinceDate(config.since || "last-run", ctx, owner, repo);
+  const sinceDate = await calculateSinceDate(config.since || "last-run", ctx, agent.name);
   console.log(`Collecting data since: ${sinceDate.toISOString()}`);
 
-  // Collect all configured context types
-  const collectedSections: string[] = [];
-  let totalItems = 0;
+  // Responses cached by the previous run answer unchanged endpoints for free
+  const client = new GitHubClient(owner, repo, { ghApi, ghApiConditional }, await loadApiCache());
 
-  // Collect issues
+  // Sources available over GraphQL are fetched in one query
+  const repositoryFields: RepositoryField[] = [];
   if (config.issues) {
-    const { markdown, count } = await collectIssues(owner, repo, config.issues, sinceDate);
-    if (count > 0) {
-      collectedSections.push(markdown);
-      totalItems += count;
-    }
-    console.log(`Found ${count} issue(s)`);
+    repositoryFields.push(issuesField(config.issues, sinceDate));
   }
-
-  // Collect pull requests
   if (config.pull_requests) {
-    const { markdown, count } = await collectPullRequests(
-      owner,
-      repo,
-      config.pull_requests,
-      sinceDate,
-    );
-    if (count > 0) {
-      collectedSections.push(markdown);
-      totalItems += count;
-    }
-    console.log(`Found ${count} pull request(s)`);
+    repositoryFields.push(pullRequestsField(config.pull_requests, sinceDate));
   }
-
-  // Collect discussions
   if (config.discussions) {
-    const { markdown, count } = await collectDiscussions(
-      owner,
-      repo,
-      config.discussions,
-      sinceDate,
-    );
-    if (count > 0) {
-      collectedSections.push(markdown);
-      totalItems += count;
-    }
-    console.log(`Found ${count} discussion(s)`);
+    repositoryFields.push(discussionsField(config.discussions, sinceDate));
   }
+  if (config.stars) {
+    repositoryFields.push(countField("stars", "stargazerCount", "Stars"));
+  }
+  if (config.forks) {
+    repositoryFields.push(countField("forks", "forkCount", "Forks"));
+  }
+  if (config.comments) {
+    repositoryFields.push(commentsField(config.comments, sinceDate));
+  }
+  const repositoryData = fetchRepositoryFields(client, repositoryFields);
+  const fromRepository = (source: ContextSource) => async () => {
+    const field = repositoryFields.find((f) => f.source === source) as RepositoryField;
+    return field.collect(await repositoryData);
+  };
 
-  // Collect commits
+  // Sources in the order their sections appear in the collected context
+  const sources: ContextSourceTask[] = [];
+  const add = (
+    source: ContextSource,
+    collect: () => Promise<CollectionResult>,
+    found?: (count: number) => string,
+  ) => sources.push({ source, collect, found });
+
+  if (config.issues) {
+    add("issues", fromRepository("issues"), (n) => `${n} issue(s)`);
+  }
+  if (config.pull_requests) {
+    add("pull_requests", fromRepository("pull_requests"), (n) => `${n} pull request(s)`);
+  }
+  if (config.discussions) {
+    add("discussions", fromRepository("discussions"), (n) => `${n} discussion(s)`);
+  }
   if (config.commits) {
-    const { markdown, count } = await collectCommits(owner, repo, config.commits, sinceDate);
-    if (count > 0) {
-      collectedSections.push(markdown);
-      totalItems += count;
-    }
-    console.log(`Found ${count} commit(s)`);
+    const commits = config.commits;
+    add(
+      "commits",
+      () => collectCommits(client, owner, repo, commits, sinceDate),
+      (n) => `${n} commit(s)`,
+    );
   }
-
-  // Collect releases
   if (config.releases) {
-    const { markdown, count } = await collectReleases(owner, repo, config.releases, sinceDate);
-    if (count > 0) {
-      collectedSections.push(markdown);
-      totalItems += count;
-    }
-    console.log(`Found ${count} release(s)`);
+    const releases = config.releases;
+    add(
+      "releases",
+      () => collectReleases(client, owner, repo, releases, sinceDate),
+      (n) => `${n} release(s)`,
+    );
   }
-
-  // Collect workflow runs
   if (config.workflow_runs) {
-    const { markdown, count } = await collectWorkflowRuns(
-      owner,
-      repo,
-      config.workflow_runs,
-      sinceDate,
+    const workflowRuns = config.workflow_runs;
+    add(
+      "workflow_runs",
+      () => collectWorkflowRuns(client, owner, repo, workflowRuns, sinceDate),
+      (n) => `${n} workflow run(s)`,
     );
-    if (count > 0) {
-      collectedSections.push(markdown);
-      totalItems += count;
-    }
-    console.log(`Found ${count} workflow run(s)`);
   }
-
-  // Collect stars
   if (config.stars) {
-    const { markdown, count } = await collectStars(owner, repo);
-    collectedSections.push(markdown);
-    totalItems += count;
+    add("stars", fromRepository("stars"));
   }
-
-  // Collect forks
   if (config.forks) {
-    const { markdown, count } = await collectForks(owner, repo);
-    collectedSections.push(markdown);
-    totalItems += count;
+    add("forks", fromRepository("forks"));
   }
-
-  // Collect security alerts
   if (config.security_alerts) {
-    const { markdown, count } = await collectSecurityAlerts(owner, repo, config.security_alerts);
-    if (count > 0) {
-      collectedSections.push(markdown);
-      totalItems += count;
-    }
-    console.log(`Found ${count} security alert(s)`);
+    const securityAlerts = config.security_alerts;
+    add(
+      "security_alerts",
+      () => collectSecurityAlerts(client, owner, repo, securityAlerts),
+      (n) => `${n} security alert(s)`,
+    );
   }
-
-  // Collect dependabot PRs
   if (config.dependabot_prs) {
-    const { markdown, count } = await collectDependabotPRs(owner, repo, config.dependabot_prs);
-    if (count > 0) {
-      collectedSections.push(markdown);
-      totalItems += count;
-    }
-    console.log(`Found ${count} Dependabot PR(s)`);
+    const dependabotPRs = config.dependabot_prs;
+    add(
+      "dependabot_prs",
+      () => collectDependabotPRs(client, owner, repo, dependabotPRs),
+      (n) => `${n} Dependabot PR(s)`,
+    );
   }
-
-  // Collect code scanning alerts
   if (config.code_scanning_alerts) {
-    const { markdown, count } = await collectCodeScanningAlerts(
-      owner,
-      repo,
-      config.code_scanning_alerts,
+    const codeScanningAlerts = config.code_scanning_alerts;
+    add(
+      "code_scanning_alerts",
+      () => collectCodeScanningAlerts(client, owner, repo, codeScanningAlerts),
+      (n) => `${n} code scanning alert(s)`,
     );
-    if (count > 0) {
-      collectedSections.push(markdown);
-      totalItems += count;
-    }
-    console.log(`Found ${count} code scanning alert(s)`);
   }
-
-  // Collect deployments
   if (config.deployments) {
-    const { markdown, count } = await collectDeployments(owner, repo, config.deployments);
-    if (count > 0) {
-      collectedSections.push(markdown);
-      totalItems += count;
-    }
-    console.log(`Found ${count} deployment(s)`);
+    const deployments = config.deployments;
+    add(
+      "deployments",
+      () => collectDeployments(client, owner, repo, deployments),
+      (n) => `${n} deployment(s)`,
+    );
   }
-
-  // Collect milestones
   if (config.milestones) {
-    const { markdown, count } = await collectMilestones(owner, repo, config.milestones);
-    if (count > 0) {
-      collectedSections.push(markdown);
-      totalItems += count;
-    }
-    console.log(`Found ${count} milestone(s)`);
+    const milestones = config.milestones;
+    add(
+      "milestones",
+      () => collectMilestones(client, owner, repo, milestones),
+      (n) => `${n} milestone(s)`,
+    );
   }
-
-  // Collect contributors
   if (config.contributors) {
-    const { markdown, count } = await collectContributors(
-      owner,
-      repo,
-      config.contributors,
-      sinceDate,
+    const contributors = config.contributors;
+    add(
+      "contributors",
+      () => collectContributors(client, owner, repo, contributors, sinceDate),
+      (n) => `${n} contributor(s)`,
     );
-    if (count > 0) {
-      collectedSections.push(markdown);
-      totalItems += count;
-    }
-    console.log(`Found ${count} contributor(s)`);
   }
-
-  // Collect comments
   if (config.comments) {
-    const { markdown, count } = await collectComments(owner, repo, config.comments, sinceDate);
-    if (count > 0) {
-      collectedSections.push(markdown);
-      totalItems += count;
-    }
-    console.log(`Found ${count} comment(s)`);
+    add("comments", fromRepository("comments"), (n) => `${n} comment(s)`);
   }
-
-  // Collect repository traffic
   if (config.repository_traffic) {
-    const { markdown, count } = await collectRepositoryTraffic(
-      owner,
-      repo,
-      config.repository_traffic,
+    const traffic = config.repository_traffic;
+    add(
+      "repository_traffic",
+      () => collectRepositoryTraffic(client, owner, repo, traffic),
+      () => "repository traffic data",
     );
-    if (count > 0) {
-      collectedSections.push(markdown);
-      totalItems += count;
-    }
-    console.log(`Found repository traffic data`);
   }
-
-  // Collect branches
   if (config.branches) {
-    const { markdown, count } = await collectBranches(owner, repo, config.branches);
-    if (count > 0) {
-      collectedSections.push(markdown);
-      totalItems += count;
-    }
-    console.log(`Found ${count} branch(es)`);
+    const branches = config.branches;
+    add(
+      "branches",
+      () => collectBranches(client, owner, repo, branches),
+      (n) => `${n} branch(es)`,
+    );
   }
-
-  // Collect check runs
   if (config.check_runs) {
-    const { markdown, count } = await collectCheckRuns(owner, repo, config.check_runs, sinceDate);
-    if (count > 0) {
-      collectedSections.push(markdown);
-      totalItems += count;
-    }
-    console.log(`Found ${count} check run(s)`);
+    const checkRuns = config.check_runs;
+    add(
+      "check_runs",
+      () => collectCheckRuns(client, owner, repo, checkRuns, sinceDate),
+      (n) => `${n} check run(s)`,
+    );
   }
-
-  // Collect project context (GitHub Projects v2)
   if (config.project) {
-    const { markdown, count } = await collectProject(owner, repo, config.project);
-    if (count > 0) {
-      collectedSections.push(markdown);
+    const project = config.project;
+    add(
+      "project",
+      () => collectProject(client, owner, repo, project),
+      (n) => `${n} project item(s)`,
+    );
+  }
+  if (config.documentation) {
+    const documentation = config.documentation;
+    add(
+      "documentation",
+      () =>
+        collectDocumentation(client, owner, repo, documentation, sinceDate, {
+          agentName: agent.name,
+          dryRun: ctx.dryRun,
+        }),
+      (n) => `${n} documentation item(s)`,
+    );
+  }
+
+  // Independent sources are collected concurrently
+  const results = await mapConcurrent(sources, CONTEXT_CONCURRENCY, async (task) => {
+    const result = await task.collect();
+    if (task.found) {
+      console.log(`Found ${task.found(result.count)}`);
+    }
+    return result;
+  });
+
+  const collectedSections: ContextSection[] = [];
+  let totalItems = 0;
+  results.forEach(({ markdown, count }, index) => {
+    const { source } = sources[index];
+    // Documentation always has its config section, even without drift or changelog items
+    if (source === "documentation" ? markdown : count > 0) {
+      collectedSections.push({ source, markdown });
       totalItems += count;
     }
-    console.log(`Found ${count} project item(s)`);
-  }
+  });
+
+  // Keep the cache for the next run, and record what collection cost for the audit
+  await saveApiCache(client.cacheForNextRun()).catch((error) =>
+    console.warn(`Failed to save the API cache: ${(error as Error).message}`),
+  );
+  await mkdir(dirname(CONTEXT_API_USAGE_FILE), { recursive: true });
+  await writeFile(CONTEXT_API_USAGE_FILE, JSON.stringify(client.usage, null, 2), "utf-8");
+  console.log(
+    `GitHub API: ${client.usage.points} point(s), ${client.usage.rest_requests} REST request(s), ` +
+      `${client.usage.cached_responses} cached, ${client.usage.graphql_queries} GraphQL quer(ies)`,
+  );
 
   // Check min_items threshold
   const minItems = config.min_items ?? 1;
@@ -297,6 +314,19 @@ export async function runContext(ctx: StageContext): Promise<StageResult> {
   const contextPath = "/tmp/context/collected.md";
   await mkdir(dirname(contextPath), { recursive: true });
 
+  // Fit the sections into the context budget, and record what had to give for the audit
+  let sectionsMarkdown = collectedSections.map((section) => section.markdown).join("\n");
+  if (config.budget) {
+    const { markdown, report } = applyContextBudget(collectedSections, config.budget);
+    sectionsMarkdown = markdown;
+    await mkdir(dirname(CONTEXT_BUDGET_FILE), { recursive: true });
+    await writeFile(CONTEXT_BUDGET_FILE, JSON.stringify(report, null, 2), "utf-8");
+    console.log(
+      `Context budget: ${report.collected_characters} -> ${report.final_characters} characters` +
+        ` (${report.truncated_items} item(s) truncated, ${report.summarized.length} section(s) summarized, ${report.dropped.length} dropped)`,
+    );
+  }
+
   const contextContent = [
     "# Collected Context",
     "",
@@ -304,7 +334,7 @@ export async function runContext(ctx: StageContext): Promise<StageResult> {
     `*Since: ${sinceDate.toISOString()}*`,
     `*Total items: ${totalItems}*`,
     "",
-    ...collectedSections,
+    sectionsMarkdown,
   ].join("\n");
 
   await writeFile(contextPath, contextContent, "utf-8");
@@ -321,33 +351,22 @@ export async function runContext(ctx: StageContext): Promise<StageResult> {
 }
 
 /**
- * Calculate the since date based on configuration
+ * Calculate the since date based on configuration.
+ * `last-run` reads the agent's last successful run from the state store.
  */
 async function calculateSinceDate(
   since: string,
-  _ctx: StageContext,
-  owner: string,
-  repo: string,
+  ctx: StageContext,
+  agentName: string,
 ): Promise<Date> {
   if (since === "last-run") {
     try {
-      // Get the last successful workflow run
-      const response = await ghApi<{
-        workflow_runs: Array<{
-          status: string;
-          conclusion: string;
-          created_at: string;
-        }>;
-      }>(`repos/${owner}/${repo}/actions/runs?per_page=50`);
-
-      // Find the last successful run of this workflow
-      const lastRun = response.workflow_runs.find(
-        (run) => run.status === "completed" && run.conclusion === "success",
-      );
+      const store = await openStateStore(ctx.repository);
+      const lastRun = getLastSuccessfulRun(await loadRunHistory(store, agentStateScope(agentName)));
 
       if (lastRun) {
-        console.log(`Using last successful run timestamp: ${lastRun.created_at}`);
-        return new Date(lastRun.created_at);
+        console.log(`Using last successful run timestamp: ${lastRun.timestamp}`);
+        return new Date(lastRun.timestamp);
       }
     } catch {
       console.log("Could not find last run, defaulting to 24 hours");
@@ -376,13 +395,25 @@ async function calculateSinceDate(
 }
 
 /**
- * Normalize state array to a single valid GitHub API state value.
+ * GraphQL states to filter issues or pull requests by, or undefined for all of them.
+ * @param closed - States a `closed` filter covers; closed pull requests include merged ones
  */
-function normalizeState(states?: string[]): "open" | "closed" | "all" {
-  if (!states || states.length === 0 || states.includes("all") || states.length > 1) {
-    return "all";
-  }
-  return states[0] === "merged" ? "closed" : (states[0] as "open" | "closed");
+function graphqlStates(states: string[] | undefined, closed: string[]): string[] | undefined {
+  if (!states || states.length === 0 || states.includes("all")) {
+    return undefined;
+  }
+  const mapped = states.flatMap((state) => {
+    if (state === "open") return ["OPEN"];
+    if (state === "merged") return ["MERGED"];
+    return closed;
+  });
+  return [...new Set(mapped)];
+}
+
+/** Arguments of an issue or pull request connection, newest updates first */
+function connectionArguments(limit: number, states: string[] | undefined, extra = ""): string {
+  const filter = states ? `, states: [${states.join(", ")}]` : "";
+  return `first: ${limit}${filter}, orderBy: {field: UPDATED_AT, direction: DESC}${extra}`;
 }
 
 interface CollectionResult {
@@ -390,79 +421,137 @@ interface CollectionResult {
   count: number;
 }
 
+/** A context source collected by the runner, in the order its section is written */
+interface ContextSourceTask {
+  source: ContextSource;
+  collect: () => Promise<CollectionResult>;
+  found?: (count: number) => string;
+}
+
+/** A context source collected from repository fields fetched with the batched GraphQL query */
+interface RepositoryField {
+  source: ContextSource;
+  /** Repository fields by alias, e.g. `{ stars: "stargazerCount" }` */
+  selections: Record<string, string>;
+  /** Build the section from the fetched fields; fields that failed to fetch are missing */
+  collect: (data: Record<string, unknown>) => CollectionResult;
+}
+
 /**
- * Collect issues from GitHub
+ * Fetch the fields of all sources in one GraphQL query. A field the repository does not
+ * support (e.g. discussions when they are disabled) fails the whole query, so on error the
+ * fields of each source are fetched on their own and the failing ones are left out.
  */
-async function collectIssues(
-  owner: string,
-  repo: string,
-  config: IssuesContextConfig,
-  sinceDate: Date,
-): Promise<CollectionResult> {
-  const limit = config.limit || 100;
-  const state = normalizeState(config.states);
+async function fetchRepositoryFields(
+  client: GitHubClient,
+  fields: RepositoryField[],
+): Promise<Record<string, unknown>> {
+  if (fields.length === 0) {
+    return {};
+  }
+
+  const selections = Object.assign({}, ...fields.map((field) => field.selections));
+  try {
+    return await client.repository(selections);
+  } catch {
+    const data: Record<string, unknown> = {};
+    for (const field of fields) {
+      try {
+        Object.assign(data, await client.repository(field.selections));
+      } catch {
+        // Left out; the field reports the failure when its section is collected
+      }
+    }
+    return data;
+  }
+}
 
-  interface IssueResponse {
+/**
+ * Issues selection for the batched repository query, and the filters applied to its result
+ */
+function issuesField(config: IssuesContextConfig, sinceDate: Date): RepositoryField {
+  const limit = Math.min(config.limit || 100, 100);
+  const states = graphqlStates(config.states, ["CLOSED"]);
+
+  interface IssueNode {
     number: number;
     title: string;
     state: string;
-    user: { login: string };
-    html_url: string;
-    created_at: string;
-    updated_at: string;
-    labels: Array<{ name: string }>;
-    assignees: Array<{ login: string }>;
-    body: string | null;
-    pull_request?: unknown;
+    author: { login: string } | null;
+    url: string;
+    createdAt: string;
+    updatedAt: string;
+    labels: { nodes: Array<{ name: string }> };
+    assignees: { nodes: Array<{ login: string }> };
+    body: string;
   }
 
-  const response = await ghApi<IssueResponse[]>(
-    `repos/${owner}/${repo}/issues?state=${state}&per_page=${limit}`,
-  );
+  const selection = `
+    issues(${connectionArguments(limit, states, `, filterBy: {since: "${sinceDate.toISOString()}"}`)}) {
+      nodes {
+        number
+        title
+        state
+        author { login }
+        url
+        createdAt
+        updatedAt
+        labels(first: 20) { nodes { name } }
+        assignees(first: 10) { nodes { login } }
+        body
+      }
+    }
+  `;
 
-  // Filter out pull requests (GitHub includes them in issues endpoint)
-  // and filter by updated date
-  let issues = response.filter(
-    (issue) => !issue.pull_request && new Date(issue.updated_at) >= sinceDate,
-  );
+  const collect = (data: Record<string, unknown>): CollectionResult => {
+    if (!data.issues) {
+      throw new Error("Failed to collect issues for the repository");
+    }
 
-  // Filter by labels if specified
-  if (config.labels && config.labels.length > 0) {
-    issues = issues.filter((issue) =>
-      issue.labels.some((label) => config.labels?.includes(label.name)),
+    let issues = (data.issues as { nodes: IssueNode[] }).nodes.filter(
+      (issue) => new Date(issue.updatedAt) >= sinceDate,
     );
-  }
 
-  // Exclude by labels if specified
-  if (config.exclude_labels && config.exclude_labels.length > 0) {
-    issues = issues.filter(
-      (issue) => !issue.labels.some((label) => config.exclude_labels?.includes(label.name)),
-    );
-  }
+    // Filter by labels if specified
+    if (config.labels && config.labels.length > 0) {
+      issues = issues.filter((issue) =>
+        issue.labels.nodes.some((label) => config.labels?.includes(label.name)),
+      );
+    }
 
-  // Filter by assignees if specified
-  if (config.assignees && config.assignees.length > 0) {
-    issues = issues.filter((issue) =>
-      issue.assignees.some((assignee) => config.assignees?.includes(assignee.login)),
-    );
-  }
+    // Exclude by labels if specified
+    if (config.exclude_labels && config.exclude_labels.length > 0) {
+      issues = issues.filter(
+        (issue) => !issue.labels.nodes.some((label) => config.exclude_labels?.includes(label.name)),
+      );
+    }
 
-  // Format as markdown
-  const formattedIssues: GitHubIssue[] = issues.map((issue) => ({
-    number: issue.number,
-    title: issue.title,
-    state: issue.state,
-    author: issue.user.login,
-    url: issue.html_url,
-    createdAt: issue.created_at,
-    updatedAt: issue.updated_at,
-    labels: issue.labels.map((l) => l.name),
-    assignees: issue.assignees.map((a) => a.login),
-    body: issue.body ?? undefined,
-  }));
+    // Filter by assignees if specified
+    if (config.assignees && config.assignees.length > 0) {
+      issues = issues.filter((issue) =>
+        issue.assignees.nodes.some((assignee) => config.assignees?.includes(assignee.login)),
+      );
+    }
+
+    // Format as markdown
+    const formattedIssues: GitHubIssue[] = issues.map((issue) => ({
+      number: issue.number,
+      title: issue.title,
+      state: issue.state.toLowerCase(),
+      author: issue.author?.login ?? "ghost",
+      url: issue.url,
+      createdAt: issue.createdAt,
+      updatedAt: issue.updatedAt,
+      labels: issue.labels.nodes.map((l) => l.name),
+      assignees: issue.assignees.nodes.map((a) => a.login),
+      body: issue.body || undefined,
+    }));
+
+    const markdown = formatIssuesMarkdown(formattedIssues);
+    return { markdown, count: formattedIssues.length };
+  };
 
-  const markdown = formatIssuesMarkdown(formattedIssues);
-  return { markdown, count: formattedIssues.length };
+  return { source: "issues", selections: { issues: selection }, collect };
 }
 
 function formatIssuesMarkdown(issues: GitHubIssue[]): string {
@@ -487,95 +576,119 @@ function formatIssuesMarkdown(issues: GitHubIssue[]): string {
 }
 
 /**
- * Collect pull requests from GitHub
+ * Pull requests selection for the batched repository query, and the filters applied to its result
  */
-async function collectPullRequests(
-  owner: string,
-  repo: string,
-  config: PullRequestsContextConfig,
-  sinceDate: Date,
-): Promise<CollectionResult> {
-  const limit = config.limit || 100;
-  const state = normalizeState(config.states);
+function pullRequestsField(config: PullRequestsContextConfig, sinceDate: Date): RepositoryField {
+  const limit = Math.min(config.limit || 100, 100);
+  const states = graphqlStates(config.states, ["CLOSED", "MERGED"]);
 
-  interface PullRequestResponse {
+  interface PullRequestNode {
     number: number;
     title: string;
     state: string;
-    user: { login: string };
-    html_url: string;
-    created_at: string;
-    updated_at: string;
-    merged_at: string | null;
-    labels: Array<{ name: string }>;
-    assignees: Array<{ login: string }>;
-    requested_reviewers: Array<{ login: string }>;
-    base: { ref: string };
-    head: { ref: string };
-    body: string | null;
+    author: { login: string } | null;
+    url: string;
+    createdAt: string;
+    updatedAt: string;
+    mergedAt: string | null;
+    labels: { nodes: Array<{ name: string }> };
+    assignees: { nodes: Array<{ login: string }> };
+    reviewRequests: { nodes: Array<{ requestedReviewer: { login?: string } | null }> };
+    baseRefName: string;
+    headRefName: string;
+    body: string;
   }
 
-  const response = await ghApi<PullRequestResponse[]>(
-    `repos/${owner}/${repo}/pulls?state=${state}&per_page=${limit}`,
-  );
+  const selection = `
+    pullRequests(${connectionArguments(limit, states)}) {
+      nodes {
+        number
+        title
+        state
+        author { login }
+        url
+        createdAt
+        updatedAt
+        mergedAt
+        labels(first: 20) { nodes { name } }
+        assignees(first: 10) { nodes { login } }
+        reviewRequests(first: 10) { nodes { requestedReviewer { ... on User { login } } } }
+        baseRefName
+        headRefName
+        body
+      }
+    }
+  `;
 
-  // Filter by updated date
-  let prs = response.filter((pr) => new Date(pr.updated_at) >= sinceDate);
+  const collect = (data: Record<string, unknown>): CollectionResult => {
+    if (!data.pull_requests) {
+      throw new Error("Failed to collect pull requests for the repository");
+    }
 
-  // Filter merged PRs if only merged is requested
-  if (config.states?.length === 1 && config.states[0] === "merged") {
-    prs = prs.filter((pr) => pr.merged_at !== null);
-  }
+    // Filter by updated date
+    let prs = (data.pull_requests as { nodes: PullRequestNode[] }).nodes.filter(
+      (pr) => new Date(pr.updatedAt) >= sinceDate,
+    );
+    const reviewers = (pr: PullRequestNode) =>
+      pr.reviewRequests.nodes.flatMap((request) => request.requestedReviewer?.login ?? []);
 
-  // Filter by labels if specified
-  if (config.labels && config.labels.length > 0) {
-    prs = prs.filter((pr) => pr.labels.some((label) => config.labels?.includes(label.name)));
-  }
+    // Filter merged PRs if only merged is requested
+    if (config.states?.length === 1 && config.states[0] === "merged") {
+      prs = prs.filter((pr) => pr.mergedAt !== null);
+    }
 
-  // Exclude by labels if specified
-  if (config.exclude_labels && config.exclude_labels.length > 0) {
-    prs = prs.filter(
-      (pr) => !pr.labels.some((label) => config.exclude_labels?.includes(label.name)),
-    );
-  }
+    // Filter by labels if specified
+    if (config.labels && config.labels.length > 0) {
+      prs = prs.filter((pr) =>
+        pr.labels.nodes.some((label) => config.labels?.includes(label.name)),
+      );
+    }
 
-  // Filter by reviewers if specified
-  if (config.reviewers && config.reviewers.length > 0) {
-    prs = prs.filter((pr) =>
-      pr.requested_reviewers.some((reviewer) => config.reviewers?.includes(reviewer.login)),
-    );
-  }
+    // Exclude by labels if specified
+    if (config.exclude_labels && config.exclude_labels.length > 0) {
+      prs = prs.filter(
+        (pr) => !pr.labels.nodes.some((label) => config.exclude_labels?.includes(label.name)),
+      );
+    }
 
-  // Filter by base branch if specified
-  if (config.base_branch) {
-    prs = prs.filter((pr) => pr.base.ref === config.base_branch);
-  }
-
-  // Filter by head branch if specified
-  if (config.head_branch) {
-    prs = prs.filter((pr) => pr.head.ref === config.head_branch);
-  }
-
-  // Format as markdown
-  const formattedPRs: GitHubPullRequest[] = prs.map((pr) => ({
-    number: pr.number,
-    title: pr.title,
-    state: pr.state,
-    author: pr.user.login,
-    url: pr.html_url,
-    createdAt: pr.created_at,
-    updatedAt: pr.updated_at,
-    mergedAt: pr.merged_at ?? undefined,
-    labels: pr.labels.map((l) => l.name),
-    assignees: pr.assignees.map((a) => a.login),
-    reviewers: pr.requested_reviewers.map((r) => r.login),
-    baseBranch: pr.base.ref,
-    headBranch: pr.head.ref,
-    body: pr.body ?? undefined,
-  }));
+    // Filter by reviewers if specified
+    if (config.reviewers && config.reviewers.length > 0) {
+      prs = prs.filter((pr) => reviewers(pr).some((login) => config.reviewers?.includes(login)));
+    }
 
-  const markdown = formatPullRequestsMarkdown(formattedPRs);
-  return { markdown, count: formattedPRs.length };
+    // Filter by base branch if specified
+    if (config.base_branch) {
+      prs = prs.filter((pr) => pr.baseRefName === config.base_branch);
+    }
+
+    // Filter by head branch if specified
+    if (config.head_branch) {
+      prs = prs.filter((pr) => pr.headRefName === config.head_branch);
+    }
+
+    // Format as markdown; merged PRs are shown as closed, as on the REST API
+    const formattedPRs: GitHubPullRequest[] = prs.map((pr) => ({
+      number: pr.number,
+      title: pr.title,
+      state: pr.state === "OPEN" ? "open" : "closed",
+      author: pr.author?.login ?? "ghost",
+      url: pr.url,
+      createdAt: pr.createdAt,
+      updatedAt: pr.updatedAt,
+      mergedAt: pr.mergedAt ?? undefined,
+      labels: pr.labels.nodes.map((l) => l.name),
+      assignees: pr.assignees.nodes.map((a) => a.login),
+      reviewers: reviewers(pr),
+      baseBranch: pr.baseRefName,
+      headBranch: pr.headRefName,
+      body: pr.body || undefined,
+    }));
+
+    const markdown = formatPullRequestsMarkdown(formattedPRs);
+    return { markdown, count: formattedPRs.length };
+  };
+
+  return { source: "pull_requests", selections: { pull_requests: selection }, collect };
 }
 
 function formatPullRequestsMarkdown(prs: GitHubPullRequest[]): string {
@@ -602,14 +715,9 @@ function formatPullRequestsMarkdown(prs: GitHubPullRequest[]): string {
 }
 
 /**
- * Collect discussions from GitHub using GraphQL
+ * Discussions selection for the batched repository query, and the filters applied to its result
  */
-async function collectDiscussions(
-  owner: string,
-  repo: string,
-  config: DiscussionsContextConfig,
-  sinceDate: Date,
-): Promise<CollectionResult> {
+function discussionsField(config: DiscussionsContextConfig, sinceDate: Date): RepositoryField {
   const limit = config.limit || 100;
 
   interface DiscussionNode {
@@ -625,47 +733,30 @@ async function collectDiscussions(
     body: string;
   }
 
-  interface GraphQLResponse {
-    data: {
-      repository: {
-        discussions: {
-          nodes: DiscussionNode[];
-        };
-      };
-    };
-  }
-
-  const query = `
-    query($owner: String!, $repo: String!, $limit: Int!) {
-      repository(owner: $owner, name: $repo) {
-        discussions(first: $limit, orderBy: {field: UPDATED_AT, direction: DESC}) {
-          nodes {
-            number
-            title
-            author { login }
-            url
-            createdAt
-            updatedAt
-            category { name }
-            answer { isAnswer }
-            labels(first: 10) { nodes { name } }
-            body
-          }
-        }
+  const selection = `
+    discussions(first: ${limit}, orderBy: {field: UPDATED_AT, direction: DESC}) {
+      nodes {
+        number
+        title
+        author { login }
+        url
+        createdAt
+        updatedAt
+        category { name }
+        answer { isAnswer }
+        labels(first: 10) { nodes { name } }
+        body
       }
     }
   `;
 
-  try {
-    const response = await ghApi<GraphQLResponse>("graphql", {
-      method: "POST",
-      body: {
-        query,
-        variables: { owner, repo, limit },
-      },
-    });
+  const collect = (data: unknown): CollectionResult => {
+    if (!data) {
+      console.log("Failed to collect discussions (may not be enabled for this repository)");
+      return { markdown: "", count: 0 };
+    }
 
-    let discussions = response.data.repository.discussions.nodes;
+    let discussions = (data as { nodes: DiscussionNode[] }).nodes;
 
     // Filter by updated date
     discussions = discussions.filter((d) => new Date(d.updatedAt) >= sinceDate);
@@ -700,10 +791,13 @@ async function collectDiscussions(
 
     const markdown = formatDiscussionsMarkdown(formattedDiscussions);
     return { markdown, count: formattedDiscussions.length };
-  } catch {
-    console.log("Failed to collect discussions (may not be enabled for this repository)");
-    return { markdown: "", count: 0 };
-  }
+  };
+
+  return {
+    source: "discussions",
+    selections: { discussions: selection },
+    collect: (data) => collect(data.discussions),
+  };
 }
 
 function formatDiscussionsMarkdown(discussions: GitHubDiscussion[]): string {
@@ -731,6 +825,7 @@ function formatDiscussionsMarkdown(discussions: GitHubDiscussion[]): string {
  * Collect commits from GitHub
  */
 async function collectCommits(
+  client: GitHubClient,
   owner: string,
   repo: string,
   config: CommitsContextConfig,
@@ -756,9 +851,9 @@ async function collectCommits(
   for (const branch of branches) {
     try {
       // Check if branch exists
-      await ghApi(`repos/${owner}/${repo}/branches/${branch}`);
+      await client.get(`repos/${owner}/${repo}/branches/${branch}`);
 
-      const response = await ghApi<CommitResponse[]>(
+      const response = await client.get<CommitResponse[]>(
         `repos/${owner}/${repo}/commits?sha=${branch}&since=${sinceDate.toISOString()}&per_page=${limit}`,
       );
 
@@ -808,6 +903,7 @@ function formatCommitsMarkdown(commits: GitHubCommit[]): string {
  * Collect releases from GitHub
  */
 async function collectReleases(
+  client: GitHubClient,
   owner: string,
   repo: string,
   config: ReleasesContextConfig,
@@ -827,7 +923,7 @@ async function collectReleases(
     body: string | null;
   }
 
-  const response = await ghApi<ReleaseResponse[]>(
+  const response = await client.get<ReleaseResponse[]>(
     `repos/${owner}/${repo}/releases?per_page=${limit}`,
   );
 
@@ -883,6 +979,7 @@ function formatReleasesMarkdown(releases: GitHubRelease[]): string {
  * Collect workflow runs from GitHub
  */
 async function collectWorkflowRuns(
+  client: GitHubClient,
   owner: string,
   repo: string,
   config: WorkflowRunsContextConfig,
@@ -907,7 +1004,7 @@ async function collectWorkflowRuns(
     workflow_runs: WorkflowRunResponse[];
   }
 
-  const response = await ghApi<WorkflowRunsResponse>(
+  const response = await client.get<WorkflowRunsResponse>(
     `repos/${owner}/${repo}/actions/runs?per_page=${limit}`,
   );
 
@@ -953,47 +1050,25 @@ function formatWorkflowRunsMarkdown(runs: GitHubWorkflowRun[]): string {
 }
 
 /**
- * Collect repository stars count
+ * Repository count (stars, forks) for the batched repository query
  */
-async function collectStars(owner: string, repo: string): Promise<CollectionResult> {
-  interface RepoResponse {
-    stargazers_count: number;
-  }
-
-  const response = await ghApi<RepoResponse>(`repos/${owner}/${repo}`);
-  const stars = response.stargazers_count;
-
-  console.log(`Current stars: ${stars}`);
-
-  return {
-    markdown: `## Stars: ${stars}\n\n`,
-    count: 1,
+function countField(source: ContextSource, field: string, label: string): RepositoryField {
+  const collect = (data: unknown): CollectionResult => {
+    if (typeof data !== "number") {
+      throw new Error(`Failed to collect ${label.toLowerCase()} for the repository`);
+    }
+    console.log(`Current ${label.toLowerCase()}: ${data}`);
+    return { markdown: `## ${label}: ${data}\n\n`, count: 1 };
   };
-}
-
-/**
- * Collect repository forks count
- */
-async function collectForks(owner: string, repo: string): Promise<CollectionResult> {
-  interface RepoResponse {
-    forks_count: number;
-  }
 
-  const response = await ghApi<RepoResponse>(`repos/${owner}/${repo}`);
-  const forks = response.forks_count;
-
-  console.log(`Current forks: ${forks}`);
-
-  return {
-    markdown: `## Forks: ${forks}\n\n`,
-    count: 1,
-  };
+  return { source, selections: { [source]: field }, collect: (data) => collect(data[source]) };
 }
 
 /**
  * Collect Dependabot security alerts from GitHub
  */
 async function collectSecurityAlerts(
+  client: GitHubClient,
   owner: string,
   repo: string,
   config: SecurityAlertsContextConfig,
@@ -1054,7 +1129,7 @@ async function collectSecurityAlerts(
   }
 
   try {
-    const response = await ghApi<SecurityAlert[]>(
+    const response = await client.get<SecurityAlert[]>(
       `repos/${owner}/${repo}/dependabot/alerts?per_page=${limit}&sort=created&direction=desc`,
     );
 
@@ -1164,6 +1239,7 @@ function formatSecurityAlertsMarkdown(
  * Collect Dependabot pull requests from GitHub
  */
 async function collectDependabotPRs(
+  client: GitHubClient,
   owner: string,
   repo: string,
   config: DependabotPRsContextConfig,
@@ -1196,7 +1272,7 @@ async function collectDependabotPRs(
         states.includes(state as never) ||
         (state === "closed" && states.includes("merged" as never))
       ) {
-        const response = await ghApi<PullRequestResponse[]>(
+        const response = await client.get<PullRequestResponse[]>(
           `repos/${owner}/${repo}/pulls?state=${state}&per_page=${limit}`,
         );
         allPrs.push(...response);
@@ -1277,6 +1353,7 @@ function formatDependabotPRsMarkdown(
  * Collect code scanning alerts from GitHub (CodeQL, etc.)
  */
 async function collectCodeScanningAlerts(
+  client: GitHubClient,
   owner: string,
   repo: string,
   config: CodeScanningAlertsContextConfig,
@@ -1325,7 +1402,7 @@ async function collectCodeScanningAlerts(
   }
 
   try {
-    const response = await ghApi<CodeScanningAlert[]>(
+    const response = await client.get<CodeScanningAlert[]>(
       `repos/${owner}/${repo}/code-scanning/alerts?per_page=${limit}&sort=created&direction=desc`,
     );
 
@@ -1430,6 +1507,7 @@ function formatCodeScanningAlertsMarkdown(
  * Collect deployments from GitHub
  */
 async function collectDeployments(
+  client: GitHubClient,
   owner: string,
   repo: string,
   config: DeploymentsContextConfig,
@@ -1460,7 +1538,7 @@ async function collectDeployments(
   }
 
   try {
-    const response = await ghApi<DeploymentResponse[]>(
+    const response = await client.get<DeploymentResponse[]>(
       `repos/${owner}/${repo}/deployments?per_page=${limit}`,
     );
 
@@ -1475,7 +1553,7 @@ async function collectDeployments(
     const deploymentsWithStatus = await Promise.all(
       deployments.map(async (deployment) => {
         try {
-          const statuses = await ghApi<DeploymentStatus[]>(
+          const statuses = await client.get<DeploymentStatus[]>(
             `repos/${owner}/${repo}/deployments/${deployment.id}/statuses`,
           );
           const latestStatus = statuses[0]; // Most recent status first
@@ -1561,6 +1639,7 @@ function formatDeploymentsMarkdown(
  * Collect milestones from GitHub
  */
 async function collectMilestones(
+  client: GitHubClient,
   owner: string,
   repo: string,
   config: MilestonesContextConfig,
@@ -1585,7 +1664,7 @@ async function collectMilestones(
   }
 
   try {
-    const response = await ghApi<MilestoneResponse[]>(
+    const response = await client.get<MilestoneResponse[]>(
       `repos/${owner}/${repo}/milestones?state=${state}&sort=${sort}&per_page=${limit}`,
     );
 
@@ -1649,6 +1728,7 @@ function formatMilestonesMarkdown(
  * Collect contributors from GitHub
  */
 async function collectContributors(
+  client: GitHubClient,
   owner: string,
   repo: string,
   config: ContributorsContextConfig,
@@ -1666,7 +1746,7 @@ async function collectContributors(
   }
 
   try {
-    const response = await ghApi<ContributorResponse[]>(
+    const response = await client.get<ContributorResponse[]>(
       `repos/${owner}/${repo}/contributors?per_page=${limit}`,
     );
 
@@ -1678,7 +1758,7 @@ async function collectContributors(
       contributors.map(async (contributor) => {
         try {
           // Get recent commits by this contributor
-          const commits = await ghApi<
+          const commits = await client.get<
             Array<{
               commit: { author: { date: string } };
             }>
@@ -1744,139 +1824,150 @@ function formatContributorsMarkdown(
   return lines.join("\n");
 }
 
+/** Issues and pull requests whose recent comments are fetched */
+const COMMENT_THREADS = 50;
+
+/** Most recent comments fetched per issue, pull request or review */
+const COMMENTS_PER_THREAD = 20;
+
 /**
- * Collect comments from GitHub (issue comments, PR comments, review comments)
+ * Comments selection for the batched repository query: the latest comments on recently
+ * updated issues and pull requests, and the comments of their latest reviews
  */
-async function collectComments(
-  owner: string,
-  repo: string,
-  config: CommentsContextConfig,
-  sinceDate: Date,
-): Promise<CollectionResult> {
+function commentsField(config: CommentsContextConfig, sinceDate: Date): RepositoryField {
   const limit = config.limit || 100;
-  const allComments: Array<{
-    id: number;
-    type: string;
+  const since = sinceDate.toISOString();
+
+  interface CommentNode {
+    databaseId: number;
     body: string;
-    author: string;
+    author: { login: string } | null;
     createdAt: string;
     updatedAt: string;
     url: string;
-    parentNumber?: number;
-    parentTitle?: string;
-  }> = [];
-
-  interface IssueCommentResponse {
-    id: number;
-    body: string;
-    user: { login: string };
-    created_at: string;
-    updated_at: string;
-    html_url: string;
-    issue_url: string;
   }
 
-  interface PullRequestCommentResponse {
-    id: number;
-    body: string;
-    user: { login: string };
-    created_at: string;
-    updated_at: string;
-    html_url: string;
-    pull_request_url: string;
-    path?: string;
-    position?: number;
+  interface CommentThread {
+    number: number;
+    comments?: { nodes: CommentNode[] };
+    reviews?: { nodes: Array<{ comments: { nodes: CommentNode[] } }> };
+  }
+
+  const comments = `comments(last: ${COMMENTS_PER_THREAD}) {
+          nodes { databaseId body author { login } createdAt updatedAt url }
+        }`;
+  const selections: Record<string, string> = {};
+  if (config.issue_comments !== false) {
+    selections.issue_comments = `
+    issues(${connectionArguments(COMMENT_THREADS, undefined, `, filterBy: {since: "${since}"}`)}) {
+      nodes {
+        number
+        ${comments}
+      }
+    }
+  `;
   }
-
-  try {
-    // Collect issue comments
-    if (config.issue_comments !== false) {
-      try {
-        const issueComments = await ghApi<IssueCommentResponse[]>(
-          `repos/${owner}/${repo}/issues/comments?per_page=${limit}&sort=created&direction=desc`,
-        );
-
-        const recentComments = issueComments.filter((c) => new Date(c.created_at) >= sinceDate);
-
-        for (const comment of recentComments) {
-          // Extract issue number from issue_url
-          const issueMatch = comment.issue_url.match(/\/issues\/(\d+)$/);
-          const issueNumber = issueMatch ? parseInt(issueMatch[1], 10) : undefined;
-
-          allComments.push({
-            id: comment.id,
-            type: "issue_comment",
-            body: comment.body,
-            author: comment.user.login,
-            createdAt: comment.created_at,
-            updatedAt: comment.updated_at,
-            url: comment.html_url,
-            parentNumber: issueNumber,
-          });
-        }
-      } catch (error) {
-        console.log("Failed to collect issue comments");
-        console.error(error);
+  if (config.pr_comments !== false || config.pr_review_comments !== false) {
+    selections.pull_request_comments = `
+    pullRequests(${connectionArguments(COMMENT_THREADS, undefined)}) {
+      nodes {
+        number
+        ${config.pr_comments !== false ? comments : ""}
+        ${config.pr_review_comments !== false ? `reviews(last: 10) { nodes { ${comments} } }` : ""}
       }
     }
+  `;
+  }
 
-    // Collect PR review comments
-    if (config.pr_review_comments !== false) {
-      try {
-        const prComments = await ghApi<PullRequestCommentResponse[]>(
-          `repos/${owner}/${repo}/pulls/comments?per_page=${limit}&sort=created&direction=desc`,
-        );
-
-        const recentComments = prComments.filter((c) => new Date(c.created_at) >= sinceDate);
-
-        for (const comment of recentComments) {
-          // Extract PR number from pull_request_url
-          const prMatch = comment.pull_request_url.match(/\/pulls\/(\d+)$/);
-          const prNumber = prMatch ? parseInt(prMatch[1], 10) : undefined;
-
-          allComments.push({
-            id: comment.id,
-            type: "pr_review_comment",
-            body: comment.body,
-            author: comment.user.login,
-            createdAt: comment.created_at,
-            updatedAt: comment.updated_at,
-            url: comment.html_url,
-            parentNumber: prNumber,
-          });
-        }
-      } catch (error) {
-        console.log("Failed to collect PR review comments");
-        console.error(error);
+  const collect = (data: Record<string, unknown>): CollectionResult => {
+    const threads = (alias: string, label: string): CommentThread[] => {
+      if (!(alias in selections)) {
+        return [];
       }
-    }
+      if (!data[alias]) {
+        console.log(`Failed to collect ${label}`);
+        return [];
+      }
+      return (data[alias] as { nodes: CommentThread[] }).nodes;
+    };
+
+    // Newest first, at most `limit` of each type
+    const recent = (
+      type: CollectedComment["type"],
+      entries: Array<{ parentNumber: number; comment: CommentNode }>,
+    ): CollectedComment[] =>
+      entries
+        .filter(({ comment }) => new Date(comment.createdAt) >= sinceDate)
+        .sort((a, b) => b.comment.createdAt.localeCompare(a.comment.createdAt))
+        .slice(0, limit)
+        .map(({ parentNumber, comment }) => ({
+          id: comment.databaseId,
+          type,
+          body: comment.body,
+          author: comment.author?.login ?? "ghost",
+          createdAt: comment.createdAt,
+          updatedAt: comment.updatedAt,
+          url: comment.url,
+          parentNumber,
+        }));
+
+    const issues = threads("issue_comments", "issue comments");
+    const pullRequests = threads("pull_request_comments", "pull request comments");
+    const allComments = [
+      ...recent(
+        "issue_comment",
+        issues.flatMap((issue) =>
+          (issue.comments?.nodes ?? []).map((comment) => ({ parentNumber: issue.number, comment })),
+        ),
+      ),
+      ...recent(
+        "pr_comment",
+        pullRequests.flatMap((pr) =>
+          (pr.comments?.nodes ?? []).map((comment) => ({ parentNumber: pr.number, comment })),
+        ),
+      ),
+      ...recent(
+        "pr_review_comment",
+        pullRequests.flatMap((pr) =>
+          (pr.reviews?.nodes ?? []).flatMap((review) =>
+            review.comments.nodes.map((comment) => ({ parentNumber: pr.number, comment })),
+          ),
+        ),
+      ),
+    ];
 
     const markdown = formatCommentsMarkdown(allComments);
     return { markdown, count: allComments.length };
-  } catch (error) {
-    console.log("Failed to collect comments");
-    console.error(error);
-    return { markdown: "", count: 0 };
-  }
+  };
+
+  return { source: "comments", selections, collect };
 }
 
-function formatCommentsMarkdown(
-  comments: Array<{
-    id: number;
-    type: string;
-    body: string;
-    author: string;
-    createdAt: string;
-    url: string;
-    parentNumber?: number;
-  }>,
-): string {
+/** A comment collected for the comments section */
+interface CollectedComment {
+  id: number;
+  type: "issue_comment" | "pr_comment" | "pr_review_comment";
+  body: string;
+  author: string;
+  createdAt: string;
+  updatedAt: string;
+  url: string;
+  parentNumber?: number;
+}
+
+const COMMENT_TYPE_LABELS: Record<CollectedComment["type"], string> = {
+  issue_comment: "Issue",
+  pr_comment: "PR",
+  pr_review_comment: "PR Review",
+};
+
+function formatCommentsMarkdown(comments: CollectedComment[]): string {
   if (comments.length === 0) return "";
 
   const lines = ["## Comments", ""];
 
   for (const comment of comments) {
-    const typeLabel = comment.type === "issue_comment" ? "Issue" : "PR Review";
+    const typeLabel = COMMENT_TYPE_LABELS[comment.type];
     const parentRef = comment.parentNumber ? `#${comment.parentNumber}` : "Unknown";
 
     lines.push(`### ${typeLabel} Comment on ${parentRef}`);
@@ -1893,6 +1984,7 @@ function formatCommentsMarkdown(
  * Collect repository traffic data from GitHub
  */
 async function collectRepositoryTraffic(
+  client: GitHubClient,
   owner: string,
   repo: string,
   config: RepositoryTrafficContextConfig,
@@ -1937,7 +2029,7 @@ async function collectRepositoryTraffic(
     // Collect views
     if (config.views !== false) {
       try {
-        const views = await ghApi<TrafficViews>(`repos/${owner}/${repo}/traffic/views`);
+        const views = await client.get<TrafficViews>(`repos/${owner}/${repo}/traffic/views`);
         sections.push(`### Views\n`);
         sections.push(`**Total:** ${views.count} views (${views.uniques} unique visitors)\n`);
         if (views.views.length > 0) {
@@ -1957,7 +2049,7 @@ async function collectRepositoryTraffic(
     // Collect clones
     if (config.clones !== false) {
       try {
-        const clones = await ghApi<TrafficClones>(`repos/${owner}/${repo}/traffic/clones`);
+        const clones = await client.get<TrafficClones>(`repos/${owner}/${repo}/traffic/clones`);
         sections.push(`### Clones\n`);
         sections.push(`**Total:** ${clones.count} clones (${clones.uniques} unique cloners)\n`);
         if (clones.clones.length > 0) {
@@ -1977,7 +2069,7 @@ async function collectRepositoryTraffic(
     // Collect referrers
     if (config.referrers !== false) {
       try {
-        const referrers = await ghApi<TrafficReferrer[]>(
+        const referrers = await client.get<TrafficReferrer[]>(
           `repos/${owner}/${repo}/traffic/popular/referrers`,
         );
         if (referrers.length > 0) {
@@ -1998,7 +2090,9 @@ async function collectRepositoryTraffic(
     // Collect popular paths
     if (config.paths !== false) {
       try {
-        const paths = await ghApi<TrafficPath[]>(`repos/${owner}/${repo}/traffic/popular/paths`);
+        const paths = await client.get<TrafficPath[]>(
+          `repos/${owner}/${repo}/traffic/popular/paths`,
+        );
         if (paths.length > 0) {
           sections.push(`### Popular Paths\n`);
           for (const path of paths.slice(0, 10)) {
@@ -2031,6 +2125,7 @@ async function collectRepositoryTraffic(
  * Collect branches from GitHub
  */
 async function collectBranches(
+  client: GitHubClient,
   owner: string,
   repo: string,
   config: BranchesContextConfig,
@@ -2053,7 +2148,7 @@ async function collectBranches(
   }
 
   try {
-    const response = await ghApi<BranchResponse[]>(
+    const response = await client.get<BranchResponse[]>(
       `repos/${owner}/${repo}/branches?per_page=${limit}`,
     );
 
@@ -2132,6 +2227,7 @@ function formatBranchesMarkdown(
  * Collect check runs from GitHub
  */
 async function collectCheckRuns(
+  client: GitHubClient,
   owner: string,
   repo: string,
   config: CheckRunsContextConfig,
@@ -2163,7 +2259,7 @@ async function collectCheckRuns(
   try {
     // Note: GitHub API doesn't support filtering check runs by date directly
     // We need to get recent commits and then check runs for each
-    const response = await ghApi<CheckRunResponse>(
+    const response = await client.get<CheckRunResponse>(
       `repos/${owner}/${repo}/commits/HEAD/check-runs?per_page=${limit}`,
     );
 
@@ -2244,6 +2340,7 @@ function formatCheckRunsMarkdown(
  * Collect GitHub Projects v2 data using GraphQL
  */
 async function collectProject(
+  client: GitHubClient,
   owner: string,
   repo: string,
   config: ProjectContextConfig,
@@ -2611,10 +2708,7 @@ async function collectProject(
       };
     }
 
-    const response = await ghApi<GraphQLResponse>("graphql", {
-      method: "POST",
-      body: { query, variables },
-    });
+    const response = await client.graphql<GraphQLResponse>(query, variables);
 
     if (response.errors && response.errors.length > 0) {
       console.log(`GraphQL errors: ${response.errors.map((e) => e.message).join(", ")}`);
@@ -2854,3 +2948,179 @@ function formatProjectMarkdown(
 
   return lines.join("\n");
 }
+
+/**
+ * Collect documentation context: the documentation config, detected drift (opening drift
+ * issues unless `create_issues` is false) and changelog entries since the since date.
+ * Drift reports and changelog entries count as items.
+ */
+async function collectDocumentation(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  config: DocumentationConfig,
+  sinceDate: Date,
+  options: { agentName: string; dryRun?: boolean },
+): Promise<CollectionResult> {
+  const sections = [generateDocumentationContext(config)];
+  let count = 0;
+
+  if (config.drift_detection?.enabled) {
+    const reports = await detectDrift(config.drift_detection);
+    count += reports.length;
+    sections.push("## Documentation Drift", "", formatDriftReports(reports));
+
+    if (reports.length > 0 && config.drift_detection.create_issues !== false) {
+      const issues = await createDriftIssues(owner, repo, reports, config.drift_detection, options);
+      if (issues.length > 0) {
+        sections.push(`Drift issues: ${issues.map((number) => `#${number}`).join(", ")}`, "");
+      }
+    }
+  }
+
+  if (config.changelog) {
+    const entries = await collectChangelogEntries(client, owner, repo, config.changelog, sinceDate);
+    count += entries.length;
+    sections.push(
+      `## Changelog Since ${sinceDate.toISOString().slice(0, 10)}`,
+      "",
+      entries.length > 0 ? formatKeepAChangelog(entries) : "No changes since the last run.\n",
+    );
+  }
+
+  return { markdown: sections.join("\n"), count };
+}
+
+/**
+ * Open an issue for each drifted doc file that does not already have an open drift issue.
+ * Returns the numbers of the open drift issues (new and existing).
+ */
+async function createDriftIssues(
+  owner: string,
+  repo: string,
+  reports: DriftReport[],
+  config: DriftDetectionConfig,
+  options: { agentName: string; dryRun?: boolean },
+): Promise<number[]> {
+  const numbers: number[] = [];
+
+  for (const report of reports) {
+    const title = `Documentation drift: ${report.doc_file}`;
+
+    try {
+      const existing = await ghApi<{ items?: Array<{ number: number; title: string }> }>(
+        `search/issues?q=${encodeURIComponent(`repo:${owner}/${repo} is:issue is:open in:title "${title}"`)}`,
+      );
+      const match = existing.items?.find((issue) => issue.title === title);
+      if (match) {
+        console.log(`Drift issue already open: #${match.number}`);
+        numbers.push(match.number);
+        continue;
+      }
+
+      if (options.dryRun) {
+        console.log(`Would create drift issue: ${title}`);
+        continue;
+      }
+
+      const body = [
+        report.message,
+        "",
+        "| | File | Last changed |",
+        "|---|------|--------------|",
+        `| Code | \`${report.code_file}\` | ${report.code_last_modified} |`,
+        `| Docs | \`${report.doc_file}\` | ${report.doc_last_modified} |`,
+        "",
+        `_Detected by ${options.agentName}._`,
+      ].join("\n");
+
+      const issue = await ghApi<{ number: number }>(`repos/${owner}/${repo}/issues`, {
+        method: "POST",
+        body: { title, body, labels: config.labels ?? [] },
+      });
+      console.log(`Created drift issue #${issue.number}`);
+      numbers.push(issue.number);
+    } catch (error) {
+      console.warn(`Failed to create drift issue for ${report.doc_file}:`, error);
+    }
+  }
+
+  return numbers;
+}
+
+/**
+ * Collect changelog entries from merged PRs (and commits, if configured) since the since date.
+ */
+async function collectChangelogEntries(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  config: ChangelogConfig,
+  sinceDate: Date,
+): Promise<ChangelogEntry[]> {
+  const entries: ChangelogEntry[] = [];
+  const since = sinceDate.toISOString();
+
+  if (config.include_prs !== false) {
+    interface SearchResponse {
+      items?: Array<{
+        number: number;
+        title: string;
+        user: { login: string } | null;
+        labels: Array<{ name: string }>;
+        closed_at: string;
+      }>;
+    }
+
+    try {
+      const query = `repo:${owner}/${repo} is:pr is:merged merged:>${since}`;
+      const response = await client.get<SearchResponse>(
+        `search/issues?q=${encodeURIComponent(query)}&per_page=100`,
+      );
+
+      for (const pr of response.items ?? []) {
+        if (pr.labels.some((label) => config.exclude_labels?.includes(label.name))) {
+          continue;
+        }
+        entries.push({
+          date: pr.closed_at.slice(0, 10),
+          category: categorizeChange(pr.title),
+          description: pr.title,
+          pr_number: pr.number,
+          author: pr.user?.login,
+        });
+      }
+    } catch (error) {
+      console.warn("Failed to collect merged pull requests for changelog:", error);
+    }
+  }
+
+  if (config.include_commits) {
+    interface CommitResponse {
+      sha: string;
+      commit: { message: string; author: { name: string; date: string } };
+      author: { login: string } | null;
+    }
+
+    try {
+      const commits = await client.get<CommitResponse[]>(
+        `repos/${owner}/${repo}/commits?since=${since}&per_page=100`,
+      );
+
+      for (const commit of commits) {
+        const message = commit.commit.message.split("\n")[0];
+        entries.push({
+          date: commit.commit.author.date.slice(0, 10),
+          category: categorizeChange(message),
+          description: `${message} (${commit.sha.slice(0, 7)})`,
+          commit_sha: commit.sha,
+          author: commit.author?.login,
+        });
+      }
+    } catch (error) {
+      console.warn("Failed to collect commits for changelog:", error);
+    }
+  }
+
+  return entries;
+}
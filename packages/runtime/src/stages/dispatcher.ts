@@ -1,9 +1,31 @@
 import { readdir } from "node:fs/promises";
 import { join } from "node:path";
-import { agentParser } from "@repo-agents/parser";
-import type { AgentDefinition } from "@repo-agents/types";
+import { resolveAgentChains } from "@repo-agents/generator/chains";
+import { agentParser, loadRepositoryConfig } from "@repo-agents/parser";
+import type { AgentDefinition, RepositoryConfig } from "@repo-agents/types";
 import type { StageResult } from "../types";
+import { getApprovalCommand, hasApprovalOutputs, loadPendingApproval } from "../utils/approvals";
+import { checkBudget, loadAgentSpendStates, type SpendRecord } from "../utils/budget";
 import {
+  checkInvocation,
+  extractCommand,
+  formatInvocationErrors,
+  formatInvocationHelp,
+  getInvocations,
+  HELP_COMMAND,
+  matchInvocation,
+  replyToComment,
+} from "../utils/invocations";
+import { agentStateScope, openStateStore, type StateStore } from "../utils/state";
+import {
+  matchesPushTrigger,
+  matchesReleaseTrigger,
+  matchesWorkflowRunTrigger,
+  readTriggerPayload,
+  type TriggerEventPayload,
+} from "../utils/triggers";
+import {
+  applyEventDeduplication,
   checkBlockingIssues,
   checkBotActor,
   checkMaxOpenPRs,
@@ -27,6 +49,8 @@ import {
  * - agent-{slug}-should-run: "true" | "false"
  * - agent-{slug}-skip-reason: Reason for skipping
  * - agent-{slug}-event-payload: Base64-encoded event payload
+ * - agent-{slug}-chained: "true" when the agent only runs after an upstream agent succeeds
+ * - agent-{slug}-resume-approval: "true" when an /approve or /deny comment decides its plan
  */
 export async function runDispatcher(ctx: {
   github: {
@@ -74,6 +98,7 @@ export async function runDispatcher(ctx: {
 
   // Match event against agent triggers
   let matchingAgents: Array<{ agent: AgentDefinition; path: string }>;
+  const payload = await readTriggerPayload(ctx.github.eventPath);
 
   if (ctx.github.eventName === "workflow_dispatch" && workflowDispatchAgent) {
     // Specific agent requested
@@ -81,17 +106,43 @@ export async function runDispatcher(ctx: {
     console.log(`Workflow dispatch for specific agent: ${workflowDispatchAgent}`);
   } else {
     // Match against all agents based on event
-    matchingAgents = allAgents.filter(({ agent }) => matchesEvent(agent, ctx.github));
+    matchingAgents = allAgents.filter(({ agent }) => matchesEvent(agent, ctx.github, payload));
+
+    // /help is answered here with every agent's commands; no agent runs for it
+    if (
+      ctx.github.eventName === "issue_comment" &&
+      extractCommand(payload.comment?.body ?? "")?.command === HELP_COMMAND
+    ) {
+      await replyWithHelp(ctx, allAgents);
+    }
   }
 
   console.log(`Matched ${matchingAgents.length} agents to event`);
 
+  // Agents chained after a matching agent are validated for this event too
+  const chainedAgents = findChainedAgents(allAgents, matchingAgents);
+  if (chainedAgents.length > 0) {
+    console.log(`Chained ${chainedAgents.length} agents after matching agents`);
+  }
+
+  // Load spend history once, and only when some budget applies to this dispatch
+  const store = await openStateStore(ctx.github.repository);
+  const budget = await loadBudgetContext(store, allAgents, [...matchingAgents, ...chainedAgents]);
+
   // Validate each matching agent and build outputs
   const outputs: Record<string, string> = {};
 
-  for (const { agent, path } of matchingAgents) {
+  // /approve and /deny resume agents that hold a plan on the issue/PR
+  if (ctx.github.eventName === "issue_comment") {
+    Object.assign(outputs, await findPendingApprovals(allAgents, payload, store));
+  }
+
+  for (const { agent, path, chained } of [
+    ...matchingAgents.map((match) => ({ ...match, chained: false })),
+    ...chainedAgents.map((match) => ({ ...match, chained: true })),
+  ]) {
     const slug = slugifyAgentName(agent.name);
-    console.log(`\nValidating agent: ${agent.name}`);
+    console.log(`\nValidating agent: ${agent.name}${chained ? " (chained)" : ""}`);
 
     const validationContext: ValidationContext = {
       github: ctx.github,
@@ -99,10 +150,13 @@ export async function runDispatcher(ctx: {
     };
 
     // Run all validation checks
-    const validationResult = await validateAgent(validationContext, agent);
+    const validationResult = await validateAgent(validationContext, agent, store, budget, chained);
 
     // Set outputs for this agent
     outputs[`agent-${slug}-should-run`] = validationResult.shouldRun ? "true" : "false";
+    if (chained) {
+      outputs[`agent-${slug}-chained`] = "true";
+    }
 
     if (!validationResult.shouldRun && validationResult.reason) {
       outputs[`agent-${slug}-skip-reason`] = validationResult.reason;
@@ -128,11 +182,15 @@ export async function runDispatcher(ctx: {
 }
 
 /**
- * Validate an agent against all checks
+ * Validate an agent against all checks. Chained agents were not invoked by the comment,
+ * so only the command check is skipped for them.
  */
 async function validateAgent(
   ctx: ValidationContext,
   agent: AgentDefinition,
+  store: StateStore,
+  budget?: BudgetContext,
+  chained = false,
 ): Promise<{ shouldRun: boolean; reason?: string }> {
   // 1. Check bot actor (prevents recursive loops from bot-triggered events)
   const botResult = await checkBotActor(ctx, agent);
@@ -146,31 +204,44 @@ async function validateAgent(
     return { shouldRun: false, reason: authResult.reason ?? "User not authorized" };
   }
 
-  // 3. Check trigger labels
+  // 3. Check the invoked command's arguments and per-command authorization
+  const invocationResult: Awaited<ReturnType<typeof checkInvocation>> = chained
+    ? { allowed: true }
+    : await checkInvocation(ctx, agent);
+  if (!invocationResult.allowed) {
+    if (invocationResult.parsed?.errors.length) {
+      await replyToComment(ctx, formatInvocationErrors(invocationResult.parsed)).catch((error) =>
+        console.warn("Failed to reply with usage:", error),
+      );
+    }
+    return { shouldRun: false, reason: invocationResult.reason ?? "Command not allowed" };
+  }
+
+  // 4. Check trigger labels
   const labelsResult = await checkTriggerLabels(ctx, agent);
   if (!labelsResult.valid) {
     return { shouldRun: false, reason: labelsResult.reason ?? "Required labels not present" };
   }
 
-  // 4. Check skip labels
+  // 5. Check skip labels
   const skipLabelsResult = await checkSkipLabels(ctx, agent);
   if (!skipLabelsResult.valid) {
     return { shouldRun: false, reason: skipLabelsResult.reason ?? "Skipped due to labels" };
   }
 
-  // 5. Check rate limiting
-  const rateLimitResult = await checkRateLimit(ctx, agent);
+  // 6. Check rate limiting
+  const rateLimitResult = await checkRateLimit(ctx, agent, store);
   if (!rateLimitResult.allowed) {
     return { shouldRun: false, reason: rateLimitResult.reason ?? "Rate limit exceeded" };
   }
 
-  // 6. Check max open PRs
+  // 7. Check max open PRs
   const maxOpenPrsResult = await checkMaxOpenPRs(ctx, agent);
   if (!maxOpenPrsResult.allowed) {
     return { shouldRun: false, reason: maxOpenPrsResult.reason ?? "Max open PRs limit reached" };
   }
 
-  // 7. Check blocking issues
+  // 8. Check blocking issues
   const blockingIssuesResult = await checkBlockingIssues(ctx, agent);
   if (!blockingIssuesResult.allowed) {
     return {
@@ -179,9 +250,104 @@ async function validateAgent(
     };
   }
 
+  // 9. Check daily and monthly budgets
+  if (budget) {
+    const budgetResult = checkBudget(
+      agent,
+      budget.config,
+      budget.spend.get(agent.name) ?? [],
+      Array.from(budget.spend.values()).flat(),
+    );
+    if (!budgetResult.allowed) {
+      return { shouldRun: false, reason: budgetResult.reason ?? "Budget exhausted" };
+    }
+  }
+
+  // 10. Check event deduplication last, so only events the agent runs for are recorded
+  const deduplicationResult = await applyEventDeduplication(ctx, agent, store);
+  if (!deduplicationResult.allowed) {
+    return {
+      shouldRun: false,
+      reason: deduplicationResult.reason ?? "Event already processed (deduplicated)",
+    };
+  }
+
   return { shouldRun: true };
 }
 
+/**
+ * Repository config and spend history needed for budget checks
+ */
+interface BudgetContext {
+  config: RepositoryConfig;
+  spend: Map<string, SpendRecord[]>;
+}
+
+/**
+ * Load spend history for budget checks. A repository-wide cap needs every agent's
+ * history; otherwise only matching agents with their own caps are loaded.
+ * Returns undefined when no agent matched or no budget applies.
+ */
+async function loadBudgetContext(
+  store: StateStore,
+  allAgents: Array<{ agent: AgentDefinition; path: string }>,
+  matchingAgents: Array<{ agent: AgentDefinition; path: string }>,
+): Promise<BudgetContext | undefined> {
+  if (matchingAgents.length === 0) {
+    return undefined;
+  }
+
+  const { config, errors } = await loadRepositoryConfig();
+  for (const error of errors) {
+    console.warn(`Ignoring repository config: ${error.field}: ${error.message}`);
+  }
+
+  const agentsToLoad = config.budget
+    ? allAgents
+    : matchingAgents.filter(({ agent }) => agent.budget?.daily || agent.budget?.monthly);
+  if (agentsToLoad.length === 0) {
+    return undefined;
+  }
+
+  const states = await loadAgentSpendStates(
+    store,
+    agentsToLoad.map(({ agent }) => agent.name),
+  );
+
+  return {
+    config,
+    spend: new Map(Array.from(states, ([name, state]) => [name, state.records])),
+  };
+}
+
+/**
+ * Agents that do not match the event but are chained, directly or transitively,
+ * after an agent that does.
+ */
+function findChainedAgents(
+  allAgents: Array<{ agent: AgentDefinition; path: string }>,
+  matchingAgents: Array<{ agent: AgentDefinition; path: string }>,
+): Array<{ agent: AgentDefinition; path: string }> {
+  const { upstream } = resolveAgentChains(allAgents.map(({ agent }) => agent));
+  const included = new Set(matchingAgents.map(({ agent }) => slugifyAgentName(agent.name)));
+  const chained: Array<{ agent: AgentDefinition; path: string }> = [];
+
+  let added = true;
+  while (added) {
+    added = false;
+    for (const match of allAgents) {
+      const slug = slugifyAgentName(match.agent.name);
+      if (!included.has(slug) && upstream.get(slug)?.some((up) => included.has(up))) {
+        included.add(slug);
+        chained.push(match);
+        added = true;
+      }
+    }
+  }
+
+  return chained;
+}
+
 /**
  * Discover all agent markdown files and parse them
  */
@@ -246,6 +412,7 @@ async function findAgentFiles(dir: string): Promise<string[]> {
 function matchesEvent(
   agent: AgentDefinition,
   github: { eventName: string; eventAction: string },
+  payload: TriggerEventPayload = {},
 ): boolean {
   const { eventName, eventAction } = github;
 
@@ -272,11 +439,68 @@ function matchesEvent(
         ? agent.on.workflow_dispatch
         : agent.on.workflow_dispatch !== undefined;
 
+    case "push":
+      return agent.on.push ? matchesPushTrigger(agent.on.push, payload) : false;
+
+    case "release":
+      return agent.on.release ? matchesReleaseTrigger(agent.on.release, eventAction) : false;
+
+    case "workflow_run":
+      return agent.on.workflow_run
+        ? matchesWorkflowRunTrigger(agent.on.workflow_run, eventAction, payload)
+        : false;
+
+    case "issue_comment":
+      return matchInvocation(getInvocations(agent), payload.comment?.body ?? "") !== null;
+
     default:
       return false;
   }
 }
 
+/**
+ * Find the agents whose pending plan an /approve or /deny comment decides.
+ * Authorization is checked by the approval stage, which can reply to the commenter.
+ */
+async function findPendingApprovals(
+  agents: Array<{ agent: AgentDefinition; path: string }>,
+  payload: TriggerEventPayload,
+  store: StateStore,
+): Promise<Record<string, string>> {
+  const outputs: Record<string, string> = {};
+  const issueNumber = payload.issue?.number;
+  if (!issueNumber || !getApprovalCommand(payload.comment?.body ?? "")) {
+    return outputs;
+  }
+
+  for (const { agent } of agents.filter(({ agent }) => hasApprovalOutputs(agent))) {
+    const pending = await loadPendingApproval(store, agentStateScope(agent.name), issueNumber);
+    if (pending?.status === "pending") {
+      console.log(`Resuming the pending plan of ${agent.name} on #${issueNumber}`);
+      outputs[`agent-${slugifyAgentName(agent.name)}-resume-approval`] = "true";
+    }
+  }
+  return outputs;
+}
+
+/**
+ * Reply to a /help comment with the commands of all agents.
+ */
+async function replyWithHelp(
+  ctx: Parameters<typeof runDispatcher>[0],
+  agents: Array<{ agent: AgentDefinition; path: string }>,
+): Promise<void> {
+  console.log("Replying to /help");
+  try {
+    await replyToComment(
+      { github: ctx.github },
+      formatInvocationHelp(agents.map(({ agent }) => agent)),
+    );
+  } catch (error) {
+    console.warn("Failed to reply to /help:", error);
+  }
+}
+
 /**
  * Convert agent name to URL-safe slug
  */
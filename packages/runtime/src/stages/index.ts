@@ -3,12 +3,19 @@
  */
 
 export { runAgent } from "./agent";
+export { runApproval } from "./approval";
 export { runAudit } from "./audit";
 export { runAuditIssues } from "./audit-issues";
 export { runAuditReport } from "./audit-report";
 export { runContext } from "./context";
 export { runDispatcher } from "./dispatcher";
-export { runOutputs } from "./outputs";
+export {
+  OUTPUT_PLAN_FILE,
+  readOutputPlan,
+  runOutputs,
+  VALIDATION_ERRORS_DIR,
+} from "./outputs";
 export { runPreFlight } from "./pre-flight";
 export { readFinalComment, runProgress } from "./progress";
 export { runSetup } from "./setup";
+export { runUnifiedValidate } from "./unified/validate";
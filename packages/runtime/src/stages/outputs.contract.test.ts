@@ -31,6 +31,14 @@ import { runOutputs } from "./outputs";
  * - **update-file**: files array validation, message field, allowed-paths enforcement
  * - **close-issue**: state_reason enum validation
  * - **close-pr**: merge field type validation
+ * - **assign-issue / request-review**: target number, assignee/reviewer array limits
+ * - **merge-pr / approve-pr**: pr_number, merge_method enum
+ * - **create-release / create-branch / delete-branch**: required names, protected branches
+ * - **lock-conversation / pin-issue / reopen-issue / set-milestone**: issue_number, enums
+ * - **convert-to-discussion**: issue_number and category required
+ * - **trigger-workflow / add-reaction**: required fields, reaction enum, single target
+ * - **Projects v2 outputs**: project_number resolution, item/operation shapes,
+ *   allowed operations and protected names from the output config
  *
  * ### Validation Scenarios
  * - Required field enforcement
@@ -98,6 +106,35 @@ outputs:
   close-issue: true
   close-pr: true
   create-discussion: true
+  assign-issue: true
+  request-review: true
+  merge-pr: true
+  approve-pr: true
+  create-release: true
+  delete-branch: true
+  lock-conversation: true
+  pin-issue: true
+  convert-to-discussion: true
+  reopen-issue: true
+  set-milestone: true
+  trigger-workflow: true
+  add-reaction: true
+  create-branch: true
+  copy-project: true
+  mark-template: true
+  manage-labels:
+    allow_delete: false
+    protected_labels: ["bug"]
+  add-to-project: true
+  remove-from-project: true
+  update-project-field:
+    project_number: 1
+    allowed_fields: ["Status"]
+  archive-project-item: true
+  manage-project:
+    allow_delete: false
+  manage-project-field: true
+  link-project: true
 allowed-paths:
   - "**/*"
 ---
@@ -136,6 +173,27 @@ Test agent instructions.
     await writeFile(EVENT_FILE_PATH, JSON.stringify(event), "utf-8");
   }
 
+  /**
+   * Helper to write an output file, run the stage, and assert a validation error.
+   */
+  async function expectValidationError(
+    outputType: string,
+    outputFile: Record<string, unknown>,
+    message: string,
+  ) {
+    await writeFile(join(OUTPUTS_DIR, `${outputType}.json`), JSON.stringify(outputFile), "utf-8");
+
+    const result = await runOutputs(createContext(outputType));
+
+    expect(result.success).toBe(false);
+    expect(result.outputs?.executed).toBe("0");
+
+    const errorFile = join(VALIDATION_ERRORS_DIR, `${outputType}.txt`);
+    expect(existsSync(errorFile)).toBe(true);
+    const errorText = await readFile(errorFile, "utf-8");
+    expect(errorText).toContain(message);
+  }
+
   describe("add-comment - Output Format Contract", () => {
     test("validates required body field", async () => {
       await createEventFile(123);
@@ -783,6 +841,358 @@ Restricted agent.
     });
   });
 
+  describe("assign-issue - Output Format Contract", () => {
+    test("validates required issue_number field", async () => {
+      await expectValidationError(
+        "assign-issue",
+        { assignees: ["octocat"] },
+        "issue_number is required",
+      );
+    });
+
+    test("validates assignees array is not empty", async () => {
+      await expectValidationError(
+        "assign-issue",
+        { issue_number: 1, assignees: [] },
+        "assignees array cannot be empty",
+      );
+    });
+
+    test("validates maximum of 10 assignees", async () => {
+      const assignees = Array.from({ length: 11 }, (_, i) => `user${i}`);
+      await expectValidationError(
+        "assign-issue",
+        { issue_number: 1, assignees },
+        "Maximum 10 assignees allowed (found 11)",
+      );
+    });
+  });
+
+  describe("request-review - Output Format Contract", () => {
+    test("validates pr_number is a number", async () => {
+      await expectValidationError(
+        "request-review",
+        { pr_number: "abc", reviewers: ["octocat"] },
+        "pr_number must be a number",
+      );
+    });
+
+    test("requires at least one reviewer or team reviewer", async () => {
+      await expectValidationError(
+        "request-review",
+        { pr_number: 5 },
+        "At least one reviewer or team_reviewer must be specified",
+      );
+    });
+
+    test("validates reviewers is array type", async () => {
+      await expectValidationError(
+        "request-review",
+        { pr_number: 5, reviewers: "octocat" },
+        "reviewers must be an array",
+      );
+    });
+  });
+
+  describe("merge-pr - Output Format Contract", () => {
+    test("validates required pr_number field", async () => {
+      await expectValidationError("merge-pr", {}, "pr_number is required");
+    });
+
+    test("validates merge_method enum values", async () => {
+      await expectValidationError(
+        "merge-pr",
+        { pr_number: 5, merge_method: "fast-forward" },
+        "merge_method must be one of: merge, squash, rebase (got 'fast-forward')",
+      );
+    });
+  });
+
+  describe("approve-pr - Output Format Contract", () => {
+    test("validates required pr_number field", async () => {
+      await expectValidationError("approve-pr", { body: "LGTM" }, "pr_number is required");
+    });
+  });
+
+  describe("create-release - Output Format Contract", () => {
+    test("validates required tag_name field", async () => {
+      await expectValidationError("create-release", { name: "v1" }, "tag_name is required");
+    });
+
+    test("validates draft is boolean", async () => {
+      await expectValidationError(
+        "create-release",
+        { tag_name: "v1.0.0", draft: "yes" },
+        "draft must be a boolean",
+      );
+    });
+  });
+
+  describe("delete-branch - Output Format Contract", () => {
+    test("validates required branch field", async () => {
+      await expectValidationError("delete-branch", {}, "branch is required");
+    });
+
+    test("refuses to delete protected branches", async () => {
+      await expectValidationError(
+        "delete-branch",
+        { branch: "main" },
+        "Cannot delete protected branch 'main'",
+      );
+    });
+  });
+
+  describe("lock-conversation - Output Format Contract", () => {
+    test("validates lock_reason enum values", async () => {
+      await expectValidationError(
+        "lock-conversation",
+        { issue_number: 1, lock_reason: "boring" },
+        "lock_reason must be one of: off-topic, too heated, resolved, spam",
+      );
+    });
+  });
+
+  describe("pin-issue - Output Format Contract", () => {
+    test("validates required issue_number field", async () => {
+      await expectValidationError("pin-issue", {}, "issue_number is required");
+    });
+  });
+
+  describe("convert-to-discussion - Output Format Contract", () => {
+    test("validates required category field", async () => {
+      await expectValidationError(
+        "convert-to-discussion",
+        { issue_number: 1 },
+        "category is required",
+      );
+    });
+  });
+
+  describe("reopen-issue - Output Format Contract", () => {
+    test("validates issue_number is a number", async () => {
+      await expectValidationError(
+        "reopen-issue",
+        { issue_number: "twelve" },
+        "issue_number must be a number",
+      );
+    });
+  });
+
+  describe("set-milestone - Output Format Contract", () => {
+    test("validates required milestone field", async () => {
+      await expectValidationError("set-milestone", { issue_number: 1 }, "milestone is required");
+    });
+  });
+
+  describe("trigger-workflow - Output Format Contract", () => {
+    test("validates required workflow field", async () => {
+      await expectValidationError("trigger-workflow", { ref: "main" }, "workflow is required");
+    });
+
+    test("validates inputs is an object", async () => {
+      await expectValidationError(
+        "trigger-workflow",
+        { workflow: "deploy.yml", inputs: ["a"] },
+        "inputs must be an object",
+      );
+    });
+  });
+
+  describe("add-reaction - Output Format Contract", () => {
+    test("validates reaction enum values", async () => {
+      await expectValidationError(
+        "add-reaction",
+        { issue_number: 1, reaction: "thumbsup" },
+        "reaction must be one of: +1, -1, laugh, confused, heart, hooray, rocket, eyes (got 'thumbsup')",
+      );
+    });
+
+    test("requires exactly one target", async () => {
+      await expectValidationError(
+        "add-reaction",
+        { issue_number: 1, comment_id: 2, reaction: "+1" },
+        "Cannot specify both issue_number and comment_id",
+      );
+    });
+
+    test("requires a target", async () => {
+      await expectValidationError(
+        "add-reaction",
+        { reaction: "rocket" },
+        "Either issue_number or comment_id must be specified",
+      );
+    });
+  });
+
+  describe("create-branch - Output Format Contract", () => {
+    test("validates branch name format", async () => {
+      await expectValidationError(
+        "create-branch",
+        { branch: "-bad name" },
+        "Invalid branch name '-bad name'",
+      );
+    });
+  });
+
+  describe("copy-project - Output Format Contract", () => {
+    test("validates required new_title field", async () => {
+      await expectValidationError(
+        "copy-project",
+        { source_project_number: 3 },
+        "new_title is required",
+      );
+    });
+  });
+
+  describe("mark-template - Output Format Contract", () => {
+    test("validates action enum values", async () => {
+      await expectValidationError(
+        "mark-template",
+        { project_number: 3, action: "toggle" },
+        "action must be 'mark' or 'unmark'",
+      );
+    });
+  });
+
+  describe("manage-labels - Output Format Contract", () => {
+    test("validates operations is an array", async () => {
+      await expectValidationError(
+        "manage-labels",
+        { operations: "create triage" },
+        "operations must be an array",
+      );
+    });
+
+    test("requires a hex color for create", async () => {
+      await expectValidationError(
+        "manage-labels",
+        { operations: [{ action: "create", name: "triage", color: "red" }] },
+        "color must be a valid 6-character hex code",
+      );
+    });
+
+    test("enforces allow_delete from output config", async () => {
+      await expectValidationError(
+        "manage-labels",
+        { operations: [{ action: "delete", name: "stale" }] },
+        "delete action is not allowed",
+      );
+    });
+  });
+
+  describe("add-to-project - Output Format Contract", () => {
+    test("validates project_number is resolvable", async () => {
+      await expectValidationError(
+        "add-to-project",
+        { items: [{ type: "issue", number: 1 }] },
+        "project_number is required",
+      );
+    });
+
+    test("validates item types", async () => {
+      await expectValidationError(
+        "add-to-project",
+        { project_number: 1, items: [{ type: "epic", number: 1 }] },
+        "items[0].type must be one of: issue, pull_request, draft (got 'epic')",
+      );
+    });
+
+    test("requires a title for draft items", async () => {
+      await expectValidationError(
+        "add-to-project",
+        { project_number: 1, items: [{ type: "draft" }] },
+        "title is required for draft type",
+      );
+    });
+  });
+
+  describe("remove-from-project - Output Format Contract", () => {
+    test("requires item_id for each item", async () => {
+      await expectValidationError(
+        "remove-from-project",
+        { project_number: 1, items: [{ reason: "done" }] },
+        "items[0].item_id is required",
+      );
+    });
+  });
+
+  describe("update-project-field - Output Format Contract", () => {
+    test("uses project_number from output config", async () => {
+      await expectValidationError(
+        "update-project-field",
+        { updates: [{ item_id: "PVTI_1", fields: "Done" }] },
+        "fields must be an object",
+      );
+    });
+
+    test("enforces allowed_fields from output config", async () => {
+      await expectValidationError(
+        "update-project-field",
+        { updates: [{ item_id: "PVTI_1", fields: { Priority: "High" } }] },
+        "field 'Priority' is not in the allowed list",
+      );
+    });
+  });
+
+  describe("archive-project-item - Output Format Contract", () => {
+    test("validates action enum values", async () => {
+      await expectValidationError(
+        "archive-project-item",
+        { project_number: 1, items: [{ item_id: "PVTI_1", action: "hide" }] },
+        "items[0].action must be 'archive' or 'unarchive' (got 'hide')",
+      );
+    });
+  });
+
+  describe("manage-project - Output Format Contract", () => {
+    test("requires a title for create", async () => {
+      await expectValidationError(
+        "manage-project",
+        { operations: [{ action: "create" }] },
+        "title is required for create action",
+      );
+    });
+
+    test("enforces allow_delete from output config", async () => {
+      await expectValidationError(
+        "manage-project",
+        { operations: [{ action: "delete", project_number: 2 }] },
+        "delete action is not allowed",
+      );
+    });
+  });
+
+  describe("manage-project-field - Output Format Contract", () => {
+    test("validates data_type enum values", async () => {
+      await expectValidationError(
+        "manage-project-field",
+        { project_number: 1, operations: [{ action: "create", name: "Size", data_type: "BLOB" }] },
+        "operations[0].data_type must be one of: TEXT, SINGLE_SELECT, DATE, NUMBER (got 'BLOB')",
+      );
+    });
+
+    test("requires options for SINGLE_SELECT fields", async () => {
+      await expectValidationError(
+        "manage-project-field",
+        {
+          project_number: 1,
+          operations: [{ action: "create", name: "Size", data_type: "SINGLE_SELECT" }],
+        },
+        "single_select_options is required for SINGLE_SELECT type",
+      );
+    });
+  });
+
+  describe("link-project - Output Format Contract", () => {
+    test("validates target_type enum values", async () => {
+      await expectValidationError(
+        "link-project",
+        { project_number: 1, operations: [{ action: "link", target_type: "org", target: "x" }] },
+        "operations[0].target_type must be 'repository' or 'team' (got 'org')",
+      );
+    });
+  });
+
   describe("JSON parsing - Contract Tests", () => {
     test("detects invalid JSON format", async () => {
       // Write invalid JSON
@@ -6,7 +6,10 @@ import type { StageContext } from "../types.js";
 
 // Create a minimal valid agent definition for testing
 const createAgentMd = (
-  options: { outputs?: Record<string, boolean | { max?: number }>; allowedPaths?: string[] } = {},
+  options: {
+    outputs?: Record<string, boolean | Record<string, unknown>>;
+    allowedPaths?: string[];
+  } = {},
 ) => {
   const outputs = options.outputs
     ? `outputs:\n${Object.entries(options.outputs)
@@ -14,7 +17,9 @@ const createAgentMd = (
           if (typeof val === "boolean") {
             return `  ${key}: ${val}`;
           }
-          return `  ${key}:\n    max: ${val.max}`;
+          return `  ${key}:\n${Object.entries(val)
+            .map(([setting, value]) => `    ${setting}: ${JSON.stringify(value)}`)
+            .join("\n")}`;
         })
         .join("\n")}`
     : "";
@@ -122,6 +127,296 @@ describe("runOutputs", () => {
     });
   });
 
+  describe("dry-run mode", () => {
+    const planFile = "/tmp/outputs-plan.json";
+
+    afterEach(async () => {
+      await rm(planFile, { force: true });
+    });
+
+    it("should record valid outputs to the plan instead of executing them", async () => {
+      const { readOutputPlan, runOutputs } = await import("./outputs");
+
+      await writeFile(agentPath, createAgentMd({ outputs: { "add-comment": true } }));
+      await writeFile(
+        path.join(outputsDir, "add-comment.json"),
+        JSON.stringify({ body: "Planned comment" }),
+      );
+
+      const result = await runOutputs(createContext({ dryRun: true }));
+
+      expect(result.success).toBe(true);
+      expect(result.outputs.executed).toBe("1");
+      expect(await readOutputPlan()).toEqual([
+        { type: "add-comment", file: "add-comment.json", data: { body: "Planned comment" } },
+      ]);
+    });
+
+    it("should still reject invalid outputs", async () => {
+      const { readOutputPlan, runOutputs } = await import("./outputs");
+
+      await writeFile(agentPath, createAgentMd({ outputs: { "add-comment": true } }));
+      await writeFile(path.join(outputsDir, "add-comment.json"), JSON.stringify({}));
+
+      const result = await runOutputs(createContext({ dryRun: true }));
+
+      expect(result.success).toBe(false);
+      expect(existsSync(path.join(validationErrorsDir, "add-comment.txt"))).toBe(true);
+      expect(await readOutputPlan()).toEqual([]);
+    });
+  });
+
+  describe("approval", () => {
+    const stateDir = "/tmp/artifacts/agent-test-agent-approval-123-state";
+
+    beforeEach(async () => {
+      await writeFile(
+        agentPath,
+        createAgentMd().replace(
+          "---\n\nYou",
+          "outputs:\n  add-comment:\n    approval:\n      users: [maintainer]\n---\n\nYou",
+        ),
+      );
+      await writeFile(
+        path.join(outputsDir, "add-comment.json"),
+        JSON.stringify({ body: "Held comment" }),
+      );
+    });
+
+    afterEach(async () => {
+      await rm(stateDir, { recursive: true, force: true });
+    });
+
+    it("should hold outputs that need approval and save the plan", async () => {
+      const { runOutputs } = await import("./outputs");
+
+      const result = await runOutputs(createContext());
+
+      expect(result.outputs.executed).toBe("0");
+      expect(result.outputs["pending-approval"]).toBe("1");
+      const plan = JSON.parse(await readFile(path.join(stateDir, "state.json"), "utf-8"));
+      expect(plan).toMatchObject({
+        agent: "Test Agent",
+        issue_number: 123,
+        status: "pending",
+        approvers: { users: ["maintainer"], teams: [] },
+        outputs: [{ type: "add-comment", data: { body: "Held comment" } }],
+      });
+    });
+
+    it("should mark held outputs in the dry-run plan", async () => {
+      const { readOutputPlan, runOutputs } = await import("./outputs");
+
+      await runOutputs(createContext({ dryRun: true }));
+
+      expect((await readOutputPlan())[0]?.requires_approval).toBe(true);
+      expect(existsSync(stateDir)).toBe(false);
+      await rm("/tmp/outputs-plan.json", { force: true });
+    });
+  });
+
+  describe("custom outputs", () => {
+    beforeEach(async () => {
+      await writeFile(
+        agentPath,
+        createAgentMd().replace(
+          "---\n\nYou",
+          [
+            "custom_outputs:",
+            "  notify-team:",
+            "    description: Post a short message to the team channel",
+            "    schema:",
+            "      type: object",
+            "      required: [text]",
+            "      properties:",
+            "        text: { type: string }",
+            "    dispatch: notify-team",
+            "---\n\nYou",
+          ].join("\n"),
+        ),
+      );
+    });
+
+    it("should write schema violations as validation errors", async () => {
+      const { runOutputs } = await import("./outputs");
+      await writeFile(path.join(outputsDir, "notify-team.json"), JSON.stringify({ text: 42 }));
+
+      const result = await runOutputs(createContext({ outputType: "notify-team" }));
+
+      expect(result.success).toBe(false);
+      const errors = JSON.parse(
+        await readFile(path.join(validationErrorsDir, "notify-team.json"), "utf-8"),
+      );
+      expect(errors[0]).toContain("**notify-team**: text:");
+      expect(errors[0]).toContain("in notify-team.json");
+    });
+
+    it("should plan valid custom outputs in a dry run", async () => {
+      const { readOutputPlan, runOutputs } = await import("./outputs");
+      await writeFile(path.join(outputsDir, "notify-team.json"), JSON.stringify({ text: "hi" }));
+
+      const result = await runOutputs(createContext({ outputType: undefined, dryRun: true }));
+
+      expect(result.outputs.executed).toBe("1");
+      expect(await readOutputPlan()).toEqual([
+        { type: "notify-team", file: "notify-team.json", data: { text: "hi" } },
+      ]);
+      await rm("/tmp/outputs-plan.json", { force: true });
+    });
+  });
+
+  describe("action deduplication", () => {
+    const stateDir = "/tmp/artifacts/agent-test-agent-actions-state";
+    const dedupAgentMd = `---
+name: Test Agent
+on:
+  issues:
+    types: [opened]
+outputs:
+  add-comment: true
+deduplication:
+  actions:
+    add-comment:
+      window: 24h
+      match: similar
+---
+
+You are a test agent.
+`;
+
+    beforeEach(async () => {
+      await writeFile(agentPath, dedupAgentMd);
+      await writeFile(createContext().eventPath, JSON.stringify({ issue: { number: 42 } }));
+    });
+
+    afterEach(async () => {
+      await rm(stateDir, { recursive: true, force: true });
+      await rm("/tmp/audit/deduplicated-actions.json", { force: true });
+      await rm("/tmp/outputs-plan.json", { force: true });
+    });
+
+    it("should skip actions performed by a previous run and record them for the audit", async () => {
+      const { DEDUPLICATED_ACTIONS_FILE, readOutputPlan, runOutputs } = await import("./outputs");
+
+      await mkdir(stateDir, { recursive: true });
+      await writeFile(
+        path.join(stateDir, "state.json"),
+        JSON.stringify({
+          schema_version: "1.0.0",
+          last_cleanup: new Date().toISOString(),
+          records: [
+            {
+              key: "previous",
+              timestamp: new Date().toISOString(),
+              agent_name: "Test Agent",
+              action_type: "add-comment",
+              details: { body: "Thanks for the report, we will look into it", issue_number: 42 },
+            },
+          ],
+        }),
+      );
+      await writeFile(
+        path.join(outputsDir, "add-comment.json"),
+        JSON.stringify({ body: "Thanks for the report, we will look into it!" }),
+      );
+
+      const result = await runOutputs(createContext({ dryRun: true }));
+
+      expect(result.success).toBe(true);
+      expect(result.outputs.executed).toBe("0");
+      expect(result.outputs.deduplicated).toBe("1");
+      expect(await readOutputPlan()).toEqual([]);
+
+      const skipped = JSON.parse(await readFile(DEDUPLICATED_ACTIONS_FILE, "utf-8"));
+      expect(skipped).toHaveLength(1);
+      expect(skipped[0].type).toBe("add-comment");
+      expect(skipped[0].file).toBe("add-comment.json");
+      expect(skipped[0].reason).toContain("#42");
+    });
+
+    it("should skip duplicates within the same run", async () => {
+      const { readOutputPlan, runOutputs } = await import("./outputs");
+
+      await writeFile(
+        path.join(outputsDir, "add-comment-1.json"),
+        JSON.stringify({ body: "Same comment" }),
+      );
+      await writeFile(
+        path.join(outputsDir, "add-comment-2.json"),
+        JSON.stringify({ body: "Same comment" }),
+      );
+
+      const result = await runOutputs(createContext({ dryRun: true }));
+
+      expect(result.outputs.executed).toBe("1");
+      expect(result.outputs.deduplicated).toBe("1");
+      expect(await readOutputPlan()).toHaveLength(1);
+    });
+
+    it("should not persist state in dry-run mode", async () => {
+      const { runOutputs } = await import("./outputs");
+
+      await writeFile(
+        path.join(outputsDir, "add-comment.json"),
+        JSON.stringify({ body: "New comment" }),
+      );
+
+      await runOutputs(createContext({ dryRun: true }));
+
+      expect(existsSync(path.join(stateDir, "state.json"))).toBe(false);
+    });
+  });
+
+  describe("tracing", () => {
+    const traceFile = "/tmp/audit/traces/trace.json";
+
+    afterEach(async () => {
+      await rm(traceFile, { force: true });
+      await rm("/tmp/outputs-plan.json", { force: true });
+    });
+
+    it("should add output steps to the trace written by the agent stage", async () => {
+      const { runOutputs } = await import("./outputs");
+      const { createTracer, readTrace, writeTrace } = await import("../utils/tracing");
+
+      await writeFile(
+        agentPath,
+        `---
+name: Test Agent
+on:
+  issues:
+    types: [opened]
+outputs:
+  add-comment: true
+tracing:
+  level: detailed
+---
+
+You are a test agent.
+`,
+      );
+      const agentTracer = createTracer(
+        { name: "Test Agent", on: {}, markdown: "", tracing: { level: "detailed" } },
+        "12345",
+      );
+      agentTracer.recordStep("run-claude", undefined, "success");
+      await writeTrace(agentTracer.complete("success"));
+
+      await writeFile(
+        path.join(outputsDir, "add-comment.json"),
+        JSON.stringify({ body: "Comment with ghp_secrettoken123" }),
+      );
+
+      await runOutputs(createContext({ dryRun: true }));
+
+      const trace = await readTrace();
+      expect(trace?.trace_id).toBe(agentTracer.getTraceId());
+      expect(trace?.status).toBe("success");
+      expect(trace?.steps?.map((step) => step.action)).toEqual(["run-claude", "add-comment"]);
+      expect(JSON.stringify(trace)).not.toContain("ghp_secrettoken123");
+    });
+  });
+
   describe("add-comment validation", () => {
     it("should validate valid add-comment output", async () => {
       const { runOutputs } = await import("./outputs");
@@ -221,6 +516,47 @@ describe("runOutputs", () => {
 
       expect(result.success).toBe(false);
     });
+
+    it("should reject blocked labels and add none of the labels", async () => {
+      const { runOutputs } = await import("./outputs");
+
+      await writeFile(
+        agentPath,
+        createAgentMd({
+          outputs: { "add-label": { "blocked-labels": ["approved", "agent-assigned"] } },
+        }),
+      );
+      await writeFile(
+        path.join(outputsDir, "add-label.json"),
+        JSON.stringify({ labels: ["bug", "approved", "agent-assigned"] }),
+      );
+
+      const result = await runOutputs(createContext({ outputType: "add-label" }));
+      const errors = await readFile(path.join(validationErrorsDir, "add-label.txt"), "utf-8");
+
+      expect(result.success).toBe(false);
+      expect(result.outputs.executed).toBe("0");
+      expect(errors).toContain(
+        "The following labels are blocked and cannot be added: approved, agent-assigned",
+      );
+    });
+
+    it("should not report labels that are not blocked", async () => {
+      const { runOutputs } = await import("./outputs");
+
+      await writeFile(
+        agentPath,
+        createAgentMd({ outputs: { "add-label": { "blocked-labels": ["approved"] } } }),
+      );
+      await writeFile(path.join(outputsDir, "add-label.json"), JSON.stringify({ labels: ["bug"] }));
+
+      await runOutputs(createContext({ outputType: "add-label" }));
+      const errors = await readFile(path.join(validationErrorsDir, "add-label.txt"), "utf-8").catch(
+        () => "",
+      );
+
+      expect(errors).not.toContain("blocked");
+    });
   });
 
   describe("create-issue validation", () => {
@@ -325,6 +661,92 @@ describe("runOutputs", () => {
     });
   });
 
+  describe("create-pr allowed paths", () => {
+    it("should check every path a patch, rename or delete touches", async () => {
+      const { runOutputs } = await import("./outputs");
+
+      await writeFile(
+        agentPath,
+        createAgentMd({ outputs: { "create-pr": true }, allowedPaths: ["docs/**"] }),
+      );
+      await writeFile(
+        path.join(outputsDir, "create-pr.json"),
+        JSON.stringify({
+          branch: "docs/cleanup",
+          title: "Clean up docs",
+          body: "Moves and trims the docs",
+          commits: [
+            { message: "Move guide", rename: [{ from: "docs/guide.md", to: "guide.md" }] },
+            { message: "Drop notes", delete: ["docs/notes.md"] },
+            {
+              message: "Fix typo",
+              patch: "--- a/src/index.ts\n+++ b/src/index.ts\n@@ -1 +1 @@\n-a\n+b\n",
+            },
+          ],
+        }),
+      );
+
+      const result = await runOutputs(createContext({ outputType: "create-pr" }));
+      const errors = await readFile(path.join(validationErrorsDir, "create-pr.txt"), "utf-8");
+
+      expect(result.success).toBe(false);
+      expect(errors).toContain("File path 'guide.md' does not match allowed patterns");
+      expect(errors).toContain("File path 'src/index.ts' does not match allowed patterns");
+      expect(errors).not.toContain("docs/notes.md");
+    });
+
+    it("should match normalised paths so traversal cannot escape the allowed patterns", async () => {
+      const { runOutputs } = await import("./outputs");
+
+      await writeFile(
+        agentPath,
+        createAgentMd({ outputs: { "create-pr": true }, allowedPaths: ["src/**"] }),
+      );
+      await writeFile(
+        path.join(outputsDir, "create-pr.json"),
+        JSON.stringify({
+          branch: "src/cleanup",
+          title: "Clean up",
+          body: "Cleans up",
+          commits: [
+            { message: "Drop CI", delete: ["src/../.github/workflows/ci.yml"] },
+            { message: "Move", rename: [{ from: "src/../package.json", to: "src/package.json" }] },
+          ],
+        }),
+      );
+
+      const result = await runOutputs(createContext({ outputType: "create-pr" }));
+      const errors = await readFile(path.join(validationErrorsDir, "create-pr.txt"), "utf-8");
+
+      expect(result.success).toBe(false);
+      expect(errors).toContain(
+        "File path '.github/workflows/ci.yml' does not match allowed patterns",
+      );
+      expect(errors).toContain("File path 'package.json' does not match allowed patterns");
+    });
+
+    it("should reject paths outside the repository without allowed patterns", async () => {
+      const { runOutputs } = await import("./outputs");
+
+      await writeFile(agentPath, createAgentMd({ outputs: { "create-pr": true } }));
+      await writeFile(
+        path.join(outputsDir, "create-pr.json"),
+        JSON.stringify({
+          branch: "escape",
+          title: "Escape",
+          body: "Writes outside the checkout",
+          files: [{ path: "src/../../x", content: "x" }],
+        }),
+      );
+
+      const result = await runOutputs(createContext({ outputType: "create-pr" }));
+      const errors = await readFile(path.join(validationErrorsDir, "create-pr.txt"), "utf-8");
+
+      expect(result.success).toBe(false);
+      expect(errors).toContain("File path '../x' is outside the repository");
+    });
+  });
+
   describe("update-file validation", () => {
     it("should reject update-file with missing message", async () => {
       const { runOutputs } = await import("./outputs");
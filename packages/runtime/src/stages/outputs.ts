@@ -1,16 +1,85 @@
 import { existsSync } from "node:fs";
 import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
 import { join } from "node:path";
-import { AgentParser } from "@repo-agents/parser";
-import type { AgentDefinition, Output, OutputConfig } from "@repo-agents/types";
+import { validateOutputData } from "@repo-agents/generator/output-schemas";
+import { AgentParser, validateCustomOutputData } from "@repo-agents/parser";
+import type {
+  AgentDefinition,
+  ApprovalConfig,
+  AuditDeduplicatedAction,
+  Output,
+  OutputConfig,
+} from "@repo-agents/types";
 import { $ } from "bun";
-import type { StageContext, StageResult } from "../types";
+import type { PlannedOutput, StageContext, StageResult } from "../types";
+import {
+  createPendingApproval,
+  getApprovalConfig,
+  publishApprovalComment,
+  savePendingApproval,
+} from "../utils/approvals";
+import {
+  applyChanges,
+  getTouchedPaths,
+  isOutsideRepository,
+  type PrChanges,
+  type PrCommit,
+  resolvePrBranch,
+} from "../utils/changes";
+import { executeCustomOutput } from "../utils/custom-outputs";
+import { agentStateScope, openStateStore, STATE_KEYS, type StateStore } from "../utils/state";
+import { type ExecutionTracer, isTracingEnabled, loadTracer, writeTrace } from "../utils/tracing";
+import {
+  checkActionDeduplication,
+  cleanupDeduplicationState,
+  createDeduplicationRecord,
+  type DeduplicationState,
+  getActionDeduplicationConfig,
+  loadDeduplicationState,
+  parseTimeWindow,
+  saveDeduplicationState,
+} from "../utils/validation";
 
 /** Directory where Claude writes output files */
-const OUTPUTS_DIR = "/tmp/outputs";
+export const OUTPUTS_DIR = "/tmp/outputs";
 
 /** Directory where validation errors are written */
-const VALIDATION_ERRORS_DIR = "/tmp/validation-errors";
+export const VALIDATION_ERRORS_DIR = "/tmp/validation-errors";
+
+/** File where planned outputs are recorded in dry-run mode */
+export const OUTPUT_PLAN_FILE = "/tmp/outputs-plan.json";
+
+/** Audit file listing actions skipped by action deduplication */
+export const DEDUPLICATED_ACTIONS_FILE = "/tmp/audit/deduplicated-actions.json";
+
+/** Minimum age before deduplication records are dropped from the persisted state */
+const DEDUPLICATION_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Branches that delete-branch refuses to remove */
+const PROTECTED_BRANCHES = ["main", "master", "develop", "staging", "production"];
+
+interface ManageLabelsConfig extends OutputConfig {
+  allow_create?: boolean;
+  allow_delete?: boolean;
+  allow_edit?: boolean;
+  protected_labels?: string[];
+}
+
+interface ManageProjectConfig extends OutputConfig {
+  allow_create?: boolean;
+  allow_delete?: boolean;
+  allow_edit?: boolean;
+  allow_close?: boolean;
+  owner?: string;
+}
+
+interface ManageProjectFieldConfig extends OutputConfig {
+  project_number?: number;
+  owner?: string;
+  allow_create?: boolean;
+  allow_delete?: boolean;
+  protected_fields?: string[];
+}
 
 interface OutputFile {
   path: string;
@@ -26,9 +95,32 @@ interface ValidationResult {
 interface ExecutionResult {
   success: boolean;
   executed: number;
+  deduplicated: number;
   errors: string[];
 }
 
+/** Issue/PR the triggering event refers to */
+interface EventTarget {
+  issueNumber?: string;
+  prNumber?: string;
+}
+
+/** Action deduplication state for one outputs run */
+interface ActionDeduplication {
+  store: StateStore;
+  scope: string;
+  state: DeduplicationState;
+  skipped: AuditDeduplicatedAction[];
+}
+
+/** State shared by all output types in one outputs run */
+interface OutputRun {
+  dedup?: ActionDeduplication;
+  tracer?: ExecutionTracer;
+  /** Outputs held back until a maintainer approves them */
+  held: Array<PlannedOutput & { approval: ApprovalConfig }>;
+}
+
 /**
  * Outputs stage - validates and executes Claude's output files.
  *
@@ -36,8 +128,12 @@ interface ExecutionResult {
  * 1. Loads the agent definition to get output constraints
  * 2. Finds output files matching the specified output type (or all if not specified)
  * 3. Validates each file against the output type's schema and constraints
- * 4. Executes valid outputs using the gh CLI
- * 5. Writes validation errors for reporting
+ * 4. Skips actions already performed within their deduplication window (if configured)
+ * 5. Holds outputs that require approval and posts them as a plan on the issue/PR
+ * 6. Executes valid outputs using the gh CLI or, for custom outputs, their declared executor
+ *    (or records them to OUTPUT_PLAN_FILE in dry-run mode)
+ * 7. Writes validation errors and deduplicated actions for reporting
+ * 8. Adds its steps to the agent's execution trace (if tracing is configured)
  */
 export async function runOutputs(ctx: StageContext): Promise<StageResult> {
   // Load agent definition
@@ -56,13 +152,116 @@ export async function runOutputs(ctx: StageContext): Promise<StageResult> {
   // Ensure validation errors directory exists
   await mkdir(VALIDATION_ERRORS_DIR, { recursive: true });
 
-  // If no output type specified, process all configured outputs
-  if (!ctx.outputType) {
-    return await processAllOutputs(ctx, agent);
+  const run: OutputRun = {
+    dedup: await loadActionDeduplication(ctx, agent),
+    // Continue the trace started by the agent stage
+    tracer: isTracingEnabled(agent) ? await loadTracer(agent, ctx.runId) : undefined,
+    held: [],
+  };
+
+  // If no output type specified, process all configured outputs,
+  // otherwise process the single output type
+  const result = ctx.outputType
+    ? await processSingleOutput(ctx, agent, ctx.outputType, run)
+    : await processAllOutputs(ctx, agent, run);
+
+  if (run.held.length > 0) {
+    result.outputs["pending-approval"] = String(run.held.length);
+    if (!(await requestApproval(ctx, agent, run.held))) {
+      result.success = false;
+    }
+  }
+  if (run.dedup) {
+    await finishActionDeduplication(ctx, run.dedup);
+  }
+  if (run.tracer) {
+    await writeTrace(run.tracer.complete(result.success ? "success" : "failure"));
+  }
+
+  return result;
+}
+
+/**
+ * Load the persisted deduplication state if the agent deduplicates actions.
+ */
+async function loadActionDeduplication(
+  ctx: StageContext,
+  agent: AgentDefinition,
+): Promise<ActionDeduplication | undefined> {
+  if (!agent.deduplication?.actions) {
+    return undefined;
+  }
+
+  const store = await openStateStore(ctx.repository);
+  const scope = agentStateScope(agent.name);
+  const state = await loadDeduplicationState(store, scope, STATE_KEYS.actions);
+  console.log(`Loaded ${state.records.length} deduplication record(s)`);
+
+  // Keep records for as long as the longest configured window needs them
+  const configs = Object.keys(agent.outputs ?? {}).map((type) =>
+    getActionDeduplicationConfig(agent, type),
+  );
+  const retention = Math.max(
+    DEDUPLICATION_RETENTION_MS,
+    ...configs.map((config) => (config?.window ? parseTimeWindow(config.window) : 0)),
+  );
+
+  return { store, scope, state: cleanupDeduplicationState(state, retention), skipped: [] };
+}
+
+/**
+ * Persist the deduplication state and record skipped actions for the audit report.
+ * A dry run never persists state, so planned actions are not remembered as performed.
+ */
+async function finishActionDeduplication(
+  ctx: StageContext,
+  dedup: ActionDeduplication,
+): Promise<void> {
+  if (!ctx.dryRun) {
+    await saveDeduplicationState(dedup.store, dedup.scope, STATE_KEYS.actions, dedup.state);
+  }
+
+  if (dedup.skipped.length > 0) {
+    await mkdir("/tmp/audit", { recursive: true });
+    await writeFile(DEDUPLICATED_ACTIONS_FILE, JSON.stringify(dedup.skipped, null, 2));
+  }
+}
+
+/**
+ * Save the held outputs as a plan and post it on the issue/PR for approval.
+ * Returns false when there is nowhere to post the plan.
+ */
+async function requestApproval(
+  ctx: StageContext,
+  agent: AgentDefinition,
+  held: OutputRun["held"],
+): Promise<boolean> {
+  const target = await resolveEventTarget(ctx);
+  const issueNumber = Number(target.issueNumber ?? target.prNumber);
+  if (!issueNumber) {
+    await writeValidationErrors("approval", [
+      `**approval**: ${held.length} output(s) need approval, but the event has no issue or pull request to post the plan on`,
+    ]);
+    return false;
+  }
+
+  const pending = createPendingApproval(agent, ctx.runId, issueNumber, held);
+  pending.event_payload =
+    process.env.EVENT_PAYLOAD ??
+    (ctx.eventPath && existsSync(ctx.eventPath)
+      ? Buffer.from(await readFile(ctx.eventPath, "utf-8")).toString("base64")
+      : undefined);
+
+  try {
+    await publishApprovalComment(ctx.repository, pending, ctx.progressCommentId);
+  } catch (error) {
+    console.warn("Failed to post the approval plan:", error);
   }
 
-  // Process single output type
-  return await processSingleOutput(ctx, agent, ctx.outputType);
+  const store = await openStateStore(ctx.repository);
+  await savePendingApproval(store, agentStateScope(agent.name), pending);
+  console.log(`Waiting for approval of ${held.length} output(s) on #${issueNumber}`);
+  return true;
 }
 
 /**
@@ -72,6 +271,7 @@ async function processSingleOutput(
   ctx: StageContext,
   agent: AgentDefinition,
   outputType: string,
+  run: OutputRun,
 ): Promise<StageResult> {
   // Get output config for this type
   const outputConfig = getOutputConfig(agent, outputType as Output);
@@ -105,6 +305,16 @@ async function processSingleOutput(
     // Write validation errors
     await writeValidationErrors(outputType, validationResult.errors);
 
+    run.tracer?.recordStep(outputType, `${outputFiles.length} file(s)`, "failure", undefined, {
+      validation_errors: validationResult.errors,
+    });
+    run.tracer?.recordDecision(
+      `Execute ${outputType} outputs?`,
+      outputFiles.map((file) => file.filename).join(", "),
+      "rejected",
+      validationResult.errors.join("\n"),
+    );
+
     return {
       success: false,
       outputs: {
@@ -121,6 +331,7 @@ async function processSingleOutput(
     outputConfig,
     ctx,
     agent,
+    run,
   );
 
   if (executionResult.errors.length > 0) {
@@ -131,6 +342,7 @@ async function processSingleOutput(
     success: executionResult.success,
     outputs: {
       executed: String(executionResult.executed),
+      deduplicated: String(executionResult.deduplicated),
       errors: String(executionResult.errors.length),
     },
   };
@@ -139,7 +351,11 @@ async function processSingleOutput(
 /**
  * Process all configured output types
  */
-async function processAllOutputs(ctx: StageContext, agent: AgentDefinition): Promise<StageResult> {
+async function processAllOutputs(
+  ctx: StageContext,
+  agent: AgentDefinition,
+  run: OutputRun,
+): Promise<StageResult> {
   if (!agent.outputs || Object.keys(agent.outputs).length === 0) {
     return {
       success: true,
@@ -149,17 +365,21 @@ async function processAllOutputs(ctx: StageContext, agent: AgentDefinition): Pro
   }
 
   let totalExecuted = 0;
+  let totalDeduplicated = 0;
   let totalErrors = 0;
   const allErrors: string[] = [];
 
   // Process each configured output type
   for (const outputType of Object.keys(agent.outputs)) {
     console.log(`\nProcessing ${outputType} outputs...`);
-    const result = await processSingleOutput(ctx, agent, outputType);
+    const result = await processSingleOutput(ctx, agent, outputType, run);
 
     if (result.outputs.executed) {
       totalExecuted += Number(result.outputs.executed);
     }
+    if (result.outputs.deduplicated) {
+      totalDeduplicated += Number(result.outputs.deduplicated);
+    }
     if (result.outputs.errors) {
       totalErrors += Number(result.outputs.errors);
     }
@@ -172,6 +392,7 @@ async function processAllOutputs(ctx: StageContext, agent: AgentDefinition): Pro
     success: totalErrors === 0 && allErrors.length === 0,
     outputs: {
       executed: String(totalExecuted),
+      deduplicated: String(totalDeduplicated),
       errors: String(totalErrors),
     },
   };
@@ -266,7 +487,7 @@ async function validateOutputFiles(
 async function validateOutputFile(
   outputType: Output,
   file: OutputFile,
-  _config: OutputConfig,
+  config: OutputConfig,
   ctx: StageContext,
   agent: AgentDefinition,
 ): Promise<string[]> {
@@ -280,187 +501,309 @@ async function validateOutputFile(
     return errors;
   }
 
-  // Type-specific validation
+  // Custom outputs are validated against the JSON schema they declare
+  const custom = agent.custom_outputs?.[outputType];
+  if (custom) {
+    for (const message of validateCustomOutputData(custom.schema, file.data)) {
+      errors.push(`**${outputType}**: ${message} in ${file.filename}`);
+    }
+    return errors;
+  }
+
+  // Shape of the output file, from the schema shared with the generated skills
+  for (const message of validateOutputData(outputType, file.data)) {
+    errors.push(`**${outputType}**: ${message} in ${file.filename}`);
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  // Checks that need the repository or the output config
   switch (outputType) {
-    case "add-comment":
-      if (!file.data.body || typeof file.data.body !== "string") {
-        errors.push(`**${outputType}**: body is required and must be a string in ${file.filename}`);
-      } else if ((file.data.body as string).length > 65536) {
-        errors.push(`**${outputType}**: body exceeds 65536 characters in ${file.filename}`);
+    case "add-label": {
+      const blocked = getBlockedLabels(file.data.labels as string[], config);
+      if (blocked.length > 0) {
+        errors.push(
+          `**${outputType}**: The following labels are blocked and cannot be added: ${blocked.join(", ")} (in ${file.filename})`,
+        );
       }
-      break;
-
-    case "add-label":
-      if (!Array.isArray(file.data.labels) || file.data.labels.length === 0) {
-        errors.push(`**${outputType}**: labels must be a non-empty array in ${file.filename}`);
-      } else {
-        // Validate labels exist in repository
-        const labelErrors = await validateLabelsExist(
+      errors.push(
+        ...(await validateLabelsExist(
           file.data.labels as string[],
           ctx.repository,
           outputType,
           file.filename,
+        )),
+      );
+      break;
+    }
+
+    case "create-issue":
+      if (Array.isArray(file.data.labels)) {
+        errors.push(
+          ...(await validateLabelsExist(
+            file.data.labels as string[],
+            ctx.repository,
+            outputType,
+            file.filename,
+          )),
         );
-        errors.push(...labelErrors);
       }
       break;
 
-    case "remove-label":
-      if (!Array.isArray(file.data.labels) || file.data.labels.length === 0) {
-        errors.push(`**${outputType}**: labels must be a non-empty array in ${file.filename}`);
+    case "create-discussion":
+    case "convert-to-discussion": {
+      const categoryError = await validateCategoryExists(
+        file.data.category as string,
+        ctx.repository,
+        outputType,
+        file.filename,
+      );
+      if (categoryError) {
+        errors.push(categoryError);
       }
-      // Note: remove-label doesn't validate that labels exist - silently ignores missing
       break;
+    }
 
-    case "create-issue":
-      if (!file.data.title || typeof file.data.title !== "string") {
-        errors.push(`**${outputType}**: title is required in ${file.filename}`);
-      } else if ((file.data.title as string).length > 256) {
-        errors.push(`**${outputType}**: title exceeds 256 characters in ${file.filename}`);
-      }
-      if (!file.data.body || typeof file.data.body !== "string") {
-        errors.push(`**${outputType}**: body is required in ${file.filename}`);
-      }
-      if (file.data.labels && Array.isArray(file.data.labels)) {
-        const labelErrors = await validateLabelsExist(
-          file.data.labels as string[],
-          ctx.repository,
-          outputType,
-          file.filename,
-        );
-        errors.push(...labelErrors);
+    case "update-file":
+    case "create-pr": {
+      // Every path the output touches, including deleted, moved and patched files
+      const allowedPaths = agent.allowed_paths || [];
+      for (const path of getTouchedPaths(file.data as PrChanges & { commits?: PrCommit[] })) {
+        if (isOutsideRepository(path)) {
+          errors.push(
+            `**${outputType}**: File path '${path}' is outside the repository in ${file.filename}`,
+          );
+        } else if (allowedPaths.length > 0 && !matchesAnyPattern(path, allowedPaths)) {
+          errors.push(
+            `**${outputType}**: File path '${path}' does not match allowed patterns in ${file.filename}`,
+          );
+        }
       }
       break;
+    }
 
-    case "create-discussion":
-      if (!file.data.title || typeof file.data.title !== "string") {
-        errors.push(`**${outputType}**: title is required in ${file.filename}`);
-      } else if ((file.data.title as string).length > 256) {
-        errors.push(`**${outputType}**: title exceeds 256 characters in ${file.filename}`);
-      }
-      if (!file.data.body || typeof file.data.body !== "string") {
-        errors.push(`**${outputType}**: body is required in ${file.filename}`);
+    case "merge-pr": {
+      const stateError = await validatePrIsOpen(
+        String(file.data.pr_number),
+        ctx.repository,
+        outputType,
+        file.filename,
+      );
+      if (stateError) {
+        errors.push(stateError);
       }
-      if (!file.data.category || typeof file.data.category !== "string") {
-        errors.push(`**${outputType}**: category is required in ${file.filename}`);
-      } else {
-        // Validate category exists
-        const categoryError = await validateCategoryExists(
-          file.data.category as string,
-          ctx.repository,
-          outputType,
-          file.filename,
+      break;
+    }
+
+    case "delete-branch":
+      if (PROTECTED_BRANCHES.includes(file.data.branch as string)) {
+        errors.push(
+          `**${outputType}**: Cannot delete protected branch '${file.data.branch}' in ${file.filename}`,
         );
-        if (categoryError) {
-          errors.push(categoryError);
-        }
       }
       break;
 
-    case "create-pr":
-      if (!file.data.branch || typeof file.data.branch !== "string") {
-        errors.push(`**${outputType}**: branch is required in ${file.filename}`);
-      } else if (!/^[a-zA-Z0-9/_.-]+$/.test(file.data.branch as string)) {
+    case "create-branch":
+      if (await branchExists(file.data.branch as string, ctx.repository)) {
         errors.push(
-          `**${outputType}**: branch name contains invalid characters in ${file.filename}`,
+          `**${outputType}**: Branch '${file.data.branch}' already exists in ${file.filename}`,
         );
       }
-      if (!file.data.title || typeof file.data.title !== "string") {
-        errors.push(`**${outputType}**: title is required in ${file.filename}`);
-      }
-      if (!file.data.body || typeof file.data.body !== "string") {
-        errors.push(`**${outputType}**: body is required in ${file.filename}`);
-      }
-      if (!Array.isArray(file.data.files) || file.data.files.length === 0) {
-        errors.push(`**${outputType}**: files must be a non-empty array in ${file.filename}`);
-      } else {
-        // Validate file entries
-        for (const fileEntry of file.data.files as Array<{ path?: string; content?: string }>) {
-          if (!fileEntry.path || typeof fileEntry.path !== "string") {
-            errors.push(
-              `**${outputType}**: each file must have a 'path' string in ${file.filename}`,
-            );
-          }
-          if (fileEntry.content === undefined || typeof fileEntry.content !== "string") {
-            errors.push(
-              `**${outputType}**: each file must have a 'content' string in ${file.filename}`,
-            );
-          }
-        }
+      break;
+
+    case "manage-labels":
+      errors.push(...validateManageLabels(file, config as ManageLabelsConfig));
+      break;
+
+    case "add-to-project":
+    case "remove-from-project":
+    case "archive-project-item":
+    case "link-project":
+      if (!resolveProjectTarget(file, config).projectNumber) {
+        errors.push(`**${outputType}**: project_number is required in ${file.filename}`);
       }
       break;
 
-    case "update-file":
-      if (!Array.isArray(file.data.files) || file.data.files.length === 0) {
-        errors.push(`**${outputType}**: files must be a non-empty array in ${file.filename}`);
-      } else {
-        // Validate file entries and allowed paths
-        const allowedPaths = agent.allowed_paths || [];
-        for (const fileEntry of file.data.files as Array<{ path?: string; content?: string }>) {
-          if (!fileEntry.path || typeof fileEntry.path !== "string") {
-            errors.push(
-              `**${outputType}**: each file must have a 'path' string in ${file.filename}`,
-            );
-            continue;
-          }
-          if (fileEntry.content === undefined || typeof fileEntry.content !== "string") {
-            errors.push(
-              `**${outputType}**: each file must have a 'content' string in ${file.filename}`,
-            );
-          }
-          // Validate path against allowed patterns
-          if (allowedPaths.length > 0 && !matchesAnyPattern(fileEntry.path, allowedPaths)) {
+    case "update-project-field": {
+      if (!resolveProjectTarget(file, config).projectNumber) {
+        errors.push(`**${outputType}**: project_number is required in ${file.filename}`);
+        break;
+      }
+      const allowedFields = (config.allowed_fields as string[] | undefined) ?? [];
+      if (allowedFields.length === 0) {
+        break;
+      }
+      for (const update of file.data.updates as Array<{ fields: Record<string, unknown> }>) {
+        for (const fieldName of Object.keys(update.fields)) {
+          if (!allowedFields.includes(fieldName)) {
             errors.push(
-              `**${outputType}**: File path '${fileEntry.path}' does not match allowed patterns in ${file.filename}`,
+              `**${outputType}**: field '${fieldName}' is not in the allowed list in ${file.filename}`,
             );
           }
         }
       }
-      if (!file.data.message || typeof file.data.message !== "string") {
-        errors.push(`**${outputType}**: message is required in ${file.filename}`);
-      }
       break;
+    }
 
-    case "close-issue":
-      if (file.data.state_reason !== undefined) {
-        const validReasons = ["completed", "not_planned"];
-        if (!validReasons.includes(file.data.state_reason as string)) {
-          errors.push(
-            `**${outputType}**: state_reason must be 'completed' or 'not_planned' in ${file.filename}`,
-          );
-        }
-      }
+    case "manage-project":
+      errors.push(...validateManageProject(file, config as ManageProjectConfig));
       break;
 
-    case "close-pr":
-      // merge is optional boolean, no required validation
-      if (file.data.merge !== undefined && typeof file.data.merge !== "boolean") {
-        errors.push(`**${outputType}**: merge must be a boolean in ${file.filename}`);
-      }
+    case "manage-project-field":
+      errors.push(...validateManageProjectField(file, config as ManageProjectFieldConfig));
       break;
+  }
 
-    case "edit-issue":
-      // At least one of title or body must be provided
-      if (file.data.title === undefined && file.data.body === undefined) {
-        errors.push(
-          `**${outputType}**: at least one of title or body is required in ${file.filename}`,
-        );
-      }
-      if (file.data.title !== undefined && typeof file.data.title !== "string") {
-        errors.push(`**${outputType}**: title must be a string in ${file.filename}`);
-      }
-      if (file.data.body !== undefined && typeof file.data.body !== "string") {
-        errors.push(`**${outputType}**: body must be a string in ${file.filename}`);
-      }
-      if (file.data.title && (file.data.title as string).length > 256) {
-        errors.push(`**${outputType}**: title exceeds 256 characters in ${file.filename}`);
-      }
-      break;
+  return errors;
+}
+
+/**
+ * Check whether a value is a positive integer or a string of digits.
+ * Agents commonly write issue numbers either way, so both are accepted.
+ */
+function isNumericId(value: unknown): boolean {
+  if (typeof value === "number") {
+    return Number.isInteger(value) && value > 0;
+  }
+  return typeof value === "string" && /^[0-9]+$/.test(value);
+}
+
+/**
+ * Resolve the project number and owner for a Projects v2 output.
+ * Values in the output file take precedence over the agent's output config.
+ */
+function resolveProjectTarget(
+  file: OutputFile,
+  config: OutputConfig,
+): { projectNumber?: string; owner: string } {
+  const projectNumber = file.data.project_number ?? config.project_number;
+  const owner = (file.data.owner as string) || (config.owner as string) || "@me";
+  return {
+    projectNumber: isNumericId(projectNumber) ? String(projectNumber) : undefined,
+    owner,
+  };
+}
+
+/**
+ * Labels of an add-label output that its `blocked-labels` config forbids.
+ */
+function getBlockedLabels(labels: string[], config: OutputConfig): string[] {
+  const blockedLabels = (config["blocked-labels"] as string[] | undefined) ?? [];
+  return labels.filter((label) => blockedLabels.includes(label));
+}
+
+/**
+ * Check a manage-labels output against the allowed operations in its config.
+ */
+function validateManageLabels(file: OutputFile, config: ManageLabelsConfig): string[] {
+  const outputType = "manage-labels";
+  const errors: string[] = [];
+  const protectedLabels = config.protected_labels ?? [];
+
+  for (const op of file.data.operations as Array<{ action: string; name: string }>) {
+    if (
+      (op.action === "create" && config.allow_create === false) ||
+      (op.action === "edit" && config.allow_edit === false) ||
+      (op.action === "delete" && config.allow_delete === false)
+    ) {
+      errors.push(`**${outputType}**: ${op.action} action is not allowed in ${file.filename}`);
+    } else if (op.action === "delete" && protectedLabels.includes(op.name)) {
+      errors.push(
+        `**${outputType}**: cannot delete protected label '${op.name}' in ${file.filename}`,
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check a manage-project output against the allowed operations in its config.
+ */
+function validateManageProject(file: OutputFile, config: ManageProjectConfig): string[] {
+  const outputType = "manage-project";
+  const allowed: Record<string, boolean> = {
+    create: config.allow_create !== false,
+    edit: config.allow_edit !== false,
+    close: config.allow_close !== false,
+    delete: config.allow_delete !== false,
+  };
+
+  return (file.data.operations as Array<{ action: string }>)
+    .filter((op) => !allowed[op.action])
+    .map((op) => `**${outputType}**: ${op.action} action is not allowed in ${file.filename}`);
+}
+
+/**
+ * Check a manage-project-field output against the allowed operations in its config.
+ */
+function validateManageProjectField(file: OutputFile, config: ManageProjectFieldConfig): string[] {
+  const outputType = "manage-project-field";
+  const errors: string[] = [];
+
+  if (!resolveProjectTarget(file, config).projectNumber) {
+    errors.push(`**${outputType}**: project_number is required in ${file.filename}`);
+    return errors;
+  }
+
+  const protectedFields = config.protected_fields ?? [];
+
+  for (const op of file.data.operations as Array<{ action: string; name?: string }>) {
+    if (
+      (op.action === "create" && config.allow_create === false) ||
+      (op.action === "delete" && config.allow_delete === false)
+    ) {
+      errors.push(`**${outputType}**: ${op.action} action is not allowed in ${file.filename}`);
+    } else if (
+      op.action === "delete" &&
+      typeof op.name === "string" &&
+      protectedFields.includes(op.name)
+    ) {
+      errors.push(
+        `**${outputType}**: cannot delete protected field '${op.name}' in ${file.filename}`,
+      );
+    }
   }
 
   return errors;
 }
 
+/**
+ * Validate that a pull request exists and is open.
+ */
+async function validatePrIsOpen(
+  prNumber: string,
+  repository: string,
+  outputType: string,
+  filename: string,
+): Promise<string | null> {
+  try {
+    const state = (
+      await $`gh api repos/${repository}/pulls/${prNumber} --jq '.state'`.text()
+    ).trim();
+    if (state !== "open") {
+      return `**${outputType}**: PR #${prNumber} is not open (state: ${state}) in ${filename}`;
+    }
+  } catch {
+    // If we can't fetch the PR, skip validation - will fail at execution
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a branch already exists on the remote.
+ */
+async function branchExists(branch: string, repository: string): Promise<boolean> {
+  try {
+    await $`gh api repos/${repository}/git/ref/heads/${branch}`.quiet();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Validate that all labels exist in the repository.
  */
@@ -580,18 +923,87 @@ async function executeOutputs(
   config: OutputConfig,
   ctx: StageContext,
   agent: AgentDefinition,
+  run: OutputRun,
 ): Promise<ExecutionResult> {
+  const { dedup, tracer } = run;
   const errors: string[] = [];
   let executed = 0;
+  let deduplicated = 0;
+  const target = dedup ? await resolveEventTarget(ctx) : {};
 
   for (const file of files) {
+    // Skip actions already performed within their deduplication window
+    const details = buildActionDetails(file, target);
+    const check = await checkActionDeduplication(agent, outputType, details, dedup?.state ?? null);
+    if (dedup && !check.allowed) {
+      const reason = check.reason ?? `Action '${outputType}' already performed`;
+      dedup.skipped.push({
+        type: outputType,
+        file: file.filename,
+        reason,
+        previous_timestamp: check.previousTimestamp,
+      });
+      deduplicated++;
+      console.log(`Skipped ${outputType} from ${file.filename}: ${reason}`);
+      tracer?.recordStep(outputType, file.filename, "skipped", undefined, { reason });
+      tracer?.recordDecision(
+        `Execute ${outputType} from ${file.filename}?`,
+        JSON.stringify(details),
+        "skipped",
+        reason,
+      );
+      continue;
+    }
+
+    // Hold outputs that need approval; the approval stage executes them later
+    const approval = getApprovalConfig(config);
+    if (approval && !ctx.dryRun && !ctx.approved) {
+      run.held.push({ type: outputType, file: file.filename, data: file.data, approval });
+      console.log(`Holding ${outputType} from ${file.filename} for approval`);
+      tracer?.recordStep(outputType, file.filename, "skipped", undefined, {
+        reason: "Waiting for approval",
+      });
+      continue;
+    }
+
+    const startedAt = Date.now();
     try {
-      await executeOutput(outputType, file, config, ctx, agent);
+      if (ctx.dryRun) {
+        await recordPlannedOutput({
+          type: outputType,
+          file: file.filename,
+          data: file.data,
+          ...(approval && { requires_approval: true }),
+        });
+        console.log(`Planned ${outputType} from ${file.filename}`);
+      } else {
+        await executeOutput(outputType, file, config, ctx, agent);
+        console.log(`Executed ${outputType} from ${file.filename}`);
+      }
       executed++;
-      console.log(`Executed ${outputType} from ${file.filename}`);
+      tracer?.recordStep(outputType, file.filename, "success", Date.now() - startedAt, {
+        data: file.data,
+        dry_run: ctx.dryRun === true,
+      });
     } catch (error) {
-      errors.push(
-        `**${outputType}**: Failed to execute ${file.filename}: ${(error as Error).message}`,
+      const message = (error as Error).message;
+      errors.push(`**${outputType}**: Failed to execute ${file.filename}: ${message}`);
+      tracer?.recordStep(outputType, file.filename, "failure", Date.now() - startedAt, {
+        data: file.data,
+        error: message,
+      });
+      continue;
+    }
+
+    // Remember the action so later files and runs can be deduplicated against it
+    if (dedup && check.key) {
+      const issueNumber = details.issue_number ?? details.pr_number;
+      dedup.state.records.push(
+        createDeduplicationRecord(agent, check.key, {
+          actionType: outputType,
+          issueNumber: issueNumber === undefined ? undefined : Number(issueNumber),
+          details,
+        }),
       );
     }
   }
@@ -599,31 +1011,64 @@ async function executeOutputs(
   return {
     success: errors.length === 0,
     executed,
+    deduplicated,
     errors,
   };
 }
 
 /**
- * Execute a single output using the gh CLI.
+ * Describe an output as an action for deduplication: its data plus the issue/PR it targets.
  */
-async function executeOutput(
-  outputType: Output,
-  file: OutputFile,
-  config: OutputConfig,
-  ctx: StageContext,
-  agent: AgentDefinition,
-): Promise<void> {
-  const repository = ctx.repository;
+function buildActionDetails(file: OutputFile, target: EventTarget): Record<string, unknown> {
+  const details: Record<string, unknown> = { ...file.data };
+  const issueNumber = file.data.issue_number ?? file.data.issue ?? target.issueNumber;
+  const prNumber = file.data.pr_number ?? file.data.pr ?? target.prNumber;
 
-  // Get issue/PR number from event payload
-  // Priority: 1. EVENT_PAYLOAD (from dispatcher), 2. GITHUB_EVENT_PATH (direct trigger)
-  let issueNumber: string | undefined;
-  let prNumber: string | undefined;
+  if (issueNumber !== undefined) {
+    details.issue_number = Number(issueNumber);
+  }
+  if (prNumber !== undefined) {
+    details.pr_number = Number(prNumber);
+  }
+  return details;
+}
 
-  // Priority 1: Check for EVENT_PAYLOAD environment variable (from dispatcher)
-  // Note: EVENT_PAYLOAD is base64-encoded to avoid newline issues with GitHub Actions
-  const eventPayloadEnv = process.env.EVENT_PAYLOAD;
-  if (eventPayloadEnv) {
+/**
+ * Append an output to the dry-run plan file.
+ */
+async function recordPlannedOutput(planned: PlannedOutput): Promise<void> {
+  const plan = await readOutputPlan();
+  plan.push(planned);
+  await writeFile(OUTPUT_PLAN_FILE, JSON.stringify(plan, null, 2));
+}
+
+/**
+ * Read the outputs recorded by a dry run. Returns an empty plan if none were recorded.
+ */
+export async function readOutputPlan(): Promise<PlannedOutput[]> {
+  if (!existsSync(OUTPUT_PLAN_FILE)) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(await readFile(OUTPUT_PLAN_FILE, "utf-8"));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Get the issue/PR number from the triggering event.
+ * Priority: 1. EVENT_PAYLOAD (from dispatcher), 2. GITHUB_EVENT_PATH (direct trigger)
+ */
+async function resolveEventTarget(ctx: StageContext): Promise<EventTarget> {
+  let issueNumber: string | undefined;
+  let prNumber: string | undefined;
+
+  // Priority 1: Check for EVENT_PAYLOAD environment variable (from dispatcher)
+  // Note: EVENT_PAYLOAD is base64-encoded to avoid newline issues with GitHub Actions
+  const eventPayloadEnv = process.env.EVENT_PAYLOAD;
+  if (eventPayloadEnv) {
     try {
       const decodedPayload = Buffer.from(eventPayloadEnv, "base64").toString("utf-8");
       const event = JSON.parse(decodedPayload);
@@ -649,6 +1094,22 @@ async function executeOutput(
     }
   }
 
+  return { issueNumber, prNumber };
+}
+
+/**
+ * Execute a single output using the gh CLI.
+ */
+async function executeOutput(
+  outputType: Output,
+  file: OutputFile,
+  config: OutputConfig,
+  ctx: StageContext,
+  agent: AgentDefinition,
+): Promise<void> {
+  const repository = ctx.repository;
+  const { issueNumber, prNumber } = await resolveEventTarget(ctx);
+
   // Allow outputs to specify their own target issue/PR number (for batch mode)
   const outputIssueNumber = file.data.issue_number?.toString() || file.data.issue?.toString();
   const outputPrNumber = file.data.pr_number?.toString() || file.data.pr?.toString();
@@ -658,13 +1119,22 @@ async function executeOutput(
   const effectivePrNumber = outputPrNumber || prNumber;
   const issueOrPrNumber = effectiveIssueNumber || effectivePrNumber;
 
+  const custom = agent.custom_outputs?.[outputType];
+  if (custom) {
+    await executeCustomOutput(outputType, custom, file.data, repository, {
+      issueNumber: effectiveIssueNumber,
+      prNumber: effectivePrNumber,
+    });
+    return;
+  }
+
   switch (outputType) {
     case "add-comment":
       await executeAddComment(file, repository, issueOrPrNumber, agent, ctx);
       break;
 
     case "add-label":
-      await executeAddLabel(file, repository, issueOrPrNumber);
+      await executeAddLabel(file, config, repository, issueOrPrNumber);
       break;
 
     case "remove-label":
@@ -699,6 +1169,102 @@ async function executeOutput(
       await executeEditIssue(file, repository, issueOrPrNumber);
       break;
 
+    case "assign-issue":
+      await executeAssignIssue(file, repository);
+      break;
+
+    case "request-review":
+      await executeRequestReview(file, repository);
+      break;
+
+    case "merge-pr":
+      await executeMergePr(file, repository);
+      break;
+
+    case "approve-pr":
+      await executeApprovePr(file, repository);
+      break;
+
+    case "create-release":
+      await executeCreateRelease(file, repository);
+      break;
+
+    case "delete-branch":
+      await executeDeleteBranch(file, repository);
+      break;
+
+    case "lock-conversation":
+      await executeLockConversation(file, repository);
+      break;
+
+    case "pin-issue":
+      await executePinIssue(file, repository);
+      break;
+
+    case "convert-to-discussion":
+      await executeConvertToDiscussion(file, repository);
+      break;
+
+    case "reopen-issue":
+      await executeReopenIssue(file, repository);
+      break;
+
+    case "set-milestone":
+      await executeSetMilestone(file, repository);
+      break;
+
+    case "trigger-workflow":
+      await executeTriggerWorkflow(file, repository);
+      break;
+
+    case "add-reaction":
+      await executeAddReaction(file, repository);
+      break;
+
+    case "create-branch":
+      await executeCreateBranch(file, repository);
+      break;
+
+    case "copy-project":
+      await executeCopyProject(file);
+      break;
+
+    case "mark-template":
+      await executeMarkTemplate(file);
+      break;
+
+    case "manage-labels":
+      await executeManageLabels(file, repository);
+      break;
+
+    case "add-to-project":
+      await executeAddToProject(file, repository, config);
+      break;
+
+    case "remove-from-project":
+      await executeRemoveFromProject(file, config);
+      break;
+
+    case "update-project-field":
+      await executeUpdateProjectField(file, config);
+      break;
+
+    case "archive-project-item":
+      await executeArchiveProjectItem(file, config);
+      break;
+
+    case "manage-project":
+      await executeManageProject(file, config);
+      break;
+
+    case "manage-project-field":
+      await executeManageProjectField(file, config);
+      break;
+
+    case "link-project":
+      await executeLinkProject(file, config);
+      break;
+
     default:
       throw new Error(`Unknown output type: ${outputType}`);
   }
@@ -734,6 +1300,7 @@ async function executeAddComment(
  */
 async function executeAddLabel(
   file: OutputFile,
+  config: OutputConfig,
   repository: string,
   issueOrPrNumber: string | undefined,
 ): Promise<void> {
@@ -742,6 +1309,10 @@ async function executeAddLabel(
   }
 
   const labels = file.data.labels as string[];
+  const blocked = getBlockedLabels(labels, config);
+  if (blocked.length > 0) {
+    throw new Error(`Labels are blocked and cannot be added: ${blocked.join(", ")}`);
+  }
 
   // Get current labels
   const currentLabelsResult =
@@ -880,29 +1451,31 @@ async function executeCreateDiscussion(
 }
 
 /**
- * Create a pull request with code changes.
+ * Create a pull request with code changes, or push them to the open PR of the branch.
  */
 async function executeCreatePr(
   file: OutputFile,
-  _repository: string,
+  repository: string,
   config: OutputConfig,
 ): Promise<void> {
-  const branch = file.data.branch as string;
   const title = file.data.title as string;
   const body = file.data.body as string;
-  const base = (file.data.base as string) || "main";
-  const files = file.data.files as Array<{ path: string; content: string }>;
+  const base = (file.data.base as string) || (await getDefaultBranch(repository));
+  const commits = (file.data.commits as PrCommit[] | undefined) ?? [
+    { ...(file.data as PrChanges), message: title },
+  ];
   const signCommits = config.sign || false;
 
-  // Check if PR already exists for this branch
-  try {
-    const existingPr = await $`gh pr view ${branch} --json state --jq '.state'`.text();
-    if (existingPr.trim() === "OPEN") {
-      console.log(`PR already exists for branch '${branch}', skipping`);
-      return;
-    }
-  } catch {
-    // No existing PR, continue
+  // An open PR is updated by pushing to its branch; any other existing branch is left alone
+  const { branch, hasOpenPr } = await resolvePrBranch(file.data.branch as string, {
+    getPrState: async (name) =>
+      (await $`gh pr view ${name} --json state --jq '.state'`.nothrow().quiet().text()).trim() ||
+      undefined,
+    branchExists: async (name) =>
+      (await $`git ls-remote --exit-code --heads origin ${name}`.nothrow().quiet()).exitCode === 0,
+  });
+  if (branch !== file.data.branch) {
+    console.log(`Branch '${file.data.branch}' has no open PR, using '${branch}' instead`);
   }
 
   // Configure git
@@ -911,50 +1484,48 @@ async function executeCreatePr(
   await $`git config user.name ${gitUser}`;
   await $`git config user.email ${gitEmail}`;
 
-  // Return to default branch
-  await $`git checkout main`.catch(() => $`git checkout master`);
+  const startRef =
+    (await $`git symbolic-ref --short -q HEAD`.nothrow().text()).trim() ||
+    (await $`git rev-parse HEAD`.text()).trim();
 
-  // Delete existing remote branch if exists
-  try {
-    await $`git ls-remote --exit-code --heads origin ${branch}`;
-    await $`git push origin --delete ${branch}`.catch(() => {});
-  } catch {
-    // Branch doesn't exist remotely
-  }
+  // Continue the open PR's branch, or start a new one from the base
+  await $`git fetch origin ${hasOpenPr ? branch : base}`;
+  await $`git checkout -B ${branch} FETCH_HEAD`;
 
-  // Delete local branch if exists
-  await $`git branch -D ${branch}`.catch(() => {});
+  try {
+    let committed = 0;
+    for (const commit of commits) {
+      await applyChanges(commit);
+      if ((await $`git diff --cached --quiet`.nothrow()).exitCode === 0) {
+        console.log(`No changes to commit for '${commit.message}', skipping`);
+        continue;
+      }
+      if (signCommits) {
+        await $`git commit -S -m ${commit.message}`;
+      } else {
+        await $`git commit -m ${commit.message}`;
+      }
+      committed++;
+    }
 
-  // Create new branch
-  await $`git checkout -b ${branch}`;
+    if (committed === 0) {
+      console.log(`No changes for branch '${branch}', skipping`);
+      return;
+    }
 
-  // Create/update files
-  for (const fileSpec of files) {
-    const dirPath = fileSpec.path.includes("/")
-      ? fileSpec.path.substring(0, fileSpec.path.lastIndexOf("/"))
-      : ".";
-    await $`mkdir -p ${dirPath}`;
-    await writeFile(fileSpec.path, fileSpec.content, "utf-8");
-    await $`git add ${fileSpec.path}`;
-  }
+    // A plain push: the branch only moves forward
+    await $`git push origin ${branch}`;
 
-  // Commit changes
-  if (signCommits) {
-    await $`git commit -S -m ${title}`;
-  } else {
-    await $`git commit -m ${title}`;
+    if (hasOpenPr) {
+      console.log(`Pushed ${committed} commit(s) to the open PR for branch '${branch}'`);
+    } else {
+      await $`gh pr create --title ${title} --body ${body} --base ${base} --head ${branch}`;
+      console.log(`Created PR: ${title}`);
+    }
+  } finally {
+    // Return to where the job started, dropping anything a failed commit left behind
+    await $`git checkout -f ${startRef}`.nothrow();
   }
-
-  // Push branch
-  await $`git push origin ${branch}`;
-
-  // Create PR
-  await $`gh pr create --title ${title} --body ${body} --base ${base} --head ${branch}`;
-
-  console.log(`Created PR: ${title}`);
-
-  // Return to main branch
-  await $`git checkout main`.catch(() => $`git checkout master`);
 }
 
 /**
@@ -963,14 +1534,14 @@ async function executeCreatePr(
 async function executeUpdateFile(file: OutputFile, repository: string): Promise<void> {
   const files = file.data.files as Array<{ path: string; content: string }>;
   const message = file.data.message as string;
-  const branch = (file.data.branch as string) || "main";
+  const branch = (file.data.branch as string) || (await getDefaultBranch(repository));
 
   for (const fileSpec of files) {
-    // Get current file SHA if it exists
+    // Get current file SHA on the target branch if it exists
     let sha: string | undefined;
     try {
       const response =
-        await $`gh api repos/${repository}/contents/${fileSpec.path} --jq '.sha'`.text();
+        await $`gh api ${`repos/${repository}/contents/${fileSpec.path}?ref=${branch}`} --jq '.sha'`.text();
       sha = response.trim();
     } catch {
       // File doesn't exist
@@ -1057,6 +1628,531 @@ async function executeEditIssue(
   await $`echo ${payloadJson} | gh api repos/${repository}/issues/${issueNumber} -X PATCH --input -`;
 }
 
+/**
+ * Assign users to an issue or PR.
+ */
+async function executeAssignIssue(file: OutputFile, repository: string): Promise<void> {
+  const issueNumber = String(file.data.issue_number);
+  const payload = JSON.stringify({ assignees: file.data.assignees });
+
+  await $`echo ${payload} | gh api repos/${repository}/issues/${issueNumber}/assignees -X POST --input -`;
+}
+
+/**
+ * Request reviews from users and/or teams on a pull request.
+ */
+async function executeRequestReview(file: OutputFile, repository: string): Promise<void> {
+  const prNumber = String(file.data.pr_number);
+  const payload = JSON.stringify({
+    reviewers: file.data.reviewers ?? [],
+    team_reviewers: file.data.team_reviewers ?? [],
+  });
+
+  await $`echo ${payload} | gh api repos/${repository}/pulls/${prNumber}/requested_reviewers -X POST --input -`;
+}
+
+/**
+ * Merge a pull request, optionally deleting its head branch afterwards.
+ */
+async function executeMergePr(file: OutputFile, repository: string): Promise<void> {
+  const prNumber = String(file.data.pr_number);
+  const deleteBranch = file.data.delete_branch !== false;
+
+  // Capture the head branch before merging so it can be cleaned up
+  const headRef = (
+    await $`gh api repos/${repository}/pulls/${prNumber} --jq '.head.ref'`.text()
+  ).trim();
+
+  const payload = JSON.stringify({
+    merge_method: (file.data.merge_method as string) || "merge",
+    commit_title: file.data.commit_title,
+    commit_message: file.data.commit_message,
+  });
+  await $`echo ${payload} | gh api repos/${repository}/pulls/${prNumber}/merge -X PUT --input -`;
+
+  if (deleteBranch && headRef) {
+    await $`gh api repos/${repository}/git/refs/heads/${headRef} -X DELETE`.catch(() => {
+      console.warn(`Merged PR #${prNumber} but failed to delete branch '${headRef}'`);
+    });
+  }
+}
+
+/**
+ * Submit an approving review on a pull request.
+ */
+async function executeApprovePr(file: OutputFile, repository: string): Promise<void> {
+  const prNumber = String(file.data.pr_number);
+  const body = (file.data.body as string) || "Automated approval";
+
+  await $`gh api repos/${repository}/pulls/${prNumber}/reviews -X POST -f body=${body} -f event=APPROVE`;
+}
+
+/**
+ * Create a release. Without target_commitish, GitHub tags the default branch.
+ */
+async function executeCreateRelease(file: OutputFile, repository: string): Promise<void> {
+  const payload = JSON.stringify({
+    tag_name: file.data.tag_name,
+    name: file.data.name ?? file.data.tag_name,
+    body: file.data.body,
+    draft: file.data.draft === true,
+    prerelease: file.data.prerelease === true,
+    generate_release_notes: file.data.generate_release_notes === true,
+    target_commitish: file.data.target_commitish,
+  });
+
+  await $`echo ${payload} | gh api repos/${repository}/releases -X POST --input -`;
+}
+
+/**
+ * Delete a branch.
+ */
+async function executeDeleteBranch(file: OutputFile, repository: string): Promise<void> {
+  const branch = file.data.branch as string;
+
+  await $`gh api repos/${repository}/git/refs/heads/${branch} -X DELETE`;
+}
+
+/**
+ * Lock the conversation on an issue or PR.
+ */
+async function executeLockConversation(file: OutputFile, repository: string): Promise<void> {
+  const issueNumber = String(file.data.issue_number);
+  const lockReason = (file.data.lock_reason as string) || "resolved";
+
+  await $`gh api repos/${repository}/issues/${issueNumber}/lock -X PUT -f lock_reason=${lockReason}`;
+}
+
+/**
+ * Pin an issue to the repository.
+ */
+async function executePinIssue(file: OutputFile, repository: string): Promise<void> {
+  const issueNodeId = await getIssueNodeId(repository, String(file.data.issue_number));
+
+  const mutation = `mutation($issueId: ID!) {
+    pinIssue(input: {issueId: $issueId}) {
+      issue { id }
+    }
+  }`;
+
+  await $`gh api graphql -f query=${mutation} -f issueId=${issueNodeId}`;
+}
+
+/**
+ * Convert an issue into a discussion in the given category.
+ */
+async function executeConvertToDiscussion(file: OutputFile, repository: string): Promise<void> {
+  const issueNumber = String(file.data.issue_number);
+  const category = file.data.category as string;
+
+  const issueNodeId = await getIssueNodeId(repository, issueNumber);
+  const categoryId = await getDiscussionCategoryId(repository, category);
+
+  const mutation = `mutation($issueId: ID!, $categoryId: ID!) {
+    convertIssueToDiscussion(input: {issueId: $issueId, categoryId: $categoryId}) {
+      discussion { url }
+    }
+  }`;
+
+  const result =
+    await $`gh api graphql -f query=${mutation} -f issueId=${issueNodeId} -f categoryId=${categoryId}`.text();
+
+  const resultData = JSON.parse(result);
+  if (resultData.data?.convertIssueToDiscussion?.discussion?.url) {
+    console.log(`Created discussion: ${resultData.data.convertIssueToDiscussion.discussion.url}`);
+  }
+}
+
+/**
+ * Reopen an issue or PR, optionally leaving a comment.
+ */
+async function executeReopenIssue(file: OutputFile, repository: string): Promise<void> {
+  const issueNumber = String(file.data.issue_number);
+
+  await $`gh api repos/${repository}/issues/${issueNumber} -X PATCH -f state=open`;
+
+  if (file.data.comment) {
+    const comment = file.data.comment as string;
+    await $`gh api repos/${repository}/issues/${issueNumber}/comments -f body=${comment}`;
+  }
+}
+
+/**
+ * Set the milestone on an issue or PR, looking the milestone up by title.
+ */
+async function executeSetMilestone(file: OutputFile, repository: string): Promise<void> {
+  const issueNumber = String(file.data.issue_number);
+  const title = file.data.milestone as string;
+
+  const milestonesResult =
+    await $`gh api ${`repos/${repository}/milestones?state=all&per_page=100`}`.text();
+  const milestones = JSON.parse(milestonesResult) as Array<{ number: number; title: string }>;
+
+  const milestone = milestones.find((m) => m.title === title);
+  if (!milestone) {
+    throw new Error(`Milestone '${title}' not found in repository`);
+  }
+
+  await $`gh api repos/${repository}/issues/${issueNumber} -X PATCH -F milestone=${milestone.number}`;
+}
+
+/**
+ * Dispatch a workflow_dispatch event. Without ref, the default branch is used.
+ */
+async function executeTriggerWorkflow(file: OutputFile, repository: string): Promise<void> {
+  const workflow = file.data.workflow as string;
+  const ref = (file.data.ref as string) || (await getDefaultBranch(repository));
+
+  const payload = JSON.stringify({ ref, inputs: file.data.inputs ?? {} });
+  await $`echo ${payload} | gh api repos/${repository}/actions/workflows/${workflow}/dispatches -X POST --input -`;
+}
+
+/**
+ * Add a reaction to an issue/PR or to a comment.
+ */
+async function executeAddReaction(file: OutputFile, repository: string): Promise<void> {
+  const reaction = file.data.reaction as string;
+
+  if (file.data.issue_number !== undefined && file.data.issue_number !== null) {
+    const issueNumber = String(file.data.issue_number);
+    await $`gh api repos/${repository}/issues/${issueNumber}/reactions -X POST -f content=${reaction}`;
+  } else {
+    const commentId = String(file.data.comment_id);
+    await $`gh api repos/${repository}/issues/comments/${commentId}/reactions -X POST -f content=${reaction}`;
+  }
+}
+
+/**
+ * Create a branch from a SHA, branch or tag.
+ */
+async function executeCreateBranch(file: OutputFile, repository: string): Promise<void> {
+  const branch = file.data.branch as string;
+  let sha = file.data.from_sha as string | undefined;
+
+  if (!sha) {
+    const fromRef = (file.data.from_ref as string) || (await getDefaultBranch(repository));
+    sha = await $`gh api repos/${repository}/git/ref/heads/${fromRef} --jq '.object.sha'`
+      .text()
+      .catch(() => $`gh api repos/${repository}/git/ref/tags/${fromRef} --jq '.object.sha'`.text())
+      .catch(() => "");
+    sha = sha.trim();
+    if (!sha) {
+      throw new Error(`Failed to resolve from_ref '${fromRef}'`);
+    }
+  }
+
+  await $`gh api repos/${repository}/git/refs -X POST -f ref=${`refs/heads/${branch}`} -f sha=${sha}`;
+}
+
+/**
+ * Copy a project, then apply the description since `gh project copy` cannot set it.
+ */
+async function executeCopyProject(file: OutputFile): Promise<void> {
+  const sourceNumber = String(file.data.source_project_number);
+  const sourceOwner = (file.data.source_owner as string) || "@me";
+  const targetOwner = (file.data.target_owner as string) || "@me";
+  const title = file.data.new_title as string;
+  const drafts = file.data.include_items === true ? ["--drafts"] : [];
+
+  const newNumber = (
+    await $`gh project copy ${sourceNumber} --source-owner ${sourceOwner} --target-owner ${targetOwner} --title ${title} ${drafts} --format json --jq '.number'`.text()
+  ).trim();
+
+  console.log(`Copied project ${sourceNumber} to project ${newNumber}`);
+
+  if (file.data.new_description && newNumber) {
+    const description = file.data.new_description as string;
+    await $`gh project edit ${newNumber} --owner ${targetOwner} --description ${description}`;
+  }
+}
+
+/**
+ * Mark or unmark a project as a template.
+ */
+async function executeMarkTemplate(file: OutputFile): Promise<void> {
+  const projectNumber = String(file.data.project_number);
+  const owner = (file.data.owner as string) || "@me";
+  const undo = file.data.action === "unmark" ? ["--undo"] : [];
+
+  await $`gh project mark-template ${projectNumber} --owner ${owner} ${undo}`;
+}
+
+/**
+ * Create, edit or delete repository labels.
+ */
+async function executeManageLabels(file: OutputFile, repository: string): Promise<void> {
+  const operations = file.data.operations as Array<Record<string, string>>;
+
+  for (const op of operations) {
+    const options: string[] = [];
+    if (op.new_name) {
+      options.push("--name", op.new_name);
+    }
+    if (op.color) {
+      options.push("--color", op.color);
+    }
+    if (op.description) {
+      options.push("--description", op.description);
+    }
+
+    switch (op.action) {
+      case "create":
+        console.log(`Creating label '${op.name}'...`);
+        await $`gh label create ${op.name} --repo ${repository} ${options}`;
+        break;
+      case "edit":
+        console.log(`Editing label '${op.name}'...`);
+        await $`gh label edit ${op.name} --repo ${repository} ${options}`;
+        break;
+      case "delete":
+        console.log(`Deleting label '${op.name}'...`);
+        await $`gh label delete ${op.name} --repo ${repository} --yes`;
+        break;
+    }
+  }
+}
+
+/**
+ * Add issues, PRs or draft items to a project.
+ */
+async function executeAddToProject(
+  file: OutputFile,
+  repository: string,
+  config: OutputConfig,
+): Promise<void> {
+  const { projectNumber, owner } = resolveProjectTarget(file, config);
+  const items = file.data.items as Array<Record<string, unknown>>;
+
+  for (const item of items) {
+    if (item.type === "draft") {
+      const title = item.title as string;
+      const body = item.body ? ["--body", item.body as string] : [];
+      console.log(`Creating draft item '${title}' in project ${projectNumber}...`);
+      await $`gh project item-create ${projectNumber} --owner ${owner} --title ${title} ${body}`;
+      continue;
+    }
+
+    const number = String(item.number);
+    const command = item.type === "issue" ? "issue" : "pr";
+    const url = (
+      await $`gh ${command} view ${number} --repo ${repository} --json url --jq '.url'`.text()
+    ).trim();
+    console.log(`Adding ${command} #${number} to project ${projectNumber}...`);
+    await $`gh project item-add ${projectNumber} --owner ${owner} --url ${url}`;
+  }
+}
+
+/**
+ * Remove items from a project.
+ */
+async function executeRemoveFromProject(file: OutputFile, config: OutputConfig): Promise<void> {
+  const { projectNumber, owner } = resolveProjectTarget(file, config);
+  const items = file.data.items as Array<{ item_id: string }>;
+
+  for (const item of items) {
+    console.log(`Removing item ${item.item_id} from project ${projectNumber}...`);
+    await $`gh project item-delete ${projectNumber} --owner ${owner} --id ${item.item_id}`;
+  }
+}
+
+/**
+ * Update field values on project items, resolving field and option names to IDs.
+ */
+async function executeUpdateProjectField(file: OutputFile, config: OutputConfig): Promise<void> {
+  const { projectNumber, owner } = resolveProjectTarget(file, config);
+  const updates = file.data.updates as Array<{
+    item_id: string;
+    fields: Record<string, string | number>;
+  }>;
+
+  const projectId = (
+    await $`gh project view ${projectNumber} --owner ${owner} --format json --jq '.id'`.text()
+  ).trim();
+  const fieldList = JSON.parse(
+    await $`gh project field-list ${projectNumber} --owner ${owner} --format json`.text(),
+  ) as {
+    fields: Array<{
+      id: string;
+      name: string;
+      type: string;
+      options?: Array<{ id: string; name: string }>;
+    }>;
+  };
+
+  for (const update of updates) {
+    for (const [fieldName, value] of Object.entries(update.fields)) {
+      const field = fieldList.fields.find((f) => f.name === fieldName);
+      if (!field) {
+        throw new Error(`Field '${fieldName}' not found in project ${projectNumber}`);
+      }
+
+      let valueArgs: string[];
+      if (field.options) {
+        const option = field.options.find((o) => o.name === String(value));
+        if (!option) {
+          throw new Error(`Option '${value}' not found for field '${fieldName}'`);
+        }
+        valueArgs = ["--single-select-option-id", option.id];
+      } else if (typeof value === "number") {
+        valueArgs = ["--number", String(value)];
+      } else if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+        valueArgs = ["--date", value];
+      } else {
+        valueArgs = ["--text", value];
+      }
+
+      console.log(`Updating field '${fieldName}' to '${value}' for item ${update.item_id}...`);
+      await $`gh project item-edit --project-id ${projectId} --id ${update.item_id} --field-id ${field.id} ${valueArgs}`;
+    }
+  }
+}
+
+/**
+ * Archive or unarchive project items.
+ */
+async function executeArchiveProjectItem(file: OutputFile, config: OutputConfig): Promise<void> {
+  const { projectNumber, owner } = resolveProjectTarget(file, config);
+  const items = file.data.items as Array<{ item_id: string; action: "archive" | "unarchive" }>;
+
+  for (const item of items) {
+    const undo = item.action === "unarchive" ? ["--undo"] : [];
+    console.log(
+      `${item.action === "archive" ? "Archiving" : "Unarchiving"} item ${item.item_id}...`,
+    );
+    await $`gh project item-archive ${projectNumber} --owner ${owner} --id ${item.item_id} ${undo}`;
+  }
+}
+
+/**
+ * Create, edit, close or delete projects.
+ */
+async function executeManageProject(file: OutputFile, config: OutputConfig): Promise<void> {
+  const operations = file.data.operations as Array<Record<string, string | number>>;
+  const defaultOwner = (config.owner as string) || "@me";
+
+  for (const op of operations) {
+    const owner = (op.owner as string) || defaultOwner;
+    const description = op.description ? ["--description", String(op.description)] : [];
+
+    switch (op.action) {
+      case "create": {
+        console.log(`Creating project '${op.title}'...`);
+        const title = String(op.title);
+        const number = (
+          await $`gh project create --owner ${owner} --title ${title} --format json --jq '.number'`.text()
+        ).trim();
+        if (description.length > 0 && number) {
+          await $`gh project edit ${number} --owner ${owner} ${description}`;
+        }
+        break;
+      }
+      case "edit": {
+        console.log(`Editing project ${op.project_number}...`);
+        const title = op.title ? ["--title", String(op.title)] : [];
+        await $`gh project edit ${String(op.project_number)} --owner ${owner} ${title} ${description}`;
+        break;
+      }
+      case "close":
+        console.log(`Closing project ${op.project_number}...`);
+        await $`gh project close ${String(op.project_number)} --owner ${owner}`;
+        break;
+      case "delete":
+        console.log(`Deleting project ${op.project_number}...`);
+        await $`gh project delete ${String(op.project_number)} --owner ${owner}`;
+        break;
+    }
+  }
+}
+
+/**
+ * Create or delete custom fields on a project.
+ */
+async function executeManageProjectField(file: OutputFile, config: OutputConfig): Promise<void> {
+  const { projectNumber, owner } = resolveProjectTarget(file, config);
+  const operations = file.data.operations as Array<Record<string, unknown>>;
+
+  for (const op of operations) {
+    if (op.action === "create") {
+      const name = op.name as string;
+      const dataType = op.data_type as string;
+      const options = Array.isArray(op.single_select_options)
+        ? ["--single-select-options", (op.single_select_options as string[]).join(",")]
+        : [];
+      console.log(`Creating field '${name}' with type ${dataType}...`);
+      await $`gh project field-create ${projectNumber} --owner ${owner} --name ${name} --data-type ${dataType} ${options}`;
+    } else if (op.action === "delete") {
+      const fieldId = op.field_id as string;
+      console.log(`Deleting field ${fieldId}...`);
+      await $`gh project field-delete --id ${fieldId}`;
+    }
+  }
+}
+
+/**
+ * Link or unlink repositories and teams to a project.
+ */
+async function executeLinkProject(file: OutputFile, config: OutputConfig): Promise<void> {
+  const { projectNumber, owner } = resolveProjectTarget(file, config);
+  const operations = file.data.operations as Array<{
+    action: "link" | "unlink";
+    target_type: "repository" | "team";
+    target: string;
+  }>;
+
+  for (const op of operations) {
+    const targetFlag = op.target_type === "repository" ? "--repo" : "--team";
+    console.log(
+      `${op.action === "link" ? "Linking" : "Unlinking"} ${op.target_type} ${op.target}...`,
+    );
+    await $`gh project ${op.action} ${projectNumber} --owner ${owner} ${targetFlag} ${op.target}`;
+  }
+}
+
+/**
+ * Get the GraphQL node ID of an issue.
+ */
+async function getIssueNodeId(repository: string, issueNumber: string): Promise<string> {
+  const nodeId = (
+    await $`gh api repos/${repository}/issues/${issueNumber} --jq '.node_id'`.text()
+  ).trim();
+  if (!nodeId || nodeId === "null") {
+    throw new Error(`Failed to get node ID for issue #${issueNumber}`);
+  }
+  return nodeId;
+}
+
+/**
+ * Look up the node ID of a discussion category by name.
+ */
+async function getDiscussionCategoryId(repository: string, category: string): Promise<string> {
+  const [owner, repo] = repository.split("/");
+
+  const query = `query($owner: String!, $repo: String!) {
+    repository(owner: $owner, name: $repo) {
+      discussionCategories(first: 50) {
+        nodes { id name }
+      }
+    }
+  }`;
+
+  const result =
+    await $`gh api graphql -f query=${query} -f owner=${owner} -f repo=${repo} --jq '.data.repository.discussionCategories.nodes'`.text();
+  const categories = JSON.parse(result) as Array<{ id: string; name: string }>;
+
+  const categoryNode = categories.find((c) => c.name === category);
+  if (!categoryNode) {
+    throw new Error(`Category '${category}' not found in repository`);
+  }
+  return categoryNode.id;
+}
+
+/**
+ * Get the repository's default branch.
+ */
+async function getDefaultBranch(repository: string): Promise<string> {
+  return (await $`gh api repos/${repository} --jq '.default_branch'`.text()).trim() || "main";
+}
+
 /**
  * Write validation errors to a file.
  */
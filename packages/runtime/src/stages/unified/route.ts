@@ -1,8 +1,16 @@
 import { readdir } from "node:fs/promises";
 import { join } from "node:path";
 import { agentParser } from "@repo-agents/parser";
-import type { AgentDefinition } from "@repo-agents/types";
+import type { AgentDefinition, InvocationConfig, TriggerConfig } from "@repo-agents/types";
 import type { StageResult } from "../../types";
+import { getInvocations, matchInvocation } from "../../utils/invocations";
+import {
+  matchesPushTrigger,
+  matchesReleaseTrigger,
+  matchesWorkflowRunTrigger,
+  readTriggerPayload,
+  type TriggerEventPayload,
+} from "../../utils/triggers";
 
 /**
  * Context for unified route stage
@@ -49,10 +57,10 @@ export interface AgentMatrixEntry {
     schedule?: string[];
     repositoryDispatch?: string[];
     workflowDispatch?: boolean;
-    invocation?: Array<{
-      command: string;
-      aliases?: string[];
-    }>;
+    push?: TriggerConfig["push"];
+    release?: TriggerConfig["release"];
+    workflowRun?: TriggerConfig["workflow_run"];
+    invocation?: InvocationConfig[];
   };
 }
 
@@ -90,6 +98,7 @@ export async function runUnifiedRoute(ctx: UnifiedRouteContext): Promise<StageRe
 
     // Match event against agent triggers
     let matchingAgents: AgentMatrixEntry[];
+    const payload = await readTriggerPayload(ctx.github.eventPath);
 
     if (ctx.github.eventName === "workflow_dispatch" && workflowDispatchAgent) {
       // Specific agent requested via workflow_dispatch input
@@ -99,7 +108,7 @@ export async function runUnifiedRoute(ctx: UnifiedRouteContext): Promise<StageRe
       // Special handling: check if closed issue was blocking others that need retry
       const retryAgents = await handleClosedIssueRetries(ctx, allAgents);
       // Also match normal routing for agents listening to 'closed' events
-      const normalMatches = allAgents.filter((agent) => matchesEvent(agent, ctx.github));
+      const normalMatches = allAgents.filter((agent) => matchesEvent(agent, ctx.github, payload));
       // Combine both (deduplicate by name)
       const combinedMap = new Map<string, AgentMatrixEntry>();
       for (const agent of [...retryAgents, ...normalMatches]) {
@@ -111,7 +120,7 @@ export async function runUnifiedRoute(ctx: UnifiedRouteContext): Promise<StageRe
       );
     } else {
       // Match against all agents
-      matchingAgents = allAgents.filter((agent) => matchesEvent(agent, ctx.github));
+      matchingAgents = allAgents.filter((agent) => matchesEvent(agent, ctx.github, payload));
     }
 
     console.log(`Matched ${matchingAgents.length} agents`);
@@ -199,6 +208,9 @@ function buildAgentMatrixEntry(agent: AgentDefinition, agentPath: string): Agent
           ? agent.on.workflow_dispatch
           : agent.on.workflow_dispatch !== undefined,
       ),
+      push: agent.on.push,
+      release: agent.on.release,
+      workflowRun: agent.on.workflow_run,
       invocation: extractInvocationTriggers(agent),
     },
   };
@@ -207,21 +219,9 @@ function buildAgentMatrixEntry(agent: AgentDefinition, agentPath: string): Agent
 /**
  * Extract invocation triggers from agent definition.
  */
-function extractInvocationTriggers(
-  agent: AgentDefinition,
-): Array<{ command: string; aliases?: string[] }> | undefined {
-  if (!agent.on.invocation) {
-    return undefined;
-  }
-
-  const invocations = Array.isArray(agent.on.invocation)
-    ? agent.on.invocation
-    : [agent.on.invocation];
-
-  return invocations.map((inv) => ({
-    command: inv.command,
-    aliases: inv.aliases,
-  }));
+function extractInvocationTriggers(agent: AgentDefinition): InvocationConfig[] | undefined {
+  const invocations = getInvocations(agent);
+  return invocations.length > 0 ? invocations : undefined;
 }
 
 /**
@@ -371,7 +371,11 @@ async function handleClosedIssueRetries(
 /**
  * Checks if an agent's triggers match the current event.
  */
-function matchesEvent(agent: AgentMatrixEntry, github: UnifiedRouteContext["github"]): boolean {
+function matchesEvent(
+  agent: AgentMatrixEntry,
+  github: UnifiedRouteContext["github"],
+  payload: TriggerEventPayload = {},
+): boolean {
   const { eventName, eventAction } = github;
 
   switch (eventName) {
@@ -400,9 +404,22 @@ function matchesEvent(agent: AgentMatrixEntry, github: UnifiedRouteContext["gith
       // Routes to all agents that have workflow_dispatch enabled
       return agent.triggers.workflowDispatch ?? false;
 
+    case "push":
+      return agent.triggers.push ? matchesPushTrigger(agent.triggers.push, payload) : false;
+
+    case "release":
+      return agent.triggers.release
+        ? matchesReleaseTrigger(agent.triggers.release, eventAction)
+        : false;
+
+    case "workflow_run":
+      return agent.triggers.workflowRun
+        ? matchesWorkflowRunTrigger(agent.triggers.workflowRun, eventAction, payload)
+        : false;
+
     case "issue_comment":
       // Check if comment contains an invocation command for this agent
-      return matchesInvocation(agent, github);
+      return matchesInvocation(agent, payload);
 
     default:
       return false;
@@ -411,38 +428,14 @@ function matchesEvent(agent: AgentMatrixEntry, github: UnifiedRouteContext["gith
 
 /**
  * Check if an issue comment contains an invocation command for this agent.
+ * Argument errors still match, so the validate stage can report them.
  */
-function matchesInvocation(
-  agent: AgentMatrixEntry,
-  _github: UnifiedRouteContext["github"],
-): boolean {
+function matchesInvocation(agent: AgentMatrixEntry, payload: TriggerEventPayload): boolean {
   if (!agent.triggers.invocation || agent.triggers.invocation.length === 0) {
     return false;
   }
 
-  // Get the comment body from environment variable (set by dispatcher)
-  const commentBody = process.env.COMMENT_BODY || "";
-  if (!commentBody) {
-    return false;
-  }
-
-  // Extract command from comment (looks for /command at start of line)
-  const match = commentBody.match(/^\/([a-z][a-z0-9-]*)/im);
-  if (!match) {
-    return false;
-  }
-
-  const command = match[1].toLowerCase();
-
-  // Check if the command matches any of the agent's invocation commands
-  for (const invocation of agent.triggers.invocation) {
-    if (invocation.command.toLowerCase() === command) {
-      return true;
-    }
-    if (invocation.aliases?.some((alias) => alias.replace(/^\//, "").toLowerCase() === command)) {
-      return true;
-    }
-  }
-
-  return false;
+  // The comment body comes from COMMENT_BODY (set by the dispatcher) or the event payload
+  const commentBody = process.env.COMMENT_BODY || payload.comment?.body || "";
+  return matchInvocation(agent.triggers.invocation, commentBody) !== null;
 }
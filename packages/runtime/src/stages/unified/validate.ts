@@ -7,20 +7,20 @@ import {
   createProgressComment,
   parseRepository,
 } from "../../utils/index";
+import { checkInvocation } from "../../utils/invocations";
+import { openStateStore } from "../../utils/state";
 import type { PermissionIssue, ValidationContext, ValidationStatus } from "../../utils/validation";
 import {
+  applyEventDeduplication,
   checkBlockingIssues,
   checkBotActor,
   checkBotAuthoredIssue,
-  checkEventDeduplication,
   checkMaxOpenPRs,
   checkRateLimit,
   checkTriggerLabels,
   checkUserAuthorization,
-  type DeduplicationState,
   getEventPayload,
   getIssueOrPRNumber,
-  initDeduplicationState,
 } from "../../utils/validation";
 
 /**
@@ -65,6 +65,8 @@ export async function runUnifiedValidate(ctx: {
   };
   options?: {
     agentPath?: string;
+    /** Skip side effects such as creating the progress comment (local runs) */
+    dryRun?: boolean;
   };
 }): Promise<StageResult> {
   const validationStatus: ValidationStatus = {
@@ -180,6 +182,33 @@ export async function runUnifiedValidate(ctx: {
     validationStatus.user_authorization = true;
     console.log(`✓ User authorized: ${ctx.github.actor}`);
 
+    // Step 3b: Check the invoked command's arguments and per-command authorization
+    const invocationResult = await checkInvocation(validationContext, agent);
+    if (!invocationResult.allowed) {
+      const invalidArgs = !!invocationResult.parsed?.errors.length;
+      permissionIssues.push({
+        timestamp: new Date().toISOString(),
+        issue_type: invalidArgs ? "validation_error" : "missing_permission",
+        severity: invalidArgs ? "warning" : "error",
+        message: invalidArgs ? "Invalid command arguments" : "User not allowed to run command",
+        context: {
+          user: ctx.github.actor,
+          command: invocationResult.parsed?.command,
+          errors: invocationResult.parsed?.errors,
+        },
+      });
+      await writeAuditData(validationStatus, permissionIssues, agent.name);
+      outputs["skip-reason"] = invocationResult.reason ?? "Command not allowed";
+      await writeValidationResult(outputs);
+      return {
+        success: true, // Not an error, just skipped
+        outputs,
+      };
+    }
+    if (invocationResult.parsed) {
+      console.log(`✓ Command accepted: /${invocationResult.parsed.command}`);
+    }
+
     // Step 4: Check trigger labels (if configured)
     const labelsResult = await checkTriggerLabels(validationContext, agent);
     if (!labelsResult.valid) {
@@ -205,7 +234,8 @@ export async function runUnifiedValidate(ctx: {
     console.log("✓ Trigger labels check passed");
 
     // Step 5: Check rate limiting
-    const rateLimitResult = await checkRateLimit(validationContext, agent);
+    const store = await openStateStore(ctx.github.repository);
+    const rateLimitResult = await checkRateLimit(validationContext, agent, store);
     if (!rateLimitResult.allowed) {
       permissionIssues.push({
         timestamp: new Date().toISOString(),
@@ -271,22 +301,13 @@ export async function runUnifiedValidate(ctx: {
     validationStatus.blocking_issues_check = true;
     console.log("✓ Blocking issues check passed");
 
-    // Step 8: Check event deduplication (if configured)
-    // Load deduplication state from previous runs (would be loaded from artifact in production)
-    let deduplicationState: DeduplicationState | null = null;
-    try {
-      // In production, this would load from an artifact stored by previous runs
-      // For now, we initialize empty state - the deduplication state management
-      // would be handled by a separate artifact workflow
-      deduplicationState = initDeduplicationState();
-    } catch {
-      // No existing state - this is fine for first run
-    }
-
-    const deduplicationResult = await checkEventDeduplication(
+    // Step 8: Check event deduplication (if configured) against the state store.
+    // New events are recorded so later runs within the window skip them.
+    const deduplicationResult = await applyEventDeduplication(
       validationContext,
       agent,
-      deduplicationState,
+      store,
+      ctx.options?.dryRun,
     );
     if (!deduplicationResult.allowed) {
       permissionIssues.push({
@@ -328,7 +349,9 @@ export async function runUnifiedValidate(ctx: {
     }
 
     // Create progress comment if enabled for this agent
-    const progressCommentResult = await createProgressCommentIfEnabled(ctx, agent);
+    const progressCommentResult = ctx.options?.dryRun
+      ? { created: false }
+      : await createProgressCommentIfEnabled(ctx, agent);
     if (progressCommentResult.created) {
       outputs["progress-comment-id"] = String(progressCommentResult.commentId);
       outputs["progress-issue-number"] = String(progressCommentResult.issueNumber);
@@ -39,6 +39,26 @@ export interface StageContext {
   progressCommentId?: number;
   /** Issue/PR number for progress comment (from dispatcher via workflow input) */
   progressIssueNumber?: number;
+  /** Validate outputs and record them as a plan instead of executing them (local runs) */
+  dryRun?: boolean;
+  /** Prompt context recorded by an earlier run, used instead of rebuilding it (replays) */
+  replayContext?: string;
+  /** Execute outputs that require approval (set when resuming an approved plan) */
+  approved?: boolean;
+}
+
+/**
+ * An output that would have been executed, recorded by the outputs stage in dry-run mode.
+ */
+export interface PlannedOutput {
+  /** Output type (e.g. add-comment) */
+  type: string;
+  /** Output file the agent wrote */
+  file: string;
+  /** Parsed output file contents */
+  data: Record<string, unknown>;
+  /** The output would wait for a maintainer's approval */
+  requires_approval?: boolean;
 }
 
 /**
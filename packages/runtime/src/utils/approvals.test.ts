@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AgentDefinition } from "@repo-agents/types";
+import {
+  canApprove,
+  createPendingApproval,
+  formatApprovalComment,
+  getApprovalCommand,
+  getApprovalConfig,
+  hasApprovalOutputs,
+  loadPendingApproval,
+  savePendingApproval,
+} from "./approvals";
+import { LocalStateStore } from "./state";
+
+const agent: AgentDefinition = {
+  name: "Closer",
+  on: { issues: { types: ["opened"] } },
+  outputs: { "add-label": true, "close-issue": { approval: true } },
+  markdown: "",
+};
+
+const now = Date.parse("2025-06-01T00:00:00Z");
+
+describe("approvals", () => {
+  describe("getApprovalConfig", () => {
+    it("should treat approval: true as the default settings", () => {
+      expect(getApprovalConfig({ approval: true })).toEqual({});
+      expect(getApprovalConfig({})).toBeUndefined();
+      expect(hasApprovalOutputs(agent)).toBe(true);
+      expect(hasApprovalOutputs({ ...agent, outputs: { "add-label": true } })).toBe(false);
+    });
+  });
+
+  describe("getApprovalCommand", () => {
+    it("should find /approve and /deny at the start of a line", () => {
+      expect(getApprovalCommand("Looks good\n/approve")).toBe("approve");
+      expect(getApprovalCommand("/Deny not now")).toBe("deny");
+      expect(getApprovalCommand("please /approve")).toBeUndefined();
+      expect(getApprovalCommand("/triage")).toBeUndefined();
+    });
+  });
+
+  describe("createPendingApproval", () => {
+    it("should combine approvers and use the shortest expiry", () => {
+      const pending = createPendingApproval(
+        agent,
+        "42",
+        7,
+        [
+          {
+            type: "close-issue",
+            file: "close-issue.json",
+            data: {},
+            approval: { users: ["alice"], expires: "2d" },
+          },
+          {
+            type: "add-label",
+            file: "add-label.json",
+            data: { labels: ["wontfix"] },
+            approval: { users: ["alice"], teams: ["maintainers"], expires: "12h" },
+          },
+        ],
+        now,
+      );
+
+      expect(pending.approvers).toEqual({ users: ["alice"], teams: ["maintainers"] });
+      expect(pending.expires_at).toBe("2025-06-01T12:00:00.000Z");
+      expect(pending.outputs[1]).toEqual({
+        type: "add-label",
+        file: "add-label.json",
+        data: { labels: ["wontfix"] },
+      });
+    });
+
+    it("should default to a week", () => {
+      const pending = createPendingApproval(
+        agent,
+        "42",
+        7,
+        [{ type: "close-issue", file: "close-issue.json", data: {}, approval: {} }],
+        now,
+      );
+
+      expect(pending.status).toBe("pending");
+      expect(pending.expires_at).toBe("2025-06-08T00:00:00.000Z");
+    });
+  });
+
+  describe("formatApprovalComment", () => {
+    const pending = createPendingApproval(
+      agent,
+      "42",
+      7,
+      [
+        {
+          type: "close-issue",
+          file: "close-issue.json",
+          data: { reason: "duplicate" },
+          approval: {},
+        },
+      ],
+      now,
+    );
+
+    it("should list the held outputs and how to decide them", () => {
+      const comment = formatApprovalComment(pending);
+
+      expect(comment).toContain("<!-- repo-agents-approval:42:Closer -->");
+      expect(comment).toContain("| 1 | `close-issue` | close-issue.json |");
+      expect(comment).toContain('"reason": "duplicate"');
+      expect(comment).toContain("(a maintainer with write access)");
+    });
+
+    it("should show the decision", () => {
+      const comment = formatApprovalComment({ ...pending, status: "denied", decided_by: "bob" });
+
+      expect(comment).toContain("denied by @bob");
+      expect(comment).not.toContain("Reply `/approve`");
+    });
+  });
+
+  describe("persistence", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "approvals-test-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should keep one plan per issue", async () => {
+      const store = new LocalStateStore(dir);
+      await savePendingApproval(
+        store,
+        "agent-closer",
+        createPendingApproval(agent, "1", 7, [], now),
+      );
+
+      expect((await loadPendingApproval(store, "agent-closer", 7))?.run_id).toBe("1");
+      expect(await loadPendingApproval(store, "agent-closer", 8)).toBeNull();
+    });
+  });
+
+  describe("canApprove", () => {
+    it("should reject bots and users outside the approvers", async () => {
+      const approvers = { users: ["alice"], teams: [] };
+
+      expect(await canApprove("owner/repo", "alice", approvers)).toBe(true);
+      expect(await canApprove("owner/repo", "mallory", approvers)).toBe(false);
+      expect(await canApprove("owner/repo", "alice[bot]", approvers)).toBe(false);
+    });
+  });
+});
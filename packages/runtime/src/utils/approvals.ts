@@ -0,0 +1,266 @@
+import type { AgentDefinition, ApprovalConfig, OutputConfig } from "@repo-agents/types";
+import type { PlannedOutput } from "../types";
+import { getRepositoryPermission, ghApi, isTeamMember, parseRepository } from "./github";
+import { extractCommand } from "./invocations";
+import type { StateStore } from "./state";
+import { parseTimeWindow } from "./validation";
+
+/** Comment commands that decide a pending plan */
+export const APPROVAL_COMMANDS = ["approve", "deny"] as const;
+
+export type ApprovalCommand = (typeof APPROVAL_COMMANDS)[number];
+
+/** How long a plan waits for a decision by default */
+const DEFAULT_APPROVAL_EXPIRY = "7d";
+
+const APPROVAL_MARKER_PREFIX = "<!-- repo-agents-approval:";
+const APPROVAL_MARKER_SUFFIX = " -->";
+
+/**
+ * Outputs held back until a maintainer approves them. One plan is kept per agent
+ * and issue/PR; a newer run replaces an undecided plan.
+ */
+export interface PendingApproval {
+  schema_version: "1.0.0";
+  agent: string;
+  /** Run that produced the outputs */
+  run_id: string;
+  issue_number: number;
+  status: "pending" | "approved" | "denied" | "expired";
+  created_at: string;
+  expires_at: string;
+  /** Who may decide; both empty means anyone with write access */
+  approvers: { users: string[]; teams: string[] };
+  outputs: PlannedOutput[];
+  /** Base64 event payload of the original run, so outputs resolve the same target */
+  event_payload?: string;
+  /** Comment showing the plan */
+  comment_id?: number;
+  decided_by?: string;
+  decided_at?: string;
+  /** Errors from executing an approved plan */
+  errors?: string[];
+}
+
+/**
+ * Approval settings of an output, or undefined when it runs without approval.
+ */
+export function getApprovalConfig(config: OutputConfig): ApprovalConfig | undefined {
+  if (!config.approval) {
+    return undefined;
+  }
+  return config.approval === true ? {} : config.approval;
+}
+
+/**
+ * Whether any of the agent's outputs waits for approval.
+ */
+export function hasApprovalOutputs(agent: AgentDefinition): boolean {
+  return Object.values(agent.outputs ?? {}).some(
+    (config) => typeof config === "object" && !!config.approval,
+  );
+}
+
+/**
+ * State key of the plan for an issue/PR.
+ */
+export function approvalStateKey(issueNumber: number): string {
+  return `approval-${issueNumber}`;
+}
+
+/**
+ * Find /approve or /deny in a comment.
+ */
+export function getApprovalCommand(body: string): ApprovalCommand | undefined {
+  const command = extractCommand(body)?.command;
+  return APPROVAL_COMMANDS.find((candidate) => candidate === command);
+}
+
+/**
+ * Build a plan for outputs that need approval. Approvers from all held outputs are
+ * combined, and the shortest expiry applies.
+ */
+export function createPendingApproval(
+  agent: AgentDefinition,
+  runId: string,
+  issueNumber: number,
+  outputs: Array<PlannedOutput & { approval: ApprovalConfig }>,
+  now = Date.now(),
+): PendingApproval {
+  const users = new Set<string>();
+  const teams = new Set<string>();
+  let expiresIn =
+    outputs.length > 0 ? Number.POSITIVE_INFINITY : parseTimeWindow(DEFAULT_APPROVAL_EXPIRY);
+
+  for (const { approval } of outputs) {
+    for (const user of approval.users ?? []) {
+      users.add(user);
+    }
+    for (const team of approval.teams ?? []) {
+      teams.add(team);
+    }
+    expiresIn = Math.min(expiresIn, parseTimeWindow(approval.expires ?? DEFAULT_APPROVAL_EXPIRY));
+  }
+
+  return {
+    schema_version: "1.0.0",
+    agent: agent.name,
+    run_id: runId,
+    issue_number: issueNumber,
+    status: "pending",
+    created_at: new Date(now).toISOString(),
+    expires_at: new Date(now + expiresIn).toISOString(),
+    approvers: { users: Array.from(users), teams: Array.from(teams) },
+    outputs: outputs.map(({ type, file, data }) => ({ type, file, data })),
+  };
+}
+
+/**
+ * Load the plan for an issue/PR, or null when there is none.
+ */
+export async function loadPendingApproval(
+  store: StateStore,
+  scope: string,
+  issueNumber: number,
+): Promise<PendingApproval | null> {
+  const pending = await store.read<PendingApproval>(scope, approvalStateKey(issueNumber));
+  if (!pending || pending.schema_version !== "1.0.0" || !Array.isArray(pending.outputs)) {
+    return null;
+  }
+  return pending;
+}
+
+export async function savePendingApproval(
+  store: StateStore,
+  scope: string,
+  pending: PendingApproval,
+): Promise<void> {
+  await store.write(scope, approvalStateKey(pending.issue_number), pending);
+}
+
+/**
+ * Check whether a user may decide a plan. Bots never can.
+ */
+export async function canApprove(
+  repository: string,
+  actor: string,
+  approvers: PendingApproval["approvers"],
+): Promise<boolean> {
+  if (actor.endsWith("[bot]")) {
+    return false;
+  }
+
+  const { owner, repo } = parseRepository(repository);
+  if (approvers.users.length === 0 && approvers.teams.length === 0) {
+    const permission = await getRepositoryPermission(owner, repo, actor);
+    return permission === "admin" || permission === "write";
+  }
+
+  if (approvers.users.includes(actor)) {
+    return true;
+  }
+  for (const team of approvers.teams) {
+    if (await isTeamMember(owner, team, actor)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Format the comment showing a plan and its status.
+ */
+export function formatApprovalComment(pending: PendingApproval): string {
+  const marker = `${APPROVAL_MARKER_PREFIX}${pending.run_id}:${pending.agent}${APPROVAL_MARKER_SUFFIX}`;
+  const headers: Record<PendingApproval["status"], string> = {
+    pending: `### ⏸️ Agent: ${pending.agent} is waiting for approval`,
+    approved: `### ✅ Agent: ${pending.agent} — approved by @${pending.decided_by}`,
+    denied: `### 🚫 Agent: ${pending.agent} — denied by @${pending.decided_by}`,
+    expired: `### ⌛ Agent: ${pending.agent} — approval expired`,
+  };
+
+  const rows = pending.outputs.map(
+    (output, index) => `| ${index + 1} | \`${output.type}\` | ${summarizeOutput(output)} |`,
+  );
+
+  const lines = [
+    marker,
+    headers[pending.status],
+    "",
+    pending.status === "pending"
+      ? "These actions run only after approval:"
+      : "Actions held for approval:",
+    "",
+    "| # | Output | Summary |",
+    "|---|--------|---------|",
+    ...rows,
+    "",
+    "<details><summary>Full plan</summary>",
+    "",
+    "```json",
+    JSON.stringify(
+      pending.outputs.map(({ type, data }) => ({ type, ...data })),
+      null,
+      2,
+    ),
+    "```",
+    "",
+    "</details>",
+    "",
+  ];
+
+  if (pending.status === "pending") {
+    const who =
+      pending.approvers.users.length > 0 || pending.approvers.teams.length > 0
+        ? [
+            ...pending.approvers.users.map((user) => `@${user}`),
+            ...pending.approvers.teams.map((team) => `members of \`${team}\``),
+          ].join(", ")
+        : "a maintainer with write access";
+    lines.push(
+      `Reply \`/approve\` to run them or \`/deny\` to discard them (${who}). The plan expires ${pending.expires_at}.`,
+    );
+  } else if (pending.errors && pending.errors.length > 0) {
+    lines.push("Some actions failed:", "", ...pending.errors.map((error) => `- ${error}`));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Create or update the comment showing a plan. Uses the progress comment when there
+ * is one, and remembers the comment on the plan.
+ */
+export async function publishApprovalComment(
+  repository: string,
+  pending: PendingApproval,
+  progressCommentId?: number,
+): Promise<void> {
+  const body = formatApprovalComment(pending);
+  const commentId = pending.comment_id ?? progressCommentId;
+
+  if (commentId) {
+    await ghApi(`repos/${repository}/issues/comments/${commentId}`, {
+      method: "PATCH",
+      body: { body },
+    });
+    pending.comment_id = commentId;
+    return;
+  }
+
+  const comment = await ghApi<{ id: number }>(
+    `repos/${repository}/issues/${pending.issue_number}/comments`,
+    { method: "POST", body: { body } },
+  );
+  pending.comment_id = comment.id;
+}
+
+function summarizeOutput(output: PlannedOutput): string {
+  const { data } = output;
+  const summary =
+    data.title ?? data.body ?? data.labels ?? data.branch ?? data.path ?? data.tag ?? output.file;
+  const text = (Array.isArray(summary) ? summary.join(", ") : String(summary))
+    .split("\n")[0]
+    .replace(/\|/g, "\\|");
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
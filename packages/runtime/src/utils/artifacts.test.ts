@@ -2,7 +2,13 @@ import { afterEach, beforeEach, describe, expect, test } from "bun:test";
 import { existsSync, mkdirSync, rmSync } from "node:fs";
 import { readFile } from "node:fs/promises";
 import { join } from "node:path";
-import { getArtifactPath, readArtifact, writeArtifact } from "./artifacts";
+import {
+  getArtifactPath,
+  getTrustedArtifacts,
+  readArtifact,
+  type WorkflowArtifact,
+  writeArtifact,
+} from "./artifacts";
 
 describe("artifacts", () => {
   const testArtifactsPath = "/tmp/artifacts-test";
@@ -226,4 +232,37 @@ describe("artifacts", () => {
       expect(updated).toBe("updated");
     });
   });
+
+  describe("getTrustedArtifacts", () => {
+    const artifact = (
+      id: number,
+      createdAt: string,
+      headRepositoryId = 1,
+      expired = false,
+    ): WorkflowArtifact => ({
+      id,
+      expired,
+      created_at: createdAt,
+      workflow_run: { id: id * 10, repository_id: 1, head_repository_id: headRepositoryId },
+    });
+
+    test("skips artifacts uploaded by runs for fork pull requests", () => {
+      const trusted = getTrustedArtifacts([
+        artifact(1, "2026-10-01T00:00:00Z"),
+        artifact(2, "2026-10-03T00:00:00Z", 99),
+        artifact(3, "2026-10-02T00:00:00Z"),
+      ]);
+
+      expect(trusted.map((a) => a.id)).toEqual([3, 1]);
+    });
+
+    test("skips expired artifacts and artifacts without a workflow run", () => {
+      expect(
+        getTrustedArtifacts([
+          artifact(1, "2026-10-01T00:00:00Z", 1, true),
+          { id: 2, expired: false, created_at: "2026-10-02T00:00:00Z" },
+        ]),
+      ).toEqual([]);
+    });
+  });
 });
@@ -1,6 +1,8 @@
 import { existsSync } from "node:fs";
 import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
 import { dirname, join } from "node:path";
+import { $ } from "bun";
 
 const ARTIFACTS_BASE_PATH = "/tmp/artifacts";
 
@@ -49,3 +51,86 @@ export async function readArtifact(name: string, path: string): Promise<string |
     return null;
   }
 }
+
+/**
+ * A workflow artifact as listed by the artifacts API.
+ */
+export interface WorkflowArtifact {
+  id: number;
+  expired: boolean;
+  created_at: string;
+  workflow_run?: {
+    id: number;
+    repository_id: number;
+    head_repository_id: number;
+    head_branch?: string;
+  };
+}
+
+/**
+ * Unexpired artifacts uploaded by runs of this repository's own code, newest first.
+ * Runs for pull requests from forks can upload artifacts under any name, so they are
+ * never trusted as state.
+ */
+export function getTrustedArtifacts(artifacts: WorkflowArtifact[]): WorkflowArtifact[] {
+  return artifacts
+    .filter(
+      (artifact) =>
+        !artifact.expired &&
+        !!artifact.workflow_run &&
+        artifact.workflow_run.head_repository_id === artifact.workflow_run.repository_id,
+    )
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * Download the newest unexpired workflow artifact with the given name into `destination`.
+ * Only artifacts from this repository's runs of the current workflow file are considered.
+ * Artifact downloads need `actions: read`, so the workflow token is preferred over an app token.
+ * Returns false when no such artifact exists.
+ */
+export async function downloadLatestArtifact(
+  repository: string,
+  artifactName: string,
+  destination: string,
+): Promise<boolean> {
+  const env = { ...process.env, GH_TOKEN: process.env.GITHUB_TOKEN || process.env.GH_TOKEN };
+  // GITHUB_WORKFLOW_REF is "owner/repo/.github/workflows/file.yml@ref"
+  const workflowPath = process.env.GITHUB_WORKFLOW_REF?.replace(`${repository}/`, "").split("@")[0];
+
+  const list =
+    await $`gh api ${`repos/${repository}/actions/artifacts?name=${artifactName}&per_page=10`}`
+      .env(env)
+      .quiet();
+  const { artifacts = [] } = JSON.parse(list.stdout.toString()) as {
+    artifacts?: WorkflowArtifact[];
+  };
+
+  let latest: WorkflowArtifact | undefined;
+  for (const artifact of getTrustedArtifacts(artifacts)) {
+    if (!workflowPath) {
+      latest = artifact;
+      break;
+    }
+    const run =
+      await $`gh api ${`repos/${repository}/actions/runs/${artifact.workflow_run?.id}`} --jq .path`
+        .env(env)
+        .quiet()
+        .nothrow();
+    if (run.exitCode === 0 && run.stdout.toString().trim() === workflowPath) {
+      latest = artifact;
+      break;
+    }
+  }
+  if (!latest) {
+    return false;
+  }
+
+  const zipPath = join(tmpdir(), `${artifactName}-${latest.id}.zip`);
+  await $`gh api ${`repos/${repository}/actions/artifacts/${latest.id}/zip`} > ${zipPath}`
+    .env(env)
+    .quiet();
+  await mkdir(destination, { recursive: true });
+  await $`unzip -o -q ${zipPath} -d ${destination}`.quiet();
+  return true;
+}
@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AgentDefinition } from "@repo-agents/types";
+import {
+  checkBudget,
+  initSpendState,
+  loadAgentSpendStates,
+  loadSpendState,
+  recordSpend,
+  type SpendRecord,
+  saveSpendRecord,
+  summarizeSpend,
+} from "./budget";
+import { LocalStateStore } from "./state";
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = Date.parse("2025-06-15T12:00:00Z");
+
+const spend = (agent: string, hoursAgo: number, cost: number): SpendRecord => ({
+  agent,
+  run_id: `${agent}-${hoursAgo}`,
+  timestamp: new Date(now - hoursAgo * HOUR_MS).toISOString(),
+  cost_usd: cost,
+});
+
+const agent: AgentDefinition = {
+  name: "Triage",
+  on: { issues: { types: ["opened"] } },
+  markdown: "Instructions",
+};
+
+describe("budget", () => {
+  describe("summarizeSpend", () => {
+    it("should sum the last day and the last 30 days", () => {
+      const records = [
+        spend("a", 1, 1.5),
+        spend("a", 23, 0.5),
+        spend("a", 48, 2),
+        spend("a", 800, 9),
+      ];
+
+      expect(summarizeSpend(records, now)).toEqual({ daily: 2, monthly: 4 });
+    });
+  });
+
+  describe("recordSpend", () => {
+    it("should append the run and drop records outside the retention window", () => {
+      const state = { ...initSpendState(), records: [spend("a", 24 * 40, 1), spend("a", 2, 1)] };
+
+      const updated = recordSpend(state, spend("a", 0, 0.25), now);
+
+      expect(updated.records.map((r) => r.run_id)).toEqual(["a-2", "a-0"]);
+    });
+  });
+
+  describe("checkBudget", () => {
+    it("should allow runs without caps", () => {
+      expect(checkBudget(agent, {}, [spend("Triage", 1, 100)], [], now)).toEqual({
+        allowed: true,
+      });
+    });
+
+    it("should stop an agent that reached its own cap", () => {
+      const result = checkBudget(
+        { ...agent, budget: { daily: 2, monthly: 50 } },
+        {},
+        [spend("Triage", 1, 1.5), spend("Triage", 3, 0.75)],
+        [],
+        now,
+      );
+
+      expect(result).toEqual({
+        allowed: false,
+        reason: "Agent daily budget exhausted: spent $2.25 of $2.00",
+      });
+    });
+
+    it("should stop every agent once the repository cap is reached", () => {
+      const repositoryRecords = [spend("Triage", 100, 3), spend("Docs", 200, 8)];
+
+      const result = checkBudget(
+        agent,
+        { budget: { monthly: 10 } },
+        [spend("Triage", 100, 3)],
+        repositoryRecords,
+        now,
+      );
+
+      expect(result).toEqual({
+        allowed: false,
+        reason: "Repository monthly budget exhausted: spent $11.00 of $10.00",
+      });
+    });
+  });
+
+  describe("loadSpendState", () => {
+    let directory: string;
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    const createStore = async () => {
+      directory = await mkdtemp(join(tmpdir(), "budget-test-"));
+      return new LocalStateStore(directory);
+    };
+
+    it("should read back saved records", async () => {
+      const store = await createStore();
+      await saveSpendRecord(store, spend("Triage", 0, 0.5), now);
+      const state = await saveSpendRecord(store, spend("Triage", 1, 0.25), now);
+
+      expect(state.records.map((record) => record.cost_usd)).toEqual([0.5, 0.25]);
+      expect(await loadSpendState(store, "Triage")).toEqual(state);
+    });
+
+    it("should start empty without a stored state", async () => {
+      const store = await createStore();
+
+      expect(await loadSpendState(store, "Triage")).toEqual(initSpendState());
+    });
+
+    it("should load the states of several agents", async () => {
+      const store = await createStore();
+      const state = await saveSpendRecord(store, spend("Triage", 0, 0.5), now);
+
+      const states = await loadAgentSpendStates(store, ["Triage", "Review"]);
+
+      expect(states.get("Triage")).toEqual(state);
+      expect(states.get("Review")).toEqual(initSpendState());
+    });
+  });
+});
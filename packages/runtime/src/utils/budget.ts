@@ -0,0 +1,173 @@
+import type { AgentDefinition, RepositoryConfig } from "@repo-agents/types";
+import { agentStateScope, STATE_KEYS, type StateStore } from "./state";
+
+/**
+ * Cost of one agent run
+ */
+export interface SpendRecord {
+  agent: string;
+  run_id: string;
+  timestamp: string;
+  cost_usd: number;
+}
+
+/**
+ * Spend history of one agent, persisted between runs
+ */
+export interface SpendState {
+  schema_version: "1.0.0";
+  records: SpendRecord[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Monthly caps look back 30 days; keep a little more so the window is always covered */
+const MONTH_MS = 30 * DAY_MS;
+const SPEND_RETENTION_MS = 31 * DAY_MS;
+
+/**
+ * Initialize an empty spend state
+ */
+export function initSpendState(): SpendState {
+  return { schema_version: "1.0.0", records: [] };
+}
+
+/**
+ * Load an agent's spend state from the state store. Falls back to an empty state.
+ */
+export async function loadSpendState(store: StateStore, agentName: string): Promise<SpendState> {
+  return toSpendState(await store.read<SpendState>(agentStateScope(agentName), STATE_KEYS.spend));
+}
+
+/**
+ * Load the spend states of several agents at once, keyed by agent name.
+ * Agents without a stored state get an empty one.
+ */
+export async function loadAgentSpendStates(
+  store: StateStore,
+  agentNames: string[],
+): Promise<Map<string, SpendState>> {
+  const states = await Promise.all(
+    agentNames.map((agentName) =>
+      loadSpendState(store, agentName).catch((error: Error) => {
+        console.warn(`Failed to load spend state for ${agentName}: ${error.message}`);
+        return initSpendState();
+      }),
+    ),
+  );
+  return new Map(agentNames.map((agentName, index) => [agentName, states[index]]));
+}
+
+/**
+ * Add a run's cost to an agent's spend state in the state store.
+ */
+export async function saveSpendRecord(
+  store: StateStore,
+  record: SpendRecord,
+  now: number = Date.now(),
+): Promise<SpendState> {
+  return store.update<SpendState>(agentStateScope(record.agent), STATE_KEYS.spend, (current) =>
+    recordSpend(toSpendState(current), record, now),
+  );
+}
+
+function toSpendState(state: SpendState | null): SpendState {
+  if (!state) {
+    return initSpendState();
+  }
+  if (state.schema_version !== "1.0.0" || !Array.isArray(state.records)) {
+    console.warn("Ignoring spend state with unknown schema");
+    return initSpendState();
+  }
+  return state;
+}
+
+/**
+ * Add a run to the spend state and drop records older than the monthly window.
+ */
+export function recordSpend(
+  state: SpendState,
+  record: SpendRecord,
+  now: number = Date.now(),
+): SpendState {
+  return {
+    ...state,
+    records: [
+      ...state.records.filter((r) => now - new Date(r.timestamp).getTime() <= SPEND_RETENTION_MS),
+      record,
+    ],
+  };
+}
+
+/**
+ * Sum spend over the last day and the last 30 days.
+ */
+export function summarizeSpend(
+  records: SpendRecord[],
+  now: number = Date.now(),
+): { daily: number; monthly: number } {
+  let daily = 0;
+  let monthly = 0;
+
+  for (const record of records) {
+    const age = now - new Date(record.timestamp).getTime();
+    if (age <= MONTH_MS) {
+      monthly += record.cost_usd;
+    }
+    if (age <= DAY_MS) {
+      daily += record.cost_usd;
+    }
+  }
+
+  return { daily, monthly };
+}
+
+/**
+ * Check an agent's accumulated spend against its own caps and the repository-wide caps.
+ *
+ * @param agentRecords - The agent's own spend records
+ * @param repositoryRecords - Spend records of every agent in the repository
+ */
+export function checkBudget(
+  agent: AgentDefinition,
+  repositoryConfig: RepositoryConfig,
+  agentRecords: SpendRecord[],
+  repositoryRecords: SpendRecord[],
+  now: number = Date.now(),
+): { allowed: boolean; reason?: string } {
+  const caps: Array<{ scope: string; period: "daily" | "monthly"; limit?: number; spent: number }> =
+    [];
+
+  const agentSpend = summarizeSpend(agentRecords, now);
+  caps.push(
+    { scope: "Agent", period: "daily", limit: agent.budget?.daily, spent: agentSpend.daily },
+    { scope: "Agent", period: "monthly", limit: agent.budget?.monthly, spent: agentSpend.monthly },
+  );
+
+  const repositorySpend = summarizeSpend(repositoryRecords, now);
+  caps.push(
+    {
+      scope: "Repository",
+      period: "daily",
+      limit: repositoryConfig.budget?.daily,
+      spent: repositorySpend.daily,
+    },
+    {
+      scope: "Repository",
+      period: "monthly",
+      limit: repositoryConfig.budget?.monthly,
+      spent: repositorySpend.monthly,
+    },
+  );
+
+  for (const { scope, period, limit, spent } of caps) {
+    if (limit !== undefined && spent >= limit) {
+      return {
+        allowed: false,
+        reason: `${scope} ${period} budget exhausted: spent $${spent.toFixed(2)} of $${limit.toFixed(2)}`,
+      };
+    }
+  }
+
+  return { allowed: true };
+}
@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { existsSync } from "node:fs";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+import { $ } from "bun";
+import { applyChanges, getPatchPaths, getTouchedPaths, resolvePrBranch } from "./changes";
+
+const patch = `diff --git a/src/index.ts b/src/index.ts
+index 1111111..2222222 100644
+--- a/src/index.ts
++++ b/src/index.ts
+@@ -1,2 +1,2 @@
+-export const greeting = "hello";
++export const greeting = "hi";
+ export const name = "world";`;
+
+describe("changes", () => {
+  describe("getPatchPaths", () => {
+    it("should list the files a diff modifies, creates and renames", () => {
+      const renameAndCreate = `diff --git a/old.md b/docs/new.md
+similarity index 100%
+rename from old.md
+rename to docs/new.md
+diff --git a/added.ts b/added.ts
+new file mode 100644
+--- /dev/null
++++ b/added.ts
+@@ -0,0 +1 @@
++export {};`;
+
+      expect(getPatchPaths(patch)).toEqual(["src/index.ts"]);
+      expect(getPatchPaths(renameAndCreate)).toEqual(["old.md", "docs/new.md", "added.ts"]);
+    });
+
+    it("should read diffs without git headers", () => {
+      expect(getPatchPaths("--- a/a.txt\t2024-01-01\n+++ b/a.txt\n@@ -1 +1 @@\n-a\n+b")).toEqual([
+        "a.txt",
+      ]);
+    });
+  });
+
+  describe("getTouchedPaths", () => {
+    it("should collect paths from every change and commit", () => {
+      expect(
+        getTouchedPaths({
+          files: [{ path: "README.md", content: "" }],
+          commits: [
+            { message: "Move", rename: [{ from: "a.ts", to: "lib/a.ts" }] },
+            { message: "Clean up", delete: ["b.ts"], patch },
+          ],
+        }),
+      ).toEqual(["README.md", "a.ts", "lib/a.ts", "b.ts", "src/index.ts"]);
+    });
+
+    it("should normalise paths that step out of a directory", () => {
+      expect(
+        getTouchedPaths({
+          delete: ["src/../.github/workflows/ci.yml"],
+          files: [{ path: "src/./../../x", content: "" }],
+        }),
+      ).toEqual([".github/workflows/ci.yml", "../x"]);
+    });
+  });
+
+  describe("resolvePrBranch", () => {
+    const lookup = (prs: Record<string, string>, branches: string[]) => ({
+      getPrState: async (branch: string) => prs[branch],
+      branchExists: async (branch: string) => branches.includes(branch),
+    });
+
+    it("should continue a branch with an open PR", async () => {
+      expect(
+        await resolvePrBranch("fix/typo", lookup({ "fix/typo": "OPEN" }, ["fix/typo"])),
+      ).toEqual({ branch: "fix/typo", hasOpenPr: true });
+    });
+
+    it("should start a new branch when the branch's PR was closed or merged", async () => {
+      expect(
+        await resolvePrBranch("fix/typo", lookup({ "fix/typo": "CLOSED" }, ["fix/typo"])),
+      ).toEqual({ branch: "fix/typo-2", hasOpenPr: false });
+      expect(
+        await resolvePrBranch(
+          "fix/typo",
+          lookup({ "fix/typo": "MERGED", "fix/typo-2": "OPEN" }, ["fix/typo", "fix/typo-2"]),
+        ),
+      ).toEqual({ branch: "fix/typo-2", hasOpenPr: true });
+    });
+
+    it("should use the branch as is when it does not exist yet", async () => {
+      expect(await resolvePrBranch("fix/typo", lookup({}, []))).toEqual({
+        branch: "fix/typo",
+        hasOpenPr: false,
+      });
+    });
+  });
+
+  describe("applyChanges", () => {
+    let repo: string;
+
+    const git = (args: string[]) => $`git ${args}`.cwd(repo).quiet();
+
+    beforeEach(async () => {
+      repo = await mkdtemp(join(tmpdir(), "changes-test-"));
+      await git(["init", "-q"]);
+      await $`mkdir -p ${join(repo, "src")}`;
+      await writeFile(
+        join(repo, "src/index.ts"),
+        'export const greeting = "hello";\nexport const name = "world";\n',
+      );
+      await writeFile(join(repo, "old.md"), "# Old\n");
+      await writeFile(join(repo, "unused.ts"), "export {};\n");
+      await git(["add", "-A"]);
+      await git([
+        "-c",
+        "user.name=test",
+        "-c",
+        "user.email=test@example.com",
+        "commit",
+        "-qm",
+        "init",
+      ]);
+    });
+
+    afterEach(async () => {
+      await rm(repo, { recursive: true, force: true });
+    });
+
+    it("should rename, delete, patch and write files, staging each change", async () => {
+      await applyChanges(
+        {
+          rename: [{ from: "old.md", to: "docs/new.md" }],
+          delete: ["unused.ts"],
+          patch,
+          files: [{ path: "src/added.ts", content: "export {};\n" }],
+        },
+        repo,
+      );
+
+      expect(existsSync(join(repo, "old.md"))).toBe(false);
+      expect(await readFile(join(repo, "docs/new.md"), "utf-8")).toBe("# Old\n");
+      expect(existsSync(join(repo, "unused.ts"))).toBe(false);
+      expect(await readFile(join(repo, "src/index.ts"), "utf-8")).toContain('"hi"');
+
+      const staged = (await git(["diff", "--cached", "--name-status", "--no-renames"]).text())
+        .trim()
+        .split("\n");
+      expect(staged.sort()).toEqual(
+        [
+          "A\tdocs/new.md",
+          "D\told.md",
+          "A\tsrc/added.ts",
+          "M\tsrc/index.ts",
+          "D\tunused.ts",
+        ].sort(),
+      );
+    });
+
+    it("should refuse to delete or rename a path outside the repository", async () => {
+      const outside = join(repo, "..", `${basename(repo)}-outside.md`);
+      await writeFile(outside, "# Outside\n");
+      try {
+        const traversal = `src/../../${basename(outside)}`;
+
+        await expect(applyChanges({ delete: [traversal] }, repo)).rejects.toThrow(
+          `Path '${traversal}' is outside the repository`,
+        );
+        await expect(
+          applyChanges({ rename: [{ from: traversal, to: "inside.md" }] }, repo),
+        ).rejects.toThrow("is outside the repository");
+        expect(existsSync(outside)).toBe(true);
+      } finally {
+        await rm(outside, { force: true });
+      }
+    });
+
+    it("should refuse to write a file outside the repository", async () => {
+      const traversal = `src/../../${basename(repo)}-written.md`;
+
+      await expect(
+        applyChanges({ files: [{ path: traversal, content: "x" }] }, repo),
+      ).rejects.toThrow("is outside the repository");
+      expect(existsSync(join(repo, "..", `${basename(repo)}-written.md`))).toBe(false);
+    });
+
+    it("should apply changes to the normalised path", async () => {
+      await applyChanges({ delete: ["src/../unused.ts"] }, repo);
+
+      expect(existsSync(join(repo, "unused.ts"))).toBe(false);
+    });
+
+    it("should throw when the patch does not apply", async () => {
+      await writeFile(join(repo, "src/index.ts"), "export const greeting = 1;\n");
+      await git(["add", "-A"]);
+
+      await expect(applyChanges({ patch }, repo)).rejects.toThrow();
+    });
+  });
+});
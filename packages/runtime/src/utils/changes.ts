@@ -0,0 +1,168 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join, posix } from "node:path";
+import { $ } from "bun";
+
+/**
+ * Changes one commit of a create-pr output makes, applied in this order:
+ * renames, deletes, the patch, then full file contents.
+ */
+export interface PrChanges {
+  rename?: Array<{ from: string; to: string }>;
+  delete?: string[];
+  patch?: string;
+  files?: Array<{ path: string; content: string }>;
+}
+
+export interface PrCommit extends PrChanges {
+  message: string;
+}
+
+/**
+ * Lookups on the remote that decide which branch a create-pr output pushes to.
+ */
+export interface PrBranchLookup {
+  /** State of the newest PR with this head branch (OPEN, CLOSED or MERGED), if any */
+  getPrState(branch: string): Promise<string | undefined>;
+  branchExists(branch: string): Promise<boolean>;
+}
+
+/**
+ * Pick the branch for a create-pr output. A branch with an open PR is continued.
+ * A branch left behind by a closed or merged PR is never reused, since new commits
+ * would stack on its stale base; the first free `<branch>-<n>` is started instead.
+ */
+export async function resolvePrBranch(
+  branch: string,
+  lookup: PrBranchLookup,
+): Promise<{ branch: string; hasOpenPr: boolean }> {
+  for (let attempt = 1; ; attempt++) {
+    const candidate = attempt === 1 ? branch : `${branch}-${attempt}`;
+    if ((await lookup.getPrState(candidate)) === "OPEN") {
+      return { branch: candidate, hasOpenPr: true };
+    }
+    if (!(await lookup.branchExists(candidate))) {
+      return { branch: candidate, hasOpenPr: false };
+    }
+  }
+}
+
+/**
+ * Paths a unified diff touches, from its `diff --git`, `---`/`+++` and rename headers.
+ */
+export function getPatchPaths(patch: string): string[] {
+  const paths = new Set<string>();
+
+  for (const line of patch.split("\n")) {
+    const gitHeader = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+    if (gitHeader) {
+      paths.add(gitHeader[1]);
+      paths.add(gitHeader[2]);
+      continue;
+    }
+    const fileHeader = line.match(/^(?:---|\+\+\+) (.+?)(?:\t.*)?$/);
+    if (fileHeader && fileHeader[1] !== "/dev/null") {
+      paths.add(fileHeader[1].replace(/^[ab]\//, ""));
+      continue;
+    }
+    const renameHeader = line.match(/^(?:rename|copy) (?:from|to) (.+)$/);
+    if (renameHeader) {
+      paths.add(renameHeader[1]);
+    }
+  }
+
+  return [...paths];
+}
+
+/**
+ * Every path the changes create, modify, delete or move, in all of their commits,
+ * normalised (`src/../x` becomes `x`) so that it can be matched against allowed paths.
+ */
+export function getTouchedPaths(changes: PrChanges & { commits?: PrCommit[] }): string[] {
+  const paths = new Set<string>();
+
+  for (const set of [changes, ...(changes.commits ?? [])]) {
+    for (const { from, to } of set.rename ?? []) {
+      paths.add(posix.normalize(from));
+      paths.add(posix.normalize(to));
+    }
+    for (const path of set.delete ?? []) {
+      paths.add(posix.normalize(path));
+    }
+    for (const path of set.patch ? getPatchPaths(set.patch) : []) {
+      paths.add(posix.normalize(path));
+    }
+    for (const { path } of set.files ?? []) {
+      paths.add(posix.normalize(path));
+    }
+  }
+
+  return [...paths];
+}
+
+/**
+ * Whether a normalised path is absolute or leaves the repository.
+ */
+export function isOutsideRepository(path: string): boolean {
+  return posix.isAbsolute(path) || path === ".." || path.startsWith("../");
+}
+
+/**
+ * Normalise a path the changes touch.
+ * @throws Error if the path is absolute or leaves the repository
+ */
+function toRepositoryPath(path: string): string {
+  const normalized = posix.normalize(path);
+  if (isOutsideRepository(normalized)) {
+    throw new Error(`Path '${path}' is outside the repository`);
+  }
+  return normalized;
+}
+
+/**
+ * Apply changes to the working tree of `cwd` and stage them.
+ * @throws Error if a path is outside the repository, a file to move or delete is missing,
+ * or the patch does not apply
+ */
+export async function applyChanges(changes: PrChanges, cwd = process.cwd()): Promise<void> {
+  const renames = (changes.rename ?? []).map(({ from, to }) => ({
+    from: toRepositoryPath(from),
+    to: toRepositoryPath(to),
+  }));
+  const deletes = (changes.delete ?? []).map(toRepositoryPath);
+  const files = (changes.files ?? []).map(({ path, content }) => ({
+    path: toRepositoryPath(path),
+    content,
+  }));
+
+  for (const { from, to } of renames) {
+    await mkdir(dirname(join(cwd, to)), { recursive: true });
+    await $`git mv ${from} ${to}`.cwd(cwd);
+  }
+
+  for (const path of deletes) {
+    await $`git rm -q ${path}`.cwd(cwd);
+  }
+
+  if (changes.patch) {
+    const dir = await mkdtemp(join(tmpdir(), "create-pr-"));
+    try {
+      const patchFile = join(dir, "changes.patch");
+      // git apply rejects a patch whose last line is not terminated
+      await writeFile(
+        patchFile,
+        changes.patch.endsWith("\n") ? changes.patch : `${changes.patch}\n`,
+        "utf-8",
+      );
+      await $`git apply --index --whitespace=nowarn ${patchFile}`.cwd(cwd);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  for (const { path, content } of files) {
+    await mkdir(dirname(join(cwd, path)), { recursive: true });
+    await writeFile(join(cwd, path), content, "utf-8");
+    await $`git add ${path}`.cwd(cwd);
+  }
+}
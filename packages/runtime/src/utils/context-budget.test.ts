@@ -0,0 +1,69 @@
+import { describe, expect, it } from "bun:test";
+import { applyContextBudget, type ContextSection } from "./context-budget";
+
+function section(source: ContextSection["source"], title: string, items: string[]): ContextSection {
+  return {
+    source,
+    markdown: [
+      `## ${title}`,
+      "",
+      ...items.map((item) => `### ${item}\n\n${"x".repeat(200)}\n`),
+    ].join("\n"),
+  };
+}
+
+describe("applyContextBudget", () => {
+  const issues = section("issues", "Issues", ["[#1] Crash on start", "[#2] Typo in docs"]);
+  const commits = section("commits", "Commits", ["abc123 Fix crash", "def456 Bump deps"]);
+
+  it("should keep everything that fits", () => {
+    const { markdown, report } = applyContextBudget([issues, commits], { characters: 10_000 });
+
+    expect(markdown).toBe(`${issues.markdown}\n${commits.markdown}`);
+    expect(report).toMatchObject({ truncated_items: 0, summarized: [], dropped: [], cut: false });
+  });
+
+  it("should convert tokens to characters", () => {
+    const { report } = applyContextBudget([issues], { tokens: 1000 });
+
+    expect(report.limit_characters).toBe(4000);
+  });
+
+  it("should truncate long items", () => {
+    const { markdown, report } = applyContextBudget([issues], {
+      characters: 10_000,
+      item_characters: 50,
+    });
+
+    expect(report.truncated_items).toBe(2);
+    expect(markdown).toContain("### [#2] Typo in docs");
+    expect(markdown).toContain("*[Truncated");
+    expect(markdown).not.toContain("x".repeat(60));
+  });
+
+  it("should summarize low priority sections first", () => {
+    const { markdown, report } = applyContextBudget([issues, commits], {
+      characters: 600,
+      priorities: { commits: "low" },
+    });
+
+    expect(report.summarized).toEqual(["commits"]);
+    expect(report.dropped).toEqual([]);
+    expect(markdown).toContain(issues.markdown);
+    expect(markdown).toContain("- abc123 Fix crash");
+    expect(report.final_characters).toBe(markdown.length);
+  });
+
+  it("should drop sections when summaries do not fit, but never high priority ones", () => {
+    const { markdown, report } = applyContextBudget([issues, commits], {
+      characters: 300,
+      priorities: { issues: "high" },
+    });
+
+    expect(report.dropped).toEqual(["commits"]);
+    expect(report.summarized).toEqual([]);
+    expect(report.cut).toBe(true);
+    expect(markdown).toContain("## Issues");
+    expect(markdown).toContain("Left out to fit the context budget: commits");
+  });
+});
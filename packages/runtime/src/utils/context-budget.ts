@@ -0,0 +1,147 @@
+import type {
+  AuditContextBudget,
+  ContextBudgetConfig,
+  ContextPriority,
+  ContextSource,
+} from "@repo-agents/types";
+
+/** Rough characters-per-token ratio used to turn a token budget into characters */
+export const CHARACTERS_PER_TOKEN = 4;
+
+/** Markdown section collected from one context source */
+export interface ContextSection {
+  source: ContextSource;
+  markdown: string;
+}
+
+export interface BudgetedContext {
+  markdown: string;
+  report: AuditContextBudget;
+}
+
+/** Order in which sections give up space, least important first */
+const REDUCTION_ORDER: ContextPriority[] = ["low", "medium"];
+
+/**
+ * Fit the collected sections into the budget:
+ * 1. every item longer than `item_characters` is truncated
+ * 2. low, then medium priority sections are reduced to a list of their items
+ * 3. low, then medium priority sections are dropped
+ * 4. what is left is cut at the limit
+ * High priority sections are only ever cut in the last step. Within a priority, the
+ * sections collected last give up space first.
+ */
+export function applyContextBudget(
+  sections: ContextSection[],
+  budget: ContextBudgetConfig,
+): BudgetedContext {
+  const limit = budget.characters ?? (budget.tokens ?? 0) * CHARACTERS_PER_TOKEN;
+  const priorities = budget.priorities ?? {};
+  const report: AuditContextBudget = {
+    limit_characters: limit,
+    collected_characters: joinSections(sections).length,
+    final_characters: 0,
+    truncated_items: 0,
+    summarized: [],
+    dropped: [],
+    cut: false,
+  };
+
+  let kept = sections.map((section) => {
+    if (!budget.item_characters) {
+      return section;
+    }
+    const { markdown, truncated } = truncateItems(section.markdown, budget.item_characters);
+    report.truncated_items += truncated;
+    return { ...section, markdown };
+  });
+
+  const reducible = (priority: ContextPriority) =>
+    kept.filter((section) => (priorities[section.source] ?? "medium") === priority).reverse();
+
+  for (const priority of REDUCTION_ORDER) {
+    for (const section of reducible(priority)) {
+      if (joinSections(kept).length <= limit) {
+        break;
+      }
+      const summary = summarizeSection(section.markdown);
+      if (summary.length < section.markdown.length) {
+        kept = kept.map((s) => (s === section ? { ...s, markdown: summary } : s));
+        report.summarized.push(section.source);
+      }
+    }
+  }
+
+  for (const priority of REDUCTION_ORDER) {
+    for (const section of reducible(priority)) {
+      if (joinSections(kept).length <= limit) {
+        break;
+      }
+      kept = kept.filter((s) => s.source !== section.source);
+      report.summarized = report.summarized.filter((source) => source !== section.source);
+      report.dropped.push(section.source);
+    }
+  }
+
+  let markdown = joinSections(kept);
+  if (markdown.length > limit) {
+    markdown = `${markdown.slice(0, limit)}\n\n*[Context cut to fit the budget of ${limit} characters]*\n`;
+    report.cut = true;
+  }
+  if (report.dropped.length > 0) {
+    markdown += `\n*Left out to fit the context budget: ${report.dropped.join(", ")}*\n`;
+  }
+
+  report.final_characters = markdown.length;
+  return { markdown, report };
+}
+
+/**
+ * Split a section into its header and its items. Items start with a `### ` heading.
+ */
+function splitItems(markdown: string): { header: string; items: string[] } {
+  const [header, ...items] = markdown.split(/\n(?=### )/);
+  return { header, items };
+}
+
+/**
+ * Truncate each item of a section to the given number of characters.
+ */
+function truncateItems(
+  markdown: string,
+  maxCharacters: number,
+): { markdown: string; truncated: number } {
+  const { header, items } = splitItems(markdown);
+  let truncated = 0;
+  const kept = items.map((item) => {
+    if (item.length <= maxCharacters) {
+      return item;
+    }
+    truncated++;
+    return `${item.slice(0, maxCharacters)}\n\n*[Truncated ${item.length - maxCharacters} characters]*\n\n---\n`;
+  });
+  return { markdown: [header, ...kept].join("\n"), truncated };
+}
+
+/**
+ * Reduce a section to its heading and the headings of its items.
+ */
+function summarizeSection(markdown: string): string {
+  const { header, items } = splitItems(markdown);
+  const heading = header.split("\n")[0];
+  if (items.length === 0) {
+    return `${heading}\n\n*Summarized to fit the context budget*\n`;
+  }
+  return [
+    heading,
+    "",
+    `*Summarized to fit the context budget: ${items.length} item(s), details left out*`,
+    "",
+    ...items.map((item) => `- ${item.split("\n")[0].replace(/^### /, "")}`),
+    "",
+  ].join("\n");
+}
+
+function joinSections(sections: ContextSection[]): string {
+  return sections.map((section) => section.markdown).join("\n");
+}
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { chmod, mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { CustomOutputConfig } from "@repo-agents/types";
+import { executeCustomOutput, resolveHeaders } from "./custom-outputs";
+
+const output: CustomOutputConfig = {
+  description: "Post a short message to the team channel",
+  schema: { type: "object", required: ["text"], properties: { text: { type: "string" } } },
+};
+
+describe("executeCustomOutput", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "custom-outputs-test-"));
+    await mkdir(join(dir, "scripts"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function writeScript(name: string, body: string): Promise<void> {
+    const path = join(dir, "scripts", name);
+    await writeFile(path, `#!/bin/sh\n${body}\n`);
+    await chmod(path, 0o755);
+  }
+
+  it("should pipe the output file to the script", async () => {
+    await writeScript(
+      "notify.sh",
+      'cat > received.json\necho "$OUTPUT_TYPE #$ISSUE_NUMBER" > env.txt',
+    );
+
+    await executeCustomOutput(
+      "notify-team",
+      { ...output, run: "scripts/notify.sh" },
+      { text: "Release is out" },
+      "owner/repo",
+      { issueNumber: "42" },
+      dir,
+    );
+
+    expect(JSON.parse(await readFile(join(dir, "received.json"), "utf-8"))).toEqual({
+      text: "Release is out",
+    });
+    expect((await readFile(join(dir, "env.txt"), "utf-8")).trim()).toBe("notify-team #42");
+  });
+
+  it("should fail when the script fails or is missing", async () => {
+    await writeScript("broken.sh", "echo 'channel not found' >&2\nexit 3");
+
+    await expect(
+      executeCustomOutput(
+        "notify-team",
+        { ...output, run: "scripts/broken.sh" },
+        {},
+        "o/r",
+        {},
+        dir,
+      ),
+    ).rejects.toThrow("scripts/broken.sh exited with code 3: channel not found");
+    await expect(
+      executeCustomOutput("notify-team", { ...output, run: "scripts/none.sh" }, {}, "o/r", {}, dir),
+    ).rejects.toThrow("Script scripts/none.sh not found");
+  });
+
+  it("should send the output file to the http endpoint", async () => {
+    const received: Array<{ method: string; auth: string | null; body: unknown }> = [];
+    const server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        received.push({
+          method: request.method,
+          auth: request.headers.get("x-team"),
+          body: await request.json(),
+        });
+        return new Response(null, { status: request.method === "PUT" ? 500 : 204 });
+      },
+    });
+
+    process.env.TEAM = "core";
+    try {
+      const url = `http://localhost:${server.port}/notify`;
+      await executeCustomOutput(
+        "notify-team",
+        { ...output, http: { url, headers: { "X-Team": "${{ env.TEAM }}" } } },
+        { text: "hi" },
+        "owner/repo",
+        {},
+      );
+      await expect(
+        executeCustomOutput(
+          "notify-team",
+          { ...output, http: { url, method: "PUT" } },
+          { text: "hi" },
+          "owner/repo",
+          {},
+        ),
+      ).rejects.toThrow("responded with 500");
+
+      expect(received[0]).toEqual({ method: "POST", auth: "core", body: { text: "hi" } });
+    } finally {
+      delete process.env.TEAM;
+      server.stop(true);
+    }
+  });
+});
+
+describe("resolveHeaders", () => {
+  it("should substitute secret and env references from the environment", () => {
+    expect(
+      resolveHeaders(
+        {
+          Authorization: "Bearer ${{ secrets.NOTIFY_TOKEN }}",
+          "X-Team": "${{env.TEAM}}",
+          Accept: "text/plain",
+        },
+        { NOTIFY_TOKEN: "s3cret", TEAM: "core" },
+      ),
+    ).toEqual({ Authorization: "Bearer s3cret", "X-Team": "core", Accept: "text/plain" });
+  });
+
+  it("should fail when a referenced variable is not set", () => {
+    expect(() =>
+      resolveHeaders({ Authorization: "Bearer ${{ secrets.NOTIFY_TOKEN }}" }, {}),
+    ).toThrow("Header Authorization references secrets.NOTIFY_TOKEN, which is not set");
+  });
+});
@@ -0,0 +1,117 @@
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import type { CustomOutputConfig } from "@repo-agents/types";
+import { ghApi } from "./github";
+
+/** Issue/PR a custom output refers to, passed on to its executor */
+export interface CustomOutputTarget {
+  issueNumber?: string;
+  prNumber?: string;
+}
+
+/**
+ * Execute a custom output with the executor it declares:
+ * - run: the script gets the output file on stdin, plus OUTPUT_TYPE, ISSUE_NUMBER and PR_NUMBER
+ * - dispatch: a repository_dispatch event with `{ output, data, issue_number, pr_number }`
+ * - http: the output file as a JSON request body
+ * @throws Error if the executor fails
+ */
+export async function executeCustomOutput(
+  outputType: string,
+  config: CustomOutputConfig,
+  data: Record<string, unknown>,
+  repository: string,
+  target: CustomOutputTarget,
+  workspace = process.cwd(),
+): Promise<void> {
+  const payload = JSON.stringify(data);
+
+  if (config.run) {
+    const script = join(workspace, config.run);
+    if (!existsSync(script)) {
+      throw new Error(`Script ${config.run} not found`);
+    }
+    // Spawned directly: a shell stdin redirect can hang when the script exits without reading it
+    const proc = Bun.spawn([script], {
+      cwd: workspace,
+      stdin: new Response(payload),
+      stdout: "pipe",
+      stderr: "pipe",
+      env: {
+        ...process.env,
+        OUTPUT_TYPE: outputType,
+        ISSUE_NUMBER: target.issueNumber ?? "",
+        PR_NUMBER: target.prNumber ?? "",
+      },
+    });
+    const [stdout, stderr, exitCode] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+      proc.exited,
+    ]);
+    if (stdout.trim()) {
+      console.log(stdout.trim());
+    }
+    if (exitCode !== 0) {
+      throw new Error(
+        `${config.run} exited with code ${exitCode}${stderr.trim() ? `: ${stderr.trim()}` : ""}`,
+      );
+    }
+    return;
+  }
+
+  if (config.dispatch) {
+    await ghApi(`repos/${repository}/dispatches`, {
+      method: "POST",
+      body: {
+        event_type: config.dispatch,
+        client_payload: {
+          output: outputType,
+          data,
+          issue_number: target.issueNumber ? Number(target.issueNumber) : undefined,
+          pr_number: target.prNumber ? Number(target.prNumber) : undefined,
+        },
+      },
+    });
+    return;
+  }
+
+  if (config.http) {
+    const response = await fetch(config.http.url, {
+      method: config.http.method ?? "POST",
+      headers: { "Content-Type": "application/json", ...resolveHeaders(config.http.headers) },
+      body: payload,
+    });
+    if (!response.ok) {
+      throw new Error(
+        `${config.http.url} responded with ${response.status} ${response.statusText}`,
+      );
+    }
+    return;
+  }
+
+  throw new Error(`Custom output ${outputType} has no executor`);
+}
+
+/**
+ * Substitute `${{ secrets.NAME }}` and `${{ env.NAME }}` in header values from the job
+ * environment. The generator maps each referenced secret into it under its own name.
+ * @throws Error if a referenced variable is not set
+ */
+export function resolveHeaders(
+  headers: Record<string, string> = {},
+  env: Record<string, string | undefined> = process.env,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      value.replace(/\$\{\{\s*(secrets|env)\.(\w+)\s*\}\}/g, (_, source, variable) => {
+        const resolved = env[variable];
+        if (resolved === undefined) {
+          throw new Error(`Header ${name} references ${source}.${variable}, which is not set`);
+        }
+        return resolved;
+      }),
+    ]),
+  );
+}
@@ -1,12 +1,19 @@
-import { describe, expect, test } from "bun:test";
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import type {
   ApiDocumentationConfig,
   ChangelogConfig,
   DocumentationConfig,
   DriftDetectionConfig,
 } from "@repo-agents/types";
+import { $ } from "bun";
 import {
   type ChangelogEntry,
+  categorizeChange,
+  detectDrift,
+  formatDriftReports,
   formatKeepAChangelog,
   generateApiDocExtractionScript,
   generateChangelogScript,
@@ -349,3 +356,86 @@ describe("generateDocumentationContext", () => {
     expect(context).not.toContain("## API Documentation Config");
   });
 });
+
+describe("detectDrift", () => {
+  let repoDir: string;
+
+  /** Commit a file with a commit date `daysAgo` days in the past */
+  const commitFile = async (file: string, daysAgo: number) => {
+    await mkdir(join(repoDir, file, ".."), { recursive: true });
+    await writeFile(join(repoDir, file), `${file} ${daysAgo}`);
+    const date = new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString();
+    await $`git add ${file} && git -c user.name=test -c user.email=test@example.com commit -q -m ${file}`
+      .cwd(repoDir)
+      .env({ ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date })
+      .quiet();
+  };
+
+  beforeAll(async () => {
+    repoDir = await mkdtemp(join(tmpdir(), "drift-test-"));
+    await $`git init -q`.cwd(repoDir).quiet();
+    await commitFile("docs/api.md", 30);
+    await commitFile("src/api.ts", 10);
+    await commitFile("docs/cli.md", 5);
+    await commitFile("src/cli.ts", 3);
+  });
+
+  afterAll(async () => {
+    await rm(repoDir, { recursive: true, force: true });
+  });
+
+  test("should report code changed more than threshold days after its docs", async () => {
+    const reports = await detectDrift(
+      {
+        enabled: true,
+        pairs: [
+          { code: "src/api.ts", docs: "docs/api.md", threshold: 7 },
+          { code: "src/cli.ts", docs: "docs/cli.md", threshold: 7 },
+        ],
+      },
+      repoDir,
+    );
+
+    expect(reports).toHaveLength(1);
+    expect(reports[0].code_file).toBe("src/api.ts");
+    expect(reports[0].doc_file).toBe("docs/api.md");
+    expect(reports[0].days_since_code_change).toBe(10);
+    expect(reports[0].message).toContain("updated 20 days after docs");
+  });
+
+  test("should use the newest file matching each pattern", async () => {
+    const reports = await detectDrift(
+      { enabled: true, pairs: [{ code: "src/**/*.ts", docs: "docs/**/*.md", threshold: 1 }] },
+      repoDir,
+    );
+
+    expect(reports).toHaveLength(1);
+    expect(reports[0].code_file).toBe("src/cli.ts");
+    expect(reports[0].doc_file).toBe("docs/cli.md");
+  });
+
+  test("should report nothing when disabled", async () => {
+    const reports = await detectDrift(
+      { enabled: false, pairs: [{ code: "src/api.ts", docs: "docs/api.md" }] },
+      repoDir,
+    );
+
+    expect(reports).toEqual([]);
+  });
+});
+
+describe("categorizeChange", () => {
+  test("should categorize by title prefix", () => {
+    expect(categorizeChange("feat: add export")).toBe("Added");
+    expect(categorizeChange("fix(parser): handle empty files")).toBe("Fixed");
+    expect(categorizeChange("remove: old flag")).toBe("Removed");
+    expect(categorizeChange("security: bump dependency")).toBe("Security");
+    expect(categorizeChange("Update README")).toBe("Changed");
+  });
+});
+
+describe("formatDriftReports", () => {
+  test("should say when there is no drift", () => {
+    expect(formatDriftReports([])).toContain("No documentation drift detected");
+  });
+});
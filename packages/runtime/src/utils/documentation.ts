@@ -1,3 +1,5 @@
+import { stat } from "node:fs/promises";
+import { join } from "node:path";
 import type {
   ApiDocumentationConfig,
   ChangelogConfig,
@@ -5,6 +7,9 @@ import type {
   DriftDetectionConfig,
   DriftDetectionPair,
 } from "@repo-agents/types";
+import { $, Glob } from "bun";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Result of documentation generation or analysis
@@ -498,3 +503,115 @@ else
 fi
 `;
 }
+
+/**
+ * Detect documentation drift: code changed more than `threshold` days after its docs.
+ *
+ * Uses the last commit that touched each file, since checkouts reset file modification times;
+ * files without history (e.g. uncommitted) fall back to their modification time.
+ */
+export async function detectDrift(
+  config: DriftDetectionConfig,
+  cwd: string = process.cwd(),
+): Promise<DriftReport[]> {
+  if (!config.enabled) {
+    return [];
+  }
+
+  const reports: DriftReport[] = [];
+
+  for (const pair of config.pairs) {
+    const threshold = pair.threshold || 7;
+    const code = await findNewestChange(pair.code, cwd);
+    const docs = await findNewestChange(pair.docs, cwd);
+    if (!code || !docs || code.time <= docs.time) {
+      continue;
+    }
+
+    const driftDays = Math.floor((code.time - docs.time) / DAY_MS);
+    if (driftDays > threshold) {
+      reports.push({
+        code_file: code.file,
+        doc_file: docs.file,
+        code_last_modified: new Date(code.time).toISOString(),
+        doc_last_modified: new Date(docs.time).toISOString(),
+        days_since_code_change: Math.floor((Date.now() - code.time) / DAY_MS),
+        threshold,
+        message: `Code '${code.file}' updated ${driftDays} days after docs '${docs.file}' (threshold: ${threshold} days)`,
+      });
+    }
+  }
+
+  return reports;
+}
+
+/**
+ * Find the most recently changed file matching a glob pattern.
+ */
+async function findNewestChange(
+  pattern: string,
+  cwd: string,
+): Promise<{ file: string; time: number } | undefined> {
+  let newest: { file: string; time: number } | undefined;
+
+  for await (const file of new Glob(pattern).scan({ cwd, onlyFiles: true })) {
+    const time = await getLastChangeTime(file, cwd);
+    if (time && (!newest || time > newest.time)) {
+      newest = { file, time };
+    }
+  }
+
+  return newest;
+}
+
+async function getLastChangeTime(file: string, cwd: string): Promise<number | undefined> {
+  const result = await $`git log -1 --format=%ct -- ${file}`.cwd(cwd).quiet().nothrow();
+  const seconds = Number(result.stdout.toString().trim());
+  if (result.exitCode === 0 && seconds > 0) {
+    return seconds * 1000;
+  }
+
+  try {
+    return (await stat(join(cwd, file))).mtimeMs;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Categorize a change for the changelog from its title prefix (e.g. "fix: ...", "feat: ...").
+ */
+export function categorizeChange(title: string): ChangelogEntry["category"] {
+  if (/^(feat|add|new)(\(.+\))?:/i.test(title)) {
+    return "Added";
+  }
+  if (/^(fix|bug)(\(.+\))?:/i.test(title)) {
+    return "Fixed";
+  }
+  if (/^deprecat\w*(\(.+\))?:/i.test(title)) {
+    return "Deprecated";
+  }
+  if (/^(remove|delete)(\(.+\))?:/i.test(title)) {
+    return "Removed";
+  }
+  if (/^(security|vuln)(\(.+\))?:/i.test(title)) {
+    return "Security";
+  }
+  return "Changed";
+}
+
+/**
+ * Format drift reports as a markdown list.
+ */
+export function formatDriftReports(reports: DriftReport[]): string {
+  if (reports.length === 0) {
+    return "No documentation drift detected.\n";
+  }
+
+  return `${reports
+    .map(
+      (report) =>
+        `- ${report.message}. Code last changed ${report.code_last_modified.slice(0, 10)}, docs last changed ${report.doc_last_modified.slice(0, 10)}`,
+    )
+    .join("\n")}\n`;
+}
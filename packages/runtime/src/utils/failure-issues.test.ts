@@ -0,0 +1,83 @@
+import { describe, expect, it } from "bun:test";
+import {
+  type FailureRecord,
+  fingerprintFailure,
+  formatResolutionSummary,
+  normalizeErrorMessage,
+  readFailureRecord,
+  writeFailureRecord,
+} from "./failure-issues";
+
+const record: FailureRecord = {
+  fingerprint: "0123456789ab",
+  agent: "issue-triage",
+  category: "execution",
+  occurrences: 2,
+  first_seen: "2026-10-05T10:00:00Z",
+  last_seen: "2026-10-06T11:30:00Z",
+  last_run_url: "https://github.com/acme/app/actions/runs/2",
+  consecutive_successes: 1,
+};
+
+describe("failure-issues", () => {
+  describe("normalizeErrorMessage", () => {
+    it("should replace the parts of a message that change between runs", () => {
+      expect(
+        normalizeErrorMessage(
+          "Request 3f2b1c4d-1a2b-4c3d-8e9f-0123456789ab failed at 2026-10-05T10:00:00.123Z after 3 retries (commit a1b2c3d4e5)",
+        ),
+      ).toBe("request <id> failed at <time> after <n> retries (commit <sha>)");
+    });
+
+    it("should keep words that only look like hex", () => {
+      expect(normalizeErrorMessage("  Deadbeef   accessed\nfacade ")).toBe(
+        "deadbeef accessed facade",
+      );
+    });
+  });
+
+  describe("fingerprintFailure", () => {
+    it("should match the same failure across runs and separate different ones", () => {
+      const first = fingerprintFailure("triage", "execution", "Timed out after 300s");
+
+      expect(first).toMatch(/^[0-9a-f]{12}$/);
+      expect(fingerprintFailure("triage", "execution", "Timed out after 600s")).toBe(first);
+      expect(fingerprintFailure("triage", "permission", "Timed out after 300s")).not.toBe(first);
+      expect(fingerprintFailure("review", "execution", "Timed out after 300s")).not.toBe(first);
+    });
+  });
+
+  describe("failure records", () => {
+    it("should round-trip the record through the issue body", () => {
+      const body = writeFailureRecord("## Error\n\n> **Timed out**\n", record, 3);
+
+      expect(body).toStartWith("## Error\n\n> **Timed out**\n\n<!-- repo-agents-failure ");
+      expect(body).toContain(
+        "| 2 | 2026-10-05 10:00 UTC | [2026-10-06 11:30 UTC](https://github.com/acme/app/actions/runs/2) | 1 of 3 |",
+      );
+      expect(readFailureRecord(body)).toEqual(record);
+    });
+
+    it("should replace the previous record instead of appending another", () => {
+      const body = writeFailureRecord(
+        writeFailureRecord("## Error", record, 3),
+        { ...record, occurrences: 3 },
+        3,
+      );
+
+      expect(body.match(/### Occurrences/g)).toHaveLength(1);
+      expect(readFailureRecord(body)?.occurrences).toBe(3);
+    });
+
+    it("should ignore bodies without a record", () => {
+      expect(readFailureRecord("Agent execution failed")).toBeUndefined();
+      expect(readFailureRecord("<!-- repo-agents-failure {broken -->")).toBeUndefined();
+    });
+
+    it("should summarise the failure when it is resolved", () => {
+      expect(formatResolutionSummary({ ...record, consecutive_successes: 3 })).toContain(
+        "Seen 2 times between 2026-10-05 10:00 UTC and 2026-10-06 11:30 UTC.",
+      );
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { createHash } from "node:crypto";
+import { stripVTControlCharacters } from "node:util";
+
+/** Consecutive successful runs after which a failure issue is closed by default */
+export const DEFAULT_RESOLVE_AFTER = 3;
+
+/**
+ * State of one distinct failure of an agent, kept in a comment at the end of its issue.
+ */
+export interface FailureRecord {
+  fingerprint: string;
+  agent: string; // Slug
+  category: string; // Failure category, e.g. execution or permission
+  occurrences: number;
+  first_seen: string;
+  last_seen: string;
+  last_run_url: string;
+  consecutive_successes: number; // Successful runs of the agent since the last occurrence
+}
+
+const RECORD_MARKER = "<!-- repo-agents-failure ";
+
+/**
+ * Reduce an error message to what identifies the failure, so that the same failure in
+ * another run matches: ids, hashes, numbers, timestamps and URLs are replaced.
+ */
+export function normalizeErrorMessage(message: string): string {
+  return stripVTControlCharacters(message)
+    .replace(/https?:\/\/\S+/g, "<url>")
+    .replace(/\d{4}-\d{2}-\d{2}[T ][\d:.]+Z?/g, "<time>")
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<id>")
+    .replace(/\b[0-9a-f]{7,40}\b/gi, (match) => (/\d/.test(match) ? "<sha>" : match))
+    .replace(/\d+(\.\d+)?/g, "<n>")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase()
+    .slice(0, 300);
+}
+
+/**
+ * Fingerprint of a failure: the agent, the failure category and the normalised message.
+ */
+export function fingerprintFailure(agentSlug: string, category: string, message: string): string {
+  return createHash("sha256")
+    .update(`${agentSlug}\n${category}\n${normalizeErrorMessage(message)}`)
+    .digest("hex")
+    .slice(0, 12);
+}
+
+/**
+ * Read the failure record from an issue body written by renderFailureRecord.
+ */
+export function readFailureRecord(body: string): FailureRecord | undefined {
+  const start = body.lastIndexOf(RECORD_MARKER);
+  if (start === -1) {
+    return undefined;
+  }
+  const end = body.indexOf(" -->", start);
+  try {
+    return JSON.parse(body.slice(start + RECORD_MARKER.length, end));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Replace the failure record at the end of an issue body, or append it.
+ */
+export function writeFailureRecord(
+  body: string,
+  record: FailureRecord,
+  resolveAfter: number,
+): string {
+  const start = body.lastIndexOf(RECORD_MARKER);
+  const content = (start === -1 ? body : body.slice(0, start)).trimEnd();
+  return `${content}\n\n${renderFailureRecord(record, resolveAfter)}`;
+}
+
+/**
+ * The record as a hidden comment followed by the occurrence table.
+ */
+export function renderFailureRecord(record: FailureRecord, resolveAfter: number): string {
+  return [
+    `${RECORD_MARKER}${JSON.stringify(record)} -->`,
+    "### Occurrences",
+    "",
+    "| Occurrences | First seen | Last seen | Successful runs since |",
+    "|-------------|------------|-----------|-----------------------|",
+    `| ${record.occurrences} | ${formatTimestamp(record.first_seen)} | [${formatTimestamp(record.last_seen)}](${record.last_run_url}) | ${record.consecutive_successes} of ${resolveAfter} |`,
+    "",
+    `This issue closes automatically after ${resolveAfter} consecutive successful runs of the agent.`,
+  ].join("\n");
+}
+
+/**
+ * Comment left when a failure issue is closed because the agent recovered.
+ */
+export function formatResolutionSummary(record: FailureRecord): string {
+  return [
+    `Resolved: the agent has run successfully ${record.consecutive_successes} times in a row since this failure was last seen.`,
+    "",
+    `Seen ${record.occurrences} time${record.occurrences === 1 ? "" : "s"} between ${formatTimestamp(record.first_seen)} and ${formatTimestamp(record.last_seen)}.`,
+  ].join("\n");
+}
+
+function formatTimestamp(timestamp: string): string {
+  return `${timestamp.slice(0, 16).replace("T", " ")} UTC`;
+}
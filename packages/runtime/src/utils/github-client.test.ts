@@ -0,0 +1,133 @@
+import { describe, expect, it, mock } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  cacheKey,
+  GitHubClient,
+  type GitHubTransport,
+  loadApiCache,
+  mapConcurrent,
+  saveApiCache,
+} from "./github-client";
+
+function fakeTransport(overrides: Partial<Record<keyof GitHubTransport, unknown>> = {}) {
+  return {
+    ghApi: mock(async () => ({ data: { rateLimit: { cost: 1 }, repository: {} } })),
+    ghApiConditional: mock(async () => ({ status: 200, etag: '"v1"', body: [1, 2] })),
+    ...overrides,
+  } as unknown as GitHubTransport;
+}
+
+describe("GitHubClient", () => {
+  it("should count REST requests and remember their ETags", async () => {
+    const client = new GitHubClient("owner", "repo", fakeTransport());
+
+    expect(await client.get("repos/owner/repo/issues")).toEqual([1, 2]);
+    expect(client.usage).toEqual({
+      rest_requests: 1,
+      cached_responses: 0,
+      graphql_queries: 0,
+      points: 1,
+    });
+    expect(client.cacheForNextRun()).toEqual({
+      "repos/owner/repo/issues": { etag: '"v1"', body: [1, 2] },
+    });
+  });
+
+  it("should reuse the cached response when the endpoint has not changed", async () => {
+    const ghApiConditional = mock(async () => ({ status: 304, etag: '"v1"' }));
+    const client = new GitHubClient("owner", "repo", fakeTransport({ ghApiConditional }), {
+      "repos/owner/repo/issues": { etag: '"v1"', body: [1] },
+      "repos/owner/repo/pulls": { etag: '"v2"', body: [] },
+    });
+
+    expect(await client.get("repos/owner/repo/issues")).toEqual([1]);
+    expect(ghApiConditional).toHaveBeenCalledWith("repos/owner/repo/issues", '"v1"');
+    expect(client.usage).toMatchObject({ rest_requests: 0, cached_responses: 1, points: 0 });
+    // Endpoints not requested in this run are not carried over
+    expect(Object.keys(client.cacheForNextRun())).toEqual(["repos/owner/repo/issues"]);
+  });
+
+  it("should reuse the cached response of an endpoint whose since parameter moved", async () => {
+    const ghApiConditional = mock(async () => ({ status: 304, etag: '"v1"' }));
+    const client = new GitHubClient("owner", "repo", fakeTransport({ ghApiConditional }), {
+      "repos/owner/repo/commits?sha=main&per_page=10": { etag: '"v1"', body: [1] },
+    });
+
+    expect(
+      await client.get("repos/owner/repo/commits?sha=main&since=2026-10-02T00:00:00Z&per_page=10"),
+    ).toEqual([1]);
+    expect(ghApiConditional).toHaveBeenCalledWith(
+      "repos/owner/repo/commits?sha=main&since=2026-10-02T00:00:00Z&per_page=10",
+      '"v1"',
+    );
+    expect(Object.keys(client.cacheForNextRun())).toEqual([
+      "repos/owner/repo/commits?sha=main&per_page=10",
+    ]);
+  });
+
+  it("should fetch repository fields in one aliased query", async () => {
+    const ghApi = mock(async () => ({
+      data: { rateLimit: { cost: 2 }, repository: { stars: 10, forks: 3 } },
+    }));
+    const client = new GitHubClient("owner", "repo", fakeTransport({ ghApi }));
+
+    const data = await client.repository({ stars: "stargazerCount", forks: "forkCount" });
+
+    expect(data).toEqual({ stars: 10, forks: 3 });
+    const [, options] = ghApi.mock.calls[0] as unknown as [
+      string,
+      { body: { query: string; variables: Record<string, string> } },
+    ];
+    expect(options.body.query).toContain("stars: stargazerCount");
+    expect(options.body.query).toContain("forks: forkCount");
+    expect(options.body.variables).toEqual({ owner: "owner", repo: "repo" });
+    expect(client.usage).toMatchObject({ graphql_queries: 1, points: 2 });
+  });
+});
+
+describe("cacheKey", () => {
+  it("should leave out the since parameter", () => {
+    expect(cacheKey("commits?since=2026-10-01T00:00:00Z&per_page=100")).toBe(
+      "commits?per_page=100",
+    );
+    expect(cacheKey("commits?sha=main&since=2026-10-01T00:00:00Z")).toBe("commits?sha=main");
+    expect(cacheKey("commits?since=2026-10-01T00:00:00Z")).toBe("commits");
+    expect(cacheKey("releases?per_page=10")).toBe("releases?per_page=10");
+  });
+});
+
+describe("API cache file", () => {
+  it("should read back a saved cache and start empty without one", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "api-cache-test-"));
+    const path = join(dir, "api-cache", "responses.json");
+    try {
+      expect(await loadApiCache(path)).toEqual({});
+
+      await saveApiCache({ releases: { etag: '"v1"', body: [1] } }, path);
+
+      expect(await loadApiCache(path)).toEqual({ releases: { etag: '"v1"', body: [1] } });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("mapConcurrent", () => {
+  it("should limit tasks in flight and keep the order of the results", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapConcurrent([30, 10, 20, 0, 5], 2, async (delay) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await Bun.sleep(delay);
+      inFlight--;
+      return delay * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40, 0, 10]);
+    expect(maxInFlight).toBe(2);
+  });
+});
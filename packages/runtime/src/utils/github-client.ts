@@ -0,0 +1,165 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { ApiUsage } from "@repo-agents/types";
+import type { ghApi, ghApiConditional } from "./github";
+
+/** Functions the client sends its requests with */
+export interface GitHubTransport {
+  ghApi: typeof ghApi;
+  ghApiConditional: typeof ghApiConditional;
+}
+
+/** REST responses kept between runs, keyed by endpoint (see `cacheKey`) */
+export type ApiCache = Record<string, { etag: string; body: unknown }>;
+
+/**
+ * File the API cache is kept in. The workflow restores and saves its directory with the
+ * Actions cache, so response bodies are never committed to the state store.
+ */
+export const API_CACHE_FILE = "/tmp/api-cache/responses.json";
+
+/**
+ * GitHub API client for context collection. It:
+ * - sends REST GETs with the ETag of the previous run, reusing the cached response on 304
+ * - fetches several repository fields in one GraphQL query
+ * - counts the requests made and the rate limit points they cost
+ */
+export class GitHubClient {
+  readonly usage: ApiUsage = {
+    rest_requests: 0,
+    cached_responses: 0,
+    graphql_queries: 0,
+    points: 0,
+  };
+  private readonly used: ApiCache = {};
+
+  constructor(
+    readonly owner: string,
+    readonly repo: string,
+    private readonly transport: GitHubTransport,
+    private readonly cache: ApiCache = {},
+  ) {}
+
+  /**
+   * GET a REST endpoint.
+   * @throws Error if the request fails
+   */
+  async get<T>(endpoint: string): Promise<T> {
+    const key = cacheKey(endpoint);
+    const cached = this.cache[key];
+    const response = await this.transport.ghApiConditional<T>(endpoint, cached?.etag);
+
+    if (response.status === 304 && cached) {
+      this.usage.cached_responses++;
+      this.used[key] = cached;
+      return cached.body as T;
+    }
+
+    this.usage.rest_requests++;
+    this.usage.points++;
+    if (response.etag) {
+      this.used[key] = { etag: response.etag, body: response.body };
+    }
+    return response.body as T;
+  }
+
+  /**
+   * Run a GraphQL query. Queries that select `rateLimit { cost }` are counted at their cost,
+   * others at the minimum of one point.
+   * @throws Error if the request fails
+   */
+  async graphql<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const response = await this.transport.ghApi<T & { data?: { rateLimit?: { cost: number } } }>(
+      "graphql",
+      { method: "POST", body: { query, variables } },
+    );
+    this.usage.graphql_queries++;
+    this.usage.points += response.data?.rateLimit?.cost ?? 1;
+    return response;
+  }
+
+  /**
+   * Fetch several fields of the repository in one GraphQL query. Each selection is a single
+   * field with its arguments and sub-selection, e.g. `releases(first: 10) { nodes { name } }`,
+   * and its result is returned under the same key.
+   * @throws Error if the request fails
+   */
+  async repository(selections: Record<string, string>): Promise<Record<string, unknown>> {
+    const fields = Object.entries(selections)
+      .map(([alias, selection]) => `${alias}: ${selection.trim()}`)
+      .join("\n");
+    const query = `query($owner: String!, $repo: String!) {
+  rateLimit { cost }
+  repository(owner: $owner, name: $repo) {
+${fields}
+  }
+}`;
+    const response = await this.graphql<{ data: { repository: Record<string, unknown> } }>(query, {
+      owner: this.owner,
+      repo: this.repo,
+    });
+    return response.data.repository;
+  }
+
+  /**
+   * Responses to keep for the next run: those requested in this run, so endpoints an agent
+   * stopped collecting drop out of the cache.
+   */
+  cacheForNextRun(): ApiCache {
+    return { ...this.used };
+  }
+}
+
+/**
+ * Cache key of an endpoint. A `since` parameter changes every run, so it is left out: the
+ * ETag still only matches when the response is the same as the cached one.
+ */
+export function cacheKey(endpoint: string): string {
+  return endpoint.replace(/([?&])since=[^&]*(&|$)/, "$1").replace(/[?&]$/, "");
+}
+
+/**
+ * Load the API cache left by the previous run. Falls back to an empty cache.
+ */
+export async function loadApiCache(path = API_CACHE_FILE): Promise<ApiCache> {
+  if (!existsSync(path)) {
+    return {};
+  }
+  try {
+    return JSON.parse(await readFile(path, "utf-8")) as ApiCache;
+  } catch {
+    console.warn("Ignoring unreadable API cache");
+    return {};
+  }
+}
+
+/**
+ * Save the API cache for the next run.
+ */
+export async function saveApiCache(cache: ApiCache, path = API_CACHE_FILE): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(cache), "utf-8");
+}
+
+/**
+ * Run tasks with at most `concurrency` of them in flight, keeping the order of the results.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
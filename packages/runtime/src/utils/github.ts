@@ -44,6 +44,44 @@ export async function ghApi<T>(endpoint: string, options?: GitHubApiOptions): Pr
   }
 }
 
+/** Response of a conditional GET. A 304 has no body. */
+export interface GitHubConditionalResponse<T> {
+  status: number;
+  etag?: string;
+  body?: T;
+}
+
+/**
+ * Make a GET request with `If-None-Match`, using the gh CLI. GitHub answers 304 Not Modified
+ * when the ETag still matches, which does not count against the rate limit.
+ */
+export async function ghApiConditional<T>(
+  endpoint: string,
+  etag?: string,
+): Promise<GitHubConditionalResponse<T>> {
+  const headers = etag ? ["-H", `If-None-Match: ${etag}`] : [];
+  // gh exits non-zero on 304, so the status is read from the response instead
+  const result = await $`gh api --include ${headers} ${endpoint}`.nothrow().quiet();
+  const output = result.stdout.toString();
+  const [head, ...rest] = output.split(/\r?\n\r?\n/);
+  const status = Number(head.match(/^HTTP\/[\d.]+ (\d{3})/)?.[1]);
+
+  if (status === 304) {
+    return { status, etag };
+  }
+  if (!status || status >= 400) {
+    const message = result.stderr.toString().trim() || `HTTP ${status || result.exitCode}`;
+    throw new Error(`GitHub API request failed: ${message}`);
+  }
+
+  const body = rest.join("\n\n").trim();
+  return {
+    status,
+    etag: head.match(/^etag:\s*(.+)$/im)?.[1].trim(),
+    body: body ? (JSON.parse(body) as T) : ({} as T),
+  };
+}
+
 export type RepositoryPermission = "admin" | "write" | "read" | "none";
 
 /**
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getArtifactPath, readArtifact } from "./artifacts";
+import { formatHandoffContext, type HandoffSummary, readHandoffs, writeHandoff } from "./handoff";
+
+const summary: HandoffSummary = {
+  schema_version: "1.0.0",
+  agent: "Issue Triage",
+  run_id: "42",
+  success: true,
+  result: "Labelled as a bug in the parser",
+};
+
+describe("handoff", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "handoff-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("writeHandoff", () => {
+    const artifact = "agent-handoff-test-handoff";
+
+    afterEach(async () => {
+      await rm(getArtifactPath(artifact), { recursive: true, force: true });
+    });
+
+    it("should write the summary and copy the output files", async () => {
+      await writeFile(join(dir, "add-label.json"), '{"labels":["bug"]}');
+      await writeFile(join(dir, "notes.txt"), "ignored");
+
+      await writeHandoff(artifact, summary, dir);
+
+      expect(JSON.parse((await readArtifact(artifact, "summary.json")) ?? "")).toEqual(summary);
+      expect(await readArtifact(artifact, "outputs/add-label.json")).toBe('{"labels":["bug"]}');
+      expect(await readArtifact(artifact, "outputs/notes.txt")).toBeNull();
+    });
+  });
+
+  describe("readHandoffs", () => {
+    it("should read each upstream agent's summary and outputs", async () => {
+      await mkdir(join(dir, "issue-triage", "outputs"), { recursive: true });
+      await writeFile(join(dir, "issue-triage", "summary.json"), JSON.stringify(summary));
+      await writeFile(join(dir, "issue-triage", "outputs", "add-label.json"), "{}");
+      await mkdir(join(dir, "not-downloaded"));
+
+      expect(await readHandoffs(dir)).toEqual([{ summary, outputs: { "add-label.json": "{}" } }]);
+    });
+
+    it("should return nothing without handoffs", async () => {
+      expect(await readHandoffs(join(dir, "missing"))).toEqual([]);
+    });
+  });
+
+  describe("formatHandoffContext", () => {
+    it("should include the result and output files", () => {
+      const context = formatHandoffContext([
+        { summary, outputs: { "add-label.json": '{"labels":["bug"]}\n' } },
+      ]).join("\n");
+
+      expect(context).toContain("## Upstream Agents");
+      expect(context).toContain("### Issue Triage (succeeded)");
+      expect(context).toContain("Labelled as a bug in the parser");
+      expect(context).toContain('`add-label.json`:\n```json\n{"labels":["bug"]}\n```');
+    });
+
+    it("should add nothing without handoffs", () => {
+      expect(formatHandoffContext([])).toEqual([]);
+    });
+  });
+});
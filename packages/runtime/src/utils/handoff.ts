@@ -0,0 +1,130 @@
+import { existsSync } from "node:fs";
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { writeArtifact } from "./artifacts";
+
+/** Directory where downstream agents find the handoffs of their upstream agents */
+export const HANDOFF_DIR = "/tmp/handoff";
+
+/**
+ * Result of an upstream agent, written for the agents chained after it.
+ */
+export interface HandoffSummary {
+  schema_version: "1.0.0";
+  agent: string;
+  run_id: string;
+  success: boolean;
+  /** Final message of the agent */
+  result?: string;
+  cost_usd?: number;
+  turns?: number;
+}
+
+/**
+ * A handoff read by a downstream agent: the summary and the upstream output files.
+ */
+export interface Handoff {
+  summary: HandoffSummary;
+  /** Output file name -> contents */
+  outputs: Record<string, string>;
+}
+
+/**
+ * Write the handoff artifact: summary.json and a copy of the agent's output files.
+ */
+export async function writeHandoff(
+  artifactName: string,
+  summary: HandoffSummary,
+  outputsDir = "/tmp/outputs",
+): Promise<void> {
+  await writeArtifact(artifactName, "summary.json", JSON.stringify(summary, null, 2));
+
+  if (!existsSync(outputsDir)) {
+    return;
+  }
+  for (const file of await readdir(outputsDir)) {
+    if (file.endsWith(".json")) {
+      await writeArtifact(
+        artifactName,
+        join("outputs", file),
+        await readFile(join(outputsDir, file), "utf-8"),
+      );
+    }
+  }
+}
+
+/**
+ * Read every handoff downloaded into `dir` (one directory per upstream agent).
+ * Directories without a readable summary are skipped.
+ */
+export async function readHandoffs(dir = HANDOFF_DIR): Promise<Handoff[]> {
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const handoffs: Handoff[] = [];
+  for (const entry of (await readdir(dir)).sort()) {
+    const summaryPath = join(dir, entry, "summary.json");
+    if (!existsSync(summaryPath)) {
+      continue;
+    }
+
+    try {
+      const summary = JSON.parse(await readFile(summaryPath, "utf-8")) as HandoffSummary;
+      const outputs: Record<string, string> = {};
+      const outputsDir = join(dir, entry, "outputs");
+      if (existsSync(outputsDir)) {
+        for (const file of (await readdir(outputsDir)).sort()) {
+          outputs[file] = await readFile(join(outputsDir, file), "utf-8");
+        }
+      }
+      handoffs.push({ summary, outputs });
+    } catch (error) {
+      console.warn(`Failed to read the handoff in ${entry}:`, error);
+    }
+  }
+  return handoffs;
+}
+
+/**
+ * Format handoffs as a section of the agent's context.
+ */
+export function formatHandoffContext(handoffs: Handoff[]): string[] {
+  if (handoffs.length === 0) {
+    return [];
+  }
+
+  const lines = [
+    "## Upstream Agents",
+    "",
+    "This run follows the agents below. Use their results and output files as input.",
+    "",
+  ];
+
+  for (const { summary, outputs } of handoffs) {
+    lines.push(`### ${summary.agent} (${summary.success ? "succeeded" : "failed"})`);
+    lines.push("");
+    lines.push(`Run: ${summary.run_id}`);
+    if (summary.result) {
+      lines.push("");
+      lines.push("**Result:**");
+      lines.push(summary.result);
+    }
+
+    const files = Object.entries(outputs);
+    if (files.length > 0) {
+      lines.push("");
+      lines.push("**Output files:**");
+      for (const [file, content] of files) {
+        lines.push("");
+        lines.push(`\`${file}\`:`);
+        lines.push("```json");
+        lines.push(content.trim());
+        lines.push("```");
+      }
+    }
+    lines.push("");
+  }
+
+  return lines;
+}
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AgentDefinition, InvocationConfig } from "@repo-agents/types";
+import {
+  checkInvocation,
+  extractCommand,
+  formatInvocationErrors,
+  formatInvocationHelp,
+  matchInvocation,
+} from "./invocations";
+
+const triage: InvocationConfig = {
+  command: "triage",
+  description: "Triage the issue",
+  aliases: ["/t"],
+  args: {
+    priority: { type: "choice", options: ["low", "high"], default: "low" },
+    "skip-dupes": { type: "boolean", description: "Skip the duplicate search" },
+    limit: { type: "number" },
+  },
+};
+
+describe("extractCommand", () => {
+  it("should find a command at the start of any line", () => {
+    expect(extractCommand("Thanks!\n/Triage priority=high")).toEqual({
+      command: "triage",
+      argsText: "priority=high",
+    });
+  });
+
+  it("should ignore commands in the middle of a line", () => {
+    expect(extractCommand("please run /triage")).toBeNull();
+  });
+});
+
+describe("matchInvocation", () => {
+  it("should parse typed arguments and apply defaults", () => {
+    const parsed = matchInvocation([triage], "/triage --skip-dupes limit=5 focus on crashes");
+
+    expect(parsed?.errors).toEqual([]);
+    expect(parsed?.args).toEqual({ "skip-dupes": true, limit: 5, priority: "low" });
+    expect(parsed?.text).toBe("focus on crashes");
+  });
+
+  it("should match aliases and negated flags", () => {
+    const parsed = matchInvocation([triage], "/t priority=HIGH --no-skip-dupes");
+
+    expect(parsed?.invocation.command).toBe("triage");
+    expect(parsed?.args.priority).toBe("high");
+    expect(parsed?.args["skip-dupes"]).toBe(false);
+  });
+
+  it("should keep quoted values together", () => {
+    const parsed = matchInvocation(
+      [{ command: "label", args: { name: {} } }],
+      '/label name="needs info"',
+    );
+
+    expect(parsed?.args.name).toBe("needs info");
+  });
+
+  it("should report invalid, unknown and missing arguments", () => {
+    const parsed = matchInvocation(
+      [{ ...triage, args: { ...triage.args, team: { required: true } } }],
+      "/triage priority=urgent limit=many --limit color=red",
+    );
+
+    expect(parsed?.errors).toEqual([
+      'Invalid value for priority: expected low|high, got "urgent"',
+      'Invalid value for limit: expected number, got "many"',
+      "limit needs a value: limit=<number>",
+      "Unknown argument: color",
+      "Missing required argument: team",
+    ]);
+  });
+
+  it("should keep everything as text for commands without arguments", () => {
+    const parsed = matchInvocation([{ command: "review" }], "/review focus=security please");
+
+    expect(parsed?.args).toEqual({});
+    expect(parsed?.text).toBe("focus=security please");
+  });
+
+  it("should not match other commands", () => {
+    expect(matchInvocation([triage], "/review")).toBeNull();
+  });
+});
+
+describe("checkInvocation", () => {
+  let tempDir: string;
+  let eventPath: string;
+
+  const agent: AgentDefinition = {
+    name: "Deployer",
+    on: { invocation: { command: "deploy", allowed_users: ["release-manager"] } },
+    markdown: "",
+  };
+
+  const ctx = (actor: string, eventName = "issue_comment") => ({
+    github: {
+      actor,
+      repository: "owner/repo",
+      eventName,
+      eventPath,
+      runId: 1,
+      serverUrl: "https://github.com",
+    },
+  });
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "invocation-test-"));
+    eventPath = join(tempDir, "event.json");
+    await writeFile(
+      eventPath,
+      JSON.stringify({ comment: { body: "/deploy" }, issue: { number: 3 } }),
+    );
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("should allow users listed on the command", async () => {
+    const result = await checkInvocation(ctx("release-manager"), agent);
+
+    expect(result.allowed).toBe(true);
+    expect(result.parsed?.command).toBe("deploy");
+  });
+
+  it("should reject users not listed on the command", async () => {
+    const result = await checkInvocation(ctx("someone"), agent);
+
+    expect(result).toMatchObject({
+      allowed: false,
+      reason: "User someone is not allowed to run /deploy",
+    });
+  });
+
+  it("should not apply to other events", async () => {
+    expect(await checkInvocation(ctx("someone", "issues"), agent)).toEqual({ allowed: true });
+  });
+});
+
+describe("formatInvocationHelp", () => {
+  it("should list every command with its arguments", () => {
+    const help = formatInvocationHelp([
+      { name: "Triage", on: { invocation: triage }, markdown: "" },
+      { name: "Labeler", on: { issues: { types: ["opened"] } }, markdown: "" },
+    ]);
+
+    expect(help).toContain(
+      "- `/triage [priority=<low|high>] [--skip-dupes] [limit=<number>]` — Triage the issue",
+    );
+    expect(help).toContain("Runs **Triage** · aliases: `/t`");
+    expect(help).toContain("- `skip-dupes` (boolean): Skip the duplicate search");
+    expect(help).toContain("- `priority` (low|high, default: low)");
+    expect(help).not.toContain("Labeler");
+  });
+
+  it("should say when no commands are configured", () => {
+    expect(formatInvocationHelp([])).toContain("No commands are configured.");
+  });
+});
+
+describe("formatInvocationErrors", () => {
+  it("should list the problems with the usage", () => {
+    const parsed = matchInvocation([triage], "/t limit=x");
+    if (!parsed) {
+      throw new Error("expected a match");
+    }
+
+    expect(formatInvocationErrors(parsed)).toBe(
+      [
+        "Could not run `/t`:",
+        "",
+        '- Invalid value for limit: expected number, got "x"',
+        "",
+        "Usage: `/triage [priority=<low|high>] [--skip-dupes] [limit=<number>]`",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,337 @@
+import type { AgentDefinition, InvocationArgConfig, InvocationConfig } from "@repo-agents/types";
+import { ghApi, isTeamMember, parseRepository } from "./github";
+import type { ValidationContext } from "./validation";
+
+/** Command that replies with the list of all commands */
+export const HELP_COMMAND = "help";
+
+/** Value of a parsed invocation argument */
+export type InvocationArgValue = string | number | boolean;
+
+/**
+ * A slash command matched against one of an agent's invocations
+ */
+export interface ParsedInvocation {
+  invocation: InvocationConfig;
+  /** Command as typed, without the leading slash (may be an alias) */
+  command: string;
+  /** Declared arguments, with defaults applied */
+  args: Record<string, InvocationArgValue>;
+  /** Words after the command that are not arguments */
+  text: string;
+  /** Problems with the arguments; the agent should not run when any are present */
+  errors: string[];
+}
+
+/**
+ * Invocation triggers of an agent as a list.
+ */
+export function getInvocations(agent: AgentDefinition): InvocationConfig[] {
+  if (!agent.on.invocation) {
+    return [];
+  }
+  return Array.isArray(agent.on.invocation) ? agent.on.invocation : [agent.on.invocation];
+}
+
+/**
+ * Find the first slash command in a comment. Commands must start a line.
+ */
+export function extractCommand(body: string): { command: string; argsText: string } | null {
+  const match = body.match(/^\/([a-z][a-z0-9-]*)(?:[ \t]+(.*))?$/im);
+  if (!match) {
+    return null;
+  }
+  return { command: match[1].toLowerCase(), argsText: (match[2] ?? "").trim() };
+}
+
+/**
+ * Match a comment against a list of invocations and parse its arguments.
+ * Returns null when the comment holds no command of these invocations.
+ */
+export function matchInvocation(
+  invocations: InvocationConfig[],
+  body: string,
+): ParsedInvocation | null {
+  const extracted = extractCommand(body);
+  if (!extracted) {
+    return null;
+  }
+
+  const invocation = invocations.find(
+    (inv) =>
+      inv.command.replace(/^\//, "").toLowerCase() === extracted.command ||
+      inv.aliases?.some((alias) => alias.replace(/^\//, "").toLowerCase() === extracted.command),
+  );
+  if (!invocation) {
+    return null;
+  }
+
+  return {
+    invocation,
+    command: extracted.command,
+    ...parseInvocationArgs(invocation, extracted.argsText),
+  };
+}
+
+/**
+ * Parse `key=value`, `--key=value`, `--flag` and `--no-flag` arguments.
+ * Other words are kept as free text. Invocations without declared arguments
+ * take everything after the command as text.
+ */
+export function parseInvocationArgs(
+  invocation: InvocationConfig,
+  argsText: string,
+): Pick<ParsedInvocation, "args" | "text" | "errors"> {
+  const declared = invocation.args ?? {};
+  if (Object.keys(declared).length === 0) {
+    return { args: {}, text: argsText, errors: [] };
+  }
+
+  const args: Record<string, InvocationArgValue> = {};
+  const words: string[] = [];
+  const errors: string[] = [];
+
+  for (const token of tokenize(argsText)) {
+    const flag = token.match(/^--([a-z][a-z0-9_-]*)$/i);
+    const pair = token.match(/^(?:--)?([a-z][a-z0-9_-]*)=(.*)$/is);
+
+    if (flag) {
+      const name = flag[1].toLowerCase();
+      const negated = name.startsWith("no-") ? name.slice(3) : undefined;
+      const target = declared[name] ? name : negated;
+      if (!target || !declared[target]) {
+        errors.push(`Unknown argument: ${name}`);
+      } else if ((declared[target].type ?? "string") !== "boolean") {
+        errors.push(`${target} needs a value: ${target}=<${describeType(declared[target])}>`);
+      } else {
+        args[target] = target === name;
+      }
+    } else if (pair) {
+      const name = pair[1].toLowerCase();
+      const arg = declared[name];
+      if (!arg) {
+        errors.push(`Unknown argument: ${name}`);
+        continue;
+      }
+      const value = coerceArg(arg, pair[2]);
+      if (value === undefined) {
+        errors.push(`Invalid value for ${name}: expected ${describeType(arg)}, got "${pair[2]}"`);
+      } else {
+        args[name] = value;
+      }
+    } else {
+      words.push(token);
+    }
+  }
+
+  for (const [name, arg] of Object.entries(declared)) {
+    if (args[name] !== undefined) {
+      continue;
+    }
+    if (arg.default !== undefined) {
+      args[name] = arg.default;
+    } else if (arg.required) {
+      errors.push(`Missing required argument: ${name}`);
+    }
+  }
+
+  return { args, text: words.join(" "), errors };
+}
+
+/**
+ * Check the command's own `allowed_users` and `allowed_teams`. These apply on top of
+ * the agent-level authorization; commands without them are open to anyone allowed
+ * to run the agent.
+ */
+export async function checkInvocationAuthorization(
+  ctx: ValidationContext,
+  parsed: ParsedInvocation,
+): Promise<{ authorized: boolean; reason?: string }> {
+  const { allowed_users: users, allowed_teams: teams } = parsed.invocation;
+  if (!users?.length && !teams?.length) {
+    return { authorized: true };
+  }
+
+  const actor = ctx.github.actor;
+  if (users?.includes(actor)) {
+    return { authorized: true };
+  }
+
+  if (teams?.length) {
+    const { owner } = parseRepository(ctx.github.repository);
+    for (const team of teams) {
+      if (await isTeamMember(owner, team, actor)) {
+        return { authorized: true };
+      }
+    }
+  }
+
+  return {
+    authorized: false,
+    reason: `User ${actor} is not allowed to run /${parsed.invocation.command}`,
+  };
+}
+
+/**
+ * Match the triggering comment against the agent's invocations and check the command's
+ * arguments and authorization. Non-comment events are always allowed.
+ */
+export async function checkInvocation(
+  ctx: ValidationContext,
+  agent: AgentDefinition,
+): Promise<{ allowed: boolean; reason?: string; parsed?: ParsedInvocation }> {
+  if (ctx.github.eventName !== "issue_comment") {
+    return { allowed: true };
+  }
+
+  const body = await readCommentBody(ctx.github.eventPath);
+  const parsed = body ? matchInvocation(getInvocations(agent), body) : null;
+  if (!parsed) {
+    return { allowed: false, reason: "Comment does not invoke this agent" };
+  }
+
+  if (parsed.errors.length > 0) {
+    return {
+      allowed: false,
+      reason: `Invalid arguments for /${parsed.command}: ${parsed.errors.join("; ")}`,
+      parsed,
+    };
+  }
+
+  const authResult = await checkInvocationAuthorization(ctx, parsed);
+  if (!authResult.authorized) {
+    return { allowed: false, reason: authResult.reason, parsed };
+  }
+
+  return { allowed: true, parsed };
+}
+
+/**
+ * Format the /help reply listing every command with its description and arguments.
+ */
+export function formatInvocationHelp(agents: AgentDefinition[]): string {
+  const lines = ["### Available commands", ""];
+
+  for (const agent of agents) {
+    for (const invocation of getInvocations(agent)) {
+      const aliases = (invocation.aliases ?? []).map((alias) => `\`/${alias.replace(/^\//, "")}\``);
+      lines.push(
+        `- ${formatUsage(invocation)}${invocation.description ? ` — ${invocation.description}` : ""}`,
+      );
+      lines.push(
+        `  Runs **${agent.name}**${aliases.length > 0 ? ` · aliases: ${aliases.join(", ")}` : ""}`,
+      );
+      for (const [name, arg] of Object.entries(invocation.args ?? {})) {
+        const details = [
+          describeType(arg),
+          arg.required ? "required" : undefined,
+          arg.default !== undefined ? `default: ${arg.default}` : undefined,
+        ].filter(Boolean);
+        lines.push(
+          `  - \`${name}\` (${details.join(", ")})${arg.description ? `: ${arg.description}` : ""}`,
+        );
+      }
+    }
+  }
+
+  if (lines.length === 2) {
+    lines.push("No commands are configured.");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format the reply to a command whose arguments could not be parsed.
+ */
+export function formatInvocationErrors(parsed: ParsedInvocation): string {
+  return [
+    `Could not run \`/${parsed.command}\`:`,
+    "",
+    ...parsed.errors.map((error) => `- ${error}`),
+    "",
+    `Usage: ${formatUsage(parsed.invocation)}`,
+  ].join("\n");
+}
+
+/**
+ * Reply on the issue or pull request the triggering comment was posted on.
+ */
+export async function replyToComment(ctx: ValidationContext, body: string): Promise<void> {
+  const event = await readCommentEvent(ctx.github.eventPath);
+  const number = event?.issue?.number;
+  if (!number) {
+    return;
+  }
+  await ghApi(`repos/${ctx.github.repository}/issues/${number}/comments`, {
+    method: "POST",
+    body: { body },
+  });
+}
+
+/**
+ * Read the comment body of an issue_comment event payload.
+ */
+export async function readCommentBody(eventPath: string): Promise<string | undefined> {
+  return (await readCommentEvent(eventPath))?.comment?.body;
+}
+
+function formatUsage(invocation: InvocationConfig): string {
+  const args = Object.entries(invocation.args ?? {}).map(([name, arg]) => {
+    const usage =
+      (arg.type ?? "string") === "boolean" ? `--${name}` : `${name}=<${describeType(arg)}>`;
+    return arg.required ? usage : `[${usage}]`;
+  });
+  return `\`${[`/${invocation.command.replace(/^\//, "")}`, ...args].join(" ")}\``;
+}
+
+function describeType(arg: InvocationArgConfig): string {
+  return arg.type === "choice" && arg.options ? arg.options.join("|") : (arg.type ?? "string");
+}
+
+function coerceArg(arg: InvocationArgConfig, raw: string): InvocationArgValue | undefined {
+  switch (arg.type ?? "string") {
+    case "number": {
+      const value = Number(raw);
+      return raw.trim() !== "" && Number.isFinite(value) ? value : undefined;
+    }
+    case "boolean": {
+      const value = raw.toLowerCase();
+      if (["true", "yes", "1"].includes(value)) {
+        return true;
+      }
+      if (["false", "no", "0"].includes(value)) {
+        return false;
+      }
+      return undefined;
+    }
+    case "choice":
+      return arg.options?.find((option) => option.toLowerCase() === raw.toLowerCase());
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Split on whitespace, keeping quoted values together: title="Needs triage".
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.matchAll(/(?:[^\s"']+|"[^"]*"|'[^']*')+/g)) {
+    tokens.push(match[0].replace(/(["'])(.*?)\1/g, "$2"));
+  }
+  return tokens;
+}
+
+async function readCommentEvent(
+  eventPath: string,
+): Promise<{ comment?: { body?: string }; issue?: { number?: number } } | undefined> {
+  if (!eventPath) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(await Bun.file(eventPath).text());
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  diffLines,
+  diffOutputDirs,
+  loadReplayBundle,
+  REPLAY_DIR,
+  saveReplayBundle,
+  saveReplayOutputs,
+} from "./replay";
+
+describe("replay", () => {
+  describe("diffLines", () => {
+    it("should return only removed and added lines", () => {
+      expect(diffLines("a\nb\nc", "a\nx\nc\nd")).toEqual(["- b", "+ x", "+ d"]);
+      expect(diffLines("same", "same")).toEqual([]);
+    });
+  });
+
+  describe("diffOutputDirs", () => {
+    let original: string;
+    let replayed: string;
+
+    beforeEach(async () => {
+      original = await mkdtemp(join(tmpdir(), "replay-original-"));
+      replayed = await mkdtemp(join(tmpdir(), "replay-replayed-"));
+    });
+
+    afterEach(async () => {
+      await rm(original, { recursive: true, force: true });
+      await rm(replayed, { recursive: true, force: true });
+    });
+
+    it("should classify files and diff JSON per field", async () => {
+      await writeFile(join(original, "add-comment.json"), '{"body":"Thanks!"}');
+      await writeFile(join(replayed, "add-comment.json"), '{"body":"Thanks for the report"}');
+      await writeFile(join(original, "add-label.json"), '{"labels":["bug"]}');
+      await writeFile(join(replayed, "add-label.json"), '{ "labels": ["bug"] }');
+      await writeFile(join(original, "close-issue.json"), "{}");
+      await writeFile(join(replayed, "create-issue.json"), '{"title":"Follow-up"}');
+
+      const diffs = await diffOutputDirs(original, replayed);
+
+      expect(diffs.map((d) => [d.file, d.status])).toEqual([
+        ["add-comment.json", "changed"],
+        ["add-label.json", "unchanged"],
+        ["close-issue.json", "removed"],
+        ["create-issue.json", "added"],
+      ]);
+      expect(diffs[0].lines).toEqual([
+        '-   "body": "Thanks!"',
+        '+   "body": "Thanks for the report"',
+      ]);
+    });
+
+    it("should treat a missing directory as empty", async () => {
+      await writeFile(join(replayed, "add-comment.json"), "{}");
+
+      const diffs = await diffOutputDirs(join(original, "missing"), replayed);
+
+      expect(diffs).toEqual([{ file: "add-comment.json", status: "added", lines: ["+ {}"] }]);
+    });
+  });
+
+  describe("bundle", () => {
+    const outputsDir = "/tmp/replay-test-outputs";
+
+    afterEach(async () => {
+      await rm(REPLAY_DIR, { recursive: true, force: true });
+      await rm(outputsDir, { recursive: true, force: true });
+    });
+
+    it("should save and load the run's context, instructions, event and outputs", async () => {
+      await mkdir(outputsDir, { recursive: true });
+      await writeFile(join(outputsDir, "add-comment.json"), '{"body":"Hi"}');
+
+      await saveReplayBundle(
+        {
+          agent: "Triage",
+          run_id: "42",
+          repository: "owner/repo",
+          event_name: "issues",
+          actor: "octocat",
+        },
+        "GitHub Event: issues",
+        "Triage the issue.",
+        { issue: { number: 7 } },
+      );
+      await saveReplayOutputs(outputsDir);
+
+      const bundle = await loadReplayBundle("/tmp/audit");
+
+      expect(bundle?.manifest).toMatchObject({ agent: "Triage", run_id: "42", actor: "octocat" });
+      expect(bundle?.context).toBe("GitHub Event: issues");
+      expect(bundle?.instructions).toBe("Triage the issue.");
+      expect(bundle?.eventPath).toBe(join(REPLAY_DIR, "event.json"));
+      expect(await Bun.file(join(bundle?.outputsDir ?? "", "add-comment.json")).text()).toBe(
+        '{"body":"Hi"}',
+      );
+    });
+
+    it("should return null for artifacts without a replay bundle", async () => {
+      expect(await loadReplayBundle("/tmp/no-such-audit")).toBeNull();
+    });
+  });
+});
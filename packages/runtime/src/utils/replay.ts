@@ -0,0 +1,205 @@
+import { existsSync } from "node:fs";
+import { cp, mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+/**
+ * Replay bundle saved inside the agent's audit artifact. It holds everything needed to
+ * replay the outputs stage or re-run the agent against the same context later.
+ */
+export const REPLAY_DIR = "/tmp/audit/replay";
+
+const MANIFEST_FILE = "replay.json";
+const CONTEXT_FILE = "context.txt";
+const INSTRUCTIONS_FILE = "instructions.md";
+const EVENT_FILE = "event.json";
+const OUTPUTS_DIR = "outputs";
+
+/**
+ * Run metadata stored with the replay bundle
+ */
+export interface ReplayManifest {
+  schema_version: "1.0.0";
+  agent: string;
+  run_id: string;
+  repository: string;
+  event_name: string;
+  actor: string;
+}
+
+/**
+ * A replay bundle loaded from a downloaded audit artifact
+ */
+export interface ReplayBundle {
+  manifest: ReplayManifest;
+  /** Prompt context (event, collected context, labels) without the agent instructions */
+  context: string;
+  /** Agent instructions the run was started with */
+  instructions: string;
+  /** Event payload of the run, if one was recorded */
+  eventPath?: string;
+  /** Output files the agent wrote during the run */
+  outputsDir: string;
+}
+
+/**
+ * Change to a single output file between two runs
+ */
+export interface OutputFileDiff {
+  file: string;
+  status: "added" | "removed" | "changed" | "unchanged";
+  /** Changed lines, prefixed with "- " or "+ " */
+  lines: string[];
+}
+
+/**
+ * Save the run's prompt context, instructions and event to the replay bundle.
+ */
+export async function saveReplayBundle(
+  manifest: Omit<ReplayManifest, "schema_version">,
+  context: string,
+  instructions: string,
+  event?: unknown,
+): Promise<void> {
+  await mkdir(REPLAY_DIR, { recursive: true });
+  await writeFile(
+    join(REPLAY_DIR, MANIFEST_FILE),
+    JSON.stringify({ schema_version: "1.0.0", ...manifest }, null, 2),
+  );
+  await writeFile(join(REPLAY_DIR, CONTEXT_FILE), context);
+  await writeFile(join(REPLAY_DIR, INSTRUCTIONS_FILE), instructions);
+  if (event !== undefined) {
+    await writeFile(join(REPLAY_DIR, EVENT_FILE), JSON.stringify(event, null, 2));
+  }
+}
+
+/**
+ * Copy the output files the agent wrote into the replay bundle, before the outputs
+ * stage consumes them.
+ */
+export async function saveReplayOutputs(outputsDir = "/tmp/outputs"): Promise<void> {
+  const destination = join(REPLAY_DIR, OUTPUTS_DIR);
+  await rm(destination, { recursive: true, force: true });
+  if (existsSync(outputsDir)) {
+    await cp(outputsDir, destination, { recursive: true });
+  }
+}
+
+/**
+ * Load a replay bundle from a downloaded audit artifact directory.
+ * Returns null when the artifact has no replay bundle (runs from older versions).
+ */
+export async function loadReplayBundle(auditDir: string): Promise<ReplayBundle | null> {
+  const dir = join(auditDir, "replay");
+  const manifestPath = join(dir, MANIFEST_FILE);
+  if (!existsSync(manifestPath)) {
+    return null;
+  }
+
+  const eventPath = join(dir, EVENT_FILE);
+  return {
+    manifest: JSON.parse(await readFile(manifestPath, "utf-8")),
+    context: await readFile(join(dir, CONTEXT_FILE), "utf-8"),
+    instructions: await readFile(join(dir, INSTRUCTIONS_FILE), "utf-8"),
+    eventPath: existsSync(eventPath) ? eventPath : undefined,
+    outputsDir: join(dir, OUTPUTS_DIR),
+  };
+}
+
+/**
+ * Compare the output files of the original run with those of a replay.
+ * JSON files are compared after pretty-printing so changes show up per field.
+ */
+export async function diffOutputDirs(
+  originalDir: string,
+  replayedDir: string,
+): Promise<OutputFileDiff[]> {
+  const original = await readOutputFiles(originalDir);
+  const replayed = await readOutputFiles(replayedDir);
+  const files = [...new Set([...original.keys(), ...replayed.keys()])].sort();
+
+  return files.map((file) => {
+    const before = original.get(file);
+    const after = replayed.get(file);
+
+    if (before === undefined) {
+      return { file, status: "added", lines: prefixLines("+ ", after ?? "") };
+    }
+    if (after === undefined) {
+      return { file, status: "removed", lines: prefixLines("- ", before) };
+    }
+    if (before === after) {
+      return { file, status: "unchanged", lines: [] };
+    }
+    return { file, status: "changed", lines: diffLines(before, after) };
+  });
+}
+
+/**
+ * Line diff based on the longest common subsequence. Only changed lines are returned.
+ */
+export function diffLines(before: string, after: string): string[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push(`- ${a[i++]}`);
+    } else {
+      lines.push(`+ ${b[j++]}`);
+    }
+  }
+  while (i < a.length) {
+    lines.push(`- ${a[i++]}`);
+  }
+  while (j < b.length) {
+    lines.push(`+ ${b[j++]}`);
+  }
+
+  return lines;
+}
+
+async function readOutputFiles(dir: string): Promise<Map<string, string>> {
+  const files = new Map<string, string>();
+  if (!existsSync(dir)) {
+    return files;
+  }
+
+  for (const file of await readdir(dir, { recursive: true, withFileTypes: false })) {
+    const path = join(dir, file);
+    const content = await readFile(path, "utf-8").catch(() => undefined);
+    if (content !== undefined) {
+      files.set(file, normalizeContent(file, content));
+    }
+  }
+
+  return files;
+}
+
+function normalizeContent(file: string, content: string): string {
+  if (!file.endsWith(".json")) {
+    return content;
+  }
+  try {
+    return JSON.stringify(JSON.parse(content), null, 2);
+  } catch {
+    return content;
+  }
+}
+
+function prefixLines(prefix: string, content: string): string[] {
+  return content.split("\n").map((line) => `${prefix}${line}`);
+}
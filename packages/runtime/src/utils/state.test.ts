@@ -0,0 +1,242 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getArtifactPath, readArtifact } from "./artifacts";
+import {
+  ArtifactStateStore,
+  agentStateScope,
+  createStateStore,
+  GitBranchStateStore,
+  type GitHubApi,
+  getLastSuccessfulRun,
+  LocalStateStore,
+  loadRunHistory,
+  type RunRecord,
+  recordRun,
+  stateArtifactName,
+} from "./state";
+
+const run = (id: string, timestamp: string, conclusion: RunRecord["conclusion"]): RunRecord => ({
+  run_id: id,
+  timestamp,
+  conclusion,
+});
+
+describe("state", () => {
+  describe("agentStateScope", () => {
+    it("should slugify the agent name", () => {
+      expect(agentStateScope("Issue Triage!")).toBe("agent-issue-triage");
+      expect(stateArtifactName("agent-issue-triage", "runs")).toBe("agent-issue-triage-runs-state");
+    });
+  });
+
+  describe("createStateStore", () => {
+    it("should default to the artifact backend", () => {
+      expect(createStateStore("owner/repo").backend).toBe("artifact");
+    });
+
+    it("should select the configured backend", () => {
+      expect(createStateStore("owner/repo", { backend: "git-branch" })).toBeInstanceOf(
+        GitBranchStateStore,
+      );
+      expect(createStateStore("owner/repo", { backend: "local", path: "/tmp/x" })).toBeInstanceOf(
+        LocalStateStore,
+      );
+    });
+  });
+
+  describe("LocalStateStore", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "state-test-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should read back written values per scope and key", async () => {
+      const store = new LocalStateStore(dir);
+      await store.write("agent-a", "runs", { count: 1 });
+
+      expect(await store.read("agent-a", "runs")).toEqual({ count: 1 });
+      expect(await store.read("agent-b", "runs")).toBeNull();
+    });
+  });
+
+  describe("ArtifactStateStore", () => {
+    const name = stateArtifactName("agent-state-test", "events");
+
+    afterEach(async () => {
+      await rm(getArtifactPath(name), { recursive: true, force: true });
+    });
+
+    it("should write to the local artifact and read it back", async () => {
+      const store = new ArtifactStateStore("owner/repo");
+      await store.write("agent-state-test", "events", { records: [] });
+
+      expect(await readArtifact(name, "state.json")).toContain('"records"');
+      expect(await store.read("agent-state-test", "events")).toEqual({ records: [] });
+    });
+  });
+
+  describe("GitBranchStateStore", () => {
+    /**
+     * Contents API of a repository in memory. `beforeCommit` runs before each file commit,
+     * standing in for another run that commits first.
+     */
+    const createRepository = () => {
+      const files = new Map<string, { content: string; sha: string }>();
+      let commits = 0;
+      const repository = {
+        files,
+        branch: false,
+        /** Error every request fails with, standing in for an API outage */
+        outage: undefined as string | undefined,
+        beforeCommit: undefined as (() => void) | undefined,
+        commit(path: string, value: unknown) {
+          files.set(path, { content: JSON.stringify(value), sha: `sha-${++commits}` });
+        },
+        read(path: string) {
+          return JSON.parse(files.get(path)?.content ?? "null");
+        },
+      };
+
+      const api = (async (endpoint: string, method?: string, body?: Record<string, unknown>) => {
+        if (repository.outage) {
+          throw new Error(repository.outage);
+        }
+        const contents = endpoint.match(/^repos\/o\/r\/contents\/([^?]+)/)?.[1];
+        if (contents && !method) {
+          const file = repository.branch ? files.get(contents) : undefined;
+          if (!file) {
+            throw new Error("HTTP 404");
+          }
+          return { content: Buffer.from(file.content).toString("base64"), sha: file.sha };
+        }
+        if (contents && method === "PUT") {
+          repository.beforeCommit?.();
+          if (files.get(contents)?.sha !== body?.sha) {
+            throw new Error("HTTP 409: sha does not match");
+          }
+          const content = Buffer.from(body?.content as string, "base64").toString("utf-8");
+          repository.commit(contents, JSON.parse(content));
+          return {};
+        }
+        if (endpoint === "repos/o/r/git/ref/heads/state") {
+          if (!repository.branch) {
+            throw new Error("HTTP 404");
+          }
+          return {};
+        }
+        if (endpoint === "repos/o/r/git/trees") {
+          const [entry] = body?.tree as Array<{ path: string; content: string }>;
+          repository.commit(entry.path, JSON.parse(entry.content));
+          return { sha: "tree" };
+        }
+        if (endpoint === "repos/o/r/git/commits") {
+          return { sha: "root" };
+        }
+        if (endpoint === "repos/o/r/git/refs") {
+          repository.branch = true;
+          return {};
+        }
+        throw new Error(`Unexpected ${method ?? "GET"} ${endpoint}`);
+      }) as GitHubApi;
+
+      return { repository, store: new GitBranchStateStore("o/r", "state", api) };
+    };
+
+    it("should create the branch on the first write", async () => {
+      const { repository, store } = createRepository();
+      await store.write("agent-a", "runs", { count: 1 });
+
+      expect(repository.branch).toBe(true);
+      expect(await store.read("agent-a", "runs")).toEqual({ count: 1 });
+    });
+
+    it("should re-apply an update to what another run committed in between", async () => {
+      const { repository, store } = createRepository();
+      repository.branch = true;
+      repository.commit("agent-a/events.json", { keys: ["a"] });
+      repository.beforeCommit = () => {
+        repository.beforeCommit = undefined;
+        repository.commit("agent-a/events.json", { keys: ["a", "b"] });
+      };
+
+      const written = await store.update<{ keys: string[] }>("agent-a", "events", (current) => ({
+        keys: [...(current?.keys ?? []), "c"],
+      }));
+
+      expect(written).toEqual({ keys: ["a", "b", "c"] });
+      expect(repository.read("agent-a/events.json")).toEqual({ keys: ["a", "b", "c"] });
+    });
+
+    it("should fail instead of overwriting when every attempt conflicts", async () => {
+      const { repository, store } = createRepository();
+      repository.branch = true;
+      repository.commit("agent-a/events.json", { keys: ["a"] });
+      repository.beforeCommit = () => repository.commit("agent-a/events.json", { keys: ["b"] });
+
+      await expect(
+        store.update<{ keys: string[] }>("agent-a", "events", () => ({ keys: ["c"] })),
+      ).rejects.toThrow("Failed to update agent-a/events.json after 5 attempts: HTTP 409");
+      expect(repository.read("agent-a/events.json")).toEqual({ keys: ["b"] });
+    });
+
+    it("should fail instead of reading empty state when the API errors", async () => {
+      const { repository, store } = createRepository();
+      repository.branch = true;
+      repository.commit("agent-a/events.json", { keys: ["a"] });
+      repository.outage = "HTTP 503: Service Unavailable";
+
+      await expect(store.read("agent-a", "events")).rejects.toThrow("HTTP 503");
+      await expect(
+        store.update<{ keys: string[] }>("agent-a", "events", () => ({ keys: [] })),
+      ).rejects.toThrow("HTTP 503");
+
+      repository.outage = undefined;
+      expect(repository.read("agent-a/events.json")).toEqual({ keys: ["a"] });
+    });
+  });
+
+  describe("run history", () => {
+    let dir: string;
+    let store: LocalStateStore;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "state-test-"));
+      store = new LocalStateStore(dir);
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should keep runs newest first and replace reruns", async () => {
+      await recordRun(store, "agent-a", run("1", "2025-06-01T00:00:00Z", "failure"));
+      await recordRun(store, "agent-a", run("2", "2025-06-02T00:00:00Z", "success"));
+      await recordRun(store, "agent-a", run("1", "2025-06-03T00:00:00Z", "success"));
+
+      const history = await loadRunHistory(store, "agent-a");
+      expect(history.runs.map((r) => r.run_id)).toEqual(["1", "2"]);
+    });
+
+    it("should find the most recent successful run", async () => {
+      await recordRun(store, "agent-a", run("1", "2025-06-01T00:00:00Z", "success"));
+      await recordRun(store, "agent-a", run("2", "2025-06-02T00:00:00Z", "failure"));
+
+      const last = getLastSuccessfulRun(await loadRunHistory(store, "agent-a"));
+      expect(last?.run_id).toBe("1");
+    });
+
+    it("should start empty without a stored history", async () => {
+      expect(await loadRunHistory(store, "agent-a")).toEqual({
+        schema_version: "1.0.0",
+        runs: [],
+      });
+    });
+  });
+});
@@ -0,0 +1,385 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { loadRepositoryConfig } from "@repo-agents/parser";
+import type { StateBackend, StateConfig } from "@repo-agents/types";
+import { $ } from "bun";
+import { downloadLatestArtifact, getArtifactPath, readArtifact, writeArtifact } from "./artifacts";
+
+/**
+ * Storage for state that must survive between workflow runs: deduplication records,
+ * run history (rate limits, `since: last-run`) and spend for budgets.
+ *
+ * State is addressed by a scope (one per agent, see `agentStateScope`) and a key
+ * (see `STATE_KEYS`). Values are JSON.
+ */
+export interface StateStore {
+  readonly backend: StateBackend;
+  /** Read a value, or null when nothing was stored yet */
+  read<T>(scope: string, key: string): Promise<T | null>;
+  /** Replace a value, whatever is stored */
+  write<T>(scope: string, key: string, value: T): Promise<void>;
+  /**
+   * Derive a value from the stored one (null when nothing was stored yet) and write it.
+   * Backends shared between concurrent runs re-apply `mutate` to the latest value when
+   * another run wrote in between, so that neither update is lost.
+   * @returns The value written
+   */
+  update<T>(scope: string, key: string, mutate: (current: T | null) => T): Promise<T>;
+}
+
+/** Keys of the state kept per agent */
+export const STATE_KEYS = {
+  /** Event deduplication records, written by the dispatcher */
+  events: "events",
+  /** Action deduplication records, written by the outputs stage */
+  actions: "actions",
+  /** Run history, written by the agent stage */
+  runs: "runs",
+  /** Cost of recent runs for budget checks, written by the agent stage */
+  spend: "spend",
+} as const;
+
+/** Default branch of the git-branch backend */
+export const DEFAULT_STATE_BRANCH = "repo-agents-state";
+
+/** File inside each state artifact */
+const STATE_FILE = "state.json";
+
+/** Attempts of a git-branch update before giving up on concurrent writers */
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/** Runs kept in an agent's history */
+const MAX_RUN_HISTORY = 50;
+
+/**
+ * State scope of an agent.
+ */
+export function agentStateScope(agentName: string): string {
+  const slug = agentName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `agent-${slug}`;
+}
+
+/**
+ * Workflow artifact holding one state value. The generated workflow uploads
+ * `/tmp/artifacts/<name>/` under this name.
+ */
+export function stateArtifactName(scope: string, key: string): string {
+  return `${scope}-${key}-state`;
+}
+
+/**
+ * Keeps state in files on disk. Used for tests, local runs and self-hosted runners
+ * with a persistent disk.
+ */
+export class LocalStateStore implements StateStore {
+  readonly backend = "local";
+
+  constructor(private readonly directory = join(tmpdir(), "repo-agents-state")) {}
+
+  async read<T>(scope: string, key: string): Promise<T | null> {
+    const path = this.getPath(scope, key);
+    if (!existsSync(path)) {
+      return null;
+    }
+    return parseState<T>(await readFile(path, "utf-8"));
+  }
+
+  async write<T>(scope: string, key: string, value: T): Promise<void> {
+    const path = this.getPath(scope, key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(value, null, 2));
+  }
+
+  async update<T>(scope: string, key: string, mutate: (current: T | null) => T): Promise<T> {
+    const value = mutate(await this.read<T>(scope, key));
+    await this.write(scope, key, value);
+    return value;
+  }
+
+  private getPath(scope: string, key: string): string {
+    return join(this.directory, scope, `${key}.json`);
+  }
+}
+
+/**
+ * Keeps each value in its own workflow artifact. Reads prefer the local artifact
+ * (written earlier in the same job) and otherwise download the newest one; writes
+ * only go to the local artifact, which the workflow uploads at the end of the job.
+ */
+export class ArtifactStateStore implements StateStore {
+  readonly backend = "artifact";
+  private readonly attempted = new Set<string>();
+
+  constructor(private readonly repository: string) {}
+
+  async read<T>(scope: string, key: string): Promise<T | null> {
+    const name = stateArtifactName(scope, key);
+    let content = await readArtifact(name, STATE_FILE);
+
+    if (!content && !this.attempted.has(name)) {
+      this.attempted.add(name);
+      try {
+        if (await downloadLatestArtifact(this.repository, name, getArtifactPath(name))) {
+          content = await readArtifact(name, STATE_FILE);
+        }
+      } catch (error) {
+        console.warn(`Failed to download ${name}: ${(error as Error).message}`);
+      }
+    }
+
+    return content ? parseState<T>(content) : null;
+  }
+
+  async write<T>(scope: string, key: string, value: T): Promise<void> {
+    await writeArtifact(stateArtifactName(scope, key), STATE_FILE, JSON.stringify(value, null, 2));
+  }
+
+  async update<T>(scope: string, key: string, mutate: (current: T | null) => T): Promise<T> {
+    const value = mutate(await this.read<T>(scope, key));
+    await this.write(scope, key, value);
+    return value;
+  }
+}
+
+/**
+ * Keeps state as JSON files on a dedicated branch, committed through the contents API.
+ * The branch is created without history on first write. Needs `contents: write`.
+ *
+ * Every update commits against the sha it read. When another run committed in between,
+ * the update reads the file again and re-applies its mutation.
+ */
+export class GitBranchStateStore implements StateStore {
+  readonly backend = "git-branch";
+
+  constructor(
+    private readonly repository: string,
+    private readonly branch = DEFAULT_STATE_BRANCH,
+    private readonly api: GitHubApi = gh,
+  ) {}
+
+  async read<T>(scope: string, key: string): Promise<T | null> {
+    const file = await this.getFile(`${scope}/${key}.json`);
+    return file ? parseState<T>(Buffer.from(file.content, "base64").toString("utf-8")) : null;
+  }
+
+  async write<T>(scope: string, key: string, value: T): Promise<void> {
+    await this.update(scope, key, () => value);
+  }
+
+  async update<T>(scope: string, key: string, mutate: (current: T | null) => T): Promise<T> {
+    const path = `${scope}/${key}.json`;
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const file = await this.getFile(path);
+      const value = mutate(
+        file ? parseState<T>(Buffer.from(file.content, "base64").toString("utf-8")) : null,
+      );
+      const content = JSON.stringify(value, null, 2);
+
+      try {
+        if (file) {
+          await this.putFile(path, content, file.sha);
+        } else if (await this.branchExists()) {
+          await this.putFile(path, content);
+        } else {
+          await this.createBranch(path, content);
+        }
+        return value;
+      } catch (error) {
+        // Another run committed the file or created the branch since it was read
+        lastError = error;
+      }
+    }
+
+    throw new Error(
+      `Failed to update ${path} after ${MAX_UPDATE_ATTEMPTS} attempts: ${(lastError as Error).message}`,
+    );
+  }
+
+  private async getFile(path: string): Promise<{ content: string; sha: string } | null> {
+    try {
+      return await this.api<{ content: string; sha: string }>(
+        `repos/${this.repository}/contents/${path}?ref=${this.branch}`,
+      );
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async putFile(path: string, content: string, sha?: string): Promise<void> {
+    await this.api(`repos/${this.repository}/contents/${path}`, "PUT", {
+      message: `Update ${path}`,
+      content: Buffer.from(content).toString("base64"),
+      branch: this.branch,
+      ...(sha && { sha }),
+    });
+  }
+
+  private async branchExists(): Promise<boolean> {
+    try {
+      await this.api(`repos/${this.repository}/git/ref/heads/${this.branch}`);
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async createBranch(path: string, content: string): Promise<void> {
+    const tree = await this.api<{ sha: string }>(`repos/${this.repository}/git/trees`, "POST", {
+      tree: [{ path, mode: "100644", type: "blob", content }],
+    });
+    const commit = await this.api<{ sha: string }>(`repos/${this.repository}/git/commits`, "POST", {
+      message: "Initialize Repo Agents state",
+      tree: tree.sha,
+      parents: [],
+    });
+    await this.api(`repos/${this.repository}/git/refs`, "POST", {
+      ref: `refs/heads/${this.branch}`,
+      sha: commit.sha,
+    });
+  }
+}
+
+/**
+ * Create the state store for a backend configuration.
+ */
+export function createStateStore(repository: string, config: StateConfig = {}): StateStore {
+  switch (config.backend ?? "artifact") {
+    case "git-branch":
+      return new GitBranchStateStore(repository, config.branch);
+    case "local":
+      return new LocalStateStore(config.path);
+    default:
+      return new ArtifactStateStore(repository);
+  }
+}
+
+/**
+ * Open the state store configured in the repository config (artifact by default).
+ */
+export async function openStateStore(repository: string): Promise<StateStore> {
+  const { config, errors } = await loadRepositoryConfig();
+  for (const error of errors) {
+    console.warn(`Ignoring repository config: ${error.field}: ${error.message}`);
+  }
+  return createStateStore(repository, config.state);
+}
+
+/**
+ * A completed run of an agent
+ */
+export interface RunRecord {
+  run_id: string;
+  /** When the run started */
+  timestamp: string;
+  conclusion: "success" | "failure";
+}
+
+/**
+ * Recent runs of one agent, newest first
+ */
+export interface RunHistory {
+  schema_version: "1.0.0";
+  runs: RunRecord[];
+}
+
+/**
+ * Load an agent's run history. Falls back to an empty history.
+ */
+export async function loadRunHistory(store: StateStore, scope: string): Promise<RunHistory> {
+  return toRunHistory(await store.read<RunHistory>(scope, STATE_KEYS.runs));
+}
+
+/**
+ * Add a run to an agent's history, keeping the most recent runs.
+ */
+export async function recordRun(
+  store: StateStore,
+  scope: string,
+  record: RunRecord,
+): Promise<void> {
+  await store.update<RunHistory>(scope, STATE_KEYS.runs, (current) => ({
+    schema_version: "1.0.0",
+    runs: [
+      record,
+      ...toRunHistory(current).runs.filter((run) => run.run_id !== record.run_id),
+    ].slice(0, MAX_RUN_HISTORY),
+  }));
+}
+
+/**
+ * Most recent successful run in a history.
+ */
+export function getLastSuccessfulRun(history: RunHistory): RunRecord | undefined {
+  return history.runs
+    .filter((run) => run.conclusion === "success")
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))[0];
+}
+
+function toRunHistory(history: RunHistory | null): RunHistory {
+  if (!history || history.schema_version !== "1.0.0" || !Array.isArray(history.runs)) {
+    return { schema_version: "1.0.0", runs: [] };
+  }
+  return history;
+}
+
+function parseState<T>(content: string): T | null {
+  try {
+    return JSON.parse(content) as T;
+  } catch {
+    console.warn("Ignoring unreadable state");
+    return null;
+  }
+}
+
+/** Whether a GitHub API error is a 404 (missing file, ref or branch) */
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && /\bHTTP 404\b/.test(error.message);
+}
+
+/** Calls the GitHub API: endpoint, method and JSON body, returning the parsed response */
+export type GitHubApi = <T = unknown>(
+  endpoint: string,
+  method?: string,
+  body?: Record<string, unknown>,
+) => Promise<T>;
+
+/**
+ * Call the GitHub API with the workflow token, which carries the workflow's
+ * `contents` permission (app tokens may not cover the state branch).
+ */
+async function gh<T = unknown>(
+  endpoint: string,
+  method?: string,
+  body?: Record<string, unknown>,
+): Promise<T> {
+  const env = { ...process.env, GH_TOKEN: process.env.GITHUB_TOKEN || process.env.GH_TOKEN };
+  const args = ["api", endpoint, ...(method ? ["--method", method] : [])];
+
+  const result = body
+    ? await $`gh ${[...args, "--input", "-"]} < ${new Response(JSON.stringify(body))}`
+        .env(env)
+        .nothrow()
+        .quiet()
+    : await $`gh ${args}`.env(env).nothrow().quiet();
+
+  if (result.exitCode !== 0) {
+    // gh reports the status on stderr, e.g. "gh: Not Found (HTTP 404)"
+    throw new Error(result.stderr.toString().trim() || `gh exited with code ${result.exitCode}`);
+  }
+
+  const output = result.stdout.toString().trim();
+  return (output ? JSON.parse(output) : {}) as T;
+}
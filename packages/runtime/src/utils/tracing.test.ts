@@ -1,4 +1,5 @@
-import { describe, expect, it } from "bun:test";
+import { afterEach, describe, expect, it } from "bun:test";
+import { rm } from "node:fs/promises";
 import type { AgentDefinition } from "@repo-agents/types";
 import {
   createTracer,
@@ -6,6 +7,10 @@ import {
   formatTraceTimeline,
   getTraceLevel,
   isTracingEnabled,
+  loadTracer,
+  readTrace,
+  TRACE_FILE,
+  writeTrace,
 } from "./tracing";
 
 describe("ExecutionTracer", () => {
@@ -250,6 +255,87 @@ describe("ExecutionTracer", () => {
       expect(trace.steps?.[0].target).toContain("[truncated");
       expect(trace.steps?.[0].target?.split("\n").length).toBeLessThanOrEqual(6);
     });
+
+    it("should keep default redactions when adding custom patterns", () => {
+      const tracer = new ExecutionTracer("test-agent", "run-123", {
+        level: "detailed",
+        redact: { patterns: ["internal-\\d+"] },
+      });
+
+      const longContent = Array.from({ length: 150 }, (_, i) => `line${i}`).join("\n");
+      tracer.recordStep("read", longContent, "success");
+
+      expect(tracer.getTrace().steps?.[0].target).toContain("[truncated 50 lines]");
+    });
+
+    it("should redact strings inside arrays", () => {
+      const tracer = new ExecutionTracer("test-agent", "run-123", {
+        level: "detailed",
+      });
+
+      tracer.recordStep("write", "file.txt", "success", undefined, {
+        lines: ["safe", "token: abc123"],
+      });
+
+      const details = tracer.getTrace().steps?.[0].details;
+      expect(details?.lines).toEqual(["safe", "[REDACTED]"]);
+    });
+  });
+
+  describe("resume", () => {
+    it("should continue the timeline and action counts of an earlier trace", () => {
+      const first = new ExecutionTracer("test-agent", "run-123", { level: "detailed" });
+      first.recordStep("read", "a.ts", "success");
+      first.recordToolCall("Read", { file_path: "a.ts" }, "success", 5);
+      const earlier = first.complete("success");
+
+      const tracer = ExecutionTracer.resume(earlier, { level: "detailed" });
+      tracer.recordStep("read", "b.ts", "success");
+      const trace = tracer.complete("success");
+
+      expect(trace.trace_id).toBe(earlier.trace_id);
+      expect(trace.steps?.map((step) => step.target)).toEqual(["a.ts", "b.ts"]);
+      expect(trace.summary.actions).toEqual(["read 2 times"]);
+      expect(trace.summary.total_tool_calls).toBe(1);
+    });
+  });
+});
+
+describe("trace files", () => {
+  const agent: AgentDefinition = {
+    name: "Test Agent",
+    on: {},
+    markdown: "",
+    tracing: { level: "detailed" },
+  };
+
+  afterEach(async () => {
+    await rm(TRACE_FILE, { force: true });
+  });
+
+  it("should write and read a trace", async () => {
+    const trace = createTracer(agent, "run-123").complete("success");
+
+    await writeTrace(trace);
+
+    expect(await readTrace()).toEqual(trace);
+  });
+
+  it("should resume the trace written by an earlier stage", async () => {
+    const earlier = createTracer(agent, "run-123");
+    earlier.recordStep("run-claude", undefined, "success");
+    await writeTrace(earlier.complete("success"));
+
+    const tracer = await loadTracer(agent, "run-123");
+
+    expect(tracer.getTraceId()).toBe(earlier.getTraceId());
+    expect(tracer.getTrace().status).toBe("running");
+  });
+
+  it("should start a new trace when none was written", async () => {
+    const tracer = await loadTracer(agent, "run-123");
+
+    expect(tracer.getTrace().steps).toEqual([]);
   });
 });
 
@@ -1,4 +1,7 @@
 import { randomUUID } from "node:crypto";
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
 import type {
   AgentDefinition,
   ExecutionTrace,
@@ -9,6 +12,9 @@ import type {
   TracingConfig,
 } from "@repo-agents/types";
 
+/** Trace shared by the agent and outputs stages, uploaded with the audit artifact */
+export const TRACE_FILE = "/tmp/audit/traces/trace.json";
+
 /**
  * Default tracing configuration
  */
@@ -48,7 +54,11 @@ export class ExecutionTracer {
   private actionCounts: Map<string, number> = new Map();
 
   constructor(agentName: string, workflowRunId: string, config?: TracingConfig) {
-    this.config = { ...DEFAULT_TRACING_CONFIG, ...config };
+    this.config = {
+      ...DEFAULT_TRACING_CONFIG,
+      ...config,
+      redact: { ...DEFAULT_TRACING_CONFIG.redact, ...config?.redact },
+    };
     this.startTime = Date.now();
 
     this.trace = {
@@ -79,6 +89,24 @@ export class ExecutionTracer {
     }
   }
 
+  /**
+   * Continue a trace written by an earlier stage, so both stages share one timeline.
+   */
+  static resume(trace: ExecutionTrace, config?: TracingConfig): ExecutionTracer {
+    const tracer = new ExecutionTracer(trace.agent_name, trace.workflow_run_id, config);
+    tracer.trace = { ...trace, status: "running", completed_at: undefined };
+    tracer.startTime = new Date(trace.started_at).getTime();
+
+    for (const summary of trace.summary.actions) {
+      const match = summary.match(/^(.+) (\d+) times?$/);
+      if (match) {
+        tracer.actionCounts.set(match[1], Number(match[2]));
+      }
+    }
+
+    return tracer;
+  }
+
   /**
    * Record a step in the execution.
    */
@@ -249,17 +277,27 @@ export class ExecutionTracer {
     const redacted: Record<string, unknown> = {};
 
     for (const [key, value] of Object.entries(obj)) {
-      if (typeof value === "string") {
-        redacted[key] = this.redactSensitive(value);
-      } else if (typeof value === "object" && value !== null) {
-        redacted[key] = this.redactObject(value as Record<string, unknown>);
-      } else {
-        redacted[key] = value;
-      }
+      redacted[key] = this.redactValue(value);
     }
 
     return redacted;
   }
+
+  /**
+   * Redact sensitive information from any value, recursing into arrays and objects.
+   */
+  private redactValue(value: unknown): unknown {
+    if (typeof value === "string") {
+      return this.redactSensitive(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item));
+    }
+    if (typeof value === "object" && value !== null) {
+      return this.redactObject(value as Record<string, unknown>);
+    }
+    return value;
+  }
 }
 
 /**
@@ -321,6 +359,43 @@ export function createTracer(agent: AgentDefinition, workflowRunId: string): Exe
   return new ExecutionTracer(agent.name, workflowRunId, agent.tracing);
 }
 
+/**
+ * Continue the trace an earlier stage wrote, or start a new one if there is none.
+ */
+export async function loadTracer(
+  agent: AgentDefinition,
+  workflowRunId: string,
+): Promise<ExecutionTracer> {
+  const trace = await readTrace();
+  if (trace && trace.agent_name === agent.name) {
+    return ExecutionTracer.resume(trace, agent.tracing);
+  }
+  return createTracer(agent, workflowRunId);
+}
+
+/**
+ * Write a trace to TRACE_FILE.
+ */
+export async function writeTrace(trace: ExecutionTrace): Promise<void> {
+  await mkdir(dirname(TRACE_FILE), { recursive: true });
+  await writeFile(TRACE_FILE, JSON.stringify(trace, null, 2));
+}
+
+/**
+ * Read the trace from TRACE_FILE. Returns undefined if there is none.
+ */
+export async function readTrace(path: string = TRACE_FILE): Promise<ExecutionTrace | undefined> {
+  if (!existsSync(path)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(await readFile(path, "utf-8"));
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Check if tracing is enabled for the agent.
  */
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "bun:test";
+import {
+  matchesFilterPattern,
+  matchesPushTrigger,
+  matchesReleaseTrigger,
+  matchesWorkflowRunTrigger,
+  readTriggerPayload,
+} from "./triggers";
+
+describe("triggers", () => {
+  describe("matchesFilterPattern", () => {
+    it("should match single-segment wildcards", () => {
+      expect(matchesFilterPattern("v1.2.0", ["v*"])).toBe(true);
+      expect(matchesFilterPattern("release/1.0", ["release/*"])).toBe(true);
+      expect(matchesFilterPattern("release/1.0/hotfix", ["release/*"])).toBe(false);
+    });
+
+    it("should match nested paths with double wildcards", () => {
+      expect(matchesFilterPattern("docs/guide/intro.md", ["docs/**"])).toBe(true);
+      expect(matchesFilterPattern("src/index.ts", ["docs/**", "*.md"])).toBe(false);
+    });
+  });
+
+  describe("matchesPushTrigger", () => {
+    const payload = {
+      ref: "refs/heads/main",
+      commits: [
+        { added: ["docs/new.md"], modified: [], removed: [] },
+        { added: [], modified: ["src/index.ts"], removed: ["old.txt"] },
+      ],
+    };
+
+    it("should match any push when no filters are set", () => {
+      expect(matchesPushTrigger({}, payload)).toBe(true);
+      expect(matchesPushTrigger({}, { ref: "refs/tags/v1.0.0" })).toBe(true);
+    });
+
+    it("should filter branches", () => {
+      expect(matchesPushTrigger({ branches: ["main"] }, payload)).toBe(true);
+      expect(matchesPushTrigger({ branches: ["develop"] }, payload)).toBe(false);
+    });
+
+    it("should ignore tag pushes when only branches are set", () => {
+      expect(matchesPushTrigger({ branches: ["main"] }, { ref: "refs/tags/v1.0.0" })).toBe(false);
+      expect(matchesPushTrigger({ tags: ["v*"] }, { ref: "refs/tags/v1.0.0" })).toBe(true);
+      expect(matchesPushTrigger({ tags: ["v*"] }, payload)).toBe(false);
+    });
+
+    it("should require a changed file to match paths", () => {
+      expect(matchesPushTrigger({ paths: ["docs/**"] }, payload)).toBe(true);
+      expect(matchesPushTrigger({ paths: ["old.txt"] }, payload)).toBe(true);
+      expect(matchesPushTrigger({ paths: ["packages/**"] }, payload)).toBe(false);
+      expect(matchesPushTrigger({ paths: ["docs/**"] }, { ref: "refs/heads/main" })).toBe(false);
+    });
+  });
+
+  describe("matchesReleaseTrigger", () => {
+    it("should match listed actions or every action without types", () => {
+      expect(matchesReleaseTrigger({ types: ["published"] }, "published")).toBe(true);
+      expect(matchesReleaseTrigger({ types: ["published"] }, "created")).toBe(false);
+      expect(matchesReleaseTrigger({}, "created")).toBe(true);
+    });
+  });
+
+  describe("matchesWorkflowRunTrigger", () => {
+    const payload = {
+      action: "completed",
+      workflow_run: { name: "CI", head_branch: "main", conclusion: "failure" },
+    };
+
+    it("should require the workflow to be listed", () => {
+      expect(matchesWorkflowRunTrigger({ workflows: ["CI"] }, "completed", payload)).toBe(true);
+      expect(matchesWorkflowRunTrigger({ workflows: ["Deploy"] }, "completed", payload)).toBe(
+        false,
+      );
+    });
+
+    it("should filter types, branches and conclusions", () => {
+      const trigger = {
+        workflows: ["CI"],
+        types: ["completed"],
+        branches: ["main"],
+        conclusions: ["failure", "timed_out"],
+      };
+
+      expect(matchesWorkflowRunTrigger(trigger, "completed", payload)).toBe(true);
+      expect(matchesWorkflowRunTrigger(trigger, "requested", payload)).toBe(false);
+      expect(
+        matchesWorkflowRunTrigger(trigger, "completed", {
+          workflow_run: { ...payload.workflow_run, head_branch: "feature" },
+        }),
+      ).toBe(false);
+      expect(
+        matchesWorkflowRunTrigger(trigger, "completed", {
+          workflow_run: { ...payload.workflow_run, conclusion: "success" },
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe("readTriggerPayload", () => {
+    it("should return an empty payload when the file cannot be read", async () => {
+      expect(await readTriggerPayload("")).toEqual({});
+      expect(await readTriggerPayload("/tmp/does-not-exist-event.json")).toEqual({});
+    });
+  });
+});
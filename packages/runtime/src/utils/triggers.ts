@@ -0,0 +1,131 @@
+import type { TriggerConfig } from "@repo-agents/types";
+import { Glob } from "bun";
+
+/**
+ * The parts of push, release and workflow_run payloads used for trigger matching.
+ */
+export interface TriggerEventPayload {
+  action?: string;
+  ref?: string;
+  commits?: Array<{
+    added?: string[];
+    modified?: string[];
+    removed?: string[];
+  }>;
+  workflow_run?: {
+    name?: string;
+    head_branch?: string;
+    conclusion?: string | null;
+  };
+  comment?: {
+    body?: string;
+  };
+  issue?: {
+    number?: number;
+  };
+}
+
+/**
+ * Read the event payload for trigger matching. Returns an empty payload when the
+ * file is missing or unreadable so matching falls back to "no match".
+ */
+export async function readTriggerPayload(eventPath: string): Promise<TriggerEventPayload> {
+  if (!eventPath) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(await Bun.file(eventPath).text()) as TriggerEventPayload;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Check a value against GitHub-style filter patterns.
+ * `*` matches anything except `/`, `**` matches anything.
+ */
+export function matchesFilterPattern(value: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => new Glob(pattern).match(value));
+}
+
+/**
+ * Check a push event against an agent's push trigger.
+ * Branch pushes are matched against `branches`, tag pushes against `tags`;
+ * when only one of the two is set, pushes of the other kind are ignored.
+ * `paths` requires at least one added, modified or removed file to match.
+ */
+export function matchesPushTrigger(
+  trigger: NonNullable<TriggerConfig["push"]>,
+  payload: TriggerEventPayload,
+): boolean {
+  const ref = payload.ref ?? "";
+  const hasRefFilter = trigger.branches !== undefined || trigger.tags !== undefined;
+
+  if (ref.startsWith("refs/tags/")) {
+    if (hasRefFilter && !matchesFilterPattern(ref.slice("refs/tags/".length), trigger.tags ?? [])) {
+      return false;
+    }
+  } else if (ref.startsWith("refs/heads/")) {
+    if (
+      hasRefFilter &&
+      !matchesFilterPattern(ref.slice("refs/heads/".length), trigger.branches ?? [])
+    ) {
+      return false;
+    }
+  } else {
+    return false;
+  }
+
+  if (trigger.paths && trigger.paths.length > 0) {
+    const changedFiles = (payload.commits ?? []).flatMap((commit) => [
+      ...(commit.added ?? []),
+      ...(commit.modified ?? []),
+      ...(commit.removed ?? []),
+    ]);
+    const paths = trigger.paths;
+    return changedFiles.some((file) => matchesFilterPattern(file, paths));
+  }
+
+  return true;
+}
+
+/**
+ * Check a release event against an agent's release trigger.
+ * Without `types`, every release action matches.
+ */
+export function matchesReleaseTrigger(
+  trigger: NonNullable<TriggerConfig["release"]>,
+  eventAction: string,
+): boolean {
+  return trigger.types === undefined || trigger.types.includes(eventAction);
+}
+
+/**
+ * Check a workflow_run event against an agent's workflow_run trigger.
+ * The triggering workflow must be listed; types, branches and conclusions narrow it further.
+ */
+export function matchesWorkflowRunTrigger(
+  trigger: NonNullable<TriggerConfig["workflow_run"]>,
+  eventAction: string,
+  payload: TriggerEventPayload,
+): boolean {
+  const run = payload.workflow_run;
+  if (!run?.name || !trigger.workflows.includes(run.name)) {
+    return false;
+  }
+
+  if (trigger.types && !trigger.types.includes(eventAction)) {
+    return false;
+  }
+
+  if (trigger.branches && !matchesFilterPattern(run.head_branch ?? "", trigger.branches)) {
+    return false;
+  }
+
+  if (trigger.conclusions && !trigger.conclusions.includes(run.conclusion ?? "")) {
+    return false;
+  }
+
+  return true;
+}
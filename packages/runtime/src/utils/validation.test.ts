@@ -1,8 +1,9 @@
 import { afterEach, beforeEach, describe, expect, it } from "bun:test";
-import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import type { AgentDefinition } from "@repo-agents/types";
+import { LocalStateStore, recordRun } from "./state";
 import {
   checkBotActor,
   checkSkipLabels,
@@ -875,5 +876,337 @@ describe("Deduplication utilities", () => {
       const result = await checkActionDeduplication(agent, "add-comment", { body: "test" }, state);
       expect(result.allowed).toBe(true);
     });
+
+    const stateWith = (details: Record<string, unknown>, timestamp = new Date().toISOString()) => ({
+      schema_version: "1.0.0" as const,
+      records: [
+        {
+          key: "test:action:add-comment",
+          timestamp,
+          agent_name: "test",
+          action_type: "add-comment",
+          details,
+        },
+      ],
+      last_cleanup: new Date().toISOString(),
+    });
+
+    it("should ignore key order with exact match", async () => {
+      const agent = {
+        name: "test",
+        on: {},
+        markdown: "",
+        deduplication: { actions: { window: "24h" } },
+      };
+      const state = stateWith({ body: "test", issue_number: 1 });
+
+      const result = await checkActionDeduplication(
+        agent,
+        "add-comment",
+        { issue_number: 1, body: "test" },
+        state,
+      );
+      expect(result.allowed).toBe(false);
+    });
+
+    it("should apply per-action configs only to their own action type", async () => {
+      const agent = {
+        name: "test",
+        on: {},
+        markdown: "",
+        deduplication: { actions: { "add-label": { window: "24h" } } },
+      };
+      const state = stateWith({ body: "test" });
+
+      const result = await checkActionDeduplication(agent, "add-comment", { body: "test" }, state);
+      expect(result.allowed).toBe(true);
+    });
+
+    it("should use the per-action window", async () => {
+      const agent = {
+        name: "test",
+        on: {},
+        markdown: "",
+        deduplication: { actions: { "add-comment": { window: "1h" } } },
+      };
+      const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+
+      const result = await checkActionDeduplication(
+        agent,
+        "add-comment",
+        { body: "test" },
+        stateWith({ body: "test" }, twoHoursAgo),
+      );
+      expect(result.allowed).toBe(true);
+    });
+
+    it("should block similar text on the same target with similar match", async () => {
+      const agent = {
+        name: "test",
+        on: {},
+        markdown: "",
+        deduplication: { actions: { "add-comment": { match: "similar" } } },
+      };
+      const state = stateWith({
+        body: "Thanks for reporting this bug, we will triage it soon",
+        issue_number: 7,
+      });
+
+      const result = await checkActionDeduplication(
+        agent,
+        "add-comment",
+        { body: "Thanks for reporting this bug! We will triage it soon.", issue_number: 7 },
+        state,
+      );
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain("Similar action");
+      expect(result.reason).toContain("#7");
+    });
+
+    it("should allow different text or a different target with similar match", async () => {
+      const agent = {
+        name: "test",
+        on: {},
+        markdown: "",
+        deduplication: { actions: { match: "similar" } },
+      };
+      const state = stateWith({ body: "Thanks for reporting this bug", issue_number: 7 });
+
+      const otherText = await checkActionDeduplication(
+        agent,
+        "add-comment",
+        { body: "This has been fixed in the latest release", issue_number: 7 },
+        state,
+      );
+      const otherTarget = await checkActionDeduplication(
+        agent,
+        "add-comment",
+        { body: "Thanks for reporting this bug", issue_number: 8 },
+        state,
+      );
+      expect(otherText.allowed).toBe(true);
+      expect(otherTarget.allowed).toBe(true);
+    });
+
+    it("should treat text-less actions on the same target as similar", async () => {
+      const agent = {
+        name: "test",
+        on: {},
+        markdown: "",
+        deduplication: { actions: { match: "similar" } },
+      };
+      const state = stateWith({ labels: ["bug"], issue_number: 7 });
+      state.records[0].action_type = "add-label";
+
+      const result = await checkActionDeduplication(
+        agent,
+        "add-label",
+        { labels: ["bug", "triage"], issue_number: 7 },
+        state,
+      );
+      expect(result.allowed).toBe(false);
+    });
+  });
+
+  describe("getActionDeduplicationConfig", () => {
+    const { getActionDeduplicationConfig } = require("./validation");
+    const agentWith = (actions: unknown) => ({
+      name: "test",
+      on: {},
+      markdown: "",
+      deduplication: { actions },
+    });
+
+    it("should return a global config for every action type", () => {
+      const config = { window: "1h" };
+      expect(getActionDeduplicationConfig(agentWith(config), "add-comment")).toEqual(config);
+      expect(getActionDeduplicationConfig(agentWith(config), "add-label")).toEqual(config);
+    });
+
+    it("should look up per-action configs by output type", () => {
+      const agent = agentWith({ "add-comment": { window: "1h" } });
+      expect(getActionDeduplicationConfig(agent, "add-comment")).toEqual({ window: "1h" });
+      expect(getActionDeduplicationConfig(agent, "add-label")).toBeUndefined();
+    });
+  });
+
+  describe("textSimilarity", () => {
+    const { textSimilarity } = require("./validation");
+
+    it("should ignore case and punctuation", () => {
+      expect(textSimilarity("Hello, World!", "hello world")).toBe(1);
+    });
+
+    it("should return the share of common words", () => {
+      expect(textSimilarity("a b c", "a b d")).toBe(0.5);
+    });
+  });
+
+  describe("deduplication state persistence", () => {
+    const { loadDeduplicationState, saveDeduplicationState } = require("./validation");
+    let stateDir: string;
+    let store: LocalStateStore;
+
+    beforeEach(async () => {
+      stateDir = await mkdtemp(join(tmpdir(), "dedup-state-"));
+      store = new LocalStateStore(stateDir);
+    });
+
+    afterEach(async () => {
+      await rm(stateDir, { recursive: true, force: true });
+    });
+
+    it("should return an empty state when nothing was saved", async () => {
+      const state = await loadDeduplicationState(store, "agent-test", "actions");
+      expect(state.records).toEqual([]);
+    });
+
+    it("should load a saved state", async () => {
+      const state = initDeduplicationState();
+      state.records.push(
+        createDeduplicationRecord({ name: "test", on: {}, markdown: "" }, "key", {
+          actionType: "add-comment",
+        }),
+      );
+
+      await saveDeduplicationState(store, "agent-test", "actions", state);
+      const loaded = await loadDeduplicationState(store, "agent-test", "actions");
+
+      expect(loaded.records).toHaveLength(1);
+      expect(loaded.records[0].key).toBe("key");
+    });
+
+    it("should keep records another run saved since the state was loaded", async () => {
+      const agent = { name: "test", on: {}, markdown: "" };
+      const loaded = await loadDeduplicationState(store, "agent-test", "actions");
+
+      const other = initDeduplicationState();
+      other.records.push(createDeduplicationRecord(agent, "other", { actionType: "add-label" }));
+      await saveDeduplicationState(store, "agent-test", "actions", other);
+
+      loaded.records.push(createDeduplicationRecord(agent, "mine", { actionType: "add-comment" }));
+      await saveDeduplicationState(store, "agent-test", "actions", loaded);
+
+      const saved = await loadDeduplicationState(store, "agent-test", "actions");
+      expect(saved.records.map((record: { key: string }) => record.key)).toEqual(["other", "mine"]);
+    });
+
+    it("should ignore a corrupt state", async () => {
+      await mkdir(join(stateDir, "agent-test"), { recursive: true });
+      await writeFile(join(stateDir, "agent-test", "actions.json"), "not json");
+
+      const state = await loadDeduplicationState(store, "agent-test", "actions");
+      expect(state.records).toEqual([]);
+    });
+  });
+
+  describe("applyEventDeduplication", () => {
+    const { applyEventDeduplication } = require("./validation");
+    let tempDir: string;
+    let store: LocalStateStore;
+    let ctx: {
+      github: {
+        actor: string;
+        repository: string;
+        eventName: string;
+        eventPath: string;
+        runId: number;
+        serverUrl: string;
+      };
+    };
+    const agent: AgentDefinition = {
+      name: "Triage",
+      on: {},
+      markdown: "",
+      deduplication: { events: { window: "1h" } },
+    };
+
+    beforeEach(async () => {
+      tempDir = await mkdtemp(join(tmpdir(), "event-dedup-"));
+      store = new LocalStateStore(join(tempDir, "state"));
+      const eventPath = join(tempDir, "event.json");
+      await writeFile(eventPath, JSON.stringify({ issue: { number: 7 }, action: "opened" }));
+      ctx = {
+        github: {
+          actor: "testuser",
+          repository: "owner/repo",
+          eventName: "issues",
+          eventPath,
+          runId: 1,
+          serverUrl: "https://github.com",
+        },
+      };
+    });
+
+    afterEach(async () => {
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it("should skip an event that a previous run already handled", async () => {
+      expect((await applyEventDeduplication(ctx, agent, store)).allowed).toBe(true);
+
+      const second = await applyEventDeduplication(ctx, agent, store);
+      expect(second.allowed).toBe(false);
+    });
+
+    it("should not record events in dry-run mode", async () => {
+      await applyEventDeduplication(ctx, agent, store, true);
+
+      expect((await applyEventDeduplication(ctx, agent, store)).allowed).toBe(true);
+    });
+  });
+});
+
+describe("checkRateLimit", () => {
+  const { checkRateLimit } = require("./validation");
+  const agent: AgentDefinition = { name: "Triage", on: {}, markdown: "", rate_limit_minutes: 10 };
+  const ctx = {
+    github: {
+      actor: "testuser",
+      repository: "owner/repo",
+      eventName: "issues",
+      eventPath: "",
+      runId: 1,
+      serverUrl: "https://github.com",
+    },
+  };
+  let stateDir: string;
+  let store: LocalStateStore;
+
+  beforeEach(async () => {
+    stateDir = await mkdtemp(join(tmpdir(), "rate-limit-"));
+    store = new LocalStateStore(stateDir);
+  });
+
+  afterEach(async () => {
+    await rm(stateDir, { recursive: true, force: true });
+  });
+
+  const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60_000).toISOString();
+
+  it("should allow the first run", async () => {
+    expect((await checkRateLimit(ctx, agent, store)).allowed).toBe(true);
+  });
+
+  it("should block a run within the limit of the last successful run", async () => {
+    await recordRun(store, "agent-triage", {
+      run_id: "1",
+      timestamp: minutesAgo(3),
+      conclusion: "success",
+    });
+
+    const result = await checkRateLimit(ctx, agent, store);
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toBe("Rate limit: 7 minutes remaining");
+  });
+
+  it("should ignore failed runs", async () => {
+    await recordRun(store, "agent-triage", {
+      run_id: "1",
+      timestamp: minutesAgo(3),
+      conclusion: "failure",
+    });
+
+    expect((await checkRateLimit(ctx, agent, store)).allowed).toBe(true);
   });
 });
@@ -1,12 +1,18 @@
-import type { AgentDefinition } from "@repo-agents/types";
+import type { ActionDeduplicationConfig, AgentDefinition } from "@repo-agents/types";
 import {
   countOpenPRs,
-  getRecentWorkflowRuns,
   getRepositoryPermission,
   isOrgMember,
   isTeamMember,
   parseRepository,
 } from "./index";
+import {
+  agentStateScope,
+  getLastSuccessfulRun,
+  loadRunHistory,
+  STATE_KEYS,
+  type StateStore,
+} from "./state";
 
 /**
  * Validation status tracking for audit
@@ -356,33 +362,25 @@ export async function checkSkipLabels(
 /**
  * Check rate limiting.
  *
- * Ensures minimum time has passed since the last successful run.
+ * Ensures minimum time has passed since the agent's last successful run, read from
+ * its run history in the state store.
  * Default rate limit is 5 minutes between runs.
  */
 export async function checkRateLimit(
-  ctx: ValidationContext,
+  _ctx: ValidationContext,
   agent: AgentDefinition,
+  store: StateStore,
 ): Promise<{ allowed: boolean; reason?: string; lastRun?: string }> {
   const rateLimitMinutes = agent.rate_limit_minutes ?? 5;
 
-  // Get recent workflow runs for this agent
-  const workflowFile = ctx.options?.workflowFile ?? `agent-${agent.name}.yml`;
-  const { owner, repo } = parseRepository(ctx.github.repository);
-
   try {
-    const recentRuns = await getRecentWorkflowRuns(owner, repo, workflowFile);
-
-    if (recentRuns.length === 0) {
-      return { allowed: true };
-    }
-
-    // Check most recent successful run
-    const lastSuccessfulRun = recentRuns.find((run) => run.conclusion === "success");
+    const history = await loadRunHistory(store, agentStateScope(agent.name));
+    const lastSuccessfulRun = getLastSuccessfulRun(history);
     if (!lastSuccessfulRun) {
       return { allowed: true };
     }
 
-    const lastRunTime = new Date(lastSuccessfulRun.created_at).getTime();
+    const lastRunTime = new Date(lastSuccessfulRun.timestamp).getTime();
     const now = Date.now();
     const minutesSinceLastRun = (now - lastRunTime) / 1000 / 60;
 
@@ -390,7 +388,7 @@ export async function checkRateLimit(
       return {
         allowed: false,
         reason: `Rate limit: ${Math.ceil(rateLimitMinutes - minutesSinceLastRun)} minutes remaining`,
-        lastRun: lastSuccessfulRun.created_at,
+        lastRun: lastSuccessfulRun.timestamp,
       };
     }
 
@@ -710,11 +708,46 @@ export async function checkEventDeduplication(
   return { allowed: true, key };
 }
 
+/** Word overlap (Jaccard index) at which two texts count as similar */
+const SIMILARITY_THRESHOLD = 0.8;
+
+/** Fields holding the free text of an action, compared in `similar` mode */
+const TEXT_FIELDS = ["title", "body"];
+
+/**
+ * Resolve the action deduplication config that applies to an action type.
+ *
+ * `deduplication.actions` is either one global config (with `enabled`, `window` or `match`)
+ * or a map of per-output configs. Returns undefined when the action type is not covered.
+ */
+export function getActionDeduplicationConfig(
+  agent: AgentDefinition,
+  actionType: string,
+): ActionDeduplicationConfig | undefined {
+  const actions = agent.deduplication?.actions;
+  if (!actions || typeof actions !== "object") {
+    return undefined;
+  }
+
+  const keys = Object.keys(actions);
+  const isGlobal =
+    keys.length === 0 || keys.some((key) => ["enabled", "window", "match"].includes(key));
+  if (isGlobal) {
+    return actions as ActionDeduplicationConfig;
+  }
+
+  return (actions as Record<string, ActionDeduplicationConfig>)[actionType];
+}
+
 /**
  * Check action deduplication.
  *
  * Validates if this action has already been performed within the configured time window.
  * Used before executing outputs to prevent duplicate actions.
+ *
+ * - `exact`: the action details are identical
+ * - `similar`: the action targets the same issue/PR and its title/body mostly overlaps
+ *   (any previous action on the same target counts when neither carries text)
  */
 export async function checkActionDeduplication(
   agent: AgentDefinition,
@@ -727,39 +760,20 @@ export async function checkActionDeduplication(
   key?: string;
   previousTimestamp?: string;
 }> {
-  // Skip if deduplication not configured
-  if (!agent.deduplication?.actions) {
-    return { allowed: true };
-  }
-
-  // Get action-specific config or global config
-  let actionConfig: { enabled?: boolean; window?: string; match?: "exact" | "similar" };
-  if (typeof agent.deduplication.actions === "object" && "enabled" in agent.deduplication.actions) {
-    actionConfig = agent.deduplication.actions;
-  } else if (
-    typeof agent.deduplication.actions === "object" &&
-    actionType in agent.deduplication.actions
-  ) {
-    const actions = agent.deduplication.actions as Record<
-      string,
-      { enabled?: boolean; window?: string; match?: "exact" | "similar" }
-    >;
-    actionConfig = actions[actionType] ?? { enabled: true };
-  } else {
-    return { allowed: true };
-  }
+  const actionConfig = getActionDeduplicationConfig(agent, actionType);
 
-  // Skip if disabled
-  if (actionConfig.enabled === false) {
+  // Skip if not configured for this action type, or disabled
+  if (!actionConfig || actionConfig.enabled === false) {
     return { allowed: true };
   }
 
-  const windowMs = parseTimeWindow(actionConfig.window ?? "24h");
+  const window = actionConfig.window ?? "24h";
+  const windowMs = parseTimeWindow(window);
   const matchMode = actionConfig.match ?? "exact";
   const now = Date.now();
 
   // Generate action key
-  const key = `${agent.name}:action:${actionType}:${JSON.stringify(actionDetails)}`;
+  const key = `${agent.name}:action:${actionType}:${stableStringify(actionDetails)}`;
 
   // Check if this action was performed within the window
   if (state) {
@@ -774,27 +788,22 @@ export async function checkActionDeduplication(
       }
 
       if (matchMode === "exact") {
-        // Exact match: compare stringified details
-        if (JSON.stringify(record.details) === JSON.stringify(actionDetails)) {
-          return {
-            allowed: false,
-            reason: `Action '${actionType}' already performed at ${record.timestamp} (within ${actionConfig.window ?? "24h"} window)`,
-            key,
-            previousTimestamp: record.timestamp,
-          };
-        }
-      } else if (matchMode === "similar") {
-        // Similar match: check if key fields match (for comments, check target)
-        const recordTarget = record.details?.issue_number ?? record.details?.pr_number;
-        const currentTarget = actionDetails.issue_number ?? actionDetails.pr_number;
-        if (recordTarget && currentTarget && recordTarget === currentTarget) {
+        if (stableStringify(record.details ?? {}) === stableStringify(actionDetails)) {
           return {
             allowed: false,
-            reason: `Similar action '${actionType}' already performed on #${currentTarget} at ${record.timestamp}`,
+            reason: `Action '${actionType}' already performed at ${record.timestamp} (within ${window} window)`,
             key,
             previousTimestamp: record.timestamp,
           };
         }
+      } else if (isSimilarAction(record.details ?? {}, actionDetails)) {
+        const target = getActionTarget(actionDetails);
+        return {
+          allowed: false,
+          reason: `Similar action '${actionType}' already performed${target ? ` on #${target}` : ""} at ${record.timestamp} (within ${window} window)`,
+          key,
+          previousTimestamp: record.timestamp,
+        };
       }
     }
   }
@@ -802,6 +811,71 @@ export async function checkActionDeduplication(
   return { allowed: true, key };
 }
 
+/**
+ * Check whether two actions are similar: same target and overlapping text.
+ */
+function isSimilarAction(
+  previous: Record<string, unknown>,
+  current: Record<string, unknown>,
+): boolean {
+  const previousTarget = getActionTarget(previous);
+  const currentTarget = getActionTarget(current);
+  if (previousTarget !== currentTarget) {
+    return false;
+  }
+
+  const previousText = getActionText(previous);
+  const currentText = getActionText(current);
+  if (previousText || currentText) {
+    return textSimilarity(previousText, currentText) >= SIMILARITY_THRESHOLD;
+  }
+
+  // Without text, any action on the same target is similar; untargeted ones must match
+  return currentTarget !== undefined || stableStringify(previous) === stableStringify(current);
+}
+
+function getActionTarget(details: Record<string, unknown>): string | undefined {
+  const target = details.issue_number ?? details.pr_number;
+  return target === undefined || target === null ? undefined : String(target);
+}
+
+function getActionText(details: Record<string, unknown>): string {
+  return TEXT_FIELDS.map((field) => details[field])
+    .filter((value): value is string => typeof value === "string")
+    .join(" ");
+}
+
+/**
+ * Jaccard index of the lowercase word sets of two texts (1 = same words).
+ */
+export function textSimilarity(a: string, b: string): number {
+  const words = (text: string) => new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+  const setA = words(a);
+  const setB = words(b);
+  if (setA.size === 0 && setB.size === 0) {
+    return 1;
+  }
+
+  let shared = 0;
+  for (const word of setA) {
+    if (setB.has(word)) {
+      shared++;
+    }
+  }
+  return shared / (setA.size + setB.size - shared);
+}
+
+/**
+ * JSON.stringify with object keys sorted, so key order does not affect matching.
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val) =>
+    val && typeof val === "object" && !Array.isArray(val)
+      ? Object.fromEntries(Object.entries(val).sort(([a], [b]) => a.localeCompare(b)))
+      : val,
+  );
+}
+
 /**
  * Create a new deduplication record.
  */
@@ -856,3 +930,83 @@ export function initDeduplicationState(): DeduplicationState {
     last_cleanup: new Date().toISOString(),
   };
 }
+
+/**
+ * Load the deduplication state left by previous runs from the state store.
+ * Falls back to an empty state when nothing usable is stored.
+ *
+ * @param key - `STATE_KEYS.events` or `STATE_KEYS.actions`
+ */
+export async function loadDeduplicationState(
+  store: StateStore,
+  scope: string,
+  key: string,
+): Promise<DeduplicationState> {
+  return toDeduplicationState(await store.read<DeduplicationState>(scope, key));
+}
+
+/**
+ * Save the deduplication state to the state store. Records that another run stored
+ * since the state was loaded are kept.
+ */
+export async function saveDeduplicationState(
+  store: StateStore,
+  scope: string,
+  key: string,
+  state: DeduplicationState,
+): Promise<void> {
+  await store.update<DeduplicationState>(scope, key, (current) => {
+    const known = new Set(state.records.map((record) => `${record.key}\n${record.timestamp}`));
+    return {
+      ...state,
+      records: [
+        ...toDeduplicationState(current).records.filter(
+          (record) => !known.has(`${record.key}\n${record.timestamp}`),
+        ),
+        ...state.records,
+      ],
+    };
+  });
+}
+
+function toDeduplicationState(state: DeduplicationState | null): DeduplicationState {
+  if (!state) {
+    return initDeduplicationState();
+  }
+
+  if (state.schema_version !== "1.0.0" || !Array.isArray(state.records)) {
+    console.warn("Ignoring deduplication state with unknown schema");
+    return initDeduplicationState();
+  }
+  return state;
+}
+
+/**
+ * Check event deduplication against the stored state and record the event when it is new,
+ * so later runs within the window skip it. Dry runs check without recording.
+ */
+export async function applyEventDeduplication(
+  ctx: ValidationContext,
+  agent: AgentDefinition,
+  store: StateStore,
+  dryRun = false,
+): Promise<Awaited<ReturnType<typeof checkEventDeduplication>>> {
+  if (!agent.deduplication?.events || agent.deduplication.events.enabled === false) {
+    return { allowed: true };
+  }
+
+  const scope = agentStateScope(agent.name);
+  const state = await loadDeduplicationState(store, scope, STATE_KEYS.events);
+  const result = await checkEventDeduplication(ctx, agent, state);
+
+  if (result.allowed && result.key && !dryRun) {
+    const window = parseTimeWindow(agent.deduplication.events.window ?? "1h");
+    const updated = cleanupDeduplicationState(state, window);
+    updated.records.push(
+      createDeduplicationRecord(agent, result.key, { eventType: ctx.github.eventName }),
+    );
+    await saveDeduplicationState(store, scope, STATE_KEYS.events, updated);
+  }
+
+  return result;
+}
@@ -10,7 +10,12 @@ export interface AgentDefinition {
   on: TriggerConfig;
   permissions?: PermissionsConfig;
   provider?: AgentProvider;
-  outputs?: Record<string, OutputConfig | boolean>;
+  model?: string; // Model passed to the provider CLI (default: provider default)
+  max_turns?: number; // Maximum agentic turns (Claude Code only)
+  allowed_tools?: string[]; // Extra tools on top of the defaults (e.g. "Bash(npm test:*)", "WebFetch")
+  mcp_servers?: Record<string, McpServerConfig>; // MCP servers available to the agent
+  outputs?: Record<string, OutputConfig | boolean>; // Includes the custom outputs below
+  custom_outputs?: Record<string, CustomOutputConfig>; // Outputs declared by the agent itself
   tools?: Tool[];
   allowed_actors?: string[];
   allowed_users?: string[]; // Alias for allowed_actors (explicit user list)
@@ -30,13 +35,80 @@ export interface AgentDefinition {
   timeout?: number | TimeoutConfig; // Execution timeout in minutes (number) or detailed config
   tracing?: TracingConfig; // Execution tracing configuration
   deduplication?: DeduplicationConfig; // Smart deduplication configuration
+  budget?: BudgetConfig; // Spend caps in USD
+  runner?: RunnerConfig; // Where the agent's job runs (default: ubuntu-latest)
+  downstream?: string[]; // Agents to run after this one succeeds, with its outputs as context (frontmatter: then)
+  needs?: string[]; // Agents that must succeed before this one runs, with their outputs as context
   markdown: string;
 }
 
+export interface McpServerConfig {
+  type?: "stdio" | "http" | "sse"; // Transport (default: stdio with command, http with url)
+  command?: string; // Executable for stdio servers
+  args?: string[];
+  env?: Record<string, string>;
+  url?: string; // Endpoint for http/sse servers
+  headers?: Record<string, string>;
+}
+
+export interface BudgetConfig {
+  per_run?: number; // Cut a run off once it has spent this much
+  daily?: number; // Skip the agent once its spend over the last 24 hours reaches this
+  monthly?: number; // Skip the agent once its spend over the last 30 days reaches this
+}
+
+export interface RunnerConfig {
+  runs_on?: string | string[]; // Runner labels, e.g. [self-hosted, linux, x64]
+  container?: string | RunnerContainer; // Image the job's steps run in
+  services?: Record<string, RunnerContainer>; // Service containers, e.g. a database
+  environment?: string | RunnerEnvironment; // Deployment environment, with its protection rules
+  setup_steps?: RunnerSetupStep[]; // Steps run after checkout, before the agent
+}
+
+export interface RunnerContainer {
+  image: string;
+  env?: Record<string, string>;
+  ports?: (number | string)[];
+  volumes?: string[];
+  options?: string; // Extra `docker create` options
+  credentials?: { username: string; password: string };
+}
+
+export interface RunnerEnvironment {
+  name: string;
+  url?: string;
+}
+
+export interface RunnerSetupStep {
+  name?: string;
+  uses?: string;
+  with?: Record<string, string | number | boolean>;
+  run?: string;
+  env?: Record<string, string>;
+}
+
+/**
+ * Repository-wide settings from .github/repo-agents.yml
+ */
+export interface RepositoryConfig {
+  budget?: Omit<BudgetConfig, "per_run">; // Caps on the combined spend of all agents
+  state?: StateConfig; // Where state shared between runs is kept
+  defaults?: Record<string, unknown>; // Frontmatter merged under every agent's own frontmatter
+}
+
+export type StateBackend = "artifact" | "git-branch" | "local";
+
+export interface StateConfig {
+  backend?: StateBackend; // Storage backend (default: artifact)
+  branch?: string; // Branch for the git-branch backend (default: repo-agents-state)
+  path?: string; // Directory for the local backend (default: <tmpdir>/repo-agents-state)
+}
+
 export interface AuditConfig {
   create_issues?: boolean; // Whether to create issues on failures (default: true)
   labels?: string[]; // Labels to add to audit issues
   assignees?: string[]; // Assignees for audit issues
+  resolve_after?: number; // Close a failure issue after this many consecutive successful runs (default: 3)
 }
 
 // Blueprint Types
@@ -74,6 +146,7 @@ export interface BlueprintInstance {
 export interface ResolvedBlueprint {
   source: string;
   metadata: BlueprintMetadata;
+  parameters: Record<string, unknown>; // Parameter values after applying defaults
   agent: AgentDefinition; // The resolved agent with parameters applied
 }
 
@@ -193,6 +266,17 @@ export interface InvocationConfig {
   aliases?: string[]; // Alternative command names
   allowed_users?: string[]; // Users who can invoke this command
   allowed_teams?: string[]; // Teams who can invoke this command
+  args?: Record<string, InvocationArgConfig>; // Arguments, e.g. /triage priority=high --skip-dupes
+}
+
+export type InvocationArgType = "string" | "number" | "boolean" | "choice";
+
+export interface InvocationArgConfig {
+  type?: InvocationArgType; // Default: string
+  description?: string; // Description shown in /help
+  required?: boolean;
+  default?: string | number | boolean;
+  options?: string[]; // Allowed values for choice arguments
 }
 
 export interface TimeoutConfig {
@@ -220,6 +304,20 @@ export interface TriggerConfig {
   repository_dispatch?: {
     types?: string[];
   };
+  push?: {
+    branches?: string[]; // Branch name patterns (e.g. "main", "release/**")
+    tags?: string[]; // Tag name patterns (e.g. "v*")
+    paths?: string[]; // Only run when a pushed commit touches a matching file
+  };
+  release?: {
+    types?: string[]; // Release actions (e.g. published, prereleased); all when omitted
+  };
+  workflow_run?: {
+    workflows: string[]; // Names of the workflows to follow
+    types?: string[]; // requested, in_progress, completed (all when omitted)
+    branches?: string[]; // Head branch patterns of the triggering run
+    conclusions?: string[]; // Run conclusions to react to (e.g. failure, timed_out)
+  };
   invocation?: InvocationConfig | InvocationConfig[]; // Comment-triggered execution
 }
 
@@ -277,9 +375,33 @@ export type Output =
 export interface OutputConfig {
   max?: number; // Maximum times this output can be used
   sign?: boolean; // Whether to sign commits (for code changes)
+  approval?: boolean | ApprovalConfig; // Hold the output until a maintainer replies /approve
   [key: string]: unknown; // Allow custom settings
 }
 
+/**
+ * An output type declared in frontmatter. Exactly one of run, dispatch and http executes it.
+ */
+export interface CustomOutputConfig extends OutputConfig {
+  description: string; // Skill text shown to the agent next to the built-in operations
+  schema: Record<string, unknown>; // JSON schema of the output file
+  run?: string; // Script in the repository; receives the output file on stdin
+  dispatch?: string; // repository_dispatch event type; the output file is sent as client_payload.data
+  http?: CustomOutputHttpConfig; // Endpoint the output file is sent to as JSON
+}
+
+export interface CustomOutputHttpConfig {
+  url: string;
+  method?: "POST" | "PUT" | "PATCH"; // Default: POST
+  headers?: Record<string, string>;
+}
+
+export interface ApprovalConfig {
+  users?: string[]; // Users who can approve (default: anyone with write access)
+  teams?: string[]; // Teams whose members can approve
+  expires?: string; // How long the plan stays open, e.g. "12h" or "3d" (default: 7d)
+}
+
 export interface Tool {
   name: string;
   description: string;
@@ -314,7 +436,7 @@ export interface WorkflowStep {
   name?: string;
   id?: string;
   uses?: string;
-  with?: Record<string, string | boolean>;
+  with?: Record<string, string | number | boolean>;
   run?: string;
   env?: Record<string, string>;
   if?: string;
@@ -477,6 +599,39 @@ export interface ContextConfig {
   project_id?: string; // GitHub Project ID for custom fields (format: PVT_...) - deprecated, use project.project_id
   include_dependencies?: boolean; // Include issue blocking/blocked-by relationships
   include_custom_fields?: string[]; // Custom field names to include from Projects - deprecated, use project config
+  budget?: ContextBudgetConfig; // Size limit for the collected context
+}
+
+// Sources of collected context, named after their key in ContextConfig
+export type ContextSource =
+  | "issues"
+  | "pull_requests"
+  | "discussions"
+  | "commits"
+  | "releases"
+  | "workflow_runs"
+  | "stars"
+  | "forks"
+  | "security_alerts"
+  | "dependabot_prs"
+  | "code_scanning_alerts"
+  | "deployments"
+  | "milestones"
+  | "contributors"
+  | "comments"
+  | "repository_traffic"
+  | "branches"
+  | "check_runs"
+  | "project"
+  | "documentation";
+
+export type ContextPriority = "high" | "medium" | "low";
+
+export interface ContextBudgetConfig {
+  tokens?: number; // Approximate token limit (4 characters per token)
+  characters?: number; // Character limit, instead of tokens
+  item_characters?: number; // Truncate each item (issue, PR, ...) to this many characters
+  priorities?: Partial<Record<ContextSource, ContextPriority>>; // Default: medium
 }
 
 // Documentation Generation Types
@@ -740,7 +895,10 @@ export type TriggerEventType =
   | "discussion"
   | "schedule"
   | "workflow_dispatch"
-  | "repository_dispatch";
+  | "repository_dispatch"
+  | "push"
+  | "release"
+  | "workflow_run";
 
 export interface RoutingRule {
   agentName: string;
@@ -780,6 +938,17 @@ export interface AuditManifest {
   outputs: AuditOutputsPhase;
   failures: AuditFailureSummary;
   issues: AuditIssue[];
+  context?: AuditContextBudget; // Present when the agent has a context budget
+}
+
+export interface AuditContextBudget {
+  limit_characters: number;
+  collected_characters: number; // Before the budget was applied
+  final_characters: number;
+  truncated_items: number;
+  summarized: ContextSource[]; // Sections reduced to a list of their items
+  dropped: ContextSource[]; // Sections left out entirely
+  cut: boolean; // Whether the remaining context was cut at the limit
 }
 
 export interface AuditMetadata {
@@ -801,6 +970,7 @@ export interface AuditMetadata {
     repository: string;
     ref?: string;
     sha?: string;
+    number?: number; // Issue, PR or discussion the event is about
   };
   timing: {
     workflow_started_at: string;
@@ -841,9 +1011,11 @@ export interface AuditExecutionPhase {
     model?: string;
     input_tokens?: number;
     output_tokens?: number;
+    context_api?: ApiUsage; // GitHub API use of context collection
   };
   conversation_file?: string;
   tool_usage: AuditToolUsageSummary;
+  trace?: AuditTraceSummary;
   result?: string;
   error?: {
     type: string;
@@ -852,6 +1024,20 @@ export interface AuditExecutionPhase {
   };
 }
 
+export interface ApiUsage {
+  rest_requests: number; // REST requests answered with data
+  cached_responses: number; // Conditional requests answered 304 Not Modified
+  graphql_queries: number;
+  points: number; // Rate limit points: 1 per REST request, the query cost for GraphQL
+}
+
+export interface AuditTraceSummary {
+  trace_id: string;
+  level: TraceLevel;
+  file: string; // Path of the trace within the agent's audit artifact
+  timeline: string; // Formatted with formatTraceTimeline
+}
+
 export interface AuditToolUsageSummary {
   total_calls: number;
   by_tool: Record<
@@ -876,6 +1062,14 @@ export interface AuditOutputsPhase {
   configured_count: number;
   executed_count: number;
   results: AuditOutputResult[];
+  deduplicated?: AuditDeduplicatedAction[]; // Actions skipped by action deduplication
+}
+
+export interface AuditDeduplicatedAction {
+  type: string; // Output type
+  file: string; // Output file that was skipped
+  reason: string;
+  previous_timestamp?: string; // When the matching action was performed
 }
 
 export interface AuditOutputResult {
@@ -927,6 +1121,7 @@ export interface CombinedAuditManifest {
   workflow_run_id: string;
   workflow_run_url: string;
   agents: AuditManifest[];
+  skipped?: Array<{ agent: string; reason: string }>; // Agents (by slug) the dispatcher skipped
   summary: {
     total_agents: number;
     successful_agents: number;